@@ -1,47 +1,36 @@
-import crypto from 'crypto';
-import fetch, { Response } from 'node-fetch';
-import OpenAI from 'openai';
-
 import { config, isProviderConfigured } from '../config/environment';
 import { metrics } from '../../../../src/utils/metrics';
 import { logger, logPerformance } from '../../../../src/utils/logger';
 import { InternalServerError } from '../../../../src/middleware/errorHandler';
+import {
+  EmbeddingProvider,
+  EmbeddingProviderError,
+  EmbeddingProviderName,
+  EmbeddingProviderRegistry,
+  createEmbeddingRegistry,
+  isEmbeddingProviderName
+} from '../../../../src/services/embeddingProviders';
 
-export type EmbeddingProviderName = 'openai' | 'azure' | 'local';
+export type { EmbeddingProviderName };
 
 export interface EmbeddingContext {
   organizationId?: string;
   userId?: string;
   memoryId?: string;
   operation?: string;
+  /** Provider selected for the organization; tried before the priority list */
+  preferredProvider?: EmbeddingProviderName;
 }
 
 export interface EmbeddingResponse {
   embedding: number[];
   model: string;
   provider: EmbeddingProviderName;
+  dimensions: number;
   tokensUsed: number;
   costUSD: number;
 }
 
-class EmbeddingProviderError extends Error {
-  constructor(
-    message: string,
-    public readonly provider: EmbeddingProviderName,
-    public readonly cause?: unknown
-  ) {
-    super(message);
-    this.name = 'EmbeddingProviderError';
-  }
-}
-
-interface EmbeddingProvider {
-  readonly name: EmbeddingProviderName;
-  readonly defaultModel: string;
-  isAvailable(): boolean;
-  generateEmbedding(text: string, context?: EmbeddingContext): Promise<EmbeddingResponse>;
-}
-
 const sanitizeInput = (text: string): string => {
   const trimmed = text.trim();
   const maxLength = 8000;
@@ -52,166 +41,43 @@ const sanitizeInput = (text: string): string => {
   return trimmed.slice(0, maxLength);
 };
 
-const approximateTokens = (text: string): number => {
-  if (!text) return 0;
-  return Math.max(1, Math.ceil(text.length / 4));
-};
-
 const sleep = (ms: number): Promise<void> => new Promise(resolve => setTimeout(resolve, ms));
 
-class OpenAIEmbeddingProvider implements EmbeddingProvider {
-  public readonly name: EmbeddingProviderName = 'openai';
-  public readonly defaultModel: string;
-  private readonly client: OpenAI | null;
-
-  constructor(model: string, apiKey?: string) {
-    this.defaultModel = model;
-    this.client = apiKey ? new OpenAI({ apiKey }) : null;
-  }
-
-  isAvailable(): boolean {
-    return Boolean(this.client);
+const costPer1kTokens = (provider: EmbeddingProviderName): number => {
+  switch (provider) {
+    case 'openai':
+      return config.openai.costPer1kTokens;
+    case 'azure':
+      return config.azure.costPer1kTokens;
+    default:
+      return 0;
   }
+};
 
-  async generateEmbedding(text: string): Promise<EmbeddingResponse> {
-    if (!this.client) {
-      throw new EmbeddingProviderError('OpenAI client is not configured', this.name);
-    }
-
-    try {
-      const response = await this.client.embeddings.create({
-        model: this.defaultModel,
-        input: sanitizeInput(text)
-      });
-
-      const embedding = response.data?.[0]?.embedding;
-      if (!embedding || embedding.length === 0) {
-        throw new EmbeddingProviderError('OpenAI returned an empty embedding', this.name);
-      }
-
-      const tokensUsed = response.usage?.total_tokens ?? approximateTokens(text);
-      const costUSD = (tokensUsed / 1000) * config.openai.costPer1kTokens;
-
-      return {
-        embedding,
-        model: response.model ?? this.defaultModel,
-        provider: this.name,
-        tokensUsed,
-        costUSD
-      };
-    } catch (error) {
-      throw new EmbeddingProviderError('OpenAI embedding request failed', this.name, error);
-    }
-  }
-}
-
-class AzureOpenAIEmbeddingProvider implements EmbeddingProvider {
-  public readonly name: EmbeddingProviderName = 'azure';
-  public readonly defaultModel: string;
-
-  constructor(
-    private readonly endpoint?: string,
-    private readonly apiKey?: string,
-    private readonly deployment?: string,
-    private readonly apiVersion?: string,
-    private readonly costPer1kTokens?: number
-  ) {
-    this.defaultModel = deployment ?? 'azure-embedding';
-  }
-
-  isAvailable(): boolean {
-    return Boolean(this.endpoint && this.apiKey && this.deployment);
-  }
-
-  async generateEmbedding(text: string): Promise<EmbeddingResponse> {
-    if (!this.isAvailable() || !this.endpoint || !this.apiKey || !this.deployment) {
-      throw new EmbeddingProviderError('Azure OpenAI is not properly configured', this.name);
-    }
-
-    const url = `${this.endpoint.replace(/\/+$/, '')}/openai/deployments/${this.deployment}/embeddings?api-version=${this.apiVersion}`;
-
-    const payload = {
-      input: sanitizeInput(text)
-    };
-
-    let response: Response;
-    try {
-      response = await fetch(url, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'api-key': this.apiKey
-        },
-        body: JSON.stringify(payload)
-      });
-    } catch (error) {
-      throw new EmbeddingProviderError('Azure OpenAI network error', this.name, error);
-    }
-
-    if (!response.ok) {
-      const errorBody = await response.text().catch(() => undefined);
-      throw new EmbeddingProviderError(
-        `Azure OpenAI returned HTTP ${response.status}`,
-        this.name,
-        errorBody
-      );
-    }
-
-    const json = await response.json();
-    const embedding = json?.data?.[0]?.embedding as number[] | undefined;
-
-    if (!embedding || embedding.length === 0) {
-      throw new EmbeddingProviderError('Azure OpenAI returned an empty embedding', this.name, json);
-    }
-
-    const tokensUsed = json?.usage?.total_tokens ?? approximateTokens(text);
-    const costPer1k = this.costPer1kTokens ?? config.azure.costPer1kTokens;
-    const costUSD = (tokensUsed / 1000) * costPer1k;
-
-    return {
-      embedding,
-      model: this.defaultModel,
-      provider: this.name,
-      tokensUsed,
-      costUSD
-    };
-  }
-}
-
-class LocalEmbeddingProvider implements EmbeddingProvider {
-  public readonly name: EmbeddingProviderName = 'local';
-  public readonly defaultModel = 'local-hash-embedding';
-
-  constructor(private readonly dimension: number) {}
-
-  isAvailable(): boolean {
-    return true;
-  }
-
-  async generateEmbedding(text: string): Promise<EmbeddingResponse> {
-    const normalized = sanitizeInput(text);
-    const hash = crypto.createHash('sha256').update(normalized).digest();
-    const embedding: number[] = Array.from({ length: this.dimension }, (_, index) => {
-      const value = hash[index % hash.length];
-      return (value / 255) * 2 - 1; // Normalize to [-1, 1]
-    });
-
-    const tokensUsed = approximateTokens(normalized);
-
-    return {
-      embedding,
-      model: this.defaultModel,
-      provider: this.name,
-      tokensUsed,
-      costUSD: 0
-    };
-  }
-}
+/**
+ * Shared registry configured from the mcp-core environment, so this service
+ * and the REST API produce comparable vectors for the same provider.
+ */
+const createRegistry = (): EmbeddingProviderRegistry =>
+  createEmbeddingRegistry({
+    defaultProvider: config.providerPriority[0],
+    openai: { apiKey: config.openai.apiKey, model: config.openai.model },
+    azure: {
+      endpoint: config.azure.endpoint,
+      apiKey: config.azure.apiKey,
+      deployment: config.azure.deployment,
+      apiVersion: config.azure.apiVersion
+    },
+    local: { dimensions: config.embedding.localDimension }
+  });
 
 export class EmbeddingService {
   private readonly providers: EmbeddingProvider[];
+  private readonly registry: EmbeddingProviderRegistry;
+
+  constructor(providers?: EmbeddingProvider[], registry: EmbeddingProviderRegistry = createRegistry()) {
+    this.registry = registry;
 
-  constructor(providers?: EmbeddingProvider[]) {
     if (providers?.length) {
       this.providers = providers;
       return;
@@ -220,51 +86,59 @@ export class EmbeddingService {
     const instantiatedProviders: EmbeddingProvider[] = [];
 
     for (const providerName of config.providerPriority) {
-      if (!isProviderConfigured(providerName)) {
+      if (!isProviderConfigured(providerName) || !isEmbeddingProviderName(providerName)) {
         continue;
       }
 
-      if (providerName === 'openai') {
-        instantiatedProviders.push(
-          new OpenAIEmbeddingProvider(config.openai.model, config.openai.apiKey)
-        );
-      } else if (providerName === 'azure') {
-        instantiatedProviders.push(
-          new AzureOpenAIEmbeddingProvider(
-            config.azure.endpoint,
-            config.azure.apiKey,
-            config.azure.deployment,
-            config.azure.apiVersion,
-            config.azure.costPer1kTokens
-          )
-        );
-      } else if (providerName === 'local') {
-        instantiatedProviders.push(
-          new LocalEmbeddingProvider(config.embedding.localDimension)
-        );
+      const provider = registry.get(providerName);
+      if (provider) {
+        instantiatedProviders.push(provider);
       }
     }
 
     // Always ensure we have at least one provider
     if (instantiatedProviders.length === 0) {
-      instantiatedProviders.push(new LocalEmbeddingProvider(config.embedding.localDimension));
+      instantiatedProviders.push(registry.resolve('local'));
     }
 
     this.providers = instantiatedProviders;
   }
 
+  /**
+   * Providers to try for a request: the organization's choice first, then
+   * the configured priority list.
+   */
+  private candidates(context?: EmbeddingContext): EmbeddingProvider[] {
+    const preferred = context?.preferredProvider ? this.registry.get(context.preferredProvider) : undefined;
+    if (!preferred || !preferred.isAvailable()) {
+      return this.providers;
+    }
+    return [preferred, ...this.providers.filter(provider => provider !== preferred)];
+  }
+
   private async executeWithRetry(
     provider: EmbeddingProvider,
-    text: string,
-    context?: EmbeddingContext
+    text: string
   ): Promise<EmbeddingResponse> {
     let attempt = 0;
     let lastError: unknown = null;
 
     while (attempt <= config.embedding.maxRetries) {
       try {
-        const response = await provider.generateEmbedding(text, context);
-        return response;
+        const batch = await provider.embed([text]);
+        const embedding = batch.embeddings[0];
+        if (!embedding?.length) {
+          throw new EmbeddingProviderError('Provider returned an empty embedding', provider.provider);
+        }
+
+        return {
+          embedding,
+          model: batch.model,
+          provider: batch.provider,
+          dimensions: batch.dimensions,
+          tokensUsed: batch.tokensUsed,
+          costUSD: (batch.tokensUsed / 1000) * costPer1kTokens(batch.provider)
+        };
       } catch (error) {
         lastError = error;
         attempt += 1;
@@ -275,7 +149,7 @@ export class EmbeddingService {
 
         const backoff = config.embedding.retryDelayMs * Math.pow(2, attempt - 1);
         logger.warn('Embedding provider attempt failed', {
-          provider: provider.name,
+          provider: provider.provider,
           attempt,
           maxRetries: config.embedding.maxRetries,
           backoff
@@ -285,7 +159,7 @@ export class EmbeddingService {
       }
     }
 
-    throw lastError ?? new EmbeddingProviderError('Unknown embedding failure', provider.name);
+    throw lastError ?? new EmbeddingProviderError('Unknown embedding failure', provider.provider);
   }
 
   async generateEmbedding(text: string, context?: EmbeddingContext): Promise<EmbeddingResponse> {
@@ -297,36 +171,36 @@ export class EmbeddingService {
     const startTime = Date.now();
     let lastError: unknown = null;
 
-    for (const provider of this.providers) {
+    for (const provider of this.candidates(context)) {
       if (!provider.isAvailable()) {
         continue;
       }
 
       try {
-        const response = await this.executeWithRetry(provider, sanitized, context);
+        const response = await this.executeWithRetry(provider, sanitized);
 
         metrics.incrementCounter('embedding_requests_total', {
-          provider: provider.name,
+          provider: provider.provider,
           model: response.model,
           outcome: 'success'
         });
 
         if (response.tokensUsed > 0) {
           metrics.incrementCounter('embedding_tokens_total', {
-            provider: provider.name,
+            provider: provider.provider,
             model: response.model
           }, response.tokensUsed);
         }
 
         if (response.costUSD > 0) {
           metrics.incrementCounter('embedding_cost_usd_total', {
-            provider: provider.name,
+            provider: provider.provider,
             model: response.model
           }, response.costUSD);
         }
 
         logPerformance('embedding_generation', Date.now() - startTime, {
-          provider: provider.name,
+          provider: provider.provider,
           model: response.model,
           organizationId: context?.organizationId,
           operation: context?.operation ?? 'unknown'
@@ -336,20 +210,20 @@ export class EmbeddingService {
       } catch (error) {
         lastError = error;
         metrics.incrementCounter('embedding_requests_total', {
-          provider: provider.name,
-          model: provider.defaultModel,
+          provider: provider.provider,
+          model: provider.model,
           outcome: 'failure'
         });
 
         logger.warn('Embedding provider failed, attempting fallback', {
-          provider: provider.name,
+          provider: provider.provider,
           error: error instanceof Error ? error.message : 'unknown'
         });
       }
     }
 
     logger.error('All embedding providers failed', {
-      providers: this.providers.map(p => p.name),
+      providers: this.candidates(context).map(p => p.provider),
       lastError: lastError instanceof Error ? lastError.message : lastError
     });
 
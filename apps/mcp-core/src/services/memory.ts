@@ -12,6 +12,10 @@ import {
   UpdateMemoryRequest
 } from '../types/memory';
 import { EmbeddingService } from './embedding';
+import {
+  OrganizationEmbeddingSelector,
+  getEmbeddingRegistry
+} from '../../../../src/services/embeddingProviders';
 
 import { logger, logPerformance } from '../../../../src/utils/logger';
 import { metrics } from '../../../../src/utils/metrics';
@@ -79,9 +83,34 @@ const ensureMetadataObject = (
 export class MemoryService {
   private readonly supabase = getSupabaseClient();
   private readonly embeddingService: EmbeddingService;
+  private readonly providerSelection: OrganizationEmbeddingSelector;
 
   constructor(embeddingService: EmbeddingService = new EmbeddingService()) {
     this.embeddingService = embeddingService;
+    this.providerSelection = new OrganizationEmbeddingSelector(
+      getEmbeddingRegistry(),
+      organizationId => this.lookupEmbeddingProvider(organizationId)
+    );
+  }
+
+  /**
+   * Provider chosen in organizations.settings.embedding_provider, shared with
+   * the REST API so both write paths embed into the same vector space.
+   */
+  private async lookupEmbeddingProvider(organizationId: string): Promise<string | null> {
+    const { data, error } = await this.supabase
+      .from('organizations')
+      .select('settings')
+      .eq('id', organizationId)
+      .maybeSingle();
+
+    if (error) {
+      logger.warn('Failed to read organization embedding settings', { error, organizationId });
+      return null;
+    }
+
+    const settings = (data?.settings ?? {}) as Record<string, unknown>;
+    return typeof settings.embedding_provider === 'string' ? settings.embedding_provider : null;
   }
 
   async createMemory(id: string, params: CreateMemoryParams): Promise<MemoryEntry> {
@@ -96,7 +125,8 @@ export class MemoryService {
         organizationId: params.organization_id,
         userId: params.user_id,
         memoryId: id,
-        operation: 'create'
+        operation: 'create',
+        preferredProvider: (await this.providerSelection.selection(params.organization_id)) ?? undefined
       });
 
       const now = new Date().toISOString();
@@ -118,6 +148,9 @@ export class MemoryService {
         user_id: params.user_id,
         organization_id: params.organization_id,
         embedding: embedding.embedding,
+        embedding_provider: embedding.provider,
+        embedding_model: embedding.model,
+        embedding_dimensions: embedding.dimensions,
         metadata,
         created_at: now,
         updated_at: now,
@@ -212,10 +245,12 @@ export class MemoryService {
     const rangeStart = (page - 1) * limit;
     const rangeEnd = rangeStart + limit - 1;
 
+    // Trashed memories stay restorable through the REST API but are not listed
     let query = this.supabase
       .from('memory_entries')
       .select('*', { count: 'exact' })
-      .eq('organization_id', organizationId);
+      .eq('organization_id', organizationId)
+      .neq('state', 'deleted');
 
     if (filters.user_id) {
       query = query.eq('user_id', filters.user_id);
@@ -278,7 +313,8 @@ export class MemoryService {
       const embedding = await this.embeddingService.generateEmbedding(query, {
         organizationId,
         userId: filters.user_id,
-        operation: 'search'
+        operation: 'search',
+        preferredProvider: (await this.providerSelection.selection(organizationId)) ?? undefined
       });
 
       const rpcPayload = {
@@ -289,7 +325,11 @@ export class MemoryService {
         memory_types_param: filters.memory_types ?? null,
         tags_param: filters.tags ?? null,
         topic_id_param: filters.topic_id ?? null,
-        user_id_param: filters.user_id ?? null
+        user_id_param: filters.user_id ?? null,
+        // Only compare against rows embedded with the same profile as the query
+        embedding_provider_param: embedding.provider,
+        embedding_model_param: embedding.model,
+        embedding_dimensions_param: embedding.dimensions
       };
 
       const { data, error } = await this.supabase
@@ -366,11 +406,15 @@ export class MemoryService {
           organizationId: params.organization_id,
           userId: params.user_id,
           memoryId: id,
-          operation: 'update'
+          operation: 'update',
+          preferredProvider: (await this.providerSelection.selection(params.organization_id)) ?? undefined
         });
 
         updatePayload.content = params.content;
         updatePayload.embedding = embedding.embedding;
+        updatePayload.embedding_provider = embedding.provider;
+        updatePayload.embedding_model = embedding.model;
+        updatePayload.embedding_dimensions = embedding.dimensions;
         embeddingTokens = embedding.tokensUsed;
         embeddingProvider = embedding.provider;
 
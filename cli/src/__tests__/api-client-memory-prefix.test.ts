@@ -75,7 +75,7 @@ describe('APIClient memory prefix handling', () => {
     const memory = await client.getMemory('12345678');
 
     expect(mockAxiosInstance.get).toHaveBeenNthCalledWith(1, '/api/v1/memories', {
-      params: { page: 1, limit: 100 },
+      params: { page: 1, limit: 100, state: 'all' },
     });
     expect(mockAxiosInstance.get).toHaveBeenNthCalledWith(
       2,
@@ -44,6 +44,7 @@ describe('LanonasisMCPServer memory tool argument handling', () => {
     getMemory: ReturnType<typeof jest.fn>;
     updateMemory: ReturnType<typeof jest.fn>;
     deleteMemory: ReturnType<typeof jest.fn>;
+    transitionMemory: ReturnType<typeof jest.fn>;
   };
 
   beforeEach(() => {
@@ -51,6 +52,7 @@ describe('LanonasisMCPServer memory tool argument handling', () => {
       getMemory: jest.fn().mockResolvedValue({ id: '12345678' }),
       updateMemory: jest.fn().mockResolvedValue({ id: '12345678', title: 'Updated' }),
       deleteMemory: jest.fn().mockResolvedValue(undefined),
+      transitionMemory: jest.fn().mockResolvedValue({ id: '12345678', state: 'archived' }),
     };
 
     server = new LanonasisMCPServer();
@@ -88,4 +90,18 @@ describe('LanonasisMCPServer memory tool argument handling', () => {
 
     expect(apiClient.deleteMemory).toHaveBeenCalledWith('12345678');
   });
+
+  it('forwards permanent deletes explicitly', async () => {
+    await server.handleToolCall('memory_delete', { id: '12345678', permanent: true });
+
+    expect(apiClient.deleteMemory).toHaveBeenCalledWith('12345678', { permanent: true });
+  });
+
+  it('maps lifecycle tools to the matching transition', async () => {
+    await server.handleToolCall('memory_archive', { id: '12345678', reason: 'stale' });
+    await server.handleToolCall('memory_restore', { memory_id: '12345678' });
+
+    expect(apiClient.transitionMemory).toHaveBeenNthCalledWith(1, '12345678', 'archive', 'stale');
+    expect(apiClient.transitionMemory).toHaveBeenNthCalledWith(2, '12345678', 'restore', undefined);
+  });
 });
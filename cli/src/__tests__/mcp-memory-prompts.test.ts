@@ -0,0 +1,80 @@
+import { beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { MemoryPromptProvider } from '../mcp/server/memory-prompts.js';
+
+const memory = (overrides: Record<string, unknown>) => ({
+  id: 'm1',
+  title: 'Memory',
+  content: 'content',
+  memory_type: 'context',
+  tags: [] as string[],
+  user_id: 'u1',
+  organization_id: 'o1',
+  created_at: '2026-10-01T00:00:00Z',
+  updated_at: '2026-10-01T00:00:00Z',
+  access_count: 0,
+  ...overrides,
+});
+
+describe('MemoryPromptProvider', () => {
+  let api: {
+    searchMemories: ReturnType<typeof jest.fn>;
+    getMemories: ReturnType<typeof jest.fn>;
+    getTopics: ReturnType<typeof jest.fn>;
+  };
+  let provider: MemoryPromptProvider;
+
+  beforeEach(() => {
+    api = {
+      searchMemories: jest.fn(async () => ({
+        data: [memory({ id: 'a1', title: 'Gateway routing', content: 'Route MCP through the gateway', similarity_score: 0.82 })],
+      })),
+      getMemories: jest.fn(async () => ({
+        data: [
+          memory({ id: 'd1', title: 'Use pnpm', tags: ['decision', 'lanonasis-maas'] }),
+          memory({ id: 'd2', title: 'Unrelated', tags: ['decision', 'other-repo'] }),
+          memory({ id: 'd3', title: 'Deploy notes', tags: ['deploy', 'decision'] }),
+        ],
+      })),
+      getTopics: jest.fn(async () => [
+        { id: 't1', name: 'Infrastructure' },
+        { id: 't2', name: 'Interviews' },
+        { id: 't3', name: 'Billing' },
+      ]),
+    };
+    provider = new MemoryPromptProvider(api as never);
+  });
+
+  it('recall_for_task embeds search results with citations and resolves topic names', async () => {
+    const result = await provider.get('recall_for_task', { task: 'fix MCP routing', k: '3', topic: 'infrastructure' });
+
+    expect(api.searchMemories).toHaveBeenCalledWith('fix MCP routing', { limit: 3, topic_id: 't1' });
+    const text = result.messages[0].content.text;
+    expect(text).toContain('[1] Gateway routing');
+    expect(text).toContain('memory://a1');
+    expect(text).toContain('relevance: 82%');
+    expect(text).toContain('cite them as [n]');
+  });
+
+  it('review_decisions keeps only decisions that mention the repo', async () => {
+    const result = await provider.get('review_decisions', { repo: 'lanonasis-maas' });
+
+    expect(api.getMemories).toHaveBeenCalledWith(expect.objectContaining({ tags: ['decision'] }));
+    const text = result.messages[0].content.text;
+    expect(text).toContain('Use pnpm');
+    expect(text).not.toContain('Unrelated');
+
+    await expect(provider.get('review_decisions', {})).rejects.toThrow('Missing required argument(s) for review_decisions: repo');
+  });
+
+  it('completes topic names and the last entry of a tag list', async () => {
+    await expect(provider.complete('summarize_topic', 'topic', 'in')).resolves.toEqual({
+      values: ['Infrastructure', 'Interviews'],
+      total: 2,
+      hasMore: false,
+    });
+
+    const tags = await provider.complete('recall_for_task', 'tags', 'decision, de');
+    expect(tags.values).toEqual(['decision,deploy']);
+    await expect(provider.complete('recall_for_task', 'task', 'x')).resolves.toEqual({ values: [], total: 0, hasMore: false });
+  });
+});
@@ -0,0 +1,136 @@
+import { beforeEach, describe, expect, it, jest } from '@jest/globals';
+
+const mockAxiosInstance = {
+  interceptors: {
+    request: { use: jest.fn() },
+    response: { use: jest.fn() },
+  },
+  defaults: {},
+  get: jest.fn(),
+  post: jest.fn(),
+  put: jest.fn(),
+  delete: jest.fn(),
+  request: jest.fn(),
+};
+
+const handlers = new Map<unknown, (request: any) => Promise<any>>();
+const sendResourceUpdated = jest.fn(async () => undefined);
+const sendResourceListChanged = jest.fn(async () => undefined);
+
+const MockServer = jest.fn().mockImplementation(() => ({
+  setRequestHandler: jest.fn((schema: unknown, handler: (request: any) => Promise<any>) => {
+    handlers.set(schema, handler);
+  }),
+  sendResourceUpdated,
+  sendResourceListChanged,
+}));
+
+jest.unstable_mockModule('axios', () => ({
+  default: { create: jest.fn(() => mockAxiosInstance) },
+  create: jest.fn(() => mockAxiosInstance),
+}));
+
+jest.unstable_mockModule('@modelcontextprotocol/sdk/server/index.js', () => ({
+  Server: MockServer,
+}));
+
+jest.unstable_mockModule('@modelcontextprotocol/sdk/server/stdio.js', () => ({
+  StdioServerTransport: jest.fn(),
+}));
+
+const types = await import('@modelcontextprotocol/sdk/types.js');
+const { LanonasisMCPServer } = await import('../mcp/server/lanonasis-server.js');
+const { ResourceSubscriptionManager, memoryIdFromUri } = await import('../mcp/server/resource-subscriptions.js');
+
+describe('ResourceSubscriptionManager', () => {
+  it('detects updates, deletes and list changes between polls', async () => {
+    const notifyUpdated = jest.fn(async (_uri: string) => undefined);
+    const notifyListChanged = jest.fn(async () => undefined);
+    let memory: { id: string; updated_at: string } | null = { id: 'm1', updated_at: '2026-10-01T00:00:00Z' };
+    let recent = ['m1'];
+
+    const manager = new ResourceSubscriptionManager({
+      notifyUpdated,
+      notifyListChanged,
+      fetchMemory: async () => memory,
+      fetchRecentIds: async () => recent,
+      pollInterval: 0,
+    });
+    manager.subscribe('memory://m1');
+    manager.subscribe('memory://recent');
+
+    await manager.poll();
+    expect(notifyUpdated).not.toHaveBeenCalled();
+
+    memory = { id: 'm1', updated_at: '2026-10-02T00:00:00Z' };
+    await manager.poll();
+    expect(notifyUpdated.mock.calls.map(([uri]) => uri)).toEqual(['memory://m1', 'memory://recent']);
+    expect(notifyListChanged).not.toHaveBeenCalled();
+
+    notifyUpdated.mockClear();
+    memory = null;
+    recent = [];
+    await manager.poll();
+    expect(notifyUpdated).toHaveBeenCalledWith('memory://m1');
+    expect(notifyListChanged).toHaveBeenCalledTimes(1);
+
+    expect(memoryIdFromUri('memory://recent')).toBeNull();
+    expect(memoryIdFromUri('memory://abc-123')).toBe('abc-123');
+  });
+});
+
+describe('LanonasisMCPServer resources', () => {
+  let server: any;
+  let apiClient: Record<string, ReturnType<typeof jest.fn>>;
+
+  beforeEach(async () => {
+    handlers.clear();
+    sendResourceUpdated.mockClear();
+    sendResourceListChanged.mockClear();
+
+    apiClient = {
+      getMemory: jest.fn(async (id: string) => ({ id, title: 'Note' })),
+      getTopic: jest.fn(async (id: string) => ({ id, name: 'Topic' })),
+      searchMemories: jest.fn(async () => ({ data: [] })),
+      getMemories: jest.fn(async () => ({ data: [{ id: 'm1', title: 'Note', memory_type: 'context' }] })),
+    };
+
+    server = new LanonasisMCPServer({ resourcePollInterval: 0 });
+    server.apiClient = apiClient;
+    await server.registerResources();
+  });
+
+  it('advertises templates and reads templated URIs', async () => {
+    const templates = await handlers.get(types.ListResourceTemplatesRequestSchema)!({ params: {} });
+    expect(templates.resourceTemplates.map((t: { uriTemplate: string }) => t.uriTemplate))
+      .toEqual(['memory://{id}', 'topic://{id}', 'search://{query}']);
+
+    const list = await handlers.get(types.ListResourcesRequestSchema)!({ params: {} });
+    expect(list.resources.map((r: { uri: string }) => r.uri)).toContain('memory://m1');
+
+    const read = handlers.get(types.ReadResourceRequestSchema)!;
+    await read({ params: { uri: 'memory://m1' } });
+    await read({ params: { uri: 'topic://t1' } });
+    await read({ params: { uri: 'search://deploy%20plan' } });
+    expect(apiClient.getMemory).toHaveBeenCalledWith('m1');
+    expect(apiClient.getTopic).toHaveBeenCalledWith('t1');
+    expect(apiClient.searchMemories).toHaveBeenCalledWith('deploy plan', { limit: 10 });
+  });
+
+  it('notifies subscribers when a tool changes a memory', async () => {
+    await handlers.get(types.SubscribeRequestSchema)!({ params: { uri: 'memory://m1' } });
+
+    await server.publishMemoryChange('memory_update', { id: 'm1' }, { id: 'm1' });
+    expect(sendResourceUpdated).toHaveBeenCalledWith({ uri: 'memory://m1' });
+    expect(sendResourceListChanged).not.toHaveBeenCalled();
+
+    await server.publishMemoryChange('memory_create', {}, { id: 'm2' });
+    expect(sendResourceListChanged).toHaveBeenCalledTimes(1);
+
+    await handlers.get(types.UnsubscribeRequestSchema)!({ params: { uri: 'memory://m1' } });
+    sendResourceUpdated.mockClear();
+    await server.publishMemoryChange('memory_delete', { id: 'm1' }, undefined);
+    expect(sendResourceUpdated).not.toHaveBeenCalled();
+    expect(sendResourceListChanged).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,219 @@
+import { afterEach, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { createServer, Server as HttpServer } from 'http';
+import { AddressInfo } from 'net';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import { APIClient } from '../utils/api.js';
+import { CLIConfig } from '../utils/config.js';
+import { LanonasisMCPServer } from '../mcp/server/lanonasis-server.js';
+import { BufferedEventStore } from '../mcp/server/streamable-http.js';
+import { ResourceSubscriptionManager } from '../mcp/server/resource-subscriptions.js';
+
+// Credentials the mocked auth gateway accepts, with the scopes it reports
+const GATEWAY_CREDENTIALS: Record<string, { id: string; scope?: string; organization_id?: string }> = {
+  'read-token': { id: 'user-reader', scope: 'mcp:connect memory:read' },
+  'second-read-token': { id: 'user-reader', scope: 'mcp:connect memory:read' },
+  'write-token': { id: 'user-writer', scope: 'mcp:connect memory:read memory:write' },
+  'no-connect-token': { id: 'user-limited', scope: 'memory:read' },
+  'unscoped-token': { id: 'user-unscoped' },
+  'team-write-token': { id: 'user-team-a', organization_id: 'org-1', scope: 'mcp:connect memory:read memory:write' },
+  'team-read-token': { id: 'user-team-b', organization_id: 'org-1', scope: 'mcp:connect memory:read' },
+};
+
+const base64url = (value: object) => Buffer.from(JSON.stringify(value)).toString('base64url');
+
+/** Serves GET /v1/auth/me for the credentials above and 401 for anything else */
+const startAuthGateway = async (): Promise<HttpServer> => {
+  const gateway = createServer((req, res) => {
+    const bearer = req.headers.authorization?.replace(/^Bearer /, '');
+    const credential = bearer || (req.headers['x-api-key'] as string | undefined);
+    const profile = req.url === '/v1/auth/me' && credential ? GATEWAY_CREDENTIALS[credential] : undefined;
+
+    res.writeHead(profile ? 200 : 401, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(profile ? { email: `${profile.id}@example.com`, role: 'user', ...profile } : { error: 'invalid_token' }));
+  });
+  await new Promise<void>((resolve) => gateway.listen(0, '127.0.0.1', resolve));
+  return gateway;
+};
+
+describe('LanonasisMCPServer streamable HTTP transport', () => {
+  let server: any;
+  let gateway: HttpServer;
+  let endpoint: URL;
+  let clients: Client[];
+
+  const initialize = JSON.stringify({
+    jsonrpc: '2.0',
+    id: 1,
+    method: 'initialize',
+    params: { protocolVersion: '2025-03-26', capabilities: {}, clientInfo: { name: 'raw', version: '1.0.0' } },
+  });
+  const headers = { 'Content-Type': 'application/json', Accept: 'application/json, text/event-stream' };
+
+  const connect = async (token: string) => {
+    const client = new Client({ name: 'http-test', version: '1.0.0' });
+    await client.connect(new StreamableHTTPClientTransport(endpoint, {
+      requestInit: { headers: { Authorization: `Bearer ${token}` } },
+    }));
+    clients.push(client);
+    return client;
+  };
+
+  beforeEach(async () => {
+    clients = [];
+    gateway = await startAuthGateway();
+    const authBase = `http://127.0.0.1:${(gateway.address() as AddressInfo).port}`;
+
+    const get = CLIConfig.prototype.get;
+    jest.spyOn(CLIConfig.prototype, 'discoverServices').mockResolvedValue(undefined);
+    jest.spyOn(CLIConfig.prototype, 'get').mockImplementation(function (this: CLIConfig, key: string) {
+      return key === 'discoveredServices' ? { auth_base: authBase } : get.call(this, key);
+    } as typeof get);
+    jest.spyOn(APIClient.prototype, 'getMemory').mockResolvedValue({ id: 'm1', title: 'Note' } as never);
+    jest.spyOn(APIClient.prototype, 'deleteMemory').mockResolvedValue(undefined);
+
+    server = new LanonasisMCPServer({ port: 0, host: '127.0.0.1', resourcePollInterval: 0, sessionIdleTimeout: 0 });
+    const address = await server.startHttpHost();
+    endpoint = new URL(`http://127.0.0.1:${address.port}/mcp`);
+  });
+
+  afterEach(async () => {
+    await Promise.all(clients.map((client) => client.close()));
+    await server.stop();
+    await new Promise((resolve) => gateway.close(resolve));
+    jest.restoreAllMocks();
+  });
+
+  it('enforces the scopes the auth gateway reports per session', async () => {
+    const reader = await connect('read-token');
+
+    const read = await reader.callTool({ name: 'memory_get', arguments: { id: 'm1' } });
+    expect(read.isError).toBeFalsy();
+    expect(APIClient.prototype.getMemory).toHaveBeenCalledWith('m1');
+
+    const denied = await reader.callTool({ name: 'memory_delete', arguments: { id: 'm1' } });
+    expect(denied.isError).toBe(true);
+    expect((denied.content as Array<{ text: string }>)[0].text).toContain('memory_delete requires scope memory:write');
+    expect(APIClient.prototype.deleteMemory).not.toHaveBeenCalled();
+
+    const writer = await connect('write-token');
+    const deleted = await writer.callTool({ name: 'memory_delete', arguments: { id: 'm1' } });
+    expect(deleted.isError).toBeFalsy();
+    expect(APIClient.prototype.deleteMemory).toHaveBeenCalledTimes(1);
+    expect(server.getConnectionPool().size).toBe(2);
+  });
+
+  it('keeps credentials without a scope claim read-only', async () => {
+    const unscoped = await connect('unscoped-token');
+
+    const read = await unscoped.callTool({ name: 'memory_get', arguments: { id: 'm1' } });
+    expect(read.isError).toBeFalsy();
+
+    const write = await unscoped.callTool({ name: 'memory_delete', arguments: { id: 'm1' } });
+    expect(write.isError).toBe(true);
+    expect(APIClient.prototype.deleteMemory).not.toHaveBeenCalled();
+  });
+
+  it('hides operator tools and resources from HTTP sessions', async () => {
+    const writer = await connect('write-token');
+
+    const { tools } = await writer.listTools();
+    const names = tools.map((tool) => tool.name);
+    expect(names).toContain('memory_get');
+    expect(names.filter((name) => /^(system|connection|transport)_/.test(name))).toEqual([]);
+
+    const { resources } = await writer.listResources();
+    expect(resources.map((resource) => resource.uri)).not.toContain('config://current');
+
+    const config = await writer.callTool({ name: 'system_config', arguments: { action: 'get' } });
+    expect(config.isError).toBe(true);
+    await expect(writer.readResource({ uri: 'connections://pool' })).rejects.toThrow('only available over stdio');
+  });
+
+  it('rejects missing, forged and unknown credentials and tokens without mcp:connect', async () => {
+    const anonymous = await fetch(endpoint, { method: 'POST', headers, body: initialize });
+    expect(anonymous.status).toBe(401);
+    expect(anonymous.headers.get('www-authenticate')).toContain('error="invalid_token"');
+
+    // Well-formed but unsigned: its claims must not be trusted
+    const forged = [
+      base64url({ alg: 'none', typ: 'JWT' }),
+      base64url({ sub: 'user-writer', scope: 'mcp:connect memory:read memory:write', exp: Math.floor(Date.now() / 1000) + 3600 }),
+      '',
+    ].join('.');
+    for (const token of [forged, 'made-up-token']) {
+      const response = await fetch(endpoint, {
+        method: 'POST',
+        headers: { ...headers, Authorization: `Bearer ${token}` },
+        body: initialize,
+      });
+      expect(response.status).toBe(401);
+    }
+
+    const noConnect = await fetch(endpoint, {
+      method: 'POST',
+      headers: { ...headers, Authorization: 'Bearer no-connect-token' },
+      body: initialize,
+    });
+    expect(noConnect.status).toBe(403);
+  });
+
+  it('notifies only sessions of the same user or organization about a change', async () => {
+    const memoryChanged = jest.spyOn(ResourceSubscriptionManager.prototype, 'memoryChanged');
+    const teamWriter = await connect('team-write-token');
+    const teammate = await connect('team-read-token');
+    const outsider = await connect('read-token');
+    const subscriptionsOf = (client: Client) =>
+      server.httpSessions.get((client as any)._transport.sessionId).resourceSubscriptions;
+
+    const deleted = await teamWriter.callTool({ name: 'memory_delete', arguments: { id: 'm1' } });
+    expect(deleted.isError).toBeFalsy();
+
+    const notified = memoryChanged.mock.contexts;
+    expect(notified).toHaveLength(2);
+    expect(notified).toEqual(expect.arrayContaining([subscriptionsOf(teamWriter), subscriptionsOf(teammate)]));
+    expect(notified).not.toContain(subscriptionsOf(outsider));
+    expect(notified).not.toContain(server.resourceSubscriptions);
+  });
+
+  it('rejects a session reused with a different credential, even for the same user', async () => {
+    const reader = await connect('read-token');
+    const sessionId = (reader as any)._transport.sessionId as string;
+    const listTools = JSON.stringify({ jsonrpc: '2.0', id: 2, method: 'tools/list', params: {} });
+
+    const reused = await fetch(endpoint, {
+      method: 'POST',
+      headers: { ...headers, Authorization: 'Bearer second-read-token', 'mcp-session-id': sessionId },
+      body: listTools,
+    });
+    expect(reused.status).toBe(403);
+
+    const unknown = await fetch(endpoint, {
+      method: 'POST',
+      headers: { ...headers, Authorization: 'Bearer read-token', 'mcp-session-id': 'missing' },
+      body: listTools,
+    });
+    expect(unknown.status).toBe(404);
+  });
+});
+
+describe('BufferedEventStore', () => {
+  it('replays only later events of the same stream and drops the oldest', async () => {
+    const store = new BufferedEventStore(3);
+    const message = (id: number) => ({ jsonrpc: '2.0' as const, id, result: {} });
+
+    const first = await store.storeEvent('a', message(1));
+    await store.storeEvent('b', message(2));
+    await store.storeEvent('a', message(3));
+
+    const replayed: number[] = [];
+    const streamId = await store.replayEventsAfter(first, {
+      send: async (_eventId, msg) => { replayed.push((msg as { id: number }).id); },
+    });
+    expect(streamId).toBe('a');
+    expect(replayed).toEqual([3]);
+
+    await store.storeEvent('a', message(4));
+    await expect(store.getStreamIdForEventId(first)).resolves.toBeUndefined();
+  });
+});
@@ -0,0 +1,175 @@
+import { describe, it, expect, jest, beforeEach, afterEach } from '@jest/globals';
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { HnswIndex } from '../mcp/vector/hnsw.js';
+import { HashEmbeddingProvider, normalizeVector } from '../mcp/vector/embeddings.js';
+import { LocalVectorBackend } from '../mcp/vector/local-backend.js';
+import { QdrantVectorBackend, qdrantPointId } from '../mcp/vector/qdrant-backend.js';
+import { ChromaVectorBackend } from '../mcp/vector/chroma-backend.js';
+import { VectorSpaceMismatchError } from '../mcp/vector/types.js';
+import { LanonasisVectorStore } from '../mcp/vector-store.js';
+
+// Deterministic PRNG so graph construction is reproducible
+const seeded = (seed: number) => () => {
+  seed = (seed * 1664525 + 1013904223) % 4294967296;
+  return seed / 4294967296;
+};
+
+const randomVector = (random: () => number, dimensions: number) =>
+  normalizeVector(Array.from({ length: dimensions }, () => random() * 2 - 1));
+
+const jsonResponse = (body: unknown, status = 200) => ({
+  ok: status >= 200 && status < 300,
+  status,
+  statusText: '',
+  text: async () => JSON.stringify(body)
+});
+
+describe('HnswIndex', () => {
+  it('finds the same nearest neighbours as exhaustive search and survives serialization', () => {
+    const random = seeded(42);
+    const index = new HnswIndex({ dimensions: 16, m: 8, efConstruction: 64, random });
+    const vectors = Array.from({ length: 300 }, (_, i) => ({ id: `m${i}`, vector: randomVector(random, 16) }));
+    vectors.forEach(({ id, vector }) => index.add(id, vector));
+
+    const exact = (query: number[]) => vectors
+      .map(({ id, vector }) => ({ id, score: vector.reduce((sum, v, i) => sum + v * query[i], 0) }))
+      .sort((a, b) => b.score - a.score)[0].id;
+
+    const queries = Array.from({ length: 20 }, () => randomVector(random, 16));
+    const hits = queries.filter((query) => index.search(query, 1)[0]?.id === exact(query)).length;
+    expect(hits).toBeGreaterThanOrEqual(19);
+
+    const restored = HnswIndex.fromJSON(JSON.parse(JSON.stringify(index.toJSON())));
+    expect(restored.search(queries[0], 5).map((m) => m.id)).toEqual(index.search(queries[0], 5).map((m) => m.id));
+
+    restored.remove('m0');
+    expect(restored.search(vectors[0].vector, 1)[0].id).not.toBe('m0');
+    expect(restored.compact()).toEqual({ removed: 1 });
+    expect(restored.deletedCount).toBe(0);
+    expect(restored.size).toBe(299);
+  });
+});
+
+describe('LocalVectorBackend', () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), 'lanonasis-vector-'));
+  });
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it('persists the index to disk and rejects a different embedding model', async () => {
+    const embeddings = new HashEmbeddingProvider(64);
+    const store = new LanonasisVectorStore({
+      storeConfig: { provider: 'local', directory, collection: 'test' },
+      embeddings
+    });
+    await store.initialize();
+    await store.addMemories([
+      { id: 'a', content: 'deploy the gateway to production', metadata: { title: 'Deploy' } },
+      { id: 'b', content: 'grocery list apples bananas', metadata: { title: 'Groceries' } },
+      { id: 'c', content: 'gateway production rollback plan', metadata: { title: 'Rollback' } }
+    ]);
+    await store.removeMemory('b');
+
+    const reopened = new LanonasisVectorStore({
+      storeConfig: { provider: 'local', directory, collection: 'test' },
+      embeddings
+    });
+    await reopened.initialize();
+    const results = await reopened.searchMemories('gateway production', { threshold: 0.1, memoryIds: ['a', 'b'] });
+    expect(results.map((r) => r.id)).toEqual(['a']);
+    expect(results[0].metadata).toEqual({ title: 'Deploy' });
+    expect((await reopened.findRelatedMemories('a', { threshold: 0 })).map((r) => r.id)).toEqual(['c']);
+
+    expect(await reopened.stats()).toMatchObject({ backend: 'local', count: 2, deleted: 1 });
+    expect(await reopened.compact()).toEqual({ removed: 1 });
+
+    const otherModel = new LocalVectorBackend({ directory, collection: 'test' });
+    await expect(otherModel.initialize({ model: 'text-embedding-3-small', dimensions: 1536 }))
+      .rejects.toBeInstanceOf(VectorSpaceMismatchError);
+  });
+});
+
+describe('remote vector backends', () => {
+  it('maps memory ids to Qdrant points and filters searches by memory_id', async () => {
+    const fetchImpl = jest.fn(async (url: string, init?: RequestInit) => {
+      if (url.endsWith('/points/search')) {
+        return jsonResponse({ result: [{ id: qdrantPointId('mem-1'), score: 0.91, payload: { memory_id: 'mem-1', title: 'A' } }] });
+      }
+      if (init?.method === 'GET') return jsonResponse({ status: 'not found' }, 404);
+      return jsonResponse({ result: true });
+    });
+    const backend = new QdrantVectorBackend({
+      url: 'http://qdrant:6333/',
+      collection: 'memories',
+      apiKey: 'secret',
+      fetchImpl: fetchImpl as unknown as typeof fetch
+    });
+
+    await backend.initialize({ model: 'hash-bow-v1', dimensions: 3 });
+    await backend.upsert([{ id: 'mem-1', vector: [1, 0, 0], metadata: { title: 'A' } }]);
+    const results = await backend.search([1, 0, 0], { limit: 5, threshold: 0.5, ids: ['mem-1'] });
+
+    const calls = fetchImpl.mock.calls.map(([url, init]) => ({
+      url,
+      method: init?.method,
+      body: init?.body ? JSON.parse(String(init.body)) : undefined,
+      headers: init?.headers as Record<string, string>
+    }));
+    expect(calls[1]).toMatchObject({
+      url: 'http://qdrant:6333/collections/memories',
+      method: 'PUT',
+      body: { vectors: { size: 3, distance: 'Cosine' } }
+    });
+    expect(calls[2].body.points[0]).toEqual({
+      id: qdrantPointId('mem-1'),
+      vector: [1, 0, 0],
+      payload: { title: 'A', memory_id: 'mem-1' }
+    });
+    expect(qdrantPointId('mem-1')).toMatch(/^[0-9a-f]{8}-[0-9a-f]{4}-5[0-9a-f]{3}-a[0-9a-f]{3}-[0-9a-f]{12}$/);
+    expect(calls[3].body).toMatchObject({
+      score_threshold: 0.5,
+      filter: { must: [{ key: 'memory_id', match: { any: ['mem-1'] } }] }
+    });
+    expect(calls[3].headers['api-key']).toBe('secret');
+    expect(results).toEqual([{ id: 'mem-1', score: 0.91, metadata: { title: 'A' } }]);
+  });
+
+  it('turns Chroma cosine distances into similarity scores', async () => {
+    const fetchImpl = jest.fn(async (url: string) => {
+      if (url.endsWith('/query')) {
+        return jsonResponse({
+          ids: [['a', 'b']],
+          distances: [[0.1, 0.6]],
+          metadatas: [[{ metadata_json: '{"title":"A"}' }, { metadata_json: '{"title":"B"}' }]]
+        });
+      }
+      return jsonResponse({ id: 'col-1', name: 'memories', metadata: { embedding_model: 'hash-bow-v1', dimensions: 3 } });
+    });
+    const backend = new ChromaVectorBackend({
+      url: 'http://chroma:8000',
+      collection: 'memories',
+      fetchImpl: fetchImpl as unknown as typeof fetch
+    });
+
+    await backend.initialize({ model: 'hash-bow-v1', dimensions: 3 });
+    const results = await backend.search([1, 0, 0], { limit: 2, threshold: 0.5 });
+
+    expect(fetchImpl.mock.calls[1][0]).toBe(
+      'http://chroma:8000/api/v2/tenants/default_tenant/databases/default_database/collections/col-1/query'
+    );
+    expect(results).toHaveLength(1);
+    expect(results[0].id).toBe('a');
+    expect(results[0].score).toBeCloseTo(0.9);
+    expect(results[0].metadata).toEqual({ title: 'A' });
+
+    await expect(backend.initialize({ model: 'text-embedding-3-small', dimensions: 1536 }))
+      .rejects.toBeInstanceOf(VectorSpaceMismatchError);
+  });
+});
@@ -166,6 +166,32 @@ export async function generateCompletionData(): Promise<CompletionData> {
               { name: '--threshold', description: 'Relevance threshold', type: 'number' }
             ]
           },
+          {
+            name: 'history',
+            description: 'Show memory version history',
+            options: [
+              { name: 'id', description: 'Memory ID', type: 'string', required: true },
+              { name: '--limit', description: 'Number of versions', type: 'number' }
+            ]
+          },
+          {
+            name: 'diff',
+            description: 'Compare two memory versions',
+            options: [
+              { name: 'id', description: 'Memory ID', type: 'string', required: true },
+              { name: 'from', description: 'Base version', type: 'number', required: true },
+              { name: 'to', description: 'Target version (default: current)', type: 'number' }
+            ]
+          },
+          {
+            name: 'restore',
+            description: 'Restore a memory version',
+            options: [
+              { name: 'id', description: 'Memory ID', type: 'string', required: true },
+              { name: 'version', description: 'Version to restore', type: 'number', required: true },
+              { name: '--force', description: 'Skip confirmation', type: 'boolean' }
+            ]
+          },
           {
             name: 'stats',
             description: 'Show memory statistics',
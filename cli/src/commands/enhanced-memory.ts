@@ -1,43 +1,379 @@
 /**
- * Enhanced Memory Commands - mem0-inspired advanced operations
- * Simplified working version
+ * Enhanced Memory Commands - lifecycle states (pause, archive, trash) and
+ * state analytics on top of the memory API
  */
 
 import { Command } from 'commander';
 import chalk from 'chalk';
+import inquirer from 'inquirer';
 import ora from 'ora';
-import { getMCPClient } from '../utils/mcp-client.js';
-import { CLIConfig } from '../utils/config.js';
+import { table } from 'table';
+import { format } from 'date-fns';
+import {
+  apiClient,
+  MemoryEntry,
+  MemoryLifecycleAction,
+  MemoryState,
+  MemoryStateTransition,
+  MemoryType
+} from '../utils/api.js';
+import { truncateText } from '../utils/formatting.js';
+
+interface ReasonOption {
+  reason?: string;
+}
+
+interface BulkSelectOptions extends ReasonOption {
+  type?: string;
+  tag?: string;
+  olderThan?: string;
+  dryRun?: boolean;
+}
+
+interface ListOptions {
+  page?: string;
+  limit?: string;
+  json?: boolean;
+}
+
+interface PurgeOptions {
+  force?: boolean;
+}
+
+const MEMORY_STATES: MemoryState[] = ['active', 'paused', 'archived', 'deleted'];
+const BULK_LIMIT = 100;
+
+const STATE_COLORS: Record<MemoryState, (text: string) => string> = {
+  active: chalk.green,
+  paused: chalk.yellow,
+  archived: chalk.blue,
+  deleted: chalk.red
+};
+
+const PAST_TENSE: Record<MemoryLifecycleAction, string> = {
+  archive: 'archived',
+  pause: 'paused',
+  resume: 'resumed',
+  restore: 'restored',
+  delete: 'moved to trash'
+};
+
+const errorMessage = (error: unknown): string => error instanceof Error ? error.message : 'Unknown error';
+
+const parsePositiveInt = (value: string, label: string): number => {
+  const parsed = parseInt(value, 10);
+  if (!Number.isFinite(parsed) || parsed < 1) {
+    throw new Error(`${label} must be a positive integer`);
+  }
+  return parsed;
+};
+
+/**
+ * Apply a lifecycle action to the given memories: one request per memory for
+ * a single ID (so prefixes resolve), the bulk endpoint in chunks otherwise
+ */
+async function applyLifecycleAction(
+  ids: string[],
+  action: Exclude<MemoryLifecycleAction, 'delete'>,
+  reason?: string
+): Promise<{ updated: string[]; skipped: string[]; denied: string[] }> {
+  if (ids.length === 1) {
+    const memory = await apiClient.transitionMemory(ids[0], action, reason);
+    return { updated: [memory.id], skipped: [], denied: [] };
+  }
+
+  const resolved = await Promise.all(ids.map((id) => apiClient.resolveMemoryId(id)));
+  const updated: string[] = [];
+  const skipped: string[] = [];
+  const denied: string[] = [];
+  for (let i = 0; i < resolved.length; i += BULK_LIMIT) {
+    const result = await apiClient.bulkUpdateMemoryState(resolved.slice(i, i + BULK_LIMIT), action, reason);
+    updated.push(...result.updated_ids);
+    skipped.push(...result.skipped_ids);
+    denied.push(...result.denied_ids);
+  }
+  return { updated, skipped, denied };
+}
+
+/**
+ * Active memories matching the bulk selection filters, paging through the list
+ */
+async function selectActiveMemories(options: BulkSelectOptions): Promise<MemoryEntry[]> {
+  const cutoff = options.olderThan
+    ? Date.now() - parsePositiveInt(options.olderThan, '--older-than') * 24 * 60 * 60 * 1000
+    : undefined;
+
+  const selected: MemoryEntry[] = [];
+  for (let page = 1; ; page++) {
+    const result = await apiClient.getMemories({
+      page,
+      limit: BULK_LIMIT,
+      state: 'active',
+      ...(options.type ? { memory_type: options.type as MemoryType } : {}),
+      ...(options.tag ? { tags: options.tag } : {})
+    });
+    const memories = result.memories || result.data || [];
+
+    selected.push(...memories.filter((memory: MemoryEntry) =>
+      cutoff === undefined || new Date(memory.updated_at || memory.created_at).getTime() < cutoff
+    ));
+
+    if (memories.length < BULK_LIMIT) break;
+  }
+  return selected;
+}
+
+async function bulkSelectAndApply(
+  action: 'pause' | 'archive',
+  options: BulkSelectOptions
+): Promise<void> {
+  if (!options.type && !options.tag && !options.olderThan) {
+    throw new Error('Specify at least one of --type, --tag or --older-than');
+  }
+
+  const spinner = ora('Selecting memories...').start();
+  const memories = await selectActiveMemories(options);
+
+  if (memories.length === 0) {
+    spinner.info('No active memories match the criteria');
+    return;
+  }
+
+  if (options.dryRun) {
+    spinner.info(`${memories.length} memories would be ${PAST_TENSE[action]}`);
+    memories.slice(0, 20).forEach((memory) => {
+      console.log(chalk.gray(`  ${memory.id.slice(0, 8)}  ${truncateText(memory.title, 60)}`));
+    });
+    if (memories.length > 20) console.log(chalk.gray(`  ...and ${memories.length - 20} more`));
+    return;
+  }
+
+  spinner.text = `Applying ${action} to ${memories.length} memories...`;
+  const ids = memories.map((memory) => memory.id);
+  let updated = 0;
+  let skipped = 0;
+  let denied = 0;
+  for (let i = 0; i < ids.length; i += BULK_LIMIT) {
+    const result = await apiClient.bulkUpdateMemoryState(ids.slice(i, i + BULK_LIMIT), action, options.reason);
+    updated += result.updated_ids.length;
+    skipped += result.skipped_ids.length;
+    denied += result.denied_ids.length;
+  }
+
+  spinner.succeed(`${updated} memories ${PAST_TENSE[action]}`);
+  if (skipped > 0) {
+    console.log(chalk.yellow(`${skipped} skipped (changed state meanwhile)`));
+  }
+  if (denied > 0) {
+    console.log(chalk.yellow(`${denied} denied (you do not have permission to ${action} them)`));
+  }
+}
 
 export function enhancedMemoryCommands(program: Command) {
-  const memory = program.command('memory-enhanced').description('Enhanced memory operations');
+  const lifecycleCommand = (action: Exclude<MemoryLifecycleAction, 'delete'>, description: string) => {
+    program
+      .command(action)
+      .description(description)
+      .argument('<ids...>', 'memory IDs or displayed prefixes')
+      .option('-r, --reason <reason>', 'reason recorded in the memory history')
+      .action(async (ids: string[], options: ReasonOption) => {
+        const spinner = ora(`Applying ${action}...`).start();
+        try {
+          const { updated, skipped, denied } = await applyLifecycleAction(ids, action, options.reason);
+          spinner.succeed(`${updated.length} ${updated.length === 1 ? 'memory' : 'memories'} ${PAST_TENSE[action]}`);
+          if (skipped.length > 0) {
+            console.log(chalk.yellow(`Skipped (not in a state that allows ${action}): ${skipped.join(', ')}`));
+          }
+          if (denied.length > 0) {
+            console.log(chalk.yellow(`Denied (no permission to ${action}): ${denied.join(', ')}`));
+          }
+        } catch (error: unknown) {
+          spinner.stop();
+          console.error(chalk.red(`✖ Failed to ${action} memory:`), errorMessage(error));
+          process.exit(1);
+        }
+      });
+  };
+
+  lifecycleCommand('archive', 'Archive memories (hidden from default search and list, kept indefinitely)');
+  lifecycleCommand('pause', 'Pause active memories (temporarily hidden from default search and list)');
+  lifecycleCommand('resume', 'Make paused memories active again');
+  lifecycleCommand('restore', 'Restore archived memories or memories in the trash');
+
+  program.command('bulk-pause')
+    .description('Pause every active memory matching the criteria')
+    .option('--type <type>', 'memory type')
+    .option('--tag <tag>', 'tag')
+    .option('--older-than <days>', 'only memories not updated for this many days')
+    .option('-r, --reason <reason>', 'reason recorded in the memory history')
+    .option('--dry-run', 'show what would be paused')
+    .action(async (options: BulkSelectOptions) => {
+      try {
+        await bulkSelectAndApply('pause', options);
+      } catch (error: unknown) {
+        console.error(chalk.red('✖ Failed to pause memories:'), errorMessage(error));
+        process.exit(1);
+      }
+    });
+
+  program.command('archive-old')
+    .description('Archive active memories not updated for a number of days')
+    .requiredOption('--older-than <days>', 'age threshold in days')
+    .option('--type <type>', 'memory type')
+    .option('--tag <tag>', 'tag')
+    .option('-r, --reason <reason>', 'reason recorded in the memory history')
+    .option('--dry-run', 'show what would be archived')
+    .action(async (options: BulkSelectOptions) => {
+      try {
+        await bulkSelectAndApply('archive', options);
+      } catch (error: unknown) {
+        console.error(chalk.red('✖ Failed to archive memories:'), errorMessage(error));
+        process.exit(1);
+      }
+    });
+
+  program.command('trash')
+    .description('List deleted memories that can still be restored')
+    .option('-p, --page <page>', 'page number', '1')
+    .option('-l, --limit <limit>', 'entries per page', '20')
+    .option('--json', 'output raw JSON')
+    .action(async (options: ListOptions) => {
+      try {
+        const spinner = ora('Fetching trash...').start();
+        const result = await apiClient.getTrash({
+          page: parseInt(options.page || '1'),
+          limit: parseInt(options.limit || '20')
+        });
+        spinner.stop();
+
+        if (options.json) {
+          console.log(JSON.stringify(result, null, 2));
+          return;
+        }
+
+        if (result.memories.length === 0) {
+          console.log(chalk.yellow('Trash is empty'));
+          return;
+        }
+
+        console.log(chalk.blue.bold(`\n🗑  Trash (${result.pagination.total} total, kept ${result.retention_days} days)`));
+        console.log();
+
+        const rows = result.memories.map((memory: MemoryEntry) => [
+          memory.id.slice(0, 8),
+          truncateText(memory.title, 36),
+          memory.deleted_at ? format(new Date(memory.deleted_at), 'MMM dd, yyyy HH:mm') : '-',
+          memory.purge_after ? format(new Date(memory.purge_after), 'MMM dd, yyyy') : '-'
+        ]);
+
+        console.log(table([['ID', 'Title', 'Deleted', 'Purged after'], ...rows]));
+        console.log(chalk.gray('Use "memory-enhanced restore <id>" to bring a memory back'));
+      } catch (error: unknown) {
+        console.error(chalk.red('✖ Failed to list trash:'), errorMessage(error));
+        process.exit(1);
+      }
+    });
 
-  memory.command('bulk-pause')
-    .description('Pause multiple memories by criteria')
-    .option('--category <category>', 'Category to pause')
-    .action(async (_options) => {
-      const spinner = ora('Processing bulk pause...').start();
+  program.command('purge')
+    .description('Permanently delete one memory, or every expired memory in the trash (admin)')
+    .argument('[id]', 'memory ID to delete permanently')
+    .option('-f, --force', 'skip confirmation')
+    .action(async (id: string | undefined, options: PurgeOptions) => {
+      try {
+        if (!options.force) {
+          const answer = await inquirer.prompt<{ confirm: boolean }>([
+            {
+              type: 'confirm',
+              name: 'confirm',
+              message: id
+                ? `Permanently delete memory ${id}? This cannot be undone.`
+                : 'Permanently delete every trashed memory past its restore window?',
+              default: false
+            }
+          ]);
+
+          if (!answer.confirm) {
+            console.log(chalk.yellow('Purge cancelled'));
+            return;
+          }
+        }
+
+        const spinner = ora('Purging...').start();
+        if (id) {
+          await apiClient.deleteMemory(id, { permanent: true });
+          spinner.succeed('Memory permanently deleted');
+        } else {
+          const result = await apiClient.purgeTrash();
+          spinner.succeed(`${result.purged_count} expired memories purged`);
+        }
+      } catch (error: unknown) {
+        console.error(chalk.red('✖ Failed to purge:'), errorMessage(error));
+        process.exit(1);
+      }
+    });
 
+  program.command('transitions')
+    .description('Show the lifecycle history of a memory')
+    .argument('<id>', 'memory ID')
+    .option('-l, --limit <limit>', 'number of transitions', '20')
+    .option('--json', 'output raw JSON')
+    .action(async (id: string, options: ListOptions) => {
       try {
-        const client = getMCPClient();
-        if (!client.isConnectedToServer()) {
-          const config = new CLIConfig();
-          await client.connect({ useRemote: !!config.get('token') });
+        const spinner = ora('Fetching lifecycle history...').start();
+        const result = await apiClient.getMemoryTransitions(id, { limit: parseInt(options.limit || '20') });
+        spinner.stop();
+
+        if (options.json) {
+          console.log(JSON.stringify(result, null, 2));
+          return;
         }
 
-        // Simplified implementation
-        spinner.succeed('Bulk pause operation completed');
-        console.log(chalk.green('✓ Enhanced memory operations are available'));
+        console.log(chalk.blue.bold(`\nCurrent state: ${STATE_COLORS[result.state](result.state)}`));
 
-      } catch (error) {
-        spinner.fail(`Operation failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        if (result.transitions.length === 0) {
+          console.log(chalk.yellow('No state changes recorded for this memory'));
+          return;
+        }
+
+        const rows = result.transitions.map((transition: MemoryStateTransition) => [
+          format(new Date(transition.created_at), 'MMM dd, yyyy HH:mm'),
+          `${transition.from_state} → ${transition.to_state}`,
+          truncateText(transition.reason || '-', 40)
+        ]);
+
+        console.log(table([['When', 'Transition', 'Reason'], ...rows]));
+      } catch (error: unknown) {
+        console.error(chalk.red('✖ Failed to get lifecycle history:'), errorMessage(error));
+        process.exit(1);
       }
     });
 
-  memory.command('analytics')
-    .description('Show memory analytics')
-    .action(async () => {
-      console.log(chalk.cyan('📊 Memory Analytics'));
-      console.log(chalk.green('✓ Enhanced analytics features are available'));
+  program.command('analytics')
+    .description('Show how many memories are in each lifecycle state')
+    .option('--json', 'output raw JSON')
+    .action(async (options: { json?: boolean }) => {
+      try {
+        const spinner = ora('Counting memories by state...').start();
+        const counts = await Promise.all(MEMORY_STATES.map(async (state) => {
+          const result = await apiClient.getMemories({ state, limit: 1 });
+          return [state, result.pagination?.total ?? 0] as const;
+        }));
+        spinner.stop();
+
+        const byState = Object.fromEntries(counts) as Record<MemoryState, number>;
+        if (options.json) {
+          console.log(JSON.stringify(byState, null, 2));
+          return;
+        }
+
+        console.log(chalk.cyan.bold('\n📊 Memories by state'));
+        console.log();
+        counts.forEach(([state, count]) => {
+          console.log(`  ${STATE_COLORS[state](state.padEnd(9))} ${count}`);
+        });
+      } catch (error: unknown) {
+        console.error(chalk.red('✖ Failed to load memory analytics:'), errorMessage(error));
+        process.exit(1);
+      }
     });
-}
\ No newline at end of file
+}
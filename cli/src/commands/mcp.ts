@@ -9,6 +9,7 @@ import { apiClient, MemoryEntry } from '../utils/api.js';
 import WebSocket from 'ws';
 import { dirname, join } from 'path';
 import { createConnectionManager } from '../ux/index.js';
+import { LanonasisVectorStore, VectorSpaceMismatchError } from '../mcp/vector-store.js';
 
 type MCPMemorySearchResult = {
   id: string;
@@ -55,12 +56,35 @@ const fallbackMemorySearch = async (query: string, limit: number): Promise<MCPMe
     .slice(0, limit);
 };
 
+/**
+ * Page through every memory the caller can see, shaped for the vector index.
+ */
+async function* memoryPages(pageSize: number) {
+  for (let page = 1; ; page++) {
+    const result = await apiClient.getMemories({ page, limit: pageSize });
+    const memories = (result.memories || result.data || []) as MemoryEntry[];
+    if (memories.length > 0) {
+      yield memories.map((memory) => ({
+        id: memory.id,
+        content: `${memory.title}\n\n${memory.content}`,
+        metadata: {
+          title: memory.title,
+          memory_type: memory.memory_type,
+          tags: memory.tags,
+          updated_at: memory.updated_at
+        }
+      }));
+    }
+    if (memories.length < pageSize || result.pagination?.has_more === false) return;
+  }
+}
+
 /**
  * Register MCP-related CLI commands (mcp and mcp-server) on a Commander program.
  *
  * Adds commands and subcommands for MCP server initialization, connection management,
  * status reporting, tool listing and invocation, memory create/search operations,
- * preference configuration, and diagnostic routines, wiring each command to its
+ * local vector index maintenance, preference configuration, and diagnostic routines, wiring each command to its
  * corresponding action handlers.
  *
  * @param program - Commander program instance to extend with MCP commands
@@ -624,6 +648,78 @@ export function mcpCommands(program: Command) {
       }
     });
 
+  // Vector index used for semantic search by the local MCP server
+  const index = mcp.command('index')
+    .description('Manage the MCP vector index (see the vectorStore config key)');
+
+  index.command('status')
+    .description('Show vector index backend, embedding model and size')
+    .action(async () => {
+      try {
+        const store = new LanonasisVectorStore();
+        await store.initialize();
+        const stats = await store.stats();
+
+        console.log(chalk.cyan('\n📇 Vector Index'));
+        console.log(`Backend: ${chalk.bold(stats.backend)}`);
+        console.log(`Location: ${chalk.gray(stats.location)}`);
+        console.log(`Embedding: ${stats.embedding.provider} / ${stats.embedding.model} (${stats.embedding.dimensions}d)`);
+        console.log(`Entries: ${chalk.green(stats.count)}`);
+        if (stats.deleted !== undefined) {
+          console.log(`Awaiting compaction: ${stats.deleted > 0 ? chalk.yellow(stats.deleted) : stats.deleted}`);
+        }
+        if (stats.embedding.provider === 'hash') {
+          console.log(chalk.yellow('\nUsing the offline hash embedder; set vectorStore.embedding or OPENAI_API_KEY for semantic search'));
+        }
+      } catch (error) {
+        console.error(chalk.red(`Failed to read vector index: ${error instanceof Error ? error.message : 'Unknown error'}`));
+        process.exit(1);
+      }
+    });
+
+  index.command('rebuild')
+    .description('Re-embed all memories into a fresh index (needed after changing embedding model)')
+    .option('--batch-size <number>', 'Memories fetched per page', '100')
+    .action(async (options) => {
+      const spinner = ora('Rebuilding vector index...').start();
+
+      try {
+        const batchSize = Math.max(1, parseInt(options.batchSize, 10) || 100);
+        const store = new LanonasisVectorStore();
+        await store.initialize().catch(async (error) => {
+          // A model change is exactly what rebuild is for
+          if (!(error instanceof VectorSpaceMismatchError)) throw error;
+          await store.initialize({ reset: true });
+        });
+
+        const indexed = await store.rebuild(memoryPages(batchSize), (count) => {
+          spinner.text = `Rebuilding vector index... ${count} memories embedded`;
+        });
+        spinner.succeed(`Vector index rebuilt with ${indexed} memories`);
+      } catch (error) {
+        spinner.fail(`Rebuild failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        process.exit(1);
+      }
+    });
+
+  index.command('compact')
+    .description('Drop deleted entries from the local index')
+    .action(async () => {
+      const spinner = ora('Compacting vector index...').start();
+
+      try {
+        const store = new LanonasisVectorStore();
+        await store.initialize();
+        const { removed } = await store.compact();
+        spinner.succeed(removed > 0
+          ? `Compacted vector index, removed ${removed} deleted entries`
+          : 'Vector index is already compact');
+      } catch (error) {
+        spinner.fail(`Compaction failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        process.exit(1);
+      }
+    });
+
   // Configure MCP preferences
   mcp.command('config')
     .description('Configure MCP preferences')
@@ -665,8 +761,9 @@ export function mcpCommands(program: Command) {
     .option('--port <number>', 'Port for ws/http/sse', '3009')
     .option('--host <address>', 'Host address', '127.0.0.1')
     .action(async (options) => {
+      // HTTP clients bring their own credentials; the other transports use the server's key
       const apiKey = process.env.LANONASIS_API_KEY;
-      if (!apiKey) {
+      if (!apiKey && options.transport !== 'http') {
         console.error('Error: LANONASIS_API_KEY environment variable required');
         process.exit(1);
       }
@@ -685,6 +782,9 @@ export function mcpCommands(program: Command) {
           // Log to stderr since stdout is for MCP protocol
           console.error(`Starting MCP server in stdio mode...`);
           await server.startStdio();
+        } else if (options.transport === 'http') {
+          console.error(`Starting MCP server on ${options.host}:${options.port} (streamable HTTP)...`);
+          await server.startHttp();
         } else {
           console.error(`Starting MCP server on ${options.host}:${options.port} (${options.transport})...`);
           await server.start();
@@ -14,12 +14,22 @@ import {
   MemorySearchResult,
   CreateMemoryRequest,
   UpdateMemoryRequest,
+  MemoryVersion,
+  MemoryVersionDiff,
+  ExportMemoriesParams,
+  EmbeddingMigration,
+  EmbeddingMigrationAction,
+  ContradictionGroup,
+  ResolveContradictionRequest,
   GetMemoriesParams as ApiGetMemoriesParams
 } from '../utils/api.js';
 import { formatBytes, truncateText } from '../utils/formatting.js';
 import { CLIConfig } from '../utils/config.js';
 import { createTextInputHandler } from '../ux/index.js';
 import * as fs from 'fs/promises';
+import { createReadStream, createWriteStream } from 'node:fs';
+import type { Readable } from 'node:stream';
+import { pipeline } from 'node:stream/promises';
 import { exec as execCb } from 'node:child_process';
 import { promisify } from 'node:util';
 
@@ -90,6 +100,38 @@ interface DeleteConfirmAnswer {
   confirm: boolean;
 }
 
+interface HistoryMemoryOptions extends JsonOutputOption {
+  limit?: string;
+  offset?: string;
+}
+
+interface RestoreMemoryOptions {
+  force?: boolean;
+}
+
+interface ImportMemoryOptions extends JsonOutputOption {
+  format?: 'ndjson' | 'json';
+}
+
+interface ExportMemoryOptions {
+  output?: string;
+  format?: string;
+  type?: string;
+  tags?: string;
+  topicId?: string;
+  userId?: string;
+  since?: string;
+  until?: string;
+  embeddings?: boolean;
+}
+
+interface EmbeddingMigrateOptions extends JsonOutputOption {
+  batchSize?: string;
+  delay?: string;
+  dryRun?: boolean;
+  wait?: boolean;
+}
+
 interface SearchParams {
   limit: number;
   threshold: number;
@@ -161,6 +203,12 @@ interface IntelligenceDetectOptions extends IntelligenceContextOptions {
   mcp?: boolean;
 }
 
+interface IntelligenceContradictionsOptions extends JsonOutputOption {
+  subjectId?: string;
+  limit?: string;
+  list?: boolean;
+}
+
 interface BehaviorRecordOptions extends JsonOutputOption {
   trigger: string;
   finalOutcome: 'success' | 'partial' | 'failed';
@@ -710,6 +758,211 @@ const postIntelligenceEndpoint = async <T>(
   return await apiClient.post<T>(`/api/v1${endpoint}`, payload);
 };
 
+const parseVersionArgument = (value: string, label: string): number => {
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 1) {
+    throw new Error(`${label} must be a positive integer version number`);
+  }
+  return parsed;
+};
+
+const printVersionDiff = (diff: MemoryVersionDiff): void => {
+  const target = diff.to_version === null ? 'current' : `v${diff.to_version}`;
+  console.log(chalk.blue.bold(`\n🔀 v${diff.from_version} → ${target}`));
+
+  if (diff.changed_fields.length === 0) {
+    console.log(chalk.gray('No differences'));
+    return;
+  }
+
+  console.log(chalk.green('Changed fields:'), diff.changed_fields.join(', '));
+  if (diff.title) {
+    console.log(chalk.green('Title:'), `${chalk.red(diff.title.from)} → ${chalk.green(diff.title.to)}`);
+  }
+  if (diff.memory_type) {
+    console.log(chalk.green('Type:'), `${diff.memory_type.from} → ${diff.memory_type.to}`);
+  }
+  if (diff.topic_id) {
+    console.log(chalk.green('Topic:'), `${diff.topic_id.from ?? '(none)'} → ${diff.topic_id.to ?? '(none)'}`);
+  }
+  if (diff.tags) {
+    const added = diff.tags.added.map((tag) => chalk.green(`+${tag}`));
+    const removed = diff.tags.removed.map((tag) => chalk.red(`-${tag}`));
+    console.log(chalk.green('Tags:'), [...added, ...removed].join(' '));
+  }
+  if (diff.metadata_keys_changed?.length) {
+    console.log(chalk.green('Metadata keys:'), diff.metadata_keys_changed.join(', '));
+  }
+
+  if (diff.changed_fields.includes('content')) {
+    console.log();
+    console.log(chalk.green('Content:'));
+    diff.content.forEach((hunk) => {
+      hunk.lines.forEach((line) => {
+        if (hunk.op === 'add') console.log(chalk.green(`+ ${line}`));
+        else if (hunk.op === 'remove') console.log(chalk.red(`- ${line}`));
+        else console.log(chalk.gray(`  ${line}`));
+      });
+    });
+  }
+};
+
+/**
+ * Open an import file as an NDJSON stream. JSON archives (from
+ * `memory export --format json`) and plain JSON arrays are converted to
+ * NDJSON in memory; "-" reads NDJSON from stdin.
+ */
+const openImportSource = async (file: string, format?: 'ndjson' | 'json'): Promise<Readable | string> => {
+  if (file === '-') {
+    if (format === 'json') {
+      throw new Error('JSON archives cannot be read from stdin; pass a file path');
+    }
+    return process.stdin;
+  }
+
+  const isArchive = format ? format === 'json' : file.toLowerCase().endsWith('.json');
+  if (!isArchive) {
+    return createReadStream(file);
+  }
+
+  const parsed: unknown = JSON.parse(await fs.readFile(file, 'utf-8'));
+  const memories = Array.isArray(parsed)
+    ? parsed
+    : isPlainObject(parsed) && Array.isArray(parsed.memories)
+      ? parsed.memories
+      : undefined;
+  if (!memories) {
+    throw new Error('JSON import must be an export archive or an array of memories');
+  }
+  return memories.map((memory) => JSON.stringify(memory)).join('\n');
+};
+
+const buildExportParams = (options: ExportMemoryOptions): ExportMemoriesParams => {
+  const params: ExportMemoriesParams = {};
+  if (options.format) {
+    if (options.format !== 'ndjson' && options.format !== 'json') {
+      throw new Error('--format must be "ndjson" or "json"');
+    }
+    params.format = options.format;
+  }
+  if (options.type) {
+    const memoryType = coerceMemoryType(options.type);
+    if (!memoryType) {
+      throw new Error(`Invalid memory type: ${options.type}`);
+    }
+    params.memory_type = memoryType;
+  }
+  if (options.tags) params.tags = options.tags;
+  if (options.topicId) params.topic_id = options.topicId;
+  if (options.userId) params.user_id = options.userId;
+  if (options.since) params.created_after = new Date(options.since).toISOString();
+  if (options.until) params.created_before = new Date(options.until).toISOString();
+  if (options.embeddings) params.include_embeddings = true;
+  return params;
+};
+
+const EMBEDDING_MIGRATION_POLL_MS = 2000;
+
+const parsePositiveIntOption = (value: string | undefined, flag: string, min: number): number | undefined => {
+  if (value === undefined) return undefined;
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < min) {
+    throw new Error(`${flag} must be an integer >= ${min}`);
+  }
+  return parsed;
+};
+
+const printContradictionGroup = (group: ContradictionGroup, position: string): void => {
+  console.log(chalk.blue.bold(`\n⚖️  Contradiction ${position}`), chalk.gray(`(group ${group.contradiction_group_id.substring(0, 8)})`));
+  group.conclusions.forEach((conclusion, index) => {
+    console.log(`${chalk.cyan(`[${index + 1}]`)} ${conclusion.content}`);
+    console.log(chalk.gray(
+      `    ${conclusion.conclusion_type}, confidence ${conclusion.confidence.toFixed(2)}, ` +
+      `${conclusion.evidence_memory_ids.length} supporting memories, ` +
+      `${format(new Date(conclusion.created_at), 'MMM dd, yyyy HH:mm')}` +
+      (conclusion.scope ? `, scope: ${conclusion.scope}` : '')
+    ));
+  });
+};
+
+/**
+ * Ask how to resolve one contradiction group; null skips it, 'stop' ends the review
+ */
+const promptContradictionResolution = async (
+  group: ContradictionGroup
+): Promise<ResolveContradictionRequest | null | 'stop'> => {
+  const { choice } = await inquirer.prompt<{ choice: string }>([
+    {
+      type: 'list',
+      name: 'choice',
+      message: 'Resolve this contradiction:',
+      choices: [
+        ...group.conclusions.map((conclusion, index) => ({
+          name: `Accept [${index + 1}] and supersede the others`,
+          value: `accept:${conclusion.id}`
+        })),
+        { name: 'Keep all, each limited to a scope', value: 'scope' },
+        { name: 'Skip for now', value: 'skip' },
+        { name: 'Stop reviewing', value: 'stop' }
+      ]
+    }
+  ]);
+
+  if (choice === 'stop') return 'stop';
+  if (choice === 'skip') return null;
+  if (choice.startsWith('accept:')) {
+    return { action: 'accept', winner_id: choice.slice('accept:'.length) };
+  }
+
+  const scopes: Record<string, string> = {};
+  for (const [index, conclusion] of group.conclusions.entries()) {
+    const { scope } = await inquirer.prompt<{ scope: string }>([
+      {
+        type: 'input',
+        name: 'scope',
+        message: `Scope for [${index + 1}] "${truncateText(conclusion.content, 60)}":`,
+        default: conclusion.scope ?? undefined,
+        validate: (value: string) => value.trim().length > 0 || 'A scope is required'
+      }
+    ]);
+    scopes[conclusion.id] = scope.trim();
+  }
+  return { action: 'scope', scopes };
+};
+
+const printEmbeddingMigration = (migration: EmbeddingMigration): void => {
+  const statusColor = migration.status === 'completed'
+    ? chalk.green
+    : migration.status === 'failed' || migration.status === 'cancelled'
+      ? chalk.red
+      : chalk.yellow;
+
+  console.log(chalk.cyan('ID:'), migration.id);
+  console.log(chalk.cyan('Status:'), statusColor(migration.status));
+  console.log(chalk.cyan('Target:'), `${migration.target_provider}:${migration.target_model}:${migration.target_dimensions}`);
+  console.log(chalk.cyan('Progress:'), `${migration.processed}/${migration.total} re-embedded, ${migration.failed} failed`);
+  console.log(chalk.cyan('Throttle:'), `${migration.batch_size} per batch, ${migration.delay_ms}ms between batches`);
+  console.log(chalk.cyan('Started:'), format(new Date(migration.created_at), 'MMM dd, yyyy HH:mm'));
+  if (migration.completed_at) {
+    console.log(chalk.cyan('Finished:'), format(new Date(migration.completed_at), 'MMM dd, yyyy HH:mm'));
+  }
+  if (migration.last_error) {
+    console.log(chalk.red('Last error:'), migration.last_error);
+  }
+};
+
+const waitForEmbeddingMigration = async (migration: EmbeddingMigration): Promise<EmbeddingMigration> => {
+  const spinner = ora(`Re-embedding ${migration.processed}/${migration.total}...`).start();
+  let current = migration;
+  while (current.status === 'running') {
+    await new Promise((resolve) => setTimeout(resolve, EMBEDDING_MIGRATION_POLL_MS));
+    current = await apiClient.getEmbeddingMigration(current.id);
+    spinner.text = `Re-embedding ${current.processed}/${current.total} (${current.failed} failed)...`;
+  }
+  spinner.stop();
+  return current;
+};
+
 export function memoryCommands(program: Command): void {
   // Create memory
   program
@@ -1530,6 +1783,351 @@ export function memoryCommands(program: Command): void {
       }
     });
 
+  // Version history
+  program
+    .command('history')
+    .description('Show the version history of a memory')
+    .argument('<id>', 'memory ID')
+    .option('-l, --limit <limit>', 'number of versions', '20')
+    .option('--offset <offset>', 'versions to skip', '0')
+    .option('--json', 'output raw JSON')
+    .action(async (id: string, options: HistoryMemoryOptions) => {
+      try {
+        const spinner = ora('Fetching version history...').start();
+        const result = await apiClient.getMemoryVersions(id, {
+          limit: parseInt(options.limit || '20'),
+          offset: parseInt(options.offset || '0')
+        });
+        spinner.stop();
+
+        if (options.json) {
+          console.log(JSON.stringify(result, null, 2));
+          return;
+        }
+
+        if (result.versions.length === 0) {
+          console.log(chalk.yellow('No versions recorded for this memory'));
+          return;
+        }
+
+        console.log(chalk.blue.bold(`\n🕘 Version history (${result.total} total)`));
+        console.log();
+
+        const tableData = result.versions.map((version: MemoryVersion) => [
+          `v${version.version_number}`,
+          truncateText(version.title, 30),
+          version.memory_type,
+          version.tags.slice(0, 3).join(', '),
+          format(new Date(version.created_at), 'MMM dd, yyyy HH:mm')
+        ]);
+
+        console.log(table([['Version', 'Title', 'Type', 'Tags', 'Recorded'], ...tableData], {
+          columns: [
+            { width: 8 },
+            { width: 30 },
+            { width: 12 },
+            { width: 20 },
+            { width: 18 }
+          ]
+        }));
+        console.log(chalk.gray(`Use "memory diff ${id} <from> [to]" to compare versions`));
+      } catch (error: unknown) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        console.error(chalk.red('✖ Failed to get version history:'), errorMessage);
+        process.exit(1);
+      }
+    });
+
+  // Version diff
+  program
+    .command('diff')
+    .description('Compare two versions of a memory (omit <to> to compare with the current state)')
+    .argument('<id>', 'memory ID')
+    .argument('<from>', 'base version number')
+    .argument('[to]', 'target version number')
+    .option('--json', 'output raw JSON')
+    .action(async (id: string, from: string, to: string | undefined, options: JsonOutputOption) => {
+      try {
+        const fromVersion = parseVersionArgument(from, '<from>');
+        const toVersion = to !== undefined ? parseVersionArgument(to, '[to]') : undefined;
+
+        const spinner = ora('Computing diff...').start();
+        const diff = await apiClient.diffMemoryVersions(id, fromVersion, toVersion);
+        spinner.stop();
+
+        if (options.json) {
+          console.log(JSON.stringify(diff, null, 2));
+          return;
+        }
+
+        printVersionDiff(diff);
+      } catch (error: unknown) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        console.error(chalk.red('✖ Failed to diff memory versions:'), errorMessage);
+        process.exit(1);
+      }
+    });
+
+  // Version restore
+  program
+    .command('restore')
+    .description('Restore a memory to an earlier version (recorded as a new version)')
+    .argument('<id>', 'memory ID')
+    .argument('<version>', 'version number to restore')
+    .option('-f, --force', 'skip confirmation')
+    .action(async (id: string, version: string, options: RestoreMemoryOptions) => {
+      try {
+        const versionNumber = parseVersionArgument(version, '<version>');
+
+        if (!options.force) {
+          const diff = await apiClient.diffMemoryVersions(id, versionNumber);
+          printVersionDiff(diff);
+          console.log();
+
+          const answer = await inquirer.prompt<DeleteConfirmAnswer>([
+            {
+              type: 'confirm',
+              name: 'confirm',
+              message: `Restore this memory to v${versionNumber}?`,
+              default: false
+            }
+          ]);
+
+          if (!answer.confirm) {
+            console.log(chalk.yellow('Restore cancelled'));
+            return;
+          }
+        }
+
+        const spinner = ora(`Restoring v${versionNumber}...`).start();
+        const memory = await apiClient.restoreMemoryVersion(id, versionNumber);
+        spinner.succeed('Memory restored successfully');
+
+        console.log();
+        console.log(chalk.green('✓ Memory restored:'));
+        console.log(`  ID: ${chalk.cyan(memory.id)}`);
+        console.log(`  Title: ${memory.title}`);
+      } catch (error: unknown) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        console.error(chalk.red('✖ Failed to restore memory:'), errorMessage);
+        process.exit(1);
+      }
+    });
+
+  // Bulk import
+  program
+    .command('import')
+    .description('Import memories from an NDJSON file or JSON export archive ("-" reads NDJSON from stdin)')
+    .argument('<file>', 'file to import')
+    .option('--format <format>', 'input format: ndjson or json (default: from file extension)')
+    .option('--json', 'output raw JSON')
+    .action(async (file: string, options: ImportMemoryOptions) => {
+      try {
+        const source = await openImportSource(file, options.format);
+
+        const spinner = ora('Importing memories...').start();
+        const result = await apiClient.importMemories(source);
+        spinner.stop();
+
+        if (options.json) {
+          console.log(JSON.stringify(result, null, 2));
+          return;
+        }
+
+        const summary = `Imported ${result.imported} of ${result.total} memories`;
+        if (result.failed === 0) {
+          console.log(chalk.green(`✓ ${summary}`));
+          return;
+        }
+
+        console.log(chalk.yellow(`⚠ ${summary} (${result.failed} failed)`));
+        console.log();
+        const failures = result.results.filter((line) => line.status === 'error');
+        const tableData = failures.slice(0, 50).map((line) => [String(line.line), line.error || 'Unknown error']);
+        console.log(table([['Line', 'Error'], ...tableData], {
+          columns: [
+            { width: 8 },
+            { width: 70, wrapWord: true }
+          ]
+        }));
+        if (failures.length > 50) {
+          console.log(chalk.gray(`...and ${failures.length - 50} more (use --json for the full list)`));
+        }
+        process.exitCode = 1;
+      } catch (error: unknown) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        console.error(chalk.red('✖ Failed to import memories:'), errorMessage);
+        process.exit(1);
+      }
+    });
+
+  // Bulk export
+  program
+    .command('export')
+    .description('Export memories as NDJSON or a JSON archive (stdout unless --output is given)')
+    .option('-o, --output <file>', 'write to a file instead of stdout')
+    .option('--format <format>', 'ndjson or json', 'ndjson')
+    .option('-t, --type <type>', 'filter by memory type')
+    .option('--tags <tags>', 'filter by tags (comma-separated)')
+    .option('--topic-id <topicId>', 'filter by topic ID')
+    .option('--user-id <userId>', 'filter by user ID')
+    .option('--since <date>', 'only memories created on or after this date')
+    .option('--until <date>', 'only memories created before this date')
+    .option('--embeddings', 'include embedding vectors')
+    .action(async (options: ExportMemoryOptions) => {
+      try {
+        const params = buildExportParams(options);
+        const spinner = options.output ? ora('Exporting memories...').start() : null;
+        const stream = await apiClient.exportMemories(params);
+
+        if (options.output) {
+          await pipeline(stream, createWriteStream(options.output));
+          spinner?.succeed(`Memories exported to ${options.output}`);
+        } else {
+          await pipeline(stream, process.stdout);
+        }
+      } catch (error: unknown) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        console.error(chalk.red('✖ Failed to export memories:'), errorMessage);
+        process.exit(1);
+      }
+    });
+
+  // Embedding profile migration
+  const embeddings = program
+    .command('embeddings')
+    .description('Re-embed memories after an embedding provider or model change (admin only)');
+
+  embeddings
+    .command('status')
+    .description('Show stale memory count and recent migrations, or one migration by ID')
+    .argument('[id]', 'migration ID')
+    .option('--json', 'output raw JSON')
+    .action(async (id: string | undefined, options: JsonOutputOption) => {
+      try {
+        const spinner = ora('Fetching embedding status...').start();
+        if (id) {
+          const migration = await apiClient.getEmbeddingMigration(id);
+          spinner.stop();
+          if (options.json) {
+            console.log(JSON.stringify(migration, null, 2));
+            return;
+          }
+          printEmbeddingMigration(migration);
+          return;
+        }
+
+        const [plan, migrations] = await Promise.all([
+          apiClient.planEmbeddingMigration(),
+          apiClient.getEmbeddingMigrations()
+        ]);
+        spinner.stop();
+
+        if (options.json) {
+          console.log(JSON.stringify({ ...plan, migrations }, null, 2));
+          return;
+        }
+
+        console.log(chalk.blue.bold('\n🧬 Embedding Profile'));
+        console.log(chalk.green('Active profile:'), plan.profile_id);
+        console.log(chalk.green('Stale memories:'), plan.stale_memories.toLocaleString());
+        if (plan.stale_memories > 0 && !plan.open_migration) {
+          console.log(chalk.gray('Stale memories are excluded from vector search. Run "memory embeddings migrate" to re-embed them.'));
+        }
+
+        if (migrations.length > 0) {
+          console.log();
+          const tableData = migrations.map((migration) => [
+            migration.id.substring(0, 8),
+            migration.status,
+            migration.target_model,
+            `${migration.processed}/${migration.total}`,
+            String(migration.failed),
+            format(new Date(migration.created_at), 'MMM dd, yyyy HH:mm')
+          ]);
+          console.log(table([['ID', 'Status', 'Model', 'Progress', 'Failed', 'Started'], ...tableData]));
+        }
+      } catch (error: unknown) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        console.error(chalk.red('✖ Failed to get embedding status:'), errorMessage);
+        process.exit(1);
+      }
+    });
+
+  embeddings
+    .command('migrate')
+    .description('Re-embed memories whose embedding profile differs from the active one')
+    .option('--batch-size <n>', 'memories per batch (1-500)')
+    .option('--delay <ms>', 'pause between batches in milliseconds')
+    .option('--dry-run', 'only report how many memories would be re-embedded')
+    .option('--wait', 'poll until the migration finishes')
+    .option('--json', 'output raw JSON')
+    .action(async (options: EmbeddingMigrateOptions) => {
+      try {
+        if (options.dryRun) {
+          const plan = await apiClient.planEmbeddingMigration();
+          if (options.json) {
+            console.log(JSON.stringify(plan, null, 2));
+            return;
+          }
+          console.log(chalk.green(`${plan.stale_memories.toLocaleString()} memories would be re-embedded with ${plan.profile_id}`));
+          if (plan.open_migration) {
+            console.log(chalk.yellow(`Migration ${plan.open_migration.id} is already ${plan.open_migration.status}`));
+          }
+          return;
+        }
+
+        const batchSize = parsePositiveIntOption(options.batchSize, '--batch-size', 1);
+        const delay = parsePositiveIntOption(options.delay, '--delay', 0);
+
+        let migration = await apiClient.startEmbeddingMigration({
+          ...(batchSize !== undefined ? { batch_size: batchSize } : {}),
+          ...(delay !== undefined ? { delay_ms: delay } : {})
+        });
+
+        if (options.wait) {
+          migration = await waitForEmbeddingMigration(migration);
+        }
+
+        if (options.json) {
+          console.log(JSON.stringify(migration, null, 2));
+        } else {
+          console.log(chalk.green(migration.status === 'running' ? '✓ Embedding migration started' : `✓ Embedding migration ${migration.status}`));
+          printEmbeddingMigration(migration);
+        }
+        if (migration.status === 'failed') {
+          process.exitCode = 1;
+        }
+      } catch (error: unknown) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        console.error(chalk.red('✖ Failed to start embedding migration:'), errorMessage);
+        process.exit(1);
+      }
+    });
+
+  const migrationActions: Array<[EmbeddingMigrationAction, string]> = [
+    ['pause', 'Pause a running migration after its current batch'],
+    ['resume', 'Resume a paused, failed or interrupted migration'],
+    ['cancel', 'Cancel a migration (already re-embedded memories keep their new vectors)']
+  ];
+
+  for (const [action, description] of migrationActions) {
+    embeddings
+      .command(action)
+      .description(description)
+      .argument('<id>', 'migration ID')
+      .action(async (id: string) => {
+        try {
+          const migration = await apiClient.updateEmbeddingMigration(id, action);
+          console.log(chalk.green(`✓ Migration ${migration.id} is now ${migration.status}`));
+        } catch (error: unknown) {
+          const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+          console.error(chalk.red(`✖ Failed to ${action} embedding migration:`), errorMessage);
+          process.exit(1);
+        }
+      });
+  }
+
   // Memory statistics
   program
     .command('stats')
@@ -1886,6 +2484,58 @@ export function memoryCommands(program: Command): void {
       }
     });
 
+  intelligence
+    .command('contradictions')
+    .description('Review inferred conclusions that contradict each other and pick what holds')
+    .option('--subject-id <id>', 'Subject to review (defaults to the current user)')
+    .option('--limit <number>', 'Maximum contradiction groups to load', '20')
+    .option('--list', 'List contradictions without prompting')
+    .option('--json', 'Output raw JSON payload (implies --list)')
+    .action(async (options: IntelligenceContradictionsOptions) => {
+      try {
+        const subjectId = options.subjectId ?? await resolveCurrentUserId();
+        const limit = parsePositiveIntOption(options.limit, '--limit', 1);
+        const spinner = ora('Loading contradictions...').start();
+        const groups = await apiClient.getContradictions(subjectId, limit !== undefined ? { limit } : {});
+        spinner.stop();
+
+        if (options.json) {
+          console.log(JSON.stringify({ groups }, null, 2));
+          return;
+        }
+        if (groups.length === 0) {
+          console.log(chalk.green('✓ No unresolved contradictions'));
+          return;
+        }
+
+        let resolved = 0;
+        for (const [index, group] of groups.entries()) {
+          printContradictionGroup(group, `${index + 1}/${groups.length}`);
+          if (options.list) continue;
+
+          const resolution = await promptContradictionResolution(group);
+          if (resolution === 'stop') break;
+          if (!resolution) continue;
+
+          const result = await apiClient.resolveContradiction(group.contradiction_group_id, subjectId, resolution);
+          resolved++;
+          console.log(chalk.green(
+            resolution.action === 'accept'
+              ? `✓ Accepted; ${result.conclusions.length - 1} conclusion(s) superseded`
+              : `✓ Kept ${result.conclusions.length} scoped conclusions`
+          ));
+        }
+
+        if (!options.list) {
+          console.log(chalk.gray(`\n${resolved} of ${groups.length} contradiction(s) resolved. Later reasoning runs keep these decisions.`));
+        }
+      } catch (error: unknown) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        console.error(chalk.red('✖ Failed to review contradictions:'), errorMessage);
+        process.exit(1);
+      }
+    });
+
   // Behavior commands powered by @lanonasis/mem-intel-sdk
   const behavior = program
     .command('behavior')
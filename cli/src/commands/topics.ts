@@ -30,6 +30,8 @@ interface UpdateTopicOptions {
   description?: string;
   color?: string;
   icon?: string;
+  parent?: string;
+  root?: boolean;
   interactive?: boolean;
 }
 
@@ -42,6 +44,7 @@ interface UpdateTopicAnswers {
 
 interface DeleteTopicOptions {
   force?: boolean;
+  moveTo?: string;
 }
 
 interface DeleteConfirmAnswer {
@@ -178,7 +181,7 @@ export function topicCommands(program: Command): void {
             ]
           };
 
-          const tableHeaders = ['Name', 'Description', 'System', 'Created'];
+          const tableHeaders = ['Name', 'Description', 'Color', 'Created', 'Subtopic'];
           console.log(table([tableHeaders, ...tableData], tableConfig));
         }
       } catch (error: unknown) {
@@ -246,6 +249,8 @@ export function topicCommands(program: Command): void {
     .option('-d, --description <description>', 'new description')
     .option('-c, --color <color>', 'new color (hex format)')
     .option('--icon <icon>', 'new icon')
+    .option('--parent <parentId>', 'move under another topic')
+    .option('--root', 'move to the top level')
     .option('-i, --interactive', 'interactive mode')
     .action(async (id: string, options: UpdateTopicOptions) => {
       try {
@@ -299,6 +304,8 @@ export function topicCommands(program: Command): void {
           if (options.description) updateData.description = options.description;
           if (options.color) updateData.color = options.color;
           if (options.icon) updateData.icon = options.icon;
+          if (options.parent) updateData.parent_topic_id = options.parent;
+          if (options.root) updateData.parent_topic_id = null;
         }
 
         if (Object.keys(updateData).length === 0) {
@@ -328,6 +335,7 @@ export function topicCommands(program: Command): void {
     .description('Delete a topic')
     .argument('<id>', 'topic ID')
     .option('-f, --force', 'skip confirmation')
+    .option('--move-to <topicId>', 'move the topic\'s memories to another topic instead of detaching them')
     .action(async (id: string, options: DeleteTopicOptions) => {
       try {
         if (!options.force) {
@@ -348,8 +356,14 @@ export function topicCommands(program: Command): void {
         }
 
         const spinner = ora('Deleting topic...').start();
-        await apiClient.deleteTopic(id);
+        const result = await apiClient.deleteTopic(
+          id,
+          options.moveTo ? { memories: 'move', target_topic_id: options.moveTo } : { memories: 'detach' }
+        );
         spinner.succeed('Topic deleted successfully');
+
+        const action = result.memories_action === 'move' ? 'moved' : 'detached';
+        console.log(chalk.gray(`  ${result.memories_affected} memories ${action}, ${result.children_reparented} subtopics re-parented`));
       } catch (error: unknown) {
         const errorMessage = error instanceof Error ? error.message : 'Unknown error';
         console.error(chalk.red('✖ Failed to delete topic:'), errorMessage);
@@ -27,7 +27,7 @@ _lanonasis_completions() {
                     COMPREPLY=($(compgen -W "login logout status vendor-key oauth" -- "$cur"))
                     ;;
                 memory|mem)
-                    COMPREPLY=($(compgen -W "list create get update delete search stats bulk-delete export import" -- "$cur"))
+                    COMPREPLY=($(compgen -W "list create get update delete search history diff restore stats bulk-delete export import" -- "$cur"))
                     ;;
                 topic|topics)
                     COMPREPLY=($(compgen -W "list create get update delete" -- "$cur"))
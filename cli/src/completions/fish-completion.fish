@@ -72,6 +72,9 @@ complete -c lanonasis -f -n '__fish_lanonasis_using_command memory' -a 'get' -d
 complete -c lanonasis -f -n '__fish_lanonasis_using_command memory' -a 'update' -d 'Update an existing memory'
 complete -c lanonasis -f -n '__fish_lanonasis_using_command memory' -a 'delete' -d 'Delete a memory'
 complete -c lanonasis -f -n '__fish_lanonasis_using_command memory' -a 'search' -d 'Search memories'
+complete -c lanonasis -f -n '__fish_lanonasis_using_command memory' -a 'history' -d 'Show memory version history'
+complete -c lanonasis -f -n '__fish_lanonasis_using_command memory' -a 'diff' -d 'Compare two memory versions'
+complete -c lanonasis -f -n '__fish_lanonasis_using_command memory' -a 'restore' -d 'Restore a memory version'
 complete -c lanonasis -f -n '__fish_lanonasis_using_command memory' -a 'stats' -d 'Show memory statistics'
 complete -c lanonasis -f -n '__fish_lanonasis_using_command memory' -a 'bulk-delete' -d 'Delete multiple memories'
 complete -c lanonasis -f -n '__fish_lanonasis_using_command memory' -a 'export' -d 'Export memories'
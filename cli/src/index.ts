@@ -7,6 +7,7 @@ import { config } from 'dotenv';
 import { initCommand } from './commands/init.js';
 import { loginCommand, diagnoseCommand } from './commands/auth.js';
 import { memoryCommands } from './commands/memory.js';
+import { enhancedMemoryCommands } from './commands/enhanced-memory.js';
 import { topicCommands } from './commands/topics.js';
 import { configCommands } from './commands/config.js';
 import { orgCommands } from './commands/organization.js';
@@ -408,6 +409,14 @@ const memoryCmd = program
 requireAuth(memoryCmd);
 memoryCommands(memoryCmd);
 
+// Memory lifecycle commands (require auth)
+const enhancedMemoryCmd = program
+  .command('memory-enhanced')
+  .description('Memory lifecycle operations: pause, archive, trash and restore');
+
+requireAuth(enhancedMemoryCmd);
+enhancedMemoryCommands(enhancedMemoryCmd);
+
 // Note: Memory commands are now MCP-powered when available
 
 // REPL command (lightweight REPL for memory operations)
@@ -5,9 +5,30 @@
 
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
+import { AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js';
+import { InvalidTokenError } from '@modelcontextprotocol/sdk/server/auth/errors.js';
+import { AddressInfo } from 'net';
 import { CLIConfig } from '../../utils/config.js';
-import { APIClient } from '../../utils/api.js';
+import { APIClient, MemoryEntry, UserProfile } from '../../utils/api.js';
 import chalk from 'chalk';
+import {
+  MemoryChangeKind,
+  RESOURCE_TEMPLATES,
+  ResourceSubscriptionManager,
+  memoryIdFromUri
+} from './resource-subscriptions.js';
+import { MemoryPromptProvider } from './memory-prompts.js';
+import { CredentialKind, StreamableHttpHost } from './streamable-http.js';
+import {
+  LOCAL_ONLY_TOOLS,
+  MCP_SCOPES,
+  isLocalOnlyResource,
+  missingScopes,
+  parseScopes,
+  requiredScopesForResource,
+  requiredScopesForTool,
+  UNSCOPED_CREDENTIAL_SCOPES
+} from './scopes.js';
 
 export interface LanonasisServerOptions {
   name?: string;
@@ -21,6 +42,30 @@ export interface LanonasisServerOptions {
   host?: string;  // Host address for ws/http/sse transports
   preferredTransport?: 'stdio' | 'websocket' | 'http';
   enableTransportFallback?: boolean;
+  resourcePollInterval?: number;  // ms between checks for changes to subscribed resources; 0 disables
+  httpPath?: string;  // Endpoint path for the streamable HTTP transport
+  sessionIdleTimeout?: number;  // ms before an idle HTTP session is closed
+}
+
+/** The parts of the SDK request context the handlers use; authInfo is only set over HTTP */
+type RequestExtra = { authInfo?: AuthInfo; sessionId?: string };
+
+/**
+ * An HTTP session served by a parent server with the caller's credentials
+ */
+interface HttpSessionBinding {
+  auth: AuthInfo;
+  host: LanonasisMCPServer;
+}
+
+/**
+ * Whether two HTTP callers see the same memories: the same user, or members
+ * of the same organization
+ */
+function sharesMemoryScope(a: AuthInfo, b: AuthInfo): boolean {
+  if (a.clientId === b.clientId) return true;
+  const org = a.extra?.organizationId;
+  return typeof org === 'string' && org.length > 0 && org === b.extra?.organizationId;
 }
 
 export interface ConnectionHealth {
@@ -49,6 +94,11 @@ export class LanonasisMCPServer {
   private transport: StdioServerTransport | null = null;
   private options: LanonasisServerOptions;
 
+  // Streamable HTTP: the host owns the listener, each session gets its own server instance
+  private httpHost: StreamableHttpHost | null = null;
+  private httpSessions: Map<string, LanonasisMCPServer> = new Map();
+  private session?: HttpSessionBinding;
+
   // Connection pool management
   private connectionPool: Map<string, ConnectionHealth> = new Map();
   private maxConnections: number = 10;
@@ -59,8 +109,19 @@ export class LanonasisMCPServer {
   private transportFailures: Map<string, { count: number; lastFailure: Date }> = new Map();
   private enableFallback: boolean = true;
 
-  constructor(options: LanonasisServerOptions = {}) {
+  // Resource subscriptions (resources/subscribe)
+  private resourceSubscriptions: ResourceSubscriptionManager;
+
+  // Memory-grounded prompts; reads this.apiClient lazily so it follows re-initialization
+  private memoryPrompts = new MemoryPromptProvider({
+    searchMemories: (...args) => this.apiClient.searchMemories(...args),
+    getMemories: (...args) => this.apiClient.getMemories(...args),
+    getTopics: () => this.apiClient.getTopics()
+  });
+
+  constructor(options: LanonasisServerOptions = {}, session?: HttpSessionBinding) {
     this.options = options;
+    this.session = session;
 
     // Initialize transport settings
     this.enableFallback = options.enableTransportFallback !== false; // Default to true
@@ -72,18 +133,42 @@ export class LanonasisMCPServer {
     }, {
       capabilities: {
         tools: {},
-        resources: {},
-        prompts: {}
+        resources: { subscribe: true, listChanged: true },
+        prompts: {},
+        completions: {}
       }
     });
 
-    // Initialize config and API client
+    // Initialize config and API client; HTTP sessions call the API with the caller's credentials
     this.config = new CLIConfig();
-    this.apiClient = new APIClient();
+    if (session) {
+      const vendorKey = session.auth.extra?.credentialKind === 'vendor_key';
+      this.apiClient = new APIClient(vendorKey ? { vendorKey: session.auth.token } : { token: session.auth.token });
+      this.apiClient.noExit = true;
+    } else {
+      this.apiClient = new APIClient();
+    }
+
+    this.resourceSubscriptions = new ResourceSubscriptionManager({
+      notifyUpdated: (uri) => this.server.sendResourceUpdated({ uri }),
+      notifyListChanged: () => this.server.sendResourceListChanged(),
+      fetchMemory: async (id) => {
+        try {
+          return await this.apiClient.getMemory(id);
+        } catch (error: any) {
+          if (error?.response?.status === 404) return null;
+          throw error;
+        }
+      },
+      fetchRecentIds: async () => this.recentMemories().then((memories) => memories.map((memory) => memory.id)),
+      pollInterval: options.resourcePollInterval
+    });
 
     // Note: registerTools is now async and called in initialize()
-    // Setup error handling
-    this.setupErrorHandling();
+    // Setup error handling; process handlers belong to the top-level server only
+    if (!session) {
+      this.setupErrorHandling();
+    }
   }
 
   private extractMemoryIdentifier(args: Record<string, unknown>): string {
@@ -98,6 +183,33 @@ export class LanonasisMCPServer {
     return resolved;
   }
 
+  /**
+   * Input schema shared by the lifecycle tools (archive, pause, resume, restore)
+   */
+  private lifecycleToolSchema() {
+    return {
+      type: 'object',
+      properties: {
+        id: {
+          type: 'string',
+          description: 'Memory ID or displayed prefix'
+        },
+        memory_id: {
+          type: 'string',
+          description: 'Legacy alias for memory ID or displayed prefix'
+        },
+        reason: {
+          type: 'string',
+          description: 'Why the state is changing (kept in the memory history)'
+        }
+      },
+      anyOf: [
+        { required: ['id'] },
+        { required: ['memory_id'] }
+      ]
+    };
+  }
+
   /**
    * Initialize the server
    */
@@ -148,7 +260,7 @@ export class LanonasisMCPServer {
 
     // List available tools
     this.server.setRequestHandler(ListToolsRequestSchema, async () => ({
-      tools: [
+      tools: this.exposedTools([
         // Memory tools
         {
           name: 'memory_create',
@@ -200,6 +312,11 @@ export class LanonasisMCPServer {
                 maximum: 1,
                 default: 0.55,
                 description: 'Similarity threshold'
+              },
+              states: {
+                type: 'array',
+                items: { type: 'string', enum: ['active', 'paused', 'archived', 'deleted'] },
+                description: 'Lifecycle states to search (default: active only)'
               }
             },
             required: ['query']
@@ -224,6 +341,10 @@ export class LanonasisMCPServer {
               topic_id: {
                 type: 'string',
                 description: 'Filter by topic ID'
+              },
+              state: {
+                type: 'string',
+                description: 'Comma-separated lifecycle states (active, paused, archived, deleted) or "all"; default active'
               }
             }
           }
@@ -285,7 +406,53 @@ export class LanonasisMCPServer {
         },
         {
           name: 'memory_delete',
-          description: 'Delete a memory',
+          description: 'Move a memory to the trash (restorable with memory_restore until it is purged)',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              id: {
+                type: 'string',
+                description: 'Memory ID or displayed prefix'
+              },
+              memory_id: {
+                type: 'string',
+                description: 'Legacy alias for memory ID or displayed prefix'
+              },
+              permanent: {
+                type: 'boolean',
+                default: false,
+                description: 'Delete permanently instead of moving to the trash'
+              }
+            },
+            anyOf: [
+              { required: ['id'] },
+              { required: ['memory_id'] }
+            ]
+          }
+        },
+        {
+          name: 'memory_archive',
+          description: 'Archive a memory so it no longer appears in default search and list results',
+          inputSchema: this.lifecycleToolSchema()
+        },
+        {
+          name: 'memory_pause',
+          description: 'Temporarily hide an active memory from default search and list results',
+          inputSchema: this.lifecycleToolSchema()
+        },
+        {
+          name: 'memory_resume',
+          description: 'Make a paused memory active again',
+          inputSchema: this.lifecycleToolSchema()
+        },
+        {
+          name: 'memory_restore',
+          description: 'Restore an archived memory, or a deleted one still in the trash',
+          inputSchema: this.lifecycleToolSchema()
+        },
+        {
+          name: 'memory_history',
+          description: 'Show the lifecycle state transitions of a memory',
           inputSchema: {
             type: 'object',
             properties: {
@@ -296,6 +463,11 @@ export class LanonasisMCPServer {
               memory_id: {
                 type: 'string',
                 description: 'Legacy alias for memory ID or displayed prefix'
+              },
+              limit: {
+                type: 'number',
+                default: 20,
+                description: 'Maximum number of transitions'
               }
             },
             anyOf: [
@@ -304,6 +476,25 @@ export class LanonasisMCPServer {
             ]
           }
         },
+        {
+          name: 'memory_trash',
+          description: 'List deleted memories that can still be restored',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              limit: {
+                type: 'number',
+                default: 20,
+                description: 'Maximum number of results'
+              },
+              page: {
+                type: 'number',
+                default: 1,
+                description: 'Page number'
+              }
+            }
+          }
+        },
 
         // Topic tools
         {
@@ -478,19 +669,44 @@ export class LanonasisMCPServer {
             }
           }
         }
-      ]
+      ])
     }));
 
     // Tool call handler (CallToolRequestSchema already imported above)
-    this.server.setRequestHandler(CallToolRequestSchema, async (request: any) => {
+    this.server.setRequestHandler(CallToolRequestSchema, async (request: any, extra?: RequestExtra) => {
       const { name, arguments: args } = request.params;
+      const authInfo = extra?.authInfo;
 
       // Generate or extract client ID for connection tracking
-      const clientId = this.extractClientId(request) || this.generateClientId();
+      const clientId = extra?.sessionId || this.extractClientId(request) || this.generateClientId();
+
+      // HTTP requests were authenticated by the transport; check the token's scopes for this tool
+      const scopeError = authInfo ? this.toolScopeError(name, authInfo) : null;
+      if (scopeError) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Authorization Error: ${scopeError}`
+            }
+          ],
+          isError: true,
+          task: {
+            taskId: `${clientId}-${Date.now()}`,
+            status: 'failed' as const,
+            ttl: null,
+            createdAt: new Date().toISOString(),
+            lastUpdatedAt: new Date().toISOString(),
+            statusMessage: 'Insufficient scope'
+          }
+        };
+      }
 
       // Authenticate the connection before processing the request
       try {
-        await this.authenticateRequest(request, clientId);
+        if (!authInfo) {
+          await this.authenticateRequest(request, clientId);
+        }
       } catch (error) {
         return {
           content: [
@@ -515,11 +731,13 @@ export class LanonasisMCPServer {
 
       try {
         const result = await this.handleToolCall(name, args, clientId);
+        await this.publishMemoryChange(name, args, result);
         return {
           content: [
             {
               type: 'text',
-              text: JSON.stringify(result, null, 2)
+              // Calls like memory_delete resolve without a payload; text content must be a string
+              text: JSON.stringify(result ?? { success: true }, null, 2)
             }
           ],
           task: {
@@ -555,10 +773,16 @@ export class LanonasisMCPServer {
     * Register MCP resources
     */
   private async registerResources(): Promise<void> {
-    const { ListResourcesRequestSchema, ReadResourceRequestSchema } = await import('@modelcontextprotocol/sdk/types.js');
-
-    this.server.setRequestHandler(ListResourcesRequestSchema, async () => ({
-      resources: [
+    const {
+      ListResourcesRequestSchema,
+      ListResourceTemplatesRequestSchema,
+      ReadResourceRequestSchema,
+      SubscribeRequestSchema,
+      UnsubscribeRequestSchema
+    } = await import('@modelcontextprotocol/sdk/types.js');
+
+    this.server.setRequestHandler(ListResourcesRequestSchema, async (_request: any, extra?: RequestExtra) => ({
+      resources: this.exposedResources([
         {
           uri: 'memory://recent',
           name: 'Recent Memories',
@@ -594,12 +818,35 @@ export class LanonasisMCPServer {
           name: 'Transport Status',
           description: 'Transport protocol status and failure statistics',
           mimeType: 'application/json'
-        }
-      ]
+        },
+        // Recent memories as addressable resources; creates and deletes change this list
+        ...(await this.recentMemories(extra?.authInfo).catch((): MemoryEntry[] => [])).map((memory) => ({
+          uri: `memory://${memory.id}`,
+          name: memory.title,
+          description: `${memory.memory_type} memory`,
+          mimeType: 'application/json'
+        }))
+      ])
+    }));
+
+    this.server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => ({
+      resourceTemplates: RESOURCE_TEMPLATES
     }));
 
-    this.server.setRequestHandler(ReadResourceRequestSchema, async (request: any) => {
+    this.server.setRequestHandler(SubscribeRequestSchema, async (request: any, extra?: RequestExtra) => {
+      this.assertResourceAccess(extra?.authInfo, request.params.uri);
+      this.resourceSubscriptions.subscribe(request.params.uri);
+      return {};
+    });
+
+    this.server.setRequestHandler(UnsubscribeRequestSchema, async (request: any) => {
+      this.resourceSubscriptions.unsubscribe(request.params.uri);
+      return {};
+    });
+
+    this.server.setRequestHandler(ReadResourceRequestSchema, async (request: any, extra?: RequestExtra) => {
       const { uri } = request.params;
+      this.assertResourceAccess(extra?.authInfo, uri);
 
       try {
         const content = await this.handleResourceRead(uri);
@@ -622,7 +869,7 @@ export class LanonasisMCPServer {
    * Register MCP prompts
    */
   private async registerPrompts(): Promise<void> {
-    const { ListPromptsRequestSchema, GetPromptRequestSchema } = await import('@modelcontextprotocol/sdk/types.js');
+    const { ListPromptsRequestSchema, GetPromptRequestSchema, CompleteRequestSchema } = await import('@modelcontextprotocol/sdk/types.js');
 
     this.server.setRequestHandler(ListPromptsRequestSchema, async () => ({
       prompts: [
@@ -637,28 +884,24 @@ export class LanonasisMCPServer {
             }
           ]
         },
-        {
-          name: 'search_memories',
-          description: 'Interactive prompt to search memories',
-          arguments: [
-            {
-              name: 'query',
-              description: 'Initial search query',
-              required: false
-            }
-          ]
-        },
         {
           name: 'organize_memories',
           description: 'Interactive prompt to organize memories into topics',
           arguments: []
-        }
+        },
+        // Prompts that embed search results from the memory API
+        ...this.memoryPrompts.list()
       ]
     }));
 
-    this.server.setRequestHandler(GetPromptRequestSchema, async (request: any) => {
+    this.server.setRequestHandler(GetPromptRequestSchema, async (request: any, extra?: RequestExtra) => {
       const { name, arguments: args } = request.params;
 
+      if (this.memoryPrompts.has(name)) {
+        this.assertScopes(extra?.authInfo, [MCP_SCOPES.MEMORY_READ], `prompt ${name}`);
+        return await this.memoryPrompts.get(name, args);
+      }
+
       const prompts: Record<string, any> = {
         create_memory: {
           description: 'Create a new memory entry',
@@ -677,22 +920,6 @@ Tags: [Optional comma-separated tags]`
             }
           ]
         },
-        search_memories: {
-          description: 'Search through your memories',
-          messages: [
-            {
-              role: 'user',
-              content: {
-                type: 'text',
-                text: `What would you like to search for in your memories?
-                
-Query: ${args?.query || '[Enter search terms]'}
-Limit: [Number of results, default 10]
-Threshold: [Similarity threshold 0-1, default 0.55]`
-              }
-            }
-          ]
-        },
         organize_memories: {
           description: 'Organize memories into topics',
           messages: [
@@ -722,6 +949,27 @@ Please choose an option (1-4):`
 
       return prompt;
     });
+
+    // completion/complete for prompt arguments (topics, tags) and topic://{id}
+    this.server.setRequestHandler(CompleteRequestSchema, async (request: any, extra?: RequestExtra) => {
+      const { ref, argument } = request.params;
+
+      try {
+        this.assertScopes(extra?.authInfo, [MCP_SCOPES.MEMORY_READ], 'completion');
+        if (ref.type === 'ref/prompt') {
+          return { completion: await this.memoryPrompts.complete(ref.name, argument.name, argument.value) };
+        }
+        if (ref.type === 'ref/resource' && ref.uri === 'topic://{id}') {
+          const topics = await this.apiClient.getTopics();
+          const ids = topics.map((topic) => topic.id).filter((id) => id.startsWith(argument.value));
+          return { completion: { values: ids.slice(0, 100), total: ids.length, hasMore: ids.length > 100 } };
+        }
+      } catch {
+        // Completion is best-effort; an unreachable API just yields no suggestions
+      }
+
+      return { completion: { values: [], total: 0, hasMore: false } };
+    });
   }  /**
   
   /**
@@ -741,14 +989,16 @@ Please choose an option (1-4):`
       case 'memory_search':
         return await this.apiClient.searchMemories(args.query, {
           limit: args.limit,
-          threshold: args.threshold
+          threshold: args.threshold,
+          ...(Array.isArray(args.states) ? { states: args.states } : {})
         });
 
       case 'memory_list':
         return await this.apiClient.getMemories({
           limit: args.limit,
           offset: args.offset,
-          topic_id: args.topic_id
+          topic_id: args.topic_id,
+          ...(typeof args.state === 'string' ? { state: args.state } : {})
         });
 
       case 'memory_get':
@@ -760,8 +1010,32 @@ Please choose an option (1-4):`
         return await this.apiClient.updateMemory(memoryId, updateArgs);
 
       case 'memory_delete':
+        if (args.permanent === true) {
+          return await this.apiClient.deleteMemory(this.extractMemoryIdentifier(args), { permanent: true });
+        }
         return await this.apiClient.deleteMemory(this.extractMemoryIdentifier(args));
 
+      case 'memory_archive':
+      case 'memory_pause':
+      case 'memory_resume':
+      case 'memory_restore':
+        return await this.apiClient.transitionMemory(
+          this.extractMemoryIdentifier(args),
+          name.replace('memory_', '') as 'archive' | 'pause' | 'resume' | 'restore',
+          typeof args.reason === 'string' ? args.reason : undefined
+        );
+
+      case 'memory_history':
+        return await this.apiClient.getMemoryTransitions(this.extractMemoryIdentifier(args), {
+          limit: args.limit
+        });
+
+      case 'memory_trash':
+        return await this.apiClient.getTrash({
+          limit: args.limit,
+          page: args.page
+        });
+
       // Topic operations
       case 'topic_create':
         return await this.apiClient.createTopic(args);
@@ -849,15 +1123,32 @@ Please choose an option (1-4):`
     const [protocol, path] = uri.split('://');
 
     switch (protocol) {
-      case 'memory':
+      case 'memory': {
         if (path === 'recent') {
           return await this.apiClient.getMemories({ limit: 10 });
         } else if (path === 'search') {
           return {
-            message: 'Use memory_search tool to search memories',
+            message: 'Use memory_search tool or the search://{query} resource to search memories',
             example: { query: 'your search query', limit: 10 }
           };
         }
+        const memoryId = memoryIdFromUri(uri);
+        if (memoryId) {
+          return await this.apiClient.getMemory(memoryId);
+        }
+        break;
+      }
+
+      case 'topic':
+        if (path) {
+          return await this.apiClient.getTopic(decodeURIComponent(path));
+        }
+        break;
+
+      case 'search':
+        if (path) {
+          return await this.apiClient.searchMemories(decodeURIComponent(path), { limit: 10 });
+        }
         break;
 
       case 'config':
@@ -910,6 +1201,93 @@ Please choose an option (1-4):`
     throw new Error(`Unknown resource: ${uri}`);
   }
 
+  /**
+   * Most recent memories, newest first
+   */
+  private async recentMemories(authInfo?: AuthInfo): Promise<MemoryEntry[]> {
+    this.assertScopes(authInfo, [MCP_SCOPES.MEMORY_READ], 'memory://recent');
+    const result = await this.apiClient.getMemories({ limit: 20 });
+    return (result.memories || result.data || []) as MemoryEntry[];
+  }
+
+  /**
+   * Notify resource subscribers about a memory changed by a tool call
+   */
+  private async publishMemoryChange(name: string, args: any, result: any): Promise<void> {
+    const kinds: Record<string, MemoryChangeKind> = {
+      memory_create: 'created',
+      memory_update: 'updated',
+      memory_delete: 'deleted',
+      memory_archive: 'updated',
+      memory_pause: 'updated',
+      memory_resume: 'updated',
+      // A restored memory reappears in listings
+      memory_restore: 'created'
+    };
+    const kind = kinds[name];
+    if (!kind) return;
+
+    // Prefer the resolved id from the API over a displayed prefix
+    const id = typeof result?.id === 'string' ? result.id : (args?.id ?? args?.memory_id);
+    if (typeof id !== 'string' || !id) return;
+
+    // stdio changes stay on stdio; an HTTP change reaches only sessions of the
+    // same user or organization, never the stdio operator or other tenants
+    const writer = this.session;
+    const managers = writer
+      ? [...writer.host.httpSessions.values()]
+        .filter((peer) => peer.session && sharesMemoryScope(writer.auth, peer.session.auth))
+        .map((peer) => peer.resourceSubscriptions)
+      : [this.resourceSubscriptions];
+    await Promise.all(managers.map((manager) => manager.memoryChanged(id, kind)));
+  }
+
+  /**
+   * Why a token may not call a tool, or null when it may
+   */
+  private toolScopeError(name: string, authInfo: AuthInfo): string | null {
+    if (LOCAL_ONLY_TOOLS.has(name)) {
+      return `${name} is only available over stdio`;
+    }
+    const missing = missingScopes(authInfo.scopes, requiredScopesForTool(name));
+    return missing.length > 0 ? `${name} requires scope ${missing.join(' ')}` : null;
+  }
+
+  /**
+   * Drop stdio-only tools from listings served to HTTP sessions
+   */
+  private exposedTools<T extends { name: string }>(tools: T[]): T[] {
+    return this.session ? tools.filter((tool) => !LOCAL_ONLY_TOOLS.has(tool.name)) : tools;
+  }
+
+  /**
+   * Drop stdio-only resources from listings served to HTTP sessions
+   */
+  private exposedResources<T extends { uri: string }>(resources: T[]): T[] {
+    return this.session ? resources.filter((resource) => !isLocalOnlyResource(resource.uri)) : resources;
+  }
+
+  /**
+   * Reject HTTP reads of stdio-only resources and of resources the token lacks scopes for
+   */
+  private assertResourceAccess(authInfo: AuthInfo | undefined, uri: string): void {
+    if (authInfo && isLocalOnlyResource(uri)) {
+      throw new Error(`${uri} is only available over stdio`);
+    }
+    this.assertScopes(authInfo, requiredScopesForResource(uri), uri);
+  }
+
+  /**
+   * Reject HTTP requests whose token lacks the given scopes; stdio requests carry no auth info
+   */
+  private assertScopes(authInfo: AuthInfo | undefined, required: string[], target: string): void {
+    if (!authInfo) return;
+    const missing = missingScopes(authInfo.scopes, required);
+    if (missing.length > 0) {
+      throw new Error(`Insufficient scope: ${target} requires ${missing.join(' ')}`);
+    }
+  }
+
   /**
    * Handle system health check
    */
@@ -1284,53 +1662,14 @@ Please choose an option (1-4):`
    * Validate provided credentials against the API
    */
   private async validateCredentials(token?: string, vendorKey?: string): Promise<boolean> {
-    if (!token && !vendorKey) {
+    const credential = vendorKey || token;
+    if (!credential) {
       return false;
     }
 
     try {
-      // Import axios dynamically to avoid circular dependency
-      const axios = (await import('axios')).default;
-
-      // Ensure service discovery is done
-      await this.config.discoverServices();
-
-      const authBase = this.config.getDiscoveredApiUrl();
-      const headers: Record<string, string> = {
-        'X-Project-Scope': 'lanonasis-maas'
-      };
-
-      if (vendorKey) {
-        headers['X-API-Key'] = vendorKey;
-        headers['X-Auth-Method'] = 'vendor_key';
-      } else if (token) {
-        headers['Authorization'] = `Bearer ${token}`;
-        headers['X-Auth-Method'] = 'jwt';
-      }
-
-      const normalizedBase = authBase.replace(/\/$/, '');
-      const endpoints = [
-        `${normalizedBase}/health`,
-        `${normalizedBase}/api/v1/health`
-      ];
-
-      let lastError: unknown;
-      for (const endpoint of endpoints) {
-        try {
-          await axios.get(endpoint, {
-            headers,
-            timeout: 10000
-          });
-          return true;
-        } catch (error) {
-          lastError = error;
-        }
-      }
-
-      if (lastError instanceof Error) {
-        throw lastError;
-      }
-      throw new Error('Auth health endpoints unreachable');
+      const profile = await this.introspectCredential(credential, vendorKey ? 'vendor_key' : 'bearer');
+      return Boolean(profile?.id);
     } catch (error: any) {
       if (this.options.verbose) {
         console.log(chalk.yellow(`⚠️ Credential validation failed: ${error.response?.status || error.message}`));
@@ -1339,6 +1678,17 @@ Please choose an option (1-4):`
     }
   }
 
+  /**
+   * Ask the auth gateway who a credential belongs to: GET /v1/auth/me sent
+   * with that credential. Rejects when the gateway does not accept it.
+   */
+  private async introspectCredential(credential: string, kind: CredentialKind): Promise<UserProfile> {
+    const client = new APIClient(kind === 'vendor_key' ? { vendorKey: credential } : { token: credential });
+    client.noExit = true;
+    return client.getUserProfile();
+  }
+
+
   /**
    * Validate connection authentication status
    */
@@ -1605,15 +1955,98 @@ Please choose an option (1-4):`
         throw new Error('WebSocket transport not yet implemented');
 
       case 'http':
-        // HTTP transport would be implemented here
-        // For now, we'll simulate it
-        throw new Error('HTTP transport not yet implemented');
+        await this.startHttpHost();
+        break;
 
       default:
         throw new Error(`Unsupported transport: ${transport}`);
     }
   }
 
+  /**
+   * Listen for Streamable HTTP clients on options.host/options.port
+   */
+  private async startHttpHost(): Promise<AddressInfo> {
+    this.httpHost = new StreamableHttpHost({
+      port: this.options.port,
+      host: this.options.host,
+      path: this.options.httpPath,
+      sessionIdleTimeout: this.options.sessionIdleTimeout,
+      verifyCredential: (credential, kind) => this.verifyHttpCredential(credential, kind),
+      createSessionServer: (auth, sessionId) => this.createHttpSession(auth, sessionId),
+      canOpenSession: () => this.canAcceptNewConnection(),
+      onSessionClosed: (sessionId) => this.closeHttpSession(sessionId)
+    });
+
+    try {
+      return await this.httpHost.listen();
+    } catch (error) {
+      this.httpHost = null;
+      throw error;
+    }
+  }
+
+  /**
+   * Resolve an HTTP credential to its identity and scopes through the auth
+   * gateway; nothing in the credential itself is trusted. Credentials the
+   * gateway reports no scopes for are read-only.
+   */
+  private async verifyHttpCredential(credential: string, kind: CredentialKind): Promise<AuthInfo> {
+    let profile: UserProfile;
+    try {
+      profile = await this.introspectCredential(credential, kind);
+    } catch (error) {
+      const status = (error as { response?: { status?: number } }).response?.status;
+      if (status === 401 || status === 403) {
+        throw new InvalidTokenError('Invalid credentials provided.');
+      }
+      const reason = status ?? (error instanceof Error ? error.message : 'auth gateway unreachable');
+      throw new Error(`Credential verification failed: ${reason}`);
+    }
+
+    if (!profile?.id) {
+      throw new InvalidTokenError('Invalid credentials provided.');
+    }
+
+    return {
+      token: credential,
+      clientId: profile.id,
+      scopes: parseScopes(profile.scope) ?? [...UNSCOPED_CREDENTIAL_SCOPES],
+      extra: {
+        credentialKind: kind,
+        organizationId: profile.organization_id ?? profile.organizationId ?? undefined
+      }
+    };
+  }
+
+  /**
+   * Build the protocol server for a new HTTP session. The session shares
+   * config and connection bookkeeping with this server but calls the API with
+   * the caller's own credentials.
+   */
+  private async createHttpSession(auth: AuthInfo, sessionId: string): Promise<Server> {
+    this.ensureConnectionExists(sessionId, 'http', { name: auth.clientId });
+    this.authenticateConnection(sessionId);
+
+    const session = new LanonasisMCPServer(this.options, { auth, host: this });
+    session.config = this.config;
+    session.connectionPool = this.connectionPool;
+    session.transportFailures = this.transportFailures;
+
+    await session.registerTools();
+    await session.registerResources();
+    await session.registerPrompts();
+
+    this.httpSessions.set(sessionId, session);
+    return session.server;
+  }
+
+  private closeHttpSession(sessionId: string): void {
+    this.httpSessions.get(sessionId)?.resourceSubscriptions.stop();
+    this.httpSessions.delete(sessionId);
+    this.removeConnection(sessionId);
+  }
+
   /**
    * Get transport status and statistics
    */
@@ -1762,12 +2195,41 @@ Please choose an option (1-4):`
     }
   }
 
+  /**
+   * Start the server on the MCP Streamable HTTP transport
+   * Used by `lanonasis mcp start --transport http`; every client authenticates
+   * with its own bearer token or vendor key.
+   */
+  async startHttp(): Promise<void> {
+    await this.initialize();
+
+    try {
+      const address = await this.startHttpHost();
+
+      console.error(chalk.cyan('🚀 Lanonasis MCP Server started (streamable HTTP)'));
+      console.error(chalk.gray(`Endpoint: http://${address.address}:${address.port}${this.httpHost!.path}`));
+      console.error(chalk.gray(`Backend: ${this.config.getApiUrl()}`));
+      console.error(chalk.gray(`Clients need a bearer token with the ${MCP_SCOPES.MCP_CONNECT} scope or an X-API-Key header`));
+    } catch (error) {
+      console.error(chalk.red('❌ Failed to start MCP Server:'));
+      console.error(chalk.red(error instanceof Error ? error.message : 'Unknown error'));
+      throw error;
+    }
+  }
+
   /**
    * Stop the server
    */
   async stop(): Promise<void> {
-    // Stop connection cleanup
+    // Stop connection cleanup and resource polling
     this.stopConnectionCleanup();
+    this.resourceSubscriptions.stop();
+
+    // Closing the host closes every HTTP session
+    if (this.httpHost) {
+      await this.httpHost.close();
+      this.httpHost = null;
+    }
 
     // Clear all connections
     this.connectionPool.clear();
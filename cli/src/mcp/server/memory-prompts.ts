@@ -0,0 +1,310 @@
+/**
+ * Memory-grounded MCP prompts
+ * Each prompt runs a search or listing against the memory API and embeds the
+ * matching memories, numbered so the model can cite them as [n].
+ */
+
+import type { APIClient, MemoryEntry, MemoryTopic } from '../../utils/api.js';
+
+export type MemoryPromptApi = Pick<APIClient, 'searchMemories' | 'getMemories' | 'getTopics'>;
+
+export interface PromptArgumentDefinition {
+  name: string;
+  description: string;
+  required: boolean;
+  /** Source of completion/complete suggestions */
+  complete?: 'topic' | 'tag';
+}
+
+export interface PromptDefinition {
+  name: string;
+  description: string;
+  arguments: PromptArgumentDefinition[];
+}
+
+export interface PromptResult {
+  description: string;
+  messages: Array<{ role: 'user' | 'assistant'; content: { type: 'text'; text: string } }>;
+}
+
+export interface CompletionResult {
+  values: string[];
+  total: number;
+  hasMore: boolean;
+}
+
+export const MEMORY_PROMPTS: PromptDefinition[] = [
+  {
+    name: 'recall_for_task',
+    description: 'Inject the memories most relevant to a task, with citations',
+    arguments: [
+      { name: 'task', description: 'What you are about to work on', required: true },
+      { name: 'k', description: 'Number of memories to include (default 5, max 20)', required: false },
+      { name: 'topic', description: 'Only recall memories in this topic', required: false, complete: 'topic' },
+      { name: 'tags', description: 'Only recall memories with these comma-separated tags', required: false, complete: 'tag' }
+    ]
+  },
+  {
+    name: 'search_memories',
+    description: 'Search memories and include the results',
+    arguments: [
+      { name: 'query', description: 'Search query', required: true },
+      { name: 'tags', description: 'Comma-separated tags to filter by', required: false, complete: 'tag' }
+    ]
+  },
+  {
+    name: 'summarize_topic',
+    description: 'Summarize every memory in a topic',
+    arguments: [
+      { name: 'topic', description: 'Topic name or ID', required: true, complete: 'topic' }
+    ]
+  },
+  {
+    name: 'session_handoff',
+    description: 'Pick up where the last sessions saved with `lanonasis save-session` left off',
+    arguments: [
+      { name: 'repo', description: 'Only sessions whose working directory or branch mentions this', required: false },
+      { name: 'limit', description: 'Number of sessions to include (default 3)', required: false }
+    ]
+  },
+  {
+    name: 'review_decisions',
+    description: 'Review recorded decisions for a repository',
+    arguments: [
+      { name: 'repo', description: 'Repository name as used in tags, titles or content', required: true },
+      { name: 'tag', description: 'Tag that marks decisions (default "decision")', required: false, complete: 'tag' }
+    ]
+  }
+];
+
+// Per-memory cap so a handful of long memories cannot blow up the prompt
+const MAX_MEMORY_CHARS = 1500;
+const MAX_COMPLETIONS = 100;
+const TAG_CACHE_TTL_MS = 60_000;
+
+const clampInt = (value: string | undefined, fallback: number, max: number): number => {
+  const parsed = parseInt(value ?? '', 10);
+  return Number.isFinite(parsed) && parsed > 0 ? Math.min(parsed, max) : fallback;
+};
+
+const splitTags = (value: string | undefined): string[] | undefined => {
+  const tags = (value ?? '').split(',').map((tag) => tag.trim()).filter(Boolean);
+  return tags.length > 0 ? tags : undefined;
+};
+
+const listOf = (result: { memories?: MemoryEntry[]; data?: MemoryEntry[]; results?: MemoryEntry[] }): MemoryEntry[] =>
+  result.memories || result.data || result.results || [];
+
+/**
+ * Numbered memory blocks; [n] in the model's answer refers to block n.
+ */
+export function formatMemoriesForPrompt(memories: Array<MemoryEntry & { similarity_score?: number }>): string {
+  return memories
+    .map((memory, index) => {
+      const content = memory.content.length > MAX_MEMORY_CHARS
+        ? `${memory.content.slice(0, MAX_MEMORY_CHARS)}… [truncated]`
+        : memory.content;
+      const details = [
+        `memory://${memory.id}`,
+        memory.memory_type,
+        memory.updated_at || memory.created_at,
+        memory.tags?.length ? `tags: ${memory.tags.join(', ')}` : undefined,
+        memory.similarity_score !== undefined ? `relevance: ${(memory.similarity_score * 100).toFixed(0)}%` : undefined
+      ].filter(Boolean).join(' | ');
+      return `[${index + 1}] ${memory.title}\n(${details})\n${content}`;
+    })
+    .join('\n\n');
+}
+
+export class MemoryPromptProvider {
+  private tagCache: { tags: string[]; expires: number } | undefined;
+
+  constructor(private api: MemoryPromptApi) {}
+
+  list(): Array<{ name: string; description: string; arguments: Array<Omit<PromptArgumentDefinition, 'complete'>> }> {
+    return MEMORY_PROMPTS.map((prompt) => ({
+      name: prompt.name,
+      description: prompt.description,
+      arguments: prompt.arguments.map(({ complete: _complete, ...argument }) => argument)
+    }));
+  }
+
+  has(name: string): boolean {
+    return MEMORY_PROMPTS.some((prompt) => prompt.name === name);
+  }
+
+  async get(name: string, args: Record<string, string | undefined> = {}): Promise<PromptResult> {
+    const definition = MEMORY_PROMPTS.find((prompt) => prompt.name === name);
+    if (!definition) throw new Error(`Unknown prompt: ${name}`);
+
+    const missing = definition.arguments.filter((argument) => argument.required && !args[argument.name]?.trim());
+    if (missing.length > 0) {
+      throw new Error(`Missing required argument(s) for ${name}: ${missing.map((argument) => argument.name).join(', ')}`);
+    }
+
+    switch (name) {
+      case 'recall_for_task':
+        return this.recallForTask(args);
+      case 'search_memories':
+        return this.searchMemories(args);
+      case 'summarize_topic':
+        return this.summarizeTopic(args);
+      case 'session_handoff':
+        return this.sessionHandoff(args);
+      case 'review_decisions':
+        return this.reviewDecisions(args);
+      default:
+        throw new Error(`Unknown prompt: ${name}`);
+    }
+  }
+
+  /**
+   * Suggestions for a prompt argument, filtered by the typed prefix
+   */
+  async complete(promptName: string, argumentName: string, value: string): Promise<CompletionResult> {
+    const argument = MEMORY_PROMPTS
+      .find((prompt) => prompt.name === promptName)
+      ?.arguments.find((candidate) => candidate.name === argumentName);
+
+    if (argument?.complete === 'topic') return this.completeTopics(value);
+    if (argument?.complete === 'tag') {
+      // Comma-separated lists complete their last entry
+      const parts = value.split(',');
+      const current = parts.pop() ?? '';
+      const prefix = parts.map((part) => part.trim()).filter(Boolean);
+      const known = (await this.knownTags()).filter((tag) => !prefix.includes(tag));
+      const result = this.filterCompletions(known, current.trim());
+      return {
+        ...result,
+        values: result.values.map((tag) => [...prefix, tag].join(','))
+      };
+    }
+    return { values: [], total: 0, hasMore: false };
+  }
+
+  private async completeTopics(value: string): Promise<CompletionResult> {
+    const topics = await this.api.getTopics();
+    return this.filterCompletions(topics.map((topic) => topic.name), value);
+  }
+
+  private async recallForTask(args: Record<string, string | undefined>): Promise<PromptResult> {
+    const task = (args.task as string).trim();
+    const k = clampInt(args.k, 5, 20);
+    const topic = args.topic ? await this.resolveTopic(args.topic) : undefined;
+    const tags = splitTags(args.tags);
+
+    const memories = listOf(await this.api.searchMemories(task, {
+      limit: k,
+      ...(topic ? { topic_id: topic.id } : {}),
+      ...(tags ? { tags } : {})
+    }));
+
+    const text = memories.length === 0
+      ? `I am about to work on the following task:\n\n${task}\n\nNo stored memories matched this task. Proceed without prior context and call out anything worth remembering afterwards.`
+      : `I am about to work on the following task:\n\n${task}\n\nThese are the ${memories.length} most relevant memories from my knowledge base. ` +
+        `Use them where they apply, cite them as [n] when you rely on one, and say so if they conflict with each other or with the task.\n\n` +
+        formatMemoriesForPrompt(memories);
+
+    return this.userPrompt(`Memories relevant to: ${task}`, text);
+  }
+
+  private async searchMemories(args: Record<string, string | undefined>): Promise<PromptResult> {
+    const query = (args.query as string).trim();
+    const tags = splitTags(args.tags);
+    const memories = listOf(await this.api.searchMemories(query, { limit: 10, ...(tags ? { tags } : {}) }));
+
+    const text = memories.length === 0
+      ? `I searched my memories for "${query}" and found nothing. Suggest other search terms I could try.`
+      : `Here are my memories matching "${query}". Answer from them and cite each one you use as [n].\n\n${formatMemoriesForPrompt(memories)}`;
+    return this.userPrompt(`Search results for: ${query}`, text);
+  }
+
+  private async summarizeTopic(args: Record<string, string | undefined>): Promise<PromptResult> {
+    const topic = await this.resolveTopic(args.topic as string);
+    if (!topic) throw new Error(`Topic not found: ${args.topic}`);
+
+    const memories = listOf(await this.api.getMemories({ topic_id: topic.id, limit: 100, sort: 'updated_at', order: 'desc' }));
+    const text = memories.length === 0
+      ? `The topic "${topic.name}" has no memories yet.`
+      : `Summarize the topic "${topic.name}"${topic.description ? ` (${topic.description})` : ''} from its ${memories.length} memories. ` +
+        `Group related points, note open questions and anything that looks outdated, and cite memories as [n].\n\n` +
+        formatMemoriesForPrompt(memories);
+    return this.userPrompt(`Summary of topic ${topic.name}`, text);
+  }
+
+  private async sessionHandoff(args: Record<string, string | undefined>): Promise<PromptResult> {
+    const limit = clampInt(args.limit, 3, 10);
+    const repo = args.repo?.trim().toLowerCase();
+
+    // save-session stores project memories tagged session,cli
+    const sessions = listOf(await this.api.getMemories({
+      tags: ['session', 'cli'],
+      limit: repo ? 50 : limit,
+      sort: 'created_at',
+      order: 'desc'
+    }))
+      .filter((memory) => !repo || memory.content.toLowerCase().includes(repo) || memory.title.toLowerCase().includes(repo))
+      .slice(0, limit);
+
+    const text = sessions.length === 0
+      ? `No saved sessions found${repo ? ` for ${args.repo}` : ''}. Run \`lanonasis save-session\` at the end of a working session to enable handoffs.`
+      : `I am resuming work. Here ${sessions.length === 1 ? 'is the latest saved session' : `are the latest ${sessions.length} saved sessions`}, newest first. ` +
+        `Tell me where things stand: what was in progress, which files were being changed, and what the sensible next step is. Cite sessions as [n].\n\n` +
+        formatMemoriesForPrompt(sessions);
+    return this.userPrompt('Session handoff', text);
+  }
+
+  private async reviewDecisions(args: Record<string, string | undefined>): Promise<PromptResult> {
+    const repo = (args.repo as string).trim();
+    const tag = args.tag?.trim() || 'decision';
+    const needle = repo.toLowerCase();
+
+    const decisions = listOf(await this.api.getMemories({ tags: [tag], limit: 100, sort: 'created_at', order: 'desc' }))
+      .filter((memory) =>
+        memory.tags?.some((candidate) => candidate.toLowerCase() === needle) ||
+        memory.title.toLowerCase().includes(needle) ||
+        memory.content.toLowerCase().includes(needle) ||
+        String(memory.metadata?.repo ?? '').toLowerCase() === needle
+      );
+
+    const text = decisions.length === 0
+      ? `No memories tagged "${tag}" mention ${repo}.`
+      : `Review the ${decisions.length} recorded decisions for ${repo}, newest first. For each, restate the decision and its rationale, ` +
+        `flag decisions that contradict or supersede earlier ones, and point out any that look stale. Cite decisions as [n].\n\n` +
+        formatMemoriesForPrompt(decisions);
+    return this.userPrompt(`Decisions for ${repo}`, text);
+  }
+
+  private async resolveTopic(nameOrId: string): Promise<MemoryTopic | undefined> {
+    const wanted = nameOrId.trim().toLowerCase();
+    const topics = await this.api.getTopics();
+    return topics.find((topic) => topic.id === nameOrId.trim()) ?? topics.find((topic) => topic.name.toLowerCase() === wanted);
+  }
+
+  // The API has no tag listing, so tags are collected from recent memories
+  private async knownTags(): Promise<string[]> {
+    if (this.tagCache && this.tagCache.expires > Date.now()) return this.tagCache.tags;
+
+    const memories = listOf(await this.api.getMemories({ limit: 100, sort: 'updated_at', order: 'desc' }));
+    const counts = new Map<string, number>();
+    memories.forEach((memory) => memory.tags?.forEach((tag) => counts.set(tag, (counts.get(tag) ?? 0) + 1)));
+    const tags = [...counts.entries()].sort((a, b) => b[1] - a[1]).map(([tag]) => tag);
+
+    this.tagCache = { tags, expires: Date.now() + TAG_CACHE_TTL_MS };
+    return tags;
+  }
+
+  private filterCompletions(candidates: string[], value: string): CompletionResult {
+    const prefix = value.toLowerCase();
+    const matches = [...new Set(candidates)].filter((candidate) => candidate.toLowerCase().startsWith(prefix));
+    return {
+      values: matches.slice(0, MAX_COMPLETIONS),
+      total: matches.length,
+      hasMore: matches.length > MAX_COMPLETIONS
+    };
+  }
+
+  private userPrompt(description: string, text: string): PromptResult {
+    return { description, messages: [{ role: 'user', content: { type: 'text', text } }] };
+  }
+}
@@ -0,0 +1,178 @@
+/**
+ * Resource subscriptions for the Lanonasis MCP server
+ * Tracks subscribed URIs and turns memory changes into
+ * notifications/resources/updated and list_changed. Changes made through
+ * this server are published immediately; changes made elsewhere are picked
+ * up by polling while at least one subscription is active.
+ */
+
+export type MemoryChangeKind = 'created' | 'updated' | 'deleted';
+
+export interface ResourceTemplateDefinition {
+  uriTemplate: string;
+  name: string;
+  description: string;
+  mimeType: string;
+}
+
+export const RESOURCE_TEMPLATES: ResourceTemplateDefinition[] = [
+  {
+    uriTemplate: 'memory://{id}',
+    name: 'Memory',
+    description: 'A single memory by ID',
+    mimeType: 'application/json'
+  },
+  {
+    uriTemplate: 'topic://{id}',
+    name: 'Topic',
+    description: 'A single topic by ID',
+    mimeType: 'application/json'
+  },
+  {
+    uriTemplate: 'search://{query}',
+    name: 'Memory Search Results',
+    description: 'Semantic search results for a URL-encoded query',
+    mimeType: 'application/json'
+  }
+];
+
+// Static memory:// paths that are not memory ids
+const RESERVED_MEMORY_PATHS = new Set(['recent', 'search']);
+
+/** Resources whose content depends on the whole memory set */
+const AGGREGATE_URIS = ['memory://recent', 'stats://usage'];
+
+interface MemorySnapshot {
+  id: string;
+  updated_at?: string;
+  state?: string;
+}
+
+export interface ResourceSubscriptionOptions {
+  notifyUpdated: (uri: string) => Promise<void>;
+  notifyListChanged: () => Promise<void>;
+  /** Current version of a memory; null when it no longer exists */
+  fetchMemory: (id: string) => Promise<MemorySnapshot | null>;
+  /** Ids of the most recent memories, used to detect creates and deletes */
+  fetchRecentIds: () => Promise<string[]>;
+  /** Poll interval in ms; 0 disables polling */
+  pollInterval?: number;
+}
+
+export function memoryIdFromUri(uri: string): string | null {
+  const match = /^memory:\/\/([^/?#]+)$/.exec(uri);
+  if (!match || RESERVED_MEMORY_PATHS.has(match[1])) return null;
+  return decodeURIComponent(match[1]);
+}
+
+export class ResourceSubscriptionManager {
+  private subscriptions = new Set<string>();
+  private versions = new Map<string, string>();
+  private recentIds: string | undefined;
+  private pollTimer: NodeJS.Timeout | null = null;
+  private polling = false;
+
+  constructor(private options: ResourceSubscriptionOptions) {}
+
+  subscribe(uri: string): void {
+    this.subscriptions.add(uri);
+    this.ensurePolling();
+  }
+
+  unsubscribe(uri: string): void {
+    this.subscriptions.delete(uri);
+    const id = memoryIdFromUri(uri);
+    if (id) this.versions.delete(id);
+    if (this.subscriptions.size === 0) this.stop();
+  }
+
+  isSubscribed(uri: string): boolean {
+    return this.subscriptions.has(uri);
+  }
+
+  list(): string[] {
+    return [...this.subscriptions];
+  }
+
+  /**
+   * Publish a change made through this server. Creates and deletes change
+   * the resource list; every change can affect aggregate and search views.
+   */
+  async memoryChanged(id: string, kind: MemoryChangeKind): Promise<void> {
+    const uris = [`memory://${id}`, ...AGGREGATE_URIS, ...this.searchUris()];
+    await Promise.all(uris.filter((uri) => this.subscriptions.has(uri)).map((uri) => this.send(uri)));
+
+    if (kind !== 'updated') {
+      this.recentIds = undefined;
+      await this.options.notifyListChanged().catch(() => undefined);
+    }
+  }
+
+  /**
+   * Compare subscribed memories and the recent list with their last seen
+   * versions. The first poll only records a baseline.
+   */
+  async poll(): Promise<void> {
+    if (this.polling) return;
+    this.polling = true;
+    try {
+      for (const uri of this.list()) {
+        const id = memoryIdFromUri(uri);
+        if (!id) continue;
+
+        const memory = await this.options.fetchMemory(id).catch(() => undefined);
+        if (memory === undefined) continue;
+        const version = memory ? `${memory.updated_at ?? ''}|${memory.state ?? ''}` : 'missing';
+        const previous = this.versions.get(id);
+        this.versions.set(id, version);
+        if (previous !== undefined && previous !== version) {
+          await this.memoryChanged(id, memory ? 'updated' : 'deleted');
+        }
+      }
+
+      const recent = await this.options.fetchRecentIds().then((ids) => ids.join(','), () => undefined);
+      if (recent !== undefined) {
+        const previous = this.recentIds;
+        this.recentIds = recent;
+        if (previous !== undefined && previous !== recent) {
+          await Promise.all(
+            [...AGGREGATE_URIS, ...this.searchUris()]
+              .filter((uri) => this.subscriptions.has(uri))
+              .map((uri) => this.send(uri))
+          );
+          await this.options.notifyListChanged().catch(() => undefined);
+        }
+      }
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  stop(): void {
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = null;
+    }
+  }
+
+  private ensurePolling(): void {
+    const interval = this.options.pollInterval ?? 30000;
+    if (this.pollTimer || interval <= 0) return;
+
+    this.pollTimer = setInterval(() => {
+      this.poll().catch(() => undefined);
+    }, interval);
+    this.pollTimer.unref?.();
+    // Record the baseline right away so the first interval can detect changes
+    this.poll().catch(() => undefined);
+  }
+
+  private searchUris(): string[] {
+    return this.list().filter((uri) => uri.startsWith('search://'));
+  }
+
+  private send(uri: string): Promise<void> {
+    // A client that disconnected mid-notification should not fail the caller
+    return this.options.notifyUpdated(uri).catch(() => undefined);
+  }
+}
@@ -0,0 +1,97 @@
+/**
+ * OAuth scopes for the Lanonasis MCP server
+ * Maps tools and resources to the scopes advertised by the auth gateway
+ * (memory:read memory:write api:access mcp:connect). Only HTTP sessions are
+ * scope-checked; stdio runs with the local CLI credentials.
+ */
+
+export const MCP_SCOPES = {
+  MEMORY_READ: 'memory:read',
+  MEMORY_WRITE: 'memory:write',
+  API_ACCESS: 'api:access',
+  MCP_CONNECT: 'mcp:connect'
+} as const;
+
+export type MCPScope = typeof MCP_SCOPES[keyof typeof MCP_SCOPES];
+
+/**
+ * Scopes granted when the auth gateway reports none for a credential (vendor
+ * keys, legacy tokens): read-only, so a missing claim never grants writes
+ */
+export const UNSCOPED_CREDENTIAL_SCOPES: MCPScope[] = [
+  MCP_SCOPES.MCP_CONNECT,
+  MCP_SCOPES.MEMORY_READ
+];
+
+const TOOL_SCOPES: Record<string, MCPScope[]> = {
+  memory_search: [MCP_SCOPES.MEMORY_READ],
+  memory_list: [MCP_SCOPES.MEMORY_READ],
+  memory_get: [MCP_SCOPES.MEMORY_READ],
+  memory_history: [MCP_SCOPES.MEMORY_READ],
+  memory_trash: [MCP_SCOPES.MEMORY_READ],
+  topic_list: [MCP_SCOPES.MEMORY_READ],
+
+  memory_create: [MCP_SCOPES.MEMORY_WRITE],
+  memory_update: [MCP_SCOPES.MEMORY_WRITE],
+  memory_delete: [MCP_SCOPES.MEMORY_WRITE],
+  memory_archive: [MCP_SCOPES.MEMORY_WRITE],
+  memory_pause: [MCP_SCOPES.MEMORY_WRITE],
+  memory_resume: [MCP_SCOPES.MEMORY_WRITE],
+  memory_restore: [MCP_SCOPES.MEMORY_WRITE],
+  topic_create: [MCP_SCOPES.MEMORY_WRITE],
+
+  apikey_create: [MCP_SCOPES.API_ACCESS],
+  apikey_list: [MCP_SCOPES.API_ACCESS]
+};
+
+/**
+ * Tools that read or change the local CLI config, connection pool or
+ * transports. They are operator tools and never exposed over HTTP.
+ */
+export const LOCAL_ONLY_TOOLS = new Set([
+  'system_health',
+  'system_config',
+  'connection_stats',
+  'connection_auth_status',
+  'connection_validate_auth',
+  'transport_status',
+  'transport_test',
+  'transport_reset_failures'
+]);
+
+/** Resource schemes for the same operator data, likewise stdio-only */
+const LOCAL_ONLY_RESOURCE_SCHEMES = ['config://', 'connections://', 'transport://'];
+
+export function isLocalOnlyResource(uri: string): boolean {
+  return LOCAL_ONLY_RESOURCE_SCHEMES.some((scheme) => uri.startsWith(scheme));
+}
+
+/**
+ * Scopes a tool requires. Unknown tools require memory:write so a new tool
+ * is never callable with a read-only token by accident.
+ */
+export function requiredScopesForTool(name: string): MCPScope[] {
+  return TOOL_SCOPES[name] ?? [MCP_SCOPES.MEMORY_WRITE];
+}
+
+/**
+ * Scopes a resource requires. Every resource served over HTTP exposes memory
+ * data (memories, topics, search, usage) and needs memory:read.
+ */
+export function requiredScopesForResource(_uri: string): MCPScope[] {
+  return [MCP_SCOPES.MEMORY_READ];
+}
+
+export function missingScopes(granted: readonly string[], required: readonly string[]): string[] {
+  return required.filter((scope) => !granted.includes(scope));
+}
+
+/**
+ * Split the space-delimited OAuth `scope` the auth gateway reports for a
+ * verified credential; returns undefined when it reports none.
+ */
+export function parseScopes(scope: string | null | undefined): string[] | undefined {
+  if (typeof scope !== 'string') return undefined;
+  const scopes = scope.split(/[\s,]+/).filter(Boolean);
+  return scopes.length > 0 ? scopes : undefined;
+}
@@ -0,0 +1,392 @@
+/**
+ * Streamable HTTP host for the Lanonasis MCP server
+ * Serves the MCP Streamable HTTP transport on a single endpoint with one
+ * protocol server per session. Every request carries a bearer token (or
+ * vendor key); a session stays bound to the credential that created it, and
+ * SSE streams can be resumed with Last-Event-ID from a bounded event buffer.
+ */
+
+import { createServer, IncomingMessage, Server as HttpServer, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+import { createHash, randomUUID, timingSafeEqual } from 'crypto';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { EventStore } from '@modelcontextprotocol/sdk/server/webStandardStreamableHttp.js';
+import { AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js';
+import { InsufficientScopeError, InvalidTokenError, OAuthError } from '@modelcontextprotocol/sdk/server/auth/errors.js';
+import { isInitializeRequest, JSONRPCMessage } from '@modelcontextprotocol/sdk/types.js';
+import { MCP_SCOPES } from './scopes.js';
+
+export type CredentialKind = 'bearer' | 'vendor_key';
+
+export interface StreamableHttpHostOptions {
+  port?: number;
+  host?: string;
+  /** Endpoint path for the MCP transport */
+  path?: string;
+  /** Resolve a credential to its client and scopes; throw InvalidTokenError when it is not valid */
+  verifyCredential: (credential: string, kind: CredentialKind) => Promise<AuthInfo>;
+  /** Build and configure the protocol server for a new session */
+  createSessionServer: (auth: AuthInfo, sessionId: string) => Promise<Server>;
+  /** Whether another session may be opened */
+  canOpenSession?: () => boolean;
+  onSessionClosed?: (sessionId: string) => void;
+  /** ms without requests before a session is closed; 0 keeps sessions until DELETE */
+  sessionIdleTimeout?: number;
+  /** ms a verified credential is reused before it is checked again */
+  credentialCacheTtl?: number;
+  /** Verified credentials kept in the cache */
+  maxCachedCredentials?: number;
+  /** Events kept per session for stream resumption */
+  maxBufferedEvents?: number;
+  maxBodyBytes?: number;
+  allowedOrigins?: string[];
+}
+
+interface HttpSession {
+  transport: StreamableHTTPServerTransport;
+  server: Server;
+  /** sha256 of the credential that opened the session */
+  credentialHash: Buffer;
+  lastActivity: number;
+}
+
+const hashCredential = (credential: string): Buffer => createHash('sha256').update(credential).digest();
+
+class RequestError extends Error {
+  constructor(public status: number, public code: number, message: string) {
+    super(message);
+    this.name = 'RequestError';
+  }
+}
+
+/**
+ * Bounded in-memory EventStore. Event ids are `<streamId>_<seq>` so a
+ * Last-Event-ID maps back to its stream; the oldest events are dropped first.
+ */
+export class BufferedEventStore implements EventStore {
+  private events = new Map<string, { streamId: string; message: JSONRPCMessage }>();
+  private sequence = 0;
+
+  constructor(private maxEvents = 1000) {}
+
+  async storeEvent(streamId: string, message: JSONRPCMessage): Promise<string> {
+    const eventId = `${streamId}_${++this.sequence}`;
+    this.events.set(eventId, { streamId, message });
+
+    while (this.events.size > this.maxEvents) {
+      const oldest = this.events.keys().next().value;
+      this.events.delete(oldest);
+    }
+    return eventId;
+  }
+
+  async getStreamIdForEventId(eventId: string): Promise<string | undefined> {
+    return this.events.get(eventId)?.streamId;
+  }
+
+  async replayEventsAfter(
+    lastEventId: string,
+    { send }: { send: (eventId: string, message: JSONRPCMessage) => Promise<void> }
+  ): Promise<string> {
+    const last = this.events.get(lastEventId);
+    if (!last) return '';
+
+    let found = false;
+    for (const [eventId, event] of this.events) {
+      if (eventId === lastEventId) {
+        found = true;
+        continue;
+      }
+      if (found && event.streamId === last.streamId) {
+        await send(eventId, event.message);
+      }
+    }
+    return last.streamId;
+  }
+}
+
+export class StreamableHttpHost {
+  private httpServer: HttpServer | null = null;
+  private sessions = new Map<string, HttpSession>();
+  private credentialCache = new Map<string, { auth: AuthInfo; expires: number }>();
+  private idleTimer: NodeJS.Timeout | null = null;
+
+  constructor(private options: StreamableHttpHostOptions) {}
+
+  get path(): string {
+    return this.options.path || '/mcp';
+  }
+
+  get sessionCount(): number {
+    return this.sessions.size;
+  }
+
+  /**
+   * Start listening; resolves with the bound address
+   */
+  async listen(): Promise<AddressInfo> {
+    const httpServer = createServer((req, res) => {
+      this.handle(req, res).catch((error) => {
+        if (!res.headersSent) {
+          this.sendJsonRpcError(res, 500, -32603, error instanceof Error ? error.message : 'Internal server error');
+        }
+      });
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      httpServer.once('error', reject);
+      httpServer.listen(this.options.port ?? 3009, this.options.host || '127.0.0.1', () => {
+        httpServer.off('error', reject);
+        resolve();
+      });
+    });
+    this.httpServer = httpServer;
+
+    const idleTimeout = this.options.sessionIdleTimeout ?? 30 * 60 * 1000;
+    if (idleTimeout > 0) {
+      this.idleTimer = setInterval(() => this.closeIdleSessions(idleTimeout), Math.min(idleTimeout, 60000));
+      this.idleTimer.unref?.();
+    }
+
+    return httpServer.address() as AddressInfo;
+  }
+
+  /**
+   * Close every session and stop listening
+   */
+  async close(): Promise<void> {
+    if (this.idleTimer) {
+      clearInterval(this.idleTimer);
+      this.idleTimer = null;
+    }
+
+    await Promise.all([...this.sessions.keys()].map((sessionId) => this.closeSession(sessionId)));
+
+    if (this.httpServer) {
+      const httpServer = this.httpServer;
+      this.httpServer = null;
+      httpServer.closeAllConnections?.();
+      await new Promise<void>((resolve) => httpServer.close(() => resolve()));
+    }
+  }
+
+  private async handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const url = new URL(req.url || '/', 'http://localhost');
+    if (url.pathname !== this.path) {
+      this.sendJsonRpcError(res, 404, -32601, `Not found: ${url.pathname}`);
+      return;
+    }
+
+    const origin = req.headers.origin;
+    if (origin && this.options.allowedOrigins && !this.options.allowedOrigins.includes(origin)) {
+      this.sendJsonRpcError(res, 403, -32000, `Origin not allowed: ${origin}`);
+      return;
+    }
+
+    let auth: AuthInfo;
+    try {
+      auth = await this.authenticate(req);
+    } catch (error) {
+      this.sendAuthError(res, error);
+      return;
+    }
+
+    try {
+      const body = req.method === 'POST' ? await this.readBody(req) : undefined;
+      const sessionId = this.headerValue(req, 'mcp-session-id');
+      (req as IncomingMessage & { auth?: AuthInfo }).auth = auth;
+
+      if (sessionId) {
+        const session = this.sessions.get(sessionId);
+        if (!session) {
+          throw new RequestError(404, -32001, 'Session not found');
+        }
+        if (!timingSafeEqual(session.credentialHash, hashCredential(auth.token))) {
+          throw new RequestError(403, -32000, 'Session belongs to a different credential');
+        }
+        session.lastActivity = Date.now();
+        await session.transport.handleRequest(req, res, body);
+        return;
+      }
+
+      if (req.method !== 'POST' || !this.isInitialize(body)) {
+        throw new RequestError(400, -32000, 'Bad Request: No valid session ID provided');
+      }
+      if (this.options.canOpenSession && !this.options.canOpenSession()) {
+        throw new RequestError(503, -32000, 'Maximum sessions reached. Please try again later.');
+      }
+
+      await this.openSession(auth, req, res, body);
+    } catch (error) {
+      if (error instanceof RequestError) {
+        this.sendJsonRpcError(res, error.status, error.code, error.message);
+        return;
+      }
+      throw error;
+    }
+  }
+
+  private async openSession(auth: AuthInfo, req: IncomingMessage, res: ServerResponse, body: unknown): Promise<void> {
+    const sessionId = randomUUID();
+    const server = await this.options.createSessionServer(auth, sessionId);
+
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => sessionId,
+      // Per-session buffer so one client can never replay another's stream
+      eventStore: new BufferedEventStore(this.options.maxBufferedEvents),
+      onsessioninitialized: (id) => {
+        this.sessions.set(id, { transport, server, credentialHash: hashCredential(auth.token), lastActivity: Date.now() });
+      }
+    });
+    transport.onclose = () => {
+      if (this.sessions.delete(sessionId)) {
+        this.options.onSessionClosed?.(sessionId);
+      }
+    };
+
+    await server.connect(transport);
+    await transport.handleRequest(req, res, body);
+  }
+
+  private async closeSession(sessionId: string): Promise<void> {
+    const session = this.sessions.get(sessionId);
+    if (!session) return;
+
+    // transport.onclose removes the session and reports it
+    await session.transport.close().catch(() => undefined);
+    await session.server.close().catch(() => undefined);
+    if (this.sessions.delete(sessionId)) {
+      this.options.onSessionClosed?.(sessionId);
+    }
+  }
+
+  private closeIdleSessions(idleTimeout: number): void {
+    const cutoff = Date.now() - idleTimeout;
+    for (const [sessionId, session] of this.sessions) {
+      if (session.lastActivity < cutoff) {
+        this.closeSession(sessionId).catch(() => undefined);
+      }
+    }
+  }
+
+  /**
+   * Resolve the request credential. Bearer tokens take precedence over
+   * X-API-Key; every request must carry mcp:connect.
+   */
+  private async authenticate(req: IncomingMessage): Promise<AuthInfo> {
+    const authorization = this.headerValue(req, 'authorization');
+    const vendorKey = this.headerValue(req, 'x-api-key');
+
+    let credential: string;
+    let kind: CredentialKind;
+    if (authorization) {
+      const [type, token] = authorization.split(' ');
+      if (type.toLowerCase() !== 'bearer' || !token) {
+        throw new InvalidTokenError("Invalid Authorization header format, expected 'Bearer TOKEN'");
+      }
+      credential = token;
+      kind = 'bearer';
+    } else if (vendorKey) {
+      credential = vendorKey;
+      kind = 'vendor_key';
+    } else {
+      throw new InvalidTokenError('Missing Authorization header');
+    }
+
+    const auth = await this.verify(credential, kind);
+    if (typeof auth.expiresAt === 'number' && auth.expiresAt < Date.now() / 1000) {
+      this.credentialCache.delete(credential);
+      throw new InvalidTokenError('Token has expired');
+    }
+    if (!auth.scopes.includes(MCP_SCOPES.MCP_CONNECT)) {
+      throw new InsufficientScopeError(`Token is missing the ${MCP_SCOPES.MCP_CONNECT} scope`);
+    }
+    return auth;
+  }
+
+  private async verify(credential: string, kind: CredentialKind): Promise<AuthInfo> {
+    const now = Date.now();
+    const cached = this.credentialCache.get(credential);
+    if (cached && cached.expires > now) {
+      return cached.auth;
+    }
+
+    const auth = await this.options.verifyCredential(credential, kind);
+    const ttl = this.options.credentialCacheTtl ?? 60000;
+    if (ttl > 0) {
+      this.cacheCredential(credential, auth, now + ttl, now);
+    }
+    return auth;
+  }
+
+  /** Drop expired entries on insert, then the oldest ones beyond the cap */
+  private cacheCredential(credential: string, auth: AuthInfo, expires: number, now: number): void {
+    for (const [key, entry] of this.credentialCache) {
+      if (entry.expires <= now) this.credentialCache.delete(key);
+    }
+    this.credentialCache.delete(credential);
+    this.credentialCache.set(credential, { auth, expires });
+
+    const max = this.options.maxCachedCredentials ?? 1000;
+    while (this.credentialCache.size > max) {
+      const oldest = this.credentialCache.keys().next().value;
+      if (oldest === undefined) break;
+      this.credentialCache.delete(oldest);
+    }
+  }
+
+  private async readBody(req: IncomingMessage): Promise<unknown> {
+    const limit = this.options.maxBodyBytes ?? 4 * 1024 * 1024;
+    const chunks: Buffer[] = [];
+    let size = 0;
+
+    for await (const chunk of req) {
+      size += chunk.length;
+      if (size > limit) {
+        throw new RequestError(413, -32000, 'Request body too large');
+      }
+      chunks.push(chunk as Buffer);
+    }
+
+    try {
+      return JSON.parse(Buffer.concat(chunks).toString('utf8'));
+    } catch {
+      throw new RequestError(400, -32700, 'Parse error: Invalid JSON');
+    }
+  }
+
+  private isInitialize(body: unknown): boolean {
+    return Array.isArray(body) ? body.some((message) => isInitializeRequest(message)) : isInitializeRequest(body);
+  }
+
+  private headerValue(req: IncomingMessage, name: string): string | undefined {
+    const value = req.headers[name];
+    return Array.isArray(value) ? value[0] : value;
+  }
+
+  private sendAuthError(res: ServerResponse, error: unknown): void {
+    if (error instanceof InvalidTokenError || error instanceof InsufficientScopeError) {
+      const status = error instanceof InvalidTokenError ? 401 : 403;
+      let header = `Bearer error="${error.errorCode}", error_description="${error.message}"`;
+      if (status === 403) {
+        header += `, scope="${MCP_SCOPES.MCP_CONNECT}"`;
+      }
+      res.setHeader('WWW-Authenticate', header);
+      this.sendJson(res, status, error.toResponseObject());
+      return;
+    }
+
+    const message = error instanceof OAuthError || error instanceof Error ? error.message : 'Authentication failed';
+    this.sendJson(res, 500, { error: 'server_error', error_description: message });
+  }
+
+  private sendJsonRpcError(res: ServerResponse, status: number, code: number, message: string): void {
+    this.sendJson(res, status, { jsonrpc: '2.0', error: { code, message }, id: null });
+  }
+
+  private sendJson(res: ServerResponse, status: number, payload: unknown): void {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(payload));
+  }
+}
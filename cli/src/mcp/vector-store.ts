@@ -3,15 +3,25 @@
  * Supports multiple vector stores with configurable embedding models
  */
 
+import { dirname, join } from 'path';
 import { CLIConfig } from '../utils/config.js';
 import { logger } from './logger.js';
+import { createEmbeddingProvider, EmbeddingConfig, EmbeddingProvider } from './vector/embeddings.js';
+import { LocalVectorBackend } from './vector/local-backend.js';
+import { QdrantVectorBackend } from './vector/qdrant-backend.js';
+import { ChromaVectorBackend } from './vector/chroma-backend.js';
+import { VectorBackend, VectorBackendStats, VectorRecord } from './vector/types.js';
 
 export interface VectorStoreConfig {
   provider: 'local' | 'qdrant' | 'chroma';
   url?: string;
   apiKey?: string;
   collection?: string;
+  /** Overrides the embedding model's native size where the provider allows it */
   dimensions?: number;
+  /** Local provider only; defaults to ~/.maas/vector-index */
+  directory?: string;
+  embedding?: EmbeddingConfig;
 }
 
 export interface SearchResult {
@@ -20,103 +30,205 @@ export interface SearchResult {
   metadata: any;
 }
 
+export interface VectorSearchOptions {
+  /** Only consider memories the caller is allowed to see */
+  memoryIds?: Iterable<string>;
+  threshold?: number;
+  limit?: number;
+}
+
+export interface MemoryDocument {
+  id: string;
+  content: string;
+  metadata?: Record<string, unknown>;
+}
+
+export interface VectorStoreStats extends VectorBackendStats {
+  embedding: { provider: string; model: string; dimensions: number };
+}
+
+export interface LanonasisVectorStoreOptions {
+  config?: CLIConfig;
+  storeConfig?: Partial<VectorStoreConfig>;
+  embeddings?: EmbeddingProvider;
+  backend?: VectorBackend;
+  fetchImpl?: typeof fetch;
+}
+
+// Inputs per embedding request
+const EMBED_BATCH_SIZE = 64;
+
 export class LanonasisVectorStore {
   private config: CLIConfig;
   private storeConfig: VectorStoreConfig;
   private isInitialized: boolean = false;
-  private localEmbeddings: Map<string, any> = new Map();
+  private embeddings: EmbeddingProvider | undefined;
+  private backend: VectorBackend | undefined;
 
-  constructor() {
-    this.config = new CLIConfig();
+  constructor(private options: LanonasisVectorStoreOptions = {}) {
+    this.config = options.config ?? new CLIConfig();
     this.storeConfig = {
       provider: 'local',
       collection: 'lanonasis_memories',
-      dimensions: 384
+      ...options.storeConfig
     };
   }
 
-  async initialize(): Promise<void> {
+  /**
+   * Resolve the embedding provider and backend from the `vectorStore` config
+   * key and open the index. Fails with VectorSpaceMismatchError when the
+   * index was built with another model, unless `reset` discards it.
+   */
+  async initialize(options: { reset?: boolean } = {}): Promise<void> {
+    if (this.isInitialized) return;
+
+    if (!this.options.storeConfig && !this.embeddings) {
+      await this.config.init();
+      this.storeConfig = { ...this.storeConfig, ...this.config.get<Partial<VectorStoreConfig> | undefined>('vectorStore') };
+    }
+
+    this.embeddings = this.options.embeddings
+      ?? createEmbeddingProvider({ dimensions: this.storeConfig.dimensions, ...this.storeConfig.embedding }, this.options.fetchImpl);
+    this.backend = this.options.backend ?? this.createBackend();
+    if (options.reset) {
+      await this.backend.reset(this.space());
+    } else {
+      await this.backend.initialize(this.space());
+    }
+
     this.isInitialized = true;
-    logger.info('Vector store initialized', { provider: this.storeConfig.provider });
+    logger.info('Vector store initialized', {
+      provider: this.storeConfig.provider,
+      embedding: this.embeddings.name,
+      model: this.embeddings.model
+    });
   }
 
   isConfigured(): boolean {
     return this.isInitialized;
   }
 
-  async addMemory(memoryId: string, content: string, metadata: any): Promise<void> {
-    const embedding = this.generateSimpleEmbedding(content);
-    this.localEmbeddings.set(memoryId, { embedding, metadata, content });
+  async addMemory(memoryId: string, content: string, metadata: Record<string, unknown>): Promise<void> {
+    await this.addMemories([{ id: memoryId, content, metadata }]);
     logger.debug('Memory added to vector store', { memoryId });
   }
 
-  async searchMemories(query: string, options: any = {}): Promise<SearchResult[]> {
-    const queryEmbedding = this.generateSimpleEmbedding(query);
-    const results: SearchResult[] = [];
+  async addMemories(documents: MemoryDocument[]): Promise<void> {
+    const { embeddings, backend } = this.ready();
+    for (let start = 0; start < documents.length; start += EMBED_BATCH_SIZE) {
+      const batch = documents.slice(start, start + EMBED_BATCH_SIZE);
+      const vectors = await embeddings.embed(batch.map((doc) => doc.content));
+      const records: VectorRecord[] = batch.map((doc, i) => ({
+        id: doc.id,
+        vector: vectors[i],
+        metadata: doc.metadata ?? {}
+      }));
+      await backend.upsert(records);
+    }
+  }
 
-    // Only consider memories the caller is allowed to see
-    const allowedIds: Set<string> | undefined = options.memoryIds
-      ? new Set(options.memoryIds)
-      : undefined;
+  async removeMemory(memoryId: string): Promise<void> {
+    await this.ready().backend.delete([memoryId]);
+  }
 
-    for (const [id, data] of this.localEmbeddings) {
-      if (allowedIds && !allowedIds.has(id)) continue;
+  async searchMemories(query: string, options: VectorSearchOptions = {}): Promise<SearchResult[]> {
+    const { embeddings, backend } = this.ready();
+    const ids: string[] | undefined = options.memoryIds ? [...options.memoryIds] : undefined;
+    const [vector] = await embeddings.embed([query]);
 
-      const similarity = this.cosineSimilarity(queryEmbedding, data.embedding);
-      if (similarity >= (options.threshold || 0.7)) {
-        results.push({ id, score: similarity, metadata: data.metadata });
-      }
-    }
+    return backend.search(vector, {
+      limit: options.limit || 10,
+      threshold: options.threshold ?? 0.7,
+      ids
+    });
+  }
+
+  async findRelatedMemories(memoryId: string, options: Omit<VectorSearchOptions, 'memoryIds'> = {}): Promise<SearchResult[]> {
+    const { backend } = this.ready();
+    const vector = await backend.getVector(memoryId);
+    if (!vector) return [];
 
-    return results
-      .sort((a, b) => b.score - a.score)
-      .slice(0, options.limit || 10);
+    const limit = options.limit || 5;
+    const results = await backend.search(vector, { limit: limit + 1, threshold: options.threshold ?? 0.6 });
+    return results.filter((result) => result.id !== memoryId).slice(0, limit);
   }
 
-  async findRelatedMemories(memoryId: string, options: any = {}): Promise<SearchResult[]> {
-    const memory = this.localEmbeddings.get(memoryId);
-    if (!memory) return [];
-
-    const results: SearchResult[] = [];
-    for (const [id, data] of this.localEmbeddings) {
-      if (id === memoryId) continue;
-      const similarity = this.cosineSimilarity(memory.embedding, data.embedding);
-      if (similarity >= (options.threshold || 0.6)) {
-        results.push({ id, score: similarity, metadata: data.metadata });
-      }
+  /**
+   * Drop the index and re-embed every memory from the source, e.g. after
+   * switching embedding model. Returns the number of memories indexed.
+   */
+  async rebuild(
+    source: AsyncIterable<MemoryDocument[]>,
+    onProgress?: (indexed: number) => void
+  ): Promise<number> {
+    const { backend } = this.ready();
+    await backend.reset(this.space());
+
+    let indexed = 0;
+    for await (const page of source) {
+      await this.addMemories(page);
+      indexed += page.length;
+      onProgress?.(indexed);
     }
+    logger.info('Vector index rebuilt', { indexed });
+    return indexed;
+  }
 
-    return results.sort((a, b) => b.score - a.score).slice(0, options.limit || 5);
+  /**
+   * Reclaim space held by deleted entries. Remote backends compact themselves.
+   */
+  async compact(): Promise<{ removed: number }> {
+    return this.ready().backend.compact();
   }
 
-  private generateSimpleEmbedding(text: string): number[] {
-    const words = text.toLowerCase().split(/\s+/);
-    const embedding = new Array(this.storeConfig.dimensions ?? 384).fill(0);
-    
-    words.forEach((word, index) => {
-      const hash = this.simpleHash(word);
-      const position = Math.abs(hash) % embedding.length;
-      embedding[position] += 1 / (index + 1);
-    });
+  async stats(): Promise<VectorStoreStats> {
+    const { embeddings, backend } = this.ready();
+    return {
+      ...(await backend.stats()),
+      embedding: { provider: embeddings.name, model: embeddings.model, dimensions: embeddings.dimensions }
+    };
+  }
 
-    const magnitude = Math.sqrt(embedding.reduce((sum, val) => sum + val * val, 0));
-    return embedding.map(val => magnitude > 0 ? val / magnitude : 0);
+  private space() {
+    const embeddings = this.embeddings as EmbeddingProvider;
+    return { model: embeddings.model, dimensions: embeddings.dimensions };
   }
 
-  private simpleHash(str: string): number {
-    let hash = 0;
-    for (let i = 0; i < str.length; i++) {
-      const char = str.charCodeAt(i);
-      hash = ((hash << 5) - hash) + char;
-      hash = hash & hash;
+  private ready(): { embeddings: EmbeddingProvider; backend: VectorBackend } {
+    if (!this.isInitialized || !this.embeddings || !this.backend) {
+      throw new Error('Vector store is not initialized');
     }
-    return hash;
+    return { embeddings: this.embeddings, backend: this.backend };
   }
 
-  private cosineSimilarity(a: number[], b: number[]): number {
-    const dotProduct = a.reduce((sum, val, i) => sum + val * b[i], 0);
-    const magnitudeA = Math.sqrt(a.reduce((sum, val) => sum + val * val, 0));
-    const magnitudeB = Math.sqrt(b.reduce((sum, val) => sum + val * val, 0));
-    return magnitudeA && magnitudeB ? dotProduct / (magnitudeA * magnitudeB) : 0;
+  private createBackend(): VectorBackend {
+    const collection = this.storeConfig.collection ?? 'lanonasis_memories';
+
+    switch (this.storeConfig.provider) {
+      case 'qdrant':
+        return new QdrantVectorBackend({
+          url: this.storeConfig.url ?? 'http://localhost:6333',
+          apiKey: this.storeConfig.apiKey,
+          collection,
+          fetchImpl: this.options.fetchImpl
+        });
+      case 'chroma':
+        return new ChromaVectorBackend({
+          url: this.storeConfig.url ?? 'http://localhost:8000',
+          apiKey: this.storeConfig.apiKey,
+          collection,
+          fetchImpl: this.options.fetchImpl
+        });
+      case 'local':
+        return new LocalVectorBackend({
+          directory: this.storeConfig.directory ?? join(dirname(this.config.getConfigPath()), 'vector-index'),
+          collection
+        });
+      default:
+        throw new Error(`Unknown vector store provider "${String(this.storeConfig.provider)}"`);
+    }
   }
-}
\ No newline at end of file
+}
+
+export { VectorSpaceMismatchError } from './vector/types.js';
+export type { EmbeddingConfig, EmbeddingProvider } from './vector/embeddings.js';
@@ -0,0 +1,165 @@
+/**
+ * Chroma backend over the v2 REST API
+ * Chroma metadata only holds scalars, so memory metadata is stored as JSON.
+ * The embedding model is recorded on the collection to catch mismatches.
+ */
+
+import {
+  requestJson,
+  VectorBackend,
+  VectorBackendStats,
+  VectorMatch,
+  VectorQuery,
+  VectorRecord,
+  VectorSpace,
+  VectorSpaceMismatchError,
+} from './types.js';
+
+export interface ChromaBackendOptions {
+  url: string;
+  collection: string;
+  apiKey?: string;
+  tenant?: string;
+  database?: string;
+  fetchImpl?: typeof fetch;
+}
+
+interface ChromaCollection {
+  id: string;
+  name: string;
+  metadata?: Record<string, unknown> | null;
+}
+
+interface ChromaQueryResult {
+  ids: string[][];
+  distances?: Array<Array<number | null>> | null;
+  metadatas?: Array<Array<Record<string, unknown> | null>> | null;
+}
+
+function parseMetadata(metadata: Record<string, unknown> | null | undefined): Record<string, unknown> {
+  const raw = metadata?.metadata_json;
+  if (typeof raw !== 'string') return {};
+  try {
+    return JSON.parse(raw) as Record<string, unknown>;
+  } catch {
+    return {};
+  }
+}
+
+export class ChromaVectorBackend implements VectorBackend {
+  readonly name = 'chroma' as const;
+  private collectionsUrl: string;
+  private fetchImpl: typeof fetch;
+  private collectionId: string | undefined;
+
+  constructor(private options: ChromaBackendOptions) {
+    const tenant = encodeURIComponent(options.tenant ?? 'default_tenant');
+    const database = encodeURIComponent(options.database ?? 'default_database');
+    this.collectionsUrl = `${options.url.replace(/\/+$/, '')}/api/v2/tenants/${tenant}/databases/${database}/collections`;
+    this.fetchImpl = options.fetchImpl ?? fetch;
+  }
+
+  private request<T>(path: string, method: string, body?: unknown) {
+    return requestJson<T>(
+      this.fetchImpl,
+      `${this.collectionsUrl}${path}`,
+      { method, body, headers: this.options.apiKey ? { Authorization: `Bearer ${this.options.apiKey}` } : {} },
+      'Chroma'
+    );
+  }
+
+  private get collectionPath(): string {
+    if (!this.collectionId) throw new Error('Chroma collection is not initialized');
+    return `/${this.collectionId}`;
+  }
+
+  async initialize(space: VectorSpace): Promise<void> {
+    const collection = await this.open(space);
+    const model = collection.metadata?.embedding_model;
+    const dimensions = collection.metadata?.dimensions;
+    if (
+      (typeof model === 'string' && model !== space.model) ||
+      (typeof dimensions === 'number' && dimensions !== space.dimensions)
+    ) {
+      throw new VectorSpaceMismatchError(
+        { model: typeof model === 'string' ? model : 'unknown', dimensions: typeof dimensions === 'number' ? dimensions : 0 },
+        space
+      );
+    }
+  }
+
+  async upsert(records: VectorRecord[]): Promise<void> {
+    if (records.length === 0) return;
+    await this.request(`${this.collectionPath}/upsert`, 'POST', {
+      ids: records.map((record) => record.id),
+      embeddings: records.map((record) => record.vector),
+      metadatas: records.map((record) => ({ metadata_json: JSON.stringify(record.metadata) })),
+    });
+  }
+
+  async delete(ids: string[]): Promise<void> {
+    if (ids.length === 0) return;
+    await this.request(`${this.collectionPath}/delete`, 'POST', { ids });
+  }
+
+  async search(vector: number[], query: VectorQuery): Promise<VectorMatch[]> {
+    if (query.ids && query.ids.length === 0) return [];
+    const { data } = await this.request<ChromaQueryResult>(`${this.collectionPath}/query`, 'POST', {
+      query_embeddings: [vector],
+      n_results: query.limit,
+      include: ['metadatas', 'distances'],
+      ...(query.ids ? { ids: query.ids } : {}),
+    });
+
+    const ids = data?.ids[0] ?? [];
+    const distances = data?.distances?.[0] ?? [];
+    const metadatas = data?.metadatas?.[0] ?? [];
+    return ids
+      .map((id, position) => ({
+        id,
+        // Cosine space: distance = 1 - similarity
+        score: 1 - (distances[position] ?? 1),
+        metadata: parseMetadata(metadatas[position]),
+      }))
+      .filter((match) => query.threshold === undefined || match.score >= query.threshold);
+  }
+
+  async getVector(id: string): Promise<number[] | undefined> {
+    const { data } = await this.request<{ embeddings?: number[][] | null }>(`${this.collectionPath}/get`, 'POST', {
+      ids: [id],
+      include: ['embeddings'],
+    });
+    return data?.embeddings?.[0];
+  }
+
+  async reset(space: VectorSpace): Promise<void> {
+    await this.request(`/${encodeURIComponent(this.options.collection)}`, 'DELETE');
+    this.collectionId = undefined;
+    await this.open(space);
+  }
+
+  // Chroma compacts its own segments
+  async compact(): Promise<{ removed: number }> {
+    return { removed: 0 };
+  }
+
+  async stats(): Promise<VectorBackendStats> {
+    const { data } = await this.request<number>(`${this.collectionPath}/count`, 'GET');
+    return {
+      backend: this.name,
+      count: data ?? 0,
+      location: `${this.collectionsUrl}/${this.options.collection}`,
+    };
+  }
+
+  private async open(space: VectorSpace): Promise<ChromaCollection> {
+    const { data } = await this.request<ChromaCollection>('', 'POST', {
+      name: this.options.collection,
+      get_or_create: true,
+      metadata: { 'hnsw:space': 'cosine', embedding_model: space.model, dimensions: space.dimensions },
+    });
+    if (!data) throw new Error(`Chroma did not return collection ${this.options.collection}`);
+    this.collectionId = data.id;
+    return data;
+  }
+}
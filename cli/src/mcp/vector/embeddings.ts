@@ -0,0 +1,180 @@
+/**
+ * Embedding providers for the MCP vector store
+ * OpenAI-compatible and Ollama endpoints produce real semantic vectors; the
+ * hash provider is an offline fallback that only matches shared words.
+ */
+
+export type EmbeddingProviderName = 'openai' | 'ollama' | 'hash';
+
+export interface EmbeddingProvider {
+  readonly name: EmbeddingProviderName;
+  /** Identifies the vector space; an index built with another model must be rebuilt */
+  readonly model: string;
+  readonly dimensions: number;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+export interface EmbeddingConfig {
+  provider?: EmbeddingProviderName;
+  model?: string;
+  url?: string;
+  apiKey?: string;
+  dimensions?: number;
+}
+
+const OPENAI_DIMENSIONS: Record<string, number> = {
+  'text-embedding-3-small': 1536,
+  'text-embedding-3-large': 3072,
+  'text-embedding-ada-002': 1536,
+};
+
+const OLLAMA_DIMENSIONS: Record<string, number> = {
+  'nomic-embed-text': 768,
+  'mxbai-embed-large': 1024,
+  'all-minilm': 384,
+};
+
+export function normalizeVector(vector: number[]): number[] {
+  const magnitude = Math.sqrt(vector.reduce((sum, val) => sum + val * val, 0));
+  return magnitude > 0 ? vector.map((val) => val / magnitude) : vector;
+}
+
+async function postJson<T>(fetchImpl: typeof fetch, url: string, body: unknown, headers: Record<string, string>, label: string): Promise<T> {
+  const response = await fetchImpl(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body: JSON.stringify(body),
+  });
+  if (!response.ok) {
+    const detail = await response.text().catch(() => '');
+    throw new Error(`${label} embedding request failed: ${response.status} ${detail || response.statusText}`.trim());
+  }
+  return response.json() as Promise<T>;
+}
+
+export class OpenAIEmbeddingProvider implements EmbeddingProvider {
+  readonly name = 'openai' as const;
+  readonly model: string;
+  readonly dimensions: number;
+  private url: string;
+
+  constructor(private options: { apiKey: string; model?: string; url?: string; dimensions?: number; fetchImpl?: typeof fetch }) {
+    this.model = options.model ?? 'text-embedding-3-small';
+    this.dimensions = options.dimensions ?? OPENAI_DIMENSIONS[this.model] ?? 1536;
+    this.url = (options.url ?? 'https://api.openai.com/v1').replace(/\/+$/, '');
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    if (texts.length === 0) return [];
+    const body: Record<string, unknown> = { model: this.model, input: texts };
+    // Only the v3 models accept a reduced output size
+    if (this.options.dimensions && this.model.startsWith('text-embedding-3')) body.dimensions = this.options.dimensions;
+
+    const result = await postJson<{ data: Array<{ index: number; embedding: number[] }> }>(
+      this.options.fetchImpl ?? fetch,
+      `${this.url}/embeddings`,
+      body,
+      { Authorization: `Bearer ${this.options.apiKey}` },
+      'OpenAI'
+    );
+    return [...result.data]
+      .sort((a, b) => a.index - b.index)
+      .map((item) => normalizeVector(item.embedding));
+  }
+}
+
+export class OllamaEmbeddingProvider implements EmbeddingProvider {
+  readonly name = 'ollama' as const;
+  readonly model: string;
+  readonly dimensions: number;
+  private url: string;
+
+  constructor(private options: { model?: string; url?: string; dimensions?: number; fetchImpl?: typeof fetch } = {}) {
+    this.model = options.model ?? 'nomic-embed-text';
+    this.dimensions = options.dimensions ?? OLLAMA_DIMENSIONS[this.model] ?? 768;
+    this.url = (options.url ?? 'http://localhost:11434').replace(/\/+$/, '');
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    if (texts.length === 0) return [];
+    const result = await postJson<{ embeddings: number[][] }>(
+      this.options.fetchImpl ?? fetch,
+      `${this.url}/api/embed`,
+      { model: this.model, input: texts },
+      {},
+      'Ollama'
+    );
+    return result.embeddings.map(normalizeVector);
+  }
+}
+
+/**
+ * Bag-of-words hashing, kept for offline use and tests. Not semantic.
+ */
+export class HashEmbeddingProvider implements EmbeddingProvider {
+  readonly name = 'hash' as const;
+  readonly model = 'hash-bow-v1';
+
+  constructor(readonly dimensions: number = 384) {}
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map((text) => this.embedOne(text));
+  }
+
+  private embedOne(text: string): number[] {
+    const words = text.toLowerCase().split(/\s+/).filter(Boolean);
+    const embedding = new Array<number>(this.dimensions).fill(0);
+
+    words.forEach((word, index) => {
+      const position = Math.abs(this.simpleHash(word)) % embedding.length;
+      embedding[position] = (embedding[position] ?? 0) + 1 / (index + 1);
+    });
+
+    return normalizeVector(embedding);
+  }
+
+  private simpleHash(str: string): number {
+    let hash = 0;
+    for (let i = 0; i < str.length; i++) {
+      hash = ((hash << 5) - hash) + str.charCodeAt(i);
+      hash = hash & hash;
+    }
+    return hash;
+  }
+}
+
+/**
+ * Resolve the configured provider. Without explicit config, OpenAI is used
+ * when OPENAI_API_KEY is set, otherwise the hash fallback.
+ */
+export function createEmbeddingProvider(config: EmbeddingConfig = {}, fetchImpl?: typeof fetch): EmbeddingProvider {
+  const apiKey = config.apiKey ?? process.env.LANONASIS_EMBEDDING_API_KEY ?? process.env.OPENAI_API_KEY;
+  const provider = config.provider
+    ?? (process.env.LANONASIS_EMBEDDING_PROVIDER as EmbeddingProviderName | undefined)
+    ?? (apiKey ? 'openai' : 'hash');
+
+  switch (provider) {
+    case 'openai':
+      if (!apiKey) {
+        throw new Error('OpenAI embeddings need an API key: set vectorStore.embedding.apiKey or OPENAI_API_KEY');
+      }
+      return new OpenAIEmbeddingProvider({
+        apiKey,
+        model: config.model,
+        url: config.url,
+        dimensions: config.dimensions,
+        fetchImpl,
+      });
+    case 'ollama':
+      return new OllamaEmbeddingProvider({
+        model: config.model,
+        url: config.url,
+        dimensions: config.dimensions,
+        fetchImpl,
+      });
+    case 'hash':
+      return new HashEmbeddingProvider(config.dimensions ?? 384);
+    default:
+      throw new Error(`Unknown embedding provider "${String(provider)}"`);
+  }
+}
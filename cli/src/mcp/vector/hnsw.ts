@@ -0,0 +1,316 @@
+/**
+ * HNSW approximate nearest-neighbour index
+ * Cosine similarity over unit vectors. Removals are tombstones that stay in
+ * the graph for traversal until compact() rebuilds it from the live nodes.
+ */
+
+export interface HnswOptions {
+  dimensions: number;
+  /** Links per node on the upper layers; layer 0 keeps 2 * m */
+  m?: number;
+  efConstruction?: number;
+  efSearch?: number;
+  random?: () => number;
+}
+
+export interface HnswMatch {
+  id: string;
+  score: number;
+}
+
+interface HnswNode {
+  id: string;
+  vector: number[];
+  level: number;
+  neighbors: number[][];
+  deleted: boolean;
+}
+
+export interface SerializedHnsw {
+  version: 1;
+  dimensions: number;
+  m: number;
+  efConstruction: number;
+  entryPoint: number;
+  maxLevel: number;
+  /** Vectors are base64 float32 to keep index files compact */
+  nodes: Array<{ id: string; vector: string; level: number; neighbors: number[][]; deleted?: boolean }>;
+}
+
+export function encodeVector(vector: number[]): string {
+  return Buffer.from(new Float32Array(vector).buffer).toString('base64');
+}
+
+export function decodeVector(encoded: string): number[] {
+  const bytes = Buffer.from(encoded, 'base64');
+  return Array.from(new Float32Array(bytes.buffer, bytes.byteOffset, bytes.byteLength / 4));
+}
+
+interface Candidate {
+  node: number;
+  distance: number;
+}
+
+// Sorted insert, nearest first
+function insertSorted(list: Candidate[], candidate: Candidate): void {
+  let low = 0;
+  let high = list.length;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (list[mid].distance < candidate.distance) low = mid + 1;
+    else high = mid;
+  }
+  list.splice(low, 0, candidate);
+}
+
+export class HnswIndex {
+  readonly dimensions: number;
+  private m: number;
+  private efConstruction: number;
+  private efSearch: number;
+  private levelMultiplier: number;
+  private random: () => number;
+  private nodes: HnswNode[] = [];
+  private byId = new Map<string, number>();
+  private entryPoint = -1;
+  private maxLevel = -1;
+
+  constructor(options: HnswOptions) {
+    this.dimensions = options.dimensions;
+    this.m = options.m ?? 16;
+    this.efConstruction = options.efConstruction ?? 200;
+    this.efSearch = options.efSearch ?? 64;
+    this.levelMultiplier = 1 / Math.log(this.m);
+    this.random = options.random ?? Math.random;
+  }
+
+  /** Live (non-deleted) entries */
+  get size(): number {
+    return this.byId.size;
+  }
+
+  /** Tombstoned nodes still held in the graph */
+  get deletedCount(): number {
+    return this.nodes.length - this.byId.size;
+  }
+
+  has(id: string): boolean {
+    return this.byId.has(id);
+  }
+
+  getVector(id: string): number[] | undefined {
+    const index = this.byId.get(id);
+    return index === undefined ? undefined : this.nodes[index].vector;
+  }
+
+  ids(): string[] {
+    return [...this.byId.keys()];
+  }
+
+  /**
+   * Insert or replace a vector. Replacing tombstones the previous node.
+   */
+  add(id: string, vector: number[]): void {
+    if (vector.length !== this.dimensions) {
+      throw new Error(`Vector for ${id} has ${vector.length} dimensions, index expects ${this.dimensions}`);
+    }
+    this.remove(id);
+
+    const level = Math.floor(-Math.log(Math.max(this.random(), Number.EPSILON)) * this.levelMultiplier);
+    const nodeIndex = this.nodes.length;
+    const node: HnswNode = {
+      id,
+      vector,
+      level,
+      neighbors: Array.from({ length: level + 1 }, () => []),
+      deleted: false,
+    };
+    this.nodes.push(node);
+    this.byId.set(id, nodeIndex);
+
+    if (this.entryPoint === -1) {
+      this.entryPoint = nodeIndex;
+      this.maxLevel = level;
+      return;
+    }
+
+    let entry = this.entryPoint;
+    for (let layer = this.maxLevel; layer > level; layer--) {
+      entry = this.searchLayer(vector, [entry], 1, layer)[0].node;
+    }
+
+    for (let layer = Math.min(level, this.maxLevel); layer >= 0; layer--) {
+      const found = this.searchLayer(vector, [entry], this.efConstruction, layer);
+      const maxLinks = this.maxLinks(layer);
+      node.neighbors[layer] = found.slice(0, maxLinks).map((candidate) => candidate.node);
+
+      for (const neighbor of node.neighbors[layer]) {
+        const links = this.nodes[neighbor].neighbors[layer];
+        links.push(nodeIndex);
+        if (links.length > maxLinks) this.prune(neighbor, layer, maxLinks);
+      }
+      entry = found[0].node;
+    }
+
+    if (level > this.maxLevel) {
+      this.maxLevel = level;
+      this.entryPoint = nodeIndex;
+    }
+  }
+
+  remove(id: string): boolean {
+    const index = this.byId.get(id);
+    if (index === undefined) return false;
+    this.nodes[index].deleted = true;
+    this.byId.delete(id);
+    return true;
+  }
+
+  /**
+   * Nearest live vectors, best first. A filter restricts results to the
+   * given ids; small filters are scored exactly instead of via the graph.
+   */
+  search(query: number[], limit: number, options: { threshold?: number; ids?: Iterable<string> } = {}): HnswMatch[] {
+    const threshold = options.threshold ?? -1;
+    if (this.byId.size === 0 || limit <= 0) return [];
+
+    if (options.ids) {
+      const allowed = new Set(options.ids);
+      if (allowed.size <= Math.max(this.efSearch * 4, limit)) {
+        return [...allowed]
+          .map((id) => this.byId.get(id))
+          .filter((index): index is number => index !== undefined)
+          .map((index) => ({ id: this.nodes[index].id, score: 1 - this.distance(query, this.nodes[index].vector) }))
+          .filter((match) => match.score >= threshold)
+          .sort((a, b) => b.score - a.score)
+          .slice(0, limit);
+      }
+      return this.graphSearch(query, limit * 4)
+        .filter((match) => allowed.has(match.id) && match.score >= threshold)
+        .slice(0, limit);
+    }
+
+    return this.graphSearch(query, limit)
+      .filter((match) => match.score >= threshold)
+      .slice(0, limit);
+  }
+
+  /**
+   * Rebuild the graph from live nodes only, dropping tombstones.
+   */
+  compact(): { removed: number } {
+    const removed = this.deletedCount;
+    if (removed === 0) return { removed };
+
+    const live = this.nodes.filter((node) => !node.deleted);
+    this.nodes = [];
+    this.byId.clear();
+    this.entryPoint = -1;
+    this.maxLevel = -1;
+    live.forEach((node) => this.add(node.id, node.vector));
+    return { removed };
+  }
+
+  toJSON(): SerializedHnsw {
+    return {
+      version: 1,
+      dimensions: this.dimensions,
+      m: this.m,
+      efConstruction: this.efConstruction,
+      entryPoint: this.entryPoint,
+      maxLevel: this.maxLevel,
+      nodes: this.nodes.map((node) => ({
+        id: node.id,
+        vector: encodeVector(node.vector),
+        level: node.level,
+        neighbors: node.neighbors,
+        ...(node.deleted ? { deleted: true } : {}),
+      })),
+    };
+  }
+
+  static fromJSON(data: SerializedHnsw, options: Pick<HnswOptions, 'efSearch' | 'random'> = {}): HnswIndex {
+    if (data.version !== 1) throw new Error(`Unsupported HNSW index version ${String(data.version)}`);
+    const index = new HnswIndex({
+      dimensions: data.dimensions,
+      m: data.m,
+      efConstruction: data.efConstruction,
+      ...options,
+    });
+    index.nodes = data.nodes.map((node) => ({
+      id: node.id,
+      vector: decodeVector(node.vector),
+      level: node.level,
+      neighbors: node.neighbors,
+      deleted: node.deleted === true,
+    }));
+    index.nodes.forEach((node, position) => {
+      if (!node.deleted) index.byId.set(node.id, position);
+    });
+    index.entryPoint = data.entryPoint;
+    index.maxLevel = data.maxLevel;
+    return index;
+  }
+
+  private graphSearch(query: number[], limit: number): HnswMatch[] {
+    let entry = this.entryPoint;
+    for (let layer = this.maxLevel; layer > 0; layer--) {
+      entry = this.searchLayer(query, [entry], 1, layer)[0].node;
+    }
+    return this.searchLayer(query, [entry], Math.max(this.efSearch, limit), 0)
+      .filter((candidate) => !this.nodes[candidate.node].deleted)
+      .map((candidate) => ({ id: this.nodes[candidate.node].id, score: 1 - candidate.distance }));
+  }
+
+  private searchLayer(query: number[], entries: number[], ef: number, layer: number): Candidate[] {
+    const visited = new Set(entries);
+    const candidates: Candidate[] = [];
+    const results: Candidate[] = [];
+    for (const node of entries) {
+      const candidate = { node, distance: this.distance(query, this.nodes[node].vector) };
+      insertSorted(candidates, candidate);
+      insertSorted(results, candidate);
+    }
+
+    while (candidates.length > 0) {
+      const current = candidates.shift() as Candidate;
+      const furthest = results[results.length - 1];
+      if (results.length >= ef && current.distance > furthest.distance) break;
+
+      for (const neighbor of this.nodes[current.node].neighbors[layer] ?? []) {
+        if (visited.has(neighbor)) continue;
+        visited.add(neighbor);
+
+        const distance = this.distance(query, this.nodes[neighbor].vector);
+        if (results.length < ef || distance < results[results.length - 1].distance) {
+          const candidate = { node: neighbor, distance };
+          insertSorted(candidates, candidate);
+          insertSorted(results, candidate);
+          if (results.length > ef) results.pop();
+        }
+      }
+    }
+
+    return results;
+  }
+
+  private prune(nodeIndex: number, layer: number, maxLinks: number): void {
+    const node = this.nodes[nodeIndex];
+    node.neighbors[layer] = node.neighbors[layer]
+      .map((neighbor) => ({ neighbor, distance: this.distance(node.vector, this.nodes[neighbor].vector) }))
+      .sort((a, b) => a.distance - b.distance)
+      .slice(0, maxLinks)
+      .map(({ neighbor }) => neighbor);
+  }
+
+  private maxLinks(layer: number): number {
+    return layer === 0 ? this.m * 2 : this.m;
+  }
+
+  // Vectors are unit length, so cosine distance is 1 - dot product
+  private distance(a: number[], b: number[]): number {
+    let dot = 0;
+    for (let i = 0; i < a.length; i++) dot += a[i] * b[i];
+    return 1 - dot;
+  }
+}
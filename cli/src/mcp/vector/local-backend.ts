@@ -0,0 +1,157 @@
+/**
+ * On-disk HNSW backend
+ * One JSON file per collection, rewritten atomically (tmp + rename) after
+ * every change so a crash never leaves a half-written index behind.
+ */
+
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { HnswIndex, SerializedHnsw } from './hnsw.js';
+import {
+  VectorBackend,
+  VectorBackendStats,
+  VectorMatch,
+  VectorQuery,
+  VectorRecord,
+  VectorSpace,
+  VectorSpaceMismatchError,
+} from './types.js';
+
+interface LocalIndexFile {
+  version: 1;
+  model: string;
+  dimensions: number;
+  updated_at: string;
+  metadata: Record<string, Record<string, unknown>>;
+  index: SerializedHnsw;
+}
+
+export interface LocalVectorBackendOptions {
+  directory: string;
+  collection: string;
+  efSearch?: number;
+}
+
+export class LocalVectorBackend implements VectorBackend {
+  readonly name = 'local' as const;
+  private index: HnswIndex | undefined;
+  private metadata = new Map<string, Record<string, unknown>>();
+  private space: VectorSpace | undefined;
+  private writeChain: Promise<void> = Promise.resolve();
+
+  constructor(private options: LocalVectorBackendOptions) {}
+
+  get filePath(): string {
+    return join(this.options.directory, `${this.options.collection}.json`);
+  }
+
+  async initialize(space: VectorSpace): Promise<void> {
+    let file: LocalIndexFile | undefined;
+    try {
+      file = JSON.parse(await fs.readFile(this.filePath, 'utf-8')) as LocalIndexFile;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        throw new Error(`Failed to read vector index ${this.filePath}: ${(error as Error).message}`);
+      }
+    }
+
+    if (!file) {
+      this.start(space);
+      return;
+    }
+
+    if (file.model !== space.model || file.dimensions !== space.dimensions) {
+      throw new VectorSpaceMismatchError({ model: file.model, dimensions: file.dimensions }, space);
+    }
+
+    this.space = space;
+    this.index = HnswIndex.fromJSON(file.index, { efSearch: this.options.efSearch });
+    this.metadata = new Map(Object.entries(file.metadata));
+  }
+
+  async upsert(records: VectorRecord[]): Promise<void> {
+    const index = this.requireIndex();
+    records.forEach((record) => {
+      index.add(record.id, record.vector);
+      this.metadata.set(record.id, record.metadata);
+    });
+    await this.persist();
+  }
+
+  async delete(ids: string[]): Promise<void> {
+    const index = this.requireIndex();
+    let changed = false;
+    ids.forEach((id) => {
+      changed = index.remove(id) || changed;
+      this.metadata.delete(id);
+    });
+    if (changed) await this.persist();
+  }
+
+  async search(vector: number[], query: VectorQuery): Promise<VectorMatch[]> {
+    return this.requireIndex()
+      .search(vector, query.limit, { threshold: query.threshold, ids: query.ids })
+      .map((match) => ({ ...match, metadata: this.metadata.get(match.id) ?? {} }));
+  }
+
+  async getVector(id: string): Promise<number[] | undefined> {
+    return this.requireIndex().getVector(id);
+  }
+
+  async reset(space: VectorSpace): Promise<void> {
+    this.start(space);
+    await this.persist();
+  }
+
+  async compact(): Promise<{ removed: number }> {
+    const result = this.requireIndex().compact();
+    if (result.removed > 0) await this.persist();
+    return result;
+  }
+
+  async stats(): Promise<VectorBackendStats> {
+    const index = this.requireIndex();
+    return {
+      backend: this.name,
+      count: index.size,
+      deleted: index.deletedCount,
+      model: this.space?.model,
+      dimensions: this.space?.dimensions,
+      location: this.filePath,
+    };
+  }
+
+  private start(space: VectorSpace): void {
+    this.space = space;
+    this.index = new HnswIndex({ dimensions: space.dimensions, efSearch: this.options.efSearch });
+    this.metadata.clear();
+  }
+
+  private requireIndex(): HnswIndex {
+    if (!this.index) throw new Error('Local vector index is not initialized');
+    return this.index;
+  }
+
+  // Serialize writes so concurrent upserts cannot interleave renames
+  private persist(): Promise<void> {
+    const write = this.writeChain.then(() => this.writeFile());
+    this.writeChain = write.catch(() => undefined);
+    return write;
+  }
+
+  private async writeFile(): Promise<void> {
+    const file: LocalIndexFile = {
+      version: 1,
+      model: this.space.model,
+      dimensions: this.space.dimensions,
+      updated_at: new Date().toISOString(),
+      metadata: Object.fromEntries(this.metadata),
+      index: this.requireIndex().toJSON(),
+    };
+
+    await fs.mkdir(this.options.directory, { recursive: true, mode: 0o700 });
+    const tmpPath = `${this.filePath}.${process.pid}.tmp`;
+    await fs.writeFile(tmpPath, JSON.stringify(file), { encoding: 'utf-8', mode: 0o600 });
+    await fs.rename(tmpPath, this.filePath);
+  }
+}
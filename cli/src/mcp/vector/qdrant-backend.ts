@@ -0,0 +1,146 @@
+/**
+ * Qdrant backend over the REST API
+ * Point ids must be UUIDs or integers, so memory ids are mapped to a stable
+ * UUID and kept in the payload as memory_id.
+ */
+
+import { createHash } from 'crypto';
+import {
+  requestJson,
+  VectorBackend,
+  VectorBackendStats,
+  VectorMatch,
+  VectorQuery,
+  VectorRecord,
+  VectorSpace,
+  VectorSpaceMismatchError,
+} from './types.js';
+
+export interface QdrantBackendOptions {
+  url: string;
+  collection: string;
+  apiKey?: string;
+  fetchImpl?: typeof fetch;
+}
+
+interface QdrantCollectionInfo {
+  points_count?: number;
+  config?: { params?: { vectors?: { size?: number } } };
+}
+
+interface QdrantPoint {
+  id: string;
+  score?: number;
+  vector?: number[];
+  payload?: Record<string, unknown>;
+}
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export function qdrantPointId(memoryId: string): string {
+  if (UUID_PATTERN.test(memoryId)) return memoryId.toLowerCase();
+  const hex = createHash('sha1').update(memoryId).digest('hex');
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-5${hex.slice(13, 16)}-a${hex.slice(17, 20)}-${hex.slice(20, 32)}`;
+}
+
+export class QdrantVectorBackend implements VectorBackend {
+  readonly name = 'qdrant' as const;
+  private baseUrl: string;
+  private fetchImpl: typeof fetch;
+
+  constructor(private options: QdrantBackendOptions) {
+    this.baseUrl = options.url.replace(/\/+$/, '');
+    this.fetchImpl = options.fetchImpl ?? fetch;
+  }
+
+  private get collectionUrl(): string {
+    return `${this.baseUrl}/collections/${encodeURIComponent(this.options.collection)}`;
+  }
+
+  private request<T>(path: string, method: string, body?: unknown) {
+    return requestJson<{ result: T }>(
+      this.fetchImpl,
+      `${this.collectionUrl}${path}`,
+      { method, body, headers: this.options.apiKey ? { 'api-key': this.options.apiKey } : {} },
+      'Qdrant'
+    );
+  }
+
+  async initialize(space: VectorSpace): Promise<void> {
+    const { data } = await this.request<QdrantCollectionInfo>('', 'GET');
+    if (!data) {
+      await this.create(space);
+      return;
+    }
+
+    const size = data.result.config?.params?.vectors?.size;
+    if (size !== undefined && size !== space.dimensions) {
+      throw new VectorSpaceMismatchError({ model: 'unknown', dimensions: size }, space);
+    }
+  }
+
+  async upsert(records: VectorRecord[]): Promise<void> {
+    if (records.length === 0) return;
+    await this.request('/points?wait=true', 'PUT', {
+      points: records.map((record) => ({
+        id: qdrantPointId(record.id),
+        vector: record.vector,
+        payload: { ...record.metadata, memory_id: record.id },
+      })),
+    });
+  }
+
+  async delete(ids: string[]): Promise<void> {
+    if (ids.length === 0) return;
+    await this.request('/points/delete?wait=true', 'POST', { points: ids.map(qdrantPointId) });
+  }
+
+  async search(vector: number[], query: VectorQuery): Promise<VectorMatch[]> {
+    if (query.ids && query.ids.length === 0) return [];
+    const { data } = await this.request<QdrantPoint[]>('/points/search', 'POST', {
+      vector,
+      limit: query.limit,
+      with_payload: true,
+      ...(query.threshold !== undefined ? { score_threshold: query.threshold } : {}),
+      ...(query.ids ? { filter: { must: [{ key: 'memory_id', match: { any: query.ids } }] } } : {}),
+    });
+
+    return (data?.result ?? []).map((point) => {
+      const { memory_id, ...metadata } = point.payload ?? {};
+      return { id: String(memory_id ?? point.id), score: point.score ?? 0, metadata };
+    });
+  }
+
+  async getVector(id: string): Promise<number[] | undefined> {
+    const { data } = await this.request<QdrantPoint[]>('/points', 'POST', {
+      ids: [qdrantPointId(id)],
+      with_vector: true,
+      with_payload: false,
+    });
+    return data?.result[0]?.vector;
+  }
+
+  async reset(space: VectorSpace): Promise<void> {
+    await this.request('', 'DELETE');
+    await this.create(space);
+  }
+
+  // Qdrant vacuums deleted points in its own optimizer
+  async compact(): Promise<{ removed: number }> {
+    return { removed: 0 };
+  }
+
+  async stats(): Promise<VectorBackendStats> {
+    const { data } = await this.request<QdrantCollectionInfo>('', 'GET');
+    return {
+      backend: this.name,
+      count: data?.result.points_count ?? 0,
+      dimensions: data?.result.config?.params?.vectors?.size,
+      location: this.collectionUrl,
+    };
+  }
+
+  private async create(space: VectorSpace): Promise<void> {
+    await this.request('', 'PUT', { vectors: { size: space.dimensions, distance: 'Cosine' } });
+  }
+}
@@ -0,0 +1,91 @@
+/**
+ * Shared contract for vector store backends
+ */
+
+export type VectorBackendName = 'local' | 'qdrant' | 'chroma';
+
+export interface VectorRecord {
+  id: string;
+  vector: number[];
+  metadata: Record<string, unknown>;
+}
+
+export interface VectorMatch {
+  id: string;
+  score: number;
+  metadata: Record<string, unknown>;
+}
+
+export interface VectorQuery {
+  limit: number;
+  /** Minimum cosine similarity */
+  threshold?: number;
+  /** Restrict matches to these memory ids */
+  ids?: string[];
+}
+
+/** Identifies the embedding space a backend was built with */
+export interface VectorSpace {
+  model: string;
+  dimensions: number;
+}
+
+export interface VectorBackendStats {
+  backend: VectorBackendName;
+  count: number;
+  /** Entries awaiting compaction; local index only */
+  deleted?: number;
+  model?: string;
+  dimensions?: number;
+  location: string;
+}
+
+export interface VectorBackend {
+  readonly name: VectorBackendName;
+  /** Open or create the index for the given space */
+  initialize(space: VectorSpace): Promise<void>;
+  upsert(records: VectorRecord[]): Promise<void>;
+  delete(ids: string[]): Promise<void>;
+  search(vector: number[], query: VectorQuery): Promise<VectorMatch[]>;
+  getVector(id: string): Promise<number[] | undefined>;
+  /** Drop everything and start an empty index for the given space */
+  reset(space: VectorSpace): Promise<void>;
+  compact(): Promise<{ removed: number }>;
+  stats(): Promise<VectorBackendStats>;
+}
+
+/**
+ * Thrown when an existing index was built with a different embedding model
+ * or dimension count than the one configured now.
+ */
+export class VectorSpaceMismatchError extends Error {
+  constructor(public readonly existing: VectorSpace, public readonly configured: VectorSpace) {
+    super(
+      `Vector index was built with ${existing.model} (${existing.dimensions}d) but ${configured.model} ` +
+      `(${configured.dimensions}d) is configured. Run "lanonasis mcp index rebuild".`
+    );
+    this.name = 'VectorSpaceMismatchError';
+  }
+}
+
+export async function requestJson<T>(
+  fetchImpl: typeof fetch,
+  url: string,
+  init: { method?: string; body?: unknown; headers?: Record<string, string> },
+  label: string
+): Promise<{ status: number; data: T | undefined }> {
+  const response = await fetchImpl(url, {
+    method: init.method ?? 'GET',
+    headers: { 'Content-Type': 'application/json', ...init.headers },
+    ...(init.body !== undefined ? { body: JSON.stringify(init.body) } : {}),
+  });
+
+  if (response.status === 404) return { status: 404, data: undefined };
+  if (!response.ok) {
+    const detail = await response.text().catch(() => '');
+    throw new Error(`${label} request failed: ${response.status} ${detail || response.statusText}`.trim());
+  }
+
+  const text = await response.text();
+  return { status: response.status, data: text ? JSON.parse(text) as T : undefined };
+}
@@ -1,6 +1,7 @@
 import axios, { AxiosInstance, AxiosRequestConfig, InternalAxiosRequestConfig } from 'axios';
 import chalk from 'chalk';
 import { randomUUID } from 'crypto';
+import type { Readable } from 'stream';
 import { CLIConfig } from './config.js';
 
 // Type definitions for API responses and requests
@@ -34,6 +35,8 @@ export interface LoginRequest {
 
 export type MemoryType = 'context' | 'project' | 'knowledge' | 'reference' | 'personal' | 'workflow';
 export type WriteIntent = 'new' | 'continue' | 'auto';
+export type MemoryState = 'active' | 'paused' | 'archived' | 'deleted';
+export type MemoryLifecycleAction = 'archive' | 'pause' | 'resume' | 'restore' | 'delete';
 
 export interface MemoryEntry {
   id: string;
@@ -46,6 +49,11 @@ export interface MemoryEntry {
   user_id: string;
   organization_id: string;
   metadata?: Record<string, unknown>;
+  state?: MemoryState;
+  paused_at?: string | null;
+  archived_at?: string | null;
+  deleted_at?: string | null;
+  purge_after?: string | null;
   created_at: string;
   updated_at: string;
   last_accessed?: string;
@@ -87,6 +95,8 @@ export interface GetMemoriesParams {
   topic_id?: string;
   topic_key?: string;
   include_deleted?: boolean;
+  /** Comma-separated lifecycle states, or `all` */
+  state?: string;
   user_id?: string;
   sort?: 'created_at' | 'updated_at' | 'last_accessed' | 'access_count' | 'title';
   order?: 'asc' | 'desc';
@@ -102,6 +112,7 @@ export interface SearchMemoryRequest {
   topic_key?: string;
   limit?: number;
   threshold?: number;
+  states?: MemoryState[];
   include_deleted?: boolean;
   response_mode?: 'full' | 'compact' | 'timeline';
 }
@@ -110,6 +121,140 @@ export interface MemorySearchResult extends MemoryEntry {
   similarity_score: number;
 }
 
+export interface MemoryVersion {
+  id: string;
+  memory_id: string;
+  version_number: number;
+  title: string;
+  content: string;
+  memory_type: MemoryType;
+  tags: string[];
+  topic_id?: string | null;
+  metadata?: Record<string, unknown>;
+  created_by: string;
+  created_at: string;
+}
+
+export interface MemoryVersionList {
+  memory_id: string;
+  versions: MemoryVersion[];
+  total: number;
+}
+
+export interface MemoryVersionDiff {
+  memory_id: string;
+  from_version: number;
+  to_version: number | null;
+  changed_fields: string[];
+  title?: { from: string; to: string };
+  memory_type?: { from: MemoryType; to: MemoryType };
+  topic_id?: { from: string | null; to: string | null };
+  tags?: { added: string[]; removed: string[] };
+  metadata_keys_changed?: string[];
+  content: Array<{ op: 'equal' | 'add' | 'remove'; lines: string[] }>;
+}
+
+export interface MemoryImportLineResult {
+  line: number;
+  status: 'created' | 'error';
+  id?: string;
+  error?: string;
+}
+
+export interface MemoryImportResult {
+  total: number;
+  imported: number;
+  failed: number;
+  results: MemoryImportLineResult[];
+}
+
+export interface ExportMemoriesParams {
+  format?: 'ndjson' | 'json';
+  memory_type?: MemoryType;
+  tags?: string;
+  topic_id?: string;
+  user_id?: string;
+  created_after?: string;
+  created_before?: string;
+  include_embeddings?: boolean;
+}
+
+export interface EmbeddingProfile {
+  provider: string;
+  model: string;
+  dimensions: number;
+}
+
+export type EmbeddingMigrationStatus = 'running' | 'paused' | 'completed' | 'failed' | 'cancelled';
+
+export interface EmbeddingMigration {
+  id: string;
+  organization_id: string;
+  status: EmbeddingMigrationStatus;
+  target_provider: string;
+  target_model: string;
+  target_dimensions: number;
+  total: number;
+  processed: number;
+  failed: number;
+  cursor_id: string | null;
+  batch_size: number;
+  delay_ms: number;
+  last_error: string | null;
+  started_by: string | null;
+  heartbeat_at: string | null;
+  created_at: string;
+  updated_at: string;
+  completed_at: string | null;
+}
+
+export interface EmbeddingMigrationPlan {
+  profile_id: string;
+  target: EmbeddingProfile;
+  stale_memories: number;
+  open_migration: EmbeddingMigration | null;
+}
+
+export interface StartEmbeddingMigrationRequest {
+  batch_size?: number;
+  delay_ms?: number;
+}
+
+export type EmbeddingMigrationAction = 'pause' | 'resume' | 'cancel';
+
+export type ConclusionType = 'explicit' | 'deductive' | 'inductive' | 'abductive';
+
+export interface InferredConclusion {
+  id: string;
+  subject_id: string;
+  organization_id: string | null;
+  conclusion_type: ConclusionType;
+  content: string;
+  confidence: number;
+  evidence_memory_ids: string[];
+  scope: string | null;
+  freshness: string;
+  superseded_by: string | null;
+  contradiction_group_id: string | null;
+  created_at: string;
+  source_job_id: string | null;
+  resolution_id: string | null;
+}
+
+export interface ContradictionGroup {
+  contradiction_group_id: string;
+  conclusions: InferredConclusion[];
+}
+
+export type ResolveContradictionRequest =
+  | { action: 'accept'; winner_id: string; note?: string }
+  | { action: 'scope'; scopes: Record<string, string>; note?: string };
+
+export interface ContradictionResolutionResult {
+  resolution_id: string;
+  conclusions: InferredConclusion[];
+}
+
 export interface MemoryStats {
   total_memories: number;
   memories_by_type: Record<MemoryType, number>;
@@ -136,6 +281,40 @@ export interface BulkDeleteRequest {
 export interface BulkDeleteResponse {
   deleted_count: number;
   failed_deletes?: string[];
+  failed_ids?: string[];
+}
+
+export interface MemoryStateTransition {
+  id: string;
+  memory_id: string;
+  from_state: MemoryState;
+  to_state: MemoryState;
+  reason: string | null;
+  metadata: Record<string, unknown>;
+  changed_by: string | null;
+  created_at: string;
+}
+
+export interface MemoryTransitionList {
+  memory_id: string;
+  state: MemoryState;
+  transitions: MemoryStateTransition[];
+  total: number;
+}
+
+export interface BulkStateResponse {
+  action: MemoryLifecycleAction;
+  to_state: MemoryState;
+  updated_ids: string[];
+  skipped_ids: string[];
+  /** Memories the caller may not change */
+  denied_ids: string[];
+}
+
+export interface MemoryTrashPage {
+  memories: MemoryEntry[];
+  pagination: { page: number; limit: number; total: number; pages: number };
+  retention_days: number;
 }
 
 export interface MemoryTopic {
@@ -165,7 +344,20 @@ export interface UpdateTopicRequest {
   description?: string;
   color?: string;
   icon?: string;
-  parent_topic_id?: string;
+  parent_topic_id?: string | null;
+}
+
+export interface DeleteTopicRequest {
+  memories?: 'detach' | 'move';
+  target_topic_id?: string;
+}
+
+export interface DeleteTopicResult {
+  deleted_topic_id: string;
+  memories_action: 'detach' | 'move';
+  memories_affected: number;
+  target_topic_id: string | null;
+  children_reparented: number;
 }
 
 export interface HealthStatus {
@@ -213,14 +405,45 @@ export interface UserProfile {
   created_at: string | null;
   last_sign_in_at: string | null;
   metadata?: { locale: string | null; timezone: string | null };
+  /**
+   * OAuth scopes granted to the calling credential, space-delimited as in the
+   * gateway's token grant (`memory:read memory:write api:access mcp:connect`).
+   * Absent for vendor keys and legacy tokens.
+   */
+  scope?: string | null;
+}
+
+/**
+ * Credentials that replace the stored CLI credentials for one client, e.g.
+ * the bearer token of an MCP HTTP session
+ */
+export interface APIClientCredentials {
+  token?: string;
+  vendorKey?: string;
 }
 
 export class APIClient {
   private client: AxiosInstance;
   private config: CLIConfig;
+  private credentials?: APIClientCredentials;
   /** When true, throw on 401/403 instead of printing+exiting (for callers that handle errors) */
   noExit = false;
 
+  private authMethod(): string | undefined {
+    if (this.credentials) {
+      return this.credentials.token ? 'jwt' : 'vendor_key';
+    }
+    return this.config.get<string>('authMethod');
+  }
+
+  private authToken(): string | undefined {
+    return this.credentials ? this.credentials.token : this.config.getToken();
+  }
+
+  private async authVendorKey(): Promise<string | undefined> {
+    return this.credentials ? this.credentials.vendorKey : await this.config.getVendorKeyAsync();
+  }
+
   private isLikelyHashedCredential(value: unknown): value is string {
     return typeof value === 'string' && /^[a-f0-9]{64}$/i.test(value.trim());
   }
@@ -388,10 +611,10 @@ export class APIClient {
       if (!isGetByIdRequest || !indicatesMissingMcpGetRoute) return false;
     }
 
-    const authMethod = String(this.config.get<string>('authMethod') || '');
-    const token = this.config.getToken();
+    const authMethod = String(this.authMethod() || '');
+    const token = this.authToken();
     const hasOpaqueToken = Boolean(token) && token!.split('.').length !== 3;
-    const hasVendorKey = this.config.hasVendorKey();
+    const hasVendorKey = this.credentials ? Boolean(this.credentials.vendorKey) : this.config.hasVendorKey();
 
     return hasVendorKey || hasOpaqueToken || authMethod === 'oauth' || authMethod === 'oauth2';
   }
@@ -420,7 +643,8 @@ export class APIClient {
     let page = 1;
 
     while (true) {
-      const result = await this.getMemories({ page, limit });
+      // Include paused, archived and trashed memories so lifecycle commands resolve them too
+      const result = await this.getMemories({ page, limit, state: 'all' });
       const memories = result.memories || result.data || [];
 
       if (memories.length === 0) {
@@ -581,8 +805,9 @@ export class APIClient {
     return url;
   }
 
-  constructor() {
+  constructor(credentials?: APIClientCredentials) {
     this.config = new CLIConfig();
+    this.credentials = credentials;
     this.client = axios.create({
       proxy: false // Bypass proxy to avoid redirect loops in containerized environments
     });
@@ -592,7 +817,10 @@ export class APIClient {
       await this.config.init();
 
       // Keep OAuth sessions alive automatically (prevents intermittent "auth required" cutouts).
-      await this.config.refreshTokenIfNeeded();
+      // Caller-supplied credentials are refreshed by their owner, not from the CLI config.
+      if (!this.credentials) {
+        await this.config.refreshTokenIfNeeded();
+      }
       
       // Service Discovery
       await this.config.discoverServices();
@@ -605,9 +833,9 @@ export class APIClient {
           || config.url.startsWith('/api/v1/projects')
         );
       const discoveredServices = this.config.get<any>('discoveredServices');
-      const authMethod = this.config.get<string>('authMethod');
-      const vendorKey = await this.config.getVendorKeyAsync();
-      const token = this.config.getToken();
+      const authMethod = this.authMethod();
+      const vendorKey = await this.authVendorKey();
+      const token = this.authToken();
       const useSupabaseMemoryFunctions = (config as AxiosRequestConfig & {
         __useSupabaseMemoryFunctions?: boolean;
       }).__useSupabaseMemoryFunctions === true;
@@ -771,7 +999,10 @@ export class APIClient {
           if (status === 401) {
             // Invalidate the local auth cache so the next isAuthenticated() call
             // performs a fresh server check rather than returning a stale result.
-            this.config.invalidateAuthCache().catch(() => {});
+            // A rejected caller-supplied credential says nothing about the CLI's own.
+            if (!this.credentials) {
+              this.config.invalidateAuthCache().catch(() => {});
+            }
             if (this.noExit) {
               // Caller handles the error (e.g. auth status probe) — throw so try/catch fires
               return Promise.reject(error);
@@ -793,6 +1024,9 @@ export class APIClient {
           }
           
           if (status === 429) {
+            if (this.noExit) {
+              return Promise.reject(error);
+            }
             console.error(chalk.red('✖ Rate limit exceeded'));
             console.error(chalk.gray('Please wait a moment before trying again'));
             process.exit(1);
@@ -1057,11 +1291,16 @@ export class APIClient {
     }
   }
 
-  async deleteMemory(id: string): Promise<void> {
+  async deleteMemory(id: string, options: { permanent?: boolean } = {}): Promise<void> {
     const resolvedId = await this.resolveMemoryId(id);
 
     try {
-      await this.client.delete(`/api/v1/memories/${encodeURIComponent(resolvedId)}`);
+      const path = `/api/v1/memories/${encodeURIComponent(resolvedId)}`;
+      if (options.permanent) {
+        await this.client.delete(path, { params: { permanent: true } });
+      } else {
+        await this.client.delete(path);
+      }
     } catch (error: any) {
       if (this.shouldUseLegacyMemoryRpcFallback(error) || error?.response?.status === 404) {
         await this.client.delete('/api/v1/memory/delete', {
@@ -1086,13 +1325,145 @@ export class APIClient {
     return this.normalizeMemoryStats(response.data);
   }
 
-  async bulkDeleteMemories(memoryIds: string[]): Promise<BulkDeleteResponse> {
+  async bulkDeleteMemories(memoryIds: string[], options: { permanent?: boolean } = {}): Promise<BulkDeleteResponse> {
     const response = await this.client.post('/api/v1/memories/bulk/delete', {
-      memory_ids: memoryIds
+      memory_ids: memoryIds,
+      ...(options.permanent ? { permanent: true } : {})
+    });
+    return response.data;
+  }
+
+  // Lifecycle operations
+  async transitionMemory(
+    id: string,
+    action: Exclude<MemoryLifecycleAction, 'delete'>,
+    reason?: string
+  ): Promise<MemoryEntry> {
+    const resolvedId = await this.resolveMemoryId(id);
+    const response = await this.client.post(
+      `/api/v1/memories/${encodeURIComponent(resolvedId)}/${action}`,
+      reason ? { reason } : {}
+    );
+    return this.normalizeMemoryEntry(response.data);
+  }
+
+  async getMemoryTransitions(id: string, params: { limit?: number; offset?: number } = {}): Promise<MemoryTransitionList> {
+    const resolvedId = await this.resolveMemoryId(id);
+    const response = await this.client.get(`/api/v1/memories/${encodeURIComponent(resolvedId)}/transitions`, { params });
+    return response.data;
+  }
+
+  async getTrash(params: { page?: number; limit?: number } = {}): Promise<MemoryTrashPage> {
+    const response = await this.client.get('/api/v1/memories/trash', { params });
+    return response.data;
+  }
+
+  async bulkUpdateMemoryState(memoryIds: string[], action: MemoryLifecycleAction, reason?: string): Promise<BulkStateResponse> {
+    const response = await this.client.post('/api/v1/memories/bulk/state', {
+      memory_ids: memoryIds,
+      action,
+      ...(reason ? { reason } : {})
+    });
+    return response.data;
+  }
+
+  async purgeTrash(): Promise<{ purged_count: number }> {
+    const response = await this.client.post('/api/v1/memories/admin/purge');
+    return response.data;
+  }
+
+  // Version history operations
+  async getMemoryVersions(id: string, params: { limit?: number; offset?: number } = {}): Promise<MemoryVersionList> {
+    const resolvedId = await this.resolveMemoryId(id);
+    const response = await this.client.get(`/api/v1/memories/${encodeURIComponent(resolvedId)}/versions`, { params });
+    return response.data;
+  }
+
+  async getMemoryVersion(id: string, version: number): Promise<MemoryVersion> {
+    const resolvedId = await this.resolveMemoryId(id);
+    const response = await this.client.get(`/api/v1/memories/${encodeURIComponent(resolvedId)}/versions/${version}`);
+    return response.data;
+  }
+
+  async diffMemoryVersions(id: string, from: number, to?: number): Promise<MemoryVersionDiff> {
+    const resolvedId = await this.resolveMemoryId(id);
+    const response = await this.client.get(`/api/v1/memories/${encodeURIComponent(resolvedId)}/diff`, {
+      params: to !== undefined ? { from, to } : { from }
     });
     return response.data;
   }
 
+  async restoreMemoryVersion(id: string, version: number): Promise<MemoryEntry> {
+    const resolvedId = await this.resolveMemoryId(id);
+    const response = await this.client.post(`/api/v1/memories/${encodeURIComponent(resolvedId)}/restore/${version}`);
+    return this.normalizeMemoryEntry(response.data);
+  }
+
+  // Bulk transfer operations
+  async importMemories(ndjson: Readable | string): Promise<MemoryImportResult> {
+    const response = await this.client.post('/api/v1/memories/import', ndjson, {
+      headers: { 'Content-Type': 'application/x-ndjson' },
+      maxBodyLength: Infinity,
+      timeout: 0
+    });
+    return response.data;
+  }
+
+  async exportMemories(params: ExportMemoriesParams = {}): Promise<Readable> {
+    const response = await this.client.get('/api/v1/memories/export', {
+      params,
+      responseType: 'stream',
+      timeout: 0
+    });
+    return response.data;
+  }
+
+  // Embedding migration operations (admin)
+  async planEmbeddingMigration(): Promise<EmbeddingMigrationPlan> {
+    const response = await this.client.post('/api/v1/memories/admin/embedding/migrations', { dry_run: true });
+    return response.data;
+  }
+
+  async startEmbeddingMigration(data: StartEmbeddingMigrationRequest = {}): Promise<EmbeddingMigration> {
+    const response = await this.client.post('/api/v1/memories/admin/embedding/migrations', data);
+    return response.data;
+  }
+
+  async getEmbeddingMigrations(): Promise<EmbeddingMigration[]> {
+    const response = await this.client.get('/api/v1/memories/admin/embedding/migrations');
+    return response.data.migrations;
+  }
+
+  async getEmbeddingMigration(id: string): Promise<EmbeddingMigration> {
+    const response = await this.client.get(`/api/v1/memories/admin/embedding/migrations/${encodeURIComponent(id)}`);
+    return response.data;
+  }
+
+  async updateEmbeddingMigration(id: string, action: EmbeddingMigrationAction): Promise<EmbeddingMigration> {
+    const response = await this.client.post(`/api/v1/memories/admin/embedding/migrations/${encodeURIComponent(id)}/${action}`);
+    return response.data;
+  }
+
+  // Inferred conclusion contradictions
+  async getContradictions(subjectId: string, params: { limit?: number } = {}): Promise<ContradictionGroup[]> {
+    const response = await this.client.get('/api/v1/intelligence/contradictions', {
+      params: { subject_id: subjectId, ...params }
+    });
+    return response.data.groups;
+  }
+
+  async resolveContradiction(
+    groupId: string,
+    subjectId: string,
+    resolution: ResolveContradictionRequest
+  ): Promise<ContradictionResolutionResult> {
+    const response = await this.client.post(
+      `/api/v1/intelligence/contradictions/${encodeURIComponent(groupId)}/resolve`,
+      { subject_id: subjectId, ...resolution }
+    );
+    return response.data;
+  }
+
   // Topic operations - working with existing memory_topics table
   async createTopic(data: CreateTopicRequest): Promise<MemoryTopic> {
     const response = await this.client.post('/api/v1/topics', data);
@@ -1114,8 +1485,9 @@ export class APIClient {
     return response.data;
   }
 
-  async deleteTopic(id: string): Promise<void> {
-    await this.client.delete(`/api/v1/topics/${id}`);
+  async deleteTopic(id: string, options: DeleteTopicRequest = {}): Promise<DeleteTopicResult> {
+    const response = await this.client.delete(`/api/v1/topics/${id}`, { params: options });
+    return response.data;
   }
 
   // Health check
@@ -1,5 +1,6 @@
 import { createHash } from "crypto";
 import { readFileSync } from "fs";
+import { detectEvents, mergeEventTags } from "@lanonasis/event-classifier";
 import { LanonasisClient, type LanCreateParams } from "../client.js";
 import { parseConfig } from "../config.js";
 import { extractDecisionChains } from "../enrichment/chain-extractor.js";
@@ -95,7 +96,7 @@ function buildMemories(
           title,
           content,
           type,
-          tags: extractTags(content),
+          tags: mergeEventTags(extractTags(content), detectEvents(content)),
           metadata: {
             source: "claude-code-precompact",
             hook: "precompact",
@@ -103,6 +104,7 @@ function buildMemories(
             session_id: input.session_id,
             agent_type: opts.agentType,
             chain_type: chain.type,
+            chain_confidence: chain.confidence,
             num_messages: input.num_messages,
             context_window_usage: input.context_window_usage,
           },
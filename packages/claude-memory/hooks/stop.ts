@@ -1,5 +1,6 @@
 import { createHash } from "crypto";
 import { readFileSync } from "fs";
+import { detectEvents, mergeEventTags } from "@lanonasis/event-classifier";
 import { LanonasisClient, type LanCreateParams } from "../client.js";
 import { parseConfig } from "../config.js";
 import { extractDecisionChains } from "../enrichment/chain-extractor.js";
@@ -93,7 +94,7 @@ function buildMemories(input: StopInput, opts: StopOptions): LanCreateParams[] {
       title,
       content,
       type,
-      tags: extractTags(content),
+      tags: mergeEventTags(extractTags(content), detectEvents(content)),
       metadata: {
         source: "claude-code",
         hook: opts.hook,
@@ -101,6 +102,7 @@ function buildMemories(input: StopInput, opts: StopOptions): LanCreateParams[] {
         session_id: input.session_id,
         agent_type: opts.agentType,
         chain_type: chain.type,
+        chain_confidence: chain.confidence,
         num_turns: input.num_turns,
         total_cost: input.total_cost,
       },
@@ -1,6 +1,14 @@
+import { fileURLToPath } from "url";
 import { defineConfig } from "vitest/config";
 
 export default defineConfig({
+  resolve: {
+    alias: {
+      "@lanonasis/event-classifier": fileURLToPath(
+        new URL("../event-classifier/src/index.ts", import.meta.url),
+      ),
+    },
+  },
   test: {
     environment: "node",
     include: ["__tests__/**/*.test.ts"],
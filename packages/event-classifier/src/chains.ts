@@ -0,0 +1,120 @@
+/**
+ * Decision-chain extractor.
+ *
+ * Walks a transcript and pairs turns into memories worth keeping:
+ *
+ *   failure-pivot — an assistant failure followed by a decision or discovery
+ *   decision      — a user directive, with the assistant's outcome if any
+ *   synthesis     — an assistant discovery ("turned out", "the fix was")
+ *
+ * Pure function — no I/O, no state.
+ */
+
+import type { ChainType, DecisionChain, TranscriptMessage } from './types.js';
+
+/** Fixed confidence per chain family; a decision with an outcome scores higher. */
+const CHAIN_CONFIDENCE: Record<ChainType, number> = {
+  'failure-pivot': 0.8,
+  decision: 0.7,
+  synthesis: 0.65,
+};
+const CONFIRMED_DECISION_CONFIDENCE = 0.8;
+
+export function messageText(msg: TranscriptMessage): string {
+  if (typeof msg.content === 'string') return msg.content;
+  if (Array.isArray(msg.content)) {
+    return msg.content
+      .filter((b) => b.type === 'text' && b.text)
+      .map((b) => b.text!)
+      .join('\n');
+  }
+  return '';
+}
+
+const SYNTHESIS_PATTERNS = [
+  /\bthe (?:fix|issue|problem|root cause|solution) (?:is|was)\b/i,
+  /\bturned out\b/i,
+  /\bdiscovered (?:that|the)\b/i,
+  /\bswitched to\b/i,
+  /\bpivoted to\b/i,
+  /\bneed to (?:always|never)\b/i,
+  /\bfor compatibility\b/i,
+];
+
+const FAILURE_PATTERNS = [
+  /\b(?:returned a |got a )?\d{3}\b/i,
+  /\berror\b/i,
+  /\bfailed\b/i,
+  /\bdoesn't (?:exist|work)\b/i,
+  /\b404\b/,
+  /\b500\b/,
+];
+
+const DECISION_PATTERNS = [
+  /\bwe should\b/i,
+  /\balways use\b/i,
+  /\bnever use\b/i,
+  /\bprefer\b/i,
+  /\blet's (?:go with|use|switch)\b/i,
+  /\bpivot to\b/i,
+  /\bok (?:use|switch|pivot)\b/i,
+];
+
+const oneLine = (text: string): string => text.slice(0, 60).replace(/\s+/g, ' ').trim();
+
+export function extractDecisionChains(messages: TranscriptMessage[]): DecisionChain[] {
+  const chains: DecisionChain[] = [];
+
+  for (let i = 0; i < messages.length; i++) {
+    const msg = messages[i];
+    const text = messageText(msg);
+    if (!text || text.length < 20) continue;
+
+    if (msg.role === 'assistant' && FAILURE_PATTERNS.some((p) => p.test(text))) {
+      const next = messages[i + 1];
+      const nextText = next ? messageText(next) : '';
+      if (
+        nextText &&
+        (DECISION_PATTERNS.some((p) => p.test(nextText)) ||
+          SYNTHESIS_PATTERNS.some((p) => p.test(nextText)))
+      ) {
+        const combined = `Tried: ${text.slice(0, 500)}\nResolution: ${nextText.slice(0, 500)}`;
+        chains.push({
+          type: 'failure-pivot',
+          content: combined.slice(0, 2000),
+          title: `Pivot: ${oneLine(nextText)}`,
+          confidence: CHAIN_CONFIDENCE['failure-pivot'],
+        });
+        i++;
+        continue;
+      }
+    }
+
+    if (msg.role === 'user' && DECISION_PATTERNS.some((p) => p.test(text))) {
+      const next = messages[i + 1];
+      const nextText = next && next.role === 'assistant' ? messageText(next) : '';
+      const combined = nextText
+        ? `Decision: ${text.slice(0, 500)}\nOutcome: ${nextText.slice(0, 500)}`
+        : `Decision: ${text.slice(0, 1000)}`;
+      chains.push({
+        type: 'decision',
+        content: combined.slice(0, 2000),
+        title: `Decision: ${oneLine(text)}`,
+        confidence: nextText ? CONFIRMED_DECISION_CONFIDENCE : CHAIN_CONFIDENCE.decision,
+      });
+      if (nextText) i++;
+      continue;
+    }
+
+    if (msg.role === 'assistant' && SYNTHESIS_PATTERNS.some((p) => p.test(text))) {
+      chains.push({
+        type: 'synthesis',
+        content: text.slice(0, 2000),
+        title: `Discovery: ${oneLine(text)}`,
+        confidence: CHAIN_CONFIDENCE.synthesis,
+      });
+    }
+  }
+
+  return chains;
+}
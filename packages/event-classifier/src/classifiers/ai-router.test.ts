@@ -0,0 +1,32 @@
+import { describe, expect, it, vi } from 'vitest';
+import { createAiRouterClassifier, parseClassifierReply } from './ai-router.js';
+
+describe('parseClassifierReply', () => {
+  it('reads a fenced JSON array and keeps requested types only', () => {
+    const reply = 'Here you go:\n```json\n[{"type":"insight","confidence":1.4,"evidence":"that explains it"},' +
+      '{"type":"decision","confidence":0.9,"evidence":"go with x"}]\n```';
+
+    expect(parseClassifierReply(reply, ['surprise', 'insight'])).toEqual([
+      { type: 'insight', confidence: 1, evidence: 'that explains it', source: 'classifier' },
+    ]);
+  });
+
+  it('returns nothing for malformed replies', () => {
+    expect(parseClassifierReply('no events', ['surprise'])).toEqual([]);
+    expect(parseClassifierReply('[{"type": "surprise",', ['surprise'])).toEqual([]);
+  });
+});
+
+describe('createAiRouterClassifier', () => {
+  it('sends the classification prompt under the configured use case', async () => {
+    const router = { simpleChat: vi.fn().mockResolvedValue('[{"type":"surprise","confidence":0.8,"evidence":"wait, what"}]') };
+    const classifier = createAiRouterClassifier(router, { useCase: 'event-classify', maxChars: 10 });
+
+    const events = await classifier.classify({ text: '0123456789abcdef', types: ['surprise'] });
+
+    expect(events).toEqual([{ type: 'surprise', confidence: 0.8, evidence: 'wait, what', source: 'classifier' }]);
+    const [messages, useCase] = router.simpleChat.mock.calls[0];
+    expect(useCase).toBe('event-classify');
+    expect(messages[1]).toEqual({ role: 'user', content: '6789abcdef' });
+  });
+});
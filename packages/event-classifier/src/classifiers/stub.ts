@@ -0,0 +1,49 @@
+/**
+ * Local second-stage classifier. Keyword heuristics for the interpretive
+ * types — deterministic and offline, meant for tests and for environments
+ * without AI Router access. Confidence stays below the rules so a real
+ * classifier's verdict always reads as stronger.
+ */
+
+import type {
+  DetectedEvent,
+  InterpretiveEventType,
+  SecondStageClassifier,
+  SecondStageInput,
+} from '../types.js';
+
+const STUB_CONFIDENCE = 0.6;
+
+export const DEFAULT_STUB_PATTERNS: Record<InterpretiveEventType, RegExp[]> = {
+  surprise: [
+    /\b(?:surprisingly|unexpected(?:ly)?|didn't expect|did not expect|turns out|turned out)\b/i,
+    /\bwait,? (?:what|really|so)\b/i,
+  ],
+  insight: [
+    /\b(?:I|we) (?:just )?realized\b/i,
+    /\b(?:that|which) (?:explains|means)\b/i,
+    /\b(?:it|this) (?:clicked|connects)\b/i,
+  ],
+};
+
+export function createStubClassifier(
+  patterns: Partial<Record<InterpretiveEventType, RegExp[]>> = {},
+): SecondStageClassifier {
+  const resolved = { ...DEFAULT_STUB_PATTERNS, ...patterns };
+
+  return {
+    name: 'stub',
+    async classify({ text, types }: SecondStageInput): Promise<DetectedEvent[]> {
+      const events: DetectedEvent[] = [];
+      for (const type of types) {
+        for (const pattern of resolved[type]) {
+          const match = text.match(pattern);
+          if (!match) continue;
+          events.push({ type, confidence: STUB_CONFIDENCE, evidence: match[0], source: 'classifier' });
+          break;
+        }
+      }
+      return events;
+    },
+  };
+}
@@ -0,0 +1,40 @@
+export type {
+  EventType,
+  InterpretiveEventType,
+  DetectedEvent,
+  ChainType,
+  DecisionChain,
+  TranscriptMessage,
+  ClassifierMode,
+  SecondStageInput,
+  SecondStageClassifier,
+} from './types.js';
+export {
+  EVENT_TYPES,
+  INTERPRETIVE_EVENT_TYPES,
+  CHAIN_TYPES,
+  DEFAULT_CLASSIFIER_MODE,
+  isEventType,
+} from './types.js';
+export { detectEvents } from './rules.js';
+export { extractDecisionChains, messageText } from './chains.js';
+export {
+  EVENT_TAG_PREFIX,
+  TAG_BACKFILLED,
+  TAG_HUMAN_CORRECTED,
+  eventTag,
+  isEventTag,
+  eventTypeFromTag,
+  mergeEventTags,
+  stripAllEventTags,
+  stripEventTypeTag,
+} from './tags.js';
+export type {
+  ClassificationPipeline,
+  ClassificationPipelineOptions,
+  ClassificationResult,
+} from './pipeline.js';
+export { createClassificationPipeline, classifierModeFromEnv } from './pipeline.js';
+export { createStubClassifier, DEFAULT_STUB_PATTERNS } from './classifiers/stub.js';
+export type { AiRouterChat, AiRouterClassifierOptions } from './classifiers/ai-router.js';
+export { createAiRouterClassifier, parseClassifierReply } from './classifiers/ai-router.js';
@@ -0,0 +1,78 @@
+import { describe, expect, it, vi } from 'vitest';
+import { classifierModeFromEnv, createClassificationPipeline } from './pipeline.js';
+import { createStubClassifier } from './classifiers/stub.js';
+import type { SecondStageClassifier, TranscriptMessage } from './types.js';
+
+describe('createClassificationPipeline', () => {
+  it('runs rules only without a second stage', async () => {
+    const pipeline = createClassificationPipeline();
+    const result = await pipeline.classifyText("Let's go with postgres. Surprisingly it was faster.");
+
+    expect(result.events.map((e) => e.type)).toEqual(['decision']);
+    expect(result.classifier).toBeNull();
+  });
+
+  it('adds interpretive events from the second stage in hybrid mode', async () => {
+    const pipeline = createClassificationPipeline({ classifier: createStubClassifier() });
+    const result = await pipeline.classifyText("Let's go with postgres. Surprisingly it was faster.");
+
+    expect(result.events).toEqual(expect.arrayContaining([
+      expect.objectContaining({ type: 'decision', source: 'rules' }),
+      expect.objectContaining({ type: 'surprise', source: 'classifier', evidence: 'Surprisingly' }),
+    ]));
+    expect(result.classifier).toBe('stub');
+  });
+
+  it('never calls the second stage in rules-only mode', async () => {
+    const classifier: SecondStageClassifier = { name: 'spy', classify: vi.fn().mockResolvedValue([]) };
+    const pipeline = createClassificationPipeline({ mode: 'rules-only', classifier });
+
+    await pipeline.classifyText('I realized the cache explains it');
+    expect(classifier.classify).not.toHaveBeenCalled();
+  });
+
+  it('drops non-interpretive and low-confidence second-stage events', async () => {
+    const classifier: SecondStageClassifier = {
+      name: 'noisy',
+      classify: vi.fn().mockResolvedValue([
+        { type: 'decision', confidence: 0.99, evidence: 'x' },
+        { type: 'insight', confidence: 0.3, evidence: 'y' },
+        { type: 'surprise', confidence: 0.9, evidence: 'z' },
+      ]),
+    };
+    const result = await createClassificationPipeline({ classifier }).classifyText('plain text');
+
+    expect(result.events).toEqual([{ type: 'surprise', confidence: 0.9, evidence: 'z', source: 'classifier' }]);
+  });
+
+  it('falls back to the rules result when the second stage fails', async () => {
+    const classifier: SecondStageClassifier = {
+      name: 'down',
+      classify: vi.fn().mockRejectedValue(new Error('router unavailable')),
+    };
+    const result = await createClassificationPipeline({ classifier }).classifyText("I'll ship it by Friday");
+
+    expect(result.degraded).toBe(true);
+    expect(result.classifier).toBeNull();
+    expect(result.events[0]).toMatchObject({ type: 'commitment', payload: { due: 'friday' } });
+  });
+
+  it('classifies a transcript into events and scored chains', async () => {
+    const messages: TranscriptMessage[] = [
+      { role: 'user', content: 'We should always use the staging database for these tests' },
+      { role: 'assistant', content: [{ type: 'text', text: 'Done, the suite now points at staging.' }] },
+    ];
+    const result = await createClassificationPipeline({ classifier: createStubClassifier() })
+      .classifyTranscript(messages);
+
+    expect(result.chains).toEqual([expect.objectContaining({ type: 'decision', confidence: 0.8 })]);
+  });
+});
+
+describe('classifierModeFromEnv', () => {
+  it('accepts known modes and defaults to hybrid', () => {
+    expect(classifierModeFromEnv('rules-only')).toBe('rules-only');
+    expect(classifierModeFromEnv('bogus')).toBe('hybrid');
+    expect(classifierModeFromEnv(undefined)).toBe('hybrid');
+  });
+});
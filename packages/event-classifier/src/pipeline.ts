@@ -0,0 +1,125 @@
+/**
+ * Confidence-scored classification pipeline.
+ *
+ *   stage 1 — rules (`detectEvents`, `extractDecisionChains`): pure, always on
+ *   stage 2 — pluggable classifier for the interpretive types, hybrid mode only
+ *
+ * A second-stage failure never fails the pipeline: the rules result is
+ * returned with `degraded: true` so callers can log it and move on.
+ */
+
+import { extractDecisionChains, messageText } from './chains.js';
+import { detectEvents } from './rules.js';
+import {
+  DEFAULT_CLASSIFIER_MODE,
+  INTERPRETIVE_EVENT_TYPES,
+  type ClassifierMode,
+  type DecisionChain,
+  type DetectedEvent,
+  type EventType,
+  type InterpretiveEventType,
+  type SecondStageClassifier,
+  type TranscriptMessage,
+} from './types.js';
+
+export interface ClassificationPipelineOptions {
+  mode?: ClassifierMode;
+  /** Second stage for the interpretive types. Without one, hybrid behaves as rules-only. */
+  classifier?: SecondStageClassifier;
+  /** Events and chains below this confidence are dropped. Default 0.6. */
+  minConfidence?: number;
+}
+
+export interface ClassificationResult {
+  events: DetectedEvent[];
+  chains: DecisionChain[];
+  /** Name of the second stage that ran, or null when rules only. */
+  classifier: string | null;
+  /** True when the second stage was configured but failed. */
+  degraded: boolean;
+}
+
+export interface ClassificationPipeline {
+  readonly mode: ClassifierMode;
+  classifyText(text: string): Promise<ClassificationResult>;
+  classifyTranscript(messages: TranscriptMessage[]): Promise<ClassificationResult>;
+}
+
+/** Read `LANONASIS_CLASSIFIER`; unknown values fall back to the default. */
+export function classifierModeFromEnv(value: string | undefined): ClassifierMode {
+  return value === 'rules-only' || value === 'hybrid' ? value : DEFAULT_CLASSIFIER_MODE;
+}
+
+/** Keep the strongest event per type; payloads merge. */
+function mergeEvents(events: DetectedEvent[]): DetectedEvent[] {
+  const byType = new Map<EventType, DetectedEvent>();
+  for (const ev of events) {
+    const existing = byType.get(ev.type);
+    if (!existing) {
+      byType.set(ev.type, { ...ev });
+      continue;
+    }
+    if (ev.confidence > existing.confidence) {
+      existing.confidence = ev.confidence;
+      existing.evidence = ev.evidence;
+      existing.source = ev.source;
+    }
+    if (ev.payload) {
+      existing.payload = { ...(existing.payload ?? {}), ...ev.payload };
+    }
+  }
+  return Array.from(byType.values());
+}
+
+export function createClassificationPipeline(
+  options: ClassificationPipelineOptions = {},
+): ClassificationPipeline {
+  const mode = options.mode ?? DEFAULT_CLASSIFIER_MODE;
+  const minConfidence = options.minConfidence ?? 0.6;
+  const secondStage = mode === 'hybrid' ? options.classifier : undefined;
+  const interpretive: readonly InterpretiveEventType[] = INTERPRETIVE_EVENT_TYPES;
+
+  async function run(
+    text: string,
+    ruleEvents: DetectedEvent[],
+    chains: DecisionChain[],
+  ): Promise<ClassificationResult> {
+    let events = ruleEvents;
+    let degraded = false;
+
+    if (secondStage && text.trim()) {
+      try {
+        const found = await secondStage.classify({ text, types: interpretive });
+        const allowed = found
+          .filter((ev) => (interpretive as readonly string[]).includes(ev.type))
+          .map((ev) => ({ ...ev, source: 'classifier' as const }));
+        events = [...events, ...allowed];
+      } catch {
+        degraded = true;
+      }
+    }
+
+    return {
+      events: mergeEvents(events).filter((ev) => ev.confidence >= minConfidence),
+      chains: chains.filter((chain) => chain.confidence >= minConfidence),
+      classifier: secondStage && !degraded ? secondStage.name : null,
+      degraded,
+    };
+  }
+
+  return {
+    mode,
+    classifyText(text: string) {
+      return run(text, detectEvents(text), []);
+    },
+    classifyTranscript(messages: TranscriptMessage[]) {
+      const texts = messages.map((msg) => messageText(msg));
+      const ruleEvents = texts.flatMap((t) => detectEvents(t));
+      const flattened = messages
+        .map((msg, i) => (texts[i] ? `${msg.role}: ${texts[i]}` : ''))
+        .filter(Boolean)
+        .join('\n\n');
+      return run(flattened, ruleEvents, extractDecisionChains(messages));
+    },
+  };
+}
@@ -0,0 +1,115 @@
+/**
+ * Shared classification taxonomies for agent transcripts.
+ *
+ * Two taxonomies classify the same kind of content:
+ *
+ *   - The 7-type capture-event ontology locked in
+ *     `docs/context/architecture/capture-event-ontology.md`. Each event type
+ *     is a tag-convention slug (`event:<type>`) applied alongside the
+ *     existing `memory_type` enum on the MaaS memory record — no MaaS
+ *     schema changes required.
+ *   - Decision chains (decision / failure-pivot / synthesis): multi-turn
+ *     spans worth storing as one memory, used by the capture hooks.
+ *
+ * Convergence (Phase B) reads `event:*` tags off the memory corpus. The
+ * quality of that synthesis is bounded by what is captured here.
+ */
+
+/**
+ * The seven canonical event types. Order is intentional: deterministic
+ * types (rules-detectable) come first, interpretive types last.
+ *
+ *   decision    — explicit choice between alternatives with rationale (Mind)
+ *   commitment  — stated intent to do X (optionally by Y)
+ *   frustration — friction signal: blocker, repeated failure, vent (Heart)
+ *   surprise    — outside-in: assumption-breaking moment
+ *   insight     — inside-out: connection-making moment
+ *   revisit     — auto: semantic hit on a >7-day-old prior memory
+ *   abandon     — NOT auto-tagged in v0; user-applied via /event tag
+ */
+export const EVENT_TYPES = [
+  'decision',
+  'commitment',
+  'frustration',
+  'surprise',
+  'insight',
+  'revisit',
+  'abandon',
+] as const;
+
+export type EventType = (typeof EVENT_TYPES)[number];
+
+/** Types the rules cannot detect reliably; left to the second stage. */
+export const INTERPRETIVE_EVENT_TYPES = ['surprise', 'insight'] as const satisfies readonly EventType[];
+
+export type InterpretiveEventType = (typeof INTERPRETIVE_EVENT_TYPES)[number];
+
+export function isEventType(value: string): value is EventType {
+  return (EVENT_TYPES as readonly string[]).includes(value);
+}
+
+/**
+ * Detector output. A single chunk of input text may match multiple
+ * event types — e.g. "I'll fix the broken pipeline by Friday" is both
+ * `commitment` (intent + deadline) and `frustration` (broken).
+ */
+export interface DetectedEvent {
+  /** Which event type the rule matched. */
+  type: EventType;
+  /** Confidence score in [0,1]. Rules-based detectors emit fixed values
+   *  (typically 0.7 for a single-pattern hit, 0.9 for multi-pattern). */
+  confidence: number;
+  /** The substring that triggered the match (for diagnostics + /event detect). */
+  evidence: string;
+  /** Optional structured metadata derived from the match — e.g. a parsed
+   *  due date for a commitment, the tool name for a tool-tagged frustration. */
+  payload?: Record<string, string>;
+  /** Which stage produced the event. Absent means `rules`. */
+  source?: 'rules' | 'classifier';
+}
+
+export type ChainType = 'decision' | 'failure-pivot' | 'synthesis';
+
+export const CHAIN_TYPES: readonly ChainType[] = ['decision', 'failure-pivot', 'synthesis'];
+
+/** A span of one or two turns worth storing as a single memory. */
+export interface DecisionChain {
+  type: ChainType;
+  content: string;
+  title: string;
+  /** Confidence score in [0,1]; fixed per pattern family. */
+  confidence: number;
+}
+
+/** Transcript message in the shape both Claude Code and OpenClaw emit. */
+export interface TranscriptMessage {
+  role: string;
+  content: string | Array<{ type: string; text?: string }>;
+}
+
+/**
+ * Classifier mode — gated by env var `LANONASIS_CLASSIFIER`.
+ *
+ *   hybrid     — rules-first for deterministic types; the second-stage
+ *                classifier (AI Router in production) for surprise/insight.
+ *   rules-only — never call the second stage; offline path.
+ */
+export type ClassifierMode = 'hybrid' | 'rules-only';
+
+export const DEFAULT_CLASSIFIER_MODE: ClassifierMode = 'hybrid';
+
+export interface SecondStageInput {
+  /** Text to classify — one message or a flattened transcript. */
+  text: string;
+  /** Event types the second stage should look for. */
+  types: readonly InterpretiveEventType[];
+}
+
+/**
+ * Pluggable second stage for the interpretive types. Implementations
+ * return only events of the requested types; anything else is dropped.
+ */
+export interface SecondStageClassifier {
+  readonly name: string;
+  classify(input: SecondStageInput): Promise<DetectedEvent[]>;
+}
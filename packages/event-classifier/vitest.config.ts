@@ -0,0 +1,9 @@
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  test: {
+    name: '@lanonasis/event-classifier',
+    environment: 'node',
+    include: ['src/**/*.test.ts'],
+  },
+});
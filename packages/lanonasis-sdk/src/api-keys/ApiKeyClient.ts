@@ -0,0 +1,72 @@
+/**
+ * API Key Client - projects, stored keys and key analytics
+ */
+
+import type { AxiosInstance } from 'axios';
+import type { LanonasisClientConfig } from '../client/LanonasisClient.js';
+import { requestRoute } from '../client/request.js';
+import { API_ROUTES } from '../routes.js';
+import type {
+  ApiKey,
+  ApiKeyProject,
+  CreateApiKeyRequest,
+  CreateProjectRequest,
+  KeyUsageAnalytics,
+  RiskLevel,
+  SecurityEvent,
+  UpdateApiKeyRequest
+} from './types.js';
+
+const routes = API_ROUTES.apiKeys;
+
+export class ApiKeyClient {
+  private httpClient: AxiosInstance;
+  private config: LanonasisClientConfig;
+
+  constructor(httpClient: AxiosInstance, config: LanonasisClientConfig) {
+    this.httpClient = httpClient;
+    this.config = config;
+  }
+
+  async createProject(data: CreateProjectRequest): Promise<ApiKeyProject> {
+    return requestRoute(this.httpClient, routes.createProject, { data });
+  }
+
+  async listProjects(): Promise<ApiKeyProject[]> {
+    return requestRoute(this.httpClient, routes.listProjects);
+  }
+
+  /**
+   * Store a secret. The response never contains the value.
+   */
+  async create(data: CreateApiKeyRequest): Promise<ApiKey> {
+    return requestRoute(this.httpClient, routes.create, { data });
+  }
+
+  async list(options: { projectId?: string } = {}): Promise<ApiKey[]> {
+    return requestRoute(this.httpClient, routes.list, { query: options });
+  }
+
+  async get(keyId: string): Promise<ApiKey> {
+    return requestRoute(this.httpClient, routes.get, { params: { keyId } });
+  }
+
+  async update(keyId: string, data: UpdateApiKeyRequest): Promise<ApiKey> {
+    return requestRoute(this.httpClient, routes.update, { params: { keyId }, data });
+  }
+
+  async delete(keyId: string): Promise<void> {
+    await requestRoute(this.httpClient, routes.delete, { params: { keyId } });
+  }
+
+  /**
+   * Usage records for the organization, or one key, over the last `days` (default 30)
+   */
+  async usageAnalytics(options: { keyId?: string; days?: number } = {}): Promise<KeyUsageAnalytics[]> {
+    return requestRoute(this.httpClient, routes.usageAnalytics, { query: options });
+  }
+
+  async securityEvents(options: { severity?: RiskLevel } = {}): Promise<SecurityEvent[]> {
+    return requestRoute(this.httpClient, routes.securityEvents, { query: options });
+  }
+}
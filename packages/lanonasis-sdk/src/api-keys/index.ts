@@ -0,0 +1,6 @@
+/**
+ * API key module - `@lanonasis/sdk/api-keys`
+ */
+
+export { ApiKeyClient } from './ApiKeyClient.js';
+export type * from './types.js';
@@ -0,0 +1,209 @@
+/**
+ * API key management types and interfaces
+ */
+
+export type KeyType =
+  | 'api_key'
+  | 'database_url'
+  | 'oauth_token'
+  | 'certificate'
+  | 'ssh_key'
+  | 'webhook_secret'
+  | 'encryption_key';
+
+export type Environment = 'development' | 'staging' | 'production';
+
+export type AccessLevel = 'public' | 'authenticated' | 'team' | 'admin' | 'enterprise';
+
+export type KeyStatus = 'active' | 'rotating' | 'deprecated' | 'expired' | 'compromised';
+
+export type RiskLevel = 'low' | 'medium' | 'high' | 'critical';
+
+/**
+ * A stored key. The secret value is never returned by the API.
+ */
+export interface ApiKey {
+  id: string;
+  name: string;
+  keyType: KeyType;
+  environment: Environment;
+  projectId: string;
+  organizationId: string;
+  accessLevel: AccessLevel;
+  status: KeyStatus;
+  tags: string[];
+  usageCount: number;
+  lastRotated: string;
+  rotationFrequency: number;
+  expiresAt?: string;
+  metadata: Record<string, unknown>;
+  createdBy: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CreateApiKeyRequest {
+  name: string;
+  value: string;
+  keyType: KeyType;
+  /** Defaults to `development` */
+  environment?: Environment;
+  /** Defaults to `team` */
+  accessLevel?: AccessLevel;
+  projectId: string;
+  tags?: string[];
+  expiresAt?: string;
+  /** Days between rotations, 1-365; defaults to 90 */
+  rotationFrequency?: number;
+  metadata?: Record<string, unknown>;
+}
+
+export type UpdateApiKeyRequest = Partial<Omit<CreateApiKeyRequest, 'projectId'>>;
+
+export interface ApiKeyProject {
+  id: string;
+  name: string;
+  description?: string;
+  organizationId: string;
+  ownerId: string;
+  teamMembers: string[];
+  settings: Record<string, unknown>;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CreateProjectRequest {
+  name: string;
+  description?: string;
+  organizationId: string;
+  teamMembers?: string[];
+  settings?: Record<string, unknown>;
+}
+
+export interface MCPTool {
+  id: string;
+  toolId: string;
+  toolName: string;
+  organizationId: string;
+  permissions: {
+    keys: string[];
+    environments: Environment[];
+    maxConcurrentSessions: number;
+    maxSessionDuration: number;
+  };
+  webhookUrl?: string;
+  autoApprove: boolean;
+  riskLevel: RiskLevel;
+  createdBy: string;
+  status: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CreateMCPToolRequest {
+  toolId: string;
+  toolName: string;
+  organizationId: string;
+  permissions: {
+    keys: string[];
+    environments: Environment[];
+    /** 1-10; defaults to 3 */
+    maxConcurrentSessions?: number;
+    /** Seconds, 60-3600; defaults to 900 */
+    maxSessionDuration?: number;
+  };
+  webhookUrl?: string;
+  autoApprove?: boolean;
+  riskLevel?: RiskLevel;
+}
+
+export interface MCPAccessRequest {
+  toolId: string;
+  organizationId: string;
+  keyNames: string[];
+  environment: Environment;
+  justification: string;
+  /** Seconds, 60-3600 */
+  estimatedDuration: number;
+  context?: Record<string, unknown>;
+}
+
+export interface MCPAccessRequestResult {
+  requestId: string;
+  status: 'pending' | 'approved';
+  message: string;
+  /** Present when the tool is auto-approved and a session was opened */
+  sessionId?: string;
+}
+
+export interface MCPSession {
+  sessionId: string;
+  status: string;
+  message: string;
+}
+
+export interface MCPSessionEnd {
+  sessionId: string;
+  status: 'ended';
+  endedAt: string;
+  revokedTokens: number;
+  message: string;
+}
+
+export interface ProxyToken {
+  proxyToken: string;
+  expiresAt: string;
+  usage: {
+    instructions: string;
+    example: string;
+  };
+}
+
+export interface ResolvedProxyToken {
+  keyValue: string;
+  metadata: {
+    resolvedAt: string;
+    tokenType: string;
+  };
+}
+
+/**
+ * Usage and security records are returned as stored, in snake_case
+ */
+export interface KeyUsageAnalytics {
+  id: string;
+  key_id: string;
+  organization_id: string;
+  user_id: string | null;
+  tool_id: string | null;
+  session_id: string | null;
+  operation: 'access' | 'rotate' | 'create' | 'update' | 'delete';
+  ip_address: string | null;
+  user_agent: string | null;
+  success: boolean;
+  error_message: string | null;
+  response_time_ms: number | null;
+  metadata: Record<string, unknown>;
+  timestamp: string;
+}
+
+export type SecurityEventType =
+  | 'unauthorized_access'
+  | 'failed_rotation'
+  | 'anomaly_detected'
+  | 'compliance_violation'
+  | 'suspicious_usage';
+
+export interface SecurityEvent {
+  id: string;
+  key_id: string | null;
+  organization_id: string;
+  event_type: SecurityEventType;
+  severity: RiskLevel;
+  description: string;
+  metadata: Record<string, unknown>;
+  resolved: boolean;
+  resolved_by: string | null;
+  resolved_at: string | null;
+  timestamp: string;
+}
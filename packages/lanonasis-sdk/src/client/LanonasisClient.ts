@@ -3,8 +3,9 @@ import { ClientConfig, AuthToken } from '../types/common.js';
 import { MemoryClient } from '../memory/MemoryClient.js';
 import { ApiKeyClient } from '../api-keys/ApiKeyClient.js';
 import { MCPClient } from '../mcp/MCPClient.js';
-import { LanonasisError, AuthenticationError } from '../errors/index.js';
-import { DEFAULT_API_URL, DEFAULT_TIMEOUT } from '../constants.js';
+import { IntelligenceClient } from '../intelligence/IntelligenceClient.js';
+import { LanonasisError, AuthenticationError, createErrorFromResponse } from '../errors/index.js';
+import { DEFAULT_API_URL, DEFAULT_TIMEOUT, PROJECT_SCOPE, SDK_VERSION } from '../constants.js';
 import { parseJWT } from '../utils/index.js';
 
 export interface LanonasisClientConfig extends ClientConfig {
@@ -68,6 +69,8 @@ export interface LanonasisClientConfig extends ClientConfig {
  * 
  * // Use sub-clients
  * const memories = await client.memory.search('AI development');
+ * const topics = await client.memory.topics.tree();
+ * const profile = await client.intelligence.profiles.get(userId);
  * const apiKeys = await client.apiKeys.list();
  * const session = await client.mcp.requestAccess({...});
  * ```
@@ -81,6 +84,7 @@ export class LanonasisClient {
   public readonly memory: MemoryClient;
   public readonly apiKeys: ApiKeyClient;
   public readonly mcp: MCPClient;
+  public readonly intelligence: IntelligenceClient;
 
   constructor(config: LanonasisClientConfig = {}) {
     this.config = {
@@ -100,6 +104,7 @@ export class LanonasisClient {
     this.memory = new MemoryClient(this.httpClient, this.config);
     this.apiKeys = new ApiKeyClient(this.httpClient, this.config);
     this.mcp = new MCPClient(this.httpClient, this.config);
+    this.intelligence = new IntelligenceClient(this.httpClient, this.config);
 
     // Parse token if provided
     if (this.config.token) {
@@ -120,7 +125,8 @@ export class LanonasisClient {
       timeout: this.config.timeout,
       headers: {
         'Content-Type': 'application/json',
-        'User-Agent': 'LanOnasis-SDK/1.0.0',
+        'User-Agent': `LanOnasis-SDK/${SDK_VERSION}`,
+        'X-Project-Scope': PROJECT_SCOPE,
         ...this.config.headers
       }
     });
@@ -175,22 +181,8 @@ export class LanonasisClient {
 
         // Handle specific error types
         if (error.response) {
-          const { status, data } = error.response;
-          
-          switch (status) {
-            case 401:
-              throw new AuthenticationError(data.message || 'Authentication failed');
-            case 403:
-              throw new LanonasisError(data.message || 'Access forbidden', status);
-            case 404:
-              throw new LanonasisError(data.message || 'Resource not found', status);
-            case 429:
-              throw new LanonasisError(data.message || 'Rate limit exceeded', status);
-            case 500:
-              throw new LanonasisError(data.message || 'Internal server error', status);
-            default:
-              throw new LanonasisError(data.message || 'API request failed', status);
-          }
+          const { status, data, headers } = error.response;
+          throw createErrorFromResponse(status, data, headers?.['retry-after']);
         }
 
         // Network or other errors
@@ -0,0 +1,52 @@
+/**
+ * Route-based request helper shared by the sub-clients
+ */
+
+import type { AxiosInstance } from 'axios';
+import { ApiRoute, resolvePath } from '../routes.js';
+
+export type QueryValue = string | number | boolean | string[] | undefined | null;
+
+export interface RouteRequestOptions {
+  params?: Record<string, string | number>;
+  query?: object;
+  data?: unknown;
+  headers?: Record<string, string>;
+  /** `text` returns the raw body, e.g. for NDJSON exports */
+  responseType?: 'json' | 'text';
+}
+
+/**
+ * Send a request for a route from the API route table and return the body.
+ * Errors are mapped by the client's response interceptor.
+ */
+export async function requestRoute<T>(
+  httpClient: AxiosInstance,
+  route: ApiRoute,
+  options: RouteRequestOptions = {}
+): Promise<T> {
+  const response = await httpClient.request<T>({
+    method: route.method,
+    url: resolvePath(route.path, options.params),
+    params: serializeQuery(options.query),
+    data: options.data,
+    headers: options.headers,
+    responseType: options.responseType
+  });
+  return response.data;
+}
+
+/**
+ * Drop unset values and join arrays with commas, the form the API's
+ * list filters (`tags`, `state`) parse.
+ */
+export function serializeQuery(query?: object): Record<string, string> | undefined {
+  if (!query) return undefined;
+
+  const params: Record<string, string> = {};
+  for (const [key, value] of Object.entries(query as Record<string, QueryValue>)) {
+    if (value === undefined || value === null) continue;
+    params[key] = Array.isArray(value) ? value.join(',') : String(value);
+  }
+  return Object.keys(params).length > 0 ? params : undefined;
+}
@@ -2,7 +2,7 @@
  * SDK Constants and Configuration Values
  * 
  * @author LanOnasis (Seye Derick)
- * @version 1.2.0
+ * @version 1.3.0
  */
 
 /**
@@ -15,18 +15,31 @@ export const DEFAULT_API_URL = 'https://api.lanonasis.com';
  */
 export const DEFAULT_TIMEOUT = 30000;
 
+/**
+ * Project scope sent as `X-Project-Scope`; the API rejects requests without it
+ */
+export const PROJECT_SCOPE = 'lanonasis-maas';
+
 /**
  * Supported memory types
  */
 export const SUPPORTED_MEMORY_TYPES = [
   'context',
-  'code_snippet',
-  'document',
-  'conversation',
-  'note',
-  'bookmark',
-  'task',
-  'idea'
+  'project',
+  'knowledge',
+  'reference',
+  'personal',
+  'workflow'
+] as const;
+
+/**
+ * Supported memory lifecycle states
+ */
+export const SUPPORTED_MEMORY_STATES = [
+  'active',
+  'paused',
+  'archived',
+  'deleted'
 ] as const;
 
 /**
@@ -34,11 +47,12 @@ export const SUPPORTED_MEMORY_TYPES = [
  */
 export const SUPPORTED_KEY_TYPES = [
   'api_key',
+  'database_url',
   'oauth_token',
-  'jwt_token',
+  'certificate',
+  'ssh_key',
   'webhook_secret',
-  'database_url',
-  'custom'
+  'encryption_key'
 ] as const;
 
 /**
@@ -68,7 +82,7 @@ export const API_VERSION = 'v1';
 /**
  * SDK version
  */
-export const SDK_VERSION = '1.2.0';
+export const SDK_VERSION = '1.3.0';
 
 /**
  * Default pagination limits
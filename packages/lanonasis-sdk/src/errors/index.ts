@@ -120,3 +120,56 @@ export class ServerError extends LanonasisError {
   }
 }
 
+
+/**
+ * Pull a message out of the API's error bodies: `{ error, message }`,
+ * `{ error: { message } }` or a bare `{ error }`
+ */
+function extractErrorMessage(data: unknown): string | undefined {
+  if (typeof data === 'string') return data || undefined;
+  if (!data || typeof data !== 'object') return undefined;
+
+  const body = data as { message?: unknown; error?: unknown };
+  if (typeof body.message === 'string') return body.message;
+  if (typeof body.error === 'string') return body.error;
+  if (body.error && typeof body.error === 'object') {
+    const nested = (body.error as { message?: unknown }).message;
+    if (typeof nested === 'string') return nested;
+  }
+  return undefined;
+}
+
+/**
+ * Map an HTTP error response to the matching SDK error class
+ */
+export function createErrorFromResponse(
+  status: number,
+  data: unknown,
+  retryAfterHeader?: string
+): LanonasisError {
+  const message = extractErrorMessage(data);
+  const details = data && typeof data === 'object' ? data as Record<string, any> : undefined;
+
+  switch (status) {
+    case 400:
+    case 422:
+      return new ValidationError(message, details);
+    case 401:
+      return new AuthenticationError(message, details);
+    case 403:
+      return new PermissionError(message, details);
+    case 404:
+      return new NotFoundError(message, details);
+    case 409:
+      return new LanonasisError(message || 'Conflict', status, 'CONFLICT', details);
+    case 429: {
+      const retryAfter = retryAfterHeader ? parseInt(retryAfterHeader, 10) : undefined;
+      return new RateLimitError(message, Number.isNaN(retryAfter) ? undefined : retryAfter, details);
+    }
+    default:
+      if (status >= 500) {
+        return new ServerError(message, details);
+      }
+      return new LanonasisError(message || 'API request failed', status, undefined, details);
+  }
+}
@@ -10,25 +10,86 @@
 
 // Core clients
 export { LanonasisClient } from './client/LanonasisClient.js';
-export { MemoryClient } from './memory/MemoryClient.js';
+export { MemoryClient, TopicClient } from './memory/MemoryClient.js';
 export { ApiKeyClient } from './api-keys/ApiKeyClient.js';
 export { MCPClient } from './mcp/MCPClient.js';
+export { IntelligenceClient, ProfileClient } from './intelligence/IntelligenceClient.js';
+
+// Route table
+export { API_ROUTES, resolvePath } from './routes.js';
+export type { ApiRoute, HttpMethod } from './routes.js';
 
 // Memory types and interfaces
 export type {
   Memory,
   MemoryType,
+  MemoryState,
+  MemoryLifecycleAction,
+  SearchMode,
   CreateMemoryRequest,
   UpdateMemoryRequest,
+  ListMemoriesOptions,
+  MemoryListResponse,
+  TrashListResponse,
   SearchMemoryRequest,
   SearchMemoryResponse,
   MemorySearchResult,
+  BuildContextRequest,
+  ContextBlock,
+  ContextCitation,
+  ContextFormat,
+  ContextTokenizer,
+  ImportMemoryLine,
+  MemoryImportResult,
+  ExportMemoriesOptions,
+  MemoryExportRecord,
+  MemoryTransitionRequest,
+  MemoryStateTransition,
+  MemoryTransitionsResponse,
+  BulkMemoryStateRequest,
+  BulkMemoryStateResult,
+  BulkDeleteResult,
+  MemoryVersion,
+  MemoryVersionsResponse,
+  MemoryVersionDiff,
+  AccessRule,
+  AccessPermission,
+  AccessPrincipalType,
+  GrantAccessRequest,
+  AccessAuditEntry,
+  PageOptions,
   Topic,
+  TopicTreeNode,
   CreateTopicRequest,
   UpdateTopicRequest,
-  UsageAnalytics
+  ListTopicsOptions,
+  DeleteTopicOptions,
+  DeleteTopicResult,
+  TopicMemoriesResponse,
+  MemoryStats
 } from './memory/types.js';
 
+// Intelligence and profile types
+export type {
+  ConclusionType,
+  InferredConclusion,
+  ReasoningJob,
+  ListConclusionsOptions,
+  FlushResult,
+  ContradictionGroup,
+  ContradictionResolution,
+  ContradictionResolutionResult,
+  MemoryProfile,
+  ProfileField,
+  ProfileStructuredFields,
+  ProfileFieldEvidence,
+  ProfileFieldEvidenceEntry,
+  ProfileVersion,
+  UpdateProfileRequest,
+  UpdateProfilePinsRequest,
+  ProfileAnswer
+} from './intelligence/types.js';
+
 // API Key types and interfaces
 export type {
   ApiKey,
@@ -36,17 +97,21 @@ export type {
   CreateApiKeyRequest,
   UpdateApiKeyRequest,
   CreateProjectRequest,
-  UpdateProjectRequest,
   KeyType,
   Environment,
   AccessLevel,
   KeyStatus,
+  RiskLevel,
   MCPTool,
   CreateMCPToolRequest,
   MCPAccessRequest,
+  MCPAccessRequestResult,
   MCPSession,
+  MCPSessionEnd,
   ProxyToken,
+  ResolvedProxyToken,
   SecurityEvent,
+  SecurityEventType,
   KeyUsageAnalytics
 } from './api-keys/types.js';
 
@@ -80,7 +145,8 @@ export {
   NotFoundError,
   PermissionError,
   RateLimitError,
-  ServerError
+  ServerError,
+  createErrorFromResponse
 } from './errors/index.js';
 
 // Utility functions
@@ -97,7 +163,10 @@ export {
 export {
   DEFAULT_API_URL,
   DEFAULT_TIMEOUT,
+  PROJECT_SCOPE,
+  SDK_VERSION,
   SUPPORTED_MEMORY_TYPES,
+  SUPPORTED_MEMORY_STATES,
   SUPPORTED_KEY_TYPES,
   SUPPORTED_ENVIRONMENTS,
   MAX_MEMORY_SIZE,
@@ -140,7 +209,7 @@ export type {
  * const memory = await client.memory.create({
  *   title: 'Important Note',
  *   content: 'This is a test memory',
- *   type: 'context'
+ *   memory_type: 'context'
  * });
  * 
  * // API Key operations
@@ -148,14 +217,18 @@ export type {
  *   name: 'stripe_api_key',
  *   value: 'sk_live_...',
  *   keyType: 'api_key',
- *   environment: 'production'
+ *   environment: 'production',
+ *   projectId: 'your-project-id'
  * });
  * 
  * // MCP operations
  * const session = await client.mcp.requestAccess({
  *   toolId: 'payment-processor',
+ *   organizationId: 'your-org-id',
  *   keyNames: ['stripe_api_key'],
- *   justification: 'Processing customer payment'
+ *   environment: 'production',
+ *   justification: 'Processing customer payment',
+ *   estimatedDuration: 900
  * });
  * ```
  */
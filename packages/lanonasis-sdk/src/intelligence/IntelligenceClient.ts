@@ -0,0 +1,146 @@
+/**
+ * Intelligence Client - inferred conclusions, reasoning jobs and memory profiles
+ */
+
+import type { AxiosInstance } from 'axios';
+import type { LanonasisClientConfig } from '../client/LanonasisClient.js';
+import { requestRoute } from '../client/request.js';
+import { API_ROUTES } from '../routes.js';
+import type {
+  ContradictionGroup,
+  ContradictionResolution,
+  ContradictionResolutionResult,
+  FlushResult,
+  InferredConclusion,
+  ListConclusionsOptions,
+  MemoryProfile,
+  ProfileAnswer,
+  ProfileField,
+  ProfileFieldEvidenceEntry,
+  ProfileVersion,
+  ReasoningJob,
+  UpdateProfilePinsRequest,
+  UpdateProfileRequest
+} from './types.js';
+
+const routes = API_ROUTES.intelligence;
+
+/**
+ * Profile operations, exposed as `client.intelligence.profiles`
+ */
+export class ProfileClient {
+  private httpClient: AxiosInstance;
+
+  constructor(httpClient: AxiosInstance) {
+    this.httpClient = httpClient;
+  }
+
+  async get(subjectId: string): Promise<MemoryProfile> {
+    const result = await requestRoute<{ profile: MemoryProfile }>(this.httpClient, API_ROUTES.profiles.get, {
+      params: { subject_id: subjectId }
+    });
+    return result.profile;
+  }
+
+  async versions(subjectId: string, options: { limit?: number } = {}): Promise<ProfileVersion[]> {
+    const result = await requestRoute<{ versions: ProfileVersion[] }>(this.httpClient, API_ROUTES.profiles.versions, {
+      params: { subject_id: subjectId },
+      query: options
+    });
+    return result.versions;
+  }
+
+  /**
+   * Edit the summary or field items. Edited fields are pinned unless
+   * `pin_edited_fields` is false.
+   */
+  async update(subjectId: string, data: UpdateProfileRequest): Promise<MemoryProfile> {
+    const result = await requestRoute<{ profile: MemoryProfile }>(this.httpClient, API_ROUTES.profiles.update, {
+      params: { subject_id: subjectId },
+      data
+    });
+    return result.profile;
+  }
+
+  async setPins(subjectId: string, data: UpdateProfilePinsRequest): Promise<MemoryProfile> {
+    const result = await requestRoute<{ profile: MemoryProfile }>(this.httpClient, API_ROUTES.profiles.pins, {
+      params: { subject_id: subjectId },
+      data
+    });
+    return result.profile;
+  }
+
+  async evidence(subjectId: string, field?: ProfileField): Promise<ProfileFieldEvidenceEntry[]> {
+    const result = await requestRoute<{ evidence: ProfileFieldEvidenceEntry[] }>(
+      this.httpClient,
+      API_ROUTES.profiles.evidence,
+      { params: { subject_id: subjectId }, query: { field } }
+    );
+    return result.evidence;
+  }
+
+  /**
+   * Answer a question from the profile, with the sources it drew on
+   */
+  async ask(subjectId: string, question: string): Promise<ProfileAnswer> {
+    return requestRoute(this.httpClient, API_ROUTES.profiles.ask, {
+      params: { subject_id: subjectId },
+      data: { question }
+    });
+  }
+}
+
+/**
+ * Reasoning operations, exposed as `client.intelligence`
+ */
+export class IntelligenceClient {
+  private httpClient: AxiosInstance;
+  private config: LanonasisClientConfig;
+
+  public readonly profiles: ProfileClient;
+
+  constructor(httpClient: AxiosInstance, config: LanonasisClientConfig) {
+    this.httpClient = httpClient;
+    this.config = config;
+    this.profiles = new ProfileClient(httpClient);
+  }
+
+  async conclusions(subjectId: string, options: ListConclusionsOptions = {}): Promise<InferredConclusion[]> {
+    const result = await requestRoute<{ conclusions: InferredConclusion[] }>(this.httpClient, routes.conclusions, {
+      query: { subject_id: subjectId, ...options }
+    });
+    return result.conclusions;
+  }
+
+  async getJob(jobId: string): Promise<ReasoningJob> {
+    const result = await requestRoute<{ job: ReasoningJob }>(this.httpClient, routes.job, {
+      params: { id: jobId }
+    });
+    return result.job;
+  }
+
+  /**
+   * Reason over pending memories now instead of waiting for the token threshold
+   */
+  async flush(subjectId: string): Promise<FlushResult> {
+    return requestRoute(this.httpClient, routes.flush, { data: { subject_id: subjectId } });
+  }
+
+  async contradictions(subjectId: string, options: { limit?: number } = {}): Promise<ContradictionGroup[]> {
+    const result = await requestRoute<{ groups: ContradictionGroup[] }>(this.httpClient, routes.contradictions, {
+      query: { subject_id: subjectId, ...options }
+    });
+    return result.groups;
+  }
+
+  async resolveContradiction(
+    subjectId: string,
+    groupId: string,
+    resolution: ContradictionResolution
+  ): Promise<ContradictionResolutionResult> {
+    return requestRoute(this.httpClient, routes.resolveContradiction, {
+      params: { groupId },
+      data: { subject_id: subjectId, ...resolution }
+    });
+  }
+}
@@ -0,0 +1,6 @@
+/**
+ * Intelligence module - `@lanonasis/sdk/intelligence`
+ */
+
+export { IntelligenceClient, ProfileClient } from './IntelligenceClient.js';
+export type * from './types.js';
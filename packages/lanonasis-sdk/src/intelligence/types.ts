@@ -0,0 +1,133 @@
+/**
+ * Intelligence (reasoning) and memory profile types
+ */
+
+export type ConclusionType = 'explicit' | 'deductive' | 'inductive' | 'abductive';
+
+export type ProfileField = 'preferences' | 'goals' | 'constraints' | 'tendencies' | 'facts';
+
+export type ProfileStructuredFields = Record<ProfileField, string[]>;
+
+export interface InferredConclusion {
+  id: string;
+  subject_id: string;
+  organization_id: string | null;
+  conclusion_type: ConclusionType;
+  content: string;
+  confidence: number;
+  evidence_memory_ids: string[];
+  scope: string | null;
+  freshness: string;
+  superseded_by: string | null;
+  contradiction_group_id: string | null;
+  created_at: string;
+  source_job_id: string | null;
+  /** Set once a person resolved a contradiction involving this conclusion */
+  resolution_id: string | null;
+  /** Profile field the conclusion feeds, if any */
+  profile_field: ProfileField | null;
+}
+
+export interface ReasoningJob {
+  id: string;
+  subject_id: string;
+  organization_id: string | null;
+  source_memory_ids: string[];
+  status: 'pending' | 'running' | 'completed' | 'failed';
+  source_event: 'memory.create' | 'memory.update' | 'manual.flush' | 'reprocess';
+  pending_token_count: number;
+  created_at: string;
+  started_at: string | null;
+  completed_at: string | null;
+  error: string | null;
+}
+
+export interface ListConclusionsOptions {
+  limit?: number;
+  include_superseded?: boolean;
+}
+
+export interface FlushResult {
+  flushed: boolean;
+  job_ids: string[];
+  conclusion_count: number;
+}
+
+export interface ContradictionGroup {
+  contradiction_group_id: string;
+  conclusions: InferredConclusion[];
+}
+
+/**
+ * Keep one conclusion and supersede the rest, or keep all of them, each
+ * limited to a scope (keyed by conclusion id)
+ */
+export type ContradictionResolution =
+  | { action: 'accept'; winner_id: string; note?: string }
+  | { action: 'scope'; scopes: Record<string, string>; note?: string };
+
+export interface ContradictionResolutionResult {
+  resolution_id: string;
+  conclusions: InferredConclusion[];
+}
+
+/** Where a profile field's current items came from */
+export interface ProfileFieldEvidence {
+  source: 'reasoning' | 'manual';
+  conclusion_ids: string[];
+  memory_ids: string[];
+  updated_at: string;
+  updated_by: string | null;
+}
+
+export interface MemoryProfile {
+  subject_id: string;
+  organization_id: string | null;
+  profile_summary: string | null;
+  structured_fields: ProfileStructuredFields;
+  last_reasoned_at: string | null;
+  freshness: string;
+  confidence_by_field: Record<string, number>;
+  head_version_id: string | null;
+  /** Fields reasoning never rewrites */
+  pinned_fields: ProfileField[];
+  field_evidence: Partial<Record<ProfileField, ProfileFieldEvidence>>;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface ProfileVersion {
+  id: string;
+  profile_id: string;
+  diff: Record<string, unknown>;
+  source_job_id: string | null;
+  edited_by: string | null;
+  created_at: string;
+}
+
+export interface UpdateProfileRequest {
+  profile_summary?: string | null;
+  structured_fields?: Partial<ProfileStructuredFields>;
+  /** Pin every field whose items are edited (default true) */
+  pin_edited_fields?: boolean;
+  /** Reject the edit with 409 if the profile moved on since this version */
+  expected_head_version_id?: string | null;
+}
+
+export interface UpdateProfilePinsRequest {
+  pin?: ProfileField[];
+  unpin?: ProfileField[];
+  expected_head_version_id?: string | null;
+}
+
+export interface ProfileFieldEvidenceEntry extends ProfileFieldEvidence {
+  field: ProfileField;
+  pinned: boolean;
+  conclusions: InferredConclusion[];
+}
+
+export interface ProfileAnswer {
+  answer: string;
+  sources: string[];
+  confidence: number;
+}
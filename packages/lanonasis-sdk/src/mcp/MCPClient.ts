@@ -1,9 +1,26 @@
 /**
  * MCP (Model Context Protocol) Client
+ *
+ * Tool registration, access requests, sessions and proxy tokens that let an
+ * AI agent use a stored key without ever seeing its value.
  */
 
 import type { AxiosInstance } from 'axios';
 import type { LanonasisClientConfig } from '../client/LanonasisClient.js';
+import { requestRoute } from '../client/request.js';
+import { API_ROUTES } from '../routes.js';
+import type {
+  CreateMCPToolRequest,
+  MCPAccessRequest,
+  MCPAccessRequestResult,
+  MCPSession,
+  MCPSessionEnd,
+  MCPTool,
+  ProxyToken,
+  ResolvedProxyToken
+} from '../api-keys/types.js';
+
+const routes = API_ROUTES.mcp;
 
 export class MCPClient {
   private httpClient: AxiosInstance;
@@ -14,20 +31,42 @@ export class MCPClient {
     this.config = config;
   }
 
-  // Placeholder methods
-  async requestAccess(data: any): Promise<any> {
-    const response = await this.httpClient.post('/api/v1/mcp/request-access', data);
-    return response.data;
+  async registerTool(data: CreateMCPToolRequest): Promise<MCPTool> {
+    return requestRoute(this.httpClient, routes.registerTool, { data });
   }
 
-  async getSession(sessionId: string): Promise<any> {
-    const response = await this.httpClient.get(`/api/v1/mcp/sessions/${sessionId}`);
-    return response.data;
+  async listTools(): Promise<MCPTool[]> {
+    return requestRoute(this.httpClient, routes.listTools);
   }
 
-  async listTools(): Promise<any[]> {
-    const response = await this.httpClient.get('/api/v1/mcp/tools');
-    return response.data;
+  /**
+   * Ask for access to named keys. Auto-approved tools get a session at once,
+   * returned as `sessionId`.
+   */
+  async requestAccess(data: MCPAccessRequest): Promise<MCPAccessRequestResult> {
+    return requestRoute(this.httpClient, routes.requestAccess, { data });
+  }
+
+  async getSession(sessionId: string): Promise<MCPSession> {
+    return requestRoute(this.httpClient, routes.sessionStatus, { params: { sessionId } });
+  }
+
+  /**
+   * End a session and revoke its proxy tokens
+   */
+  async endSession(sessionId: string): Promise<MCPSessionEnd> {
+    return requestRoute(this.httpClient, routes.endSession, { params: { sessionId } });
+  }
+
+  async createProxyToken(sessionId: string, keyName: string): Promise<ProxyToken> {
+    return requestRoute(this.httpClient, routes.createProxyToken, { params: { sessionId, keyName } });
   }
-}
 
+  /**
+   * Exchange a proxy token for the key value. Only call this from the
+   * process that makes the upstream request.
+   */
+  async resolveProxyToken(proxyToken: string): Promise<ResolvedProxyToken> {
+    return requestRoute(this.httpClient, routes.resolveProxyToken, { params: { proxyToken } });
+  }
+}
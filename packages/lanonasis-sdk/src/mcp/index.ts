@@ -0,0 +1,16 @@
+/**
+ * MCP module - `@lanonasis/sdk/mcp`
+ */
+
+export { MCPClient } from './MCPClient.js';
+export type * from './types.js';
+export type {
+  CreateMCPToolRequest,
+  MCPAccessRequest,
+  MCPAccessRequestResult,
+  MCPSession,
+  MCPSessionEnd,
+  MCPTool,
+  ProxyToken,
+  ResolvedProxyToken
+} from '../api-keys/types.js';
@@ -1,29 +1,299 @@
 /**
- * Memory Client - Wrapper for @lanonasis/memory-client
- * This is a compatibility layer that re-exports or wraps the memory client
+ * Memory Client - memories, lifecycle, versions, access rules and topics
  */
 
 import type { AxiosInstance } from 'axios';
 import type { LanonasisClientConfig } from '../client/LanonasisClient.js';
+import { requestRoute } from '../client/request.js';
+import { ValidationError } from '../errors/index.js';
+import { API_ROUTES } from '../routes.js';
+import { MAX_BATCH_SIZE } from '../constants.js';
+import type {
+  AccessAuditEntry,
+  AccessRule,
+  BuildContextRequest,
+  BulkDeleteResult,
+  BulkMemoryStateRequest,
+  BulkMemoryStateResult,
+  ContextBlock,
+  CreateMemoryRequest,
+  CreateTopicRequest,
+  DeleteTopicOptions,
+  DeleteTopicResult,
+  ExportMemoriesOptions,
+  GrantAccessRequest,
+  ImportMemoryLine,
+  ListMemoriesOptions,
+  ListTopicsOptions,
+  Memory,
+  MemoryExportRecord,
+  MemoryImportResult,
+  MemoryListResponse,
+  MemoryStats,
+  MemoryTransitionRequest,
+  MemoryTransitionsResponse,
+  MemoryVersion,
+  MemoryVersionDiff,
+  MemoryVersionsResponse,
+  PageOptions,
+  SearchMemoryRequest,
+  SearchMemoryResponse,
+  Topic,
+  TopicMemoriesResponse,
+  TopicTreeNode,
+  TrashListResponse,
+  UpdateMemoryRequest,
+  UpdateTopicRequest
+} from './types.js';
 
-// For now, create a minimal interface that matches expected usage
-// In production, this should import from @lanonasis/memory-client
+const routes = API_ROUTES.memories;
+
+/**
+ * Topic operations, exposed as `client.memory.topics`
+ */
+export class TopicClient {
+  private httpClient: AxiosInstance;
+
+  constructor(httpClient: AxiosInstance) {
+    this.httpClient = httpClient;
+  }
+
+  async list(options: ListTopicsOptions = {}): Promise<Topic[]> {
+    return requestRoute(this.httpClient, API_ROUTES.topics.list, { query: options });
+  }
+
+  /**
+   * All topics as a tree with per-topic memory counts
+   */
+  async tree(): Promise<TopicTreeNode[]> {
+    return requestRoute(this.httpClient, API_ROUTES.topics.list, {
+      query: { include_hierarchy: true }
+    });
+  }
+
+  async create(data: CreateTopicRequest): Promise<Topic> {
+    return requestRoute(this.httpClient, API_ROUTES.topics.create, { data });
+  }
+
+  async get(id: string): Promise<Topic> {
+    return requestRoute(this.httpClient, API_ROUTES.topics.get, { params: { id } });
+  }
+
+  async update(id: string, data: UpdateTopicRequest): Promise<Topic> {
+    return requestRoute(this.httpClient, API_ROUTES.topics.update, { params: { id }, data });
+  }
+
+  /**
+   * Delete a topic, detaching its memories or moving them to another topic
+   */
+  async delete(id: string, options: DeleteTopicOptions = {}): Promise<DeleteTopicResult> {
+    if (options.memories === 'move' && !options.target_topic_id) {
+      throw new ValidationError('target_topic_id is required when memories is "move"');
+    }
+    return requestRoute(this.httpClient, API_ROUTES.topics.delete, { params: { id }, query: options });
+  }
+
+  async memories(id: string, options: PageOptions = {}): Promise<TopicMemoriesResponse> {
+    return requestRoute(this.httpClient, API_ROUTES.topics.memories, { params: { id }, query: options });
+  }
+
+  async listAccess(id: string): Promise<AccessRule[]> {
+    const result = await requestRoute<{ topic_id: string; rules: AccessRule[] }>(
+      this.httpClient,
+      API_ROUTES.topics.listAccess,
+      { params: { id } }
+    );
+    return result.rules;
+  }
+
+  async grantAccess(id: string, data: GrantAccessRequest): Promise<AccessRule> {
+    return requestRoute(this.httpClient, API_ROUTES.topics.grantAccess, { params: { id }, data });
+  }
+
+  async revokeAccess(id: string, ruleId: string): Promise<void> {
+    await requestRoute(this.httpClient, API_ROUTES.topics.revokeAccess, { params: { id, ruleId } });
+  }
+}
+
+/**
+ * Memory operations, exposed as `client.memory`
+ *
+ * @example
+ * ```typescript
+ * const memory = await client.memory.create({ title: 'Standup', content: '...', memory_type: 'project' });
+ * const { results } = await client.memory.search({ query: 'standup notes', mode: 'hybrid' });
+ * await client.memory.archive(memory.id, { reason: 'Sprint closed' });
+ * ```
+ */
 export class MemoryClient {
   private httpClient: AxiosInstance;
   private config: LanonasisClientConfig;
 
+  public readonly topics: TopicClient;
+
   constructor(httpClient: AxiosInstance, config: LanonasisClientConfig) {
     this.httpClient = httpClient;
     this.config = config;
+    this.topics = new TopicClient(httpClient);
   }
 
-  // Placeholder methods - these should delegate to actual memory client
-  async search(query: string, options?: any): Promise<any> {
-    throw new Error('MemoryClient methods not yet implemented. Use @lanonasis/memory-client directly.');
+  async create(data: CreateMemoryRequest): Promise<Memory> {
+    return requestRoute(this.httpClient, routes.create, { data });
   }
 
-  async create(data: any): Promise<any> {
-    throw new Error('MemoryClient methods not yet implemented. Use @lanonasis/memory-client directly.');
+  async list(options: ListMemoriesOptions = {}): Promise<MemoryListResponse> {
+    return requestRoute(this.httpClient, routes.list, { query: options });
+  }
+
+  /**
+   * Search memories; a plain string runs a default vector search
+   */
+  async search(request: string | SearchMemoryRequest): Promise<SearchMemoryResponse> {
+    const data = typeof request === 'string' ? { query: request } : request;
+    return requestRoute(this.httpClient, routes.search, { data });
+  }
+
+  /**
+   * Build a token-budgeted, cited context block for a prompt
+   */
+  async buildContext(request: BuildContextRequest): Promise<ContextBlock> {
+    return requestRoute(this.httpClient, routes.context, { data: request });
+  }
+
+  async get(id: string): Promise<Memory> {
+    return requestRoute(this.httpClient, routes.get, { params: { id } });
+  }
+
+  async update(id: string, data: UpdateMemoryRequest): Promise<Memory> {
+    return requestRoute(this.httpClient, routes.update, { params: { id }, data });
+  }
+
+  /**
+   * Move a memory to the trash, or remove it for good with `permanent`
+   */
+  async delete(id: string, options: { permanent?: boolean } = {}): Promise<void> {
+    await requestRoute(this.httpClient, routes.delete, { params: { id }, query: options });
   }
-}
 
+  async trash(options: { page?: number; limit?: number } = {}): Promise<TrashListResponse> {
+    return requestRoute(this.httpClient, routes.trash, { query: options });
+  }
+
+  /**
+   * Organization-wide memory statistics (admin role required)
+   */
+  async stats(): Promise<MemoryStats> {
+    return requestRoute(this.httpClient, routes.stats);
+  }
+
+  async archive(id: string, request: MemoryTransitionRequest = {}): Promise<Memory> {
+    return requestRoute(this.httpClient, routes.archive, { params: { id }, data: request });
+  }
+
+  async pause(id: string, request: MemoryTransitionRequest = {}): Promise<Memory> {
+    return requestRoute(this.httpClient, routes.pause, { params: { id }, data: request });
+  }
+
+  async resume(id: string, request: MemoryTransitionRequest = {}): Promise<Memory> {
+    return requestRoute(this.httpClient, routes.resume, { params: { id }, data: request });
+  }
+
+  /**
+   * Bring an archived or trashed memory back to active
+   */
+  async restore(id: string, request: MemoryTransitionRequest = {}): Promise<Memory> {
+    return requestRoute(this.httpClient, routes.restore, { params: { id }, data: request });
+  }
+
+  async transitions(id: string, options: PageOptions = {}): Promise<MemoryTransitionsResponse> {
+    return requestRoute(this.httpClient, routes.transitions, { params: { id }, query: options });
+  }
+
+  async bulkTransition(request: BulkMemoryStateRequest): Promise<BulkMemoryStateResult> {
+    this.assertBatchSize(request.memory_ids);
+    return requestRoute(this.httpClient, routes.bulkState, { data: request });
+  }
+
+  async bulkDelete(memoryIds: string[], options: { permanent?: boolean } = {}): Promise<BulkDeleteResult> {
+    this.assertBatchSize(memoryIds);
+    return requestRoute(this.httpClient, routes.bulkDelete, {
+      data: { memory_ids: memoryIds, ...options }
+    });
+  }
+
+  async versions(id: string, options: PageOptions = {}): Promise<MemoryVersionsResponse> {
+    return requestRoute(this.httpClient, routes.versions, { params: { id }, query: options });
+  }
+
+  async getVersion(id: string, version: number): Promise<MemoryVersion> {
+    return requestRoute(this.httpClient, routes.version, { params: { id, version } });
+  }
+
+  /**
+   * Diff two versions; without `to` the diff runs against the current memory
+   */
+  async diff(id: string, from: number, to?: number): Promise<MemoryVersionDiff> {
+    return requestRoute(this.httpClient, routes.diff, { params: { id }, query: { from, to } });
+  }
+
+  async restoreVersion(id: string, version: number): Promise<Memory> {
+    return requestRoute(this.httpClient, routes.restoreVersion, { params: { id, version } });
+  }
+
+  async listAccess(id: string): Promise<AccessRule[]> {
+    const result = await requestRoute<{ memory_id: string; rules: AccessRule[] }>(
+      this.httpClient,
+      routes.listAccess,
+      { params: { id } }
+    );
+    return result.rules;
+  }
+
+  async grantAccess(id: string, data: GrantAccessRequest): Promise<AccessRule> {
+    return requestRoute(this.httpClient, routes.grantAccess, { params: { id }, data });
+  }
+
+  async revokeAccess(id: string, ruleId: string): Promise<void> {
+    await requestRoute(this.httpClient, routes.revokeAccess, { params: { id, ruleId } });
+  }
+
+  async accessAudit(id: string, options: PageOptions = {}): Promise<{ entries: AccessAuditEntry[]; total: number }> {
+    return requestRoute(this.httpClient, routes.accessAudit, { params: { id }, query: options });
+  }
+
+  /**
+   * Import memories from records or a ready-made NDJSON string. Lines are
+   * validated independently; check `failed` and `results` for rejects.
+   */
+  async import(records: ImportMemoryLine[] | string): Promise<MemoryImportResult> {
+    const body = typeof records === 'string'
+      ? records
+      : records.map((record) => JSON.stringify(record)).join('\n');
+
+    return requestRoute(this.httpClient, routes.import, {
+      data: body,
+      headers: { 'Content-Type': 'application/x-ndjson' }
+    });
+  }
+
+  /**
+   * Export memories, oldest first. Each record is a valid import line.
+   */
+  async export(options: ExportMemoriesOptions = {}): Promise<MemoryExportRecord[]> {
+    const body = await requestRoute<string>(this.httpClient, routes.export, {
+      query: { ...options, format: 'ndjson' },
+      responseType: 'text'
+    });
+
+    return body
+      .split('\n')
+      .filter((line) => line.trim().length > 0)
+      .map((line) => JSON.parse(line) as MemoryExportRecord);
+  }
+
+  private assertBatchSize(memoryIds: string[]): void {
+    if (memoryIds.length === 0 || memoryIds.length > MAX_BATCH_SIZE) {
+      throw new ValidationError(`memory_ids must contain between 1 and ${MAX_BATCH_SIZE} ids`);
+    }
+  }
+}
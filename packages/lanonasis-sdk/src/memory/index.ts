@@ -0,0 +1,6 @@
+/**
+ * Memory module - `@lanonasis/sdk/memory`
+ */
+
+export { MemoryClient, TopicClient } from './MemoryClient.js';
+export type * from './types.js';
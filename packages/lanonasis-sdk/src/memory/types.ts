@@ -2,42 +2,52 @@
  * Memory types and interfaces
  */
 
-export interface Memory {
-  id: string;
-  title: string;
-  content: string;
-  type: MemoryType;
-  tags?: string[];
-  metadata?: Record<string, any>;
-  topic_id?: string;
-  topic_key?: string;
-  user_id?: string;
-  organization_id?: string;
-  created_at?: string;
-  updated_at?: string;
-}
-
-export type MemoryType = 
+export type MemoryType =
   | 'context'
-  | 'code_snippet'
-  | 'document'
-  | 'conversation'
-  | 'note'
-  | 'bookmark'
-  | 'task'
-  | 'idea'
   | 'project'
   | 'knowledge'
   | 'reference'
   | 'personal'
   | 'workflow';
 
+export type MemoryState = 'active' | 'paused' | 'archived' | 'deleted';
+
+export type MemoryLifecycleAction = 'archive' | 'pause' | 'resume' | 'restore' | 'delete';
+
+export type SearchMode = 'vector' | 'lexical' | 'hybrid';
+
+export interface Memory {
+  id: string;
+  title: string;
+  content: string;
+  memory_type: MemoryType;
+  tags: string[];
+  topic_id?: string | null;
+  topic_key?: string | null;
+  user_id: string;
+  organization_id: string;
+  metadata?: Record<string, unknown>;
+  state?: MemoryState;
+  paused_at?: string | null;
+  archived_at?: string | null;
+  deleted_at?: string | null;
+  purge_after?: string | null;
+  created_at: string;
+  updated_at: string;
+  last_accessed?: string;
+  access_count: number;
+  embedding_provider?: string | null;
+  embedding_model?: string | null;
+  embedding_dimensions?: number | null;
+}
+
 export interface CreateMemoryRequest {
   title: string;
   content: string;
-  type: MemoryType;
+  /** Defaults to `context` */
+  memory_type?: MemoryType;
   tags?: string[];
-  metadata?: Record<string, any>;
+  metadata?: Record<string, unknown>;
   topic_id?: string;
   topic_key?: string;
 }
@@ -45,62 +55,364 @@ export interface CreateMemoryRequest {
 export interface UpdateMemoryRequest {
   title?: string;
   content?: string;
-  type?: MemoryType;
+  memory_type?: MemoryType;
   tags?: string[];
-  metadata?: Record<string, any>;
-  topic_id?: string;
+  metadata?: Record<string, unknown>;
+  /** `null` detaches the memory from its topic */
+  topic_id?: string | null;
+  topic_key?: string;
+}
+
+export interface ListMemoriesOptions {
+  page?: number;
+  limit?: number;
+  memory_type?: MemoryType;
+  user_id?: string;
+  tags?: string[];
+  sort?: 'created_at' | 'updated_at' | 'last_accessed' | 'access_count' | 'title';
+  order?: 'asc' | 'desc';
+  /** States to include, or `all`; defaults to active memories */
+  state?: MemoryState[] | 'all';
+  include_deleted?: boolean;
+}
+
+export interface MemoryListResponse {
+  memories: Memory[];
+  pagination: {
+    page: number;
+    limit: number;
+    total: number;
+    pages: number;
+  };
+}
+
+export interface TrashListResponse extends MemoryListResponse {
+  retention_days: number;
 }
 
 export interface SearchMemoryRequest {
   query: string;
-  type?: MemoryType | MemoryType[];
+  memory_types?: MemoryType[];
   tags?: string[];
   topic_id?: string;
   topic_key?: string;
   limit?: number;
   threshold?: number;
-  response_mode?: 'full' | 'compact' | 'timeline';
+  mode?: SearchMode;
+  states?: MemoryState[];
   include_deleted?: boolean;
+  response_mode?: 'full' | 'compact' | 'timeline';
+}
+
+export interface MemorySearchResult extends Memory {
+  relevance_score: number;
+  vector_score?: number;
+  lexical_score?: number;
+  /** Raw reciprocal-rank fusion score (hybrid mode only) */
+  fused_score?: number;
 }
 
 export interface SearchMemoryResponse {
   results: MemorySearchResult[];
-  total: number;
   query: string;
+  mode: SearchMode;
+  total_results: number;
+  search_time_ms: number;
 }
 
-export interface MemorySearchResult extends Memory {
-  similarity?: number;
-  score?: number;
+export type ContextTokenizer = 'cl100k' | 'o200k' | 'claude' | 'llama' | 'generic';
+
+export type ContextFormat = 'markdown' | 'xml' | 'plain';
+
+export interface BuildContextRequest {
+  query: string;
+  max_tokens?: number;
+  tokenizer?: ContextTokenizer;
+  format?: ContextFormat;
+  memory_types?: MemoryType[];
+  tags?: string[];
+  topic_id?: string;
+  mode?: SearchMode;
+  threshold?: number;
+  /** Search results considered before packing the budget */
+  candidates?: number;
+}
+
+export interface ContextCitation {
+  index: number;
+  memory_id: string;
+  title: string;
+  memory_type: string;
+  relevance_score: number;
+  tokens: number;
+  truncated: boolean;
+  redactions: number;
+}
+
+export interface ContextBlock {
+  context: string;
+  citations: ContextCitation[];
+  tokens_used: number;
+  max_tokens: number;
+  tokenizer: ContextTokenizer;
+  format: ContextFormat;
+  dropped: {
+    duplicates: number;
+    injection: number;
+    over_budget: number;
+  };
+  query: string;
+  candidates_considered: number;
+  build_time_ms: number;
+}
+
+/** One NDJSON line accepted by the import endpoint */
+export interface ImportMemoryLine extends CreateMemoryRequest {
+  embedding?: number[];
+}
+
+export interface ImportLineResult {
+  /** 1-based line number in the request body */
+  line: number;
+  status: 'created' | 'error';
+  id?: string;
+  error?: string;
+}
+
+export interface MemoryImportResult {
+  total: number;
+  imported: number;
+  failed: number;
+  results: ImportLineResult[];
+}
+
+export interface ExportMemoriesOptions {
+  memory_type?: MemoryType;
+  tags?: string[];
+  topic_id?: string;
+  user_id?: string;
+  created_after?: string;
+  created_before?: string;
+  include_embeddings?: boolean;
+}
+
+export interface MemoryExportRecord {
+  id: string;
+  title: string;
+  content: string;
+  memory_type: MemoryType;
+  tags: string[];
+  topic_id: string | null;
+  metadata: Record<string, unknown>;
+  user_id: string;
+  created_at: string;
+  updated_at: string;
+  embedding?: number[];
+}
+
+export interface MemoryTransitionRequest {
+  /** Recorded in the memory's transition history */
+  reason?: string;
+  metadata?: Record<string, unknown>;
+}
+
+export interface MemoryStateTransition {
+  id: string;
+  memory_id: string;
+  from_state: MemoryState;
+  to_state: MemoryState;
+  reason: string | null;
+  metadata: Record<string, unknown>;
+  changed_by: string | null;
+  created_at: string;
+}
+
+export interface MemoryTransitionsResponse {
+  memory_id: string;
+  state: MemoryState;
+  transitions: MemoryStateTransition[];
+  total: number;
+}
+
+export interface BulkMemoryStateRequest extends MemoryTransitionRequest {
+  memory_ids: string[];
+  action: MemoryLifecycleAction;
+}
+
+export interface BulkMemoryStateResult {
+  action: MemoryLifecycleAction;
+  to_state: MemoryState;
+  updated_ids: string[];
+  skipped_ids: string[];
+  /** Memories the caller may not change */
+  denied_ids: string[];
+}
+
+export interface BulkDeleteResult {
+  deleted_count: number;
+  failed_ids: string[];
+}
+
+export interface MemoryVersion {
+  id: string;
+  memory_id: string;
+  version_number: number;
+  title: string;
+  content: string;
+  memory_type: MemoryType;
+  tags: string[];
+  topic_id?: string | null;
+  metadata?: Record<string, unknown>;
+  created_by: string;
+  created_at: string;
+}
+
+export interface MemoryVersionsResponse {
+  memory_id: string;
+  versions: MemoryVersion[];
+  total: number;
+}
+
+export interface ContentDiffHunk {
+  op: 'equal' | 'add' | 'remove';
+  lines: string[];
+}
+
+export interface MemoryVersionDiff {
+  memory_id: string;
+  from_version: number;
+  /** Null when diffing against the current memory state */
+  to_version: number | null;
+  changed_fields: Array<'title' | 'content' | 'memory_type' | 'tags' | 'topic_id' | 'metadata'>;
+  title?: { from: string; to: string };
+  memory_type?: { from: MemoryType; to: MemoryType };
+  topic_id?: { from: string | null; to: string | null };
+  tags?: { added: string[]; removed: string[] };
+  metadata_keys_changed?: string[];
+  content: ContentDiffHunk[];
+}
+
+export type AccessPrincipalType = 'user' | 'app' | 'api_key';
+
+export type AccessPermission = 'read' | 'write' | 'delete' | 'admin';
+
+export interface AccessRule {
+  id: string;
+  organization_id: string;
+  memory_id: string | null;
+  topic_id: string | null;
+  principal_type: AccessPrincipalType;
+  principal_id: string;
+  permission: AccessPermission;
+  granted: boolean;
+  expires_at: string | null;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface GrantAccessRequest {
+  principal_type: AccessPrincipalType;
+  principal_id: string;
+  permission: AccessPermission;
+  /** `false` records an explicit deny; defaults to true */
+  granted?: boolean;
+  expires_at?: string;
+}
+
+export interface AccessAuditEntry {
+  id: string;
+  organization_id: string;
+  memory_id: string | null;
+  topic_id: string | null;
+  user_id: string | null;
+  app_id: string | null;
+  api_key_id: string | null;
+  access_type: AccessPermission | 'rule_grant' | 'rule_revoke' | 'list' | 'search';
+  success: boolean;
+  reason: string | null;
+  rule_id: string | null;
+  metadata: Record<string, unknown>;
+  created_at: string;
+}
+
+export interface PageOptions {
+  limit?: number;
+  offset?: number;
 }
 
 export interface Topic {
   id: string;
   name: string;
-  description?: string;
-  user_id?: string;
-  organization_id?: string;
-  created_at?: string;
-  updated_at?: string;
+  description?: string | null;
+  color?: string | null;
+  icon?: string | null;
+  parent_topic_id?: string | null;
+  is_system: boolean;
+  metadata?: Record<string, unknown>;
+  user_id: string;
+  organization_id: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface TopicTreeNode extends Topic {
+  memory_count: number;
+  children: TopicTreeNode[];
 }
 
 export interface CreateTopicRequest {
   name: string;
   description?: string;
+  /** Hex colour, e.g. `#3366ff` */
+  color?: string;
+  icon?: string;
+  parent_topic_id?: string;
+  metadata?: Record<string, unknown>;
 }
 
 export interface UpdateTopicRequest {
   name?: string;
-  description?: string;
+  description?: string | null;
+  color?: string | null;
+  icon?: string | null;
+  /** `null` moves the topic to the root */
+  parent_topic_id?: string | null;
+  metadata?: Record<string, unknown>;
+}
+
+export interface ListTopicsOptions {
+  /** Only children of this topic; `root` for top-level topics */
+  parent_id?: string;
 }
 
-export interface UsageAnalytics {
+export interface DeleteTopicOptions {
+  /** What happens to the topic's memories; defaults to `detach` */
+  memories?: 'detach' | 'move';
+  /** Required when `memories` is `move` */
+  target_topic_id?: string;
+}
+
+export interface DeleteTopicResult {
+  deleted_topic_id: string;
+  memories_action: 'detach' | 'move';
+  memories_affected: number;
+  target_topic_id: string | null;
+  children_reparented: number;
+}
+
+export interface TopicMemoriesResponse {
+  topic: Topic;
+  memories: Memory[];
   total_memories: number;
-  total_searches: number;
-  memory_types: Record<MemoryType, number>;
-  period: {
-    start: string;
-    end: string;
-  };
+  subtopics: Array<{ id: string; name: string; memory_count: number }>;
 }
 
+export interface MemoryStats {
+  total_memories: number;
+  memories_by_type: Record<MemoryType, number>;
+  total_size_bytes: number;
+  avg_access_count: number;
+  most_accessed_memory?: Memory;
+  recent_memories: Memory[];
+}
@@ -0,0 +1,117 @@
+/**
+ * API route table for the LanOnasis SDK
+ *
+ * Every sub-client resolves its requests through this table, so it is the
+ * single place the SDK's paths live. The conformance suite checks each entry
+ * against the Express routers mounted by the server.
+ */
+
+import { ValidationError } from './errors/index.js';
+
+export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+export interface ApiRoute {
+  method: HttpMethod;
+  /** Absolute path with Express-style `:param` placeholders */
+  path: string;
+}
+
+const route = (method: HttpMethod, path: string): ApiRoute => ({ method, path });
+
+const MEMORIES = '/api/v1/memories';
+const TOPICS = '/api/v1/topics';
+const INTELLIGENCE = '/api/v1/intelligence';
+const PROFILES = '/api/v1/profiles';
+const API_KEYS = '/api/v1/api-keys';
+const MCP_API_KEYS = '/api/v1/mcp/api-keys';
+
+export const API_ROUTES = {
+  memories: {
+    create: route('POST', MEMORIES),
+    list: route('GET', MEMORIES),
+    search: route('POST', `${MEMORIES}/search`),
+    context: route('POST', `${MEMORIES}/context`),
+    import: route('POST', `${MEMORIES}/import`),
+    export: route('GET', `${MEMORIES}/export`),
+    trash: route('GET', `${MEMORIES}/trash`),
+    stats: route('GET', `${MEMORIES}/admin/stats`),
+    bulkState: route('POST', `${MEMORIES}/bulk/state`),
+    bulkDelete: route('POST', `${MEMORIES}/bulk/delete`),
+    get: route('GET', `${MEMORIES}/:id`),
+    update: route('PUT', `${MEMORIES}/:id`),
+    delete: route('DELETE', `${MEMORIES}/:id`),
+    archive: route('POST', `${MEMORIES}/:id/archive`),
+    pause: route('POST', `${MEMORIES}/:id/pause`),
+    resume: route('POST', `${MEMORIES}/:id/resume`),
+    restore: route('POST', `${MEMORIES}/:id/restore`),
+    transitions: route('GET', `${MEMORIES}/:id/transitions`),
+    listAccess: route('GET', `${MEMORIES}/:id/access`),
+    grantAccess: route('POST', `${MEMORIES}/:id/access`),
+    revokeAccess: route('DELETE', `${MEMORIES}/:id/access/:ruleId`),
+    accessAudit: route('GET', `${MEMORIES}/:id/access/audit`),
+    versions: route('GET', `${MEMORIES}/:id/versions`),
+    version: route('GET', `${MEMORIES}/:id/versions/:version`),
+    diff: route('GET', `${MEMORIES}/:id/diff`),
+    restoreVersion: route('POST', `${MEMORIES}/:id/restore/:version`)
+  },
+  topics: {
+    list: route('GET', TOPICS),
+    create: route('POST', TOPICS),
+    get: route('GET', `${TOPICS}/:id`),
+    update: route('PUT', `${TOPICS}/:id`),
+    delete: route('DELETE', `${TOPICS}/:id`),
+    memories: route('GET', `${TOPICS}/:id/memories`),
+    listAccess: route('GET', `${TOPICS}/:id/access`),
+    grantAccess: route('POST', `${TOPICS}/:id/access`),
+    revokeAccess: route('DELETE', `${TOPICS}/:id/access/:ruleId`)
+  },
+  intelligence: {
+    conclusions: route('GET', `${INTELLIGENCE}/conclusions`),
+    job: route('GET', `${INTELLIGENCE}/jobs/:id`),
+    flush: route('POST', `${INTELLIGENCE}/flush`),
+    contradictions: route('GET', `${INTELLIGENCE}/contradictions`),
+    resolveContradiction: route('POST', `${INTELLIGENCE}/contradictions/:groupId/resolve`)
+  },
+  profiles: {
+    get: route('GET', `${PROFILES}/:subject_id`),
+    versions: route('GET', `${PROFILES}/:subject_id/versions`),
+    update: route('PATCH', `${PROFILES}/:subject_id`),
+    pins: route('PATCH', `${PROFILES}/:subject_id/pins`),
+    evidence: route('GET', `${PROFILES}/:subject_id/evidence`),
+    ask: route('POST', `${PROFILES}/:subject_id/ask`)
+  },
+  apiKeys: {
+    createProject: route('POST', `${API_KEYS}/projects`),
+    listProjects: route('GET', `${API_KEYS}/projects`),
+    create: route('POST', API_KEYS),
+    list: route('GET', API_KEYS),
+    get: route('GET', `${API_KEYS}/:keyId`),
+    update: route('PUT', `${API_KEYS}/:keyId`),
+    delete: route('DELETE', `${API_KEYS}/:keyId`),
+    usageAnalytics: route('GET', `${API_KEYS}/analytics/usage`),
+    securityEvents: route('GET', `${API_KEYS}/analytics/security-events`)
+  },
+  mcp: {
+    registerTool: route('POST', `${API_KEYS}/mcp/tools`),
+    listTools: route('GET', `${API_KEYS}/mcp/tools`),
+    requestAccess: route('POST', `${MCP_API_KEYS}/request-access`),
+    sessionStatus: route('GET', `${MCP_API_KEYS}/sessions/:sessionId/status`),
+    endSession: route('POST', `${MCP_API_KEYS}/sessions/:sessionId/end`),
+    createProxyToken: route('POST', `${MCP_API_KEYS}/sessions/:sessionId/keys/:keyName/proxy-token`),
+    resolveProxyToken: route('POST', `${MCP_API_KEYS}/proxy-tokens/:proxyToken/resolve`)
+  }
+} as const;
+
+/**
+ * Fill a route's `:param` placeholders. Values are URI-encoded; a missing
+ * or empty value throws before any request is made.
+ */
+export function resolvePath(path: string, params: Record<string, string | number> = {}): string {
+  return path.replace(/:([A-Za-z_]+)/g, (_match, name: string) => {
+    const value = params[name];
+    if (value === undefined || value === '') {
+      throw new ValidationError(`Missing path parameter: ${name}`);
+    }
+    return encodeURIComponent(String(value));
+  });
+}
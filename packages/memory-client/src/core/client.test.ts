@@ -117,4 +117,58 @@ describe('CoreMemoryClient route compatibility', () => {
     expect(result.error).toBeUndefined();
     expect(result.data?.results).toHaveLength(1);
   });
+  it('posts context requests and validates the token budget locally', async () => {
+    const fetchMock = vi
+      .spyOn(globalThis, 'fetch')
+      .mockResolvedValue(createJsonResponse(200, {
+        context: '## Relevant memories',
+        citations: [{ index: 1, memory_id: 'mem_789', title: 'Deploys', memory_type: 'project' }],
+        tokens_used: 42,
+        max_tokens: 500
+      }));
+
+    const client = createMemoryClient({
+      apiUrl: 'https://api.lanonasis.com',
+      apiKey: 'lano_test_key',
+      retry: { maxRetries: 0 }
+    });
+
+    const invalid = await client.buildContext({ query: 'deploys', max_tokens: 10 });
+    expect(invalid.error).toBeDefined();
+    expect(fetchMock).not.toHaveBeenCalled();
+
+    const result = await client.buildContext({ query: 'deploys', max_tokens: 500, tokenizer: 'claude' });
+
+    expect(fetchMock.mock.calls[0]?.[0]).toBe('https://api.lanonasis.com/api/v1/memories/context');
+    expect(JSON.parse(String(fetchMock.mock.calls[0]?.[1]?.body))).toMatchObject({
+      query: 'deploys',
+      max_tokens: 500,
+      tokenizer: 'claude'
+    });
+    expect(result.data?.citations[0]?.memory_id).toBe('mem_789');
+  });
+
+  it('patches profiles and pins with the edit in the body', async () => {
+    const fetchMock = vi
+      .spyOn(globalThis, 'fetch')
+      .mockImplementation(async () => createJsonResponse(200, { profile: { subject_id: 'user-1', pinned_fields: ['goals'] } }));
+
+    const client = createMemoryClient({
+      apiUrl: 'https://api.lanonasis.com',
+      apiKey: 'lano_test_key',
+      retry: { maxRetries: 0 }
+    });
+
+    await client.updateProfile('user-1', { structured_fields: { goals: ['ship v2'] }, expected_head_version_id: 'v1' });
+    const result = await client.setProfilePins('user-1', { unpin: ['facts'] });
+
+    expect(fetchMock.mock.calls[0]?.[0]).toBe('https://api.lanonasis.com/api/v1/profiles/user-1');
+    expect(fetchMock.mock.calls[0]?.[1]?.method).toBe('PATCH');
+    expect(JSON.parse(String(fetchMock.mock.calls[0]?.[1]?.body))).toEqual({
+      structured_fields: { goals: ['ship v2'] },
+      expected_head_version_id: 'v1'
+    });
+    expect(fetchMock.mock.calls[1]?.[0]).toBe('https://api.lanonasis.com/api/v1/profiles/user-1/pins');
+    expect(result.data?.profile.pinned_fields).toEqual(['goals']);
+  });
 });
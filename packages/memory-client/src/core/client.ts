@@ -25,10 +25,20 @@ import type {
   AnalyticsDateRange,
   CreateMemoryWithPreprocessingRequest,
   UpdateMemoryWithPreprocessingRequest,
+  // Version history types
+  MemoryVersion,
+  MemoryVersionDiff,
+  DeleteTopicOptions,
+  DeleteTopicResult,
+  BuildContextRequest,
+  ContextBlock,
   // Phase 2: Living profile types
   MemoryProfile,
   ProfileVersion,
   ProfileAnswer,
+  ProfileField,
+  ProfileFieldEvidenceEntry,
+  UpdateProfileRequest,
   // Phase 1: Intelligence/Reasoning types
   InferredConclusion,
   ReasoningJob,
@@ -40,7 +50,8 @@ import {
   searchMemorySchema,
   createTopicSchema,
   enhancedSearchSchema,
-  analyticsDateRangeSchema
+  analyticsDateRangeSchema,
+  buildContextSchema
 } from './types';
 
 import type { ApiErrorResponse } from './errors';
@@ -548,6 +559,35 @@ export class CoreMemoryClient {
     ]);
   }
 
+  /**
+   * Build a token-budgeted context block for a prompt. Ranking, deduplication,
+   * prompt-injection filtering and secret redaction happen server-side.
+   */
+  async buildContext(request: BuildContextRequest): Promise<ApiResponse<ContextBlock>> {
+    const validationError = this.validateInput(buildContextSchema, request);
+    if (validationError) {
+      return { error: validationError.error };
+    }
+
+    const enrichedRequest = this.enrichWithOrgContext(request as Record<string, unknown>);
+    return this.requestWithFallback<ContextBlock>([
+      {
+        endpoint: '/memories/context',
+        options: {
+          method: 'POST',
+          body: JSON.stringify(enrichedRequest)
+        }
+      },
+      {
+        endpoint: '/memory/context',
+        options: {
+          method: 'POST',
+          body: JSON.stringify(enrichedRequest)
+        }
+      }
+    ]);
+  }
+
   /**
    * Bulk delete multiple memories
    */
@@ -562,6 +602,60 @@ export class CoreMemoryClient {
     });
   }
 
+  // Version History Operations
+
+  /**
+   * List recorded versions of a memory, newest first
+   */
+  async getMemoryVersions(
+    id: string,
+    options: { limit?: number; offset?: number } = {}
+  ): Promise<ApiResponse<{ memory_id: string; versions: MemoryVersion[]; total: number }>> {
+    const params = new URLSearchParams();
+    if (options.limit) params.append('limit', String(options.limit));
+    if (options.offset) params.append('offset', String(options.offset));
+
+    const queryString = params.toString();
+    const endpoint = queryString
+      ? `/memories/${encodeURIComponent(id)}/versions?${queryString}`
+      : `/memories/${encodeURIComponent(id)}/versions`;
+
+    return this.request(endpoint);
+  }
+
+  /**
+   * Get a single version of a memory
+   */
+  async getMemoryVersion(id: string, version: number): Promise<ApiResponse<MemoryVersion>> {
+    return this.request<MemoryVersion>(`/memories/${encodeURIComponent(id)}/versions/${version}`);
+  }
+
+  /**
+   * Diff two versions of a memory. Omit `to` to diff against the current state.
+   */
+  async diffMemoryVersions(id: string, from: number, to?: number): Promise<ApiResponse<MemoryVersionDiff>> {
+    const params = new URLSearchParams({ from: String(from) });
+    if (to !== undefined) params.append('to', String(to));
+
+    return this.request<MemoryVersionDiff>(`/memories/${encodeURIComponent(id)}/diff?${params.toString()}`);
+  }
+
+  /**
+   * Restore a memory to an earlier version. Recorded as a new version, so it can be undone.
+   *
+   * @example
+   * ```typescript
+   * const history = await client.getMemoryVersions('mem_123');
+   * await client.restoreMemoryVersion('mem_123', history.data!.versions[1].version_number);
+   * ```
+   */
+  async restoreMemoryVersion(id: string, version: number): Promise<ApiResponse<MemoryEntry>> {
+    return this.request<MemoryEntry>(`/memories/${encodeURIComponent(id)}/restore/${version}`, {
+      method: 'POST'
+    });
+  }
+
+  // Topic Operations
   // Topic Operations
 
   /**
@@ -606,10 +700,20 @@ export class CoreMemoryClient {
   }
 
   /**
-   * Delete a topic
+   * Delete a topic. Its memories are detached unless `memories: 'move'` and a
+   * `target_topic_id` are given.
    */
-  async deleteTopic(id: string): Promise<ApiResponse<void>> {
-    return this.request<void>(`/topics/${encodeURIComponent(id)}`, {
+  async deleteTopic(id: string, options: DeleteTopicOptions = {}): Promise<ApiResponse<DeleteTopicResult>> {
+    const params = new URLSearchParams();
+    if (options.memories) params.append('memories', options.memories);
+    if (options.target_topic_id) params.append('target_topic_id', options.target_topic_id);
+
+    const queryString = params.toString();
+    const endpoint = queryString
+      ? `/topics/${encodeURIComponent(id)}?${queryString}`
+      : `/topics/${encodeURIComponent(id)}`;
+
+    return this.request<DeleteTopicResult>(endpoint, {
       method: 'DELETE'
     });
   }
@@ -956,6 +1060,45 @@ export class CoreMemoryClient {
       { method: 'POST', body: JSON.stringify({ question }) },
     );
   }
+
+  /**
+   * Edit a profile's summary or structured fields. Creates a new profile version.
+   */
+  async updateProfile(
+    subject_id: string,
+    update: UpdateProfileRequest,
+  ): Promise<ApiResponse<{ profile: MemoryProfile }>> {
+    return this.request<{ profile: MemoryProfile }>(
+      `/profiles/${subject_id}`,
+      { method: 'PATCH', body: JSON.stringify(update) },
+    );
+  }
+
+  /**
+   * Pin or unpin profile fields. Reasoning never rewrites a pinned field.
+   */
+  async setProfilePins(
+    subject_id: string,
+    pins: { pin?: ProfileField[]; unpin?: ProfileField[]; expected_head_version_id?: string | null },
+  ): Promise<ApiResponse<{ profile: MemoryProfile }>> {
+    return this.request<{ profile: MemoryProfile }>(
+      `/profiles/${subject_id}/pins`,
+      { method: 'PATCH', body: JSON.stringify(pins) },
+    );
+  }
+
+  /**
+   * Get the conclusions and memories behind each profile field.
+   */
+  async getProfileEvidence(
+    subject_id: string,
+    field?: ProfileField,
+  ): Promise<ApiResponse<{ evidence: ProfileFieldEvidenceEntry[] }>> {
+    const query = field ? `?field=${encodeURIComponent(field)}` : '';
+    return this.request<{ evidence: ProfileFieldEvidenceEntry[] }>(
+      `/profiles/${subject_id}/evidence${query}`,
+    );
+  }
 }
 
 /**
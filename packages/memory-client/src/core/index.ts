@@ -60,7 +60,19 @@ export type {
   ProjectMemoryCount,
   TagCount,
   ExtendedMemoryStats,
-  AnalyticsDateRange
+  AnalyticsDateRange,
+  // Version history types
+  MemoryVersion,
+  MemoryVersionDiff,
+  // Topic deletion types
+  DeleteTopicOptions,
+  DeleteTopicResult,
+  // Context assembly types
+  BuildContextRequest,
+  ContextBlock,
+  ContextCitation,
+  ContextTokenizer,
+  ContextFormat
 } from './types';
 
 export {
@@ -76,7 +88,11 @@ export {
   SEARCH_MODES,
   preprocessingOptionsSchema,
   enhancedSearchSchema,
-  analyticsDateRangeSchema
+  analyticsDateRangeSchema,
+  // Context assembly
+  CONTEXT_TOKENIZERS,
+  CONTEXT_FORMATS,
+  buildContextSchema
 } from './types';
 
 // Errors
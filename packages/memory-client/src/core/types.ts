@@ -665,6 +665,126 @@ export const analyticsDateRangeSchema = z.object({
   group_by: z.enum(['day', 'week', 'month']).default('day')
 });
 
+// ---------------------------------------------------------------------------
+// Version history types
+// ---------------------------------------------------------------------------
+
+/**
+ * Snapshot recorded on every create and content-bearing update of a memory
+ */
+export interface MemoryVersion {
+  id: string;
+  memory_id: string;
+  version_number: number;
+  title: string;
+  content: string;
+  memory_type: MemoryType;
+  tags: string[];
+  topic_id?: string | null;
+  metadata?: Record<string, unknown>;
+  created_by: string;
+  created_at: string;
+}
+
+/**
+ * Field and line-level diff between two versions (to_version null = current state)
+ */
+export interface MemoryVersionDiff {
+  memory_id: string;
+  from_version: number;
+  to_version: number | null;
+  changed_fields: Array<'title' | 'content' | 'memory_type' | 'tags' | 'topic_id' | 'metadata'>;
+  title?: { from: string; to: string };
+  memory_type?: { from: MemoryType; to: MemoryType };
+  topic_id?: { from: string | null; to: string | null };
+  tags?: { added: string[]; removed: string[] };
+  metadata_keys_changed?: string[];
+  content: Array<{ op: 'equal' | 'add' | 'remove'; lines: string[] }>;
+}
+
+// ---------------------------------------------------------------------------
+// Topic deletion types
+// ---------------------------------------------------------------------------
+
+/**
+ * What happens to a deleted topic's memories: `detach` clears their topic,
+ * `move` reassigns them to `target_topic_id`
+ */
+export interface DeleteTopicOptions {
+  memories?: 'detach' | 'move';
+  target_topic_id?: string;
+}
+
+/**
+ * Outcome of a topic delete. Child topics are re-parented to the deleted topic's parent.
+ */
+export interface DeleteTopicResult {
+  deleted_topic_id: string;
+  memories_action: 'detach' | 'move';
+  memories_affected: number;
+  target_topic_id: string | null;
+  children_reparented: number;
+}
+
+// ---------------------------------------------------------------------------
+// Context assembly types
+// ---------------------------------------------------------------------------
+
+export const CONTEXT_TOKENIZERS = ['cl100k', 'o200k', 'claude', 'llama', 'generic'] as const;
+export const CONTEXT_FORMATS = ['markdown', 'xml', 'plain'] as const;
+export type ContextTokenizer = typeof CONTEXT_TOKENIZERS[number];
+export type ContextFormat = typeof CONTEXT_FORMATS[number];
+
+export const buildContextSchema = z.object({
+  query: z.string().min(1).max(1000),
+  max_tokens: z.number().int().min(64).max(32000).optional(),
+  tokenizer: z.enum(CONTEXT_TOKENIZERS).optional(),
+  format: z.enum(CONTEXT_FORMATS).optional(),
+  memory_types: z.array(z.enum(MEMORY_TYPES)).optional(),
+  tags: z.array(z.string()).optional(),
+  topic_id: z.string().uuid().optional(),
+  mode: z.enum(['vector', 'lexical', 'hybrid']).optional(),
+  threshold: z.number().min(0).max(1).optional(),
+  candidates: z.number().int().min(1).max(100).optional()
+});
+
+export type BuildContextRequest = z.infer<typeof buildContextSchema>;
+
+/**
+ * A memory included in a context block, numbered as cited in the block
+ */
+export interface ContextCitation {
+  index: number;
+  memory_id: string;
+  title: string;
+  memory_type: MemoryType;
+  relevance_score: number;
+  tokens: number;
+  truncated: boolean;
+  redactions: number;
+}
+
+/**
+ * Ranked, deduplicated, injection-filtered and secret-redacted context that
+ * fits the requested token budget
+ */
+export interface ContextBlock {
+  context: string;
+  citations: ContextCitation[];
+  tokens_used: number;
+  max_tokens: number;
+  tokenizer: ContextTokenizer;
+  format: ContextFormat;
+  dropped: {
+    duplicates: number;
+    injection: number;
+    over_budget: number;
+  };
+  query: string;
+  candidates_considered: number;
+  build_time_ms: number;
+}
+
 // ---------------------------------------------------------------------------
 // Phase 1: Reasoning / Inference types
 // ---------------------------------------------------------------------------
@@ -683,6 +803,10 @@ export interface InferredConclusion {
   contradiction_group_id: string | null;
   created_at: string;
   source_job_id: string | null;
+  /** Set once a person resolved a contradiction involving this conclusion */
+  resolution_id?: string | null;
+  /** Profile field the conclusion feeds, if any */
+  profile_field?: ProfileField | null;
 }
 
 export interface ReasoningJob {
@@ -703,6 +827,19 @@ export interface ReasoningJob {
 // Phase 2: Living Memory Profile types
 // ---------------------------------------------------------------------------
 
+export type ProfileField = 'preferences' | 'goals' | 'constraints' | 'tendencies' | 'facts';
+
+/**
+ * Where a profile field's current items came from
+ */
+export interface ProfileFieldEvidence {
+  source: 'reasoning' | 'manual';
+  conclusion_ids: string[];
+  memory_ids: string[];
+  updated_at: string;
+  updated_by: string | null;
+}
+
 export interface MemoryProfile {
   subject_id: string;
   organization_id: string | null;
@@ -718,6 +855,9 @@ export interface MemoryProfile {
   freshness: string;
   confidence_by_field: Record<string, number>;
   head_version_id: string | null;
+  /** Fields reasoning never rewrites */
+  pinned_fields?: ProfileField[];
+  field_evidence?: Partial<Record<ProfileField, ProfileFieldEvidence>>;
   created_at: string;
   updated_at: string;
 }
@@ -727,9 +867,27 @@ export interface ProfileVersion {
   profile_id: string;
   diff: Record<string, unknown>;
   source_job_id: string | null;
+  edited_by?: string | null;
   created_at: string;
 }
 
+/**
+ * Manual profile edit. Edited fields are pinned unless pin_edited_fields is false.
+ */
+export interface UpdateProfileRequest {
+  profile_summary?: string | null;
+  structured_fields?: Partial<Record<ProfileField, string[]>>;
+  pin_edited_fields?: boolean;
+  /** Reject the edit with 409 if the profile moved past this version */
+  expected_head_version_id?: string | null;
+}
+
+export interface ProfileFieldEvidenceEntry extends ProfileFieldEvidence {
+  field: ProfileField;
+  pinned: boolean;
+  conclusions: InferredConclusion[];
+}
+
 export interface ProfileAnswer {
   answer: string;
   sources: string[];
@@ -103,6 +103,18 @@ export type {
   TagCount,
   ExtendedMemoryStats,
   AnalyticsDateRange,
+  // Version history types
+  MemoryVersion,
+  MemoryVersionDiff,
+  // Topic deletion types
+  DeleteTopicOptions,
+  DeleteTopicResult,
+  // Context assembly types
+  BuildContextRequest,
+  ContextBlock,
+  ContextCitation,
+  ContextTokenizer,
+  ContextFormat,
   // Phase 1: Reasoning types
   InferredConclusion,
   ReasoningJob,
@@ -110,6 +122,10 @@ export type {
   MemoryProfile,
   ProfileVersion,
   ProfileAnswer,
+  ProfileField,
+  ProfileFieldEvidence,
+  ProfileFieldEvidenceEntry,
+  UpdateProfileRequest,
 } from './core/types';
 
 export {
@@ -125,7 +141,11 @@ export {
   SEARCH_MODES,
   preprocessingOptionsSchema,
   enhancedSearchSchema,
-  analyticsDateRangeSchema
+  analyticsDateRangeSchema,
+  // Context assembly
+  CONTEXT_TOKENIZERS,
+  CONTEXT_FORMATS,
+  buildContextSchema
 } from './core/types';
 
 // ========================================
@@ -19,7 +19,9 @@ import type {
   SearchMemoryRequest,
   MemorySearchResult,
   UserMemoryStats,
-  CreateTopicRequest
+  CreateTopicRequest,
+  DeleteTopicOptions,
+  DeleteTopicResult
 } from '../core/types';
 
 export interface EnhancedMemoryClientConfig extends CoreMemoryClientConfig {
@@ -353,8 +355,8 @@ export class EnhancedMemoryClient {
     return { ...result, source: 'api', mcpUsed: false };
   }
 
-  async deleteTopic(id: string): Promise<OperationResult<void>> {
-    const result = await this.directClient.deleteTopic(id);
+  async deleteTopic(id: string, options: DeleteTopicOptions = {}): Promise<OperationResult<DeleteTopicResult>> {
+    const result = await this.directClient.deleteTopic(id, options);
     return { ...result, source: 'api', mcpUsed: false };
   }
 
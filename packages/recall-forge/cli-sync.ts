@@ -0,0 +1,61 @@
+import type { LanonasisClient } from "./client.js";
+import type { LanonasisConfig } from "./config.js";
+import { exitWithError, parsePositiveInt } from "./cli-common.js";
+import { LocalSyncEngine } from "./hooks/local-sync.js";
+
+type SyncOptions = {
+  status?: boolean;
+  push?: boolean;
+  pull?: boolean;
+  dryRun?: boolean;
+  limit?: string;
+};
+
+export function registerSyncCli(
+  cmd: any,
+  getRuntime: () => { client: LanonasisClient; cfg: LanonasisConfig },
+  resolvePath: (p: string) => string,
+) {
+  cmd
+    .command("sync")
+    .description("Sync local fallback Markdown with LanOnasis (push pending entries, pull recent memories)")
+    .option("--status", "Show pending and failed local entries without syncing")
+    .option("--push", "Only upload pending local entries")
+    .option("--pull", "Only mirror recent remote memories to memory/lanonasis-remote.md")
+    .option("--dry-run", "Report what push would upload without uploading")
+    .option("--limit <n>", "Max entries to upload / remote memories to pull")
+    .action(async (options: SyncOptions) => {
+      try {
+        const { client, cfg } = getRuntime();
+        const engine = new LocalSyncEngine(client, cfg, resolvePath);
+        const limit = parsePositiveInt("--limit", options.limit);
+
+        if (options.status) {
+          const status = await engine.status();
+          console.log(
+            `Local entries: ${status.entries} in ${status.files} files | pending: ${status.pending} | failed: ${status.failed}`,
+          );
+          console.log(`Last push: ${status.lastPushAt ?? "never"} | last pull: ${status.lastPullAt ?? "never"}`);
+          return;
+        }
+
+        const doPush = options.push || !options.pull;
+        const doPull = (options.pull || !options.push) && !options.dryRun;
+
+        if (doPush) {
+          const push = await engine.push({ dryRun: options.dryRun, limit });
+          const verb = options.dryRun ? "would upload" : "uploaded";
+          console.log(
+            `Push — scanned: ${push.scanned} | ${verb}: ${push.uploaded} | deduped: ${push.deduped} | already synced: ${push.alreadySynced} | failed: ${push.failed} | skipped: ${push.skipped}`,
+          );
+        }
+
+        if (doPull) {
+          const pull = await engine.pull({ limit });
+          console.log(`Pull — wrote ${pull.written} memories to ${pull.file}`);
+        }
+      } catch (err) {
+        exitWithError(err);
+      }
+    });
+}
@@ -19,6 +19,7 @@ import {
   normalizeTextInput,
 } from "./cli-common.js";
 import { registerMemoryCli } from "./cli-memory.js";
+import { registerSyncCli } from "./cli-sync.js";
 import { registerExtractCli } from "./extraction/cli-extract.js";
 
 function padCell(value: string | undefined, width: number): string {
@@ -193,8 +194,11 @@ export function registerCli(
 
       registerMemoryCli(cmd, getRuntime);
 
+      // sync — local fallback Markdown <-> LanOnasis
+      registerSyncCli(cmd, getRuntime, api.resolvePath);
+
       // extract — JSONL extraction with secret redaction
-      registerExtractCli(cmd, getRuntime);
+      registerExtractCli(cmd, getRuntime, undefined, api.resolvePath);
     },
     { commands: ["recall", "lrf"] },
   );
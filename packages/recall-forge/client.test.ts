@@ -20,7 +20,7 @@ function createClient() {
     syncMode: "realtime",
     queueOnFailure: true,
     autoIndexOnFirstUse: false,
-    extractSourceFormats: ["openclaw-session", "markdown", "sqlite"],
+    extractSourceFormats: ["openclaw-session", "markdown", "sqlite", "chatgpt", "continue", "cursor", "aider"],
     embeddingProvider: "",
     embeddingModel: "",
     queryEmbeddingModel: "",
@@ -34,6 +34,10 @@ function createClient() {
     cacheMaxSize: 50,
     rateLimitMaxReq: 60,
     rateLimitWindowMs: 60_000,
+    syncIntervalMs: 300_000,
+    syncPullLimit: 50,
+    extractWatchDirs: [],
+    extractWatchIntervalMs: 60_000,
   });
 }
 
@@ -41,6 +41,12 @@ export type LanonasisConfig = {
   cacheMaxSize: number;
   rateLimitMaxReq: number;
   rateLimitWindowMs: number;
+  // Phase 8 — local fallback sync
+  syncIntervalMs: number;
+  syncPullLimit: number;
+  // Phase 9 — incremental extraction
+  extractWatchDirs: string[];
+  extractWatchIntervalMs: number;
 };
 
 const DEFAULTS: LanonasisConfig = {
@@ -62,7 +68,7 @@ const DEFAULTS: LanonasisConfig = {
   syncMode: "realtime",
   queueOnFailure: true,
   autoIndexOnFirstUse: false,
-  extractSourceFormats: ["openclaw-session", "markdown", "sqlite"],
+  extractSourceFormats: ["openclaw-session", "markdown", "sqlite", "chatgpt", "continue", "cursor", "aider"],
   // Phase 3
   embeddingProvider: "",
   embeddingModel: "",
@@ -79,6 +85,12 @@ const DEFAULTS: LanonasisConfig = {
   cacheMaxSize: 50,
   rateLimitMaxReq: 60,
   rateLimitWindowMs: 60_000,
+  // Phase 8
+  syncIntervalMs: 300_000,
+  syncPullLimit: 50,
+  // Phase 9
+  extractWatchDirs: [],
+  extractWatchIntervalMs: 60_000,
 };
 
 // Resolve ${ENV_VAR} references in string values
@@ -179,6 +191,15 @@ export const lanonasisConfigSchema = {
       cacheMaxSize: typeof raw.cacheMaxSize === "number" && raw.cacheMaxSize > 0 ? raw.cacheMaxSize : DEFAULTS.cacheMaxSize,
       rateLimitMaxReq: typeof raw.rateLimitMaxReq === "number" && raw.rateLimitMaxReq > 0 ? raw.rateLimitMaxReq : DEFAULTS.rateLimitMaxReq,
       rateLimitWindowMs: typeof raw.rateLimitWindowMs === "number" && raw.rateLimitWindowMs > 0 ? raw.rateLimitWindowMs : DEFAULTS.rateLimitWindowMs,
+      // Phase 8: local fallback sync
+      syncIntervalMs: typeof raw.syncIntervalMs === "number" && raw.syncIntervalMs > 0 ? raw.syncIntervalMs : DEFAULTS.syncIntervalMs,
+      syncPullLimit: typeof raw.syncPullLimit === "number" && raw.syncPullLimit > 0 ? Math.min(raw.syncPullLimit, 100) : DEFAULTS.syncPullLimit,
+      extractWatchDirs: Array.isArray(raw.extractWatchDirs)
+        ? (raw.extractWatchDirs as unknown[]).filter((d): d is string => typeof d === "string" && d.length > 0)
+        : DEFAULTS.extractWatchDirs,
+      extractWatchIntervalMs: typeof raw.extractWatchIntervalMs === "number" && raw.extractWatchIntervalMs > 0
+        ? Math.max(raw.extractWatchIntervalMs, 5_000)
+        : DEFAULTS.extractWatchIntervalMs,
     };
   },
 };
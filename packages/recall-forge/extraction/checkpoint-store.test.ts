@@ -0,0 +1,107 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { promises as fs } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { CheckpointStore, hashLine, readLinesFrom, type ByteLine } from "./checkpoint-store.js";
+
+async function collect(file: string, start = 0): Promise<ByteLine[]> {
+  const lines: ByteLine[] = [];
+  for await (const line of readLinesFrom(file, start)) lines.push(line);
+  return lines;
+}
+
+describe("extraction checkpoints", () => {
+  let dir: string;
+  let transcript: string;
+  let store: CheckpointStore;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(join(tmpdir(), "recall-extract-"));
+    transcript = join(dir, "session.jsonl");
+    store = CheckpointStore.forWorkspace((p) => join(dir, p));
+    await store.load();
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  // Checkpoint the last complete line, as extractJsonl does
+  async function checkpointAtEnd(): Promise<ByteLine> {
+    const lines = (await collect(transcript)).filter((l) => l.complete);
+    const last = lines[lines.length - 1];
+    const stat = await fs.stat(transcript);
+    store.set(transcript, {
+      offset: last.end,
+      line_start: last.start,
+      line_hash: hashLine(last.bytes),
+      line: lines.length,
+      inode: stat.ino,
+      format: "claude-code",
+      updated_at: new Date().toISOString(),
+    });
+    return last;
+  }
+
+  it("reads lines with exact byte ranges, including multi-byte text and a partial tail", async () => {
+    await fs.writeFile(transcript, '{"a":"héllo"}\r\n\n{"b":2}\n{"c":', "utf-8");
+
+    const lines = await collect(transcript);
+    expect(lines.map((l) => [l.start, l.end, l.complete])).toEqual([
+      [0, 16, true],
+      [16, 17, true],
+      [17, 25, true],
+      [25, 30, false],
+    ]);
+    expect(lines[0].bytes.toString("utf-8").trim()).toBe('{"a":"héllo"}');
+
+    const resumed = await collect(transcript, 17);
+    expect(resumed[0].bytes.toString("utf-8")).toBe('{"b":2}');
+  });
+
+  it("resumes after the checkpointed line once the file grows", async () => {
+    await fs.writeFile(transcript, '{"n":1}\n{"n":2}\n', "utf-8");
+    const last = await checkpointAtEnd();
+    await fs.appendFile(transcript, '{"n":3}\n', "utf-8");
+
+    expect(await store.resumePoint(transcript)).toEqual({
+      offset: last.end,
+      line: 2,
+      format: "claude-code",
+      reason: "resumed",
+    });
+    const rest = await collect(transcript, last.end);
+    expect(rest.map((l) => l.bytes.toString())).toEqual(['{"n":3}']);
+  });
+
+  it("restarts when the file was truncated below the checkpoint", async () => {
+    await fs.writeFile(transcript, '{"n":1}\n{"n":2}\n', "utf-8");
+    await checkpointAtEnd();
+    await fs.writeFile(transcript, '{"n":1}\n', "utf-8");
+
+    expect(await store.resumePoint(transcript)).toMatchObject({ offset: 0, line: 0, reason: "truncated" });
+  });
+
+  it("restarts when the checkpointed line no longer matches (file replaced)", async () => {
+    await fs.writeFile(transcript, '{"n":1}\n{"n":2}\n', "utf-8");
+    await checkpointAtEnd();
+    const checkpoint = store.get(transcript)!;
+    // Same length and inode, different content at the checkpointed line
+    await fs.writeFile(transcript, '{"n":1}\n{"n":9}\n{"n":3}\n', "utf-8");
+    store.set(transcript, { ...checkpoint, inode: (await fs.stat(transcript)).ino });
+
+    expect(await store.resumePoint(transcript)).toMatchObject({ offset: 0, reason: "rotated" });
+  });
+
+  it("persists checkpoints across store instances", async () => {
+    await fs.writeFile(transcript, '{"n":1}\n', "utf-8");
+    await checkpointAtEnd();
+    await store.save();
+
+    const reloaded = CheckpointStore.forWorkspace((p) => join(dir, p));
+    await reloaded.load();
+    expect(reloaded.get(transcript)?.line).toBe(1);
+    expect(reloaded.delete(transcript)).toBe(true);
+    expect(await reloaded.resumePoint(transcript)).toMatchObject({ reason: "new" });
+  });
+});
@@ -0,0 +1,171 @@
+// Per-file extraction checkpoints
+// Records how far each source file has been extracted — the byte offset just past
+// the last fully processed line plus a hash of that line — so re-runs resume
+// instead of re-reading, and truncated or rotated files are detected and restarted.
+// State lives in memory/.recall-extract.json next to the sync state.
+import { createHash } from "crypto";
+import { createReadStream, promises as fs } from "fs";
+import { join, resolve } from "path";
+
+const MEMORY_DIR = "memory";
+const STATE_FILE = ".recall-extract.json";
+
+export type FileCheckpoint = {
+  /** Byte offset just past the last processed line */
+  offset: number;
+  /** Byte offset where that line starts */
+  line_start: number;
+  /** Hash of that line; a mismatch means the file was rewritten */
+  line_hash: string;
+  /** Lines consumed so far — keeps line numbers (and idempotency keys) stable across runs */
+  line: number;
+  inode?: number;
+  /** Format adapter detected on the first run; later segments may not start with a detectable line */
+  format?: string;
+  updated_at: string;
+};
+
+export type CheckpointState = {
+  version: 1;
+  files: Record<string, FileCheckpoint>;
+};
+
+export type ResumePoint = {
+  offset: number;
+  line: number;
+  format?: string;
+  reason: "new" | "resumed" | "truncated" | "rotated";
+};
+
+/** One newline-terminated line with its byte range in the file */
+export type ByteLine = {
+  bytes: Buffer;
+  start: number;
+  end: number;
+  /** False for a trailing line with no newline yet (a writer may still be appending) */
+  complete: boolean;
+};
+
+export function hashLine(bytes: Uint8Array): string {
+  return createHash("sha256").update(bytes).digest("hex").slice(0, 32);
+}
+
+/**
+ * Stream a file line by line from a byte offset, tracking exact byte
+ * positions (readline drops them). Lines exclude the trailing "\n".
+ */
+export async function* readLinesFrom(filePath: string, start = 0): AsyncGenerator<ByteLine> {
+  const stream = createReadStream(filePath, { start });
+  let pending = Buffer.alloc(0);
+  let position = start;
+
+  for await (const chunk of stream as AsyncIterable<Buffer>) {
+    const buf = pending.length > 0 ? Buffer.concat([pending, chunk]) : chunk;
+    let from = 0;
+    let newline: number;
+    while ((newline = buf.indexOf(0x0a, from)) !== -1) {
+      const length = newline - from + 1;
+      yield { bytes: buf.subarray(from, newline), start: position, end: position + length, complete: true };
+      position += length;
+      from = newline + 1;
+    }
+    pending = buf.subarray(from);
+  }
+
+  if (pending.length > 0) {
+    yield { bytes: pending, start: position, end: position + pending.length, complete: false };
+  }
+}
+
+async function readRange(filePath: string, start: number, end: number): Promise<Buffer> {
+  const handle = await fs.open(filePath, "r");
+  try {
+    const buf = Buffer.alloc(end - start);
+    const { bytesRead } = await handle.read(buf, 0, buf.length, start);
+    return buf.subarray(0, bytesRead);
+  } finally {
+    await handle.close();
+  }
+}
+
+export class CheckpointStore {
+  private state: CheckpointState = { version: 1, files: {} };
+
+  constructor(private filePath: string) {}
+
+  /** Store at <workspace>/memory/.recall-extract.json */
+  static forWorkspace(resolvePath: (p: string) => string): CheckpointStore {
+    return new CheckpointStore(resolvePath(join(MEMORY_DIR, STATE_FILE)));
+  }
+
+  async load(): Promise<void> {
+    try {
+      const raw = JSON.parse(await fs.readFile(this.filePath, "utf-8")) as Partial<CheckpointState>;
+      if (raw && raw.version === 1 && raw.files && typeof raw.files === "object") {
+        this.state = raw as CheckpointState;
+        return;
+      }
+    } catch {
+      // Missing or unreadable state — start fresh; idempotency keys keep re-extraction safe
+    }
+    this.state = { version: 1, files: {} };
+  }
+
+  async save(): Promise<void> {
+    await fs.mkdir(this.filePath.substring(0, this.filePath.lastIndexOf("/")), { recursive: true });
+    const tmpPath = `${this.filePath}.tmp`;
+    await fs.writeFile(tmpPath, JSON.stringify(this.state, null, 2), "utf-8");
+    await fs.rename(tmpPath, this.filePath);
+  }
+
+  get(source: string): FileCheckpoint | undefined {
+    return this.state.files[resolve(source)];
+  }
+
+  set(source: string, checkpoint: FileCheckpoint): void {
+    this.state.files[resolve(source)] = checkpoint;
+  }
+
+  delete(source: string): boolean {
+    const key = resolve(source);
+    if (!(key in this.state.files)) return false;
+    delete this.state.files[key];
+    return true;
+  }
+
+  entries(): Array<[string, FileCheckpoint]> {
+    return Object.entries(this.state.files);
+  }
+
+  /**
+   * Where extraction of `source` should start. The checkpointed line is
+   * re-read and re-hashed: a file that shrank below the offset was truncated,
+   * and a changed inode or line hash means it was replaced (rotation) — both
+   * restart from the beginning.
+   */
+  async resumePoint(source: string): Promise<ResumePoint> {
+    const checkpoint = this.get(source);
+    if (!checkpoint) return { offset: 0, line: 0, reason: "new" };
+
+    const stat = await fs.stat(source);
+    if (stat.size < checkpoint.offset) {
+      return { offset: 0, line: 0, reason: "truncated" };
+    }
+    if (checkpoint.inode !== undefined && checkpoint.inode !== stat.ino) {
+      return { offset: 0, line: 0, reason: "rotated" };
+    }
+
+    // offset - 1 drops the newline, matching what readLinesFrom hashes
+    const line = await readRange(source, checkpoint.line_start, checkpoint.offset - 1);
+    if (hashLine(line) !== checkpoint.line_hash) {
+      return { offset: 0, line: 0, reason: "rotated" };
+    }
+
+    return {
+      offset: checkpoint.offset,
+      line: checkpoint.line,
+      format: checkpoint.format,
+      reason: "resumed",
+    };
+  }
+}
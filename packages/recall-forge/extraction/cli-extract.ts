@@ -1,23 +1,29 @@
 // CLI subcommand for JSONL extraction
 // Usage: openclaw recall extract <file> [options]
+//        openclaw recall extract [dir] --watch [options]
 
+import { resolve } from "path";
 import type { LanonasisClient } from "../client.js";
 import type { LanonasisConfig } from "../config.js";
 import type { LocalFallbackWriter } from "../hooks/local-fallback.js";
+import { CheckpointStore } from "./checkpoint-store.js";
 import { extractJsonl, formatStats } from "./jsonl-extractor.js";
+import { isExportFile } from "./export-extractor.js";
 import { isMarkdownFile } from "./markdown-extractor.js";
 import { isSqliteFile } from "./sqlite-extractor.js";
 import type { ExtractionOptions } from "./types.js";
+import { ExtractionWatcher } from "./watch.js";
 
 export function registerExtractCli(
   cmd: any, // commander Command object from cli.ts
   getRuntime: () => { client: LanonasisClient; cfg: LanonasisConfig },
   fallback?: LocalFallbackWriter,
+  resolvePath: (p: string) => string = (p) => resolve(p),
 ) {
   cmd
-    .command("extract <file>")
-    .description("Extract memories from session logs, markdown docs, or SQLite databases (with secret redaction)")
-    .option("--format <fmt>", "Force format: claude-code, openclaw-cache, openclaw-session, codex, generic, markdown, sqlite")
+    .command("extract [file]")
+    .description("Extract memories from session logs, chat exports, markdown docs, or SQLite databases (with secret redaction)")
+    .option("--format <fmt>", "Force format: claude-code, openclaw-cache, openclaw-session, codex, chatgpt, continue, cursor, aider, generic, markdown, sqlite")
     .option("--channel <name>", "Channel metadata", "jsonl-extract")
     .option("--no-dedup", "Skip vector dedup (faster)")
     .option("--threshold <n>", "Dedup similarity threshold", "0.92")
@@ -27,9 +33,12 @@ export function registerExtractCli(
     .option("--strict", "Use strict capture filter")
     .option("--roles <roles>", "Roles to extract (comma-separated)", "user")
     .option("--batch-size <n>", "Batch size", "10")
+    .option("--resume", "JSONL: continue from the file's checkpoint and advance it")
+    .option("--reset-checkpoint", "JSONL: forget the file's checkpoint before extracting")
+    .option("--watch", "Tail [file] (a directory) or extractWatchDirs, extracting new JSONL lines as they appear")
     .action(
       async (
-        file: string,
+        file: string | undefined,
         options: {
           format?: string;
           channel: string;
@@ -41,11 +50,14 @@ export function registerExtractCli(
           strict?: boolean;
           roles: string;
           batchSize: string;
+          resume?: boolean;
+          resetCheckpoint?: boolean;
+          watch?: boolean;
         },
       ) => {
         const { client, cfg } = getRuntime();
         const extractionOptions: ExtractionOptions = {
-          filePath: file,
+          filePath: file ?? "",
           format: options.format as ExtractionOptions["format"],
           channel: options.channel,
           dedup: options.dedup,
@@ -63,11 +75,56 @@ export function registerExtractCli(
           warn: (msg: string) => console.error(`[extract] WARN: ${msg}`),
         };
 
+        const checkpoints = options.resume || options.resetCheckpoint || options.watch
+          ? CheckpointStore.forWorkspace(resolvePath)
+          : undefined;
+        await checkpoints?.load();
+
+        if (options.watch) {
+          const dirs = file ? [file] : cfg.extractWatchDirs;
+          if (dirs.length === 0) {
+            console.error("[extract] Nothing to watch — pass a directory or set extractWatchDirs");
+            process.exit(1);
+          }
+          const { filePath: _filePath, ...watchOptions } = extractionOptions;
+          const watcher = new ExtractionWatcher(
+            dirs,
+            watchOptions,
+            { client, config: cfg, logger, fallback, checkpoints: checkpoints! },
+            cfg.extractWatchIntervalMs,
+          );
+          console.error(`[extract] Watching ${dirs.join(", ")} every ${cfg.extractWatchIntervalMs / 1000}s (Ctrl+C to stop)`);
+          // Runs until interrupted; the plugin uses watcher.start() instead
+          for (;;) {
+            const scan = await watcher.scan();
+            if (scan.changed > 0) {
+              console.log(
+                `[extract] ${new Date().toISOString()} — files: ${scan.files} | changed: ${scan.changed} | stored: ${scan.recordsStored} | errors: ${scan.errors}`,
+              );
+            }
+            await new Promise((r) => setTimeout(r, cfg.extractWatchIntervalMs));
+          }
+        }
+
+        if (!file) {
+          console.error("[extract] A file is required unless --watch is given");
+          process.exit(1);
+        }
+
+        if (options.resetCheckpoint && checkpoints?.delete(file)) {
+          await checkpoints.save();
+          console.error("[extract] Checkpoint cleared");
+        }
+
         console.error(`[extract] Starting extraction from: ${file}`);
         if (options.dryRun) console.error("[extract] DRY RUN — no data will be stored");
 
         try {
           // Route to the correct extractor based on file type or forced format
+          const format = extractionOptions.format;
+          const useExport = format === "aider" || format === "cursor" || (
+            (!format || format === "chatgpt" || format === "continue") && isExportFile(file)
+          );
           const useMarkdown = extractionOptions.format === "markdown" || (
             !extractionOptions.format && isMarkdownFile(file)
           );
@@ -76,14 +133,23 @@ export function registerExtractCli(
           );
 
           let stats;
-          if (useMarkdown) {
+          if (useExport) {
+            const { extractExport: extract } = await import("./export-extractor.js");
+            stats = await extract(extractionOptions, { client, config: cfg, logger, fallback });
+          } else if (useMarkdown) {
             const { extractMarkdown: extract } = await import("./markdown-extractor.js");
             stats = await extract(extractionOptions, { client, config: cfg, logger, fallback });
           } else if (useSqlite) {
             const { extractSqlite: extract } = await import("./sqlite-extractor.js");
             stats = await extract(extractionOptions, { client, config: cfg, logger, fallback });
           } else {
-            stats = await extractJsonl(extractionOptions, { client, config: cfg, logger, fallback });
+            stats = await extractJsonl(extractionOptions, {
+              client,
+              config: cfg,
+              logger,
+              fallback,
+              checkpoints: options.resume ? checkpoints : undefined,
+            });
           }
 
           console.log(formatStats(stats, !!options.dryRun));
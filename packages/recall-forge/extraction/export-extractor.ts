@@ -0,0 +1,147 @@
+// Chat export extraction — whole-file histories from other assistants
+// ChatGPT conversations.json, Continue session JSON, Aider chat history, Cursor state.vscdb
+
+import { promises as fs } from "fs";
+import { basename } from "path";
+
+import type { ExtractionOptions, ExtractionRecord, ExtractionStats, FormatAdapter } from "./types.js";
+import type { ExtractionDeps } from "./jsonl-extractor.js";
+import { detectFormat, parseAiderHistory } from "./format-adapters.js";
+import { createRecordPipeline, emptyStats } from "./record-pipeline.js";
+import { openDatabase } from "./sqlite-extractor.js";
+
+const AIDER_HISTORY_FILE = ".aider.chat.history.md";
+
+/**
+ * Detect whether a file is a chat export based on its name:
+ * JSON documents (`conversations.json`, Continue sessions), Aider's
+ * default history file, or a VS Code-style state DB (`state.vscdb`).
+ */
+export function isExportFile(filePath: string): boolean {
+  return /\.(json|vscdb)$/i.test(filePath) || basename(filePath) === AIDER_HISTORY_FILE;
+}
+
+type ExportSource = "aider" | "cursor" | "json";
+
+function resolveSource(filePath: string, format?: ExtractionOptions["format"]): ExportSource {
+  if (format === "aider") return "aider";
+  if (format === "cursor") return "cursor";
+  if (format) return "json";
+  if (basename(filePath) === AIDER_HISTORY_FILE) return "aider";
+  if (/\.vscdb$/i.test(filePath)) return "cursor";
+  return "json";
+}
+
+function decodeValue(value: unknown): string | undefined {
+  if (typeof value === "string") return value;
+  if (value instanceof Uint8Array) return new TextDecoder().decode(value);
+  return undefined;
+}
+
+/**
+ * Read chat rows from a Cursor state DB as `{ key, value }` samples for the
+ * cursor adapter. `ItemTable` holds per-workspace history; `cursorDiskKV`
+ * (global storage only) holds composer sessions and their bubbles.
+ */
+async function readCursorRows(filePath: string): Promise<Record<string, unknown>[]> {
+  const db = await openDatabase(filePath);
+  const queries = [
+    "SELECT key, value FROM ItemTable WHERE key IN ('workbench.panel.aichat.view.aichat.chatdata', 'composer.composerData')",
+    "SELECT key, value FROM cursorDiskKV WHERE key LIKE 'composerData:%' OR key LIKE 'bubbleId:%'",
+  ];
+  const rows: Record<string, unknown>[] = [];
+
+  try {
+    for (const sql of queries) {
+      let result: Array<{ key: string; value: unknown }>;
+      try {
+        result = db.all<{ key: string; value: unknown }>(sql);
+      } catch {
+        continue; // table absent in this DB (workspace vs global storage)
+      }
+      for (const row of result) {
+        const raw = decodeValue(row.value);
+        if (!raw) continue;
+        try {
+          rows.push({ key: row.key, value: JSON.parse(raw) });
+        } catch {
+          // Non-JSON value — not a chat row
+        }
+      }
+    }
+  } finally {
+    db.close();
+  }
+
+  return rows;
+}
+
+async function readJsonSamples(filePath: string): Promise<Record<string, unknown>[]> {
+  const doc: unknown = JSON.parse(await fs.readFile(filePath, "utf-8"));
+  const items = Array.isArray(doc) ? doc : [doc];
+  return items.filter(
+    (item): item is Record<string, unknown> => !!item && typeof item === "object" && !Array.isArray(item),
+  );
+}
+
+/**
+ * Extract memories from a chat export.
+ *
+ * Each source is loaded whole, turned into ExtractionRecords by its format
+ * adapter, then run through the same redact → filter → dedup → store
+ * pipeline as JSONL extraction. JSON documents may hold one conversation
+ * (Continue) or an array of them (ChatGPT); each element is one sample.
+ */
+export async function extractExport(
+  options: ExtractionOptions,
+  deps: ExtractionDeps,
+): Promise<ExtractionStats> {
+  const startTime = Date.now();
+  const stats = emptyStats();
+  const { filePath, format } = options;
+  const source = resolveSource(filePath, format);
+
+  let records: ExtractionRecord[] = [];
+
+  try {
+    if (source === "aider") {
+      const content = await fs.readFile(filePath, "utf-8");
+      stats.linesRead = content.split("\n").length;
+      stats.linesParsed = stats.linesRead;
+      records = parseAiderHistory(content);
+      deps.logger.info("Format detected: aider");
+    } else {
+      const samples = source === "cursor"
+        ? await readCursorRows(filePath)
+        : await readJsonSamples(filePath);
+      stats.linesRead = samples.length;
+
+      let adapter: FormatAdapter | null = null;
+      for (const [index, sample] of samples.entries()) {
+        if (!adapter) {
+          adapter = detectFormat(sample, source === "cursor" ? "cursor" : format);
+          deps.logger.info(`Format detected: ${adapter.name}`);
+        }
+        const extracted = adapter.extract(sample, index + 1);
+        if (extracted.length > 0) stats.linesParsed++;
+        else stats.linesSkipped++;
+        records.push(...extracted);
+      }
+    }
+  } catch (err) {
+    deps.logger.warn(`Failed to read ${filePath}: ${err instanceof Error ? err.message : "unknown"}`);
+    stats.errors++;
+    stats.durationMs = Date.now() - startTime;
+    return stats;
+  }
+
+  stats.recordsExtracted = records.length;
+  const pipeline = createRecordPipeline(options, deps, stats, "chat-export");
+  for (const record of records) {
+    if (pipeline.full) break;
+    await pipeline.process(record);
+  }
+
+  stats.durationMs = Date.now() - startTime;
+  return stats;
+}
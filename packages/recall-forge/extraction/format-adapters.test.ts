@@ -1,5 +1,5 @@
 import { describe, expect, it } from "vitest";
-import { detectFormat } from "./format-adapters.js";
+import { detectFormat, parseAiderHistory } from "./format-adapters.js";
 
 describe("OpenClaw session extraction", () => {
   it("detects the nested OpenClaw session message format", () => {
@@ -80,3 +80,216 @@ describe("OpenClaw session extraction", () => {
     ]);
   });
 });
+
+describe("ChatGPT export extraction", () => {
+  const conversation = {
+    title: "Queue design",
+    conversation_id: "conv-1",
+    create_time: 1714557600,
+    current_node: "a2",
+    mapping: {
+      root: { id: "root", message: null, parent: null, children: ["u1"] },
+      u1: {
+        id: "u1",
+        parent: "root",
+        children: ["a1", "a2"],
+        message: {
+          id: "u1",
+          author: { role: "user" },
+          create_time: 1714557601.5,
+          content: { content_type: "text", parts: ["Should the queue use Redis streams?"] },
+        },
+      },
+      a1: {
+        id: "a1",
+        parent: "u1",
+        children: [],
+        message: {
+          id: "a1",
+          author: { role: "assistant" },
+          content: { content_type: "text", parts: ["Discarded regeneration."] },
+        },
+      },
+      a2: {
+        id: "a2",
+        parent: "u1",
+        children: [],
+        message: {
+          id: "a2",
+          author: { role: "assistant" },
+          create_time: 1714557605,
+          content: { content_type: "text", parts: ["Yes — streams give consumer groups."] },
+        },
+      },
+    },
+  };
+
+  it("detects a conversations.json element and follows only the current branch", () => {
+    const adapter = detectFormat(conversation);
+    expect(adapter.name).toBe("chatgpt");
+
+    const records = adapter.extract(conversation, 1);
+    expect(records.map((r) => [r.role, r.text])).toEqual([
+      ["user", "Should the queue use Redis streams?"],
+      ["assistant", "Yes — streams give consumer groups."],
+    ]);
+    expect(records[0]).toMatchObject({
+      sourceFormat: "chatgpt",
+      sourceId: "u1",
+      conversationId: "conv-1",
+      conversationTitle: "Queue design",
+      timestamp: "2024-05-01T10:00:01.500Z",
+    });
+  });
+});
+
+describe("Continue session extraction", () => {
+  it("maps history messages and text parts", () => {
+    const session = {
+      sessionId: "s-42",
+      title: "Fix flaky test",
+      workspaceDirectory: "/code/app",
+      history: [
+        { message: { role: "user", content: "Why does the retry test flake?" }, contextItems: [] },
+        {
+          message: {
+            role: "assistant",
+            content: [
+              { type: "text", text: "The clock is not mocked." },
+              { type: "imageUrl", imageUrl: { url: "data:" } },
+            ],
+          },
+          contextItems: [],
+        },
+      ],
+    };
+
+    const adapter = detectFormat(session);
+    expect(adapter.name).toBe("continue");
+    expect(adapter.extract(session, 1)).toEqual([
+      {
+        text: "Why does the retry test flake?",
+        role: "user",
+        sourceFormat: "continue",
+        lineNumber: 1,
+        timestamp: undefined,
+        sourceId: "s-42:0",
+        conversationId: "s-42",
+        conversationTitle: "Fix flaky test",
+      },
+      {
+        text: "The clock is not mocked.",
+        role: "assistant",
+        sourceFormat: "continue",
+        lineNumber: 1,
+        timestamp: undefined,
+        sourceId: "s-42:1",
+        conversationId: "s-42",
+        conversationTitle: "Fix flaky test",
+      },
+    ]);
+  });
+});
+
+describe("Cursor state DB extraction", () => {
+  it("extracts chat panel bubbles with user/ai roles", () => {
+    const row = {
+      key: "workbench.panel.aichat.view.aichat.chatdata",
+      value: {
+        tabs: [
+          {
+            tabId: "tab-1",
+            chatTitle: "Auth refactor",
+            lastSendTime: 1714557600000,
+            bubbles: [
+              { id: "b1", type: "user", text: "Move token refresh into middleware" },
+              { id: "b2", type: "ai", rawText: "Done — refresh now runs before each request." },
+            ],
+          },
+        ],
+      },
+    };
+
+    const adapter = detectFormat(row);
+    expect(adapter.name).toBe("cursor");
+    const records = adapter.extract(row, 3);
+    expect(records.map((r) => [r.role, r.sourceId, r.timestamp])).toEqual([
+      ["user", "b1", "2024-05-01T10:00:00.000Z"],
+      ["assistant", "b2", "2024-05-01T10:00:00.000Z"],
+    ]);
+    expect(records[0].conversationTitle).toBe("Auth refactor");
+  });
+
+  it("extracts composer sessions and standalone bubble rows", () => {
+    const composer = detectFormat({ key: "composerData:c1", value: {} });
+    expect(composer.name).toBe("cursor");
+
+    const inline = composer.extract(
+      {
+        key: "composerData:c1",
+        value: {
+          composerId: "c1",
+          name: "Migrations",
+          createdAt: 1714557600000,
+          conversation: [
+            { bubbleId: "x1", type: 1, text: "Add a down migration" },
+            { bubbleId: "x2", type: 2, text: "" },
+          ],
+        },
+      },
+      1,
+    );
+    expect(inline).toHaveLength(1);
+    expect(inline[0]).toMatchObject({ role: "user", sourceId: "x1", conversationId: "c1" });
+
+    const bubble = composer.extract(
+      { key: "bubbleId:c1:x3", value: { type: 2, text: "Added 0042_down.sql", createdAt: "2024-05-01T10:05:00Z" } },
+      2,
+    );
+    expect(bubble).toEqual([
+      {
+        text: "Added 0042_down.sql",
+        role: "assistant",
+        sourceFormat: "cursor",
+        lineNumber: 2,
+        timestamp: "2024-05-01T10:05:00.000Z",
+        sourceId: "x3",
+        conversationId: "c1",
+      },
+    ]);
+  });
+});
+
+describe("Aider history extraction", () => {
+  it("splits user input, assistant replies and tool output", () => {
+    const history = [
+      "# aider chat started at 2024-05-01 10:00:00",
+      "",
+      "> Aider v0.40.0",
+      "> Added parser.py to the chat.",
+      "",
+      "#### fix the off-by-one in the tokenizer",
+      "#### keep the public API unchanged",
+      "",
+      "The loop bound should be exclusive:",
+      "",
+      "```python",
+      "#### not a user line",
+      "for i in range(len(tokens)):",
+      "```",
+      "",
+      "> Applied edit to parser.py",
+    ].join("\n");
+
+    const records = parseAiderHistory(history);
+    expect(records.map((r) => [r.role, r.lineNumber])).toEqual([
+      ["system", 3],
+      ["user", 6],
+      ["assistant", 9],
+      ["system", 16],
+    ]);
+    expect(records[1].text).toBe("fix the off-by-one in the tokenizer\nkeep the public API unchanged");
+    expect(records[2].text).toContain("#### not a user line");
+    expect(records[1].timestamp).toBe(new Date("2024-05-01T10:00:00").toISOString());
+  });
+});
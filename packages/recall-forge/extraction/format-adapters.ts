@@ -22,6 +22,37 @@ function extractMessageText(msg: Record<string, unknown>): string[] {
   return texts;
 }
 
+/**
+ * Normalize the timestamp shapes chat exports use: epoch seconds (ChatGPT),
+ * epoch milliseconds (Cursor, Continue), numeric strings, or date strings.
+ */
+function toIsoTimestamp(value: unknown): string | undefined {
+  let date: Date | undefined;
+  if (typeof value === "number" && Number.isFinite(value) && value > 0) {
+    date = new Date(value < 1e12 ? value * 1000 : value);
+  } else if (typeof value === "string" && value.trim()) {
+    const numeric = Number(value);
+    date = Number.isFinite(numeric)
+      ? new Date(numeric < 1e12 ? numeric * 1000 : numeric)
+      : new Date(value);
+  }
+  return date && !Number.isNaN(date.getTime()) ? date.toISOString() : undefined;
+}
+
+function normalizeRole(role: unknown): ExtractionRecord["role"] {
+  return role === "user" || role === "assistant" || role === "system" ? role : "unknown";
+}
+
+function asRecord(value: unknown): Record<string, unknown> | undefined {
+  return value && typeof value === "object" && !Array.isArray(value)
+    ? (value as Record<string, unknown>)
+    : undefined;
+}
+
+function asString(value: unknown): string | undefined {
+  return typeof value === "string" && value.length > 0 ? value : undefined;
+}
+
 const TEXT_BLOCK_TYPES = new Set(["text", "input_text", "output_text", "markdown"]);
 
 function extractOpenClawSessionText(value: unknown): string[] {
@@ -260,6 +291,243 @@ const codexAdapter: FormatAdapter = {
   },
 };
 
+/**
+ * ChatGPT data export — one conversation per element of `conversations.json`
+ * (or per line when converted to JSONL).
+ * Conversations have: { title, create_time, current_node, mapping: { [id]: { message, parent, children } } }
+ * Only the branch ending at `current_node` is extracted, so regenerated or
+ * edited-away replies are skipped.
+ */
+const chatgptAdapter: FormatAdapter = {
+  name: "chatgpt",
+
+  detect(sample) {
+    return asRecord(sample.mapping) !== undefined && ("current_node" in sample || "create_time" in sample);
+  },
+
+  extract(line, lineNumber) {
+    const mapping = asRecord(line.mapping);
+    if (!mapping) return [];
+
+    const nodes: Record<string, unknown>[] = [];
+    const current = asString(line.current_node);
+    if (current && asRecord(mapping[current])) {
+      const seen = new Set<string>();
+      let id: string | undefined = current;
+      while (id && !seen.has(id) && asRecord(mapping[id])) {
+        seen.add(id);
+        const node = mapping[id] as Record<string, unknown>;
+        nodes.push(node);
+        id = asString(node.parent);
+      }
+      nodes.reverse();
+    } else {
+      // No active branch recorded — fall back to every node in creation order
+      const all = Object.values(mapping).map(asRecord).filter((n): n is Record<string, unknown> => !!n);
+      const createdAt = (n: Record<string, unknown>) => Number(asRecord(n.message)?.create_time ?? 0);
+      nodes.push(...all.sort((a, b) => createdAt(a) - createdAt(b)));
+    }
+
+    const conversationId = asString(line.conversation_id) ?? asString(line.id);
+    const conversationTitle = asString(line.title);
+    const records: ExtractionRecord[] = [];
+
+    for (const node of nodes) {
+      const message = asRecord(node.message);
+      if (!message) continue;
+      if (asRecord(message.metadata)?.is_visually_hidden_from_conversation === true) continue;
+
+      const content = asRecord(message.content);
+      const parts = Array.isArray(content?.parts) ? content.parts : [];
+      const texts = parts.filter((p): p is string => typeof p === "string");
+      if (typeof content?.text === "string") texts.push(content.text);
+      const text = texts.join("\n").trim();
+      if (!text) continue;
+
+      records.push({
+        text,
+        role: normalizeRole(asRecord(message.author)?.role),
+        sourceFormat: "chatgpt",
+        lineNumber,
+        timestamp: toIsoTimestamp(message.create_time ?? line.create_time),
+        sourceId: asString(message.id) ?? asString(node.id),
+        conversationId,
+        conversationTitle,
+      });
+    }
+
+    return records;
+  },
+};
+
+/**
+ * Continue session file (`~/.continue/sessions/<id>.json`)
+ * Sessions have: { sessionId, title, workspaceDirectory, history: [{ message: { role, content } }] }
+ * Messages carry no timestamps; the session's `dateCreated` is used when present.
+ */
+const continueAdapter: FormatAdapter = {
+  name: "continue",
+
+  detect(sample) {
+    return Array.isArray(sample.history) && ("sessionId" in sample || "workspaceDirectory" in sample);
+  },
+
+  extract(line, lineNumber) {
+    const history = Array.isArray(line.history) ? line.history : [];
+    const sessionId = asString(line.sessionId);
+    const timestamp = toIsoTimestamp(line.dateCreated);
+    const records: ExtractionRecord[] = [];
+
+    history.forEach((item, index) => {
+      const entry = asRecord(item);
+      const message = asRecord(entry?.message) ?? entry;
+      if (!message) return;
+
+      // content is a string, or an array of { type: "text", text } / { type: "imageUrl" } parts
+      const texts = extractMessageText(message);
+      const text = texts.join("\n").trim();
+      if (!text) return;
+
+      records.push({
+        text,
+        role: normalizeRole(message.role),
+        sourceFormat: "continue",
+        lineNumber,
+        timestamp,
+        sourceId: sessionId ? `${sessionId}:${index}` : undefined,
+        conversationId: sessionId,
+        conversationTitle: asString(line.title),
+      });
+    });
+
+    return records;
+  },
+};
+
+/** Cursor state DB keys that hold chat history (ItemTable and cursorDiskKV) */
+const CURSOR_CHAT_KEY = "workbench.panel.aichat.view.aichat.chatdata";
+const CURSOR_COMPOSER_KEY = "composer.composerData";
+
+function cursorBubbleRole(type: unknown): ExtractionRecord["role"] {
+  if (type === "user" || type === 1) return "user";
+  if (type === "ai" || type === 2) return "assistant";
+  return "unknown";
+}
+
+function cursorComposerRecords(
+  composer: Record<string, unknown>,
+  lineNumber: number,
+): ExtractionRecord[] {
+  const conversation = Array.isArray(composer.conversation) ? composer.conversation : [];
+  const conversationId = asString(composer.composerId);
+  const conversationTitle = asString(composer.name);
+  const fallbackTime = toIsoTimestamp(composer.createdAt);
+  const records: ExtractionRecord[] = [];
+
+  for (const item of conversation) {
+    const bubble = asRecord(item);
+    const text = asString(bubble?.text)?.trim();
+    if (!bubble || !text) continue;
+    records.push({
+      text,
+      role: cursorBubbleRole(bubble.type),
+      sourceFormat: "cursor",
+      lineNumber,
+      timestamp: toIsoTimestamp(asRecord(bubble.timingInfo)?.clientStartTime) ?? fallbackTime,
+      sourceId: asString(bubble.bubbleId),
+      conversationId,
+      conversationTitle,
+    });
+  }
+
+  return records;
+}
+
+/**
+ * Cursor SQLite state DB (`state.vscdb`) — one sample per key/value row.
+ * Rows are { key, value } with value already JSON-parsed. Handles:
+ *   - legacy chat panel:   ItemTable `workbench.panel.aichat.view.aichat.chatdata` → tabs[].bubbles[]
+ *   - composer (workspace): ItemTable `composer.composerData` → allComposers[].conversation[]
+ *   - composer (global):    cursorDiskKV `composerData:<id>` with inline conversation
+ *   - composer bubbles:     cursorDiskKV `bubbleId:<composerId>:<bubbleId>`
+ * Bubble type is "user"/"ai" in the chat panel and 1/2 in composer.
+ */
+const cursorAdapter: FormatAdapter = {
+  name: "cursor",
+
+  detect(sample) {
+    const key = sample.key;
+    return (
+      typeof key === "string" &&
+      asRecord(sample.value) !== undefined &&
+      (key === CURSOR_CHAT_KEY ||
+        key === CURSOR_COMPOSER_KEY ||
+        key.startsWith("composerData:") ||
+        key.startsWith("bubbleId:"))
+    );
+  },
+
+  extract(line, lineNumber) {
+    const key = line.key as string;
+    const value = asRecord(line.value);
+    if (!value) return [];
+
+    if (key === CURSOR_CHAT_KEY) {
+      const records: ExtractionRecord[] = [];
+      const tabs = Array.isArray(value.tabs) ? value.tabs : [];
+      for (const entry of tabs) {
+        const tab = asRecord(entry);
+        if (!tab) continue;
+        const bubbles = Array.isArray(tab.bubbles) ? tab.bubbles : [];
+        for (const item of bubbles) {
+          const bubble = asRecord(item);
+          const text = (asString(bubble?.text) ?? asString(bubble?.rawText))?.trim();
+          if (!bubble || !text) continue;
+          records.push({
+            text,
+            role: cursorBubbleRole(bubble.type),
+            sourceFormat: "cursor",
+            lineNumber,
+            timestamp: toIsoTimestamp(tab.lastSendTime),
+            sourceId: asString(bubble.id),
+            conversationId: asString(tab.tabId),
+            conversationTitle: asString(tab.chatTitle),
+          });
+        }
+      }
+      return records;
+    }
+
+    if (key === CURSOR_COMPOSER_KEY) {
+      const composers = Array.isArray(value.allComposers) ? value.allComposers : [];
+      return composers
+        .map(asRecord)
+        .filter((c): c is Record<string, unknown> => !!c)
+        .flatMap((composer) => cursorComposerRecords(composer, lineNumber));
+    }
+
+    if (key.startsWith("composerData:")) {
+      return cursorComposerRecords(value, lineNumber);
+    }
+
+    // bubbleId:<composerId>:<bubbleId>
+    const [, composerId, bubbleId] = key.split(":");
+    const text = asString(value.text)?.trim();
+    if (!text) return [];
+    return [
+      {
+        text,
+        role: cursorBubbleRole(value.type),
+        sourceFormat: "cursor",
+        lineNumber,
+        timestamp: toIsoTimestamp(value.createdAt ?? asRecord(value.timingInfo)?.clientStartTime),
+        sourceId: asString(value.bubbleId) ?? bubbleId,
+        conversationId: composerId,
+      },
+    ];
+  },
+};
+
 /**
  * Generic fallback — tries to find text in any JSON structure
  */
@@ -293,12 +561,84 @@ const genericAdapter: FormatAdapter = {
   },
 };
 
+const AIDER_SESSION_HEADER = /^# aider chat started at (.+)$/;
+
+/**
+ * Parse an Aider chat log (`.aider.chat.history.md`) into records.
+ *
+ * Aider appends one Markdown file per repo:
+ *   `# aider chat started at 2024-05-01 10:00:00` — session header, used as the timestamp
+ *   `#### <text>` — user input, one prefixed line per input line
+ *   `> <text>` — Aider's own tool output (edits applied, commits, warnings) → system
+ *   anything else — the model's reply → assistant
+ * Lines inside fenced code blocks always belong to the current assistant reply.
+ */
+export function parseAiderHistory(content: string): ExtractionRecord[] {
+  const records: ExtractionRecord[] = [];
+  const lines = content.split("\n");
+  let timestamp: string | undefined;
+  let block: { role: ExtractionRecord["role"]; lines: string[]; start: number } | null = null;
+  let inFence = false;
+
+  const flush = () => {
+    if (!block) return;
+    const text = block.lines.join("\n").trim();
+    if (text) {
+      records.push({ text, role: block.role, sourceFormat: "aider", lineNumber: block.start, timestamp });
+    }
+    block = null;
+  };
+
+  const append = (role: ExtractionRecord["role"], text: string, lineNumber: number) => {
+    if (block?.role !== role) {
+      flush();
+      block = { role, lines: [], start: lineNumber };
+    }
+    block!.lines.push(text);
+  };
+
+  lines.forEach((line, i) => {
+    const lineNumber = i + 1;
+
+    if (inFence) {
+      append("assistant", line, lineNumber);
+      if (/^\s*```/.test(line)) inFence = false;
+      return;
+    }
+
+    const header = AIDER_SESSION_HEADER.exec(line);
+    if (header) {
+      flush();
+      timestamp = toIsoTimestamp(header[1].trim().replace(" ", "T"));
+      return;
+    }
+
+    if (line.startsWith("####")) {
+      append("user", line.replace(/^####\s?/, ""), lineNumber);
+    } else if (line.startsWith(">")) {
+      append("system", line.replace(/^>\s?/, ""), lineNumber);
+    } else if (!line.trim()) {
+      // Blank lines separate paragraphs within a block; they never start one
+      block?.lines.push("");
+    } else {
+      if (/^\s*```/.test(line)) inFence = true;
+      append("assistant", line, lineNumber);
+    }
+  });
+
+  flush();
+  return records;
+}
+
 /** All adapters in detection priority order */
 export const FORMAT_ADAPTERS: FormatAdapter[] = [
   claudeCodeAdapter,
   openclawCacheAdapter,
   openclawSessionAdapter,
   codexAdapter,
+  chatgptAdapter,
+  continueAdapter,
+  cursorAdapter,
   genericAdapter,
 ];
 
@@ -2,8 +2,11 @@
 export { extractJsonl, formatStats } from "./jsonl-extractor.js";
 export { extractMarkdown, isMarkdownFile } from "./markdown-extractor.js";
 export { extractSqlite, isSqliteFile } from "./sqlite-extractor.js";
+export { extractExport, isExportFile } from "./export-extractor.js";
 export { redactSecrets, containsSecrets } from "./secret-redactor.js";
-export { detectFormat, FORMAT_ADAPTERS } from "./format-adapters.js";
+export { detectFormat, FORMAT_ADAPTERS, parseAiderHistory } from "./format-adapters.js";
+export { CheckpointStore } from "./checkpoint-store.js";
+export { ExtractionWatcher } from "./watch.js";
 export { registerExtractCli } from "./cli-extract.js";
 export type {
   ExtractionOptions,
@@ -12,3 +15,5 @@ export type {
   RedactionResult,
   FormatAdapter,
 } from "./types.js";
+export type { FileCheckpoint, ResumePoint } from "./checkpoint-store.js";
+export type { WatchOptions, WatchScanStats } from "./watch.js";
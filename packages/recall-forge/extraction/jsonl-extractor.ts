@@ -1,25 +1,21 @@
 // Core streaming JSONL extraction engine
 // Reads any JSONL source, redacts secrets, enriches, deduplicates, stores as memories
 
-import { createReadStream } from "fs";
-import { createInterface } from "readline";
-import { createHash } from "crypto";
+import { promises as fs } from "fs";
 
-import type { LanonasisClient, LanCreateParams } from "../client.js";
+import type { LanonasisClient } from "../client.js";
 import type { LanonasisConfig } from "../config.js";
 import type { LocalFallbackWriter } from "../hooks/local-fallback.js";
-import { shouldCapture } from "../enrichment/capture-filter.js";
-import { detectMemoryType } from "../enrichment/type-detector.js";
-import { extractTags } from "../enrichment/tag-extractor.js";
-import { looksLikePromptInjection } from "../enrichment/prompt-safety.js";
 
-import type {
-  ExtractionOptions,
-  ExtractionStats,
-  ExtractionRecord,
-} from "./types.js";
-import { redactSecrets } from "./secret-redactor.js";
+import type { ExtractionOptions, ExtractionStats } from "./types.js";
 import { detectFormat } from "./format-adapters.js";
+import { createRecordPipeline, emptyStats } from "./record-pipeline.js";
+import {
+  hashLine,
+  readLinesFrom,
+  type CheckpointStore,
+  type FileCheckpoint,
+} from "./checkpoint-store.js";
 import type { FormatAdapter } from "./types.js";
 
 export interface ExtractionDeps {
@@ -27,18 +23,12 @@ export interface ExtractionDeps {
   config: LanonasisConfig;
   logger: { info(msg: string): void; warn(msg: string): void };
   fallback?: LocalFallbackWriter;
+  /** When set, JSONL extraction resumes from and advances a per-file checkpoint */
+  checkpoints?: CheckpointStore;
 }
 
-function idempotencyKey(
-  filePath: string,
-  lineNumber: number,
-  textPrefix: string,
-): string {
-  return createHash("sha256")
-    .update(`${filePath}:${lineNumber}:${textPrefix}`)
-    .digest("hex")
-    .slice(0, 32);
-}
+// Persist progress periodically so an interrupted run on a large file keeps most of it
+const CHECKPOINT_SAVE_EVERY = 1000;
 
 /**
  * Extract memories from a JSONL file with secret redaction
@@ -53,192 +43,122 @@ function idempotencyKey(
  * 7. vector dedup via searchMemories() — skip duplicates
  * 8. createMemory() with idempotency key — store
  * 9. Optional local markdown fallback
+ *
+ * Steps 2-9 live in record-pipeline.ts, shared with the chat export extractor.
+ *
+ * With `deps.checkpoints`, reading starts at the file's checkpoint and the
+ * checkpoint advances past every line whose records were all handled. It
+ * stops advancing at the first failed store (so the next run retries from
+ * there), at a limit cut mid-line, and before a trailing line that has no
+ * newline yet. Dry runs read from the checkpoint but never move it.
  */
 export async function extractJsonl(
   options: ExtractionOptions,
   deps: ExtractionDeps,
 ): Promise<ExtractionStats> {
   const startTime = Date.now();
-
-  const stats: ExtractionStats = {
-    linesRead: 0,
-    linesParsed: 0,
-    linesSkipped: 0,
-    recordsExtracted: 0,
-    recordsFiltered: 0,
-    recordsDeduped: 0,
-    recordsStored: 0,
-    secretsRedacted: 0,
-    markdownWritten: 0,
-    errors: 0,
-    durationMs: 0,
-  };
-
-  const {
-    filePath,
-    format,
-    channel = "jsonl-extract",
-    dedup = true,
-    dedupThreshold = 0.92,
-    localFallback = false,
-    dryRun = false,
-    limit,
-    strict = false,
-    roles = ["user"],
-  } = options;
+  const stats = emptyStats();
+  const pipeline = createRecordPipeline(options, deps, stats, "jsonl-extract");
+  const { filePath, dryRun = false } = options;
+  const checkpoints = deps.checkpoints;
+
+  let startOffset = 0;
+  let lineNumber = 0;
+  let format = options.format as string | undefined;
+  let inode: number | undefined;
+
+  if (checkpoints) {
+    inode = (await fs.stat(filePath)).ino;
+    const resume = await checkpoints.resumePoint(filePath);
+    startOffset = resume.offset;
+    lineNumber = resume.line;
+    format = format ?? resume.format;
+    stats.checkpoint = resume.reason;
+    stats.startOffset = resume.offset;
+    if (resume.reason === "resumed") {
+      deps.logger.info(`Resuming at byte ${resume.offset} (line ${resume.line})`);
+    } else if (resume.reason !== "new") {
+      deps.logger.warn(`File was ${resume.reason} since the last run — extracting from the start`);
+    }
+  }
 
   let adapter: FormatAdapter | null = null;
-  let totalProcessed = 0;
-
-  // Stream the file line by line
-  const fileStream = createReadStream(filePath, { encoding: "utf-8" });
-  const rl = createInterface({ input: fileStream, crlfDelay: Infinity });
+  let committed: FileCheckpoint | undefined;
+  let frozen = false;
+  let sinceSave = 0;
+
+  const commit = async (force: boolean) => {
+    if (!checkpoints || !committed || dryRun) return;
+    if (!force && sinceSave < CHECKPOINT_SAVE_EVERY) return;
+    checkpoints.set(filePath, committed);
+    await checkpoints.save();
+    sinceSave = 0;
+  };
 
-  for await (const line of rl) {
+  for await (const chunk of readLinesFrom(filePath, startOffset)) {
     stats.linesRead++;
+    lineNumber++;
 
     // Check limit
-    if (limit && totalProcessed >= limit) break;
+    if (pipeline.full) break;
 
-    // Skip empty lines
-    const trimmed = line.trim();
-    if (!trimmed) {
-      stats.linesSkipped++;
-      continue;
-    }
+    let handled = true;
+    const trimmed = chunk.bytes.toString("utf-8").trim();
 
-    // Parse JSON
-    let parsed: Record<string, unknown>;
-    try {
-      parsed = JSON.parse(trimmed);
-    } catch {
+    if (!trimmed) {
+      // Skip empty lines
       stats.linesSkipped++;
-      stats.errors++;
-      continue;
-    }
-    stats.linesParsed++;
-
-    // Auto-detect format on first valid line
-    if (!adapter) {
-      adapter = detectFormat(parsed, format);
-      deps.logger.info(`Format detected: ${adapter.name}`);
-    }
-
-    // Extract records from this line
-    const records = adapter.extract(parsed, stats.linesRead);
-    stats.recordsExtracted += records.length;
-
-    // Process each record through the pipeline
-    for (const record of records) {
-      if (limit && totalProcessed >= limit) break;
-
-      // Role filter
-      if (roles.length > 0 && !roles.includes(record.role)) continue;
-
-      // Step 1: Redact secrets FIRST — before any other processing
-      const redaction = redactSecrets(record.text);
-      stats.secretsRedacted += redaction.secretsFound;
-      const cleanText = redaction.text;
-
-      // Step 2: Capture filter
-      if (!shouldCapture(cleanText, { strict })) {
-        stats.recordsFiltered++;
-        continue;
+    } else {
+      // Parse JSON
+      let parsed: Record<string, unknown> | undefined;
+      try {
+        parsed = JSON.parse(trimmed);
+      } catch {
+        stats.linesSkipped++;
+        stats.errors++;
       }
 
-      // Step 3: Prompt injection check
-      if (looksLikePromptInjection(cleanText)) {
-        stats.recordsFiltered++;
-        continue;
-      }
+      if (parsed) {
+        stats.linesParsed++;
 
-      // Step 4: Enrichment
-      const memoryType = detectMemoryType(cleanText);
-      const tags = [
-        ...extractTags(cleanText),
-        "jsonl-extract",
-        record.sourceFormat,
-      ];
-
-      // Step 5: Vector dedup (if enabled and not dry run)
-      if (dedup && !dryRun) {
-        try {
-          const existing = await deps.client.searchMemories({
-            query: cleanText.slice(0, 500),
-            threshold: dedupThreshold,
-            limit: 1,
-          });
-          if (existing && existing.length > 0) {
-            stats.recordsDeduped++;
-            continue;
-          }
-        } catch (err) {
-          // Dedup failure is non-fatal — proceed to store
-          deps.logger.warn(
-            `Dedup check failed: ${err instanceof Error ? err.message : "unknown"}`,
-          );
+        // Auto-detect format on first valid line (or reuse the checkpointed one)
+        if (!adapter) {
+          adapter = detectFormat(parsed, format);
+          deps.logger.info(`Format detected: ${adapter.name}`);
         }
-      }
-
-      // Step 6: Store
-      if (!dryRun) {
-        const title = cleanText.slice(0, 80).replace(/\s+/g, " ").trim();
-        const params: LanCreateParams = {
-          title,
-          content: cleanText,
-          type: memoryType,
-          tags,
-          metadata: {
-            agent_id: deps.config.agentId,
-            source: record.sourceFormat,
-            channel,
-            line_number: record.lineNumber,
-            captured_at: record.timestamp ?? new Date().toISOString(),
-            secrets_redacted: redaction.secretsFound,
-          },
-          idempotency_key: idempotencyKey(
-            filePath,
-            record.lineNumber,
-            cleanText.slice(0, 200),
-          ),
-        };
 
-        try {
-          await deps.client.createMemory(params);
-          stats.recordsStored++;
-        } catch (err) {
-          stats.errors++;
-          deps.logger.warn(
-            `Store failed at line ${record.lineNumber}: ${err instanceof Error ? err.message : "unknown"}`,
-          );
-        }
-      } else {
-        // Dry run — count as "would store"
-        stats.recordsStored++;
-      }
+        // Extract records from this line
+        const records = adapter.extract(parsed, lineNumber);
+        stats.recordsExtracted += records.length;
 
-      // Step 7: Local markdown fallback
-      if (localFallback && deps.fallback) {
-        try {
-          const title = cleanText.slice(0, 80).replace(/\s+/g, " ").trim();
-          await deps.fallback.writeMemory(title, cleanText);
-          stats.markdownWritten++;
-        } catch {
-          // Non-fatal
+        // Process each record through the pipeline
+        for (const record of records) {
+          if (pipeline.full) {
+            handled = false;
+            break;
+          }
+          if (!(await pipeline.process(record))) frozen = true;
         }
       }
+    }
 
-      totalProcessed++;
-
-      // Progress indicator every 500 records
-      if (totalProcessed % 500 === 0) {
-        deps.logger.info(
-          `Progress: ${totalProcessed} records processed, ${stats.recordsStored} stored, ${stats.secretsRedacted} secrets redacted`,
-        );
-      }
+    if (handled && chunk.complete && !frozen) {
+      committed = {
+        offset: chunk.end,
+        line_start: chunk.start,
+        line_hash: hashLine(chunk.bytes),
+        line: lineNumber,
+        inode,
+        format: adapter?.name ?? format,
+        updated_at: new Date().toISOString(),
+      };
+      sinceSave++;
+      await commit(false);
     }
   }
 
+  await commit(true);
+
   stats.durationMs = Date.now() - startTime;
   return stats;
 }
@@ -270,5 +190,10 @@ export function formatStats(stats: ExtractionStats, dryRun: boolean): string {
     lines.push(`Markdown written:  ${stats.markdownWritten}`);
   }
 
+  if (stats.checkpoint) {
+    const detail = stats.checkpoint === "resumed" ? ` at byte ${stats.startOffset}` : "";
+    lines.push(`Checkpoint:        ${stats.checkpoint}${detail}`);
+  }
+
   return lines.join("\n");
 }
@@ -0,0 +1,190 @@
+// Shared per-record pipeline for the conversation extractors (JSONL, chat exports)
+// role filter → redact → capture filter → injection check → enrich → dedup → store → local fallback
+
+import { createHash } from "crypto";
+
+import type { LanCreateParams } from "../client.js";
+import { shouldCapture } from "../enrichment/capture-filter.js";
+import { detectMemoryType } from "../enrichment/type-detector.js";
+import { extractTags } from "../enrichment/tag-extractor.js";
+import { looksLikePromptInjection } from "../enrichment/prompt-safety.js";
+
+import type { ExtractionOptions, ExtractionRecord, ExtractionStats } from "./types.js";
+import type { ExtractionDeps } from "./jsonl-extractor.js";
+import { redactSecrets } from "./secret-redactor.js";
+
+export function emptyStats(): ExtractionStats {
+  return {
+    linesRead: 0,
+    linesParsed: 0,
+    linesSkipped: 0,
+    recordsExtracted: 0,
+    recordsFiltered: 0,
+    recordsDeduped: 0,
+    recordsStored: 0,
+    secretsRedacted: 0,
+    markdownWritten: 0,
+    errors: 0,
+    durationMs: 0,
+  };
+}
+
+function idempotencyKey(filePath: string, record: ExtractionRecord, textPrefix: string): string {
+  // Source message ids survive re-exports (a fresh conversations.json shifts every
+  // position), so prefer them over file position when the format has one
+  const identity = record.sourceId
+    ? `${record.sourceFormat}:${record.sourceId}`
+    : `${filePath}:${record.lineNumber}`;
+  return createHash("sha256")
+    .update(`${identity}:${textPrefix}`)
+    .digest("hex")
+    .slice(0, 32);
+}
+
+export interface RecordPipeline {
+  /** True once `limit` records have been processed */
+  readonly full: boolean;
+  /** Returns false only when the store call failed, so callers can avoid checkpointing past it */
+  process(record: ExtractionRecord): Promise<boolean>;
+}
+
+/**
+ * Build the store pipeline for one extraction run. Updates `stats` in place.
+ * `sourceTag` marks every stored memory with the extractor that produced it.
+ */
+export function createRecordPipeline(
+  options: ExtractionOptions,
+  deps: ExtractionDeps,
+  stats: ExtractionStats,
+  sourceTag: string,
+): RecordPipeline {
+  const {
+    filePath,
+    channel = sourceTag,
+    dedup = true,
+    dedupThreshold = 0.92,
+    localFallback = false,
+    dryRun = false,
+    limit,
+    strict = false,
+    roles = ["user"],
+  } = options;
+
+  let totalProcessed = 0;
+
+  return {
+    get full() {
+      return !!limit && totalProcessed >= limit;
+    },
+
+    async process(record) {
+      if (limit && totalProcessed >= limit) return true;
+
+      // Role filter
+      if (roles.length > 0 && !roles.includes(record.role)) return true;
+
+      // Step 1: Redact secrets FIRST — before any other processing
+      const redaction = redactSecrets(record.text);
+      stats.secretsRedacted += redaction.secretsFound;
+      const cleanText = redaction.text;
+
+      // Step 2: Capture filter
+      if (!shouldCapture(cleanText, { strict })) {
+        stats.recordsFiltered++;
+        return true;
+      }
+
+      // Step 3: Prompt injection check
+      if (looksLikePromptInjection(cleanText)) {
+        stats.recordsFiltered++;
+        return true;
+      }
+
+      // Step 4: Enrichment
+      const memoryType = detectMemoryType(cleanText);
+      const tags = [
+        ...extractTags(cleanText),
+        sourceTag,
+        record.sourceFormat,
+      ];
+
+      // Step 5: Vector dedup (if enabled and not dry run)
+      if (dedup && !dryRun) {
+        try {
+          const existing = await deps.client.searchMemories({
+            query: cleanText.slice(0, 500),
+            threshold: dedupThreshold,
+            limit: 1,
+          });
+          if (existing && existing.length > 0) {
+            stats.recordsDeduped++;
+            return true;
+          }
+        } catch (err) {
+          // Dedup failure is non-fatal — proceed to store
+          deps.logger.warn(
+            `Dedup check failed: ${err instanceof Error ? err.message : "unknown"}`,
+          );
+        }
+      }
+
+      // Step 6: Store
+      let stored = true;
+      if (!dryRun) {
+        const title = cleanText.slice(0, 80).replace(/\s+/g, " ").trim();
+        const params: LanCreateParams = {
+          title,
+          content: cleanText,
+          type: memoryType,
+          tags,
+          metadata: {
+            agent_id: deps.config.agentId,
+            source: record.sourceFormat,
+            channel,
+            line_number: record.lineNumber,
+            captured_at: record.timestamp ?? new Date().toISOString(),
+            secrets_redacted: redaction.secretsFound,
+            ...(record.conversationId ? { conversation_id: record.conversationId } : {}),
+            ...(record.conversationTitle ? { conversation_title: record.conversationTitle } : {}),
+          },
+          idempotency_key: idempotencyKey(filePath, record, cleanText.slice(0, 200)),
+        };
+
+        try {
+          await deps.client.createMemory(params);
+          stats.recordsStored++;
+        } catch (err) {
+          stats.errors++;
+          deps.logger.warn(
+            `Store failed at line ${record.lineNumber}: ${err instanceof Error ? err.message : "unknown"}`,
+          );
+          stored = false;
+        }
+      } else {
+        // Dry run — count as "would store"
+        stats.recordsStored++;
+      }
+
+      // Step 7: Local markdown fallback
+      if (localFallback && deps.fallback) {
+        try {
+          const title = cleanText.slice(0, 80).replace(/\s+/g, " ").trim();
+          await deps.fallback.writeMemory(title, cleanText);
+          stats.markdownWritten++;
+        } catch {
+          // Non-fatal
+        }
+      }
+
+      totalProcessed++;
+
+      // Progress indicator every 500 records
+      if (totalProcessed % 500 === 0) {
+        deps.logger.info(
+          `Progress: ${totalProcessed} records processed, ${stats.recordsStored} stored, ${stats.secretsRedacted} secrets redacted`,
+        );
+      }
+      return stored;
+    },
+  };
+}
@@ -39,8 +39,8 @@ function idempotencyKey(dbPath: string, chunkId: string): string {
     .slice(0, 32);
 }
 
-type SqliteDb = {
-  all(sql: string): SqliteChunk[];
+export type SqliteDb = {
+  all<T = Record<string, unknown>>(sql: string): T[];
   get(sql: string): Record<string, unknown> | undefined;
   close(): void;
 };
@@ -55,15 +55,15 @@ type SqliteDb = {
  *
  * No child_process or shell commands are used.
  */
-async function openDatabase(dbPath: string): Promise<SqliteDb> {
+export async function openDatabase(dbPath: string): Promise<SqliteDb> {
   // 1. Try Bun's built-in SQLite (primary path — OpenClaw runs on Bun)
   try {
     // @ts-ignore — bun:sqlite is a Bun-specific module, not in @types
     const { Database } = await import("bun:sqlite" as string);
     const db = new Database(dbPath, { readonly: true });
     return {
-      all(sql: string): SqliteChunk[] {
-        return db.query(sql).all() as SqliteChunk[];
+      all<T>(sql: string): T[] {
+        return db.query(sql).all() as T[];
       },
       get(sql: string): Record<string, unknown> | undefined {
         return db.query(sql).get() as Record<string, unknown> | undefined;
@@ -82,9 +82,9 @@ async function openDatabase(dbPath: string): Promise<SqliteDb> {
     const { DatabaseSync } = await import("node:sqlite" as string);
     const db = new DatabaseSync(dbPath, { open: true });
     return {
-      all(sql: string): SqliteChunk[] {
+      all<T>(sql: string): T[] {
         const stmt = db.prepare(sql);
-        return stmt.all() as SqliteChunk[];
+        return stmt.all() as T[];
       },
       get(sql: string): Record<string, unknown> | undefined {
         const stmt = db.prepare(sql);
@@ -173,7 +173,7 @@ export async function extractSqlite(
   // Read all chunks
   let chunks: SqliteChunk[];
   try {
-    chunks = db.all("SELECT id, path, source, start_line, end_line, model, text, updated_at FROM chunks ORDER BY updated_at ASC");
+    chunks = db.all<SqliteChunk>("SELECT id, path, source, start_line, end_line, model, text, updated_at FROM chunks ORDER BY updated_at ASC");
   } catch (err) {
     deps.logger.warn(`Failed to read chunks: ${err instanceof Error ? err.message : "unknown"}`);
     db.close();
@@ -4,7 +4,7 @@
 //
 // Options:
 //   --dry-run       Extract + redact only, don't store to API
-//   --format <fmt>  Force: claude-code | openclaw-cache | openclaw-session | codex | generic
+//   --format <fmt>  Force: claude-code | openclaw-cache | openclaw-session | codex | chatgpt | continue | generic
 //   --roles <r,r>   Roles to extract (default: user)
 //   --limit <n>     Max records
 //   --strict        Strict capture filter
@@ -8,6 +8,11 @@ export interface ExtractionRecord {
   sourceFormat: string;
   lineNumber: number;
   timestamp?: string;
+  /** Stable message id from the source (ChatGPT node, Cursor bubble); preferred over line number for idempotency */
+  sourceId?: string;
+  /** Conversation / session the message belongs to, for multi-conversation exports */
+  conversationId?: string;
+  conversationTitle?: string;
 }
 
 /** Result of the redaction pass */
@@ -30,12 +35,26 @@ export interface ExtractionStats {
   markdownWritten: number;
   errors: number;
   durationMs: number;
+  /** Checkpointed runs only: how the run started and the byte offset it started from */
+  checkpoint?: "new" | "resumed" | "truncated" | "rotated";
+  startOffset?: number;
 }
 
 /** Options for the extraction function */
 export interface ExtractionOptions {
   filePath: string;
-  format?: "claude-code" | "openclaw-cache" | "openclaw-session" | "codex" | "generic" | "markdown" | "sqlite";
+  format?:
+    | "claude-code"
+    | "openclaw-cache"
+    | "openclaw-session"
+    | "codex"
+    | "chatgpt"
+    | "continue"
+    | "cursor"
+    | "aider"
+    | "generic"
+    | "markdown"
+    | "sqlite";
   channel?: string;
   dedup?: boolean;
   dedupThreshold?: number;
@@ -49,7 +68,7 @@ export interface ExtractionOptions {
   redactPII?: boolean;
 }
 
-/** A format adapter converts a parsed JSON line into ExtractionRecords */
+/** A format adapter converts a parsed JSON line (or JSON document element / SQLite row) into ExtractionRecords */
 export interface FormatAdapter {
   name: string;
   detect(sample: Record<string, unknown>): boolean;
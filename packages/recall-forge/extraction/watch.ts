@@ -0,0 +1,133 @@
+// Watch mode — tails transcript directories and extracts new JSONL lines as they are appended
+// Polls rather than using fs.watch: recursive watching is not portable and
+// transcripts only need minute-level freshness. Each changed file is extracted
+// from its checkpoint, so a scan only reads the bytes appended since the last one.
+import { promises as fs, type Dirent } from "fs";
+import { homedir } from "os";
+import { join } from "path";
+
+import type { ExtractionOptions, ExtractionStats } from "./types.js";
+import type { ExtractionDeps } from "./jsonl-extractor.js";
+import { extractJsonl } from "./jsonl-extractor.js";
+import type { CheckpointStore } from "./checkpoint-store.js";
+
+// Claude Code keeps one directory per project; deeper trees are not transcripts
+const MAX_DEPTH = 4;
+const SKIP_DIRS = new Set(["node_modules", ".git"]);
+
+export type WatchScanStats = {
+  files: number;
+  changed: number;
+  recordsStored: number;
+  errors: number;
+};
+
+export type WatchOptions = Omit<ExtractionOptions, "filePath">;
+
+export function expandHome(dir: string): string {
+  if (dir === "~") return homedir();
+  return dir.startsWith("~/") ? join(homedir(), dir.slice(2)) : dir;
+}
+
+async function listJsonlFiles(dir: string, depth = 0): Promise<string[]> {
+  let entries: Dirent[];
+  try {
+    entries = await fs.readdir(dir, { withFileTypes: true });
+  } catch {
+    return []; // missing or unreadable directory — it may appear later
+  }
+
+  const files: string[] = [];
+  for (const entry of entries) {
+    const path = join(dir, entry.name);
+    if (entry.isDirectory()) {
+      if (depth < MAX_DEPTH && !SKIP_DIRS.has(entry.name)) {
+        files.push(...(await listJsonlFiles(path, depth + 1)));
+      }
+    } else if (entry.isFile() && entry.name.endsWith(".jsonl")) {
+      files.push(path);
+    }
+  }
+  return files.sort();
+}
+
+export class ExtractionWatcher {
+  private running = false;
+
+  constructor(
+    private dirs: string[],
+    private options: WatchOptions,
+    private deps: ExtractionDeps & { checkpoints: CheckpointStore },
+    private intervalMs: number,
+  ) {}
+
+  /**
+   * One pass over every watched directory. Files whose size and inode still
+   * match their checkpoint are skipped without being opened.
+   */
+  async scan(): Promise<WatchScanStats> {
+    const { checkpoints } = this.deps;
+    const result: WatchScanStats = { files: 0, changed: 0, recordsStored: 0, errors: 0 };
+
+    // Reload so checkpoints written by a one-off `recall extract --resume` are honoured
+    await checkpoints.load();
+
+    for (const dir of this.dirs) {
+      for (const file of await listJsonlFiles(expandHome(dir))) {
+        result.files++;
+        let stats: ExtractionStats;
+        try {
+          const stat = await fs.stat(file);
+          const checkpoint = checkpoints.get(file);
+          if (checkpoint && checkpoint.offset === stat.size && checkpoint.inode === stat.ino) continue;
+
+          result.changed++;
+          stats = await extractJsonl({ ...this.options, filePath: file }, this.deps);
+        } catch (err) {
+          result.errors++;
+          this.deps.logger.warn(
+            `[recall-forge] watch: ${file} failed: ${err instanceof Error ? err.message : "unknown"}`,
+          );
+          continue;
+        }
+
+        result.recordsStored += stats.recordsStored;
+        result.errors += stats.errors;
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Scan now, then every `intervalMs`. Overlapping ticks are skipped while a
+   * scan is still running. Returns a stop function.
+   */
+  start(): () => void {
+    const tick = () => {
+      if (this.running) return;
+      this.running = true;
+      this.scan()
+        .then((result) => {
+          if (result.recordsStored > 0) {
+            this.deps.logger.info(
+              `[recall-forge] watch — ${result.changed} changed files, ${result.recordsStored} memories stored`,
+            );
+          }
+        })
+        .catch((err) => {
+          this.deps.logger.warn(
+            `[recall-forge] watch failed: ${err instanceof Error ? err.message : "unknown"}`,
+          );
+        })
+        .finally(() => {
+          this.running = false;
+        });
+    };
+
+    tick();
+    const timer = setInterval(tick, this.intervalMs);
+    timer.unref?.();
+    return () => clearInterval(timer);
+  }
+}
@@ -1,4 +1,5 @@
 // Phase 4 - Capture Hooks
+import { detectEvents, mergeEventTags } from "@lanonasis/event-classifier";
 import type { LanonasisClient, LanCreateParams } from "../client.js";
 import type { LanonasisConfig } from "../config.js";
 import { detectMemoryType } from "../enrichment/type-detector.js";
@@ -53,7 +54,7 @@ function createMemoryParams(
   const type = detectMemoryType(safeContent);
   const baseTags = extractTags(safeContent);
   const privacyTags = guardResult.report && guard ? guard.tagsFrom(guardResult.report) : [];
-  const tags = [...new Set([...baseTags, ...privacyTags])];
+  const tags = mergeEventTags([...new Set([...baseTags, ...privacyTags])], detectEvents(safeContent));
   const title = safeContent.slice(0, 80).replace(/\s+/g, " ").trim();
 
   // Route knowledge/project/reference to shared namespace when configured
@@ -122,10 +123,17 @@ export function createCaptureHook(
       const channel = cfg.defaultChannel;
 
       const safeCaptured: string[] = [];
+      let queued = 0;
       for (const text of captured) {
         const { params, safeContent } = createMemoryParams(text, cfg, channel, guard);
         safeCaptured.push(safeContent);
-        await client.createMemory(params);
+        try {
+          await client.createMemory(params);
+        } catch (err) {
+          // queueOnFailure: the local fallback below holds it until sync uploads it
+          if (!cfg.localFallback || !cfg.queueOnFailure) throw err;
+          queued++;
+        }
         if (privacyLog && params.metadata?.privacy) {
           // Extract the report from metadata for logging — reconstruct minimal shape
           const p = params.metadata.privacy as Record<string, unknown>;
@@ -150,6 +158,9 @@ export function createCaptureHook(
           combined,
         );
       }
+      if (queued > 0) {
+        logger.warn(`capture-hook: ${queued} memories queued locally until sync`);
+      }
     } catch (err) {
       logger.warn(
         `capture-hook error: ${err instanceof Error ? err.message : "unknown"}`,
@@ -0,0 +1,111 @@
+import { mkdtemp, readFile, rm, writeFile, mkdir } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { lanonasisConfigSchema } from "../config.js";
+import { LocalSyncEngine, contentHash, parseFallbackMarkdown } from "./local-sync.js";
+
+const cfg = lanonasisConfigSchema.parse({ apiKey: "k", projectId: "p", memoryMode: "local" });
+
+describe("parseFallbackMarkdown", () => {
+  it("parses entries and splits combined capture entries", () => {
+    const markdown =
+      "## Deploy notes\n\nUse blue/green deploys\n\n---\n" +
+      "## Captured 2 memories\n\nFirst captured fact\n\n---\n\nSecond captured fact\n\n---\n";
+
+    const entries = parseFallbackMarkdown(markdown, "2026-10-19.md");
+
+    expect(entries.map((e) => [e.title, e.content])).toEqual([
+      ["Deploy notes", "Use blue/green deploys"],
+      ["First captured fact", "First captured fact"],
+      ["Second captured fact", "Second captured fact"],
+    ]);
+    expect(entries[0].hash).toBe(contentHash("Deploy notes", "Use  blue/green\ndeploys"));
+  });
+});
+
+describe("LocalSyncEngine", () => {
+  let workspace: string;
+  const resolvePath = (p: string) => join(workspace, p);
+
+  beforeEach(async () => {
+    workspace = await mkdtemp(join(tmpdir(), "recall-sync-"));
+    await mkdir(join(workspace, "memory"), { recursive: true });
+    await writeFile(
+      join(workspace, "memory", "2026-10-19.md"),
+      "## Alpha\n\nAlpha fact\n\n---\n## Beta\n\nBeta fact\n\n---\n",
+    );
+  });
+
+  afterEach(async () => {
+    await rm(workspace, { recursive: true, force: true });
+  });
+
+  it("uploads pending entries once, skipping ones the server already has", async () => {
+    const client = {
+      searchMemories: vi.fn(async ({ query }: { query: string }) =>
+        query === "Beta fact" ? [{ id: "remote-beta" }] : []),
+      createMemory: vi.fn().mockResolvedValue({ id: "remote-alpha" }),
+    };
+    const engine = new LocalSyncEngine(client as any, cfg, resolvePath);
+
+    const first = await engine.push();
+    expect(first).toMatchObject({ uploaded: 1, deduped: 1, failed: 0 });
+    expect(client.createMemory).toHaveBeenCalledWith(expect.objectContaining({
+      title: "Alpha",
+      idempotency_key: contentHash("Alpha", "Alpha fact"),
+    }));
+
+    const second = await engine.push();
+    expect(second).toMatchObject({ uploaded: 0, alreadySynced: 2 });
+    expect(client.createMemory).toHaveBeenCalledTimes(1);
+    expect(await engine.status()).toMatchObject({ entries: 2, pending: 0 });
+  });
+
+  it("leaves everything pending while the server is unreachable", async () => {
+    const client = {
+      searchMemories: vi.fn().mockRejectedValue(new Error("fetch failed")),
+      createMemory: vi.fn(),
+    };
+    const engine = new LocalSyncEngine(client as any, cfg, resolvePath);
+
+    const stats = await engine.push();
+
+    expect(stats.failed).toBe(1);
+    expect(client.searchMemories).toHaveBeenCalledTimes(1);
+    expect(await engine.status()).toMatchObject({ pending: 2, failed: 0 });
+  });
+
+  it("mirrors remote memories and never pushes them back", async () => {
+    await writeFile(
+      join(workspace, "memory", "2026-10-19.md"),
+      "## Remote note\n\nAlready on the server\n\n---\n",
+    );
+    const client = {
+      listMemories: vi.fn().mockResolvedValue({
+        memories: [{
+          id: "remote-1",
+          title: "Remote note",
+          content: "Already on the server",
+          type: "knowledge",
+          updated_at: "2026-10-19T10:00:00Z",
+        }],
+        total: 1,
+      }),
+      searchMemories: vi.fn(),
+      createMemory: vi.fn(),
+    };
+    const engine = new LocalSyncEngine(client as any, cfg, resolvePath);
+
+    const pull = await engine.pull({ limit: 10 });
+    const mirror = await readFile(pull.file, "utf-8");
+
+    expect(client.listMemories).toHaveBeenCalledWith({ limit: 10, sort: "updated_at", order: "desc" });
+    expect(mirror).toContain("## Remote note");
+    expect(mirror).toContain("lanonasis:id=remote-1");
+
+    const push = await engine.push();
+    expect(push).toMatchObject({ scanned: 1, alreadySynced: 1 });
+    expect(client.createMemory).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,361 @@
+// Phase 8 - Local Fallback Sync
+// Reconciles <workspace>/memory/YYYY-MM-DD.md (written by LocalFallbackWriter)
+// with LanOnasis in both directions:
+//   push — uploads entries the server has not seen, keyed by content hash
+//   pull — mirrors recent remote memories into memory/lanonasis-remote.md
+// Sync state lives in memory/.recall-sync.json so a re-run never re-uploads.
+import { createHash } from "crypto";
+import { promises as fs } from "fs";
+import { join } from "path";
+import type { LanonasisClient, LanMemory } from "../client.js";
+import type { LanonasisConfig } from "../config.js";
+import { detectMemoryType } from "../enrichment/type-detector.js";
+import { extractTags } from "../enrichment/tag-extractor.js";
+
+const MEMORY_DIR = "memory";
+const STATE_FILE = ".recall-sync.json";
+export const REMOTE_MIRROR_FILE = "lanonasis-remote.md";
+const DAILY_FILE_PATTERN = /^\d{4}-\d{2}-\d{2}\.md$/;
+// Title the capture hook gives an entry that bundles several captured memories
+const COMBINED_CAPTURE_TITLE = /^Captured \d+ memories$/;
+const MAX_ATTEMPTS = 5;
+
+export type LocalEntry = {
+  file: string;
+  title: string;
+  content: string;
+  hash: string;
+};
+
+export type SyncRecord = {
+  status: "synced" | "deduped" | "remote" | "failed";
+  remote_id?: string;
+  attempts?: number;
+  error?: string;
+  updated_at: string;
+};
+
+export type SyncState = {
+  version: 1;
+  entries: Record<string, SyncRecord>;
+  last_push_at?: string;
+  last_pull_at?: string;
+};
+
+export type PushStats = {
+  scanned: number;
+  alreadySynced: number;
+  uploaded: number;
+  deduped: number;
+  failed: number;
+  skipped: number;
+};
+
+export type PullStats = {
+  fetched: number;
+  written: number;
+  file: string;
+};
+
+export type SyncStatus = {
+  files: number;
+  entries: number;
+  pending: number;
+  failed: number;
+  lastPushAt?: string;
+  lastPullAt?: string;
+};
+
+type SyncLogger = { info(msg: string): void; warn(msg: string): void };
+
+// Whitespace-insensitive so re-wrapped or re-indented entries keep their hash
+export function contentHash(title: string, content: string): string {
+  const normalized = `${title}\n${content}`.replace(/\s+/g, " ").trim().toLowerCase();
+  return createHash("sha256").update(normalized).digest("hex").slice(0, 32);
+}
+
+/**
+ * Parse a fallback file into entries. Entries are `## title`, a blank line,
+ * the content, and a `---` separator. Combined capture entries are split back
+ * into the individual memories they were built from.
+ */
+export function parseFallbackMarkdown(
+  markdown: string,
+  file: string,
+): LocalEntry[] {
+  const entries: LocalEntry[] = [];
+  const sections = markdown.split(/^## /m).slice(1);
+
+  for (const section of sections) {
+    const newline = section.indexOf("\n");
+    const title = (newline === -1 ? section : section.slice(0, newline)).trim();
+    const body = (newline === -1 ? "" : section.slice(newline + 1))
+      .replace(/\n---\s*$/, "")
+      .trim();
+    if (!title || !body) continue;
+
+    const combined = COMBINED_CAPTURE_TITLE.test(title);
+    const parts = combined
+      ? body.split(/\n\n---\n\n/).map((part) => part.trim()).filter(Boolean)
+      : [body];
+
+    for (const part of parts) {
+      // Same title the capture hook derives when it creates the memory
+      const partTitle = combined ? part.slice(0, 80).replace(/\s+/g, " ").trim() : title;
+      entries.push({
+        file,
+        title: partTitle,
+        content: part,
+        hash: contentHash(partTitle, part),
+      });
+    }
+  }
+
+  return entries;
+}
+
+function formatRemoteMirror(memories: LanMemory[], syncedAt: string): string {
+  let out = `# LanOnasis memories\n\n`;
+  out += `_Mirrored by RecallForge at ${syncedAt}. This file is rewritten on every pull; edits are not uploaded._\n\n`;
+  for (const memory of memories) {
+    const type = memory.memory_type ?? memory.type;
+    const tags = memory.tags?.length ? ` tags=${memory.tags.join(",")}` : "";
+    out += `## ${memory.title}\n`;
+    out += `<!-- lanonasis:id=${memory.id} type=${type}${tags} updated_at=${memory.updated_at ?? ""} -->\n\n`;
+    out += `${memory.content}\n\n---\n`;
+  }
+  return out;
+}
+
+export class LocalSyncEngine {
+  private running = false;
+
+  constructor(
+    private client: LanonasisClient,
+    private cfg: LanonasisConfig,
+    private resolvePath: (p: string) => string,
+    private logger?: SyncLogger,
+  ) {}
+
+  private memoryPath(name: string): string {
+    return this.resolvePath(join(MEMORY_DIR, name));
+  }
+
+  async loadState(): Promise<SyncState> {
+    try {
+      const raw = JSON.parse(await fs.readFile(this.memoryPath(STATE_FILE), "utf-8")) as Partial<SyncState>;
+      if (raw && raw.version === 1 && raw.entries && typeof raw.entries === "object") {
+        return raw as SyncState;
+      }
+    } catch {
+      // Missing or unreadable state — start fresh; hashes keep re-uploads idempotent
+    }
+    return { version: 1, entries: {} };
+  }
+
+  private async saveState(state: SyncState): Promise<void> {
+    const filePath = this.memoryPath(STATE_FILE);
+    await fs.mkdir(filePath.substring(0, filePath.lastIndexOf("/")), { recursive: true });
+    const tmpPath = `${filePath}.tmp`;
+    await fs.writeFile(tmpPath, JSON.stringify(state, null, 2), "utf-8");
+    await fs.rename(tmpPath, filePath);
+  }
+
+  /** All entries in the daily fallback files, oldest file first */
+  async readLocalEntries(): Promise<LocalEntry[]> {
+    let names: string[];
+    try {
+      names = await fs.readdir(this.resolvePath(MEMORY_DIR));
+    } catch {
+      return [];
+    }
+
+    const entries: LocalEntry[] = [];
+    for (const name of names.filter((n) => DAILY_FILE_PATTERN.test(n)).sort()) {
+      const markdown = await fs.readFile(this.memoryPath(name), "utf-8");
+      entries.push(...parseFallbackMarkdown(markdown, name));
+    }
+    return entries;
+  }
+
+  private isSettled(record: SyncRecord | undefined): boolean {
+    if (!record) return false;
+    if (record.status !== "failed") return true;
+    return (record.attempts ?? 0) >= MAX_ATTEMPTS;
+  }
+
+  async status(): Promise<SyncStatus> {
+    const [state, entries] = await Promise.all([this.loadState(), this.readLocalEntries()]);
+    const hashes = new Set(entries.map((e) => e.hash));
+    let pending = 0;
+    let failed = 0;
+    for (const hash of hashes) {
+      const record = state.entries[hash];
+      if (record?.status === "failed") failed++;
+      if (!this.isSettled(record)) pending++;
+    }
+    return {
+      files: new Set(entries.map((e) => e.file)).size,
+      entries: hashes.size,
+      pending,
+      failed,
+      lastPushAt: state.last_push_at,
+      lastPullAt: state.last_pull_at,
+    };
+  }
+
+  /**
+   * Upload pending local entries. Each entry is checked against the server
+   * with the same vector dedup threshold as extraction, then created with its
+   * content hash as idempotency key, so retries and re-runs never duplicate.
+   * Entries the server rejects are retried up to MAX_ATTEMPTS times.
+   */
+  async push(opts: { dryRun?: boolean; limit?: number } = {}): Promise<PushStats> {
+    const stats: PushStats = { scanned: 0, alreadySynced: 0, uploaded: 0, deduped: 0, failed: 0, skipped: 0 };
+    const state = await this.loadState();
+    const entries = await this.readLocalEntries();
+    const seen = new Set<string>();
+
+    for (const entry of entries) {
+      if (seen.has(entry.hash)) continue;
+      seen.add(entry.hash);
+      stats.scanned++;
+
+      const record = state.entries[entry.hash];
+      if (this.isSettled(record)) {
+        if (record?.status === "failed") stats.skipped++;
+        else stats.alreadySynced++;
+        continue;
+      }
+      if (opts.limit !== undefined && stats.uploaded + stats.deduped + stats.failed >= opts.limit) {
+        stats.skipped++;
+        continue;
+      }
+      if (opts.dryRun) {
+        stats.uploaded++;
+        continue;
+      }
+
+      const now = new Date().toISOString();
+      try {
+        const existing = await this.client.searchMemories({
+          query: entry.content.slice(0, 500),
+          threshold: this.cfg.dedupeThreshold,
+          limit: 1,
+        });
+        if (existing.length > 0) {
+          state.entries[entry.hash] = { status: "deduped", remote_id: existing[0].id, updated_at: now };
+          stats.deduped++;
+          continue;
+        }
+
+        const created = await this.client.createMemory({
+          title: entry.title,
+          content: entry.content,
+          type: detectMemoryType(entry.content),
+          tags: [...new Set([...extractTags(entry.content), "local-fallback"])],
+          metadata: {
+            agent_id: this.cfg.agentId,
+            source: "local-fallback",
+            channel: this.cfg.defaultChannel,
+            source_file: entry.file,
+            content_hash: entry.hash,
+            synced_at: now,
+          },
+          idempotency_key: entry.hash,
+        });
+        state.entries[entry.hash] = { status: "synced", remote_id: created.id, updated_at: now };
+        stats.uploaded++;
+      } catch (err) {
+        stats.failed++;
+        // No HTTP status means the server is still unreachable: every entry
+        // would fail the same way, so leave them all pending for next round
+        if (!(err as { status?: number }).status) break;
+        state.entries[entry.hash] = {
+          status: "failed",
+          attempts: (record?.attempts ?? 0) + 1,
+          error: err instanceof Error ? err.message : "unknown",
+          updated_at: now,
+        };
+      }
+    }
+
+    if (!opts.dryRun) {
+      state.last_push_at = new Date().toISOString();
+      await this.saveState(state);
+    }
+    return stats;
+  }
+
+  /**
+   * Mirror the most recently updated remote memories into
+   * memory/lanonasis-remote.md so `memoryMode: "local"` agents read fresh
+   * data. Their hashes are recorded so push never sends them back.
+   */
+  async pull(opts: { limit?: number } = {}): Promise<PullStats> {
+    const limit = opts.limit ?? this.cfg.syncPullLimit;
+    const { memories } = await this.client.listMemories({ limit, sort: "updated_at", order: "desc" });
+    const syncedAt = new Date().toISOString();
+    const file = this.memoryPath(REMOTE_MIRROR_FILE);
+
+    await fs.mkdir(file.substring(0, file.lastIndexOf("/")), { recursive: true });
+    const tmpPath = `${file}.tmp`;
+    await fs.writeFile(tmpPath, formatRemoteMirror(memories, syncedAt), "utf-8");
+    await fs.rename(tmpPath, file);
+
+    const state = await this.loadState();
+    for (const memory of memories) {
+      const hash = contentHash(memory.title, memory.content);
+      if (!state.entries[hash]) {
+        state.entries[hash] = { status: "remote", remote_id: memory.id, updated_at: syncedAt };
+      }
+    }
+    state.last_pull_at = syncedAt;
+    await this.saveState(state);
+
+    return { fetched: memories.length, written: memories.length, file };
+  }
+
+  /**
+   * Push, then pull when the agent reads local memory. Overlapping calls
+   * (timer plus CLI) are collapsed into the one already running.
+   */
+  async sync(): Promise<{ push: PushStats; pull?: PullStats } | null> {
+    if (this.running) return null;
+    this.running = true;
+    try {
+      const push = await this.push();
+      if (push.uploaded || push.deduped || push.failed) {
+        this.logger?.info(
+          `[recall-forge] sync push — uploaded: ${push.uploaded} | deduped: ${push.deduped} | failed: ${push.failed}`,
+        );
+      }
+      const pull = this.cfg.memoryMode !== "remote" ? await this.pull() : undefined;
+      return { push, pull };
+    } finally {
+      this.running = false;
+    }
+  }
+
+  /**
+   * Background sync for `syncMode` realtime/batch: once now, then every
+   * `syncIntervalMs`. Returns a stop function. Manual mode never schedules —
+   * use `openclaw recall sync` instead.
+   */
+  start(): () => void {
+    if (this.cfg.syncMode === "manual") return () => {};
+
+    const tick = () => {
+      this.sync().catch((err) => {
+        this.logger?.warn(
+          `[recall-forge] sync failed: ${err instanceof Error ? err.message : "unknown"}`,
+        );
+      });
+    };
+
+    tick();
+    const timer = setInterval(tick, this.cfg.syncIntervalMs);
+    timer.unref?.();
+    return () => clearInterval(timer);
+  }
+}
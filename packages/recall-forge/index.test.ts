@@ -41,6 +41,12 @@ vi.mock("./cli.js", () => ({
   registerCli: vi.fn(),
 }));
 
+vi.mock("./extraction/watch.js", () => ({
+  ExtractionWatcher: vi.fn(function MockExtractionWatcher() {
+    return { start: vi.fn() };
+  }),
+}));
+
 vi.mock("./privacy/privacy-guard.js", () => ({
   PrivacyGuard: vi.fn(function MockPrivacyGuard() {
     return {};
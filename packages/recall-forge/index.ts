@@ -4,6 +4,7 @@ import type { OpenClawPluginApi, OpenClawPlugin } from "./plugin-sdk-stub.js";
 import { lanonasisConfigSchema } from "./config.js";
 import { LanonasisClient } from "./client.js";
 import { LocalFallbackWriter } from "./hooks/local-fallback.js";
+import { LocalSyncEngine } from "./hooks/local-sync.js";
 import { createContextEngine } from "./hooks/context-engine.js";
 import { createCaptureHook, createCompactionCaptureHook } from "./hooks/capture.js";
 import { registerMemorySearchTool } from "./tools/memory-search.js";
@@ -11,6 +12,8 @@ import { registerMemoryGetTool } from "./tools/memory-get.js";
 import { registerMemoryStoreTool } from "./tools/memory-store.js";
 import { registerMemoryForgetTool } from "./tools/memory-forget.js";
 import { registerCli } from "./cli.js";
+import { CheckpointStore } from "./extraction/checkpoint-store.js";
+import { ExtractionWatcher } from "./extraction/watch.js";
 import { PrivacyGuard } from "./privacy/privacy-guard.js";
 import { PrivacyLogWriter } from "./privacy/privacy-log.js";
 
@@ -103,6 +106,23 @@ const plugin: OpenClawPlugin = {
     // 3. Local fallback writer (writes ~/.openclaw/workspace/memory/YYYY-MM-DD.md)
     const fallback = new LocalFallbackWriter(api.resolvePath);
 
+    // 3b. Local fallback sync — uploads queued entries once the API is reachable again
+    //     and mirrors recent remote memories for local-mode agents (syncMode: manual = CLI only)
+    if (cfg.localFallback) {
+      new LocalSyncEngine(client, cfg, api.resolvePath, api.logger).start();
+    }
+
+    // 3c. Transcript watch — tails extractWatchDirs and extracts appended JSONL lines,
+    //     resuming each file from its checkpoint in memory/.recall-extract.json
+    if (cfg.extractWatchDirs.length > 0) {
+      new ExtractionWatcher(
+        cfg.extractWatchDirs,
+        { channel: "extract-watch", roles: ["user"] },
+        { client, config: cfg, logger: api.logger, checkpoints: CheckpointStore.forWorkspace(api.resolvePath) },
+        cfg.extractWatchIntervalMs,
+      ).start();
+    }
+
     // 3a. Privacy guard — two-stage pipeline: credential stripping + PII masking
     //     privacyMode: 'mask' (default) | 'detect' (scan only) | 'off' (credentials only)
     //     logger passed so webhook failures are surfaced as warnings rather than silently dropped
@@ -129,7 +149,7 @@ const plugin: OpenClawPlugin = {
     const sharedLabel = cfg.sharedNamespace ? `shared: ${cfg.sharedNamespace}` : "shared: off";
     const recallStatus = cfg.autoRecall && cfg.recallMode !== "ondemand" ? "contextEngine" : cfg.recallMode === "ondemand" ? "ondemand" : "off";
     api.logger.info(
-      `[recall-forge] Ready — slots: memory+contextEngine | mode: ${cfg.captureMode} | memory: ${cfg.memoryMode} | recall: ${recallStatus} | ${sharedLabel} | fallback: ${cfg.localFallback} | privacy: ${cfg.privacyMode} | project: ${cfg.projectId}`,
+      `[recall-forge] Ready — slots: memory+contextEngine | mode: ${cfg.captureMode} | memory: ${cfg.memoryMode} | recall: ${recallStatus} | ${sharedLabel} | fallback: ${cfg.localFallback} | sync: ${cfg.localFallback ? cfg.syncMode : "off"} | privacy: ${cfg.privacyMode} | project: ${cfg.projectId}`,
     );
   },
 };
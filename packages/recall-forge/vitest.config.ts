@@ -1,6 +1,14 @@
+import { fileURLToPath } from 'node:url';
 import { defineConfig } from 'vitest/config';
 
 export default defineConfig({
+  resolve: {
+    alias: {
+      '@lanonasis/event-classifier': fileURLToPath(
+        new URL('../event-classifier/src/index.ts', import.meta.url),
+      ),
+    },
+  },
   test: {
     name: '@lanonasis/recall-forge',
     environment: 'node',
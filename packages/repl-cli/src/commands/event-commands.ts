@@ -5,8 +5,11 @@ import {
   createMemoryClient,
 } from '@lanonasis/memory-client';
 import { CommandContext } from '../config/types.js';
+import { AIRouterClient } from '../core/ai-router-client.js';
 import {
-  detectEvents,
+  classifierModeFromEnv,
+  createAiRouterClassifier,
+  createClassificationPipeline,
   eventTag,
   isEventType,
   EVENT_TYPES,
@@ -14,6 +17,7 @@ import {
   mergeEventTags,
   stripAllEventTags,
   stripEventTypeTag,
+  type ClassificationPipeline,
   type EventType,
 } from '../events/index.js';
 import { pauseReadline, resumeReadline } from '../utils/spinner-utils.js';
@@ -21,14 +25,16 @@ import { pauseReadline, resumeReadline } from '../utils/spinner-utils.js';
 /**
  * /event <subcommand> — capture-event ontology operations.
  *
- *   /event detect <text>            — dry-run the rules detector on text
+ *   /event detect <text>            — dry-run the classifier on text
  *   /event tag <memory-id> <type>   — add event:<type> to an existing memory
  *   /event untag <memory-id> [type] — remove event tag(s); all if no type
  *   /event types                    — list the 7 canonical event types
  *
- * In v0 there is NO automatic per-turn capture. Detection runs on demand
- * via `/event detect` and on explicit `create --event=<type>` / `/event tag`.
- * Per-turn auto-capture and the AI Router classifier ship in v0.1.
+ * There is NO automatic per-turn capture. Detection runs on demand via
+ * `/event detect` and on explicit `create --event=<type>` / `/event tag`.
+ * `/event detect` runs rules first, then the AI Router pass for surprise /
+ * insight when `LANONASIS_CLASSIFIER` is `hybrid` (default) and a router
+ * URL is configured.
  */
 export class EventCommands {
   private client: MemoryClient | null = null;
@@ -44,6 +50,20 @@ export class EventCommands {
     return this.client;
   }
 
+  private getPipeline(context: CommandContext): ClassificationPipeline {
+    const mode = classifierModeFromEnv(process.env.LANONASIS_CLASSIFIER);
+    const { aiRouterUrl, aiRouterApiKey, aiRouterAuthToken } = context.config;
+    const classifier = aiRouterUrl
+      ? createAiRouterClassifier(
+          new AIRouterClient({
+            baseUrl: aiRouterUrl,
+            authToken: aiRouterApiKey || aiRouterAuthToken,
+          }),
+        )
+      : undefined;
+    return createClassificationPipeline({ mode, classifier });
+  }
+
   async run(args: string[], context: CommandContext): Promise<void> {
     const sub = args[0]?.toLowerCase();
 
@@ -57,7 +77,7 @@ export class EventCommands {
     }
     if (sub === 'detect') {
       const text = args.slice(1).join(' ');
-      this.detect(text);
+      await this.detect(text, context);
       return;
     }
     if (sub === 'tag') {
@@ -75,7 +95,7 @@ export class EventCommands {
 
   private showHelp(): void {
     console.log(chalk.cyan('\nUsage: event <subcommand>\n'));
-    console.log(chalk.gray('  event detect <text>              Dry-run detector; no write'));
+    console.log(chalk.gray('  event detect <text>              Dry-run classifier; no write'));
     console.log(chalk.gray('  event tag <memory-id> <type>     Add event:<type> tag'));
     console.log(chalk.gray('  event untag <memory-id> [type]   Remove event tag(s)'));
     console.log(chalk.gray('  event types                      List the 7 canonical types'));
@@ -102,20 +122,26 @@ export class EventCommands {
     }
   }
 
-  private detect(text: string): void {
+  private async detect(text: string, context: CommandContext): Promise<void> {
     if (!text.trim()) {
       console.log(chalk.yellow('Usage: event detect <text>'));
       return;
     }
-    const events = detectEvents(text);
+    const pipeline = this.getPipeline(context);
+    const { events, classifier, degraded } = await pipeline.classifyText(text);
+    if (degraded) {
+      console.log(chalk.yellow('  AI Router classifier unavailable; showing rules-only results.'));
+    }
     if (events.length === 0) {
       console.log(chalk.gray('  No events detected.'));
       return;
     }
-    console.log(chalk.cyan(`\nDetected ${events.length} event(s):\n`));
+    const via = classifier ? `rules + ${classifier}` : 'rules';
+    console.log(chalk.cyan(`\nDetected ${events.length} event(s) via ${via}:\n`));
     for (const ev of events) {
       const conf = (ev.confidence * 100).toFixed(0);
-      console.log(`  ${chalk.bold.green(eventTag(ev.type))} ${chalk.gray(`(${conf}%)`)}`);
+      const source = ev.source === 'classifier' ? chalk.gray(' [classifier]') : '';
+      console.log(`  ${chalk.bold.green(eventTag(ev.type))} ${chalk.gray(`(${conf}%)`)}${source}`);
       console.log(`    ${chalk.gray('evidence:')} "${ev.evidence}"`);
       if (ev.payload) {
         for (const [k, v] of Object.entries(ev.payload)) {
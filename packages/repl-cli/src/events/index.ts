@@ -12,3 +12,9 @@ export {
   stripAllEventTags,
   stripEventTypeTag,
 } from './tags.js';
+export type { ClassificationPipeline, ClassificationResult } from '@lanonasis/event-classifier';
+export {
+  createClassificationPipeline,
+  createAiRouterClassifier,
+  classifierModeFromEnv,
+} from '@lanonasis/event-classifier';
@@ -8,6 +8,7 @@ export default defineConfig({
   splitting: false,
   sourcemap: true,
   treeshake: true,
+  // @lanonasis/event-classifier is unpublished and bundled from ../event-classifier
   external: [
     '@lanonasis/memory-client',
     '@lanonasis/oauth-client',
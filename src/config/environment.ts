@@ -39,6 +39,10 @@ const envSchema = z.object({
   REDIS_KEY_PREFIX: z.string().default('maas:'),
   REDIS_API_KEY_TTL: z.string().transform(Number).default('300'),
   REDIS_SESSION_TTL: z.string().transform(Number).default('28800'),
+
+  // Real-time fan-out for SSE: 'auto' uses Redis when REDIS_URL is set
+  REALTIME_BACKEND: z.enum(['auto', 'memory', 'redis']).default('auto'),
+  REALTIME_EVENT_LOG_SIZE: z.string().transform(Number).default('1000'),
   
   // Logging
   LOG_LEVEL: z.enum(['error', 'warn', 'info', 'debug']).default('info'),
@@ -105,6 +109,33 @@ const envSchema = z.object({
   METRICS_AGGREGATION_ENABLED: z.string().transform(val => val === 'true').default('true'),
   METRICS_AGGREGATION_INTERVALS: z.string().default('hour,day,week,month'),
   
+  // Outbound webhooks
+  WEBHOOKS_ENABLED: z.string().transform(val => val === 'true').default('true'),
+  WEBHOOK_MAX_ATTEMPTS: z.string().transform(Number).default('8'),
+  WEBHOOK_RETRY_BASE_MS: z.string().transform(Number).default('30000'),
+  WEBHOOK_TIMEOUT_MS: z.string().transform(Number).default('10000'),
+  WEBHOOK_POLL_INTERVAL_MS: z.string().transform(Number).default('15000'),
+  // Local development only: deliver to loopback and private-network URLs
+  WEBHOOK_ALLOW_PRIVATE_TARGETS: z.string().transform(val => val === 'true').default('false'),
+  
+  // Memory lifecycle
+  MEMORY_TRASH_RETENTION_DAYS: z.string().transform(Number).default('30'),
+  MEMORY_PURGE_ENABLED: z.string().transform(val => val === 'true').default('true'),
+  MEMORY_PURGE_INTERVAL_MS: z.string().transform(Number).default('3600000'),
+  
+  // Reasoning pipeline: 'edge' flushes through the Edge Function, 'local' runs jobs in-process
+  REASONING_MODE: z.enum(['edge', 'local']).default('edge'),
+  REASONING_WORKER_ENABLED: z.string().transform(val => val === 'true').default('false'),
+  REASONING_POLL_INTERVAL_MS: z.string().transform(Number).default('30000'),
+  REASONING_BATCH_SIZE: z.string().transform(Number).default('10'),
+  REASONING_LLM: z.enum(['openai', 'deterministic']).default('openai'),
+  REASONING_MODEL: z.string().default('gpt-4o-mini'),
+  
+  // Orchestrator: LLM parsing takes over when keyword confidence is below the threshold
+  ORCHESTRATOR_LLM_PARSER: z.enum(['openai', 'none']).default('openai'),
+  ORCHESTRATOR_MODEL: z.string().default('gpt-4o-mini'),
+  ORCHESTRATOR_MIN_CONFIDENCE: z.string().transform(Number).default('0.75'),
+  
   // Monitoring
   ENABLE_METRICS: z.string().transform(val => val === 'true').default('true'),
   METRICS_PORT: z.string().transform(Number).default('9090'),
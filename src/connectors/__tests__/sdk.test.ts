@@ -0,0 +1,85 @@
+import { z } from 'zod';
+import { ConnectorRegistry, defineAction, defineConnector } from '../sdk';
+import { stripe } from '../stripe';
+
+const echo = defineConnector({
+  name: 'echo',
+  description: 'Echoes its arguments',
+  auth: { type: 'api_key', env: 'ECHO_API_KEY' },
+  actions: {
+    say: defineAction({
+      description: 'Say something',
+      schema: z.object({
+        text: z.string().min(1),
+        times: z.number().int().default(1),
+        tone: z.enum(['calm', 'loud']).optional().describe('How to say it'),
+      }),
+      handler: ({ args, credential }) => ({ ...args, key: credential?.value }),
+    }),
+  },
+});
+
+describe('ConnectorRegistry', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.unstubAllGlobals();
+  });
+
+  it('validates arguments against the action schema and applies defaults', async () => {
+    vi.stubEnv('ECHO_API_KEY', 'env-key');
+    const registry = new ConnectorRegistry([echo]);
+
+    await expect(registry.execute('echo', 'say', { text: 'hi' })).resolves.toEqual({ text: 'hi', times: 1, key: 'env-key' });
+    await expect(registry.execute('echo', 'say', { text: '' })).rejects.toMatchObject({ code: 'invalid_args' });
+    await expect(registry.execute('echo', 'shout', {})).rejects.toMatchObject({ code: 'unknown_action' });
+    await expect(registry.execute('nope', 'say', {})).rejects.toMatchObject({ code: 'unknown_tool' });
+  });
+
+  it('prefers caller credentials and refuses to run without any', async () => {
+    vi.stubEnv('ECHO_API_KEY', '');
+    const registry = new ConnectorRegistry([echo]);
+
+    await expect(registry.execute('echo', 'say', { text: 'hi' })).rejects.toMatchObject({ code: 'unauthorized' });
+    await expect(registry.execute('echo', 'say', { text: 'hi' }, {
+      credentials: { echo: { type: 'api_key', value: 'caller-key' } },
+    })).resolves.toMatchObject({ key: 'caller-key' });
+  });
+
+  it('describes actions with their parameters and auth state', () => {
+    vi.stubEnv('ECHO_API_KEY', '');
+    const [capability] = new ConnectorRegistry([echo]).describe();
+
+    expect(capability).toEqual({
+      name: 'echo',
+      description: 'Echoes its arguments',
+      auth: { type: 'api_key', configured: false },
+      actions: [{
+        name: 'say',
+        description: 'Say something',
+        parameters: {
+          type: 'object',
+          required: ['text'],
+          properties: {
+            text: { type: 'string' },
+            times: { type: 'number' },
+            tone: { type: 'string', enum: ['calm', 'loud'], description: 'How to say it' },
+          },
+        },
+      }],
+    });
+  });
+
+  it('calls the Stripe API with the configured secret key', async () => {
+    vi.stubEnv('STRIPE_SECRET_KEY', 'sk_test_123');
+    const fetchMock = vi.fn(async () => new Response(JSON.stringify({ object: 'list', data: [] }), { status: 200 }));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const result = await new ConnectorRegistry([stripe]).execute('stripe', 'list-charges', { limit: 5, customer: 'cus_1' });
+
+    expect(result).toEqual({ object: 'list', data: [] });
+    expect(fetchMock).toHaveBeenCalledWith(
+      'https://api.stripe.com/v1/charges?limit=5&customer=cus_1',
+      { headers: { Authorization: 'Bearer sk_test_123' } },
+    );
+  });
+});
@@ -1,13 +1,19 @@
-import { stripeConnector } from './stripe';
-import { memoryConnector } from './memory';
-import { uiConnector } from './ui';
+import { stripe, stripeConnector } from './stripe';
+import { memory, memoryConnector } from './memory';
+import { ui, uiConnector } from './ui';
+import { ConnectorContext, ConnectorRegistry } from './sdk';
 
-type ToolConnector = (action: string, args: unknown) => unknown | Promise<unknown>;
+type ToolConnector = (action: string, args: unknown, context?: ConnectorContext) => unknown | Promise<unknown>;
 
-export const toolRegistry: Record<string, ToolConnector> = {
-  stripe: stripeConnector,
-  memory: memoryConnector,
-  ui: uiConnector,
-};
+export const connectorRegistry = new ConnectorRegistry([memory, ui, stripe]);
 
-export { stripeConnector, memoryConnector, uiConnector };
\ No newline at end of file
+export const toolRegistry: Record<string, ToolConnector> = Object.fromEntries(
+  connectorRegistry.names().map((name) => [
+    name,
+    (action: string, args: unknown, context?: ConnectorContext) => connectorRegistry.execute(name, action, args, context),
+  ]),
+);
+
+export { stripeConnector, memoryConnector, uiConnector };
+export { stripe, memory, ui };
+export * from './sdk';
@@ -2,6 +2,8 @@
  * Memory Connector for Orchestrator
  * Integrates with the Memory as a Service (MaaS) platform
  */
+import { z } from 'zod';
+import { ConnectorCredential, ConnectorRegistry, defineAction, defineConnector } from './sdk';
 
 export interface MemoryConnectorOptions {
   apiUrl?: string;
@@ -11,24 +13,24 @@ export interface MemoryConnectorOptions {
 
 export interface MemorySearchArgs {
   query: string;
-  limit?: number;
-  type?: string[];
-  threshold?: number;
+  limit?: number | undefined;
+  type?: string[] | undefined;
+  threshold?: number | undefined;
 }
 
 export interface MemoryCreateArgs {
   title: string;
   content: string;
-  memory_type?: string;
-  tags?: string[];
-  topic_id?: string;
+  memory_type?: string | undefined;
+  tags?: string[] | undefined;
+  topic_id?: string | undefined;
 }
 
 export interface MemoryListArgs {
-  limit?: number;
-  offset?: number;
-  memory_types?: string[];
-  tags?: string[];
+  limit?: number | undefined;
+  offset?: number | undefined;
+  memory_types?: string[] | undefined;
+  tags?: string[] | undefined;
 }
 
 export class MemoryConnector {
@@ -156,39 +158,98 @@ export class MemoryConnector {
   }
 }
 
+const credentialOptions = (credential: ConnectorCredential | undefined): MemoryConnectorOptions =>
+  credential?.type === 'bearer' ? { authToken: credential.value } : { apiKey: credential?.value };
+
+const idSchema = z.object({ id: z.string().min(1) });
+
+export const memory = defineConnector({
+  name: 'memory',
+  description: 'Memory as a Service: search, create, list and organize memories and topics',
+  // Falls back to MEMORY_AUTH_TOKEN inside MemoryConnector when neither is set
+  auth: { type: 'api_key', env: 'MEMORY_API_KEY', optional: true },
+  actions: {
+    search: defineAction({
+      description: 'Semantic search over memories',
+      schema: z.object({
+        query: z.string().min(1),
+        limit: z.coerce.number().int().min(1).max(100).optional(),
+        type: z.array(z.string()).optional().describe('Memory types to search'),
+        threshold: z.number().min(0).max(1).optional(),
+      }),
+      handler: ({ args, credential }) => new MemoryConnector(credentialOptions(credential)).search(args),
+    }),
+    create: defineAction({
+      description: 'Create a memory',
+      schema: z.object({
+        title: z.string().min(1),
+        content: z.string().min(1),
+        memory_type: z.string().optional(),
+        tags: z.array(z.string()).optional(),
+        topic_id: z.string().optional(),
+      }),
+      handler: ({ args, credential }) => new MemoryConnector(credentialOptions(credential)).create(args),
+    }),
+    list: defineAction({
+      description: 'List memories, newest first',
+      schema: z.object({
+        limit: z.coerce.number().int().min(1).max(100).optional(),
+        offset: z.coerce.number().int().min(0).optional(),
+        memory_types: z.array(z.string()).optional(),
+        tags: z.array(z.string()).optional(),
+      }),
+      handler: ({ args, credential }) => new MemoryConnector(credentialOptions(credential)).list(args),
+    }),
+    get: defineAction({
+      description: 'Get one memory by id',
+      schema: idSchema,
+      handler: ({ args, credential }) => new MemoryConnector(credentialOptions(credential)).get(args.id),
+    }),
+    update: defineAction({
+      description: 'Update fields of a memory',
+      schema: idSchema.extend({
+        updates: z.object({
+          title: z.string().optional(),
+          content: z.string().optional(),
+          memory_type: z.string().optional(),
+          tags: z.array(z.string()).optional(),
+          topic_id: z.string().optional(),
+        }),
+      }),
+      handler: ({ args, credential }) =>
+        new MemoryConnector(credentialOptions(credential)).update(args.id, args.updates as Partial<MemoryCreateArgs>),
+    }),
+    delete: defineAction({
+      description: 'Delete a memory by id',
+      schema: idSchema,
+      handler: ({ args, credential }) => new MemoryConnector(credentialOptions(credential)).delete(args.id),
+    }),
+    stats: defineAction({
+      description: 'Memory usage statistics',
+      schema: z.object({}),
+      handler: ({ credential }) => new MemoryConnector(credentialOptions(credential)).getStats(),
+    }),
+    'list-topics': defineAction({
+      description: 'List topics',
+      schema: z.object({}),
+      handler: ({ credential }) => new MemoryConnector(credentialOptions(credential)).getTopics(),
+    }),
+    'create-topic': defineAction({
+      description: 'Create a topic',
+      schema: z.object({
+        name: z.string().min(1),
+        description: z.string().optional(),
+        parent_id: z.string().optional(),
+      }),
+      handler: ({ args, credential }) =>
+        new MemoryConnector(credentialOptions(credential)).createTopic(args.name, args.description, args.parent_id),
+    }),
+  },
+});
+
 // Factory function for orchestrator integration
 export function memoryConnector(action: string, args: unknown) {
-  const connector = new MemoryConnector();
-
-  switch (action) {
-    case 'search':
-      return connector.search(args as MemorySearchArgs);
-    case 'create':
-      return connector.create(args as MemoryCreateArgs);
-    case 'list':
-      return connector.list(args as MemoryListArgs);
-    case 'get':
-      return connector.get((args as Record<string, unknown>).id as string);
-    case 'update':
-      return connector.update(
-        (args as Record<string, unknown>).id as string,
-        (args as Record<string, unknown>).updates as Partial<MemoryCreateArgs>
-      );
-    case 'delete':
-      return connector.delete((args as Record<string, unknown>).id as string);
-    case 'stats':
-      return connector.getStats();
-    case 'list-topics':
-      return connector.getTopics();
-    case 'create-topic':
-      return connector.createTopic(
-        (args as Record<string, unknown>).name as string,
-        (args as Record<string, unknown>).description as string | undefined,
-        (args as Record<string, unknown>).parent_id as string | undefined
-      );
-    default:
-      throw new Error(`Unknown memory action: ${action}`);
-  }
+  return new ConnectorRegistry([memory]).execute('memory', action, args);
 }
 
-export default memoryConnector;
\ No newline at end of file
+export default memoryConnector;
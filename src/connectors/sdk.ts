@@ -0,0 +1,220 @@
+/**
+ * Connector SDK for the Orchestrator
+ * Connectors declare typed actions with zod schemas and the credential they
+ * need; the registry validates arguments, resolves auth and describes what
+ * is available so parsers and clients can discover capabilities.
+ */
+import { z, ZodTypeAny } from 'zod';
+
+export type ConnectorCredential = {
+  type: 'bearer' | 'api_key';
+  value: string;
+};
+
+export type ConnectorAuth =
+  | { type: 'none' }
+  | {
+    type: 'bearer' | 'api_key';
+    /** Environment variable holding the server's own credential */
+    env: string;
+    /** Run without a credential instead of failing */
+    optional?: boolean;
+  };
+
+export interface ConnectorContext {
+  user_id?: string | undefined;
+  session_id?: string | undefined;
+  /** Caller-supplied credentials keyed by connector name; they win over env */
+  credentials?: Record<string, ConnectorCredential> | undefined;
+}
+
+export interface ActionInvocation<Args> {
+  args: Args;
+  credential: ConnectorCredential | undefined;
+  context: ConnectorContext;
+}
+
+export interface ConnectorAction<Schema extends ZodTypeAny = ZodTypeAny> {
+  description: string;
+  schema: Schema;
+  handler: (invocation: ActionInvocation<z.output<Schema>>) => unknown | Promise<unknown>;
+}
+
+export interface Connector {
+  name: string;
+  description: string;
+  auth: ConnectorAuth;
+  actions: Record<string, ConnectorAction>;
+}
+
+export interface SchemaDescription {
+  type: string;
+  description?: string;
+  required?: string[];
+  properties?: Record<string, SchemaDescription>;
+  items?: SchemaDescription;
+  enum?: string[];
+}
+
+export interface ActionCapability {
+  name: string;
+  description: string;
+  parameters: SchemaDescription;
+}
+
+export interface ConnectorCapability {
+  name: string;
+  description: string;
+  auth: { type: ConnectorAuth['type']; configured: boolean };
+  actions: ActionCapability[];
+}
+
+export type ConnectorErrorCode = 'unknown_tool' | 'unknown_action' | 'invalid_args' | 'unauthorized';
+
+export class ConnectorError extends Error {
+  constructor(
+    message: string,
+    public readonly code: ConnectorErrorCode,
+    public readonly details?: unknown,
+  ) {
+    super(message);
+    this.name = 'ConnectorError';
+  }
+}
+
+/**
+ * Define one action. Keeps the handler's argument type tied to its schema.
+ */
+export function defineAction<Schema extends ZodTypeAny>(action: ConnectorAction<Schema>): ConnectorAction {
+  return action as unknown as ConnectorAction;
+}
+
+export function defineConnector(connector: Connector): Connector {
+  return connector;
+}
+
+/**
+ * Summarize a zod schema in JSON Schema terms for capability discovery and
+ * LLM prompts. Covers the shapes connector actions use.
+ */
+export function describeSchema(schema: ZodTypeAny): SchemaDescription {
+  const def = schema._def as { typeName?: string; description?: string };
+  const withDescription = (description: SchemaDescription): SchemaDescription =>
+    def.description ? { ...description, description: def.description } : description;
+
+  if (schema instanceof z.ZodOptional || schema instanceof z.ZodNullable) {
+    return withDescription(describeSchema(schema.unwrap()));
+  }
+  if (schema instanceof z.ZodDefault) {
+    return withDescription(describeSchema(schema._def.innerType));
+  }
+  if (schema instanceof z.ZodEffects) {
+    return withDescription(describeSchema(schema.innerType()));
+  }
+  if (schema instanceof z.ZodObject) {
+    const shape = schema.shape as Record<string, ZodTypeAny>;
+    const properties = Object.fromEntries(
+      Object.entries(shape).map(([key, value]) => [key, describeSchema(value)]),
+    );
+    const required = Object.entries(shape)
+      .filter(([, value]) => !value.isOptional())
+      .map(([key]) => key);
+    return withDescription({ type: 'object', properties, ...(required.length > 0 ? { required } : {}) });
+  }
+  if (schema instanceof z.ZodArray) {
+    return withDescription({ type: 'array', items: describeSchema(schema.element) });
+  }
+  if (schema instanceof z.ZodEnum) {
+    return withDescription({ type: 'string', enum: [...schema.options] as string[] });
+  }
+  if (schema instanceof z.ZodString) return withDescription({ type: 'string' });
+  if (schema instanceof z.ZodNumber) return withDescription({ type: 'number' });
+  if (schema instanceof z.ZodBoolean) return withDescription({ type: 'boolean' });
+  return withDescription({ type: 'unknown' });
+}
+
+export class ConnectorRegistry {
+  private connectors = new Map<string, Connector>();
+
+  constructor(connectors: Connector[] = []) {
+    connectors.forEach((connector) => this.register(connector));
+  }
+
+  register(connector: Connector): void {
+    this.connectors.set(connector.name, connector);
+  }
+
+  get(name: string): Connector | undefined {
+    return this.connectors.get(name);
+  }
+
+  names(): string[] {
+    return [...this.connectors.keys()];
+  }
+
+  hasAction(tool: string, action: string): boolean {
+    return Boolean(this.connectors.get(tool)?.actions[action]);
+  }
+
+  /**
+   * Capability discovery: every connector, whether its credential is
+   * available, and the parameters each action accepts.
+   */
+  describe(context: ConnectorContext = {}): ConnectorCapability[] {
+    return [...this.connectors.values()].map((connector) => ({
+      name: connector.name,
+      description: connector.description,
+      auth: {
+        type: connector.auth.type,
+        configured: connector.auth.type === 'none' || this.resolveCredential(connector, context) !== undefined,
+      },
+      actions: Object.entries(connector.actions).map(([name, action]) => ({
+        name,
+        description: action.description,
+        parameters: describeSchema(action.schema),
+      })),
+    }));
+  }
+
+  async execute(tool: string, action: string, args: unknown, context: ConnectorContext = {}): Promise<unknown> {
+    const connector = this.connectors.get(tool);
+    if (!connector) {
+      throw new ConnectorError(
+        `Tool "${tool}" not found. Available tools: ${this.names().join(', ')}`,
+        'unknown_tool',
+      );
+    }
+
+    const definition = connector.actions[action];
+    if (!definition) {
+      throw new ConnectorError(
+        `Unknown ${tool} action: ${action}. Available actions: ${Object.keys(connector.actions).join(', ')}`,
+        'unknown_action',
+      );
+    }
+
+    const parsed = definition.schema.safeParse(args ?? {});
+    if (!parsed.success) {
+      const summary = parsed.error.issues.map((issue) => `${issue.path.join('.') || 'args'}: ${issue.message}`).join('; ');
+      throw new ConnectorError(`Invalid arguments for ${tool}.${action}: ${summary}`, 'invalid_args', parsed.error.issues);
+    }
+
+    const credential = this.resolveCredential(connector, context);
+    if (connector.auth.type !== 'none' && !credential && !connector.auth.optional) {
+      throw new ConnectorError(
+        `${tool} connector is not authorized: set ${connector.auth.env} or pass a credential`,
+        'unauthorized',
+      );
+    }
+
+    return definition.handler({ args: parsed.data, credential, context });
+  }
+
+  private resolveCredential(connector: Connector, context: ConnectorContext): ConnectorCredential | undefined {
+    if (connector.auth.type === 'none') return undefined;
+    const supplied = context.credentials?.[connector.name];
+    if (supplied) return supplied;
+    const value = process.env[connector.auth.env];
+    return value ? { type: connector.auth.type, value } : undefined;
+  }
+}
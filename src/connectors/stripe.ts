@@ -1,6 +1,107 @@
-export async function stripeConnector(action: string, _args: unknown) {
-  if (action === "list-transactions") {
-    return { status: "Stripe transactions synced." };
+/**
+ * Stripe Connector for Orchestrator
+ * Read-only access to transactions, charges and balance through the Stripe REST API
+ */
+import { z } from 'zod';
+import { ConnectorCredential, ConnectorRegistry, defineAction, defineConnector } from './sdk';
+
+export interface StripeConnectorOptions {
+  secretKey: string;
+  apiUrl?: string;
+  fetchImpl?: typeof fetch;
+}
+
+export interface StripeListArgs {
+  limit?: number;
+  starting_after?: string | undefined;
+  customer?: string | undefined;
+  type?: string | undefined;
+}
+
+export class StripeConnector {
+  private apiUrl: string;
+  private fetchImpl: typeof fetch;
+
+  constructor(private options: StripeConnectorOptions) {
+    this.apiUrl = (options.apiUrl || process.env.STRIPE_API_URL || 'https://api.stripe.com/v1').replace(/\/+$/, '');
+    this.fetchImpl = options.fetchImpl ?? fetch;
   }
-  throw new Error("Unsupported action.");
-}
\ No newline at end of file
+
+  private async makeRequest(endpoint: string, params: Record<string, string | number | undefined> = {}) {
+    const query = new URLSearchParams();
+    Object.entries(params).forEach(([key, value]) => {
+      if (value !== undefined) query.append(key, String(value));
+    });
+    const suffix = query.size > 0 ? `?${query.toString()}` : '';
+
+    const response = await this.fetchImpl(`${this.apiUrl}${endpoint}${suffix}`, {
+      headers: { Authorization: `Bearer ${this.options.secretKey}` },
+    });
+
+    if (!response.ok) {
+      const body = await response.json().catch(() => ({})) as { error?: { message?: string } };
+      throw new Error(`Stripe API error: ${response.status} ${body.error?.message ?? response.statusText}`);
+    }
+
+    return response.json();
+  }
+
+  async listTransactions(args: StripeListArgs = {}) {
+    return this.makeRequest('/balance_transactions', {
+      limit: args.limit,
+      starting_after: args.starting_after,
+      type: args.type,
+    });
+  }
+
+  async listCharges(args: StripeListArgs = {}) {
+    return this.makeRequest('/charges', {
+      limit: args.limit,
+      starting_after: args.starting_after,
+      customer: args.customer,
+    });
+  }
+
+  async getBalance() {
+    return this.makeRequest('/balance');
+  }
+}
+
+// The registry only runs handlers once STRIPE_SECRET_KEY or a caller credential is present
+const stripeClient = (credential: ConnectorCredential | undefined) =>
+  new StripeConnector({ secretKey: credential?.value ?? '' });
+
+const listSchema = z.object({
+  limit: z.coerce.number().int().min(1).max(100).default(10),
+  starting_after: z.string().optional().describe('Cursor: id of the last object from the previous page'),
+});
+
+export const stripe = defineConnector({
+  name: 'stripe',
+  description: 'Stripe payments: balance transactions, charges and account balance',
+  auth: { type: 'bearer', env: 'STRIPE_SECRET_KEY' },
+  actions: {
+    'list-transactions': defineAction({
+      description: 'List recent balance transactions',
+      schema: listSchema.extend({ type: z.string().optional().describe('Transaction type, e.g. charge or payout') }),
+      handler: ({ args, credential }) => stripeClient(credential).listTransactions(args),
+    }),
+    'list-charges': defineAction({
+      description: 'List recent charges, optionally for one customer',
+      schema: listSchema.extend({ customer: z.string().optional() }),
+      handler: ({ args, credential }) => stripeClient(credential).listCharges(args),
+    }),
+    'get-balance': defineAction({
+      description: 'Get the current account balance',
+      schema: z.object({}),
+      handler: ({ credential }) => stripeClient(credential).getBalance(),
+    }),
+  },
+});
+
+// Factory function for orchestrator integration
+export function stripeConnector(action: string, args: unknown) {
+  return new ConnectorRegistry([stripe]).execute('stripe', action, args);
+}
+
+export default stripeConnector;
@@ -2,20 +2,22 @@
  * UI Connector for Orchestrator
  * Manages user interface actions and integrations
  */
+import { z } from 'zod';
+import { ConnectorRegistry, defineAction, defineConnector } from './sdk';
 
 export interface UIConnectorOptions {
   baseUrl?: string;
 }
 
 export interface OpenDashboardArgs {
-  path?: string;
-  memory_id?: string;
-  topic_id?: string;
+  path?: string | undefined;
+  memory_id?: string | undefined;
+  topic_id?: string | undefined;
 }
 
 export interface ShowMemoryArgs {
   memory_id: string;
-  mode?: 'view' | 'edit' | 'visualize';
+  mode?: 'view' | 'edit' | 'visualize' | undefined;
 }
 
 export interface OpenUploaderArgs {
@@ -73,7 +75,7 @@ export class UIConnector {
     };
   }
 
-  async openVisualizer(args: { memory_id?: string; topic_id?: string } = {}) {
+  async openVisualizer(args: { memory_id?: string | undefined; topic_id?: string | undefined } = {}) {
     const params: Record<string, string> = {};
     if (args.memory_id) params.memory_id = args.memory_id;
     if (args.topic_id) params.topic_id = args.topic_id;
@@ -147,30 +149,72 @@ export class UIConnector {
   }
 }
 
+const linkSchema = z.object({
+  memory_id: z.string().optional(),
+  topic_id: z.string().optional(),
+});
+
+export const ui = defineConnector({
+  name: 'ui',
+  description: 'Links into the memory dashboard, visualizer, uploader, settings and help',
+  auth: { type: 'none' },
+  actions: {
+    'open-dashboard': defineAction({
+      description: 'Open the dashboard, optionally at a memory or topic',
+      schema: linkSchema.extend({ path: z.string().optional() }),
+      handler: ({ args }) => new UIConnector().openDashboard(args),
+    }),
+    'show-memory': defineAction({
+      description: 'Open one memory',
+      schema: z.object({
+        memory_id: z.string().min(1),
+        mode: z.enum(['view', 'edit', 'visualize']).optional(),
+      }),
+      handler: ({ args }) => new UIConnector().showMemory(args),
+    }),
+    'open-visualizer': defineAction({
+      description: 'Open the memory graph visualizer',
+      schema: linkSchema,
+      handler: ({ args }) => new UIConnector().openVisualizer(args),
+    }),
+    'open-uploader': defineAction({
+      description: 'Open the uploader for one memory or a bulk import',
+      schema: z.object({
+        type: z.enum(['manual', 'bulk']).optional(),
+        prefill: z.object({
+          title: z.string().optional(),
+          content: z.string().optional(),
+          memory_type: z.string().optional(),
+        }).optional(),
+      }),
+      handler: ({ args }) => new UIConnector().openUploader(args as OpenUploaderArgs),
+    }),
+    'show-stats': defineAction({
+      description: 'Open memory statistics',
+      schema: z.object({}),
+      handler: () => new UIConnector().showStats(),
+    }),
+    'show-topics': defineAction({
+      description: 'Open topic management',
+      schema: z.object({}),
+      handler: () => new UIConnector().showTopics(),
+    }),
+    'open-settings': defineAction({
+      description: 'Open settings',
+      schema: z.object({}),
+      handler: () => new UIConnector().openSettings(),
+    }),
+    'show-help': defineAction({
+      description: 'Open help, optionally for a topic',
+      schema: z.object({ topic: z.string().optional() }),
+      handler: ({ args }) => new UIConnector().showHelp(args as { topic?: string }),
+    }),
+  },
+});
+
 // Factory function for orchestrator integration
 export function uiConnector(action: string, args: unknown = {}) {
-  const connector = new UIConnector();
-
-  switch (action) {
-    case 'open-dashboard':
-      return connector.openDashboard(args as OpenDashboardArgs);
-    case 'show-memory':
-      return connector.showMemory(args as ShowMemoryArgs);
-    case 'open-visualizer':
-      return connector.openVisualizer(args as { memory_id?: string; topic_id?: string });
-    case 'open-uploader':
-      return connector.openUploader(args as OpenUploaderArgs);
-    case 'show-stats':
-      return connector.showStats();
-    case 'show-topics':
-      return connector.showTopics();
-    case 'open-settings':
-      return connector.openSettings();
-    case 'show-help':
-      return connector.showHelp(args as { topic?: string });
-    default:
-      throw new Error(`Unknown UI action: ${action}`);
-  }
+  return new ConnectorRegistry([ui]).execute('ui', action, args);
 }
 
-export default uiConnector;
\ No newline at end of file
+export default uiConnector;
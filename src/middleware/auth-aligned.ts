@@ -278,7 +278,9 @@ export const alignedAuthMiddleware = async (
           email: (typeof decodedObj.email === 'string' ? decodedObj.email : undefined) || '',
           user_metadata: toRecord(decodedObj.user_metadata),
           app_metadata: toRecord(decodedObj.app_metadata),
-          project_scope: (typeof decodedObj.project_scope === 'string' ? decodedObj.project_scope : undefined)
+          project_scope: (typeof decodedObj.project_scope === 'string' ? decodedObj.project_scope : undefined),
+          // OAuth access tokens name the client they were issued to; access rules target it as the app
+          app_id: (typeof decodedObj.client_id === 'string' ? decodedObj.client_id : undefined)
         };
 
         req.user = {
@@ -386,6 +388,7 @@ export async function authenticateApiKey(apiKey: string): Promise<AlignedUser |
       plan: plan,
       // Additional UnifiedUser properties
       id: keyRecord.user_id,
+      api_key_id: keyRecord.id, // Lets access rules target this key
       email: '',
       user_metadata: {},
       app_metadata: {}
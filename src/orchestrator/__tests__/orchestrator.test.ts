@@ -0,0 +1,94 @@
+import { z } from 'zod';
+import { ConnectorRegistry, defineAction, defineConnector } from '../../connectors/sdk';
+import { ContextualOrchestrator, InMemorySessionStore, orchestrate } from '..';
+import type { CommandLlmParser } from '../llm-parser';
+
+const calls: Array<{ action: string; args: unknown }> = [];
+
+const registry = new ConnectorRegistry([
+  defineConnector({
+    name: 'memory',
+    description: 'Fake memory service',
+    auth: { type: 'none' },
+    actions: {
+      search: defineAction({
+        description: 'Search',
+        schema: z.object({ query: z.string(), limit: z.number().optional() }),
+        handler: ({ args }) => { calls.push({ action: 'search', args }); return { memories: [] }; },
+      }),
+      create: defineAction({
+        description: 'Create',
+        schema: z.object({ title: z.string(), content: z.string() }).passthrough(),
+        handler: ({ args }) => { calls.push({ action: 'create', args }); return { id: 'mem-1' }; },
+      }),
+      delete: defineAction({
+        description: 'Delete',
+        schema: z.object({ id: z.string() }),
+        handler: ({ args }) => { calls.push({ action: 'delete', args }); return { deleted: true }; },
+      }),
+    },
+  }),
+]);
+
+const llmParser = (command: { tool: string; action: string; args: Record<string, unknown> } | null): CommandLlmParser => ({
+  parse: vi.fn(async ({ input }) => command && { ...command, confidence: 0.9, originalInput: input, source: 'llm' as const }),
+});
+
+describe('orchestrate', () => {
+  beforeEach(() => {
+    calls.length = 0;
+  });
+
+  it('keeps confident keyword matches away from the LLM parser', async () => {
+    const parser = llmParser({ tool: 'memory', action: 'delete', args: { id: 'x' } });
+
+    const result = await orchestrate('search for deploy notes', { registry, llmParser: parser });
+
+    expect(result.command).toMatchObject({ action: 'search', source: 'keyword' });
+    expect(parser.parse).not.toHaveBeenCalled();
+  });
+
+  it('falls back to schema-guided LLM parsing when keyword confidence is low', async () => {
+    const parser = llmParser({ tool: 'memory', action: 'search', args: { query: 'deploys', limit: 3 } });
+
+    const result = await orchestrate('what did we decide about deploys?', { registry, llmParser: parser });
+
+    expect(result.success).toBe(true);
+    expect(result.command.source).toBe('llm');
+    expect(calls).toEqual([{ action: 'search', args: { query: 'deploys', limit: 3 } }]);
+    expect(vi.mocked(parser.parse).mock.calls[0]?.[0].capabilities[0]?.actions.map((a) => a.name))
+      .toEqual(['search', 'create', 'delete']);
+  });
+
+  it('reports schema violations without calling the connector', async () => {
+    const parser = llmParser({ tool: 'memory', action: 'delete', args: {} });
+
+    const result = await orchestrate('forget that', { registry, llmParser: parser });
+
+    expect(result).toMatchObject({ success: false, metadata: { code: 'invalid_args' } });
+    expect(calls).toHaveLength(0);
+  });
+});
+
+describe('ContextualOrchestrator', () => {
+  it('persists context per session and uses it for follow-up commands', async () => {
+    const store = new InMemorySessionStore();
+    const first = new ContextualOrchestrator({ registry, store, userId: 'u1' });
+    await first.orchestrate('create memory "Deploy notes. Use blue/green"');
+
+    const second = new ContextualOrchestrator({
+      registry,
+      store,
+      userId: 'u1',
+      sessionId: first.sessionId,
+      llmParser: llmParser({ tool: 'memory', action: 'delete', args: {} }),
+    });
+    expect(await second.load()).toBe(true);
+    const result = await second.orchestrate('get rid of it');
+
+    expect(result.success).toBe(true);
+    expect(calls.at(-1)).toEqual({ action: 'delete', args: { id: 'mem-1' } });
+    expect(second.getHistory().map((turn) => turn.action)).toEqual(['create', 'delete']);
+    expect(await new ContextualOrchestrator({ store, userId: 'u2', sessionId: first.sessionId }).load()).toBe(false);
+  });
+});
@@ -0,0 +1,107 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { AgentRequest, AgentResponse, BaseAgent } from '../base-agent';
+import { AgentRegistry, AgentScheduler } from '../scheduler';
+
+type Behaviour = (request: AgentRequest, attempt: number) => AgentResponse | Promise<AgentResponse>;
+
+class ScriptedAgent extends BaseAgent {
+  attempts = 0;
+  requests: AgentRequest[] = [];
+
+  constructor(name: string, private behaviour: Behaviour, options: { priority?: number; retries?: number; timeout?: number } = {}) {
+    super({ name, description: name, capabilities: [name], priority: options.priority ?? 1, ...options });
+  }
+
+  async process(request: AgentRequest): Promise<AgentResponse> {
+    this.requests.push(request);
+    return this.behaviour(request, ++this.attempts);
+  }
+}
+
+const request: AgentRequest = { input: 'plan the release', context: { user_id: 'u1' } };
+
+describe('AgentScheduler', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('follows next_agents, runs a wave in parallel and shares memory context', async () => {
+    const order: string[] = [];
+    const registry = new AgentRegistry()
+      .register(new ScriptedAgent('plan', () => {
+        order.push('plan');
+        return {
+          success: true,
+          data: 'planned',
+          next_agents: ['search', 'embed'],
+          memory_context: [{ id: 'm1', title: 'Release', content: 'Ship Friday' }]
+        };
+      }, { priority: 5 }))
+      .register(new ScriptedAgent('search', async () => {
+        order.push('search:start');
+        await new Promise((resolve) => setTimeout(resolve, 5));
+        order.push('search:end');
+        return { success: true, next_agents: ['report'], memory_context: [{ id: 'm2', title: 'Freeze', content: 'Code freeze Thursday' }] };
+      }))
+      .register(new ScriptedAgent('embed', () => {
+        order.push('embed');
+        return { success: true, next_agents: ['report', 'plan'] };
+      }))
+      .register(new ScriptedAgent('report', (req) => ({ success: true, data: req.context.memory_context?.map((m) => m.id) })));
+
+    const result = await new AgentScheduler(registry).run(request);
+
+    expect(result.success).toBe(true);
+    expect(order).toEqual(['plan', 'search:start', 'embed', 'search:end']);
+    expect(result.trace.map((step) => [step.agent, step.wave, step.triggered_by])).toEqual([
+      ['plan', 0, []],
+      ['search', 1, ['plan']],
+      ['embed', 1, ['plan']],
+      ['report', 2, ['search', 'embed']]
+    ]);
+    expect(result.results.report?.data).toEqual(['m1', 'm2']);
+    expect((registry.get('report') as ScriptedAgent).requests[0]?.parameters?.upstream).toMatchObject({ plan: 'planned' });
+  });
+
+  it('retries failed steps and stops the chain when retries run out', async () => {
+    const flaky = new ScriptedAgent('flaky', (_req, attempt) =>
+      attempt < 2 ? { success: false, error: 'busy' } : { success: true, next_agents: ['broken'] }, { retries: 2 });
+    const broken = new ScriptedAgent('broken', () => ({ success: false, error: 'down', next_agents: ['never'] }), { retries: 1 });
+    const registry = new AgentRegistry().register(flaky).register(broken);
+
+    const result = await new AgentScheduler(registry, { retryDelayMs: 0 }).run(request, { entry: ['flaky'] });
+
+    expect(result.success).toBe(false);
+    expect(result.trace.map((step) => [step.agent, step.attempts, step.success, step.error])).toEqual([
+      ['flaky', 2, true, undefined],
+      ['broken', 2, false, 'down']
+    ]);
+  });
+
+  it('enforces the registered timeout and reports unknown agents in the trace', async () => {
+    const slow = new ScriptedAgent('slow', () => new Promise<AgentResponse>(() => {}));
+    const registry = new AgentRegistry()
+      .register(new ScriptedAgent('start', () => ({ success: true, next_agents: ['slow', 'ghost'] })))
+      .register(slow, { timeout: 10 });
+
+    const result = await new AgentScheduler(registry).run(request, { entry: ['start'] });
+
+    expect(result.trace.slice(1).map((step) => [step.agent, step.success, step.error])).toEqual([
+      ['slow', false, 'Agent slow timeout after 10ms'],
+      ['ghost', false, 'Unknown agent "ghost"']
+    ]);
+    expect(() => registry.register(slow)).toThrow('already registered');
+  });
+
+  it('lets a registered timeout raise the agent\'s own limit', async () => {
+    const patient = new ScriptedAgent('patient', async () => {
+      await new Promise((resolve) => setTimeout(resolve, 30));
+      return { success: true };
+    }, { timeout: 10 });
+    const registry = new AgentRegistry().register(patient, { timeout: 200 });
+
+    const result = await new AgentScheduler(registry).run(request, { entry: ['patient'] });
+
+    expect(result.trace.map((step) => [step.agent, step.success, step.error])).toEqual([['patient', true, undefined]]);
+  });
+});
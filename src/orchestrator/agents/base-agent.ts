@@ -42,6 +42,8 @@ export interface AgentResponse {
   error?: string;
   metadata?: Record<string, unknown>;
   next_agents?: string[];
+  /** Memories this agent found relevant; a pipeline shares them with later steps */
+  memory_context?: AgentContext['memory_context'];
   confidence?: number;
   processing_time?: number;
 }
@@ -60,6 +62,10 @@ export abstract class BaseAgent {
     this.config = config;
   }
 
+  get name(): string {
+    return this.config.name;
+  }
+
   /**
    * Main processing method - must be implemented by each agent
    */
@@ -84,19 +90,21 @@ export abstract class BaseAgent {
   }
 
   /**
-   * Execute with monitoring and error handling
+   * Execute with monitoring and error handling. A `timeout` (ms) replaces the
+   * configured one, so callers such as pipelines can raise or lower it.
    */
-  async execute(request: AgentRequest): Promise<AgentResponse> {
+  async execute(request: AgentRequest, options: { timeout?: number } = {}): Promise<AgentResponse> {
     const startTime = Date.now();
+    let timer: ReturnType<typeof setTimeout> | undefined;
     
     try {
       this.stats.requests_processed++;
       
       // Set timeout if configured
-      const timeout = this.config.timeout || 30000; // 30 seconds default
-      const timeoutPromise = new Promise<AgentResponse>((_, reject) =>
-        setTimeout(() => reject(new Error(`Agent ${this.config.name} timeout`)), timeout)
-      );
+      const timeout = options.timeout || this.config.timeout || 30000; // 30 seconds default
+      const timeoutPromise = new Promise<AgentResponse>((_, reject) => {
+        timer = setTimeout(() => reject(new Error(`Agent ${this.config.name} timeout after ${timeout}ms`)), timeout);
+      });
 
       const response = await Promise.race([
         this.process(request),
@@ -120,6 +128,8 @@ export abstract class BaseAgent {
         error: error instanceof Error ? error.message : String(error),
         processing_time: processingTime
       };
+    } finally {
+      clearTimeout(timer);
     }
   }
 
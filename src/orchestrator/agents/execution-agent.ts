@@ -86,6 +86,23 @@ export class ExecutionAgent extends BaseAgent {
     }
   }
 
+  /**
+   * Search hits as memory context for later pipeline steps
+   */
+  private toMemoryContext(data: unknown): NonNullable<AgentResponse['memory_context']> {
+    const results = (data as { results?: unknown } | undefined)?.results;
+    if (!Array.isArray(results)) return [];
+
+    return results
+      .filter((hit): hit is Record<string, unknown> => typeof hit === 'object' && hit !== null && typeof hit.id === 'string')
+      .map((hit) => ({
+        id: hit.id as string,
+        title: typeof hit.title === 'string' ? hit.title : '',
+        content: typeof hit.content === 'string' ? hit.content : '',
+        ...(typeof hit.relevance_score === 'number' && { relevance: hit.relevance_score })
+      }));
+  }
+
   /**
    * Execute memory operations
    */
@@ -179,6 +196,7 @@ export class ExecutionAgent extends BaseAgent {
         success: result.success,
         data: result.data,
         error: result.error || '',
+        ...(type === 'search' && { memory_context: this.toMemoryContext(result.data) }),
         metadata: {
           operation: type,
           endpoint,
@@ -0,0 +1,261 @@
+/**
+ * Agent Registry and Pipeline Scheduler
+ * Composes agents into pipelines: each step's next_agents become the next
+ * wave, agents in the same wave run in parallel, and memory_context found by
+ * one step is shared with every later step.
+ */
+
+import { BaseAgent, AgentContext, AgentRequest, AgentResponse } from './base-agent';
+import { EmbeddingAgent } from './embedding-agent';
+import { ExecutionAgent } from './execution-agent';
+
+type MemoryContextItem = NonNullable<AgentContext['memory_context']>[number];
+
+export interface AgentRegistrationOptions {
+  /** Overrides the agent's own timeout (ms) inside pipelines */
+  timeout?: number | undefined;
+  /** Overrides the agent's own retry count inside pipelines */
+  retries?: number | undefined;
+  /** Replace an agent already registered under the same name */
+  replace?: boolean | undefined;
+}
+
+interface AgentRegistration {
+  agent: BaseAgent;
+  options: AgentRegistrationOptions;
+}
+
+export class AgentRegistry {
+  private agents = new Map<string, AgentRegistration>();
+
+  register(agent: BaseAgent, options: AgentRegistrationOptions = {}): this {
+    if (this.agents.has(agent.name) && !options.replace) {
+      throw new Error(`Agent "${agent.name}" is already registered`);
+    }
+    this.agents.set(agent.name, { agent, options });
+    return this;
+  }
+
+  unregister(name: string): boolean {
+    return this.agents.delete(name);
+  }
+
+  get(name: string): BaseAgent | undefined {
+    return this.agents.get(name)?.agent;
+  }
+
+  getOptions(name: string): AgentRegistrationOptions {
+    return this.agents.get(name)?.options ?? {};
+  }
+
+  list(): BaseAgent[] {
+    return [...this.agents.values()].map(({ agent }) => agent);
+  }
+
+  /**
+   * Agents that can handle the request, highest priority first
+   */
+  findCapable(request: AgentRequest): BaseAgent[] {
+    return this.list()
+      .filter((agent) => agent.canHandle(request))
+      .sort((a, b) => b.getInfo().priority - a.getInfo().priority);
+  }
+}
+
+/**
+ * Registry with the built-in agents. Third-party agents register on top.
+ */
+export function createDefaultAgentRegistry(): AgentRegistry {
+  return new AgentRegistry()
+    .register(new EmbeddingAgent())
+    .register(new ExecutionAgent());
+}
+
+export interface PipelineStep {
+  agent: string;
+  wave: number;
+  /** Agents whose next_agents scheduled this step; empty for entry agents */
+  triggered_by: string[];
+  attempts: number;
+  success: boolean;
+  error?: string | undefined;
+  next_agents: string[];
+  started_at: string;
+  duration_ms: number;
+}
+
+export interface PipelineResult {
+  success: boolean;
+  /** Final response of every agent that ran, keyed by agent name */
+  results: Record<string, AgentResponse>;
+  memory_context: MemoryContextItem[];
+  trace: PipelineStep[];
+  duration_ms: number;
+}
+
+export interface AgentSchedulerOptions {
+  /** Upper bound on agent runs per pipeline */
+  maxSteps?: number;
+  defaultTimeout?: number;
+  defaultRetries?: number;
+  retryDelayMs?: number;
+}
+
+export interface PipelineRunOptions {
+  /** Entry agents; defaults to the highest-priority agent that can handle the request */
+  entry?: string[];
+}
+
+/**
+ * Merge memory context by id; a later step's copy of a memory wins.
+ */
+export function mergeMemoryContext(current: MemoryContextItem[], incoming: MemoryContextItem[] = []): MemoryContextItem[] {
+  const byId = new Map(current.map((item) => [item.id, item]));
+  incoming.forEach((item) => byId.set(item.id, { ...byId.get(item.id), ...item }));
+  return [...byId.values()];
+}
+
+export class AgentScheduler {
+  private maxSteps: number;
+  private defaultTimeout: number;
+  private defaultRetries: number;
+  private retryDelayMs: number;
+
+  constructor(private registry: AgentRegistry, options: AgentSchedulerOptions = {}) {
+    this.maxSteps = options.maxSteps ?? 20;
+    this.defaultTimeout = options.defaultTimeout ?? 30000;
+    this.defaultRetries = options.defaultRetries ?? 0;
+    this.retryDelayMs = options.retryDelayMs ?? 250;
+  }
+
+  /**
+   * Run a pipeline from the entry agents, following next_agents chains. An
+   * agent runs at most once per pipeline, which also breaks cycles; a failed
+   * step's next_agents are not followed.
+   */
+  async run(request: AgentRequest, options: PipelineRunOptions = {}): Promise<PipelineResult> {
+    const startTime = Date.now();
+    const results: Record<string, AgentResponse> = {};
+    const trace: PipelineStep[] = [];
+    const visited = new Set<string>();
+    let memoryContext: MemoryContextItem[] = request.context.memory_context ?? [];
+
+    const entry = options.entry ?? this.registry.findCapable(request).slice(0, 1).map((agent) => agent.name);
+    if (entry.length === 0) {
+      return {
+        success: false,
+        results,
+        memory_context: memoryContext,
+        trace: [{
+          agent: 'none',
+          wave: 0,
+          triggered_by: [],
+          attempts: 0,
+          success: false,
+          error: 'No registered agent can handle this request',
+          next_agents: [],
+          started_at: new Date(startTime).toISOString(),
+          duration_ms: 0
+        }],
+        duration_ms: Date.now() - startTime
+      };
+    }
+
+    let wave = new Map<string, string[]>(entry.map((name) => [name, []]));
+    let waveIndex = 0;
+
+    while (wave.size > 0 && visited.size < this.maxSteps) {
+      const scheduled = [...wave.entries()]
+        .filter(([name]) => !visited.has(name))
+        .slice(0, this.maxSteps - visited.size);
+      scheduled.forEach(([name]) => visited.add(name));
+
+      // Every agent in a wave sees the same shared context; they run in parallel
+      const stepRequest: AgentRequest = {
+        ...request,
+        context: { ...request.context, memory_context: memoryContext },
+        parameters: { ...request.parameters, upstream: this.upstream(results) }
+      };
+      const steps = await Promise.all(
+        scheduled.map(([name, triggeredBy]) => this.runStep(name, triggeredBy, waveIndex, stepRequest))
+      );
+
+      const next = new Map<string, string[]>();
+      for (const { step, response } of steps) {
+        trace.push(step);
+        if (!response) continue;
+        results[step.agent] = response;
+        if (!response.success) continue;
+
+        memoryContext = mergeMemoryContext(memoryContext, response.memory_context);
+        for (const name of step.next_agents) {
+          if (!visited.has(name)) next.set(name, [...(next.get(name) ?? []), step.agent]);
+        }
+      }
+
+      wave = next;
+      waveIndex++;
+    }
+
+    return {
+      success: trace.every((step) => step.success),
+      results,
+      memory_context: memoryContext,
+      trace,
+      duration_ms: Date.now() - startTime
+    };
+  }
+
+  private upstream(results: Record<string, AgentResponse>): Record<string, unknown> {
+    return Object.fromEntries(
+      Object.entries(results)
+        .filter(([, response]) => response.success)
+        .map(([name, response]) => [name, response.data])
+    );
+  }
+
+  private async runStep(
+    name: string,
+    triggeredBy: string[],
+    wave: number,
+    request: AgentRequest
+  ): Promise<{ step: PipelineStep; response?: AgentResponse }> {
+    const startedAt = Date.now();
+    const agent = this.registry.get(name);
+    const base = { agent: name, wave, triggered_by: triggeredBy, started_at: new Date(startedAt).toISOString() };
+
+    if (!agent) {
+      return {
+        step: { ...base, attempts: 0, success: false, error: `Unknown agent "${name}"`, next_agents: [], duration_ms: 0 }
+      };
+    }
+
+    const info = agent.getInfo();
+    const overrides = this.registry.getOptions(name);
+    const timeout = overrides.timeout ?? info.timeout ?? this.defaultTimeout;
+    const retries = overrides.retries ?? info.retries ?? this.defaultRetries;
+
+    let response: AgentResponse = { success: false, error: 'Agent did not run' };
+    let attempts = 0;
+    while (attempts <= retries) {
+      if (attempts > 0 && this.retryDelayMs > 0) {
+        await new Promise((resolve) => setTimeout(resolve, this.retryDelayMs * attempts));
+      }
+      attempts++;
+      response = await agent.execute(request, { timeout });
+      if (response.success) break;
+    }
+
+    return {
+      step: {
+        ...base,
+        attempts,
+        success: response.success,
+        error: response.error,
+        next_agents: response.success ? response.next_agents ?? [] : [],
+        duration_ms: Date.now() - startedAt
+      },
+      response
+    };
+  }
+}
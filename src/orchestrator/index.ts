@@ -1,5 +1,9 @@
+import { randomUUID } from 'crypto';
 import { resolveCommand, ParsedCommand } from './parser';
-import { toolRegistry } from '../connectors';
+import { connectorRegistry } from '../connectors';
+import type { ConnectorContext, ConnectorRegistry } from '../connectors/sdk';
+import type { CommandLlmParser } from './llm-parser';
+import type { OrchestratorSession, OrchestratorSessionStore, OrchestratorTurn } from './session-store';
 
 export interface OrchestratorResult {
   success: boolean;
@@ -10,49 +14,63 @@ export interface OrchestratorResult {
   metadata?: Record<string, unknown>;
 }
 
+export interface OrchestrateOptions {
+  registry?: ConnectorRegistry | undefined;
+  llmParser?: CommandLlmParser | undefined;
+  minConfidence?: number | undefined;
+  /** Conversation state handed to the LLM parser */
+  context?: Record<string, unknown> | undefined;
+  connectorContext?: ConnectorContext | undefined;
+  /** Adjust the parsed command before it runs, e.g. to fill ids from context */
+  prepare?: ((command: ParsedCommand) => ParsedCommand) | undefined;
+}
+
 function isRecord(value: unknown): value is Record<string, unknown> {
   return typeof value === 'object' && value !== null;
 }
 
-export async function orchestrate(input: string): Promise<OrchestratorResult> {
+export async function orchestrate(input: string, options: OrchestrateOptions = {}): Promise<OrchestratorResult> {
   const startTime = Date.now();
-  
+  const registry = options.registry ?? connectorRegistry;
+  let command: ParsedCommand | undefined;
+
   try {
     // Parse the command
-    const command = await resolveCommand(input);
-    
-    // Validate tool exists
-    const tool = toolRegistry[command.tool];
-    if (!tool) {
-      throw new Error(`Tool "${command.tool}" not found. Available tools: ${Object.keys(toolRegistry).join(', ')}`);
-    }
+    command = await resolveCommand(input, {
+      llmParser: options.llmParser,
+      capabilities: options.llmParser ? registry.describe(options.connectorContext) : undefined,
+      context: options.context,
+      minConfidence: options.minConfidence,
+    });
+    if (options.prepare) command = options.prepare(command);
+
+    // Validate and execute through the connector SDK
+    const data = await registry.execute(command.tool, command.action, command.args, options.connectorContext);
 
-    // Execute the command
-    const data = await tool(command.action, command.args);
-    
     const executionTime = Date.now() - startTime;
-    
+
     return {
       success: true,
       data,
       command,
       executionTime
     };
-    
+
   } catch (error) {
     const executionTime = Date.now() - startTime;
-    
+
     return {
       success: false,
       error: error instanceof Error ? error.message : String(error),
-      command: {
+      command: command ?? {
         tool: 'unknown',
         action: 'unknown',
         args: {},
         confidence: 0,
         originalInput: input
       },
-      executionTime
+      executionTime,
+      ...(isRecord(error) && typeof error.code === 'string' ? { metadata: { code: error.code } } : {})
     };
   }
 }
@@ -63,36 +81,78 @@ export async function parseOnly(input: string): Promise<ParsedCommand> {
 }
 
 // Batch orchestration for multiple commands
-export async function orchestrateBatch(inputs: string[]): Promise<OrchestratorResult[]> {
+export async function orchestrateBatch(inputs: string[], options: OrchestrateOptions = {}): Promise<OrchestratorResult[]> {
   const results: OrchestratorResult[] = [];
-  
+
   for (const input of inputs) {
-    const result = await orchestrate(input);
+    const result = await orchestrate(input, options);
     results.push(result);
   }
-  
+
   return results;
 }
 
-// Context-aware orchestration (maintains conversation state)
+export interface ContextualOrchestratorOptions extends Omit<OrchestrateOptions, 'context' | 'prepare'> {
+  sessionId?: string | undefined;
+  userId?: string | null | undefined;
+  store?: OrchestratorSessionStore | undefined;
+  /** Turns kept in the persisted history */
+  maxHistory?: number | undefined;
+}
+
+const ID_ACTIONS: Record<string, string[]> = {
+  memory: ['get', 'update', 'delete'],
+};
+
+// Context-aware orchestration (maintains conversation state, persisted per session when a store is given)
 export class ContextualOrchestrator {
   private context: Map<string, unknown> = new Map();
-  
+  private history: OrchestratorTurn[] = [];
+  private createdAt = new Date().toISOString();
+  readonly sessionId: string;
+
+  constructor(private options: ContextualOrchestratorOptions = {}) {
+    this.sessionId = options.sessionId ?? randomUUID();
+  }
+
   setContext(key: string, value: unknown) {
     this.context.set(key, value);
   }
-  
+
   getContext(key: string) {
     return this.context.get(key);
   }
-  
+
   clearContext() {
     this.context.clear();
   }
-  
+
+  getHistory(): OrchestratorTurn[] {
+    return [...this.history];
+  }
+
+  /**
+   * Restore state from the session store. Returns false when the session
+   * does not exist for this user.
+   */
+  async load(): Promise<boolean> {
+    if (!this.options.store) return false;
+    const session = await this.options.store.load(this.sessionId, this.options.userId ?? null);
+    if (!session) return false;
+
+    this.context = new Map(Object.entries(session.context));
+    this.history = session.history;
+    this.createdAt = session.created_at;
+    return true;
+  }
+
   async orchestrate(input: string): Promise<OrchestratorResult> {
-    const result = await orchestrate(input);
-    
+    const result = await orchestrate(input, {
+      ...this.options,
+      context: Object.fromEntries(this.context),
+      prepare: (command) => this.applyContext(command),
+    });
+
     // Store relevant context from successful operations
     if (result.success && result.data && isRecord(result.data)) {
       // Store memory IDs for future reference
@@ -109,7 +169,7 @@ export class ContextualOrchestrator {
           );
         }
       }
-      
+
       // Store UI navigation state
       if (result.command.tool === 'ui') {
         this.setContext('lastUIAction', result.command.action);
@@ -118,10 +178,72 @@ export class ContextualOrchestrator {
         }
       }
     }
-    
+
+    this.history = [...this.history, {
+      input,
+      tool: result.command.tool,
+      action: result.command.action,
+      success: result.success,
+      error: result.error,
+      timestamp: new Date().toISOString(),
+    }].slice(-(this.options.maxHistory ?? 20));
+
+    await this.persist();
     return result;
   }
+
+  toSession(): OrchestratorSession {
+    return {
+      id: this.sessionId,
+      user_id: this.options.userId ?? null,
+      context: Object.fromEntries(this.context),
+      history: this.history,
+      created_at: this.createdAt,
+      updated_at: new Date().toISOString(),
+    };
+  }
+
+  private async persist() {
+    if (this.options.store) {
+      await this.options.store.save(this.toSession());
+    }
+  }
+
+  // "delete it" / "show that memory": fall back to the last memory this session touched
+  private applyContext(command: ParsedCommand): ParsedCommand {
+    const lastMemoryId = this.context.get('lastMemoryId');
+    if (
+      ID_ACTIONS[command.tool]?.includes(command.action) &&
+      command.args.id === undefined &&
+      typeof lastMemoryId === 'string'
+    ) {
+      return { ...command, args: { ...command.args, id: lastMemoryId } };
+    }
+    return command;
+  }
 }
 
-export { resolveCommand, type ParsedCommand } from './parser';
-export { toolRegistry } from '../connectors';
\ No newline at end of file
+export { resolveCommand, type ParsedCommand, type ResolveCommandOptions } from './parser';
+export { OpenAICommandParser, type CommandLlmParser } from './llm-parser';
+export {
+  InMemorySessionStore,
+  SupabaseSessionStore,
+  type OrchestratorSession,
+  type OrchestratorSessionStore,
+} from './session-store';
+export { toolRegistry, connectorRegistry } from '../connectors';
+export {
+  BaseAgent,
+  type AgentConfig,
+  type AgentContext,
+  type AgentRequest,
+  type AgentResponse,
+} from './agents/base-agent';
+export {
+  AgentRegistry,
+  AgentScheduler,
+  createDefaultAgentRegistry,
+  type AgentRegistrationOptions,
+  type PipelineResult,
+  type PipelineStep,
+} from './agents/scheduler';
@@ -0,0 +1,111 @@
+/**
+ * Schema-guided LLM Command Parser
+ * Used when keyword matching is unsure: the model picks a tool, action and
+ * arguments from the connectors' published capabilities.
+ */
+import type { ConnectorCapability } from '../connectors/sdk';
+import type { ParsedCommand } from './parser';
+
+export interface LlmParseRequest {
+  input: string;
+  capabilities: ConnectorCapability[];
+  /** Conversation state, e.g. lastMemoryId, for references like "delete it" */
+  context?: Record<string, unknown> | undefined;
+}
+
+export interface CommandLlmParser {
+  parse(request: LlmParseRequest): Promise<ParsedCommand | null>;
+}
+
+export interface OpenAICommandParserOptions {
+  apiKey: string;
+  model?: string | undefined;
+  baseUrl?: string | undefined;
+  timeoutMs?: number | undefined;
+  fetchImpl?: typeof fetch | undefined;
+}
+
+const SYSTEM_PROMPT = `You translate a user's request into one tool call.
+You are given the available tools with their actions and JSON parameter schemas, and recent conversation context.
+Return JSON: {"tool", "action", "args", "confidence"}.
+- tool and action must be one of the listed ones; args must match that action's parameters.
+- Use context values (for example lastMemoryId) when the request refers to something earlier.
+- confidence is 0..1: how sure you are that this call is what the user wants.
+- If no tool fits, return {"tool": null}.`;
+
+export class OpenAICommandParser implements CommandLlmParser {
+  private readonly model: string;
+  private readonly baseUrl: string;
+  private readonly timeoutMs: number;
+  private readonly fetchImpl: typeof fetch;
+
+  constructor(private readonly options: OpenAICommandParserOptions) {
+    this.model = options.model ?? 'gpt-4o-mini';
+    this.baseUrl = (options.baseUrl ?? 'https://api.openai.com/v1').replace(/\/+$/, '');
+    this.timeoutMs = options.timeoutMs ?? 15_000;
+    this.fetchImpl = options.fetchImpl ?? fetch;
+  }
+
+  async parse(request: LlmParseRequest): Promise<ParsedCommand | null> {
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), this.timeoutMs);
+
+    try {
+      const response = await this.fetchImpl(`${this.baseUrl}/chat/completions`, {
+        method: 'POST',
+        headers: {
+          Authorization: `Bearer ${this.options.apiKey}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          model: this.model,
+          temperature: 0,
+          response_format: { type: 'json_object' },
+          messages: [
+            { role: 'system', content: SYSTEM_PROMPT },
+            {
+              role: 'user',
+              content: JSON.stringify({
+                request: request.input,
+                tools: request.capabilities.map(({ name, description, actions }) => ({ name, description, actions })),
+                context: request.context ?? {},
+              }),
+            },
+          ],
+        }),
+        signal: controller.signal,
+      });
+
+      if (!response.ok) {
+        throw new Error(`OpenAI API error: ${response.status}`);
+      }
+
+      const body = await response.json() as { choices?: Array<{ message?: { content?: string } }> };
+      const raw = body.choices?.[0]?.message?.content;
+      return raw ? toParsedCommand(JSON.parse(raw), request) : null;
+    } finally {
+      clearTimeout(timeout);
+    }
+  }
+}
+
+/**
+ * Accept a model answer only if it names a published tool and action.
+ */
+export function toParsedCommand(value: unknown, request: LlmParseRequest): ParsedCommand | null {
+  if (typeof value !== 'object' || value === null) return null;
+  const { tool, action, args, confidence } = value as Record<string, unknown>;
+  if (typeof tool !== 'string' || typeof action !== 'string') return null;
+
+  const capability = request.capabilities.find((candidate) => candidate.name === tool);
+  if (!capability?.actions.some((candidate) => candidate.name === action)) return null;
+
+  return {
+    tool,
+    action,
+    args: typeof args === 'object' && args !== null ? args as Record<string, unknown> : {},
+    confidence: typeof confidence === 'number' ? Math.min(1, Math.max(0, confidence)) : 0.5,
+    originalInput: request.input,
+    source: 'llm',
+  };
+}
@@ -2,6 +2,8 @@
  * Enhanced Command Parser for Memory-Aware Orchestrator
  * Intelligently parses natural language commands and routes to appropriate tools
  */
+import type { ConnectorCapability } from '../connectors/sdk';
+import type { CommandLlmParser } from './llm-parser';
 
 export interface ParsedCommand {
   tool: string;
@@ -9,9 +11,44 @@ export interface ParsedCommand {
   args: Record<string, unknown>;
   confidence: number;
   originalInput: string;
+  source?: 'keyword' | 'llm';
 }
 
-export async function resolveCommand(input: string): Promise<ParsedCommand> {
+export interface ResolveCommandOptions {
+  /** Consulted when keyword matching fails or is less confident than minConfidence */
+  llmParser?: CommandLlmParser | undefined;
+  capabilities?: ConnectorCapability[] | undefined;
+  context?: Record<string, unknown> | undefined;
+  minConfidence?: number | undefined;
+}
+
+export const DEFAULT_MIN_KEYWORD_CONFIDENCE = 0.75;
+
+export async function resolveCommand(input: string, options: ResolveCommandOptions = {}): Promise<ParsedCommand> {
+  let keyword: ParsedCommand | undefined;
+  let keywordError: unknown;
+  try {
+    keyword = { ...resolveKeywordCommand(input), source: 'keyword' };
+  } catch (error) {
+    keywordError = error;
+  }
+
+  const minConfidence = options.minConfidence ?? DEFAULT_MIN_KEYWORD_CONFIDENCE;
+  if (options.llmParser && options.capabilities && (!keyword || keyword.confidence < minConfidence)) {
+    // A failing model must not break commands the keyword parser already understood
+    const parsed = await options.llmParser
+      .parse({ input, capabilities: options.capabilities, context: options.context })
+      .catch(() => null);
+    if (parsed && (!keyword || parsed.confidence >= keyword.confidence)) {
+      return parsed;
+    }
+  }
+
+  if (keyword) return keyword;
+  throw keywordError;
+}
+
+function resolveKeywordCommand(input: string): ParsedCommand {
   const lowerInput = input.toLowerCase().trim();
   const words = lowerInput.split(/\s+/);
 
@@ -85,7 +122,8 @@ function isSearchQuery(input: string): boolean {
 function parseMemoryCommand(original: string, lower: string, _words: string[]): ParsedCommand {
   const args: Record<string, unknown> = {};
   let action = 'search'; // default
-  let confidence = 0.8;
+  // Only a guess until one of the branches below recognizes the command
+  let confidence = 0.6;
 
   // Extract quoted content for titles/content
   const quotedMatches = original.match(/"([^"]+)"/g);
@@ -187,6 +225,10 @@ function parseMemoryCommand(original: string, lower: string, _words: string[]):
     }
   }
 
+  if (action === 'search' && args.query === undefined) {
+    args.query = original.trim();
+  }
+
   return {
     tool: 'memory',
     action,
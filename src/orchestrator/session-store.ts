@@ -0,0 +1,66 @@
+/**
+ * Orchestrator Session Store
+ * Persists ContextualOrchestrator conversation state between requests
+ */
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+export interface OrchestratorTurn {
+  input: string;
+  tool: string;
+  action: string;
+  success: boolean;
+  error?: string | undefined;
+  timestamp: string;
+}
+
+export interface OrchestratorSession {
+  id: string;
+  user_id: string | null;
+  context: Record<string, unknown>;
+  history: OrchestratorTurn[];
+  created_at: string;
+  updated_at: string;
+}
+
+export interface OrchestratorSessionStore {
+  /** Null when the session does not exist or belongs to another user */
+  load(sessionId: string, userId: string | null): Promise<OrchestratorSession | null>;
+  save(session: OrchestratorSession): Promise<void>;
+}
+
+export class InMemorySessionStore implements OrchestratorSessionStore {
+  private sessions = new Map<string, OrchestratorSession>();
+
+  async load(sessionId: string, userId: string | null): Promise<OrchestratorSession | null> {
+    const session = this.sessions.get(sessionId);
+    if (!session || session.user_id !== userId) return null;
+    return structuredClone(session);
+  }
+
+  async save(session: OrchestratorSession): Promise<void> {
+    this.sessions.set(session.id, structuredClone(session));
+  }
+}
+
+export class SupabaseSessionStore implements OrchestratorSessionStore {
+  constructor(private readonly supabase: SupabaseClient) {}
+
+  async load(sessionId: string, userId: string | null): Promise<OrchestratorSession | null> {
+    let query = this.supabase
+      .from('orchestrator_sessions')
+      .select('*')
+      .eq('id', sessionId);
+    query = userId ? query.eq('user_id', userId) : query.is('user_id', null);
+
+    const { data, error } = await query.maybeSingle();
+    if (error) throw new Error(`Failed to load orchestrator session: ${error.message}`);
+    return (data as OrchestratorSession | null) ?? null;
+  }
+
+  async save(session: OrchestratorSession): Promise<void> {
+    const { error } = await this.supabase
+      .from('orchestrator_sessions')
+      .upsert(session, { onConflict: 'id' });
+    if (error) throw new Error(`Failed to save orchestrator session: ${error.message}`);
+  }
+}
@@ -0,0 +1,19 @@
+/**
+ * Standalone reasoning worker: processes pending intelligence jobs outside
+ * the API process. Run with `npm run worker:reasoning`.
+ */
+import { config } from '@/config/environment';
+import { logger } from '@/utils/logger';
+import { startReasoningWorker, stopReasoningWorker } from '@/services/intelligenceService';
+
+const shutdown = (signal: string) => {
+  logger.info(`${signal} received, stopping reasoning worker`);
+  stopReasoningWorker();
+  process.exit(0);
+};
+
+process.on('SIGTERM', () => shutdown('SIGTERM'));
+process.on('SIGINT', () => shutdown('SIGINT'));
+
+logger.info('Starting standalone reasoning worker', { environment: config.NODE_ENV });
+startReasoningWorker(undefined, { keepAlive: true });
@@ -6,10 +6,13 @@ import {
   planBasedRateLimit,
   validateProjectScope,
 } from '@/middleware/auth-aligned';
+import { ConflictError, ValidationError } from '@/middleware/errorHandler';
 import { logger } from '@/utils/logger';
 import { IntelligenceService } from '@/services/intelligenceService';
 import {
   canReadIntelligenceSubject,
+  canWriteIntelligenceSubject,
+  getAuthenticatedSubject,
   resolveIntelligenceSubjectBoundary,
 } from '@/services/intelligenceAccess';
 import { getScalarRouteParam } from '@/utils/request';
@@ -31,6 +34,26 @@ const flushRequestSchema = z.object({
   subject_id: z.string().min(1, 'subject_id required'),
 });
 
+const contradictionsQuerySchema = z.object({
+  subject_id: z.string().min(1, 'subject_id is required'),
+  limit: z.coerce.number().int().positive().max(100).optional(),
+});
+
+const resolveContradictionSchema = z.discriminatedUnion('action', [
+  z.object({
+    subject_id: z.string().min(1, 'subject_id required'),
+    action: z.literal('accept'),
+    winner_id: z.string().uuid(),
+    note: z.string().max(1000).optional(),
+  }),
+  z.object({
+    subject_id: z.string().min(1, 'subject_id required'),
+    action: z.literal('scope'),
+    scopes: z.record(z.string().uuid(), z.string().trim().min(1).max(200)),
+    note: z.string().max(1000).optional(),
+  }),
+]);
+
 // ---------------------------------------------------------------------------
 // GET /api/v1/intelligence/conclusions
 // ---------------------------------------------------------------------------
@@ -159,4 +182,111 @@ router.post(
   }),
 );
 
+// ---------------------------------------------------------------------------
+// GET /api/v1/intelligence/contradictions
+// ---------------------------------------------------------------------------
+
+router.get(
+  '/contradictions',
+  validateProjectScope,
+  alignedAuthMiddleware,
+  planBasedRateLimit(),
+  asyncHandler(async (req: Request, res: Response) => {
+    const parsed = contradictionsQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      res.status(400).json({ error: 'Validation failed', details: parsed.error.issues });
+      return;
+    }
+
+    const { subject_id, limit } = parsed.data;
+    const boundary = resolveIntelligenceSubjectBoundary(req.user, subject_id);
+    if (!boundary) {
+      logger.warn('contradictions: subject outside visibility boundary', { subject_id, user: req.user?.id });
+      res.status(403).json({ error: 'Subject is outside the authenticated visibility boundary' });
+      return;
+    }
+
+    try {
+      const result = await intelligenceService.listContradictions({
+        subject_id: boundary.subjectId,
+        ...(!boundary.personalSubject && boundary.organizationId
+          ? { organization_id: boundary.organizationId }
+          : {}),
+        limit: limit ?? 20,
+      });
+      res.json(result);
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : String(err);
+      logger.error('listContradictions error', { err: msg, subject_id: boundary.subjectId });
+      res.status(500).json({ error: 'Failed to retrieve contradictions' });
+    }
+  }),
+);
+
+// ---------------------------------------------------------------------------
+// POST /api/v1/intelligence/contradictions/:groupId/resolve
+// ---------------------------------------------------------------------------
+
+router.post(
+  '/contradictions/:groupId/resolve',
+  validateProjectScope,
+  alignedAuthMiddleware,
+  planBasedRateLimit(),
+  asyncHandler(async (req: Request, res: Response) => {
+    const groupId = getScalarRouteParam(req.params.groupId);
+    if (!groupId) {
+      res.status(400).json({ error: 'contradiction group id is required' });
+      return;
+    }
+
+    const parsed = resolveContradictionSchema.safeParse(req.body);
+    if (!parsed.success) {
+      res.status(400).json({ error: 'Validation failed', details: parsed.error.issues });
+      return;
+    }
+
+    const { subject_id, ...resolution } = parsed.data;
+    const boundary = resolveIntelligenceSubjectBoundary(req.user, subject_id);
+    if (!boundary) {
+      logger.warn('resolveContradiction: subject outside visibility boundary', { subject_id, user: req.user?.id });
+      res.status(403).json({ error: 'Subject is outside the authenticated visibility boundary' });
+      return;
+    }
+    if (!canWriteIntelligenceSubject(req.user, boundary)) {
+      logger.warn('resolveContradiction: caller may not edit subject', { subject_id, user: req.user?.id });
+      res.status(403).json({ error: 'Only the subject or an organization admin can resolve contradictions' });
+      return;
+    }
+
+    try {
+      const resolved = await intelligenceService.resolveContradiction({
+        group_id: groupId,
+        subject_id: boundary.subjectId,
+        ...(!boundary.personalSubject && boundary.organizationId
+          ? { organization_id: boundary.organizationId }
+          : {}),
+        resolution,
+        resolved_by: getAuthenticatedSubject(req.user),
+      });
+      if (!resolved) {
+        res.status(404).json({ error: 'Contradiction group not found' });
+        return;
+      }
+      res.json(resolved);
+    } catch (err) {
+      if (err instanceof ValidationError) {
+        res.status(400).json({ error: err.message });
+        return;
+      }
+      if (err instanceof ConflictError) {
+        res.status(409).json({ error: err.message });
+        return;
+      }
+      const msg = err instanceof Error ? err.message : String(err);
+      logger.error('resolveContradiction error', { err: msg, groupId, subject_id: boundary.subjectId });
+      res.status(500).json({ error: 'Failed to resolve contradiction' });
+    }
+  }),
+);
+
 export default router;
@@ -4,12 +4,22 @@ import { config } from '@/config/environment';
 import { logger } from '@/utils/logger';
 import { asyncHandler } from '@/middleware/errorHandler';
 import { ensureApiKeyHash } from '@lanonasis/security-sdk/hash-utils';
+import { SSEConnectionRegistry, getLastEventId } from '@/services/sseConnections';
 
 const router: Router = Router();
 const supabase = createClient(config.SUPABASE_URL, config.SUPABASE_SERVICE_KEY);
 
-// Store active MCP SSE connections
-const mcpConnections = new Map<string, Response>();
+// Connections on this instance; broadcasts reach every instance via the realtime bus
+const mcpConnections = new SSEConnectionRegistry('mcp', (lastEventId) => ({
+  jsonrpc: '2.0',
+  method: 'notifications/message',
+  params: {
+    type: 'replay_truncated',
+    message: 'Some events before the requested Last-Event-ID are no longer available',
+    lastEventId,
+    timestamp: new Date().toISOString()
+  }
+}));
 
 interface MCPApiKeyRecord {
   id: string;
@@ -119,6 +129,12 @@ const authenticateApiKey = async (req: Request, res: Response, next: NextFunctio
  *         schema:
  *           type: string
  *         description: Client identifier for connection tracking
+ *       - in: header
+ *         name: Last-Event-ID
+ *         required: false
+ *         schema:
+ *           type: string
+ *         description: ID of the last notification received; missed notifications are replayed first
  *     responses:
  *       200:
  *         description: MCP SSE connection established
@@ -154,9 +170,6 @@ router.get('/', authenticateApiKey, asyncHandler(async (req: Request, res: Respo
     'X-Accel-Buffering': 'no' // Disable nginx buffering
   });
 
-  // Store connection
-  mcpConnections.set(connectionId, res);
-  
   // Send MCP protocol initialization
   const initMessage = {
     jsonrpc: '2.0',
@@ -202,11 +215,14 @@ router.get('/', authenticateApiKey, asyncHandler(async (req: Request, res: Respo
     }
   })}\n\n`);
 
+  // Store connection, replaying notifications missed since Last-Event-ID
+  await mcpConnections.open(connectionId, apiKeyData.user_id, res, getLastEventId(req));
+
   // Send periodic heartbeat for MCP protocol
   const heartbeat = setInterval(() => {
     if (res.writableEnded) {
       clearInterval(heartbeat);
-      mcpConnections.delete(connectionId);
+      mcpConnections.close(connectionId);
       return;
     }
     
@@ -223,13 +239,13 @@ router.get('/', authenticateApiKey, asyncHandler(async (req: Request, res: Respo
   req.on('close', () => {
     logger.info('MCP SSE client disconnected', { connectionId, apiKey: apiKeyData.name });
     clearInterval(heartbeat);
-    mcpConnections.delete(connectionId);
+    mcpConnections.close(connectionId);
   });
 
   req.on('error', (error) => {
     logger.error('MCP SSE connection error', { connectionId, error: error.message });
     clearInterval(heartbeat);
-    mcpConnections.delete(connectionId);
+    mcpConnections.close(connectionId);
   });
 
   logger.info('MCP SSE connection established', { 
@@ -241,7 +257,8 @@ router.get('/', authenticateApiKey, asyncHandler(async (req: Request, res: Respo
 }));
 
 /**
- * Broadcast MCP message to all connected clients
+ * Broadcast MCP message to connected clients on every instance, or only to
+ * targetUserId's connections
  */
 export function broadcastMCP(message: Record<string, unknown>, targetUserId?: string) {
   const mcpMessage = {
@@ -253,21 +270,7 @@ export function broadcastMCP(message: Record<string, unknown>, targetUserId?: st
     }
   };
 
-  const data = `data: ${JSON.stringify(mcpMessage)}\n\n`;
-
-  mcpConnections.forEach((connection, connectionId) => {
-    const [userId] = connectionId.split('_');
-    
-    if (targetUserId && userId !== targetUserId) {
-      return; // Skip if targeting specific user
-    }
-
-    if (!connection.writableEnded) {
-      connection.write(data);
-    } else {
-      mcpConnections.delete(connectionId);
-    }
-  });
+  mcpConnections.broadcast(mcpMessage, targetUserId);
 }
 
 /**
@@ -1,19 +1,52 @@
 import { Router, Request, Response } from 'express';
+import { createInterface } from 'readline';
 import { v4 as uuidv4 } from 'uuid';
 
+import { config } from '@/config/environment';
 import { asyncHandler } from '@/middleware/errorHandler';
 import { requirePlan, requireRole } from '@/middleware/auth-aligned';
-import type { UnifiedUser } from '@/middleware/auth-aligned';
-import { MemoryService, ListMemoryFilters } from '@/services/memoryService';
-import { resolveOrganizationId } from '@/services/organizationResolver';
+import { MemoryService, ListMemoryFilters, ExportMemoryFilters } from '@/services/memoryService';
+import { diffMemorySnapshots } from '@/services/memoryDiff';
+import {
+  EXPORT_PAGE_SIZE,
+  IMPORT_BATCH_SIZE,
+  MAX_IMPORT_LINES,
+  NDJSON_CONTENT_TYPES,
+  parseImportLine,
+  toExportRecord
+} from '@/services/memoryTransfer';
+import { resolveUserContext } from '@/services/organizationResolver';
+import { getEmbeddingRegistry } from '@/services/embeddingProviders';
+import { EmbeddingMigrationService } from '@/services/embeddingMigrationService';
+import { AccessControlService, accessCallerFromRequest } from '@/services/accessControlService';
+import { buildContextBlock } from '@/services/contextBuilder';
+import {
+  LIFECYCLE_RULES,
+  lifecycleConflict,
+  memoryStateOf,
+  parseStateFilter,
+  resolveStateFilter
+} from '@/services/memoryLifecycle';
+import { startEmbeddingMigrationSchema } from '@/types/embeddingMigration';
+import { grantAccessSchema, listAccessAuditQuerySchema } from '@/types/access';
+import { buildContextSchema } from '@/types/context';
 import {
   createMemorySchema,
   updateMemorySchema,
   searchMemorySchema,
+  exportMemoryQuerySchema,
+  updateEmbeddingProviderSchema,
+  memoryTransitionSchema,
+  bulkMemoryStateSchema,
   CreateMemoryRequest,
+  ImportMemoryLine,
+  ImportLineResult,
   UpdateMemoryRequest,
   SearchMemoryRequest,
-  MemoryType
+  MemoryType,
+  MemoryLifecycleAction,
+  MemoryState,
+  SearchMode
 } from '@/types/memory';
 
 
@@ -25,48 +58,30 @@ interface SearchMemoryFilters {
   tags?: string[];
   topic_id?: string;
   user_id?: string;
+  states?: MemoryState[];
+  mode?: SearchMode;
 }
-import { logMemoryOperation, logger } from '@/utils/logger';
+import { logger, logMemoryOperation } from '@/utils/logger';
 import { getScalarRouteParam } from '@/utils/request';
 
 const router: Router = Router();
 const memoryService = new MemoryService();
+const embeddingMigrations = new EmbeddingMigrationService();
+const accessControl = new AccessControlService();
 
-/**
- * Resolve user context with intelligent organization ID handling
- * Supports vendor API keys, regular API keys, and JWT tokens
- */
-const resolveUserContext = async (user?: UnifiedUser) => {
-  const userId = user?.userId ?? user?.sub ?? user?.id ?? user?.user_id;
-  const rawOrganizationId = user?.organizationId ?? user?.organization_id;
-  const plan = (user?.plan as string | undefined) ?? 'free';
-
-  if (!userId) {
-    return { userId: '', organizationId: '', plan, isResolved: false };
-  }
-
-  // Use intelligent organization resolver to handle all patterns
-  const resolution = await resolveOrganizationId(rawOrganizationId, userId);
+const PLAN_MEMORY_LIMITS: Record<string, number> = {
+  free: 100,
+  pro: 10000,
+  enterprise: Infinity
+};
 
-  // Log if fallback was used
-  if (resolution.isFallback || resolution.isVendor) {
-    logger.info('Organization ID resolved with special handling', {
-      userId,
-      rawOrganizationId,
-      resolvedOrganizationId: resolution.organizationId,
-      source: resolution.source,
-      isVendor: resolution.isVendor,
-      isFallback: resolution.isFallback
-    });
-  }
+const planMemoryLimit = (plan: string): number => PLAN_MEMORY_LIMITS[plan] ?? Infinity;
 
-  return {
-    userId,
-    organizationId: resolution.organizationId,
-    plan,
-    isResolved: true,
-    isVendor: resolution.isVendor
-  };
+const parseVersionNumber = (value: unknown): number | undefined => {
+  const raw = getScalarRouteParam(value);
+  if (!raw || !/^\d+$/.test(raw)) return undefined;
+  const parsed = parseInt(raw, 10);
+  return parsed >= 1 ? parsed : undefined;
 };
 
 /**
@@ -110,18 +125,13 @@ router.post('/', asyncHandler(async (req: Request, res: Response) => {
 
   // Check plan limits
   const memoryCount = await memoryService.getMemoryCount(organizationId);
-  const planLimits = {
-    free: 100,
-    pro: 10000,
-    enterprise: Infinity
-  };
 
-  if (memoryCount >= planLimits[plan as keyof typeof planLimits]) {
+  if (memoryCount >= planMemoryLimit(plan)) {
     res.status(403).json({
       error: 'Plan limit exceeded',
-      message: `Your ${plan} plan allows up to ${planLimits[plan as keyof typeof planLimits]} memories. Please upgrade your plan.`,
+      message: `Your ${plan} plan allows up to ${planMemoryLimit(plan)} memories. Please upgrade your plan.`,
       current_count: memoryCount,
-      limit: planLimits[plan as keyof typeof planLimits]
+      limit: planMemoryLimit(plan)
     });
     return;
   }
@@ -181,6 +191,17 @@ router.post('/', asyncHandler(async (req: Request, res: Response) => {
  *           type: string
  *           description: Comma-separated list of tags
  *       - in: query
+ *         name: state
+ *         schema:
+ *           type: string
+ *           default: active
+ *         description: Comma-separated lifecycle states (active, paused, archived, deleted) or `all`
+ *       - in: query
+ *         name: include_deleted
+ *         schema:
+ *           type: boolean
+ *         description: Also list memories in the trash
+ *       - in: query
  *         name: sort
  *         schema:
  *           type: string
@@ -238,7 +259,11 @@ router.get('/', asyncHandler(async (req: Request, res: Response) => {
 
   // Users can only see their own personal memories unless they're admin
   const filters: ListMemoryFilters = {
-    organization_id: organizationId
+    organization_id: organizationId,
+    states: resolveStateFilter(
+      parseStateFilter(getScalarRouteParam(req.query.state)),
+      getScalarRouteParam(req.query.include_deleted) === 'true'
+    )
   };
 
   if (memory_type && ['context', 'project', 'knowledge', 'reference', 'personal', 'workflow'].includes(memory_type)) {
@@ -260,12 +285,16 @@ router.get('/', asyncHandler(async (req: Request, res: Response) => {
     filters.user_id = user_id;
   }
 
+  const visibilityFilter = userId
+    ? await accessControl.listFilter(organizationId, accessCallerFromRequest(req, userId))
+    : null;
+
   const result = await memoryService.listMemories(filters, {
     page,
     limit,
     sort,
     order
-  });
+  }, visibilityFilter);
 
   res.json(result);
 }));
@@ -274,8 +303,14 @@ router.get('/', asyncHandler(async (req: Request, res: Response) => {
  * @swagger
  * /memory/search:
  *   post:
- *     summary: Search memory entries using vector similarity
- *     description: Performs semantic search across memory entries using vector embeddings
+ *     summary: Search memory entries
+ *     description: |
+ *       Searches memory entries by vector similarity (default), full-text rank
+ *       (`mode: lexical`), or both fused with reciprocal-rank fusion
+ *       (`mode: hybrid`). Hybrid mode catches exact identifiers such as error
+ *       codes or ticket numbers that the embedding alone may rank poorly.
+ *       Only active memories are searched unless `states` or
+ *       `include_deleted` asks for more.
  *     tags: [Memory]
  *     security:
  *       - bearerAuth: []
@@ -299,6 +334,9 @@ router.get('/', asyncHandler(async (req: Request, res: Response) => {
  *                     $ref: '#/components/schemas/MemorySearchResult'
  *                 query:
  *                   type: string
+ *                 mode:
+ *                   type: string
+ *                   enum: [vector, lexical, hybrid]
  *                 total_results:
  *                   type: integer
  *                 search_time_ms:
@@ -322,7 +360,8 @@ router.post('/search', asyncHandler(async (req: Request, res: Response) => {
   // Build filters object without undefined values
   const filters: SearchMemoryFilters = {
     limit: validatedData.limit,
-    threshold: validatedData.threshold
+    threshold: validatedData.threshold,
+    mode: validatedData.mode
   };
 
   if (validatedData.memory_types?.length) {
@@ -337,20 +376,24 @@ router.post('/search', asyncHandler(async (req: Request, res: Response) => {
     filters.topic_id = validatedData.topic_id;
   }
 
+  filters.states = resolveStateFilter(validatedData.states, validatedData.include_deleted);
+
   if (role !== 'admin') {
     filters.user_id = userId;
   }
 
-  const results = await memoryService.searchMemories(
-    validatedData.query,
+  const results = await accessControl.filterVisible(
+    await memoryService.searchMemories(validatedData.query, organizationId, filters),
     organizationId,
-    filters
+    accessCallerFromRequest(req, userId),
+    'search'
   );
 
   const searchTime = Date.now() - startTime;
 
   logMemoryOperation('search', userId, organizationId, {
     query: validatedData.query,
+    mode: validatedData.mode,
     results_count: results.length,
     search_time_ms: searchTime
   });
@@ -358,6 +401,7 @@ router.post('/search', asyncHandler(async (req: Request, res: Response) => {
   res.json({
     results,
     query: validatedData.query,
+    mode: validatedData.mode,
     total_results: results.length,
     search_time_ms: searchTime
   });
@@ -365,40 +409,44 @@ router.post('/search', asyncHandler(async (req: Request, res: Response) => {
 
 /**
  * @swagger
- * /memory/{id}:
- *   get:
- *     summary: Get a specific memory entry
- *     description: Retrieves a memory entry by ID and updates access tracking
+ * /memory/context:
+ *   post:
+ *     summary: Build a token-budgeted context block
+ *     description: |
+ *       Searches active memories (hybrid mode by default) and packs the best
+ *       matches into one block that fits `max_tokens` for the given tokenizer
+ *       family. Memories that look like prompt injection are dropped, secrets
+ *       are redacted, and duplicates and near-duplicates of a higher-ranked
+ *       memory are skipped. Each included memory is numbered and listed in
+ *       `citations` so answers can point back to memory IDs.
  *     tags: [Memory]
  *     security:
  *       - bearerAuth: []
- *     parameters:
- *       - in: path
- *         name: id
- *         required: true
- *         schema:
- *           type: string
- *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/BuildContextRequest'
  *     responses:
  *       200:
- *         description: Memory entry retrieved successfully
+ *         description: Context block and citations
  *         content:
  *           application/json:
  *             schema:
- *               $ref: '#/components/schemas/MemoryEntry'
- *       404:
- *         description: Memory not found
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ContextBlock'
+ *                 - type: object
+ *                   properties:
+ *                     query:
+ *                       type: string
+ *                     candidates_considered:
+ *                       type: integer
+ *                     build_time_ms:
+ *                       type: number
  */
-router.get('/:id', asyncHandler(async (req: Request, res: Response) => {
-  const id = getScalarRouteParam(req.params.id);
-  if (!id) {
-    res.status(400).json({
-      error: 'Invalid memory ID',
-      message: 'Memory ID is required'
-    });
-    return;
-  }
-
+router.post('/context', asyncHandler(async (req: Request, res: Response) => {
+  const validatedData = buildContextSchema.parse(req.body);
   const { userId, organizationId } = await resolveUserContext(req.user);
   const role = req.user?.role ?? 'user';
 
@@ -410,85 +458,99 @@ router.get('/:id', asyncHandler(async (req: Request, res: Response) => {
     return;
   }
 
-  const memory = await memoryService.getMemoryById(id, organizationId);
+  const startTime = Date.now();
 
-  if (!memory) {
-    res.status(404).json({
-      error: 'Memory not found',
-      message: 'The requested memory entry does not exist'
-    });
-    return;
+  const filters: SearchMemoryFilters = {
+    limit: validatedData.candidates,
+    threshold: validatedData.threshold,
+    mode: validatedData.mode,
+    states: resolveStateFilter(undefined)
+  };
+
+  if (validatedData.memory_types?.length) {
+    filters.memory_types = validatedData.memory_types;
   }
 
-  // Check access permissions
-  if (role !== 'admin' && memory.user_id !== userId && memory.memory_type === 'personal') {
-    res.status(403).json({
-      error: 'Access denied',
-      message: 'You do not have permission to access this memory'
-    });
-    return;
+  if (validatedData.tags?.length) {
+    filters.tags = validatedData.tags;
   }
 
-  // Update access tracking
-  await memoryService.updateAccessTracking(id);
+  if (validatedData.topic_id) {
+    filters.topic_id = validatedData.topic_id;
+  }
 
-  logMemoryOperation('read', userId, organizationId, {
-    memoryId: id,
-    memory_type: memory.memory_type
+  if (role !== 'admin') {
+    filters.user_id = userId;
+  }
+
+  const results = await accessControl.filterVisible(
+    await memoryService.searchMemories(validatedData.query, organizationId, filters),
+    organizationId,
+    accessCallerFromRequest(req, userId),
+    'search'
+  );
+
+  const block = buildContextBlock(results, {
+    maxTokens: validatedData.max_tokens,
+    tokenizer: validatedData.tokenizer,
+    format: validatedData.format
   });
 
-  res.json(memory);
+  const buildTime = Date.now() - startTime;
+
+  logMemoryOperation('context', userId, organizationId, {
+    query: validatedData.query,
+    mode: validatedData.mode,
+    candidates: results.length,
+    included: block.citations.length,
+    tokens_used: block.tokens_used,
+    max_tokens: block.max_tokens,
+    dropped: block.dropped,
+    build_time_ms: buildTime
+  });
+
+  res.json({
+    ...block,
+    query: validatedData.query,
+    candidates_considered: results.length,
+    build_time_ms: buildTime
+  });
 }));
 
 /**
  * @swagger
- * /memory/{id}:
- *   put:
- *     summary: Update a memory entry
- *     description: Updates an existing memory entry
+ * /memory/import:
+ *   post:
+ *     summary: Bulk import memories from NDJSON
+ *     description: |
+ *       Streams an NDJSON body, one memory per line (title, content, memory_type
+ *       or type, tags, topic_id, metadata, optional precomputed embedding).
+ *       Lines are embedded and inserted in batches; a bad line is reported and
+ *       skipped without aborting the import. Output of GET /memory/export can
+ *       be imported as-is.
  *     tags: [Memory]
  *     security:
  *       - bearerAuth: []
- *     parameters:
- *       - in: path
- *         name: id
- *         required: true
- *         schema:
- *           type: string
- *           format: uuid
  *     requestBody:
  *       required: true
  *       content:
- *         application/json:
+ *         application/x-ndjson:
  *           schema:
- *             $ref: '#/components/schemas/UpdateMemoryRequest'
+ *             type: string
  *     responses:
  *       200:
- *         description: Memory updated successfully
+ *         description: Per-line import results
  *         content:
  *           application/json:
  *             schema:
- *               $ref: '#/components/schemas/MemoryEntry'
- *       404:
- *         description: Memory not found
- *       403:
- *         description: Access denied
+ *               $ref: '#/components/schemas/MemoryImportResult'
+ *       415:
+ *         description: Body is not NDJSON
  */
-router.put('/:id', asyncHandler(async (req: Request, res: Response) => {
-  const id = getScalarRouteParam(req.params.id);
-  if (!id) {
-    res.status(400).json({
-      error: 'Invalid memory ID',
-      message: 'Memory ID is required'
-    });
-    return;
-  }
-
-  const validatedData = updateMemorySchema.parse(req.body) as UpdateMemoryRequest;
-  const { userId, organizationId } = await resolveUserContext(req.user);
-  const role = req.user?.role ?? 'user';
+router.post('/import', asyncHandler(async (req: Request, res: Response) => {
+  const { userId, organizationId, plan, isResolved } = await resolveUserContext(req.user);
 
-  if (!req.user || !userId || !organizationId) {
+  if (!req.user || !userId || !organizationId || !isResolved) {
     res.status(401).json({
       error: 'Unauthorized',
       message: 'Valid authentication required'
@@ -496,69 +558,154 @@ router.put('/:id', asyncHandler(async (req: Request, res: Response) => {
     return;
   }
 
-  const existingMemory = await memoryService.getMemoryById(id, organizationId);
-
-  if (!existingMemory) {
-    res.status(404).json({
-      error: 'Memory not found',
-      message: 'The requested memory entry does not exist'
+  if (!req.is(NDJSON_CONTENT_TYPES)) {
+    res.status(415).json({
+      error: 'Unsupported media type',
+      message: `Send the import as NDJSON (${NDJSON_CONTENT_TYPES.join(', ')})`
     });
     return;
   }
 
-  // Check permissions
-  if (role !== 'admin' && existingMemory.user_id !== userId) {
-    res.status(403).json({
-      error: 'Access denied',
-      message: 'You can only update your own memories'
-    });
-    return;
+  const owner = { user_id: userId, organization_id: organizationId };
+  let remaining = planMemoryLimit(plan) - await memoryService.getMemoryCount(organizationId);
+  const results: ImportLineResult[] = [];
+  let batch: Array<{ line: number; data: ImportMemoryLine }> = [];
+
+  const flush = async () => {
+    if (batch.length === 0) return;
+    results.push(...await memoryService.importMemories(batch, owner));
+    batch = [];
+  };
+
+  let lineNumber = 0;
+  let total = 0;
+  const lines = createInterface({ input: req, crlfDelay: Infinity });
+
+  for await (const text of lines) {
+    lineNumber++;
+    if (!text.trim()) continue;
+
+    if (++total > MAX_IMPORT_LINES) {
+      results.push({ line: lineNumber, status: 'error', error: `Import limit of ${MAX_IMPORT_LINES} lines exceeded` });
+      break;
+    }
+
+    const parsed = parseImportLine(text);
+    if (!parsed.ok) {
+      results.push({ line: lineNumber, status: 'error', error: parsed.error });
+      continue;
+    }
+
+    if (remaining <= 0) {
+      results.push({ line: lineNumber, status: 'error', error: `Your ${plan} plan memory limit has been reached` });
+      continue;
+    }
+    remaining--;
+
+    batch.push({ line: lineNumber, data: parsed.data });
+    if (batch.length >= IMPORT_BATCH_SIZE) {
+      await flush();
+    }
   }
+  await flush();
 
-  const updatedMemory = await memoryService.updateMemory(id, validatedData);
+  results.sort((a, b) => a.line - b.line);
+  const imported = results.filter((result) => result.status === 'created').length;
 
-  logMemoryOperation('update', userId, organizationId, {
-    memoryId: id,
-    changes: Object.keys(validatedData)
+  logMemoryOperation('import', userId, organizationId, {
+    total,
+    imported,
+    failed: results.length - imported
   });
 
-  res.json(updatedMemory);
+  res.json({
+    total,
+    imported,
+    failed: results.length - imported,
+    results
+  });
 }));
 
 /**
  * @swagger
- * /memory/{id}:
- *   delete:
- *     summary: Delete a memory entry
- *     description: Permanently deletes a memory entry
+ * /memory/export:
+ *   get:
+ *     summary: Export memories
+ *     description: |
+ *       Streams the organization's memories, oldest first, as NDJSON (one
+ *       memory per line) or as a JSON archive. Other users' personal memories
+ *       are only included for admins.
  *     tags: [Memory]
  *     security:
  *       - bearerAuth: []
  *     parameters:
- *       - in: path
- *         name: id
- *         required: true
+ *       - in: query
+ *         name: format
+ *         schema:
+ *           type: string
+ *           enum: [ndjson, json]
+ *           default: ndjson
+ *       - in: query
+ *         name: memory_type
+ *         schema:
+ *           type: string
+ *           enum: [context, project, knowledge, reference, personal, workflow]
+ *       - in: query
+ *         name: tags
+ *         schema:
+ *           type: string
+ *         description: Comma-separated tags (matches any)
+ *       - in: query
+ *         name: topic_id
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: query
+ *         name: user_id
  *         schema:
  *           type: string
  *           format: uuid
+ *       - in: query
+ *         name: created_after
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *       - in: query
+ *         name: created_before
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *       - in: query
+ *         name: include_embeddings
+ *         schema:
+ *           type: boolean
+ *           default: false
  *     responses:
- *       204:
- *         description: Memory deleted successfully
- *       404:
- *         description: Memory not found
- *       403:
- *         description: Access denied
+ *       200:
+ *         description: Export stream
+ *         content:
+ *           application/x-ndjson:
+ *             schema:
+ *               type: string
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 format:
+ *                   type: string
+ *                   example: lanonasis-memory-archive
+ *                 version:
+ *                   type: integer
+ *                 exported_at:
+ *                   type: string
+ *                   format: date-time
+ *                 memories:
+ *                   type: array
+ *                   items:
+ *                     type: object
  */
-router.delete('/:id', asyncHandler(async (req: Request, res: Response) => {
-  const id = getScalarRouteParam(req.params.id);
-  if (!id) {
-    res.status(400).json({
-      error: 'Invalid memory ID',
-      message: 'Memory ID is required'
-    });
-    return;
-  }
-
+router.get('/export', asyncHandler(async (req: Request, res: Response) => {
+  const query = exportMemoryQuerySchema.parse(req.query);
   const { userId, organizationId } = await resolveUserContext(req.user);
   const role = req.user?.role ?? 'user';
 
@@ -570,66 +717,1886 @@ router.delete('/:id', asyncHandler(async (req: Request, res: Response) => {
     return;
   }
 
-  const existingMemory = await memoryService.getMemoryById(id, organizationId);
-
-  if (!existingMemory) {
-    res.status(404).json({
-      error: 'Memory not found',
-      message: 'The requested memory entry does not exist'
-    });
-    return;
+  const filters: ExportMemoryFilters = {
+    organization_id: organizationId,
+    include_embeddings: query.include_embeddings
+  };
+  if (query.memory_type) filters.memory_type = query.memory_type;
+  if (query.tags?.length) filters.tags = query.tags;
+  if (query.topic_id) filters.topic_id = query.topic_id;
+  if (query.user_id) filters.user_id = query.user_id;
+  if (query.created_after) filters.created_after = query.created_after;
+  if (query.created_before) filters.created_before = query.created_before;
+  if (role !== 'admin') filters.viewer_id = userId;
+  filters.visibility_filter = await accessControl.listFilter(organizationId, accessCallerFromRequest(req, userId));
+
+  // Fetch the first page before committing to a 200 so a query error still
+  // surfaces as a normal error response
+  let page = await memoryService.exportMemoriesPage(filters, 0, EXPORT_PAGE_SIZE);
+  const stamp = new Date().toISOString();
+  const isJson = query.format === 'json';
+
+  res.status(200);
+  res.setHeader('Content-Type', isJson ? 'application/json; charset=utf-8' : 'application/x-ndjson; charset=utf-8');
+  res.setHeader('Content-Disposition', `attachment; filename="memories-${stamp.slice(0, 10)}.${isJson ? 'json' : 'ndjson'}"`);
+
+  if (isJson) {
+    res.write(`{"format":"lanonasis-memory-archive","version":1,"exported_at":${JSON.stringify(stamp)},"memories":[`);
   }
 
-  // Check permissions
-  if (role !== 'admin' && existingMemory.user_id !== userId) {
-    res.status(403).json({
-      error: 'Access denied',
-      message: 'You can only delete your own memories'
-    });
+  let offset = 0;
+  let exported = 0;
+  try {
+    while (page.length > 0 && !res.destroyed) {
+      for (const row of page) {
+        const record = JSON.stringify(toExportRecord(row, query.include_embeddings));
+        res.write(isJson ? `${exported > 0 ? ',' : ''}${record}` : `${record}\n`);
+        exported++;
+      }
+
+      if (page.length < EXPORT_PAGE_SIZE) break;
+      offset += EXPORT_PAGE_SIZE;
+      page = await memoryService.exportMemoriesPage(filters, offset, EXPORT_PAGE_SIZE);
+    }
+  } catch (error) {
+    // Headers are gone; cut the stream so the client sees an incomplete
+    // transfer instead of a truncated file that looks valid
+    logger.error('Memory export aborted', { error, organizationId, exported });
+    res.destroy();
     return;
   }
 
-  await memoryService.deleteMemory(id);
+  if (isJson) {
+    res.write(`],"total":${exported}}`);
+  }
+  res.end();
 
-  logMemoryOperation('delete', userId, organizationId, {
-    memoryId: id,
-    memory_type: existingMemory.memory_type
+  logMemoryOperation('export', userId, organizationId, {
+    format: query.format,
+    exported
   });
-
-  res.status(204).send();
 }));
 
 /**
  * @swagger
- * /memory/stats:
+ * /memory/trash:
  *   get:
- *     summary: Get memory statistics
- *     description: Retrieves memory usage statistics for the organization
+ *     summary: List memories in the trash
+ *     description: |
+ *       Deleted memories that can still be restored, most recently deleted
+ *       first. Organization admins see the whole organization's trash; other
+ *       users see the memories they own.
  *     tags: [Memory]
  *     security:
  *       - bearerAuth: []
- *     responses:
- *       200:
- *         description: Memory statistics
- *         content:
- *           application/json:
- *             schema:
- *               $ref: '#/components/schemas/MemoryStats'
- */
-router.get('/admin/stats', requireRole(['admin']), asyncHandler(async (req: Request, res: Response) => {
-  const user = req.user;
-  if (!user || !user.organizationId) {
-    res.status(401).json({
+ *     parameters:
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 100
+ *           default: 20
+ *     responses:
+ *       200:
+ *         description: Trashed memories
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 memories:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/MemoryEntry'
+ *                 pagination:
+ *                   type: object
+ *                 retention_days:
+ *                   type: integer
+ */
+router.get('/trash', asyncHandler(async (req: Request, res: Response) => {
+  const { userId, organizationId } = await resolveUserContext(req.user);
+  const role = req.user?.role ?? 'user';
+
+  if (!req.user || !userId || !organizationId) {
+    res.status(401).json({
+      error: 'Unauthorized',
+      message: 'Valid authentication required'
+    });
+    return;
+  }
+
+  const page = parseInt(req.query.page as string) || 1;
+  const limit = Math.min(parseInt(req.query.limit as string) || 20, 100);
+
+  const filters: ListMemoryFilters = {
+    organization_id: organizationId,
+    states: ['deleted']
+  };
+  if (role !== 'admin') filters.user_id = userId;
+
+  const visibilityFilter = await accessControl.listFilter(organizationId, accessCallerFromRequest(req, userId));
+  const result = await memoryService.listMemories(filters, {
+    page,
+    limit,
+    sort: 'deleted_at',
+    order: 'desc'
+  }, visibilityFilter);
+
+  res.json({
+    ...result,
+    retention_days: config.MEMORY_TRASH_RETENTION_DAYS
+  });
+}));
+
+/**
+ * @swagger
+ * /memory/{id}:
+ *   get:
+ *     summary: Get a specific memory entry
+ *     description: Retrieves a memory entry by ID and updates access tracking
+ *     tags: [Memory]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: query
+ *         name: include_deleted
+ *         schema:
+ *           type: boolean
+ *         description: Return the memory even when it is in the trash
+ *     responses:
+ *       200:
+ *         description: Memory entry retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/MemoryEntry'
+ *       404:
+ *         description: Memory not found
+ */
+router.get('/:id', asyncHandler(async (req: Request, res: Response) => {
+  const id = getScalarRouteParam(req.params.id);
+  if (!id) {
+    res.status(400).json({
+      error: 'Invalid memory ID',
+      message: 'Memory ID is required'
+    });
+    return;
+  }
+
+  const { userId, organizationId } = await resolveUserContext(req.user);
+
+  if (!req.user || !userId || !organizationId) {
+    res.status(401).json({
+      error: 'Unauthorized',
+      message: 'Valid authentication required'
+    });
+    return;
+  }
+
+  const memory = await memoryService.getMemoryById(id, organizationId);
+
+  // Trashed memories are only returned when asked for explicitly
+  const includeDeleted = getScalarRouteParam(req.query.include_deleted) === 'true';
+  if (!memory || (memoryStateOf(memory) === 'deleted' && !includeDeleted)) {
+    res.status(404).json({
+      error: 'Memory not found',
+      message: 'The requested memory entry does not exist'
+    });
+    return;
+  }
+
+  // Check access permissions
+  const access = await accessControl.checkMemoryAccess(memory, organizationId, accessCallerFromRequest(req, userId), 'read');
+  if (!access.allowed) {
+    res.status(403).json({
+      error: 'Access denied',
+      message: 'You do not have permission to access this memory'
+    });
+    return;
+  }
+
+  // Update access tracking
+  await memoryService.updateAccessTracking(id);
+
+  logMemoryOperation('read', userId, organizationId, {
+    memoryId: id,
+    memory_type: memory.memory_type
+  });
+
+  res.json(memory);
+}));
+
+/**
+ * @swagger
+ * /memory/{id}:
+ *   put:
+ *     summary: Update a memory entry
+ *     description: Updates an existing memory entry. Requires write permission (owner, organization admin, or a write grant).
+ *     tags: [Memory]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/UpdateMemoryRequest'
+ *     responses:
+ *       200:
+ *         description: Memory updated successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/MemoryEntry'
+ *       404:
+ *         description: Memory not found
+ *       403:
+ *         description: Access denied
+ */
+router.put('/:id', asyncHandler(async (req: Request, res: Response) => {
+  const id = getScalarRouteParam(req.params.id);
+  if (!id) {
+    res.status(400).json({
+      error: 'Invalid memory ID',
+      message: 'Memory ID is required'
+    });
+    return;
+  }
+
+  const validatedData = updateMemorySchema.parse(req.body) as UpdateMemoryRequest;
+  const { userId, organizationId } = await resolveUserContext(req.user);
+
+  if (!req.user || !userId || !organizationId) {
+    res.status(401).json({
+      error: 'Unauthorized',
+      message: 'Valid authentication required'
+    });
+    return;
+  }
+
+  const existingMemory = await memoryService.getMemoryById(id, organizationId);
+
+  // Trashed memories must be restored before they can be edited
+  if (!existingMemory || memoryStateOf(existingMemory) === 'deleted') {
+    res.status(404).json({
+      error: 'Memory not found',
+      message: 'The requested memory entry does not exist'
+    });
+    return;
+  }
+
+  // Check permissions
+  const access = await accessControl.checkMemoryAccess(existingMemory, organizationId, accessCallerFromRequest(req, userId), 'write');
+  if (!access.allowed) {
+    res.status(403).json({
+      error: 'Access denied',
+      message: 'You do not have permission to update this memory'
+    });
+    return;
+  }
+
+  const updatedMemory = await memoryService.updateMemory(id, validatedData, organizationId);
+
+  logMemoryOperation('update', userId, organizationId, {
+    memoryId: id,
+    changes: Object.keys(validatedData)
+  });
+
+  res.json(updatedMemory);
+}));
+
+/**
+ * @swagger
+ * /memory/{id}:
+ *   delete:
+ *     summary: Delete a memory entry
+ *     description: |
+ *       Moves a memory to the trash. It stays restorable through
+ *       `POST /memory/{id}/restore` until its `purge_after` time, then the
+ *       purge job removes it. Requires delete permission (owner, organization
+ *       admin, or a delete grant). `permanent=true` skips the trash (or
+ *       empties it for this memory) and requires admin permission on the
+ *       memory.
+ *     tags: [Memory]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: query
+ *         name: permanent
+ *         schema:
+ *           type: boolean
+ *           default: false
+ *     responses:
+ *       204:
+ *         description: Memory moved to the trash (or deleted permanently)
+ *       404:
+ *         description: Memory not found
+ *       403:
+ *         description: Access denied
+ *       409:
+ *         description: Memory changed state concurrently
+ */
+router.delete('/:id', asyncHandler(async (req: Request, res: Response) => {
+  const id = getScalarRouteParam(req.params.id);
+  if (!id) {
+    res.status(400).json({
+      error: 'Invalid memory ID',
+      message: 'Memory ID is required'
+    });
+    return;
+  }
+
+  const { userId, organizationId } = await resolveUserContext(req.user);
+
+  if (!req.user || !userId || !organizationId) {
+    res.status(401).json({
+      error: 'Unauthorized',
+      message: 'Valid authentication required'
+    });
+    return;
+  }
+
+  const permanent = getScalarRouteParam(req.query.permanent) === 'true';
+  const existingMemory = await memoryService.getMemoryById(id, organizationId);
+  const state = existingMemory ? memoryStateOf(existingMemory) : undefined;
+
+  // Already-trashed memories can only be deleted permanently
+  if (!existingMemory || (state === 'deleted' && !permanent)) {
+    res.status(404).json({
+      error: 'Memory not found',
+      message: 'The requested memory entry does not exist'
+    });
+    return;
+  }
+
+  // Check permissions
+  const access = await accessControl.checkMemoryAccess(
+    existingMemory,
+    organizationId,
+    accessCallerFromRequest(req, userId),
+    permanent ? 'admin' : 'delete'
+  );
+  if (!access.allowed) {
+    res.status(403).json({
+      error: 'Access denied',
+      message: 'You do not have permission to delete this memory'
+    });
+    return;
+  }
+
+  if (permanent) {
+    await memoryService.deleteMemory(id);
+  } else {
+    const [trashed] = await memoryService.transitionMemoryStates([id], organizationId, [state ?? 'active'], 'deleted', {
+      changedBy: userId
+    });
+    if (!trashed) {
+      res.status(409).json({
+        error: 'State conflict',
+        message: 'The memory changed state while it was being deleted'
+      });
+      return;
+    }
+  }
+
+  logMemoryOperation(permanent ? 'purge' : 'delete', userId, organizationId, {
+    memoryId: id,
+    memory_type: existingMemory.memory_type
+  });
+
+  res.status(204).send();
+}));
+
+/**
+ * Apply a lifecycle action to one memory, answering 404/403/409 when the
+ * memory is missing, the caller lacks permission, or the action does not
+ * apply to its current state
+ */
+const transitionMemory = (action: MemoryLifecycleAction) => asyncHandler(async (req: Request, res: Response) => {
+  const id = getScalarRouteParam(req.params.id);
+  if (!id) {
+    res.status(400).json({
+      error: 'Invalid memory ID',
+      message: 'Memory ID is required'
+    });
+    return;
+  }
+
+  const { reason, metadata } = memoryTransitionSchema.parse(req.body ?? {});
+  const { userId, organizationId } = await resolveUserContext(req.user);
+
+  if (!req.user || !userId || !organizationId) {
+    res.status(401).json({
+      error: 'Unauthorized',
+      message: 'Valid authentication required'
+    });
+    return;
+  }
+
+  const memory = await memoryService.getMemoryById(id, organizationId);
+
+  if (!memory) {
+    res.status(404).json({
+      error: 'Memory not found',
+      message: 'The requested memory entry does not exist'
+    });
+    return;
+  }
+
+  const rule = LIFECYCLE_RULES[action];
+  const access = await accessControl.checkMemoryAccess(memory, organizationId, accessCallerFromRequest(req, userId), rule.permission);
+  if (!access.allowed) {
+    res.status(403).json({
+      error: 'Access denied',
+      message: `You do not have permission to ${action} this memory`
+    });
+    return;
+  }
+
+  const conflict = lifecycleConflict(memory, action);
+  if (conflict) {
+    res.status(409).json({
+      error: 'Invalid state transition',
+      message: conflict,
+      state: memoryStateOf(memory)
+    });
+    return;
+  }
+
+  const [updated] = await memoryService.transitionMemoryStates([id], organizationId, [memoryStateOf(memory)], rule.to, {
+    reason,
+    metadata,
+    changedBy: userId
+  });
+
+  if (!updated) {
+    res.status(409).json({
+      error: 'State conflict',
+      message: 'The memory changed state while this request was processed'
+    });
+    return;
+  }
+
+  logMemoryOperation(action, userId, organizationId, {
+    memoryId: id,
+    from_state: memoryStateOf(memory),
+    to_state: rule.to
+  });
+
+  res.json(updated);
+});
+
+/**
+ * @swagger
+ * /memory/{id}/archive:
+ *   post:
+ *     summary: Archive a memory
+ *     description: |
+ *       Moves an active or paused memory out of default search and list
+ *       results while keeping it. Requires write permission.
+ *     tags: [Memory]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/MemoryTransitionRequest'
+ *     responses:
+ *       200:
+ *         description: Memory archived
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/MemoryEntry'
+ *       403:
+ *         description: Access denied
+ *       404:
+ *         description: Memory not found
+ *       409:
+ *         description: Memory is not active or paused
+ */
+router.post('/:id/archive', transitionMemory('archive'));
+
+/**
+ * @swagger
+ * /memory/{id}/pause:
+ *   post:
+ *     summary: Pause a memory
+ *     description: |
+ *       Temporarily hides an active memory from default search and list
+ *       results, e.g. while it is being reviewed. Requires write permission.
+ *     tags: [Memory]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/MemoryTransitionRequest'
+ *     responses:
+ *       200:
+ *         description: Memory paused
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/MemoryEntry'
+ *       403:
+ *         description: Access denied
+ *       404:
+ *         description: Memory not found
+ *       409:
+ *         description: Memory is not active
+ */
+router.post('/:id/pause', transitionMemory('pause'));
+
+/**
+ * @swagger
+ * /memory/{id}/resume:
+ *   post:
+ *     summary: Resume a paused memory
+ *     tags: [Memory]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/MemoryTransitionRequest'
+ *     responses:
+ *       200:
+ *         description: Memory active again
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/MemoryEntry'
+ *       403:
+ *         description: Access denied
+ *       404:
+ *         description: Memory not found
+ *       409:
+ *         description: Memory is not paused
+ */
+router.post('/:id/resume', transitionMemory('resume'));
+
+/**
+ * @swagger
+ * /memory/{id}/restore:
+ *   post:
+ *     summary: Restore an archived or trashed memory
+ *     description: |
+ *       Makes an archived memory, or a deleted one still inside its restore
+ *       window, active again. Requires write permission.
+ *     tags: [Memory]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/MemoryTransitionRequest'
+ *     responses:
+ *       200:
+ *         description: Memory restored
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/MemoryEntry'
+ *       403:
+ *         description: Access denied
+ *       404:
+ *         description: Memory not found
+ *       409:
+ *         description: Memory is not archived or deleted, or its restore window has expired
+ */
+router.post('/:id/restore', transitionMemory('restore'));
+
+/**
+ * @swagger
+ * /memory/{id}/transitions:
+ *   get:
+ *     summary: Lifecycle history of a memory
+ *     description: State transitions (archive, pause, delete, restore...), newest first
+ *     tags: [Memory]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 100
+ *           default: 20
+ *       - in: query
+ *         name: offset
+ *         schema:
+ *           type: integer
+ *           minimum: 0
+ *           default: 0
+ *     responses:
+ *       200:
+ *         description: Transition history
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 memory_id:
+ *                   type: string
+ *                 state:
+ *                   type: string
+ *                 transitions:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/MemoryStateTransition'
+ *                 total:
+ *                   type: integer
+ *       403:
+ *         description: Access denied
+ *       404:
+ *         description: Memory not found
+ */
+router.get('/:id/transitions', asyncHandler(async (req: Request, res: Response) => {
+  const id = getScalarRouteParam(req.params.id);
+  if (!id) {
+    res.status(400).json({
+      error: 'Invalid memory ID',
+      message: 'Memory ID is required'
+    });
+    return;
+  }
+
+  const { userId, organizationId } = await resolveUserContext(req.user);
+
+  if (!req.user || !userId || !organizationId) {
+    res.status(401).json({
+      error: 'Unauthorized',
+      message: 'Valid authentication required'
+    });
+    return;
+  }
+
+  const memory = await memoryService.getMemoryById(id, organizationId);
+
+  if (!memory) {
+    res.status(404).json({
+      error: 'Memory not found',
+      message: 'The requested memory entry does not exist'
+    });
+    return;
+  }
+
+  const access = await accessControl.checkMemoryAccess(memory, organizationId, accessCallerFromRequest(req, userId), 'read');
+  if (!access.allowed) {
+    res.status(403).json({
+      error: 'Access denied',
+      message: 'You do not have permission to access this memory'
+    });
+    return;
+  }
+
+  const limit = Math.min(parseInt(req.query.limit as string) || 20, 100);
+  const offset = Math.max(parseInt(req.query.offset as string) || 0, 0);
+  const result = await memoryService.listStateTransitions(id, { limit, offset });
+
+  res.json({
+    memory_id: id,
+    state: memoryStateOf(memory),
+    ...result
+  });
+}));
+
+/**
+ * Load a memory whose access rules the caller wants to manage, answering
+ * the request with 400/401/404/403 and returning null when they can't
+ */
+const resolveAccessManagement = async (req: Request, res: Response) => {
+  const id = getScalarRouteParam(req.params.id);
+  if (!id) {
+    res.status(400).json({
+      error: 'Invalid memory ID',
+      message: 'Memory ID is required'
+    });
+    return null;
+  }
+
+  const { userId, organizationId } = await resolveUserContext(req.user);
+  if (!req.user || !userId || !organizationId) {
+    res.status(401).json({
+      error: 'Unauthorized',
+      message: 'Valid authentication required'
+    });
+    return null;
+  }
+
+  const memory = await memoryService.getMemoryById(id, organizationId);
+  if (!memory) {
+    res.status(404).json({
+      error: 'Memory not found',
+      message: 'The requested memory entry does not exist'
+    });
+    return null;
+  }
+
+  const caller = accessCallerFromRequest(req, userId);
+  const access = await accessControl.checkMemoryAccess(memory, organizationId, caller, 'admin');
+  if (!access.allowed) {
+    res.status(403).json({
+      error: 'Access denied',
+      message: 'You do not have permission to manage access to this memory'
+    });
+    return null;
+  }
+
+  return { memory, organizationId, userId, caller };
+};
+
+/**
+ * @swagger
+ * /memory/{id}/access:
+ *   get:
+ *     summary: List access rules for a memory
+ *     description: |
+ *       Rules on the memory and on its topic. Requires admin permission on the
+ *       memory (owner, organization admin, or an admin grant).
+ *     tags: [Memory]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Access rules
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 memory_id:
+ *                   type: string
+ *                 rules:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/AccessRule'
+ *       403:
+ *         description: Access denied
+ *       404:
+ *         description: Memory not found
+ */
+router.get('/:id/access', asyncHandler(async (req: Request, res: Response) => {
+  const managed = await resolveAccessManagement(req, res);
+  if (!managed) return;
+
+  const { memory, organizationId } = managed;
+  res.json({
+    memory_id: memory.id,
+    rules: await accessControl.listRules(organizationId, memory.id, memory.topic_id)
+  });
+}));
+
+/**
+ * @swagger
+ * /memory/{id}/access:
+ *   post:
+ *     summary: Grant or deny access to a memory
+ *     description: |
+ *       Adds a rule for a user, app (OAuth client ID) or API key. A grant
+ *       allows the permission and every lower one (read < write < delete <
+ *       admin); `granted: false` denies the permission and every higher one,
+ *       and a read deny also hides the memory from list and search.
+ *     tags: [Memory]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/GrantAccessRequest'
+ *     responses:
+ *       201:
+ *         description: Rule created
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/AccessRule'
+ *       403:
+ *         description: Access denied
+ *       404:
+ *         description: Memory not found
+ *       409:
+ *         description: An identical rule already exists
+ */
+router.post('/:id/access', asyncHandler(async (req: Request, res: Response) => {
+  const validatedData = grantAccessSchema.parse(req.body);
+  const managed = await resolveAccessManagement(req, res);
+  if (!managed) return;
+
+  const { memory, organizationId, userId, caller } = managed;
+  const rule = await accessControl.grantRule(organizationId, caller, { memory_id: memory.id }, validatedData);
+
+  logMemoryOperation('access_grant', userId, organizationId, {
+    memoryId: memory.id,
+    ruleId: rule.id,
+    principal_type: rule.principal_type,
+    permission: rule.permission,
+    granted: rule.granted
+  });
+
+  res.status(201).json(rule);
+}));
+
+/**
+ * @swagger
+ * /memory/{id}/access/{ruleId}:
+ *   delete:
+ *     summary: Revoke an access rule
+ *     tags: [Memory]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: path
+ *         name: ruleId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       204:
+ *         description: Rule revoked
+ *       403:
+ *         description: Access denied
+ *       404:
+ *         description: Memory or rule not found
+ */
+router.delete('/:id/access/:ruleId', asyncHandler(async (req: Request, res: Response) => {
+  const managed = await resolveAccessManagement(req, res);
+  if (!managed) return;
+
+  const { memory, organizationId, userId, caller } = managed;
+  const ruleId = getScalarRouteParam(req.params.ruleId);
+  const rule = ruleId
+    ? await accessControl.revokeRule(ruleId, organizationId, caller, { memory_id: memory.id })
+    : null;
+
+  if (!rule) {
+    res.status(404).json({
+      error: 'Access rule not found',
+      message: 'The memory has no access rule with that ID'
+    });
+    return;
+  }
+
+  logMemoryOperation('access_revoke', userId, organizationId, {
+    memoryId: memory.id,
+    ruleId: rule.id
+  });
+
+  res.status(204).send();
+}));
+
+/**
+ * @swagger
+ * /memory/{id}/access/audit:
+ *   get:
+ *     summary: Access audit log for a memory
+ *     description: Every allow/deny decision and rule change recorded for the memory, newest first
+ *     tags: [Memory]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 50
+ *       - in: query
+ *         name: offset
+ *         schema:
+ *           type: integer
+ *           default: 0
+ *     responses:
+ *       200:
+ *         description: Audit entries
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 entries:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/AccessAuditEntry'
+ *                 total:
+ *                   type: integer
+ *       403:
+ *         description: Access denied
+ *       404:
+ *         description: Memory not found
+ */
+router.get('/:id/access/audit', asyncHandler(async (req: Request, res: Response) => {
+  const query = listAccessAuditQuerySchema.parse(req.query);
+  const managed = await resolveAccessManagement(req, res);
+  if (!managed) return;
+
+  res.json(await accessControl.listAuditLog(managed.organizationId, managed.memory.id, query));
+}));
+
+/**
+ * @swagger
+ * /memory/{id}/versions:
+ *   get:
+ *     summary: List versions of a memory entry
+ *     description: Returns version snapshots recorded on every create and content-bearing update, newest first
+ *     tags: [Memory]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 100
+ *           default: 20
+ *       - in: query
+ *         name: offset
+ *         schema:
+ *           type: integer
+ *           minimum: 0
+ *           default: 0
+ *     responses:
+ *       200:
+ *         description: Version history
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 memory_id:
+ *                   type: string
+ *                 versions:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/MemoryVersion'
+ *                 total:
+ *                   type: integer
+ *       404:
+ *         description: Memory not found
+ */
+router.get('/:id/versions', asyncHandler(async (req: Request, res: Response) => {
+  const id = getScalarRouteParam(req.params.id);
+  if (!id) {
+    res.status(400).json({
+      error: 'Invalid memory ID',
+      message: 'Memory ID is required'
+    });
+    return;
+  }
+
+  const { userId, organizationId } = await resolveUserContext(req.user);
+
+  if (!req.user || !userId || !organizationId) {
+    res.status(401).json({
+      error: 'Unauthorized',
+      message: 'Valid authentication required'
+    });
+    return;
+  }
+
+  const memory = await memoryService.getMemoryById(id, organizationId);
+
+  // Trashed memories have no history to browse until restored
+  if (!memory || memoryStateOf(memory) === 'deleted') {
+    res.status(404).json({
+      error: 'Memory not found',
+      message: 'The requested memory entry does not exist'
+    });
+    return;
+  }
+
+  const access = await accessControl.checkMemoryAccess(memory, organizationId, accessCallerFromRequest(req, userId), 'read');
+  if (!access.allowed) {
+    res.status(403).json({
+      error: 'Access denied',
+      message: 'You do not have permission to access this memory'
+    });
+    return;
+  }
+
+  const limit = Math.min(parseInt(req.query.limit as string) || 20, 100);
+  const offset = Math.max(parseInt(req.query.offset as string) || 0, 0);
+  const result = await memoryService.listMemoryVersions(id, { limit, offset });
+
+  res.json({
+    memory_id: id,
+    ...result
+  });
+}));
+
+/**
+ * @swagger
+ * /memory/{id}/versions/{version}:
+ *   get:
+ *     summary: Get one version of a memory entry
+ *     tags: [Memory]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: path
+ *         name: version
+ *         required: true
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *     responses:
+ *       200:
+ *         description: Version snapshot
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/MemoryVersion'
+ *       404:
+ *         description: Memory or version not found
+ */
+router.get('/:id/versions/:version', asyncHandler(async (req: Request, res: Response) => {
+  const id = getScalarRouteParam(req.params.id);
+  const versionNumber = parseVersionNumber(req.params.version);
+  if (!id || versionNumber === undefined) {
+    res.status(400).json({
+      error: 'Invalid request',
+      message: 'Memory ID and a positive integer version are required'
+    });
+    return;
+  }
+
+  const { userId, organizationId } = await resolveUserContext(req.user);
+
+  if (!req.user || !userId || !organizationId) {
+    res.status(401).json({
+      error: 'Unauthorized',
+      message: 'Valid authentication required'
+    });
+    return;
+  }
+
+  const memory = await memoryService.getMemoryById(id, organizationId);
+
+  if (!memory || memoryStateOf(memory) === 'deleted') {
+    res.status(404).json({
+      error: 'Memory not found',
+      message: 'The requested memory entry does not exist'
+    });
+    return;
+  }
+
+  const access = await accessControl.checkMemoryAccess(memory, organizationId, accessCallerFromRequest(req, userId), 'read');
+  if (!access.allowed) {
+    res.status(403).json({
+      error: 'Access denied',
+      message: 'You do not have permission to access this memory'
+    });
+    return;
+  }
+
+  const version = await memoryService.getMemoryVersion(id, versionNumber);
+
+  if (!version) {
+    res.status(404).json({
+      error: 'Version not found',
+      message: `Memory ${id} has no version ${versionNumber}`
+    });
+    return;
+  }
+
+  res.json(version);
+}));
+
+/**
+ * @swagger
+ * /memory/{id}/diff:
+ *   get:
+ *     summary: Diff two versions of a memory entry
+ *     description: Compares version `from` with version `to`, or with the current memory state when `to` is omitted
+ *     tags: [Memory]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: query
+ *         name: from
+ *         required: true
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *       - in: query
+ *         name: to
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *     responses:
+ *       200:
+ *         description: Field and line-level diff
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/MemoryVersionDiff'
+ *       404:
+ *         description: Memory or version not found
+ */
+router.get('/:id/diff', asyncHandler(async (req: Request, res: Response) => {
+  const id = getScalarRouteParam(req.params.id);
+  const fromVersion = parseVersionNumber(req.query.from);
+  const toVersion = req.query.to !== undefined ? parseVersionNumber(req.query.to) : null;
+  if (!id || fromVersion === undefined || toVersion === undefined) {
+    res.status(400).json({
+      error: 'Invalid request',
+      message: '`from` (and `to`, if given) must be positive integer versions'
+    });
+    return;
+  }
+
+  const { userId, organizationId } = await resolveUserContext(req.user);
+
+  if (!req.user || !userId || !organizationId) {
+    res.status(401).json({
+      error: 'Unauthorized',
+      message: 'Valid authentication required'
+    });
+    return;
+  }
+
+  const memory = await memoryService.getMemoryById(id, organizationId);
+
+  if (!memory || memoryStateOf(memory) === 'deleted') {
+    res.status(404).json({
+      error: 'Memory not found',
+      message: 'The requested memory entry does not exist'
+    });
+    return;
+  }
+
+  const access = await accessControl.checkMemoryAccess(memory, organizationId, accessCallerFromRequest(req, userId), 'read');
+  if (!access.allowed) {
+    res.status(403).json({
+      error: 'Access denied',
+      message: 'You do not have permission to access this memory'
+    });
+    return;
+  }
+
+  const [fromSnapshot, toSnapshot] = await Promise.all([
+    memoryService.getMemoryVersion(id, fromVersion),
+    toVersion === null ? Promise.resolve(memory) : memoryService.getMemoryVersion(id, toVersion)
+  ]);
+
+  if (!fromSnapshot || !toSnapshot) {
+    res.status(404).json({
+      error: 'Version not found',
+      message: `Memory ${id} has no version ${!fromSnapshot ? fromVersion : toVersion}`
+    });
+    return;
+  }
+
+  res.json(diffMemorySnapshots(id, fromVersion, toVersion, fromSnapshot, toSnapshot));
+}));
+
+/**
+ * @swagger
+ * /memory/{id}/restore/{version}:
+ *   post:
+ *     summary: Restore a memory entry to an earlier version
+ *     description: |
+ *       Copies the version's fields back onto the memory. The restore is recorded
+ *       as a new version, so it can itself be undone.
+ *     tags: [Memory]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: path
+ *         name: version
+ *         required: true
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *     responses:
+ *       200:
+ *         description: Memory restored
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/MemoryEntry'
+ *       403:
+ *         description: Access denied
+ *       404:
+ *         description: Memory or version not found
+ */
+router.post('/:id/restore/:version', asyncHandler(async (req: Request, res: Response) => {
+  const id = getScalarRouteParam(req.params.id);
+  const versionNumber = parseVersionNumber(req.params.version);
+  if (!id || versionNumber === undefined) {
+    res.status(400).json({
+      error: 'Invalid request',
+      message: 'Memory ID and a positive integer version are required'
+    });
+    return;
+  }
+
+  const { userId, organizationId } = await resolveUserContext(req.user);
+
+  if (!req.user || !userId || !organizationId) {
+    res.status(401).json({
+      error: 'Unauthorized',
+      message: 'Valid authentication required'
+    });
+    return;
+  }
+
+  const existingMemory = await memoryService.getMemoryById(id, organizationId);
+
+  if (!existingMemory || memoryStateOf(existingMemory) === 'deleted') {
+    res.status(404).json({
+      error: 'Memory not found',
+      message: 'The requested memory entry does not exist'
+    });
+    return;
+  }
+
+  // Same rule as PUT: restoring is an overwrite
+  const access = await accessControl.checkMemoryAccess(existingMemory, organizationId, accessCallerFromRequest(req, userId), 'write');
+  if (!access.allowed) {
+    res.status(403).json({
+      error: 'Access denied',
+      message: 'You do not have permission to restore this memory'
+    });
+    return;
+  }
+
+  const restored = await memoryService.restoreMemoryVersion(existingMemory, versionNumber);
+
+  if (!restored) {
+    res.status(404).json({
+      error: 'Version not found',
+      message: `Memory ${id} has no version ${versionNumber}`
+    });
+    return;
+  }
+
+  logMemoryOperation('restore', userId, organizationId, {
+    memoryId: id,
+    restored_version: versionNumber
+  });
+
+  res.json(restored);
+}));
+
+/**
+ * @swagger
+ * /memory/stats:
+ *   get:
+ *     summary: Get memory statistics
+ *     description: Retrieves memory usage statistics for the organization
+ *     tags: [Memory]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Memory statistics
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/MemoryStats'
+ */
+router.get('/admin/stats', requireRole(['admin']), asyncHandler(async (req: Request, res: Response) => {
+  const user = req.user;
+  if (!user || !user.organizationId) {
+    res.status(401).json({
+      error: 'Unauthorized',
+      message: 'Valid authentication required'
+    });
+    return;
+  }
+  const { organizationId } = user;
+
+  const stats = await memoryService.getMemoryStats(organizationId);
+
+  res.json(stats);
+}));
+
+/**
+ * @swagger
+ * /memory/admin/embedding:
+ *   get:
+ *     summary: Get embedding provider settings
+ *     description: Returns the organization's embedding provider selection, the profile new memories are embedded with and the registered providers (admin only)
+ *     tags: [Memory]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Embedding settings
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/EmbeddingSettings'
+ */
+router.get('/admin/embedding', requireRole(['admin']), asyncHandler(async (req: Request, res: Response) => {
+  const { userId, organizationId } = await resolveUserContext(req.user);
+  if (!userId || !organizationId) {
+    res.status(401).json({
       error: 'Unauthorized',
       message: 'Valid authentication required'
     });
     return;
   }
-  const { organizationId } = user;
 
-  const stats = await memoryService.getMemoryStats(organizationId);
+  res.json(await memoryService.getEmbeddingSettings(organizationId));
+}));
 
-  res.json(stats);
+/**
+ * @swagger
+ * /memory/admin/embedding:
+ *   put:
+ *     summary: Select the embedding provider
+ *     description: |
+ *       Sets the provider used for new and updated memories in the organization
+ *       (admin only). `null` restores the deployment default. Existing memories
+ *       keep the profile they were embedded with.
+ *     tags: [Memory]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - provider
+ *             properties:
+ *               provider:
+ *                 type: string
+ *                 enum: [openai, voyage, azure, local]
+ *                 nullable: true
+ *     responses:
+ *       200:
+ *         description: Updated embedding settings
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/EmbeddingSettings'
+ *       400:
+ *         description: Unknown or unconfigured provider
+ */
+router.put('/admin/embedding', requireRole(['admin']), asyncHandler(async (req: Request, res: Response) => {
+  const { userId, organizationId } = await resolveUserContext(req.user);
+  if (!userId || !organizationId) {
+    res.status(401).json({
+      error: 'Unauthorized',
+      message: 'Valid authentication required'
+    });
+    return;
+  }
+
+  const { provider } = updateEmbeddingProviderSchema.parse(req.body);
+  if (provider && !getEmbeddingRegistry().get(provider)?.isAvailable()) {
+    res.status(400).json({
+      error: 'Provider unavailable',
+      message: `Embedding provider '${provider}' is not configured on this deployment`
+    });
+    return;
+  }
+
+  await memoryService.setEmbeddingProvider(organizationId, provider);
+
+  logMemoryOperation('embedding_provider_update', userId, organizationId, { provider });
+
+  res.json(await memoryService.getEmbeddingSettings(organizationId));
+}));
+
+/**
+ * @swagger
+ * /memory/admin/embedding/migrations:
+ *   get:
+ *     summary: List embedding migrations
+ *     description: Recent re-embedding jobs for the organization, newest first (admin only)
+ *     tags: [Memory]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Embedding migrations
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 migrations:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/EmbeddingMigration'
+ */
+router.get('/admin/embedding/migrations', requireRole(['admin']), asyncHandler(async (req: Request, res: Response) => {
+  const { userId, organizationId } = await resolveUserContext(req.user);
+  if (!userId || !organizationId) {
+    res.status(401).json({
+      error: 'Unauthorized',
+      message: 'Valid authentication required'
+    });
+    return;
+  }
+
+  res.json({ migrations: await embeddingMigrations.listMigrations(organizationId) });
+}));
+
+/**
+ * @swagger
+ * /memory/admin/embedding/migrations:
+ *   post:
+ *     summary: Start an embedding migration
+ *     description: |
+ *       Re-embeds memories whose stored embedding profile differs from the
+ *       organization's active one, in throttled background batches (admin only).
+ *       Until a memory is re-embedded it is excluded from vector search.
+ *       With `dry_run` the stale count is returned and nothing is started.
+ *     tags: [Memory]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               batch_size:
+ *                 type: integer
+ *                 minimum: 1
+ *                 maximum: 500
+ *                 default: 50
+ *               delay_ms:
+ *                 type: integer
+ *                 minimum: 0
+ *                 maximum: 60000
+ *                 default: 1000
+ *                 description: Pause between batches
+ *               dry_run:
+ *                 type: boolean
+ *                 default: false
+ *     responses:
+ *       200:
+ *         description: Dry-run plan
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/EmbeddingMigrationPlan'
+ *       202:
+ *         description: Migration started
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/EmbeddingMigration'
+ *       409:
+ *         description: A migration is already open for the organization
+ */
+router.post('/admin/embedding/migrations', requireRole(['admin']), asyncHandler(async (req: Request, res: Response) => {
+  const { userId, organizationId } = await resolveUserContext(req.user);
+  if (!userId || !organizationId) {
+    res.status(401).json({
+      error: 'Unauthorized',
+      message: 'Valid authentication required'
+    });
+    return;
+  }
+
+  const { dry_run, ...options } = startEmbeddingMigrationSchema.parse(req.body ?? {});
+
+  if (dry_run) {
+    res.json(await embeddingMigrations.planMigration(organizationId));
+    return;
+  }
+
+  const migration = await embeddingMigrations.startMigration(organizationId, userId, options);
+
+  logMemoryOperation('embedding_migration_start', userId, organizationId, {
+    migration_id: migration.id,
+    total: migration.total,
+    target_model: migration.target_model
+  });
+
+  res.status(202).json(migration);
+}));
+
+/**
+ * @swagger
+ * /memory/admin/embedding/migrations/{id}:
+ *   get:
+ *     summary: Get embedding migration progress
+ *     tags: [Memory]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Embedding migration
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/EmbeddingMigration'
+ *       404:
+ *         description: Migration not found
+ */
+router.get('/admin/embedding/migrations/:id', requireRole(['admin']), asyncHandler(async (req: Request, res: Response) => {
+  const { userId, organizationId } = await resolveUserContext(req.user);
+  if (!userId || !organizationId) {
+    res.status(401).json({
+      error: 'Unauthorized',
+      message: 'Valid authentication required'
+    });
+    return;
+  }
+
+  const id = getScalarRouteParam(req.params.id) ?? '';
+  const migration = await embeddingMigrations.getMigration(id, organizationId);
+  if (!migration) {
+    res.status(404).json({
+      error: 'Not found',
+      message: 'Embedding migration not found'
+    });
+    return;
+  }
+
+  res.json(migration);
+}));
+
+/**
+ * @swagger
+ * /memory/admin/embedding/migrations/{id}/{action}:
+ *   post:
+ *     summary: Pause, resume or cancel an embedding migration
+ *     description: |
+ *       `pause` stops a running job after its current batch. `resume` continues
+ *       a paused or failed job, or one orphaned by a restart, from its cursor.
+ *       `cancel` closes the job; memories already re-embedded keep their new vectors.
+ *     tags: [Memory]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: path
+ *         name: action
+ *         required: true
+ *         schema:
+ *           type: string
+ *           enum: [pause, resume, cancel]
+ *     responses:
+ *       200:
+ *         description: Updated migration
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/EmbeddingMigration'
+ *       404:
+ *         description: Migration not found
+ *       409:
+ *         description: The migration is not in a state that allows the action
+ */
+router.post('/admin/embedding/migrations/:id/:action', requireRole(['admin']), asyncHandler(async (req: Request, res: Response) => {
+  const { userId, organizationId } = await resolveUserContext(req.user);
+  if (!userId || !organizationId) {
+    res.status(401).json({
+      error: 'Unauthorized',
+      message: 'Valid authentication required'
+    });
+    return;
+  }
+
+  const id = getScalarRouteParam(req.params.id) ?? '';
+  const action = getScalarRouteParam(req.params.action);
+
+  let migration;
+  switch (action) {
+    case 'pause':
+      migration = await embeddingMigrations.pauseMigration(id, organizationId);
+      break;
+    case 'resume':
+      migration = await embeddingMigrations.resumeMigration(id, organizationId);
+      break;
+    case 'cancel':
+      migration = await embeddingMigrations.cancelMigration(id, organizationId);
+      break;
+    default:
+      res.status(404).json({
+        error: 'Not found',
+        message: `Unknown migration action '${action ?? ''}'`
+      });
+      return;
+  }
+
+  logMemoryOperation(`embedding_migration_${action}`, userId, organizationId, { migration_id: id });
+
+  res.json(migration);
+}));
+
+/**
+ * @swagger
+ * /memory/admin/purge:
+ *   post:
+ *     summary: Purge expired trash now
+ *     description: |
+ *       Permanently removes this organization's trashed memories whose
+ *       restore window has passed, without waiting for the purge job.
+ *     tags: [Memory]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Purge completed
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 purged_count:
+ *                   type: integer
+ */
+router.post('/admin/purge', requireRole(['admin']), asyncHandler(async (req: Request, res: Response) => {
+  const { userId, organizationId } = await resolveUserContext(req.user);
+
+  if (!req.user || !userId || !organizationId) {
+    res.status(401).json({
+      error: 'Unauthorized',
+      message: 'Valid authentication required'
+    });
+    return;
+  }
+
+  const batchSize = 100;
+  let purgedCount = 0;
+  for (;;) {
+    const purged = await memoryService.purgeExpiredMemories(batchSize, organizationId);
+    purgedCount += purged;
+    if (purged < batchSize) break;
+  }
+
+  logMemoryOperation('purge_trash', userId, organizationId, { purged_count: purgedCount });
+
+  res.json({ purged_count: purgedCount });
+}));
+
+/**
+ * @swagger
+ * /memory/bulk/state:
+ *   post:
+ *     summary: Change the lifecycle state of several memories
+ *     description: |
+ *       Applies archive, pause, resume, restore or delete (move to trash) to
+ *       up to 100 memories. Each memory is checked against the same access
+ *       rules as the single-memory routes; memories the caller may not change
+ *       are reported in `denied_ids`, and memories the action does not apply
+ *       to (or that do not exist) in `skipped_ids`.
+ *     tags: [Memory]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/BulkMemoryStateRequest'
+ *     responses:
+ *       200:
+ *         description: Bulk transition completed
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 action:
+ *                   type: string
+ *                 to_state:
+ *                   type: string
+ *                 updated_ids:
+ *                   type: array
+ *                   items:
+ *                     type: string
+ *                 skipped_ids:
+ *                   type: array
+ *                   items:
+ *                     type: string
+ *                 denied_ids:
+ *                   type: array
+ *                   items:
+ *                     type: string
+ */
+router.post('/bulk/state', asyncHandler(async (req: Request, res: Response) => {
+  const { memory_ids, action, reason, metadata } = bulkMemoryStateSchema.parse(req.body);
+  const { userId, organizationId } = await resolveUserContext(req.user);
+
+  if (!req.user || !userId || !organizationId) {
+    res.status(401).json({
+      error: 'Unauthorized',
+      message: 'Valid authentication required'
+    });
+    return;
+  }
+
+  // Same per-memory check as the single-memory lifecycle routes
+  const rule = LIFECYCLE_RULES[action];
+  const caller = accessCallerFromRequest(req, userId);
+  const decisions = await Promise.all(memory_ids.map(async (id) => {
+    const memory = await memoryService.getMemoryById(id, organizationId);
+    if (!memory) return { id, allowed: null };
+    const access = await accessControl.checkMemoryAccess(memory, organizationId, caller, rule.permission);
+    return { id, allowed: access.allowed };
+  }));
+
+  const permittedIds = decisions.filter(({ allowed }) => allowed === true).map(({ id }) => id);
+  const deniedIds = decisions.filter(({ allowed }) => allowed === false).map(({ id }) => id);
+
+  const updated = permittedIds.length > 0
+    ? await memoryService.transitionMemoryStates(permittedIds, organizationId, rule.from, rule.to, {
+      reason,
+      metadata,
+      changedBy: userId
+    })
+    : [];
+
+  const updatedIds = new Set(updated.map((memory) => memory.id));
+  const skippedIds = memory_ids.filter((id) => !updatedIds.has(id) && !deniedIds.includes(id));
+
+  logMemoryOperation(`bulk_${action}`, userId, organizationId, {
+    requested_count: memory_ids.length,
+    updated_count: updatedIds.size,
+    skipped_count: skippedIds.length,
+    denied_count: deniedIds.length
+  });
+
+  res.json({
+    action,
+    to_state: rule.to,
+    updated_ids: Array.from(updatedIds),
+    skipped_ids: skippedIds,
+    denied_ids: deniedIds
+  });
 }));
 
 /**
@@ -637,7 +2604,9 @@ router.get('/admin/stats', requireRole(['admin']), asyncHandler(async (req: Requ
  * /memory/bulk/delete:
  *   post:
  *     summary: Bulk delete memory entries
- *     description: Deletes multiple memory entries (admin only)
+ *     description: |
+ *       Moves multiple memory entries to the trash (admin only).
+ *       `permanent: true` deletes them for good instead.
  *     tags: [Memory]
  *     security:
  *       - bearerAuth: []
@@ -656,6 +2625,9 @@ router.get('/admin/stats', requireRole(['admin']), asyncHandler(async (req: Requ
  *                   type: string
  *                   format: uuid
  *                 maxItems: 100
+ *               permanent:
+ *                 type: boolean
+ *                 default: false
  *     responses:
  *       200:
  *         description: Bulk deletion completed
@@ -675,7 +2647,7 @@ router.post('/bulk/delete',
   requireRole(['admin']),
   requirePlan(['pro', 'enterprise']),
   asyncHandler(async (req: Request, res: Response) => {
-    const { memory_ids } = req.body;
+    const { memory_ids, permanent } = req.body;
     const { userId, organizationId } = await resolveUserContext(req.user);
 
     if (!req.user || !userId || !organizationId) {
@@ -702,9 +2674,24 @@ router.post('/bulk/delete',
       return;
     }
 
-    const result = await memoryService.bulkDeleteMemories(memory_ids, organizationId);
+    let result: { deleted_count: number; failed_ids: string[] };
+    if (permanent === true) {
+      result = await memoryService.bulkDeleteMemories(memory_ids, organizationId);
+    } else {
+      const rule = LIFECYCLE_RULES.delete;
+      const trashed = await memoryService.transitionMemoryStates(memory_ids, organizationId, rule.from, rule.to, {
+        reason: 'Bulk delete',
+        changedBy: userId
+      });
+      const trashedIds = new Set(trashed.map((memory) => memory.id));
+      result = {
+        deleted_count: trashedIds.size,
+        failed_ids: (memory_ids as string[]).filter((id) => !trashedIds.has(id))
+      };
+    }
 
     logMemoryOperation('bulk_delete', userId, organizationId, {
+      permanent: permanent === true,
       requested_count: memory_ids.length,
       deleted_count: result.deleted_count,
       failed_count: result.failed_ids.length
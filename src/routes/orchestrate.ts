@@ -0,0 +1,119 @@
+import { randomUUID } from 'crypto';
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import { createClient } from '@supabase/supabase-js';
+import { asyncHandler } from '@/middleware/errorHandler';
+import { config } from '@/config/environment';
+import { logger } from '@/utils/logger';
+import { metrics } from '@/utils/metrics';
+import {
+  ContextualOrchestrator,
+  OpenAICommandParser,
+  SupabaseSessionStore,
+  connectorRegistry,
+} from '@/orchestrator';
+import { memory, ui, ConnectorContext, ConnectorCredential, ConnectorRegistry } from '@/connectors';
+
+const orchestrateBodySchema = z.object({
+  input: z.string().trim().min(1, 'input is required').max(2000),
+  session_id: z.string().uuid().optional(),
+});
+
+const router: Router = Router();
+
+const sessionStore = new SupabaseSessionStore(
+  createClient(config.SUPABASE_URL, config.SUPABASE_SERVICE_KEY, { auth: { persistSession: false } }),
+);
+
+const llmParser = config.ORCHESTRATOR_LLM_PARSER === 'openai'
+  ? new OpenAICommandParser({ apiKey: config.OPENAI_API_KEY, model: config.ORCHESTRATOR_MODEL })
+  : undefined;
+
+// Account-level connectors (stripe) are limited to admins; everyone gets memory and ui
+const userRegistry = new ConnectorRegistry([memory, ui]);
+const registryFor = (req: Request): ConnectorRegistry =>
+  req.user?.role === 'admin' ? connectorRegistry : userRegistry;
+
+/**
+ * The memory connector calls this API back with the caller's own credential,
+ * so orchestrated commands see exactly what the caller could see directly.
+ */
+function connectorContextFor(req: Request, sessionId?: string): ConnectorContext {
+  const authHeader = req.headers.authorization;
+  const apiKey = req.headers['x-api-key'];
+  let credential: ConnectorCredential | undefined;
+  if (authHeader?.startsWith('Bearer ')) {
+    credential = { type: 'bearer', value: authHeader.slice('Bearer '.length) };
+  } else if (typeof apiKey === 'string' && apiKey.length > 0) {
+    credential = { type: 'api_key', value: apiKey };
+  }
+
+  return {
+    user_id: req.user?.id,
+    session_id: sessionId,
+    credentials: credential ? { memory: credential } : {},
+  };
+}
+
+/**
+ * GET /api/v1/orchestrate/capabilities
+ * Connectors, their actions and parameter schemas available to the caller.
+ */
+router.get(
+  '/capabilities',
+  asyncHandler(async (req: Request, res: Response) => {
+    metrics.incrementCounter('orchestrate.capabilities.total', { outcome: 'success' }, 1);
+    res.json({ connectors: registryFor(req).describe(connectorContextFor(req)) });
+  }),
+);
+
+/**
+ * POST /api/v1/orchestrate
+ * Body: { input: string, session_id?: uuid }
+ * Omit session_id to start a session; pass the returned one to continue it.
+ */
+router.post(
+  '/',
+  asyncHandler(async (req: Request, res: Response) => {
+    const startTime = Date.now();
+    const parsedBody = orchestrateBodySchema.safeParse(req.body);
+    if (!parsedBody.success) {
+      metrics.incrementCounter('orchestrate.total', { outcome: 'validation_error' }, 1);
+      res.status(400).json({ error: 'Validation failed', details: parsedBody.error.issues });
+      return;
+    }
+
+    const { input, session_id } = parsedBody.data;
+    const sessionId = session_id ?? randomUUID();
+    const orchestrator = new ContextualOrchestrator({
+      sessionId,
+      userId: req.user?.id ?? null,
+      store: sessionStore,
+      registry: registryFor(req),
+      llmParser,
+      minConfidence: config.ORCHESTRATOR_MIN_CONFIDENCE,
+      connectorContext: connectorContextFor(req, sessionId),
+    });
+
+    if (session_id && !(await orchestrator.load())) {
+      metrics.incrementCounter('orchestrate.total', { outcome: 'not_found' }, 1);
+      res.status(404).json({ error: 'Session not found' });
+      return;
+    }
+
+    const result = await orchestrator.orchestrate(input);
+    logger.info('orchestrate: command handled', {
+      session_id: sessionId,
+      tool: result.command.tool,
+      action: result.command.action,
+      source: result.command.source,
+      success: result.success,
+    });
+    metrics.incrementCounter('orchestrate.total', { outcome: result.success ? 'success' : 'failed' }, 1);
+    metrics.recordDuration('orchestrate.duration', Date.now() - startTime, {});
+
+    res.json({ session_id: sessionId, result });
+  }),
+);
+
+export default router;
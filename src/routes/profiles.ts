@@ -8,8 +8,9 @@ import {
 } from '@/middleware/auth-aligned';
 import { logger } from '@/utils/logger';
 import { metrics } from '@/utils/metrics';
-import { ProfileService } from '@/services/profileService';
+import { PROFILE_FIELDS, ProfileService } from '@/services/profileService';
 import {
+  canWriteIntelligenceSubject,
   resolveIntelligenceSubjectBoundary,
 } from '@/services/intelligenceAccess';
 
@@ -20,6 +21,32 @@ const profileVersionsQuerySchema = z.object({
 const profileAskBodySchema = z.object({
   question: z.string().trim().min(1, 'question is required'),
 });
+const profileFieldSchema = z.enum(PROFILE_FIELDS);
+const profileFieldItemsSchema = z.array(z.string().trim().min(1).max(500)).max(50);
+const profilePatchBodySchema = z.object({
+  profile_summary: z.string().trim().max(4000).nullable().optional(),
+  structured_fields: z.object({
+    preferences: profileFieldItemsSchema.optional(),
+    goals: profileFieldItemsSchema.optional(),
+    constraints: profileFieldItemsSchema.optional(),
+    tendencies: profileFieldItemsSchema.optional(),
+    facts: profileFieldItemsSchema.optional(),
+  }).strict().optional(),
+  pin_edited_fields: z.boolean().default(true),
+  expected_head_version_id: z.string().uuid().nullable().optional(),
+}).refine((body) => body.profile_summary !== undefined || body.structured_fields !== undefined, {
+  message: 'profile_summary or structured_fields is required',
+});
+const profilePinsBodySchema = z.object({
+  pin: z.array(profileFieldSchema).default([]),
+  unpin: z.array(profileFieldSchema).default([]),
+  expected_head_version_id: z.string().uuid().nullable().optional(),
+}).refine((body) => body.pin.length + body.unpin.length > 0, {
+  message: 'pin or unpin is required',
+});
+const profileEvidenceQuerySchema = z.object({
+  field: profileFieldSchema.optional(),
+});
 
 const router: Router = Router();
 const profileService = new ProfileService();
@@ -112,6 +139,170 @@ router.get(
   }),
 );
 
+/**
+ * PATCH /api/v1/profiles/:subject_id
+ * Body: { profile_summary?, structured_fields?, pin_edited_fields?, expected_head_version_id? }
+ * Edited fields are pinned unless pin_edited_fields is false.
+ */
+router.patch(
+  '/:subject_id',
+  validateProjectScope,
+  alignedAuthMiddleware,
+  planBasedRateLimit(),
+  asyncHandler(async (req: Request, res: Response) => {
+    const startTime = Date.now();
+    const parsedParams = profileParamsSchema.safeParse(req.params);
+    if (!parsedParams.success) {
+      metrics.incrementCounter('profiles.update.total', { outcome: 'validation_error' }, 1);
+      res.status(400).json({ error: 'Validation failed', details: parsedParams.error.issues });
+      return;
+    }
+    const parsedBody = profilePatchBodySchema.safeParse(req.body);
+    if (!parsedBody.success) {
+      metrics.incrementCounter('profiles.update.total', { outcome: 'validation_error' }, 1);
+      res.status(400).json({ error: 'Validation failed', details: parsedBody.error.issues });
+      return;
+    }
+
+    const { subject_id } = parsedParams.data;
+    const boundary = resolveIntelligenceSubjectBoundary(req.user, subject_id);
+    if (!boundary) {
+      logger.warn('profiles.update: subject outside visibility boundary', { subject_id, user: req.user?.id });
+      metrics.incrementCounter('profiles.update.total', { outcome: 'forbidden' }, 1);
+      res.status(403).json({ error: 'Subject is outside the authenticated visibility boundary' });
+      return;
+    }
+    if (!canWriteIntelligenceSubject(req.user, boundary)) {
+      logger.warn('profiles.update: caller may not edit subject', { subject_id, user: req.user?.id });
+      metrics.incrementCounter('profiles.update.total', { outcome: 'forbidden' }, 1);
+      res.status(403).json({ error: 'Only the subject or an organization admin can edit this profile' });
+      return;
+    }
+
+    const { expected_head_version_id, ...edit } = parsedBody.data;
+    const orgScope = boundary.personalSubject ? undefined : boundary.organizationId;
+    const profile = await profileService.updateProfile(boundary.subjectId, edit, {
+      organization_id: orgScope,
+      edited_by: req.user?.id,
+      expected_head_version_id,
+    });
+    if (!profile) {
+      metrics.incrementCounter('profiles.update.total', { outcome: 'not_found' }, 1);
+      res.status(404).json({ error: 'Profile not found' });
+      return;
+    }
+
+    metrics.incrementCounter('profiles.update.total', { outcome: 'success' }, 1);
+    metrics.recordDuration('profiles.update.duration', Date.now() - startTime, {});
+    res.json({ profile });
+  }),
+);
+
+/**
+ * PATCH /api/v1/profiles/:subject_id/pins
+ * Body: { pin?: ProfileField[], unpin?: ProfileField[], expected_head_version_id? }
+ */
+router.patch(
+  '/:subject_id/pins',
+  validateProjectScope,
+  alignedAuthMiddleware,
+  planBasedRateLimit(),
+  asyncHandler(async (req: Request, res: Response) => {
+    const startTime = Date.now();
+    const parsedParams = profileParamsSchema.safeParse(req.params);
+    if (!parsedParams.success) {
+      metrics.incrementCounter('profiles.pins.total', { outcome: 'validation_error' }, 1);
+      res.status(400).json({ error: 'Validation failed', details: parsedParams.error.issues });
+      return;
+    }
+    const parsedBody = profilePinsBodySchema.safeParse(req.body);
+    if (!parsedBody.success) {
+      metrics.incrementCounter('profiles.pins.total', { outcome: 'validation_error' }, 1);
+      res.status(400).json({ error: 'Validation failed', details: parsedBody.error.issues });
+      return;
+    }
+
+    const { subject_id } = parsedParams.data;
+    const boundary = resolveIntelligenceSubjectBoundary(req.user, subject_id);
+    if (!boundary) {
+      logger.warn('profiles.pins: subject outside visibility boundary', { subject_id, user: req.user?.id });
+      metrics.incrementCounter('profiles.pins.total', { outcome: 'forbidden' }, 1);
+      res.status(403).json({ error: 'Subject is outside the authenticated visibility boundary' });
+      return;
+    }
+    if (!canWriteIntelligenceSubject(req.user, boundary)) {
+      logger.warn('profiles.pins: caller may not edit subject', { subject_id, user: req.user?.id });
+      metrics.incrementCounter('profiles.pins.total', { outcome: 'forbidden' }, 1);
+      res.status(403).json({ error: 'Only the subject or an organization admin can edit this profile' });
+      return;
+    }
+
+    const { pin, unpin, expected_head_version_id } = parsedBody.data;
+    const orgScope = boundary.personalSubject ? undefined : boundary.organizationId;
+    const profile = await profileService.updateProfile(boundary.subjectId, { pin, unpin }, {
+      organization_id: orgScope,
+      edited_by: req.user?.id,
+      expected_head_version_id,
+    });
+    if (!profile) {
+      metrics.incrementCounter('profiles.pins.total', { outcome: 'not_found' }, 1);
+      res.status(404).json({ error: 'Profile not found' });
+      return;
+    }
+
+    metrics.incrementCounter('profiles.pins.total', { outcome: 'success' }, 1);
+    metrics.recordDuration('profiles.pins.duration', Date.now() - startTime, {});
+    res.json({ profile });
+  }),
+);
+
+/**
+ * GET /api/v1/profiles/:subject_id/evidence
+ * Query: ?field=preferences
+ */
+router.get(
+  '/:subject_id/evidence',
+  validateProjectScope,
+  alignedAuthMiddleware,
+  planBasedRateLimit(),
+  asyncHandler(async (req: Request, res: Response) => {
+    const startTime = Date.now();
+    const parsedParams = profileParamsSchema.safeParse(req.params);
+    if (!parsedParams.success) {
+      metrics.incrementCounter('profiles.evidence.total', { outcome: 'validation_error' }, 1);
+      res.status(400).json({ error: 'Validation failed', details: parsedParams.error.issues });
+      return;
+    }
+    const parsedQuery = profileEvidenceQuerySchema.safeParse(req.query);
+    if (!parsedQuery.success) {
+      metrics.incrementCounter('profiles.evidence.total', { outcome: 'validation_error' }, 1);
+      res.status(400).json({ error: 'Validation failed', details: parsedQuery.error.issues });
+      return;
+    }
+
+    const { subject_id } = parsedParams.data;
+    const boundary = resolveIntelligenceSubjectBoundary(req.user, subject_id);
+    if (!boundary) {
+      logger.warn('profiles.evidence: subject outside visibility boundary', { subject_id, user: req.user?.id });
+      metrics.incrementCounter('profiles.evidence.total', { outcome: 'forbidden' }, 1);
+      res.status(403).json({ error: 'Subject is outside the authenticated visibility boundary' });
+      return;
+    }
+
+    const orgScope = boundary.personalSubject ? undefined : boundary.organizationId;
+    const evidence = await profileService.getFieldEvidence(boundary.subjectId, parsedQuery.data.field, orgScope);
+    if (!evidence) {
+      metrics.incrementCounter('profiles.evidence.total', { outcome: 'not_found' }, 1);
+      res.status(404).json({ error: 'Profile not found' });
+      return;
+    }
+
+    metrics.incrementCounter('profiles.evidence.total', { outcome: 'success' }, 1);
+    metrics.recordDuration('profiles.evidence.duration', Date.now() - startTime, {});
+    res.json({ evidence });
+  }),
+);
+
 /**
  * POST /api/v1/profiles/:subject_id/ask
  * Body: { question: string }
@@ -1,23 +1,46 @@
 import { Router, Request, Response } from 'express';
+import { randomUUID } from 'crypto';
 import { alignedAuthMiddleware } from '@/middleware/auth-aligned';
 import { logger } from '@/utils/logger';
 import { asyncHandler } from '@/middleware/errorHandler';
+import { SSEConnectionRegistry, getLastEventId } from '@/services/sseConnections';
+import { MemoryEvent, onMemoryEvent } from '@/services/memoryEvents';
+import { notifyMCPMemoryUpdate } from '@/routes/mcp-sse';
 
 const router: Router = Router();
 
-// Store active SSE connections
-const sseConnections = new Map<string, Response>();
+// Connections on this instance; broadcasts reach every instance via the realtime bus
+const sseConnections = new SSEConnectionRegistry('sse', (lastEventId) => ({
+  type: 'replay_truncated',
+  message: 'Some events before the requested Last-Event-ID are no longer available',
+  lastEventId,
+  timestamp: new Date().toISOString()
+}));
 
 /**
  * @swagger
  * /sse:
  *   get:
  *     summary: Server-Sent Events endpoint for real-time updates
- *     description: Establishes SSE connection for real-time memory service updates
+ *     description: |
+ *       Establishes SSE connection for real-time memory service updates.
+ *       Every update carries an event ID; reconnect with `Last-Event-ID` to
+ *       receive the updates missed in between, from any instance.
  *     tags: [Real-time]
  *     security:
  *       - bearerAuth: []
  *       - apiKey: []
+ *     parameters:
+ *       - in: header
+ *         name: Last-Event-ID
+ *         schema:
+ *           type: string
+ *         description: ID of the last event received; missed events are replayed first
+ *       - in: query
+ *         name: last_event_id
+ *         schema:
+ *           type: string
+ *         description: Alternative to the Last-Event-ID header
  *     responses:
  *       200:
  *         description: SSE connection established
@@ -45,9 +68,8 @@ router.get('/', alignedAuthMiddleware, asyncHandler(async (req: Request, res: Re
     'Access-Control-Allow-Headers': 'Cache-Control'
   });
 
-  // Store connection
-  sseConnections.set(userId, res);
-  
+  const connectionId = `${userId}_${randomUUID()}`;
+
   // Send initial connection message
   res.write(`data: ${JSON.stringify({
     type: 'connection',
@@ -56,11 +78,14 @@ router.get('/', alignedAuthMiddleware, asyncHandler(async (req: Request, res: Re
     userId
   })}\n\n`);
 
+  // Store connection, replaying anything missed since Last-Event-ID
+  await sseConnections.open(connectionId, userId, res, getLastEventId(req));
+
   // Send periodic heartbeat
   const heartbeat = setInterval(() => {
     if (res.writableEnded) {
       clearInterval(heartbeat);
-      sseConnections.delete(userId);
+      sseConnections.close(connectionId);
       return;
     }
     
@@ -74,46 +99,30 @@ router.get('/', alignedAuthMiddleware, asyncHandler(async (req: Request, res: Re
   req.on('close', () => {
     logger.info('SSE client disconnected', { userId });
     clearInterval(heartbeat);
-    sseConnections.delete(userId);
+    sseConnections.close(connectionId);
   });
 
   req.on('error', (error) => {
     const errorMessage = error instanceof Error ? error.message : 'Unknown error';
     logger.error('SSE connection error', { userId, error: errorMessage });
     clearInterval(heartbeat);
-    sseConnections.delete(userId);
+    sseConnections.close(connectionId);
   });
 
-  logger.info('SSE connection established', { userId });
+  logger.info('SSE connection established', { userId, connectionId });
   
   // Keep connection alive - no explicit return needed for SSE
 }));
 
 /**
- * Broadcast message to all connected SSE clients
+ * Broadcast message to connected SSE clients on every instance, or only to
+ * targetUserId's connections
  */
 export function broadcastSSE(message: Record<string, unknown>, targetUserId?: string) {
-  const data = `data: ${JSON.stringify({
+  sseConnections.broadcast({
     ...message,
     timestamp: new Date().toISOString()
-  })}\n\n`;
-
-  if (targetUserId && sseConnections.has(targetUserId)) {
-    // Send to specific user
-    const connection = sseConnections.get(targetUserId);
-    if (connection && !connection.writableEnded) {
-      connection.write(data);
-    }
-  } else {
-    // Broadcast to all connections
-    sseConnections.forEach((connection, userId) => {
-      if (!connection.writableEnded) {
-        connection.write(data);
-      } else {
-        sseConnections.delete(userId);
-      }
-    });
-  }
+  }, targetUserId);
 }
 
 /**
@@ -151,4 +160,21 @@ export function notifySystemUpdate(message: string, level: 'info' | 'warning' |
   });
 }
 
+const MEMORY_EVENT_OPERATIONS: Record<MemoryEvent['type'], string> = {
+  'memory.created': 'created',
+  'memory.updated': 'updated',
+  'memory.deleted': 'deleted'
+};
+
+/**
+ * Push committed memory mutations to the owner's SSE and MCP SSE streams
+ */
+export function streamMemoryEvents(): () => void {
+  return onMemoryEvent((event) => {
+    const operation = MEMORY_EVENT_OPERATIONS[event.type];
+    notifyMemoryUpdate(event.memory.user_id, operation, event.memory.id, event.memory);
+    notifyMCPMemoryUpdate(event.memory.user_id, operation, event.memory.id, event.memory);
+  });
+}
+
 export default router;
@@ -0,0 +1,725 @@
+import { Router, Request, Response } from 'express';
+
+import { asyncHandler } from '@/middleware/errorHandler';
+import { TopicService } from '@/services/topicService';
+import { AccessControlService, accessCallerFromRequest } from '@/services/accessControlService';
+import { resolveUserContext } from '@/services/organizationResolver';
+import {
+  createTopicSchema,
+  updateTopicSchema,
+  deleteTopicQuerySchema,
+  Topic
+} from '@/types/topic';
+import { grantAccessSchema } from '@/types/access';
+import { logMemoryOperation } from '@/utils/logger';
+import { getScalarRouteParam } from '@/utils/request';
+
+const router: Router = Router();
+const topicService = new TopicService();
+const accessControl = new AccessControlService();
+
+const canModifyTopic = (topic: Topic, userId: string, role: string): boolean =>
+  role === 'admin' || topic.user_id === userId;
+
+/**
+ * @swagger
+ * /topics:
+ *   get:
+ *     summary: List topics
+ *     description: Lists the organization's topics, flat or as a hierarchy with memory counts
+ *     tags: [Topics]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: include_hierarchy
+ *         schema:
+ *           type: boolean
+ *         description: Return root topics with nested children and memory counts
+ *       - in: query
+ *         name: parent_id
+ *         schema:
+ *           type: string
+ *         description: Only list direct children of this topic ("root" for top-level topics)
+ *     responses:
+ *       200:
+ *         description: Topics retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/TopicTreeNode'
+ */
+router.get('/', asyncHandler(async (req: Request, res: Response) => {
+  const { organizationId } = await resolveUserContext(req.user);
+
+  if (!req.user || !organizationId) {
+    res.status(401).json({
+      error: 'Unauthorized',
+      message: 'Valid authentication required'
+    });
+    return;
+  }
+
+  if (getScalarRouteParam(req.query.include_hierarchy) === 'true') {
+    res.json(await topicService.getTopicTree(organizationId));
+    return;
+  }
+
+  const parentId = getScalarRouteParam(req.query.parent_id);
+  const topics = await topicService.listTopics(
+    organizationId,
+    parentId === 'root' ? null : parentId
+  );
+
+  res.json(topics);
+}));
+
+/**
+ * @swagger
+ * /topics:
+ *   post:
+ *     summary: Create a topic
+ *     tags: [Topics]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/CreateTopicRequest'
+ *     responses:
+ *       201:
+ *         description: Topic created successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Topic'
+ *       400:
+ *         description: Validation error or unknown parent topic
+ *       409:
+ *         description: A topic with this name already exists
+ */
+router.post('/', asyncHandler(async (req: Request, res: Response) => {
+  const validatedData = createTopicSchema.parse(req.body);
+  const { userId, organizationId } = await resolveUserContext(req.user);
+
+  if (!req.user || !userId || !organizationId) {
+    res.status(401).json({
+      error: 'Unauthorized',
+      message: 'Valid authentication required'
+    });
+    return;
+  }
+
+  const topic = await topicService.createTopic({
+    ...validatedData,
+    user_id: userId,
+    organization_id: organizationId
+  });
+
+  logMemoryOperation('topic_create', userId, organizationId, {
+    topicId: topic.id,
+    name: topic.name,
+    parent_topic_id: topic.parent_topic_id ?? null
+  });
+
+  res.status(201).json(topic);
+}));
+
+/**
+ * @swagger
+ * /topics/{id}:
+ *   get:
+ *     summary: Get a topic by ID
+ *     tags: [Topics]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Topic retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Topic'
+ *       404:
+ *         description: Topic not found
+ */
+router.get('/:id', asyncHandler(async (req: Request, res: Response) => {
+  const id = getScalarRouteParam(req.params.id);
+  if (!id) {
+    res.status(400).json({
+      error: 'Invalid topic ID',
+      message: 'Topic ID is required'
+    });
+    return;
+  }
+
+  const { organizationId } = await resolveUserContext(req.user);
+
+  if (!req.user || !organizationId) {
+    res.status(401).json({
+      error: 'Unauthorized',
+      message: 'Valid authentication required'
+    });
+    return;
+  }
+
+  const topic = await topicService.getTopicById(id, organizationId);
+
+  if (!topic) {
+    res.status(404).json({
+      error: 'Topic not found',
+      message: 'The requested topic does not exist'
+    });
+    return;
+  }
+
+  res.json(topic);
+}));
+
+/**
+ * @swagger
+ * /topics/{id}:
+ *   put:
+ *     summary: Update a topic
+ *     description: Updates topic fields. Setting parent_topic_id moves the topic within the hierarchy; cycles are rejected.
+ *     tags: [Topics]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/UpdateTopicRequest'
+ *     responses:
+ *       200:
+ *         description: Topic updated successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Topic'
+ *       400:
+ *         description: Validation error or hierarchy cycle
+ *       403:
+ *         description: Access denied
+ *       404:
+ *         description: Topic not found
+ *       409:
+ *         description: A topic with this name already exists
+ */
+router.put('/:id', asyncHandler(async (req: Request, res: Response) => {
+  const id = getScalarRouteParam(req.params.id);
+  if (!id) {
+    res.status(400).json({
+      error: 'Invalid topic ID',
+      message: 'Topic ID is required'
+    });
+    return;
+  }
+
+  const validatedData = updateTopicSchema.parse(req.body);
+  const { userId, organizationId } = await resolveUserContext(req.user);
+  const role = req.user?.role ?? 'user';
+
+  if (!req.user || !userId || !organizationId) {
+    res.status(401).json({
+      error: 'Unauthorized',
+      message: 'Valid authentication required'
+    });
+    return;
+  }
+
+  const existingTopic = await topicService.getTopicById(id, organizationId);
+
+  if (!existingTopic) {
+    res.status(404).json({
+      error: 'Topic not found',
+      message: 'The requested topic does not exist'
+    });
+    return;
+  }
+
+  if (!canModifyTopic(existingTopic, userId, role)) {
+    res.status(403).json({
+      error: 'Access denied',
+      message: 'You can only update your own topics'
+    });
+    return;
+  }
+
+  const topic = await topicService.updateTopic(id, organizationId, validatedData);
+
+  logMemoryOperation('topic_update', userId, organizationId, {
+    topicId: id,
+    updatedFields: Object.keys(validatedData)
+  });
+
+  res.json(topic);
+}));
+
+/**
+ * @swagger
+ * /topics/{id}:
+ *   delete:
+ *     summary: Delete a topic
+ *     description: |
+ *       Deletes a topic. Its memories are detached (topic cleared) or moved to
+ *       another topic, and its child topics are re-parented to its parent.
+ *     tags: [Topics]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: query
+ *         name: memories
+ *         schema:
+ *           type: string
+ *           enum: [detach, move]
+ *           default: detach
+ *       - in: query
+ *         name: target_topic_id
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Destination topic, required when memories=move
+ *     responses:
+ *       200:
+ *         description: Topic deleted
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 deleted_topic_id:
+ *                   type: string
+ *                 memories_action:
+ *                   type: string
+ *                   enum: [detach, move]
+ *                 memories_affected:
+ *                   type: integer
+ *                 target_topic_id:
+ *                   type: string
+ *                   nullable: true
+ *                 children_reparented:
+ *                   type: integer
+ *       400:
+ *         description: Missing or invalid target topic
+ *       403:
+ *         description: Access denied
+ *       404:
+ *         description: Topic not found
+ */
+router.delete('/:id', asyncHandler(async (req: Request, res: Response) => {
+  const id = getScalarRouteParam(req.params.id);
+  if (!id) {
+    res.status(400).json({
+      error: 'Invalid topic ID',
+      message: 'Topic ID is required'
+    });
+    return;
+  }
+
+  const options = deleteTopicQuerySchema.parse({
+    memories: getScalarRouteParam(req.query.memories),
+    target_topic_id: getScalarRouteParam(req.query.target_topic_id)
+  });
+  const { userId, organizationId } = await resolveUserContext(req.user);
+  const role = req.user?.role ?? 'user';
+
+  if (!req.user || !userId || !organizationId) {
+    res.status(401).json({
+      error: 'Unauthorized',
+      message: 'Valid authentication required'
+    });
+    return;
+  }
+
+  const existingTopic = await topicService.getTopicById(id, organizationId);
+
+  if (!existingTopic) {
+    res.status(404).json({
+      error: 'Topic not found',
+      message: 'The requested topic does not exist'
+    });
+    return;
+  }
+
+  if (!canModifyTopic(existingTopic, userId, role)) {
+    res.status(403).json({
+      error: 'Access denied',
+      message: 'You can only delete your own topics'
+    });
+    return;
+  }
+
+  if (existingTopic.is_system && role !== 'admin') {
+    res.status(403).json({
+      error: 'Access denied',
+      message: 'System topics can only be deleted by an admin'
+    });
+    return;
+  }
+
+  const result = await topicService.deleteTopic(existingTopic, options);
+
+  logMemoryOperation('topic_delete', userId, organizationId, { ...result });
+
+  res.json(result);
+}));
+
+/**
+ * @swagger
+ * /topics/{id}/memories:
+ *   get:
+ *     summary: List memories in a topic
+ *     description: Returns the topic, its directly filed memories and its immediate subtopics
+ *     tags: [Topics]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 100
+ *           default: 20
+ *       - in: query
+ *         name: offset
+ *         schema:
+ *           type: integer
+ *           minimum: 0
+ *           default: 0
+ *     responses:
+ *       200:
+ *         description: Topic memories retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 topic:
+ *                   $ref: '#/components/schemas/Topic'
+ *                 memories:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/MemoryEntry'
+ *                 total_memories:
+ *                   type: integer
+ *                 subtopics:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       id:
+ *                         type: string
+ *                       name:
+ *                         type: string
+ *                       memory_count:
+ *                         type: integer
+ *       404:
+ *         description: Topic not found
+ */
+router.get('/:id/memories', asyncHandler(async (req: Request, res: Response) => {
+  const id = getScalarRouteParam(req.params.id);
+  if (!id) {
+    res.status(400).json({
+      error: 'Invalid topic ID',
+      message: 'Topic ID is required'
+    });
+    return;
+  }
+
+  const { userId, organizationId } = await resolveUserContext(req.user);
+  const role = req.user?.role ?? 'user';
+
+  if (!req.user || !userId || !organizationId) {
+    res.status(401).json({
+      error: 'Unauthorized',
+      message: 'Valid authentication required'
+    });
+    return;
+  }
+
+  const limit = Math.min(parseInt(req.query.limit as string) || 20, 100);
+  const offset = Math.max(parseInt(req.query.offset as string) || 0, 0);
+
+  const topic = await topicService.getTopicById(id, organizationId);
+
+  if (!topic) {
+    res.status(404).json({
+      error: 'Topic not found',
+      message: 'The requested topic does not exist'
+    });
+    return;
+  }
+
+  const [{ memories, total }, tree] = await Promise.all([
+    topicService.getTopicMemories(id, organizationId, { limit, offset }),
+    topicService.getTopicTree(organizationId)
+  ]);
+
+  const findNode = (nodes: typeof tree): (typeof tree)[number] | undefined => {
+    for (const node of nodes) {
+      if (node.id === id) return node;
+      const found = findNode(node.children);
+      if (found) return found;
+    }
+    return undefined;
+  };
+
+  // Same visibility rule as /memory: other users' personal memories and
+  // memories the caller is denied by access rules stay hidden
+  const visible = await accessControl.filterVisible(
+    memories.filter(
+      (memory) => role === 'admin' || memory.user_id === userId || memory.memory_type !== 'personal'
+    ),
+    organizationId,
+    accessCallerFromRequest(req, userId),
+    'list'
+  );
+
+  res.json({
+    topic,
+    memories: visible,
+    total_memories: total,
+    subtopics: (findNode(tree)?.children ?? []).map((child) => ({
+      id: child.id,
+      name: child.name,
+      memory_count: child.memory_count
+    }))
+  });
+}));
+
+/**
+ * Load a topic whose access rules the caller may manage (topic owner or
+ * organization admin), answering the request and returning null otherwise
+ */
+const resolveTopicAccessManagement = async (req: Request, res: Response) => {
+  const id = getScalarRouteParam(req.params.id);
+  if (!id) {
+    res.status(400).json({
+      error: 'Invalid topic ID',
+      message: 'Topic ID is required'
+    });
+    return null;
+  }
+
+  const { userId, organizationId } = await resolveUserContext(req.user);
+  const role = req.user?.role ?? 'user';
+
+  if (!req.user || !userId || !organizationId) {
+    res.status(401).json({
+      error: 'Unauthorized',
+      message: 'Valid authentication required'
+    });
+    return null;
+  }
+
+  const topic = await topicService.getTopicById(id, organizationId);
+
+  if (!topic) {
+    res.status(404).json({
+      error: 'Topic not found',
+      message: 'The requested topic does not exist'
+    });
+    return null;
+  }
+
+  if (!canModifyTopic(topic, userId, role)) {
+    res.status(403).json({
+      error: 'Access denied',
+      message: 'You can only manage access to your own topics'
+    });
+    return null;
+  }
+
+  return { topic, organizationId, userId, caller: accessCallerFromRequest(req, userId) };
+};
+
+/**
+ * @swagger
+ * /topics/{id}/access:
+ *   get:
+ *     summary: List access rules for a topic
+ *     description: Rules that apply to every memory in the topic
+ *     tags: [Topics]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Access rules
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 topic_id:
+ *                   type: string
+ *                 rules:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/AccessRule'
+ *       403:
+ *         description: Access denied
+ *       404:
+ *         description: Topic not found
+ */
+router.get('/:id/access', asyncHandler(async (req: Request, res: Response) => {
+  const managed = await resolveTopicAccessManagement(req, res);
+  if (!managed) return;
+
+  const { topic, organizationId } = managed;
+  res.json({
+    topic_id: topic.id,
+    rules: await accessControl.listRules(organizationId, null, topic.id)
+  });
+}));
+
+/**
+ * @swagger
+ * /topics/{id}/access:
+ *   post:
+ *     summary: Grant or deny access to a topic's memories
+ *     description: Adds a rule covering every memory in the topic; see POST /memory/{id}/access for semantics
+ *     tags: [Topics]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/GrantAccessRequest'
+ *     responses:
+ *       201:
+ *         description: Rule created
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/AccessRule'
+ *       403:
+ *         description: Access denied
+ *       404:
+ *         description: Topic not found
+ *       409:
+ *         description: An identical rule already exists
+ */
+router.post('/:id/access', asyncHandler(async (req: Request, res: Response) => {
+  const validatedData = grantAccessSchema.parse(req.body);
+  const managed = await resolveTopicAccessManagement(req, res);
+  if (!managed) return;
+
+  const { topic, organizationId, userId, caller } = managed;
+  const rule = await accessControl.grantRule(organizationId, caller, { topic_id: topic.id }, validatedData);
+
+  logMemoryOperation('topic_access_grant', userId, organizationId, {
+    topicId: topic.id,
+    ruleId: rule.id,
+    principal_type: rule.principal_type,
+    permission: rule.permission,
+    granted: rule.granted
+  });
+
+  res.status(201).json(rule);
+}));
+
+/**
+ * @swagger
+ * /topics/{id}/access/{ruleId}:
+ *   delete:
+ *     summary: Revoke a topic access rule
+ *     tags: [Topics]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: path
+ *         name: ruleId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       204:
+ *         description: Rule revoked
+ *       403:
+ *         description: Access denied
+ *       404:
+ *         description: Topic or rule not found
+ */
+router.delete('/:id/access/:ruleId', asyncHandler(async (req: Request, res: Response) => {
+  const managed = await resolveTopicAccessManagement(req, res);
+  if (!managed) return;
+
+  const { topic, organizationId, userId, caller } = managed;
+  const ruleId = getScalarRouteParam(req.params.ruleId);
+  const rule = ruleId
+    ? await accessControl.revokeRule(ruleId, organizationId, caller, { topic_id: topic.id })
+    : null;
+
+  if (!rule) {
+    res.status(404).json({
+      error: 'Access rule not found',
+      message: 'The topic has no access rule with that ID'
+    });
+    return;
+  }
+
+  logMemoryOperation('topic_access_revoke', userId, organizationId, {
+    topicId: topic.id,
+    ruleId: rule.id
+  });
+
+  res.status(204).send();
+}));
+
+export default router;
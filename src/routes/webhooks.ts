@@ -0,0 +1,582 @@
+import { Router, Request, Response } from 'express';
+
+import { asyncHandler } from '@/middleware/errorHandler';
+import { requireRole } from '@/middleware/auth-aligned';
+import { WebhookService } from '@/services/webhookService';
+import { resolveUserContext } from '@/services/organizationResolver';
+import {
+  createWebhookSchema,
+  updateWebhookSchema,
+  listWebhookDeliveriesQuerySchema
+} from '@/types/webhook';
+import { logMemoryOperation } from '@/utils/logger';
+import { getScalarRouteParam } from '@/utils/request';
+
+const router: Router = Router();
+const webhookService = new WebhookService();
+
+// Managing webhooks exposes organization-wide memory activity
+router.use(requireRole(['admin']));
+
+const unauthorized = (res: Response): void => {
+  res.status(401).json({
+    error: 'Unauthorized',
+    message: 'Valid authentication required'
+  });
+};
+
+const notFound = (res: Response): void => {
+  res.status(404).json({
+    error: 'Webhook not found',
+    message: 'The requested webhook does not exist'
+  });
+};
+
+const missingId = (res: Response): void => {
+  res.status(400).json({
+    error: 'Invalid webhook ID',
+    message: 'Webhook ID is required'
+  });
+};
+
+/**
+ * @swagger
+ * /webhooks:
+ *   get:
+ *     summary: List webhooks
+ *     description: Lists the organization's webhook subscriptions (admin only)
+ *     tags: [Webhooks]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Webhooks retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/WebhookSubscription'
+ */
+router.get('/', asyncHandler(async (req: Request, res: Response) => {
+  const { organizationId } = await resolveUserContext(req.user);
+  if (!req.user || !organizationId) {
+    unauthorized(res);
+    return;
+  }
+
+  res.json(await webhookService.listSubscriptions(organizationId));
+}));
+
+/**
+ * @swagger
+ * /webhooks:
+ *   post:
+ *     summary: Create a webhook
+ *     description: |
+ *       Subscribes a URL to memory events. Each delivery is a JSON POST signed
+ *       with HMAC-SHA256 over `<X-Lanonasis-Timestamp>.<body>` using the
+ *       returned secret, sent as `X-Lanonasis-Signature: sha256=<hex>`.
+ *       The secret is only shown in this response.
+ *     tags: [Webhooks]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [url]
+ *             properties:
+ *               url:
+ *                 type: string
+ *                 format: uri
+ *               description:
+ *                 type: string
+ *               events:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                   enum: [memory.created, memory.updated, memory.deleted]
+ *               memory_types:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *               tags:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *               topic_id:
+ *                 type: string
+ *                 format: uuid
+ *               enabled:
+ *                 type: boolean
+ *     responses:
+ *       201:
+ *         description: Webhook created
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/WebhookSubscription'
+ *                 - type: object
+ *                   properties:
+ *                     secret:
+ *                       type: string
+ */
+router.post('/', asyncHandler(async (req: Request, res: Response) => {
+  const validatedData = createWebhookSchema.parse(req.body);
+  const { userId, organizationId } = await resolveUserContext(req.user);
+  if (!req.user || !userId || !organizationId) {
+    unauthorized(res);
+    return;
+  }
+
+  const { subscription, secret } = await webhookService.createSubscription(organizationId, userId, validatedData);
+
+  logMemoryOperation('webhook_create', userId, organizationId, {
+    webhookId: subscription.id,
+    events: subscription.events
+  });
+
+  res.status(201).json({ ...subscription, secret });
+}));
+
+/**
+ * @swagger
+ * /webhooks/dead-letters:
+ *   get:
+ *     summary: List dead-lettered deliveries
+ *     description: Deliveries that failed every retry, across all of the organization's webhooks
+ *     tags: [Webhooks]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 50
+ *       - in: query
+ *         name: offset
+ *         schema:
+ *           type: integer
+ *           default: 0
+ *     responses:
+ *       200:
+ *         description: Dead-lettered deliveries
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 deliveries:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/WebhookDelivery'
+ *                 total:
+ *                   type: integer
+ */
+router.get('/dead-letters', asyncHandler(async (req: Request, res: Response) => {
+  const { limit, offset } = listWebhookDeliveriesQuerySchema.parse(req.query);
+  const { organizationId } = await resolveUserContext(req.user);
+  if (!req.user || !organizationId) {
+    unauthorized(res);
+    return;
+  }
+
+  res.json(await webhookService.listDeadLetters(organizationId, { limit, offset }));
+}));
+
+/**
+ * @swagger
+ * /webhooks/deliveries/{deliveryId}/redeliver:
+ *   post:
+ *     summary: Redeliver a webhook delivery
+ *     description: Re-queues a dead-lettered or completed delivery with a fresh retry budget
+ *     tags: [Webhooks]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: deliveryId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       202:
+ *         description: Delivery re-queued
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/WebhookDelivery'
+ *       404:
+ *         description: No dead or completed delivery with that ID
+ */
+router.post('/deliveries/:deliveryId/redeliver', asyncHandler(async (req: Request, res: Response) => {
+  const deliveryId = getScalarRouteParam(req.params.deliveryId);
+  if (!deliveryId) {
+    res.status(400).json({
+      error: 'Invalid delivery ID',
+      message: 'Delivery ID is required'
+    });
+    return;
+  }
+
+  const { userId, organizationId } = await resolveUserContext(req.user);
+  if (!req.user || !userId || !organizationId) {
+    unauthorized(res);
+    return;
+  }
+
+  const delivery = await webhookService.redeliver(deliveryId, organizationId);
+
+  logMemoryOperation('webhook_redeliver', userId, organizationId, {
+    deliveryId,
+    webhookId: delivery.subscription_id
+  });
+
+  res.status(202).json(delivery);
+}));
+
+/**
+ * @swagger
+ * /webhooks/{id}:
+ *   get:
+ *     summary: Get a webhook by ID
+ *     tags: [Webhooks]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Webhook retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/WebhookSubscription'
+ *       404:
+ *         description: Webhook not found
+ */
+router.get('/:id', asyncHandler(async (req: Request, res: Response) => {
+  const id = getScalarRouteParam(req.params.id);
+  if (!id) {
+    missingId(res);
+    return;
+  }
+
+  const { organizationId } = await resolveUserContext(req.user);
+  if (!req.user || !organizationId) {
+    unauthorized(res);
+    return;
+  }
+
+  const subscription = await webhookService.getSubscription(id, organizationId);
+  if (!subscription) {
+    notFound(res);
+    return;
+  }
+
+  res.json(subscription);
+}));
+
+/**
+ * @swagger
+ * /webhooks/{id}:
+ *   put:
+ *     summary: Update a webhook
+ *     description: Updates the URL, filters or enabled flag. Disabled webhooks receive no new deliveries.
+ *     tags: [Webhooks]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               url:
+ *                 type: string
+ *                 format: uri
+ *               description:
+ *                 type: string
+ *                 nullable: true
+ *               events:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *               memory_types:
+ *                 type: array
+ *                 nullable: true
+ *                 items:
+ *                   type: string
+ *               tags:
+ *                 type: array
+ *                 nullable: true
+ *                 items:
+ *                   type: string
+ *               topic_id:
+ *                 type: string
+ *                 format: uuid
+ *                 nullable: true
+ *               enabled:
+ *                 type: boolean
+ *     responses:
+ *       200:
+ *         description: Webhook updated successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/WebhookSubscription'
+ *       404:
+ *         description: Webhook not found
+ */
+router.put('/:id', asyncHandler(async (req: Request, res: Response) => {
+  const id = getScalarRouteParam(req.params.id);
+  if (!id) {
+    missingId(res);
+    return;
+  }
+
+  const validatedData = updateWebhookSchema.parse(req.body);
+  const { userId, organizationId } = await resolveUserContext(req.user);
+  if (!req.user || !userId || !organizationId) {
+    unauthorized(res);
+    return;
+  }
+
+  const subscription = await webhookService.updateSubscription(id, organizationId, validatedData);
+
+  logMemoryOperation('webhook_update', userId, organizationId, {
+    webhookId: id,
+    fields: Object.keys(validatedData)
+  });
+
+  res.json(subscription);
+}));
+
+/**
+ * @swagger
+ * /webhooks/{id}:
+ *   delete:
+ *     summary: Delete a webhook
+ *     description: Deletes the subscription and its delivery log
+ *     tags: [Webhooks]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       204:
+ *         description: Webhook deleted successfully
+ *       404:
+ *         description: Webhook not found
+ */
+router.delete('/:id', asyncHandler(async (req: Request, res: Response) => {
+  const id = getScalarRouteParam(req.params.id);
+  if (!id) {
+    missingId(res);
+    return;
+  }
+
+  const { userId, organizationId } = await resolveUserContext(req.user);
+  if (!req.user || !userId || !organizationId) {
+    unauthorized(res);
+    return;
+  }
+
+  if (!await webhookService.deleteSubscription(id, organizationId)) {
+    notFound(res);
+    return;
+  }
+
+  logMemoryOperation('webhook_delete', userId, organizationId, { webhookId: id });
+
+  res.status(204).send();
+}));
+
+/**
+ * @swagger
+ * /webhooks/{id}/rotate-secret:
+ *   post:
+ *     summary: Rotate a webhook signing secret
+ *     description: Issues a new secret; deliveries are signed with it from now on. The secret is only shown in this response.
+ *     tags: [Webhooks]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Secret rotated
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/WebhookSubscription'
+ *                 - type: object
+ *                   properties:
+ *                     secret:
+ *                       type: string
+ *       404:
+ *         description: Webhook not found
+ */
+router.post('/:id/rotate-secret', asyncHandler(async (req: Request, res: Response) => {
+  const id = getScalarRouteParam(req.params.id);
+  if (!id) {
+    missingId(res);
+    return;
+  }
+
+  const { userId, organizationId } = await resolveUserContext(req.user);
+  if (!req.user || !userId || !organizationId) {
+    unauthorized(res);
+    return;
+  }
+
+  const { subscription, secret } = await webhookService.rotateSecret(id, organizationId);
+
+  logMemoryOperation('webhook_rotate_secret', userId, organizationId, { webhookId: id });
+
+  res.json({ ...subscription, secret });
+}));
+
+/**
+ * @swagger
+ * /webhooks/{id}/test:
+ *   post:
+ *     summary: Send a test delivery
+ *     description: Queues a signed `webhook.ping` event to the webhook URL
+ *     tags: [Webhooks]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       202:
+ *         description: Ping queued
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/WebhookDelivery'
+ *       404:
+ *         description: Webhook not found
+ */
+router.post('/:id/test', asyncHandler(async (req: Request, res: Response) => {
+  const id = getScalarRouteParam(req.params.id);
+  if (!id) {
+    missingId(res);
+    return;
+  }
+
+  const { organizationId } = await resolveUserContext(req.user);
+  if (!req.user || !organizationId) {
+    unauthorized(res);
+    return;
+  }
+
+  res.status(202).json(await webhookService.sendPing(id, organizationId));
+}));
+
+/**
+ * @swagger
+ * /webhooks/{id}/deliveries:
+ *   get:
+ *     summary: List webhook deliveries
+ *     description: Delivery log for a webhook, newest first, with status, attempts and last response
+ *     tags: [Webhooks]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [pending, retrying, succeeded, dead]
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 50
+ *       - in: query
+ *         name: offset
+ *         schema:
+ *           type: integer
+ *           default: 0
+ *     responses:
+ *       200:
+ *         description: Deliveries retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 deliveries:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/WebhookDelivery'
+ *                 total:
+ *                   type: integer
+ *       404:
+ *         description: Webhook not found
+ */
+router.get('/:id/deliveries', asyncHandler(async (req: Request, res: Response) => {
+  const id = getScalarRouteParam(req.params.id);
+  if (!id) {
+    missingId(res);
+    return;
+  }
+
+  const query = listWebhookDeliveriesQuerySchema.parse(req.query);
+  const { organizationId } = await resolveUserContext(req.user);
+  if (!req.user || !organizationId) {
+    unauthorized(res);
+    return;
+  }
+
+  if (!await webhookService.getSubscription(id, organizationId)) {
+    notFound(res);
+    return;
+  }
+
+  res.json(await webhookService.listDeliveries(id, organizationId, query));
+}));
+
+export default router;
@@ -8,6 +8,9 @@ import path from 'path';
 import { config } from '@/config/environment';
 import { logger } from '@/utils/logger';
 import { metricsMiddleware, startMetricsCollection } from '@/utils/metrics';
+import { startWebhookDeliveryWorker } from '@/services/webhookService';
+import { startMemoryPurgeWorker } from '@/services/memoryLifecycle';
+import { startReasoningWorker } from '@/services/intelligenceService';
 
 // CORE ALIGNMENT: Enhanced middleware imports
 import {
@@ -25,6 +28,8 @@ import {
 // Route imports
 import healthRoutes from '@/routes/health';
 import memoryRoutes from '@/routes/memory';
+import topicsRoutes from '@/routes/topics';
+import webhooksRoutes from '@/routes/webhooks';
 import authRouter from '@/routes/auth-router';
 import authBasicRoutes from '@/routes/auth-basic';
 import serviceRegistry from '@/routes/service-registry';
@@ -32,9 +37,11 @@ import metricsRoutes from '@/routes/metrics';
 import apiKeyRoutes from '@/routes/api-keys';
 import mcpApiKeyRoutes from '@/routes/mcp-api-keys';
 import mcpSseRoutes from '@/routes/mcp-sse';
+import sseRoutes, { streamMemoryEvents } from '@/routes/sse';
 import emergencyRoutes from '@/routes/emergency-admin';
 import intelligenceRoutes from '@/routes/intelligence';
 import profilesRouter from '@/routes/profiles';
+import orchestrateRoutes from '@/routes/orchestrate';
 
 // AI Client middleware for JSON responses
 import { aiClientMiddleware, AIClientRequest } from '@/middleware/ai-client-json';
@@ -123,6 +130,14 @@ const swaggerOptions = {
         name: 'Memory',
         description: 'Memory CRUD operations and semantic search'
       },
+      {
+        name: 'Topics',
+        description: 'Hierarchical topics for organizing memories'
+      },
+      {
+        name: 'Webhooks',
+        description: 'Signed HTTP callbacks for memory events'
+      },
       {
         name: 'Health',
         description: 'System health and monitoring endpoints'
@@ -284,8 +299,14 @@ if (process.env.EMERGENCY_BOOTSTRAP_TOKEN) {
 // Memory routes (require auth + project scope)
 app.use(`${config.API_PREFIX}/${config.API_VERSION}/memory`, validateProjectScope, alignedAuthMiddleware, planBasedRateLimit(), memoryRoutes);
 app.use(`${config.API_PREFIX}/${config.API_VERSION}/memories`, validateProjectScope, alignedAuthMiddleware, planBasedRateLimit(), memoryRoutes);
+app.use(`${config.API_PREFIX}/${config.API_VERSION}/topics`, validateProjectScope, alignedAuthMiddleware, planBasedRateLimit(), topicsRoutes);
+app.use(`${config.API_PREFIX}/${config.API_VERSION}/webhooks`, validateProjectScope, alignedAuthMiddleware, planBasedRateLimit(), webhooksRoutes);
 app.use(`${config.API_PREFIX}/${config.API_VERSION}/intelligence`, validateProjectScope, alignedAuthMiddleware, planBasedRateLimit(), intelligenceRoutes);
 app.use(`${config.API_PREFIX}/${config.API_VERSION}/profiles`, validateProjectScope, alignedAuthMiddleware, planBasedRateLimit(), profilesRouter);
+app.use(`${config.API_PREFIX}/${config.API_VERSION}/orchestrate`, validateProjectScope, alignedAuthMiddleware, planBasedRateLimit(), orchestrateRoutes);
+
+// Real-time updates (the router authenticates; long-lived, so no rate limit)
+app.use(`${config.API_PREFIX}/${config.API_VERSION}/sse`, validateProjectScope, sseRoutes);
 
 // API key management routes (require auth)
 app.use(`${config.API_PREFIX}/${config.API_VERSION}/keys`, validateProjectScope, alignedAuthMiddleware, apiKeyRoutes);
@@ -398,6 +419,24 @@ if (config.ENABLE_METRICS) {
   startMetricsCollection();
 }
 
+// Stream memory events to SSE clients on every instance
+streamMemoryEvents();
+
+// Deliver memory events to webhook subscribers and retry failures
+if (config.WEBHOOKS_ENABLED) {
+  startWebhookDeliveryWorker();
+}
+
+// Remove trashed memories once their restore window has passed
+if (config.MEMORY_PURGE_ENABLED) {
+  startMemoryPurgeWorker();
+}
+
+// Process pending reasoning jobs (also available as a standalone worker)
+if (config.REASONING_WORKER_ENABLED) {
+  startReasoningWorker();
+}
+
 const server = app.listen(config.PORT, config.HOST, () => {
   logger.info(`Memory Service running on http://${config.HOST}:${config.PORT}`);
   logger.info(`API Documentation available at http://${config.HOST}:${config.PORT}/docs`);
@@ -0,0 +1,147 @@
+import type { Request } from 'express';
+
+import {
+  AccessCaller,
+  AccessSubject,
+  accessCallerFromRequest,
+  buildMemoryVisibility,
+  evaluateMemoryAccess,
+  isHiddenByVisibility,
+  memoryListFilter,
+  memoryVisibilityFilter
+} from '../accessControlService';
+import type { AccessRule } from '@/types/access';
+
+const memory: AccessSubject = {
+  id: 'mem-1',
+  user_id: 'owner',
+  memory_type: 'project',
+  topic_id: 'topic-1'
+};
+
+const member: AccessCaller = { userId: 'member', role: 'user', appId: null, apiKeyId: null };
+
+let ruleCount = 0;
+const rule = (overrides: Partial<AccessRule>): AccessRule => ({
+  id: `rule-${++ruleCount}`,
+  organization_id: 'org-1',
+  memory_id: 'mem-1',
+  topic_id: null,
+  principal_type: 'user',
+  principal_id: 'member',
+  permission: 'read',
+  granted: true,
+  expires_at: null,
+  created_by: 'owner',
+  created_at: '2026-10-19T00:00:00.000Z',
+  updated_at: '2026-10-19T00:00:00.000Z',
+  ...overrides
+});
+
+describe('evaluateMemoryAccess', () => {
+  it('keeps the organization defaults without rules', () => {
+    expect(evaluateMemoryAccess(memory, member, 'read', [])).toMatchObject({ allowed: true, reason: 'default' });
+    expect(evaluateMemoryAccess(memory, member, 'write', [])).toMatchObject({ allowed: false, reason: 'owner_only' });
+    expect(evaluateMemoryAccess({ ...memory, memory_type: 'personal' }, member, 'read', []))
+      .toMatchObject({ allowed: false, reason: 'personal' });
+    expect(evaluateMemoryAccess(memory, { ...member, userId: 'owner' }, 'delete', []))
+      .toMatchObject({ allowed: true, reason: 'owner' });
+  });
+
+  it('grants the permission and everything below it', () => {
+    const write = rule({ permission: 'write' });
+
+    expect(evaluateMemoryAccess(memory, member, 'write', [write])).toEqual({ allowed: true, reason: 'grant', rule_id: write.id });
+    expect(evaluateMemoryAccess({ ...memory, memory_type: 'personal' }, member, 'read', [write]).allowed).toBe(true);
+    expect(evaluateMemoryAccess(memory, member, 'delete', [write]).allowed).toBe(false);
+  });
+
+  it('applies topic rules and ignores expired or foreign ones', () => {
+    const now = Date.parse('2026-10-19T12:00:00Z');
+    const rules = [
+      rule({ memory_id: null, topic_id: 'topic-1', permission: 'delete', expires_at: '2026-10-19T11:00:00Z' }),
+      rule({ principal_id: 'someone-else', permission: 'admin' }),
+      rule({ memory_id: null, topic_id: 'topic-1', permission: 'write' })
+    ];
+
+    expect(evaluateMemoryAccess(memory, member, 'delete', rules, now).allowed).toBe(false);
+    expect(evaluateMemoryAccess(memory, member, 'write', rules, now).allowed).toBe(true);
+  });
+
+  it('lets user denies override grants but not owners or admins', () => {
+    const rules = [rule({ permission: 'admin' }), rule({ permission: 'write', granted: false })];
+
+    expect(evaluateMemoryAccess(memory, member, 'read', rules).allowed).toBe(true);
+    expect(evaluateMemoryAccess(memory, member, 'write', rules)).toMatchObject({ allowed: false, reason: 'denied_by_rule' });
+
+    const denyOwner = [rule({ principal_id: 'owner', granted: false })];
+    expect(evaluateMemoryAccess(memory, { ...member, userId: 'owner' }, 'read', denyOwner).allowed).toBe(true);
+    expect(evaluateMemoryAccess(memory, { ...member, role: 'admin' }, 'read', [rule({ granted: false })]).allowed).toBe(true);
+  });
+
+  it('applies app and API key denies even to owners and admins', () => {
+    const owner: AccessCaller = { userId: 'owner', role: 'admin', appId: 'cursor', apiKeyId: 'key-1' };
+
+    expect(evaluateMemoryAccess(memory, owner, 'read', [rule({ principal_type: 'app', principal_id: 'cursor', granted: false })]))
+      .toMatchObject({ allowed: false, reason: 'denied_by_rule' });
+    expect(evaluateMemoryAccess(memory, owner, 'read', [rule({ principal_type: 'api_key', principal_id: 'key-1', permission: 'write', granted: false })]).allowed)
+      .toBe(true);
+    expect(evaluateMemoryAccess(memory, { ...owner, appId: null }, 'read', [rule({ principal_type: 'app', principal_id: 'cursor', granted: false })]).allowed)
+      .toBe(true);
+  });
+});
+
+describe('memory visibility', () => {
+  const caller: AccessCaller = { ...member, appId: 'cursor' };
+  const rules = [
+    rule({ memory_id: 'mem-2', granted: false }),
+    rule({ memory_id: null, topic_id: 'topic-9', principal_type: 'app', principal_id: 'cursor', granted: false }),
+    rule({ memory_id: 'mem-3', permission: 'write', granted: false }),
+    rule({ memory_id: 'mem-4' })
+  ];
+
+  it('hides read-denied memories, exempting owners from user rules only', () => {
+    const visibility = buildMemoryVisibility(rules, caller);
+
+    expect(isHiddenByVisibility(visibility, { ...memory, id: 'mem-2' })).toBe(true);
+    expect(isHiddenByVisibility(visibility, { ...memory, id: 'mem-2', user_id: 'member' })).toBe(false);
+    expect(isHiddenByVisibility(visibility, { ...memory, id: 'mem-5', user_id: 'member', topic_id: 'topic-9' })).toBe(true);
+    expect(isHiddenByVisibility(visibility, { ...memory, id: 'mem-3' })).toBe(false);
+    expect(isHiddenByVisibility(visibility, { ...memory, id: 'mem-4' })).toBe(false);
+  });
+
+  it('builds the equivalent PostgREST filter', () => {
+    expect(memoryVisibilityFilter(buildMemoryVisibility(rules, caller))).toBe(
+      'and(or(topic_id.is.null,topic_id.not.in.(topic-9)),or(user_id.eq.member,id.not.in.(mem-2)))'
+    );
+    expect(memoryVisibilityFilter(buildMemoryVisibility(rules, { ...member, role: 'admin' }))).toBeNull();
+  });
+
+  it('also hides other users\' personal memories from non-admin lists', () => {
+    expect(memoryListFilter(buildMemoryVisibility([], member), member)).toBe('or(memory_type.neq.personal,user_id.eq.member)');
+    expect(memoryListFilter(buildMemoryVisibility(rules, caller), caller)).toBe(
+      'and(or(memory_type.neq.personal,user_id.eq.member),' +
+      'and(or(topic_id.is.null,topic_id.not.in.(topic-9)),or(user_id.eq.member,id.not.in.(mem-2))))'
+    );
+
+    const admin = { ...member, role: 'admin' };
+    expect(memoryListFilter(buildMemoryVisibility(rules, admin), admin)).toBeNull();
+  });
+});
+
+describe('accessCallerFromRequest', () => {
+  const request = (user: Partial<NonNullable<Request['user']>>, headers: Record<string, string> = {}) => ({
+    user: { id: 'member', auth_type: 'jwt', ...user },
+    header: (name: string) => headers[name.toLowerCase()]
+  }) as unknown as Request;
+
+  it('takes the app from the verified token, never from a header', () => {
+    expect(accessCallerFromRequest(request({}, { 'x-app-id': 'cursor' }), 'member').appId).toBeNull();
+    expect(accessCallerFromRequest(request({ app_id: 'cursor' }), 'member').appId).toBe('cursor');
+  });
+
+  it('drops app IDs that could break out of a PostgREST filter', () => {
+    expect(accessCallerFromRequest(request({ app_id: 'cursor\\' }), 'member').appId).toBeNull();
+    expect(accessCallerFromRequest(request({ app_id: 'a),or(user_id.neq.x' }), 'member').appId).toBeNull();
+  });
+});
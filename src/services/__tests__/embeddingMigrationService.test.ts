@@ -0,0 +1,43 @@
+import {
+  MIGRATION_HEARTBEAT_TIMEOUT_MS,
+  isResumable,
+  staleProfileFilter
+} from '../embeddingMigrationService';
+
+describe('staleProfileFilter', () => {
+  it('matches missing vectors, unrecorded profiles and any differing field', () => {
+    expect(staleProfileFilter({ provider: 'openai', model: 'text-embedding-3-small', dimensions: 1536 })).toBe(
+      'embedding.is.null,embedding_provider.is.null,' +
+      'embedding_provider.neq."openai",embedding_model.neq."text-embedding-3-small",embedding_dimensions.neq.1536'
+    );
+  });
+
+  it('quotes model names containing PostgREST delimiters', () => {
+    expect(staleProfileFilter({ provider: 'azure', model: 'emb,"v2"', dimensions: 1536 }))
+      .toContain('embedding_model.neq."emb,\\"v2\\""');
+  });
+});
+
+describe('isResumable', () => {
+  const now = Date.parse('2026-10-19T12:00:00.000Z');
+  const at = (offsetMs: number) => new Date(now - offsetMs).toISOString();
+
+  it('allows paused and failed jobs', () => {
+    expect(isResumable({ status: 'paused', heartbeat_at: at(0), updated_at: at(0) }, now)).toBe(true);
+    expect(isResumable({ status: 'failed', heartbeat_at: null, updated_at: at(0) }, now)).toBe(true);
+  });
+
+  it('only allows running jobs whose heartbeat has gone stale', () => {
+    expect(isResumable({ status: 'running', heartbeat_at: at(1000), updated_at: at(1000) }, now)).toBe(false);
+    expect(isResumable({
+      status: 'running',
+      heartbeat_at: at(MIGRATION_HEARTBEAT_TIMEOUT_MS + 1),
+      updated_at: at(MIGRATION_HEARTBEAT_TIMEOUT_MS + 1)
+    }, now)).toBe(true);
+  });
+
+  it('never resumes finished jobs', () => {
+    expect(isResumable({ status: 'completed', heartbeat_at: null, updated_at: at(0) }, now)).toBe(false);
+    expect(isResumable({ status: 'cancelled', heartbeat_at: null, updated_at: at(0) }, now)).toBe(false);
+  });
+});
@@ -0,0 +1,90 @@
+import {
+  EmbeddingProvider,
+  EmbeddingProviderRegistry,
+  LocalEmbeddingProvider,
+  OrganizationEmbeddingSelector,
+  createEmbeddingRegistry
+} from '../embeddingProviders';
+
+const stubOpenAI = (): EmbeddingProvider => ({
+  provider: 'openai',
+  model: 'text-embedding-3-small',
+  dimensions: 1536,
+  isAvailable: () => true,
+  embed: vi.fn()
+});
+
+const dot = (a: number[], b: number[]): number =>
+  a.reduce((sum, value, index) => sum + value * (b[index] ?? 0), 0);
+
+describe('LocalEmbeddingProvider', () => {
+  const provider = new LocalEmbeddingProvider(256);
+
+  it('is deterministic and normalized', async () => {
+    const first = await provider.embed(['Restart the worker after deploys']);
+    const second = await provider.embed(['Restart the worker after deploys']);
+    const [vector = []] = first.embeddings;
+
+    expect(vector).toHaveLength(256);
+    expect(second.embeddings[0]).toEqual(vector);
+    expect(dot(vector, vector)).toBeCloseTo(1, 6);
+    expect(first).toMatchObject({ provider: 'local', model: 'local-hash-v1', dimensions: 256 });
+  });
+
+  it('scores texts that share words above unrelated text', async () => {
+    const { embeddings: [query = [], related = [], unrelated = []] } = await provider.embed([
+      'postgres connection pool',
+      'tune the postgres connection pool size',
+      'quarterly marketing budget'
+    ]);
+
+    expect(dot(query, related)).toBeGreaterThan(dot(query, unrelated));
+  });
+});
+
+describe('EmbeddingProviderRegistry', () => {
+  it('falls back to local when the default provider is not configured', () => {
+    const registry = createEmbeddingRegistry({ defaultProvider: 'openai', local: { dimensions: 64 } });
+
+    expect(registry.getDefault().provider).toBe('local');
+    expect(registry.resolve('voyage').provider).toBe('local');
+    expect(registry.resolve('not-a-provider').provider).toBe('local');
+  });
+
+  it('resolves an available explicit selection', () => {
+    const registry = new EmbeddingProviderRegistry('local')
+      .register(new LocalEmbeddingProvider(64))
+      .register(stubOpenAI());
+
+    expect(registry.resolve('openai').provider).toBe('openai');
+    expect(registry.available().map((provider) => provider.provider)).toEqual(['local', 'openai']);
+  });
+});
+
+describe('OrganizationEmbeddingSelector', () => {
+  const registry = new EmbeddingProviderRegistry('local')
+    .register(new LocalEmbeddingProvider(64))
+    .register(stubOpenAI());
+
+  it('caches lookups until invalidated', async () => {
+    const lookup = vi.fn().mockResolvedValue('openai');
+    const selector = new OrganizationEmbeddingSelector(registry, lookup);
+
+    expect((await selector.forOrganization('org-1')).provider).toBe('openai');
+    expect(await selector.selection('org-1')).toBe('openai');
+    expect(lookup).toHaveBeenCalledTimes(1);
+
+    selector.invalidate('org-1');
+    lookup.mockResolvedValue(null);
+    expect((await selector.forOrganization('org-1')).provider).toBe('local');
+    expect(lookup).toHaveBeenCalledTimes(2);
+  });
+
+  it('uses the default when the lookup fails or names an unknown provider', async () => {
+    const failing = new OrganizationEmbeddingSelector(registry, vi.fn().mockRejectedValue(new Error('db down')));
+    const unknown = new OrganizationEmbeddingSelector(registry, vi.fn().mockResolvedValue('bogus'));
+
+    expect((await failing.forOrganization('org-1')).provider).toBe('local');
+    expect(await unknown.selection('org-1')).toBeNull();
+  });
+});
@@ -1,5 +1,6 @@
 import {
   canReadIntelligenceSubject,
+  canWriteIntelligenceSubject,
   resolveIntelligenceSubjectBoundary,
 } from '../intelligenceAccess';
 
@@ -53,4 +54,21 @@ describe('intelligence subject boundary', () => {
   it('rejects job reads outside the caller organization boundary', () => {
     expect(canReadIntelligenceSubject(user, 'other-subject', 'org-2')).toBe(false);
   });
+
+  it('lets a caller edit their own subject', () => {
+    const boundary = resolveIntelligenceSubjectBoundary(user, 'user-1');
+    expect(boundary && canWriteIntelligenceSubject(user, boundary)).toBe(true);
+  });
+
+  it('rejects edits to another member of the same organization', () => {
+    const boundary = resolveIntelligenceSubjectBoundary(user, 'user-2');
+    expect(boundary).not.toBeNull();
+    expect(boundary && canWriteIntelligenceSubject(user, boundary)).toBe(false);
+  });
+
+  it('lets an organization admin edit other subjects in the organization', () => {
+    const admin = { ...user, role: 'admin' };
+    const boundary = resolveIntelligenceSubjectBoundary(admin, 'user-2');
+    expect(boundary && canWriteIntelligenceSubject(admin, boundary)).toBe(true);
+  });
 });
@@ -0,0 +1,66 @@
+import { diffLines, diffMemorySnapshots } from '../memoryDiff';
+import type { VersionSnapshot } from '@/types/memory';
+
+const snapshot = (overrides: Partial<VersionSnapshot> = {}): VersionSnapshot => ({
+  title: 'Deploy notes',
+  content: 'line one\nline two\nline three',
+  memory_type: 'project',
+  tags: ['deploy'],
+  topic_id: null,
+  metadata: {},
+  ...overrides,
+});
+
+describe('diffLines', () => {
+  it('returns a single equal hunk for identical text', () => {
+    expect(diffLines('a\nb', 'a\nb')).toEqual([{ op: 'equal', lines: ['a', 'b'] }]);
+  });
+
+  it('marks replaced lines as remove then add around unchanged context', () => {
+    expect(diffLines('a\nb\nc', 'a\nB\nc')).toEqual([
+      { op: 'equal', lines: ['a'] },
+      { op: 'remove', lines: ['b'] },
+      { op: 'add', lines: ['B'] },
+      { op: 'equal', lines: ['c'] },
+    ]);
+  });
+
+  it('handles pure appends', () => {
+    expect(diffLines('a', 'a\nb\nc')).toEqual([
+      { op: 'equal', lines: ['a'] },
+      { op: 'add', lines: ['b', 'c'] },
+    ]);
+  });
+});
+
+describe('diffMemorySnapshots', () => {
+  it('reports no changed fields for identical snapshots', () => {
+    const diff = diffMemorySnapshots('mem-1', 1, 2, snapshot(), snapshot());
+    expect(diff.changed_fields).toEqual([]);
+  });
+
+  it('reports title, tag and metadata changes', () => {
+    const diff = diffMemorySnapshots(
+      'mem-1',
+      1,
+      null,
+      snapshot({ metadata: { source: 'cli', owner: 'a' } }),
+      snapshot({
+        title: 'Deploy runbook',
+        tags: ['deploy', 'runbook'],
+        metadata: { source: 'cli', owner: 'b' },
+      }),
+    );
+
+    expect(diff.to_version).toBeNull();
+    expect(diff.changed_fields).toEqual(['title', 'tags', 'metadata']);
+    expect(diff.title).toEqual({ from: 'Deploy notes', to: 'Deploy runbook' });
+    expect(diff.tags).toEqual({ added: ['runbook'], removed: [] });
+    expect(diff.metadata_keys_changed).toEqual(['owner']);
+  });
+
+  it('treats undefined and null topic ids as equal', () => {
+    const diff = diffMemorySnapshots('mem-1', 1, 2, snapshot({ topic_id: undefined }), snapshot());
+    expect(diff.changed_fields).not.toContain('topic_id');
+  });
+});
@@ -0,0 +1,74 @@
+import {
+  LIFECYCLE_RULES,
+  lifecycleConflict,
+  parseStateFilter,
+  resolveStateFilter
+} from '../memoryLifecycle';
+import { ValidationError } from '@/middleware/errorHandler';
+
+describe('lifecycleConflict', () => {
+  const now = new Date('2026-10-19T12:00:00Z');
+
+  it('allows the documented source states for each action', () => {
+    expect(lifecycleConflict({ state: 'active' }, 'archive', now)).toBeNull();
+    expect(lifecycleConflict({ state: 'paused' }, 'archive', now)).toBeNull();
+    expect(lifecycleConflict({ state: 'active' }, 'pause', now)).toBeNull();
+    expect(lifecycleConflict({ state: 'paused' }, 'resume', now)).toBeNull();
+    expect(lifecycleConflict({ state: 'archived' }, 'restore', now)).toBeNull();
+    expect(lifecycleConflict({ state: 'archived' }, 'delete', now)).toBeNull();
+  });
+
+  it('treats rows without a state as active', () => {
+    expect(lifecycleConflict({}, 'pause', now)).toBeNull();
+    expect(lifecycleConflict({}, 'resume', now)).toBe('Cannot resume a memory that is active');
+  });
+
+  it('rejects actions that do not apply to the current state', () => {
+    expect(lifecycleConflict({ state: 'archived' }, 'pause', now)).toBe('Cannot pause a memory that is archived');
+    expect(lifecycleConflict({ state: 'deleted' }, 'archive', now)).toBe('Cannot archive a memory that is deleted');
+    expect(lifecycleConflict({ state: 'active' }, 'restore', now)).toBe('Cannot restore a memory that is active');
+  });
+
+  it('only restores trashed memories inside the restore window', () => {
+    expect(lifecycleConflict({ state: 'deleted', purge_after: '2026-10-20T00:00:00Z' }, 'restore', now)).toBeNull();
+    expect(lifecycleConflict({ state: 'deleted', purge_after: '2026-10-19T11:59:59Z' }, 'restore', now))
+      .toBe('The restore window for this memory has expired');
+  });
+
+  it('maps delete to the trash and requires delete permission', () => {
+    expect(LIFECYCLE_RULES.delete).toMatchObject({ to: 'deleted', permission: 'delete' });
+    expect(LIFECYCLE_RULES.restore).toMatchObject({ to: 'active', permission: 'write' });
+  });
+});
+
+describe('parseStateFilter', () => {
+  it('returns undefined when absent', () => {
+    expect(parseStateFilter(undefined)).toBeUndefined();
+    expect(parseStateFilter('  ')).toBeUndefined();
+  });
+
+  it('parses comma-separated states without duplicates', () => {
+    expect(parseStateFilter('active, Paused,active')).toEqual(['active', 'paused']);
+  });
+
+  it('expands all to every state', () => {
+    expect(parseStateFilter('all')).toEqual(['active', 'paused', 'archived', 'deleted']);
+  });
+
+  it('rejects unknown states', () => {
+    expect(() => parseStateFilter('active,frozen')).toThrow(ValidationError);
+  });
+});
+
+describe('resolveStateFilter', () => {
+  it('defaults to active memories', () => {
+    expect(resolveStateFilter(undefined)).toEqual(['active']);
+    expect(resolveStateFilter([])).toEqual(['active']);
+  });
+
+  it('keeps an explicit filter and adds the trash on include_deleted', () => {
+    expect(resolveStateFilter(['archived'])).toEqual(['archived']);
+    expect(resolveStateFilter(undefined, true)).toEqual(['active', 'deleted']);
+    expect(resolveStateFilter(['deleted'], true)).toEqual(['deleted']);
+  });
+});
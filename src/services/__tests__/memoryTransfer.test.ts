@@ -0,0 +1,73 @@
+import { parseImportLine, parseStoredEmbedding, toExportRecord } from '../memoryTransfer';
+
+describe('parseImportLine', () => {
+  it('accepts the type alias and defaults tags', () => {
+    const parsed = parseImportLine(JSON.stringify({ title: 'Runbook', content: 'Restart the worker', type: 'workflow' }));
+
+    expect(parsed.ok).toBe(true);
+    if (parsed.ok) {
+      expect(parsed.data.memory_type).toBe('workflow');
+      expect(parsed.data.tags).toEqual([]);
+    }
+  });
+
+  it('strips export-only fields so export output round-trips', () => {
+    const parsed = parseImportLine(JSON.stringify({
+      id: 'abc',
+      created_at: '2026-01-01T00:00:00.000Z',
+      title: 'Runbook',
+      content: 'Restart the worker',
+      memory_type: 'workflow',
+      embedding: [0.1, 0.2]
+    }));
+
+    expect(parsed.ok).toBe(true);
+    if (parsed.ok) {
+      expect(parsed.data).not.toHaveProperty('id');
+      expect(parsed.data.embedding).toEqual([0.1, 0.2]);
+    }
+  });
+
+  it('reports malformed JSON and schema errors without throwing', () => {
+    expect(parseImportLine('{not json')).toEqual({ ok: false, error: 'Invalid JSON' });
+    expect(parseImportLine('[1,2]')).toEqual({ ok: false, error: 'Each line must be a JSON object' });
+
+    const missing = parseImportLine(JSON.stringify({ title: 'No content' }));
+    expect(missing.ok).toBe(false);
+    if (!missing.ok) expect(missing.error).toContain('content');
+  });
+});
+
+describe('parseStoredEmbedding', () => {
+  it('parses pgvector text and passes arrays through', () => {
+    expect(parseStoredEmbedding('[0.5,-1,2]')).toEqual([0.5, -1, 2]);
+    expect(parseStoredEmbedding([1, 2])).toEqual([1, 2]);
+    expect(parseStoredEmbedding('not a vector')).toBeUndefined();
+    expect(parseStoredEmbedding(null)).toBeUndefined();
+  });
+});
+
+describe('toExportRecord', () => {
+  const row = {
+    id: 'mem-1',
+    title: 'Runbook',
+    content: 'Restart the worker',
+    memory_type: 'workflow',
+    tags: ['ops'],
+    topic_id: null,
+    metadata: null,
+    user_id: 'user-1',
+    created_at: '2026-01-01T00:00:00.000Z',
+    updated_at: '2026-01-02T00:00:00.000Z',
+    embedding: '[0.1,0.2]'
+  };
+
+  it('omits the embedding unless requested', () => {
+    expect(toExportRecord(row, false)).not.toHaveProperty('embedding');
+    expect(toExportRecord(row, true).embedding).toEqual([0.1, 0.2]);
+  });
+
+  it('normalises missing metadata to an empty object', () => {
+    expect(toExportRecord(row, false).metadata).toEqual({});
+  });
+});
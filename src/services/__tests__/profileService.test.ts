@@ -0,0 +1,65 @@
+import { MemoryProfile, applyProfileEdit } from '../profileService';
+
+const now = new Date('2026-10-19T12:00:00.000Z');
+
+const profile = (overrides: Partial<MemoryProfile> = {}): MemoryProfile => ({
+  subject_id: 'user-1',
+  organization_id: null,
+  profile_summary: 'Backend engineer',
+  structured_fields: { preferences: ['vim'], goals: [], constraints: [], tendencies: [], facts: ['lives in Berlin'] },
+  last_reasoned_at: '2026-10-18T12:00:00.000Z',
+  freshness: '2026-10-18T12:00:00.000Z',
+  confidence_by_field: { preferences: 0.8, facts: 0.9 },
+  head_version_id: 'v1',
+  pinned_fields: [],
+  field_evidence: {
+    facts: {
+      source: 'reasoning',
+      conclusion_ids: ['c1'],
+      memory_ids: ['m1'],
+      updated_at: '2026-10-18T12:00:00.000Z',
+      updated_by: null
+    }
+  },
+  created_at: '2026-10-18T12:00:00.000Z',
+  updated_at: '2026-10-18T12:00:00.000Z',
+  ...overrides
+});
+
+describe('applyProfileEdit', () => {
+  it('records edited fields as manual, pins them and diffs the change', () => {
+    const revision = applyProfileEdit(profile(), { structured_fields: { facts: [' lives in Lisbon ', ''] } }, 'u1', now);
+
+    expect(revision).toMatchObject({
+      structured_fields: { preferences: ['vim'], facts: ['lives in Lisbon'] },
+      pinned_fields: ['facts'],
+      confidence_by_field: { preferences: 0.8, facts: 1 },
+      field_evidence: {
+        facts: { source: 'manual', conclusion_ids: [], memory_ids: [], updated_at: now.toISOString(), updated_by: 'u1' }
+      },
+      diff: {
+        source: 'manual',
+        fields: { facts: { from: ['lives in Berlin'], to: ['lives in Lisbon'] } },
+        pinned_fields: { from: [], to: ['facts'] }
+      }
+    });
+  });
+
+  it('leaves edited fields unpinned when asked and applies explicit pins', () => {
+    const revision = applyProfileEdit(
+      profile({ pinned_fields: ['goals'] }),
+      { profile_summary: null, structured_fields: { preferences: ['emacs'] }, pin_edited_fields: false, pin: ['constraints'], unpin: ['goals'] },
+      null,
+      now
+    );
+
+    expect(revision?.pinned_fields).toEqual(['constraints']);
+    expect(revision?.profile_summary).toBeNull();
+    expect(revision?.diff.profile_summary).toEqual({ from: 'Backend engineer', to: null });
+  });
+
+  it('returns null when nothing changes', () => {
+    expect(applyProfileEdit(profile(), { structured_fields: { preferences: ['vim'] }, pin: [] }, 'u1', now)).toBeNull();
+    expect(applyProfileEdit(profile({ pinned_fields: ['facts'] }), { pin: ['facts'] }, 'u1', now)).toBeNull();
+  });
+});
@@ -0,0 +1,93 @@
+import type { Response } from 'express';
+
+import { InMemoryRealtimeEventBus, compareRealtimeEventIds } from '../realtimeEventBus';
+import { SSEConnectionRegistry } from '../sseConnections';
+
+const fakeResponse = () => {
+  const chunks: string[] = [];
+  const res = {
+    writableEnded: false,
+    destroyed: false,
+    write: vi.fn((chunk: string) => chunks.push(chunk))
+  };
+  return { res: res as unknown as Response, chunks };
+};
+
+const flush = () => new Promise((resolve) => setImmediate(resolve));
+
+describe('compareRealtimeEventIds', () => {
+  it('orders by time then sequence', () => {
+    expect(compareRealtimeEventIds('100-0', '99-5')).toBe(1);
+    expect(compareRealtimeEventIds('100-1', '100-2')).toBe(-1);
+    expect(compareRealtimeEventIds('100-1', '100-1')).toBe(0);
+    expect(compareRealtimeEventIds('garbage', '100-1')).toBeNull();
+  });
+});
+
+describe('InMemoryRealtimeEventBus', () => {
+  it('assigns increasing IDs and notifies subscribers', async () => {
+    const bus = new InMemoryRealtimeEventBus(10);
+    const listener = vi.fn();
+    bus.subscribe(listener);
+
+    const first = await bus.publish({ channel: 'sse', user_id: 'u1', payload: { n: 1 } });
+    const second = await bus.publish({ channel: 'sse', user_id: 'u1', payload: { n: 2 } });
+
+    expect(compareRealtimeEventIds(second.id, first.id)).toBe(1);
+    expect(listener).toHaveBeenCalledTimes(2);
+  });
+
+  it('replays events after an ID and flags IDs that fell out of the log', async () => {
+    const bus = new InMemoryRealtimeEventBus(3);
+    const ids: string[] = [];
+    for (let n = 0; n < 5; n += 1) {
+      ids.push((await bus.publish({ channel: 'sse', user_id: null, payload: { n } })).id);
+    }
+    const [oldest = '', , middle = ''] = ids;
+
+    const recent = await bus.replay(middle);
+    expect(recent.truncated).toBe(false);
+    expect(recent.events.map((event) => event.payload.n)).toEqual([3, 4]);
+
+    const stale = await bus.replay(oldest);
+    expect(stale.truncated).toBe(true);
+    expect(stale.events.map((event) => event.payload.n)).toEqual([2, 3, 4]);
+  });
+});
+
+describe('SSEConnectionRegistry', () => {
+  it('delivers only to the target user and channel', async () => {
+    const bus = new InMemoryRealtimeEventBus(10);
+    const registry = new SSEConnectionRegistry('sse', () => ({}), () => bus);
+    const alice = fakeResponse();
+    const bob = fakeResponse();
+    await registry.open('a', 'alice', alice.res);
+    await registry.open('b', 'bob', bob.res);
+
+    registry.broadcast({ type: 'memory_update' }, 'alice');
+    await bus.publish({ channel: 'mcp', user_id: null, payload: { type: 'other' } });
+    await flush();
+
+    expect(alice.chunks).toHaveLength(1);
+    expect(alice.chunks[0]).toMatch(/^id: \d+-\d+\ndata: \{"type":"memory_update"\}\n\n$/);
+    expect(bob.chunks).toHaveLength(0);
+  });
+
+  it('replays missed events on reconnect and announces gaps', async () => {
+    const bus = new InMemoryRealtimeEventBus(3);
+    const registry = new SSEConnectionRegistry('sse', (id) => ({ type: 'replay_truncated', id }), () => bus);
+
+    const seen = await bus.publish({ channel: 'sse', user_id: 'alice', payload: { n: 1 } });
+    await bus.publish({ channel: 'sse', user_id: 'alice', payload: { n: 2 } });
+    await bus.publish({ channel: 'sse', user_id: 'bob', payload: { n: 3 } });
+
+    const client = fakeResponse();
+    await registry.open('a', 'alice', client.res, seen.id);
+    expect(client.chunks).toHaveLength(1);
+    expect(client.chunks[0]).toContain('"n":2');
+
+    const gap = fakeResponse();
+    await registry.open('a2', 'alice', gap.res, '1-0');
+    expect(gap.chunks[0]).toContain('replay_truncated');
+  });
+});
@@ -0,0 +1,333 @@
+import {
+  DeterministicReasoningClient,
+  InferredConclusion,
+  MemoryProfile,
+  ProfileRevision,
+  ProposedConclusion,
+  ReasoningJob,
+  ReasoningLlmClient,
+  ReasoningMemory,
+  ReasoningRunner,
+  ReasoningStore
+} from '../reasoningEngine';
+
+class InMemoryReasoningStore implements ReasoningStore {
+  jobs: ReasoningJob[] = [];
+  memories: ReasoningMemory[] = [];
+  conclusions: InferredConclusion[] = [];
+  profile: MemoryProfile | null = null;
+  versions: ProfileRevision[] = [];
+
+  async claimJobs(limit: number, subjectId?: string): Promise<ReasoningJob[]> {
+    const claimed = this.jobs
+      .filter((job) => job.status === 'pending' && (!subjectId || job.subject_id === subjectId))
+      .slice(0, limit);
+    claimed.forEach((job) => { job.status = 'running'; });
+    return claimed;
+  }
+
+  async loadMemories(job: ReasoningJob): Promise<ReasoningMemory[]> {
+    return this.memories.filter((memory) => job.source_memory_ids.includes(memory.id));
+  }
+
+  async listActiveConclusions(job: ReasoningJob): Promise<InferredConclusion[]> {
+    return this.conclusions.filter((c) => c.subject_id === job.subject_id && c.superseded_by === null);
+  }
+
+  async listRejectedConclusions(job: ReasoningJob): Promise<InferredConclusion[]> {
+    return this.conclusions.filter((c) => c.subject_id === job.subject_id && c.superseded_by !== null && c.resolution_id !== null);
+  }
+
+  async supersedeConclusions(ids: string[], supersededBy: string): Promise<void> {
+    this.conclusions
+      .filter((c) => ids.includes(c.id) && c.superseded_by === null && c.resolution_id === null)
+      .forEach((c) => { c.superseded_by = supersededBy; });
+  }
+
+  async insertConclusions(conclusions: InferredConclusion[]): Promise<void> {
+    this.conclusions.push(...conclusions.map((conclusion) => ({ ...conclusion })));
+  }
+
+  async setContradictionGroup(ids: string[], groupId: string): Promise<void> {
+    this.conclusions.filter((c) => ids.includes(c.id)).forEach((c) => { c.contradiction_group_id = groupId; });
+  }
+
+  async completeJob(jobId: string): Promise<void> {
+    this.job(jobId).status = 'completed';
+  }
+
+  async failJob(jobId: string, error: string): Promise<void> {
+    Object.assign(this.job(jobId), { status: 'failed', error });
+  }
+
+  async loadProfile(): Promise<MemoryProfile | null> {
+    return this.profile && { ...this.profile };
+  }
+
+  async saveProfileRevision(job: ReasoningJob, expectedHeadVersionId: string | null, revision: ProfileRevision): Promise<boolean> {
+    if ((this.profile?.head_version_id ?? null) !== expectedHeadVersionId) return false;
+    this.versions.push(revision);
+    this.profile = {
+      ...(this.profile ?? profile()),
+      profile_summary: revision.profile_summary,
+      structured_fields: revision.structured_fields,
+      pinned_fields: revision.pinned_fields,
+      field_evidence: revision.field_evidence,
+      confidence_by_field: revision.confidence_by_field,
+      subject_id: job.subject_id,
+      head_version_id: `v${this.versions.length}`
+    };
+    return true;
+  }
+
+  job(id: string): ReasoningJob {
+    const job = this.jobs.find((candidate) => candidate.id === id);
+    if (!job) throw new Error(`no job ${id}`);
+    return job;
+  }
+
+  active(): InferredConclusion[] {
+    return this.conclusions.filter((c) => c.superseded_by === null);
+  }
+}
+
+const memory = (id: string, content: string): ReasoningMemory => ({
+  id,
+  title: null,
+  content,
+  created_at: '2026-10-19T12:00:00.000Z'
+});
+
+const conclusion = (id: string, content: string): InferredConclusion => ({
+  id,
+  subject_id: 'user-1',
+  organization_id: null,
+  conclusion_type: 'explicit',
+  content,
+  confidence: 0.9,
+  evidence_memory_ids: ['m1'],
+  scope: null,
+  freshness: '2026-10-19T12:00:00.000Z',
+  superseded_by: null,
+  contradiction_group_id: null,
+  created_at: '2026-10-19T12:00:00.000Z',
+  source_job_id: null,
+  resolution_id: null,
+  profile_field: null
+});
+
+const profile = (overrides: Partial<MemoryProfile> = {}): MemoryProfile => ({
+  subject_id: 'user-1',
+  organization_id: null,
+  profile_summary: null,
+  structured_fields: { preferences: [], goals: [], constraints: [], tendencies: [], facts: [] },
+  last_reasoned_at: null,
+  freshness: '2026-10-19T12:00:00.000Z',
+  confidence_by_field: {},
+  head_version_id: null,
+  pinned_fields: [],
+  field_evidence: {},
+  created_at: '2026-10-19T12:00:00.000Z',
+  updated_at: '2026-10-19T12:00:00.000Z',
+  ...overrides
+});
+
+describe('ReasoningRunner', () => {
+  let store: InMemoryReasoningStore;
+  let runner: ReasoningRunner;
+  let seq: number;
+
+  const queue = (id: string, memoryIds: string[]) => {
+    store.jobs.push({
+      id,
+      subject_id: 'user-1',
+      organization_id: null,
+      source_memory_ids: memoryIds,
+      status: 'pending',
+      source_event: 'memory.create',
+      pending_token_count: 0,
+      created_at: '2026-10-19T12:00:00.000Z',
+      started_at: null,
+      completed_at: null,
+      error: null
+    });
+  };
+
+  const runnerWith = (llm: ReasoningLlmClient) => new ReasoningRunner(store, llm, {
+    batchSize: 2,
+    idFactory: () => `c${++seq}`,
+    now: () => new Date('2026-10-19T12:00:00.000Z')
+  });
+
+  beforeEach(() => {
+    store = new InMemoryReasoningStore();
+    seq = 0;
+    runner = runnerWith(new DeterministicReasoningClient());
+  });
+
+  it('writes explicit and inductive conclusions with their evidence', async () => {
+    store.memories.push(
+      memory('m1', 'Preferred editor: vim. Deploy target is Fly.io'),
+      memory('m2', 'Preferred editor is vim')
+    );
+    queue('j1', ['m1', 'm2']);
+
+    const result = await runner.runPending();
+
+    expect(result).toEqual({ job_ids: ['j1'], failed_job_ids: [], conclusion_count: 2 });
+    expect(store.job('j1').status).toBe('completed');
+    expect(store.conclusions.map((c) => [c.conclusion_type, c.content, c.evidence_memory_ids, c.source_job_id])).toEqual([
+      ['inductive', 'preferred editor: vim', ['m1', 'm2'], 'j1'],
+      ['explicit', 'deploy target: Fly.io', ['m1'], 'j1']
+    ]);
+  });
+
+  it('supersedes an active conclusion when a later job changes its value', async () => {
+    store.memories.push(memory('m1', 'Preferred editor: vim'), memory('m2', 'Preferred editor: emacs'));
+    queue('j1', ['m1']);
+    await runner.runPending();
+    queue('j2', ['m2']);
+    await runner.runPending();
+
+    expect(store.conclusions.find((c) => c.content === 'preferred editor: vim')?.superseded_by).toBe('c2');
+    expect(store.active().map((c) => c.content)).toEqual(['preferred editor: emacs']);
+  });
+
+  it('groups conflicting values from one job as a contradiction', async () => {
+    store.memories.push(memory('m1', 'Timezone: UTC'), memory('m2', 'Timezone: CET'));
+    queue('j1', ['m1', 'm2']);
+
+    await runner.runPending();
+
+    const [utc, cet] = store.conclusions;
+    expect(utc.contradiction_group_id).toBeTruthy();
+    expect(cet.contradiction_group_id).toBe(utc.contradiction_group_id);
+    expect(store.active()).toHaveLength(2);
+  });
+
+  it('does not restate an active conclusion', async () => {
+    store.memories.push(memory('m1', 'Timezone: UTC'), memory('m2', 'Timezone: UTC'));
+    queue('j1', ['m1']);
+    queue('j2', ['m2']);
+
+    const result = await runner.runPending();
+
+    expect(result.conclusion_count).toBe(1);
+    expect(store.conclusions).toHaveLength(1);
+  });
+
+  it('opens a contradiction instead of superseding a conclusion a person accepted', async () => {
+    store.memories.push(memory('m1', 'Timezone: UTC'), memory('m2', 'Timezone: CET'));
+    queue('j1', ['m1']);
+    await runner.runPending();
+    store.conclusions[0].resolution_id = 'r1';
+
+    queue('j2', ['m2']);
+    await runner.runPending();
+
+    const [utc, cet] = store.conclusions;
+    expect(utc.superseded_by).toBeNull();
+    expect(cet.contradiction_group_id).toBeTruthy();
+    expect(utc.contradiction_group_id).toBe(cet.contradiction_group_id);
+  });
+
+  it('does not propose a conclusion rejected in a resolution again', async () => {
+    store.memories.push(memory('m1', 'Timezone: UTC'), memory('m2', 'Timezone: CET'));
+    store.conclusions.push(
+      { ...conclusion('kept', 'timezone: UTC'), resolution_id: 'r1' },
+      { ...conclusion('rejected', 'timezone: CET'), resolution_id: 'r1', superseded_by: 'kept' }
+    );
+    queue('j1', ['m2']);
+
+    const result = await runner.runPending();
+
+    expect(result.conclusion_count).toBe(0);
+    expect(store.active().map((c) => c.id)).toEqual(['kept']);
+  });
+
+  it('drops evidence outside the job and proposals left without any', async () => {
+    const llm: ReasoningLlmClient = {
+      name: 'fixed',
+      infer: async (): Promise<ProposedConclusion[]> => [
+        { conclusion_type: 'abductive', content: 'Works late', confidence: 1.4, evidence_memory_ids: ['m1', 'other'] },
+        { conclusion_type: 'deductive', content: 'Is an admin', confidence: 0.9, evidence_memory_ids: ['other'] },
+        { conclusion_type: 'explicit', content: 'Too unsure', confidence: 0.1, evidence_memory_ids: ['m1'] }
+      ]
+    };
+    store.memories.push(memory('m1', 'Pushed commits at 2am again'));
+    queue('j1', ['m1']);
+
+    await runnerWith(llm).runPending();
+
+    expect(store.conclusions).toHaveLength(1);
+    expect(store.conclusions[0]).toMatchObject({
+      conclusion_type: 'abductive',
+      confidence: 1,
+      evidence_memory_ids: ['m1']
+    });
+  });
+
+  it('marks a job failed without stopping the batch', async () => {
+    let calls = 0;
+    const llm: ReasoningLlmClient = {
+      name: 'flaky',
+      infer: async (input) => {
+        if (++calls === 1) throw new Error('model unavailable');
+        return new DeterministicReasoningClient().infer(input);
+      }
+    };
+    store.memories.push(memory('m1', 'Timezone: UTC'), memory('m2', 'Language: Go'));
+    queue('j1', ['m1']);
+    queue('j2', ['m2']);
+    queue('j3', []);
+
+    const result = await runnerWith(llm).runPending();
+
+    expect(result).toEqual({ job_ids: ['j2', 'j3'], failed_job_ids: ['j1'], conclusion_count: 1 });
+    expect(store.job('j1')).toMatchObject({ status: 'failed', error: 'model unavailable' });
+    expect(store.job('j3').status).toBe('completed');
+  });
+
+  it('builds profile fields from active conclusions with their evidence', async () => {
+    store.memories.push(memory('m1', 'Preferred editor: vim. Deploy target is Fly.io'));
+    queue('j1', ['m1']);
+
+    await runner.runPending();
+
+    expect(store.profile?.structured_fields).toMatchObject({
+      preferences: ['preferred editor: vim'],
+      facts: ['deploy target: Fly.io']
+    });
+    expect(store.profile?.field_evidence.preferences).toEqual({
+      source: 'reasoning',
+      conclusion_ids: ['c1'],
+      memory_ids: ['m1'],
+      updated_at: '2026-10-19T12:00:00.000Z',
+      updated_by: null
+    });
+    expect(store.versions[0].diff).toEqual({
+      source: 'reasoning',
+      fields: {
+        preferences: { from: [], to: ['preferred editor: vim'] },
+        facts: { from: [], to: ['deploy target: Fly.io'] }
+      }
+    });
+  });
+
+  it('leaves pinned fields and open contradictions out of profile refreshes', async () => {
+    store.profile = profile({
+      head_version_id: 'v0',
+      pinned_fields: ['preferences'],
+      structured_fields: { preferences: ['tabs'], goals: [], constraints: [], tendencies: [], facts: [] }
+    });
+    store.memories.push(memory('m1', 'Preferred editor: vim. Timezone: UTC'), memory('m2', 'Timezone: CET'));
+    queue('j1', ['m1', 'm2']);
+
+    await runner.runPending();
+
+    expect(store.profile?.structured_fields.preferences).toEqual(['tabs']);
+    expect(store.profile?.structured_fields.facts).toEqual([]);
+    expect(store.profile?.pinned_fields).toEqual(['preferences']);
+    expect(store.versions).toHaveLength(0);
+  });
+});
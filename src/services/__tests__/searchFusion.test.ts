@@ -0,0 +1,48 @@
+import { DEFAULT_RRF_K, fuseSearchResults } from '../searchFusion';
+import type { MemorySearchResult } from '@/types/memory';
+
+const memory = (id: string, relevance_score: number): MemorySearchResult => ({
+  id,
+  title: `Memory ${id}`,
+  content: `content ${id}`,
+  memory_type: 'knowledge',
+  tags: [],
+  user_id: 'user-1',
+  organization_id: 'org-1',
+  created_at: '2026-01-01T00:00:00.000Z',
+  updated_at: '2026-01-01T00:00:00.000Z',
+  access_count: 0,
+  relevance_score,
+});
+
+describe('fuseSearchResults', () => {
+  it('ranks items found by both legs above items found by one', () => {
+    const vector = [memory('a', 0.91), memory('b', 0.88)];
+    const lexical = [memory('c', 0.6), memory('b', 0.4)];
+
+    const fused = fuseSearchResults(vector, lexical);
+
+    expect(fused.map((r) => r.id)).toEqual(['b', 'a', 'c']);
+    expect(fused[0]).toMatchObject({ vector_score: 0.88, lexical_score: 0.4 });
+  });
+
+  it('keeps lexical-only matches such as exact identifiers', () => {
+    const fused = fuseSearchResults([memory('a', 0.8)], [memory('err-code', 0.7)]);
+    const lexicalOnly = fused.find((r) => r.id === 'err-code');
+
+    expect(lexicalOnly?.lexical_score).toBe(0.7);
+    expect(lexicalOnly?.vector_score).toBeUndefined();
+  });
+
+  it('reports the raw RRF score and a relevance score normalized to the best case', () => {
+    const [top] = fuseSearchResults([memory('a', 0.9)], [memory('a', 0.5)]);
+
+    expect(top?.fused_score).toBeCloseTo(2 / (DEFAULT_RRF_K + 1));
+    expect(top?.relevance_score).toBe(1);
+  });
+
+  it('truncates to the requested limit after fusing', () => {
+    const vector = [memory('a', 0.9), memory('b', 0.8), memory('c', 0.7)];
+    expect(fuseSearchResults(vector, [], { limit: 2 })).toHaveLength(2);
+  });
+});
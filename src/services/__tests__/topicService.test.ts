@@ -0,0 +1,46 @@
+import { buildTopicTree, wouldCreateCycle } from '../topicService';
+import type { Topic } from '@/types/topic';
+
+const topic = (id: string, name: string, parent: string | null = null): Topic => ({
+  id,
+  name,
+  parent_topic_id: parent,
+  is_system: false,
+  user_id: 'user-1',
+  organization_id: 'org-1',
+  created_at: '2026-01-01T00:00:00.000Z',
+  updated_at: '2026-01-01T00:00:00.000Z',
+});
+
+describe('buildTopicTree', () => {
+  it('nests children under parents, sorted by name, with memory counts', () => {
+    const tree = buildTopicTree(
+      [topic('b', 'Backend'), topic('a', 'API', 'b'), topic('f', 'Frontend'), topic('d', 'DB', 'b')],
+      new Map([['a', 3]]),
+    );
+
+    expect(tree.map((node) => node.id)).toEqual(['b', 'f']);
+    expect(tree[0]?.children.map((node) => node.id)).toEqual(['a', 'd']);
+    expect(tree[0]?.children[0]?.memory_count).toBe(3);
+    expect(tree[1]?.memory_count).toBe(0);
+  });
+
+  it('promotes topics with an unknown parent to roots', () => {
+    const tree = buildTopicTree([topic('x', 'Orphan', 'missing')]);
+    expect(tree.map((node) => node.id)).toEqual(['x']);
+  });
+});
+
+describe('wouldCreateCycle', () => {
+  const topics = [topic('root', 'Root'), topic('mid', 'Mid', 'root'), topic('leaf', 'Leaf', 'mid')];
+
+  it('rejects moving a topic under itself or a descendant', () => {
+    expect(wouldCreateCycle(topics, 'root', 'root')).toBe(true);
+    expect(wouldCreateCycle(topics, 'root', 'leaf')).toBe(true);
+  });
+
+  it('allows moving a topic under an unrelated branch', () => {
+    expect(wouldCreateCycle([...topics, topic('other', 'Other')], 'mid', 'other')).toBe(false);
+    expect(wouldCreateCycle(topics, 'leaf', 'root')).toBe(false);
+  });
+});
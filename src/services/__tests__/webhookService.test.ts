@@ -0,0 +1,109 @@
+import {
+  isPrivateWebhookHost,
+  matchesWebhookFilters,
+  publicOnlyLookup,
+  signWebhookPayload,
+  verifyWebhookSignature,
+  webhookRetryDelay
+} from '../webhookService';
+import type { MemoryEvent } from '../memoryEvents';
+
+const event = (overrides: Partial<MemoryEvent['memory']> = {}): Pick<MemoryEvent, 'type' | 'memory'> => ({
+  type: 'memory.created',
+  memory: {
+    id: 'mem-1',
+    title: 'Deploy checklist',
+    memory_type: 'workflow',
+    tags: ['deploy', 'ops'],
+    topic_id: 'topic-1',
+    user_id: 'user-1',
+    organization_id: 'org-1',
+    metadata: {},
+    created_at: '2026-10-19T00:00:00.000Z',
+    updated_at: '2026-10-19T00:00:00.000Z',
+    ...overrides
+  }
+});
+
+const subscription = {
+  enabled: true,
+  events: ['memory.created', 'memory.updated'] as MemoryEvent['type'][],
+  memory_types: null,
+  tags: null,
+  topic_id: null
+};
+
+describe('webhook signatures', () => {
+  const body = JSON.stringify({ id: 'evt-1', type: 'memory.created' });
+
+  it('signs the timestamp and body and verifies round-trip', () => {
+    const signature = signWebhookPayload('whsec_test', 1_760_000_000, body);
+
+    expect(signature).toMatch(/^sha256=[0-9a-f]{64}$/);
+    expect(verifyWebhookSignature('whsec_test', 1_760_000_000, body, signature, 300, 1_760_000_000_000)).toBe(true);
+  });
+
+  it('rejects tampered bodies, wrong secrets and stale timestamps', () => {
+    const signature = signWebhookPayload('whsec_test', 1_760_000_000, body);
+    const now = 1_760_000_000_000;
+
+    expect(verifyWebhookSignature('whsec_test', 1_760_000_000, `${body} `, signature, 300, now)).toBe(false);
+    expect(verifyWebhookSignature('whsec_other', 1_760_000_000, body, signature, 300, now)).toBe(false);
+    expect(verifyWebhookSignature('whsec_test', 1_760_000_000, body, signature, 300, now + 301_000)).toBe(false);
+  });
+});
+
+describe('matchesWebhookFilters', () => {
+  it('matches subscribed event types only', () => {
+    expect(matchesWebhookFilters(subscription, event())).toBe(true);
+    expect(matchesWebhookFilters(subscription, { ...event(), type: 'memory.deleted' })).toBe(false);
+    expect(matchesWebhookFilters({ ...subscription, enabled: false }, event())).toBe(false);
+  });
+
+  it('applies memory type, tag and topic filters', () => {
+    expect(matchesWebhookFilters({ ...subscription, memory_types: ['knowledge'] }, event())).toBe(false);
+    expect(matchesWebhookFilters({ ...subscription, tags: ['ops', 'billing'] }, event())).toBe(true);
+    expect(matchesWebhookFilters({ ...subscription, tags: ['billing'] }, event())).toBe(false);
+    expect(matchesWebhookFilters({ ...subscription, topic_id: 'topic-2' }, event())).toBe(false);
+    expect(matchesWebhookFilters({ ...subscription, topic_id: 'topic-1' }, event())).toBe(true);
+  });
+});
+
+describe('webhookRetryDelay', () => {
+  it('doubles per attempt and caps at six hours', () => {
+    expect(webhookRetryDelay(1, 30_000)).toBe(30_000);
+    expect(webhookRetryDelay(3, 30_000)).toBe(120_000);
+    expect(webhookRetryDelay(20, 30_000)).toBe(6 * 60 * 60 * 1000);
+  });
+});
+
+describe('isPrivateWebhookHost', () => {
+  it('flags loopback and private ranges', () => {
+    ['localhost', '127.0.0.1', '10.2.3.4', '172.20.0.1', '192.168.1.10', '169.254.169.254', '[::1]']
+      .forEach((host) => expect(isPrivateWebhookHost(host)).toBe(true));
+    ['hooks.example.com', '172.32.0.1', '8.8.8.8']
+      .forEach((host) => expect(isPrivateWebhookHost(host)).toBe(false));
+  });
+
+  it('flags IPv4 addresses wrapped in IPv6 and other reserved IPv6 ranges', () => {
+    ['[::ffff:7f00:1]', '::ffff:10.0.0.1', '[::ffff:a9fe:a9fe]', '[::]', '[fe80::1]', '[fd00::1]', '100.64.0.1', '0.0.0.0']
+      .forEach((host) => expect(isPrivateWebhookHost(host)).toBe(true));
+    ['[::ffff:808:808]', '[2606:4700:4700::1111]']
+      .forEach((host) => expect(isPrivateWebhookHost(host)).toBe(false));
+  });
+});
+
+describe('publicOnlyLookup', () => {
+  const lookup = (hostname: string) => new Promise<unknown>((resolve, reject) => {
+    publicOnlyLookup(hostname, { all: true }, (error, addresses) => (error ? reject(error) : resolve(addresses)));
+  });
+
+  it('refuses names that resolve to private addresses', async () => {
+    await expect(lookup('localhost')).rejects.toMatchObject({ code: 'EPRIVATEADDR' });
+    await expect(lookup('127.0.0.1')).rejects.toMatchObject({ code: 'EPRIVATEADDR' });
+  });
+
+  it('passes public addresses through', async () => {
+    await expect(lookup('8.8.8.8')).resolves.toEqual([{ address: '8.8.8.8', family: 4 }]);
+  });
+});
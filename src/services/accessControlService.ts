@@ -0,0 +1,493 @@
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import type { Request } from 'express';
+
+import { config } from '@/config/environment';
+import { logger } from '@/utils/logger';
+import { ConflictError, InternalServerError } from '@/middleware/errorHandler';
+import { APP_ID_PATTERN } from '@/types/access';
+import type {
+  AccessAuditEntry,
+  AccessPermission,
+  AccessRule,
+  GrantAccessRequest,
+  ListAccessAuditQuery
+} from '@/types/access';
+import type { MemoryEntry } from '@/types/memory';
+
+const UNIQUE_VIOLATION = '23505';
+
+const PERMISSION_RANK: Record<AccessPermission, number> = {
+  read: 1,
+  write: 2,
+  delete: 3,
+  admin: 4
+};
+
+/** Who is asking: the user plus the credential they are using */
+export interface AccessCaller {
+  userId: string;
+  role: string;
+  appId: string | null;
+  apiKeyId: string | null;
+}
+
+export type AccessSubject = Pick<MemoryEntry, 'id' | 'user_id' | 'memory_type'> & {
+  topic_id?: string | null | undefined;
+};
+
+export type AccessDecisionReason =
+  | 'org_admin'
+  | 'owner'
+  | 'grant'
+  | 'default'
+  | 'denied_by_rule'
+  | 'personal'
+  | 'owner_only';
+
+export interface AccessDecision {
+  allowed: boolean;
+  reason: AccessDecisionReason;
+  rule_id: string | null;
+}
+
+export type AccessTarget = { memory_id: string } | { topic_id: string };
+
+/**
+ * The caller as established by authentication. The app is the OAuth client
+ * the verified token was issued to; API keys and plain sessions have none.
+ */
+export const accessCallerFromRequest = (req: Request, userId: string): AccessCaller => {
+  const appId = req.user?.app_id;
+  return {
+    userId,
+    role: req.user?.role ?? 'user',
+    appId: appId && APP_ID_PATTERN.test(appId) ? appId : null,
+    apiKeyId: req.user?.api_key_id ?? null
+  };
+};
+
+const isActive = (rule: AccessRule, now: number): boolean =>
+  !rule.expires_at || new Date(rule.expires_at).getTime() > now;
+
+const matchesPrincipal = (rule: AccessRule, caller: AccessCaller): boolean => {
+  switch (rule.principal_type) {
+    case 'user':
+      return rule.principal_id === caller.userId;
+    case 'app':
+      return caller.appId !== null && rule.principal_id === caller.appId;
+    case 'api_key':
+      return caller.apiKeyId !== null && rule.principal_id === caller.apiKeyId;
+    default:
+      return false;
+  }
+};
+
+const targetsSubject = (rule: AccessRule, subject: AccessSubject): boolean =>
+  rule.memory_id === subject.id || (!!subject.topic_id && rule.topic_id === subject.topic_id);
+
+/**
+ * Decide whether `caller` may exercise `permission` on a memory.
+ *
+ * Deny rules on an app or API key restrict the credential itself, so they
+ * apply even to owners and admins. Otherwise admins and the owner are
+ * allowed, user deny rules win over grants, and without a matching grant the
+ * organization defaults apply: any member may read non-personal memories,
+ * only the owner may change them.
+ */
+export function evaluateMemoryAccess(
+  subject: AccessSubject,
+  caller: AccessCaller,
+  permission: AccessPermission,
+  rules: AccessRule[],
+  now: number = Date.now()
+): AccessDecision {
+  const required = PERMISSION_RANK[permission];
+  const applicable = rules.filter((rule) =>
+    isActive(rule, now) && targetsSubject(rule, subject) && matchesPrincipal(rule, caller)
+  );
+  const denies = applicable.filter((rule) => !rule.granted && PERMISSION_RANK[rule.permission] <= required);
+
+  const credentialDeny = denies.find((rule) => rule.principal_type !== 'user');
+  if (credentialDeny) {
+    return { allowed: false, reason: 'denied_by_rule', rule_id: credentialDeny.id };
+  }
+  if (caller.role === 'admin') {
+    return { allowed: true, reason: 'org_admin', rule_id: null };
+  }
+  if (subject.user_id === caller.userId) {
+    return { allowed: true, reason: 'owner', rule_id: null };
+  }
+
+  const [userDeny] = denies;
+  if (userDeny) {
+    return { allowed: false, reason: 'denied_by_rule', rule_id: userDeny.id };
+  }
+
+  const grant = applicable.find((rule) => rule.granted && PERMISSION_RANK[rule.permission] >= required);
+  if (grant) {
+    return { allowed: true, reason: 'grant', rule_id: grant.id };
+  }
+
+  if (permission === 'read') {
+    return subject.memory_type === 'personal'
+      ? { allowed: false, reason: 'personal', rule_id: null }
+      : { allowed: true, reason: 'default', rule_id: null };
+  }
+  return { allowed: false, reason: 'owner_only', rule_id: null };
+}
+
+/**
+ * Memories and topics a caller is denied read access to, split by whether
+ * the owner is exempt (user rules) or not (app and API key rules)
+ */
+export interface MemoryVisibility {
+  userId: string;
+  credentialMemoryIds: string[];
+  credentialTopicIds: string[];
+  userMemoryIds: string[];
+  userTopicIds: string[];
+}
+
+export function buildMemoryVisibility(rules: AccessRule[], caller: AccessCaller, now: number = Date.now()): MemoryVisibility {
+  const readDenies = rules.filter((rule) =>
+    !rule.granted && rule.permission === 'read' && isActive(rule, now) && matchesPrincipal(rule, caller)
+  );
+  const collect = (userRules: boolean, field: 'memory_id' | 'topic_id'): string[] => [...new Set(
+    readDenies
+      .filter((rule) => (rule.principal_type === 'user') === userRules)
+      .map((rule) => rule[field])
+      .filter((id): id is string => !!id)
+  )];
+  const userRulesApply = caller.role !== 'admin';
+
+  return {
+    userId: caller.userId,
+    credentialMemoryIds: collect(false, 'memory_id'),
+    credentialTopicIds: collect(false, 'topic_id'),
+    userMemoryIds: userRulesApply ? collect(true, 'memory_id') : [],
+    userTopicIds: userRulesApply ? collect(true, 'topic_id') : []
+  };
+}
+
+export function isHiddenByVisibility(visibility: MemoryVisibility, memory: AccessSubject): boolean {
+  const inTopic = (topicIds: string[]) => !!memory.topic_id && topicIds.includes(memory.topic_id);
+
+  if (visibility.credentialMemoryIds.includes(memory.id) || inTopic(visibility.credentialTopicIds)) {
+    return true;
+  }
+  return memory.user_id !== visibility.userId
+    && (visibility.userMemoryIds.includes(memory.id) || inTopic(visibility.userTopicIds));
+}
+
+/**
+ * The same rule as isHiddenByVisibility, as a PostgREST `or` filter for
+ * memory_entries queries. Null when nothing is hidden.
+ */
+export function memoryVisibilityFilter(visibility: MemoryVisibility): string | null {
+  const exclusions = (memoryIds: string[], topicIds: string[]): string[] => [
+    ...(memoryIds.length ? [`id.not.in.(${memoryIds.join(',')})`] : []),
+    ...(topicIds.length ? [`or(topic_id.is.null,topic_id.not.in.(${topicIds.join(',')}))`] : [])
+  ];
+
+  const clauses = exclusions(visibility.credentialMemoryIds, visibility.credentialTopicIds);
+  const userClauses = exclusions(visibility.userMemoryIds, visibility.userTopicIds);
+  if (userClauses.length) {
+    const userVisible = userClauses.length > 1 ? `and(${userClauses.join(',')})` : userClauses[0];
+    clauses.push(`or(user_id.eq.${visibility.userId},${userVisible})`);
+  }
+
+  return clauses.length ? `and(${clauses.join(',')})` : null;
+}
+
+/**
+ * Filter for listing memories: memoryVisibilityFilter plus the default that
+ * other users' personal memories are not readable (see evaluateMemoryAccess),
+ * so a list never shows what GET /memory/:id refuses. Null for admins with
+ * nothing hidden.
+ */
+export function memoryListFilter(visibility: MemoryVisibility, caller: AccessCaller): string | null {
+  const ruleFilter = memoryVisibilityFilter(visibility);
+  const personalFilter = caller.role === 'admin' ? null : `or(memory_type.neq.personal,user_id.eq.${caller.userId})`;
+
+  if (ruleFilter && personalFilter) return `and(${personalFilter},${ruleFilter})`;
+  return personalFilter ?? ruleFilter;
+}
+
+const isEmptyVisibility = (visibility: MemoryVisibility): boolean =>
+  memoryVisibilityFilter(visibility) === null;
+
+export class AccessControlService {
+  private supabase: SupabaseClient;
+
+  constructor() {
+    this.supabase = createClient(config.SUPABASE_URL, config.SUPABASE_SERVICE_KEY);
+  }
+
+  /**
+   * Rules on a memory (and on its topic, when given), newest first
+   */
+  async listRules(organizationId: string, memoryId: string | null, topicId?: string | null): Promise<AccessRule[]> {
+    const targets = [
+      ...(memoryId ? [`memory_id.eq.${memoryId}`] : []),
+      ...(topicId ? [`topic_id.eq.${topicId}`] : [])
+    ];
+    if (targets.length === 0) return [];
+
+    const { data, error } = await this.supabase
+      .from('memory_access_rules')
+      .select('*')
+      .eq('organization_id', organizationId)
+      .or(targets.join(','))
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      logger.error('Failed to list access rules', { error, organizationId, memoryId, topicId });
+      throw new InternalServerError('Failed to list access rules');
+    }
+
+    return data || [];
+  }
+
+  async grantRule(
+    organizationId: string,
+    caller: AccessCaller,
+    target: AccessTarget,
+    data: GrantAccessRequest
+  ): Promise<AccessRule> {
+    const { data: rule, error } = await this.supabase
+      .from('memory_access_rules')
+      .insert({
+        organization_id: organizationId,
+        memory_id: 'memory_id' in target ? target.memory_id : null,
+        topic_id: 'topic_id' in target ? target.topic_id : null,
+        principal_type: data.principal_type,
+        principal_id: data.principal_id,
+        permission: data.permission,
+        granted: data.granted,
+        expires_at: data.expires_at ?? null,
+        created_by: caller.userId
+      })
+      .select()
+      .single();
+
+    if (error) {
+      if (error.code === UNIQUE_VIOLATION) {
+        throw new ConflictError('An identical access rule already exists');
+      }
+      logger.error('Failed to create access rule', { error, organizationId, target });
+      throw new InternalServerError('Failed to create access rule');
+    }
+
+    this.recordDecisions(organizationId, caller, [{
+      ...target,
+      access_type: 'rule_grant',
+      success: true,
+      reason: data.granted ? 'grant' : 'deny',
+      rule_id: rule.id,
+      metadata: { principal_type: data.principal_type, principal_id: data.principal_id, permission: data.permission }
+    }]);
+
+    return rule;
+  }
+
+  /**
+   * Remove a rule from a target. Returns null if no such rule exists there.
+   */
+  async revokeRule(
+    ruleId: string,
+    organizationId: string,
+    caller: AccessCaller,
+    target: AccessTarget
+  ): Promise<AccessRule | null> {
+    const [column, value] = 'memory_id' in target ? ['memory_id', target.memory_id] : ['topic_id', target.topic_id];
+
+    const { data, error } = await this.supabase
+      .from('memory_access_rules')
+      .delete()
+      .eq('id', ruleId)
+      .eq('organization_id', organizationId)
+      .eq(column, value)
+      .select();
+
+    if (error) {
+      logger.error('Failed to revoke access rule', { error, ruleId, organizationId });
+      throw new InternalServerError('Failed to revoke access rule');
+    }
+
+    const [rule] = (data || []) as AccessRule[];
+    if (!rule) return null;
+
+    this.recordDecisions(organizationId, caller, [{
+      ...target,
+      access_type: 'rule_revoke',
+      success: true,
+      reason: null,
+      rule_id: rule.id,
+      metadata: { principal_type: rule.principal_type, principal_id: rule.principal_id, permission: rule.permission }
+    }]);
+
+    return rule;
+  }
+
+  /**
+   * Evaluate and audit one access decision on a memory
+   */
+  async checkMemoryAccess(
+    memory: AccessSubject,
+    organizationId: string,
+    caller: AccessCaller,
+    permission: AccessPermission
+  ): Promise<AccessDecision> {
+    const rules = await this.listRules(organizationId, memory.id, memory.topic_id);
+    const decision = evaluateMemoryAccess(memory, caller, permission, rules);
+
+    this.recordDecisions(organizationId, caller, [{
+      memory_id: memory.id,
+      access_type: permission,
+      success: decision.allowed,
+      reason: decision.reason,
+      rule_id: decision.rule_id
+    }]);
+
+    return decision;
+  }
+
+  /**
+   * Read-deny rules that apply to the caller, for filtering list and search
+   */
+  async getVisibility(organizationId: string, caller: AccessCaller): Promise<MemoryVisibility> {
+    const principals = [
+      `and(principal_type.eq.user,principal_id.eq.${caller.userId})`,
+      ...(caller.appId && APP_ID_PATTERN.test(caller.appId) ? [`and(principal_type.eq.app,principal_id.eq."${caller.appId}")`] : []),
+      ...(caller.apiKeyId ? [`and(principal_type.eq.api_key,principal_id.eq.${caller.apiKeyId})`] : [])
+    ];
+
+    const { data, error } = await this.supabase
+      .from('memory_access_rules')
+      .select('*')
+      .eq('organization_id', organizationId)
+      .eq('granted', false)
+      .eq('permission', 'read')
+      .or(principals.join(','));
+
+    if (error) {
+      logger.error('Failed to load access rules for caller', { error, organizationId, userId: caller.userId });
+      throw new InternalServerError('Failed to evaluate access rules');
+    }
+
+    return buildMemoryVisibility(data || [], caller);
+  }
+
+  /**
+   * Filter for paginated memory_entries queries that hides what the caller
+   * may not read (see memoryListFilter). Hiding by rule is audited once.
+   */
+  async listFilter(organizationId: string, caller: AccessCaller): Promise<string | null> {
+    const visibility = await this.getVisibility(organizationId, caller);
+
+    if (!isEmptyVisibility(visibility)) {
+      this.recordDecisions(organizationId, caller, [{
+        access_type: 'list',
+        success: true,
+        reason: 'denied_by_rule',
+        rule_id: null,
+        metadata: {
+          hidden_memory_ids: [...visibility.credentialMemoryIds, ...visibility.userMemoryIds],
+          hidden_topic_ids: [...visibility.credentialTopicIds, ...visibility.userTopicIds]
+        }
+      }]);
+    }
+
+    return memoryListFilter(visibility, caller);
+  }
+
+  /**
+   * Drop items the caller may not read, auditing each one removed
+   */
+  async filterVisible<T extends AccessSubject>(
+    items: T[],
+    organizationId: string,
+    caller: AccessCaller,
+    source: 'list' | 'search'
+  ): Promise<T[]> {
+    if (items.length === 0) return items;
+
+    const visibility = await this.getVisibility(organizationId, caller);
+    if (isEmptyVisibility(visibility)) return items;
+
+    const hidden = items.filter((item) => isHiddenByVisibility(visibility, item));
+    if (hidden.length > 0) {
+      this.recordDecisions(organizationId, caller, hidden.map((item) => ({
+        memory_id: item.id,
+        access_type: source,
+        success: false,
+        reason: 'denied_by_rule',
+        rule_id: null
+      })));
+    }
+
+    return items.filter((item) => !hidden.includes(item));
+  }
+
+  async listAuditLog(
+    organizationId: string,
+    memoryId: string,
+    query: ListAccessAuditQuery
+  ): Promise<{ entries: AccessAuditEntry[]; total: number }> {
+    const { data, count, error } = await this.supabase
+      .from('memory_access_logs')
+      .select('*', { count: 'exact' })
+      .eq('organization_id', organizationId)
+      .eq('memory_id', memoryId)
+      .order('created_at', { ascending: false })
+      .range(query.offset, query.offset + query.limit - 1);
+
+    if (error) {
+      logger.error('Failed to list access audit log', { error, organizationId, memoryId });
+      throw new InternalServerError('Failed to list access audit log');
+    }
+
+    return { entries: data || [], total: count ?? 0 };
+  }
+
+  /**
+   * Audit writes never block or fail the request they describe
+   */
+  private recordDecisions(
+    organizationId: string,
+    caller: AccessCaller,
+    entries: Array<{
+      memory_id?: string;
+      topic_id?: string;
+      access_type: AccessAuditEntry['access_type'];
+      success: boolean;
+      reason: string | null;
+      rule_id: string | null;
+      metadata?: Record<string, unknown>;
+    }>
+  ): void {
+    const rows = entries.map((entry) => ({
+      organization_id: organizationId,
+      memory_id: entry.memory_id ?? null,
+      topic_id: entry.topic_id ?? null,
+      user_id: caller.userId,
+      app_id: caller.appId,
+      api_key_id: caller.apiKeyId,
+      access_type: entry.access_type,
+      success: entry.success,
+      reason: entry.reason,
+      rule_id: entry.rule_id,
+      metadata: entry.metadata ?? {}
+    }));
+
+    void Promise.resolve(this.supabase.from('memory_access_logs').insert(rows))
+      .then(({ error }) => {
+        if (error) {
+          logger.warn('Failed to record access audit entries', { error, count: rows.length });
+        }
+      })
+      .catch((error: unknown) => {
+        logger.warn('Failed to record access audit entries', { error, count: rows.length });
+      });
+  }
+}
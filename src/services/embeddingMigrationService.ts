@@ -0,0 +1,420 @@
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+
+import { config } from '@/config/environment';
+import { logger, logPerformance } from '@/utils/logger';
+import {
+  ConflictError,
+  InternalServerError,
+  NotFoundError,
+  ValidationError
+} from '@/middleware/errorHandler';
+import {
+  EmbeddingProfile,
+  EmbeddingProvider,
+  embeddingProfileId,
+  getEmbeddingRegistry,
+  profileOf,
+  sameEmbeddingProfile
+} from '@/services/embeddingProviders';
+import { getOrganizationEmbeddingProvider } from '@/services/organizationResolver';
+import {
+  EmbeddingMigration,
+  EmbeddingMigrationPlan,
+  OPEN_MIGRATION_STATUSES,
+  StartEmbeddingMigrationRequest
+} from '@/types/embeddingMigration';
+
+const UNIQUE_VIOLATION = '23505';
+
+/** memory_entries.embedding is vector(1536); other sizes cannot be stored */
+export const STORED_EMBEDDING_DIMENSIONS = 1536;
+
+/** A running job whose heartbeat is older than this is treated as orphaned */
+export const MIGRATION_HEARTBEAT_TIMEOUT_MS = 5 * 60 * 1000;
+
+const quoteFilterValue = (value: string | number): string =>
+  `"${String(value).replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+
+/**
+ * PostgREST `or` filter matching memories that need (re-)embedding for a
+ * profile: no vector, no recorded profile, or a different one.
+ */
+export function staleProfileFilter(profile: EmbeddingProfile): string {
+  return [
+    'embedding.is.null',
+    'embedding_provider.is.null',
+    `embedding_provider.neq.${quoteFilterValue(profile.provider)}`,
+    `embedding_model.neq.${quoteFilterValue(profile.model)}`,
+    `embedding_dimensions.neq.${profile.dimensions}`
+  ].join(',');
+}
+
+/**
+ * Whether a migration may be resumed: paused and failed jobs always, and
+ * running jobs whose worker has stopped sending heartbeats (process restart).
+ */
+export function isResumable(migration: Pick<EmbeddingMigration, 'status' | 'heartbeat_at' | 'updated_at'>, now: number = Date.now()): boolean {
+  if (migration.status === 'paused' || migration.status === 'failed') return true;
+  if (migration.status !== 'running') return false;
+
+  const lastSeen = Date.parse(migration.heartbeat_at ?? migration.updated_at);
+  return Number.isNaN(lastSeen) || now - lastSeen > MIGRATION_HEARTBEAT_TIMEOUT_MS;
+}
+
+const sleep = (ms: number): Promise<void> => new Promise((resolve) => setTimeout(resolve, ms));
+
+const targetProfileOf = (migration: EmbeddingMigration): EmbeddingProfile => ({
+  provider: migration.target_provider as EmbeddingProfile['provider'],
+  model: migration.target_model,
+  dimensions: migration.target_dimensions
+});
+
+/**
+ * Re-embeds memories whose stored embedding profile differs from the
+ * organization's active one. Jobs run in the API process in throttled
+ * batches and persist their cursor after every batch, so a paused, failed or
+ * interrupted job resumes where it stopped.
+ */
+export class EmbeddingMigrationService {
+  private supabase: SupabaseClient;
+  /** Migration ids with a batch loop in this process */
+  private readonly workers = new Set<string>();
+
+  constructor() {
+    this.supabase = createClient(config.SUPABASE_URL, config.SUPABASE_SERVICE_KEY);
+  }
+
+  /**
+   * Provider new writes use for the organization. Read without the
+   * MemoryService cache so a just-changed selection is picked up.
+   */
+  private async activeProvider(organizationId: string): Promise<EmbeddingProvider> {
+    return getEmbeddingRegistry().resolve(await getOrganizationEmbeddingProvider(organizationId));
+  }
+
+  /**
+   * Count memories the active profile would re-embed, plus any open job
+   */
+  async planMigration(organizationId: string): Promise<EmbeddingMigrationPlan> {
+    const target = profileOf(await this.activeProvider(organizationId));
+
+    const { count, error } = await this.supabase
+      .from('memory_entries')
+      .select('id', { count: 'exact', head: true })
+      .eq('organization_id', organizationId)
+      .or(staleProfileFilter(target));
+
+    if (error) {
+      logger.error('Failed to count stale embeddings', { error, organizationId });
+      throw new InternalServerError('Failed to plan embedding migration');
+    }
+
+    return {
+      profile_id: embeddingProfileId(target),
+      target,
+      stale_memories: count ?? 0,
+      open_migration: await this.getOpenMigration(organizationId)
+    };
+  }
+
+  /**
+   * Start re-embedding stale memories towards the active profile. The batch
+   * loop runs in the background; the returned row reflects the initial state.
+   */
+  async startMigration(
+    organizationId: string,
+    userId: string,
+    options: Pick<StartEmbeddingMigrationRequest, 'batch_size' | 'delay_ms'>
+  ): Promise<EmbeddingMigration> {
+    const plan = await this.planMigration(organizationId);
+
+    if (plan.open_migration) {
+      throw new ConflictError(`Embedding migration ${plan.open_migration.id} is already ${plan.open_migration.status}`);
+    }
+    if (plan.target.dimensions !== STORED_EMBEDDING_DIMENSIONS) {
+      throw new ValidationError(
+        `${embeddingProfileId(plan.target)} produces ${plan.target.dimensions}-dimension vectors; ` +
+        `memory_entries stores ${STORED_EMBEDDING_DIMENSIONS}`
+      );
+    }
+
+    const now = new Date().toISOString();
+    const { data: migration, error } = await this.supabase
+      .from('embedding_migrations')
+      .insert({
+        organization_id: organizationId,
+        status: plan.stale_memories > 0 ? 'running' : 'completed',
+        target_provider: plan.target.provider,
+        target_model: plan.target.model,
+        target_dimensions: plan.target.dimensions,
+        total: plan.stale_memories,
+        batch_size: options.batch_size,
+        delay_ms: options.delay_ms,
+        started_by: userId,
+        heartbeat_at: now,
+        completed_at: plan.stale_memories > 0 ? null : now
+      })
+      .select()
+      .single();
+
+    if (error) {
+      if (error.code === UNIQUE_VIOLATION) {
+        throw new ConflictError('An embedding migration is already open for this organization');
+      }
+      logger.error('Failed to create embedding migration', { error, organizationId });
+      throw new InternalServerError('Failed to start embedding migration');
+    }
+
+    logger.info('Embedding migration started', {
+      migrationId: migration.id,
+      organizationId,
+      profile: plan.profile_id,
+      total: plan.stale_memories
+    });
+
+    if (migration.status === 'running') {
+      this.spawn(migration.id);
+    }
+    return migration;
+  }
+
+  async listMigrations(organizationId: string, limit = 20): Promise<EmbeddingMigration[]> {
+    const { data, error } = await this.supabase
+      .from('embedding_migrations')
+      .select('*')
+      .eq('organization_id', organizationId)
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      logger.error('Failed to list embedding migrations', { error, organizationId });
+      throw new InternalServerError('Failed to list embedding migrations');
+    }
+
+    return data || [];
+  }
+
+  async getMigration(id: string, organizationId: string): Promise<EmbeddingMigration | null> {
+    const { data, error } = await this.supabase
+      .from('embedding_migrations')
+      .select('*')
+      .eq('id', id)
+      .eq('organization_id', organizationId)
+      .single();
+
+    if (error) {
+      if (error.code === 'PGRST116') { // Not found
+        return null;
+      }
+      logger.error('Failed to get embedding migration', { error, id, organizationId });
+      throw new InternalServerError('Failed to retrieve embedding migration');
+    }
+
+    return data;
+  }
+
+  private async getOpenMigration(organizationId: string): Promise<EmbeddingMigration | null> {
+    const { data, error } = await this.supabase
+      .from('embedding_migrations')
+      .select('*')
+      .eq('organization_id', organizationId)
+      .in('status', [...OPEN_MIGRATION_STATUSES])
+      .maybeSingle();
+
+    if (error) {
+      logger.error('Failed to read open embedding migration', { error, organizationId });
+      throw new InternalServerError('Failed to read embedding migration');
+    }
+
+    return data;
+  }
+
+  /**
+   * Stop a running job after its current batch
+   */
+  async pauseMigration(id: string, organizationId: string): Promise<EmbeddingMigration> {
+    const migration = await this.requireMigration(id, organizationId);
+    if (migration.status !== 'running') {
+      throw new ConflictError(`Cannot pause a ${migration.status} migration`);
+    }
+    return this.updateMigration(id, { status: 'paused' });
+  }
+
+  /**
+   * Continue a paused, failed or orphaned job from its cursor
+   */
+  async resumeMigration(id: string, organizationId: string): Promise<EmbeddingMigration> {
+    const migration = await this.requireMigration(id, organizationId);
+    if (this.workers.has(id) || !isResumable(migration)) {
+      throw new ConflictError(`Cannot resume a ${migration.status} migration`);
+    }
+
+    const active = profileOf(await this.activeProvider(organizationId));
+    if (!sameEmbeddingProfile(active, targetProfileOf(migration))) {
+      throw new ConflictError(
+        `The active embedding profile is now ${embeddingProfileId(active)}; cancel this migration and start a new one`
+      );
+    }
+
+    const resumed = await this.updateMigration(id, {
+      status: 'running',
+      last_error: null,
+      heartbeat_at: new Date().toISOString()
+    });
+    this.spawn(id);
+    return resumed;
+  }
+
+  async cancelMigration(id: string, organizationId: string): Promise<EmbeddingMigration> {
+    const migration = await this.requireMigration(id, organizationId);
+    if (!OPEN_MIGRATION_STATUSES.includes(migration.status) && migration.status !== 'failed') {
+      throw new ConflictError(`Cannot cancel a ${migration.status} migration`);
+    }
+    return this.updateMigration(id, { status: 'cancelled', completed_at: new Date().toISOString() });
+  }
+
+  private async requireMigration(id: string, organizationId: string): Promise<EmbeddingMigration> {
+    const migration = await this.getMigration(id, organizationId);
+    if (!migration) {
+      throw new NotFoundError('Embedding migration not found');
+    }
+    return migration;
+  }
+
+  private async updateMigration(id: string, changes: Partial<EmbeddingMigration>): Promise<EmbeddingMigration> {
+    const { data, error } = await this.supabase
+      .from('embedding_migrations')
+      .update({ ...changes, updated_at: new Date().toISOString() })
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) {
+      logger.error('Failed to update embedding migration', { error, id, changes });
+      throw new InternalServerError('Failed to update embedding migration');
+    }
+
+    return data;
+  }
+
+  private spawn(id: string): void {
+    if (this.workers.has(id)) return;
+    this.workers.add(id);
+
+    this.runMigration(id)
+      .catch(async (error: unknown) => {
+        logger.error('Embedding migration aborted', { error, migrationId: id });
+        await this.updateMigration(id, {
+          status: 'failed',
+          last_error: error instanceof Error ? error.message : 'Unknown error'
+        }).catch(() => undefined);
+      })
+      .finally(() => this.workers.delete(id));
+  }
+
+  /**
+   * Batch loop. Re-reads the job before every batch so pause/cancel take
+   * effect between batches; a provider failure marks the job failed without
+   * advancing the cursor, so resuming retries the same batch.
+   */
+  private async runMigration(id: string): Promise<void> {
+    const startTime = Date.now();
+
+    for (;;) {
+      const { data: migration, error } = await this.supabase
+        .from('embedding_migrations')
+        .select('*')
+        .eq('id', id)
+        .single();
+
+      if (error || !migration) {
+        throw new InternalServerError('Embedding migration disappeared');
+      }
+      const job = migration as EmbeddingMigration;
+      if (job.status !== 'running') return;
+
+      const target = targetProfileOf(job);
+      const provider = getEmbeddingRegistry().resolve(target.provider);
+      if (!sameEmbeddingProfile(provider, target)) {
+        await this.updateMigration(id, {
+          status: 'failed',
+          last_error: `Provider for ${embeddingProfileId(target)} is no longer available`
+        });
+        return;
+      }
+
+      let batchQuery = this.supabase
+        .from('memory_entries')
+        .select('id, content')
+        .eq('organization_id', job.organization_id)
+        .or(staleProfileFilter(target))
+        .order('id', { ascending: true })
+        .limit(job.batch_size);
+      if (job.cursor_id) {
+        batchQuery = batchQuery.gt('id', job.cursor_id);
+      }
+
+      const { data: rows, error: batchError } = await batchQuery;
+      if (batchError) {
+        logger.error('Failed to read embedding migration batch', { error: batchError, migrationId: id });
+        throw new InternalServerError('Failed to read memories to re-embed');
+      }
+
+      const batch = (rows || []) as Array<{ id: string; content: string | null }>;
+      if (batch.length === 0) {
+        await this.updateMigration(id, { status: 'completed', completed_at: new Date().toISOString() });
+        logPerformance('embedding_migration', Date.now() - startTime, {
+          migration_id: id,
+          processed: job.processed,
+          failed: job.failed
+        });
+        return;
+      }
+
+      let embeddings: number[][];
+      try {
+        ({ embeddings } = await provider.embed(batch.map((row) => row.content ?? '')));
+      } catch (embedError) {
+        logger.warn('Embedding migration batch failed', { error: embedError, migrationId: id });
+        await this.updateMigration(id, {
+          status: 'failed',
+          last_error: embedError instanceof Error ? embedError.message : 'Embedding provider failed'
+        });
+        return;
+      }
+
+      let processed = 0;
+      let failed = 0;
+      for (const [index, row] of batch.entries()) {
+        // Profile columns only: no updated_at bump and no version snapshot
+        const { error: writeError } = await this.supabase
+          .from('memory_entries')
+          .update({
+            embedding: embeddings[index],
+            embedding_provider: target.provider,
+            embedding_model: target.model,
+            embedding_dimensions: target.dimensions
+          })
+          .eq('id', row.id);
+
+        if (writeError) {
+          failed += 1;
+          logger.warn('Failed to store re-embedded memory', { error: writeError, migrationId: id, memoryId: row.id });
+        } else {
+          processed += 1;
+        }
+      }
+
+      await this.updateMigration(id, {
+        processed: job.processed + processed,
+        failed: job.failed + failed,
+        cursor_id: batch[batch.length - 1]?.id ?? job.cursor_id,
+        heartbeat_at: new Date().toISOString()
+      });
+
+      if (job.delay_ms > 0) {
+        await sleep(job.delay_ms);
+      }
+    }
+  }
+}
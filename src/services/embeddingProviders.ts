@@ -0,0 +1,464 @@
+/**
+ * Shared embedding provider registry.
+ *
+ * Used by memoryService.ts, memoryService-enhanced.ts and apps/mcp-core so
+ * every write path embeds with the same providers and records the same
+ * provider/model/dimensions profile on each memory. Kept free of `@/`
+ * imports and app config so mcp-core can load it through a relative path.
+ */
+
+import crypto from 'crypto';
+import OpenAI from 'openai';
+
+export const EMBEDDING_PROVIDER_NAMES = ['openai', 'voyage', 'azure', 'local'] as const;
+
+export type EmbeddingProviderName = typeof EMBEDDING_PROVIDER_NAMES[number];
+
+/**
+ * Identifies the vector space an embedding lives in. Vectors from different
+ * profiles are not comparable.
+ */
+export interface EmbeddingProfile {
+  provider: EmbeddingProviderName;
+  model: string;
+  dimensions: number;
+}
+
+export interface EmbeddingBatch extends EmbeddingProfile {
+  embeddings: number[][];
+  tokensUsed: number;
+}
+
+export interface EmbeddingProvider extends EmbeddingProfile {
+  readonly provider: EmbeddingProviderName;
+  isAvailable(): boolean;
+  embed(texts: string[]): Promise<EmbeddingBatch>;
+}
+
+export class EmbeddingProviderError extends Error {
+  constructor(
+    message: string,
+    public readonly provider: EmbeddingProviderName,
+    public override readonly cause?: unknown
+  ) {
+    super(message);
+    this.name = 'EmbeddingProviderError';
+  }
+}
+
+const MAX_INPUT_CHARS = 8000;
+
+export const prepareEmbeddingInput = (text: string): string => text.substring(0, MAX_INPUT_CHARS);
+
+export const approximateTokens = (text: string): number =>
+  text ? Math.max(1, Math.ceil(text.length / 4)) : 0;
+
+const sumTokens = (texts: string[]): number =>
+  texts.reduce((total, text) => total + approximateTokens(text), 0);
+
+export const isEmbeddingProviderName = (value: unknown): value is EmbeddingProviderName =>
+  typeof value === 'string' && (EMBEDDING_PROVIDER_NAMES as readonly string[]).includes(value);
+
+export const profileOf = (source: EmbeddingProfile): EmbeddingProfile => ({
+  provider: source.provider,
+  model: source.model,
+  dimensions: source.dimensions
+});
+
+export const sameEmbeddingProfile = (a: EmbeddingProfile, b: EmbeddingProfile): boolean =>
+  a.provider === b.provider && a.model === b.model && a.dimensions === b.dimensions;
+
+/**
+ * Stable identifier for a profile ("openai:text-embedding-3-small:1536"), the
+ * value clients such as recall-forge compare as `embeddingProfileId`.
+ */
+export const embeddingProfileId = (profile: EmbeddingProfile): string =>
+  `${profile.provider}:${profile.model}:${profile.dimensions}`;
+
+export class OpenAIEmbeddingProvider implements EmbeddingProvider {
+  readonly provider = 'openai' as const;
+  private readonly client: OpenAI | null;
+
+  constructor(
+    apiKey: string | undefined,
+    readonly model: string = 'text-embedding-3-small',
+    readonly dimensions: number = 1536
+  ) {
+    this.client = apiKey ? new OpenAI({ apiKey }) : null;
+  }
+
+  isAvailable(): boolean {
+    return Boolean(this.client);
+  }
+
+  async embed(texts: string[]): Promise<EmbeddingBatch> {
+    if (!this.client) {
+      throw new EmbeddingProviderError('OpenAI client is not configured', this.provider);
+    }
+
+    const inputs = texts.map(prepareEmbeddingInput);
+    let response: Awaited<ReturnType<OpenAI['embeddings']['create']>>;
+    try {
+      response = await this.client.embeddings.create({ model: this.model, input: inputs });
+    } catch (error) {
+      throw new EmbeddingProviderError('OpenAI embedding request failed', this.provider, error);
+    }
+
+    const embeddings = [...(response.data ?? [])]
+      .sort((a, b) => (a.index ?? 0) - (b.index ?? 0))
+      .map((item) => item.embedding);
+
+    if (embeddings.length !== texts.length || embeddings.some((embedding) => !embedding?.length)) {
+      throw new EmbeddingProviderError('OpenAI returned an empty embedding', this.provider);
+    }
+
+    return {
+      ...profileOf(this),
+      embeddings,
+      tokensUsed: response.usage?.total_tokens ?? sumTokens(inputs)
+    };
+  }
+}
+
+export class VoyageEmbeddingProvider implements EmbeddingProvider {
+  readonly provider = 'voyage' as const;
+
+  constructor(
+    private readonly apiKey: string | undefined,
+    readonly model: string = 'voyage-4',
+    readonly dimensions: number = 1024,
+    private readonly url: string = 'https://api.voyageai.com/v1/embeddings'
+  ) {}
+
+  isAvailable(): boolean {
+    return Boolean(this.apiKey);
+  }
+
+  async embed(texts: string[]): Promise<EmbeddingBatch> {
+    if (!this.apiKey) {
+      throw new EmbeddingProviderError('VOYAGE_API_KEY not configured', this.provider);
+    }
+
+    const inputs = texts.map(prepareEmbeddingInput);
+    const response = await fetch(this.url, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${this.apiKey}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        input: inputs,
+        model: this.model,
+        input_type: 'document',
+      }),
+    }).catch((error: unknown) => {
+      throw new EmbeddingProviderError('Voyage network error', this.provider, error);
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new EmbeddingProviderError(
+        `Voyage API error (${response.status}): ${JSON.stringify(errorData)}`,
+        this.provider
+      );
+    }
+
+    const data = await response.json() as {
+      data?: Array<{ embedding: number[] }>;
+      usage?: { total_tokens?: number };
+    };
+    const embeddings = (data.data ?? []).map((item) => item.embedding);
+
+    if (embeddings.length !== texts.length) {
+      throw new EmbeddingProviderError('Voyage returned an unexpected number of embeddings', this.provider);
+    }
+
+    return {
+      ...profileOf(this),
+      embeddings,
+      tokensUsed: data.usage?.total_tokens ?? sumTokens(inputs)
+    };
+  }
+}
+
+export interface AzureEmbeddingOptions {
+  endpoint?: string | undefined;
+  apiKey?: string | undefined;
+  deployment?: string | undefined;
+  apiVersion?: string | undefined;
+  dimensions?: number | undefined;
+}
+
+export class AzureOpenAIEmbeddingProvider implements EmbeddingProvider {
+  readonly provider = 'azure' as const;
+  readonly model: string;
+  readonly dimensions: number;
+
+  constructor(private readonly options: AzureEmbeddingOptions) {
+    this.model = options.deployment ?? 'azure-embedding';
+    this.dimensions = options.dimensions ?? 1536;
+  }
+
+  isAvailable(): boolean {
+    return Boolean(this.options.endpoint && this.options.apiKey && this.options.deployment);
+  }
+
+  async embed(texts: string[]): Promise<EmbeddingBatch> {
+    const { endpoint, apiKey, deployment, apiVersion = '2024-02-01' } = this.options;
+    if (!endpoint || !apiKey || !deployment) {
+      throw new EmbeddingProviderError('Azure OpenAI is not properly configured', this.provider);
+    }
+
+    const inputs = texts.map(prepareEmbeddingInput);
+    const url = `${endpoint.replace(/\/+$/, '')}/openai/deployments/${deployment}/embeddings?api-version=${apiVersion}`;
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'api-key': apiKey
+      },
+      body: JSON.stringify({ input: inputs })
+    }).catch((error: unknown) => {
+      throw new EmbeddingProviderError('Azure OpenAI network error', this.provider, error);
+    });
+
+    if (!response.ok) {
+      const errorBody = await response.text().catch(() => undefined);
+      throw new EmbeddingProviderError(`Azure OpenAI returned HTTP ${response.status}`, this.provider, errorBody);
+    }
+
+    const json = await response.json() as {
+      data?: Array<{ embedding: number[]; index?: number }>;
+      usage?: { total_tokens?: number };
+    };
+    const embeddings = [...(json.data ?? [])]
+      .sort((a, b) => (a.index ?? 0) - (b.index ?? 0))
+      .map((item) => item.embedding);
+
+    if (embeddings.length !== texts.length || embeddings.some((embedding) => !embedding?.length)) {
+      throw new EmbeddingProviderError('Azure OpenAI returned an empty embedding', this.provider, json);
+    }
+
+    return {
+      ...profileOf(this),
+      embeddings,
+      tokensUsed: json.usage?.total_tokens ?? sumTokens(inputs)
+    };
+  }
+}
+
+/**
+ * Offline, deterministic provider. Hashes word unigrams and bigrams into a
+ * fixed number of signed buckets and L2-normalizes the result, so identical
+ * text always yields identical vectors and texts sharing words score higher
+ * than unrelated ones. Not a semantic model; intended for development, tests
+ * and air-gapped installs.
+ */
+export class LocalEmbeddingProvider implements EmbeddingProvider {
+  readonly provider = 'local' as const;
+  readonly model = 'local-hash-v1';
+
+  constructor(readonly dimensions: number = 1536) {}
+
+  isAvailable(): boolean {
+    return true;
+  }
+
+  async embed(texts: string[]): Promise<EmbeddingBatch> {
+    const inputs = texts.map(prepareEmbeddingInput);
+    return {
+      ...profileOf(this),
+      embeddings: inputs.map((text) => this.vectorize(text)),
+      tokensUsed: sumTokens(inputs)
+    };
+  }
+
+  private vectorize(text: string): number[] {
+    const vector = new Array<number>(this.dimensions).fill(0);
+    const tokens = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+
+    const addFeature = (feature: string, weight: number) => {
+      const digest = crypto.createHash('sha256').update(feature).digest();
+      const index = digest.readUInt32BE(0) % this.dimensions;
+      const sign = (digest[4] ?? 0) & 1 ? 1 : -1;
+      vector[index] = (vector[index] ?? 0) + sign * weight;
+    };
+
+    tokens.forEach((token, position) => {
+      addFeature(`u:${token}`, 1);
+      const next = tokens[position + 1];
+      if (next) addFeature(`b:${token} ${next}`, 0.5);
+    });
+
+    if (tokens.length === 0) {
+      // Punctuation-only or empty input still gets a stable, non-zero vector
+      addFeature(`raw:${text}`, 1);
+    }
+
+    const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+    return norm > 0 ? vector.map((value) => value / norm) : vector;
+  }
+}
+
+export class EmbeddingProviderRegistry {
+  private readonly providers = new Map<EmbeddingProviderName, EmbeddingProvider>();
+
+  constructor(private readonly defaultName: EmbeddingProviderName = 'openai') {}
+
+  register(provider: EmbeddingProvider): this {
+    this.providers.set(provider.provider, provider);
+    return this;
+  }
+
+  get(name: EmbeddingProviderName): EmbeddingProvider | undefined {
+    return this.providers.get(name);
+  }
+
+  list(): EmbeddingProvider[] {
+    return [...this.providers.values()];
+  }
+
+  available(): EmbeddingProvider[] {
+    return this.list().filter((provider) => provider.isAvailable());
+  }
+
+  /**
+   * The configured default, or the local provider when the default is not
+   * registered or not configured.
+   */
+  getDefault(): EmbeddingProvider {
+    const configured = this.providers.get(this.defaultName);
+    if (configured?.isAvailable()) return configured;
+
+    const local = this.providers.get('local');
+    if (local) return local;
+
+    throw new EmbeddingProviderError('No embedding provider is available', this.defaultName);
+  }
+
+  /**
+   * Provider for an explicit selection (e.g. an organization setting),
+   * falling back to the default when the selection is unknown or unavailable.
+   */
+  resolve(name?: string | null): EmbeddingProvider {
+    if (isEmbeddingProviderName(name)) {
+      const selected = this.providers.get(name);
+      if (selected?.isAvailable()) return selected;
+    }
+    return this.getDefault();
+  }
+}
+
+interface ProviderCredentials {
+  apiKey?: string | undefined;
+  model?: string | undefined;
+  dimensions?: number | undefined;
+}
+
+export interface EmbeddingRegistryOptions {
+  defaultProvider?: string;
+  openai?: ProviderCredentials;
+  voyage?: ProviderCredentials;
+  azure?: AzureEmbeddingOptions;
+  local?: { dimensions?: number | undefined };
+}
+
+export function createEmbeddingRegistry(options: EmbeddingRegistryOptions = {}): EmbeddingProviderRegistry {
+  const defaultName = isEmbeddingProviderName(options.defaultProvider?.toLowerCase())
+    ? options.defaultProvider.toLowerCase() as EmbeddingProviderName
+    : 'openai';
+
+  return new EmbeddingProviderRegistry(defaultName)
+    .register(new OpenAIEmbeddingProvider(options.openai?.apiKey, options.openai?.model, options.openai?.dimensions))
+    .register(new VoyageEmbeddingProvider(options.voyage?.apiKey, options.voyage?.model, options.voyage?.dimensions))
+    .register(new AzureOpenAIEmbeddingProvider(options.azure ?? {}))
+    .register(new LocalEmbeddingProvider(options.local?.dimensions));
+}
+
+const optionalNumber = (value: string | undefined): number | undefined => {
+  const parsed = value ? Number(value) : NaN;
+  return Number.isInteger(parsed) && parsed > 0 ? parsed : undefined;
+};
+
+/**
+ * Registry options from the API's environment variables.
+ */
+export function embeddingRegistryOptionsFromEnv(env: NodeJS.ProcessEnv = process.env): EmbeddingRegistryOptions {
+  const options: EmbeddingRegistryOptions = {
+    openai: { apiKey: env.OPENAI_API_KEY, model: env.OPENAI_MODEL || 'text-embedding-3-small' },
+    voyage: { apiKey: env.VOYAGE_API_KEY, model: env.VOYAGE_MODEL || 'voyage-4' },
+    azure: {
+      endpoint: env.AZURE_OPENAI_ENDPOINT,
+      apiKey: env.AZURE_OPENAI_KEY,
+      deployment: env.AZURE_OPENAI_DEPLOYMENT,
+      apiVersion: env.AZURE_OPENAI_API_VERSION
+    },
+    local: { dimensions: optionalNumber(env.EMBEDDING_LOCAL_DIMENSION) }
+  };
+  if (env.EMBEDDING_PROVIDER) options.defaultProvider = env.EMBEDDING_PROVIDER;
+  return options;
+}
+
+let sharedRegistry: EmbeddingProviderRegistry | null = null;
+
+/**
+ * Process-wide registry built from the environment on first use.
+ */
+export function getEmbeddingRegistry(): EmbeddingProviderRegistry {
+  if (!sharedRegistry) {
+    sharedRegistry = createEmbeddingRegistry(embeddingRegistryOptionsFromEnv());
+  }
+  return sharedRegistry;
+}
+
+/** Replace the shared registry (tests, or hosts that configure providers themselves) */
+export function setEmbeddingRegistry(registry: EmbeddingProviderRegistry | null): void {
+  sharedRegistry = registry;
+}
+
+/**
+ * Per-organization provider selection with a short-lived cache. The lookup
+ * returns the organization's chosen provider name (or null for the default);
+ * lookup failures fall back to the default rather than failing the write.
+ */
+export class OrganizationEmbeddingSelector {
+  private readonly cache = new Map<string, { name: EmbeddingProviderName | null; expiresAt: number }>();
+
+  constructor(
+    private readonly registry: EmbeddingProviderRegistry,
+    private readonly lookup: (organizationId: string) => Promise<string | null>,
+    private readonly ttlMs: number = 60_000
+  ) {}
+
+  async forOrganization(organizationId?: string | null): Promise<EmbeddingProvider> {
+    return this.registry.resolve(await this.selection(organizationId));
+  }
+
+  /**
+   * The organization's explicit provider choice, or null when it uses the
+   * deployment default.
+   */
+  async selection(organizationId?: string | null): Promise<EmbeddingProviderName | null> {
+    if (!organizationId) return null;
+
+    const cached = this.cache.get(organizationId);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.name;
+    }
+
+    let name: string | null = null;
+    try {
+      name = await this.lookup(organizationId);
+    } catch {
+      name = null;
+    }
+
+    const selected = isEmbeddingProviderName(name) ? name : null;
+    this.cache.set(organizationId, { name: selected, expiresAt: Date.now() + this.ttlMs });
+    return selected;
+  }
+
+  invalidate(organizationId: string): void {
+    this.cache.delete(organizationId);
+  }
+}
@@ -73,3 +73,14 @@ export function canReadIntelligenceSubject(
 
   return subjectId === organizationId || recordOrganizationId === organizationId;
 }
+
+/**
+ * Visibility is not edit rights: only the subject themselves or an org admin
+ * may change intelligence stored for a subject.
+ */
+export function canWriteIntelligenceSubject(
+  user: AuthenticatedUser | undefined,
+  boundary: IntelligenceSubjectBoundary,
+): boolean {
+  return boundary.personalSubject || (user?.role === 'admin' && Boolean(boundary.organizationId));
+}
@@ -2,6 +2,16 @@ import { createClient, SupabaseClient } from '@supabase/supabase-js';
 import { config } from '@/config/environment';
 import { logger } from '@/utils/logger';
 import { MetricsCollector } from '@/utils/metrics';
+import { ConflictError, ValidationError } from '@/middleware/errorHandler';
+import {
+  DeterministicReasoningClient,
+  InferredConclusion,
+  OpenAIReasoningClient,
+  ReasoningJob,
+  ReasoningLlmClient,
+  ReasoningRunner,
+  SupabaseReasoningStore,
+} from '@/services/reasoningEngine';
 
 // ---------------------------------------------------------------------------
 // Typed Errors
@@ -36,39 +46,41 @@ export class TimeoutError extends Error {
 // Types
 // ---------------------------------------------------------------------------
 
-export interface InferredConclusion {
-  id: string;
-  subject_id: string;
-  organization_id: string | null;
-  conclusion_type: 'explicit' | 'deductive' | 'inductive' | 'abductive';
-  content: string;
-  confidence: number;
-  evidence_memory_ids: string[];
-  scope: string | null;
-  freshness: string;
-  superseded_by: string | null;
-  contradiction_group_id: string | null;
-  created_at: string;
-  source_job_id: string | null;
+// Shared with the reasoning worker and the Edge Function
+export type { InferredConclusion, ReasoningJob } from '@/services/reasoningEngine';
+
+export interface ContradictionGroup {
+  contradiction_group_id: string;
+  conclusions: InferredConclusion[];
 }
 
-export interface ReasoningJob {
-  id: string;
-  subject_id: string;
-  organization_id: string | null;
-  source_memory_ids: string[];
-  status: 'pending' | 'running' | 'completed' | 'failed';
-  source_event: 'memory.create' | 'memory.update' | 'manual.flush' | 'reprocess';
-  pending_token_count: number;
-  created_at: string;
-  started_at: string | null;
-  completed_at: string | null;
-  error: string | null;
+export type ContradictionResolution =
+  | { action: 'accept'; winner_id: string; note?: string | undefined }
+  | { action: 'scope'; scopes: Record<string, string>; note?: string | undefined };
+
+const INVALID_PARAMETER = '22023';
+
+/**
+ * Group active conclusions by contradiction group, oldest group first
+ */
+export function groupContradictions(conclusions: InferredConclusion[]): ContradictionGroup[] {
+  const groups = new Map<string, InferredConclusion[]>();
+  for (const conclusion of conclusions) {
+    if (!conclusion.contradiction_group_id || conclusion.superseded_by) continue;
+    const members = groups.get(conclusion.contradiction_group_id) ?? [];
+    members.push(conclusion);
+    groups.set(conclusion.contradiction_group_id, members);
+  }
+  return [...groups].map(([contradiction_group_id, members]) => ({
+    contradiction_group_id,
+    conclusions: members,
+  }));
 }
 
 // ---------------------------------------------------------------------------
 // IntelligenceService — queries conclusions and jobs from Supabase;
-// flush delegates to the Edge Function via service role HTTP call.
+// flush delegates to the Edge Function via service role HTTP call, or runs
+// the reasoning pipeline in-process when REASONING_MODE=local.
 // ---------------------------------------------------------------------------
 
 export class IntelligenceService {
@@ -162,13 +174,154 @@ export class IntelligenceService {
   }
 
   /**
-   * Flush reasoning queue for a subject — calls the Edge Function.
-   * The Edge Function does the actual inference work.
+   * List unresolved contradiction groups for a subject. Every member of a
+   * group stays active until a person resolves it.
+   */
+  async listContradictions(opts: {
+    subject_id: string;
+    organization_id?: string;
+    limit?: number;
+  }): Promise<{ groups: ContradictionGroup[] }> {
+    const startTime = Date.now();
+
+    let query = this.supabase
+      .from('memory_inferred_conclusions')
+      .select('*')
+      .eq('subject_id', opts.subject_id)
+      .not('contradiction_group_id', 'is', null)
+      .is('superseded_by', null)
+      .order('created_at', { ascending: true })
+      .limit(500);
+
+    if (opts.organization_id) {
+      query = query.eq('organization_id', opts.organization_id);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      logger.error('listContradictions failed', { subject_id: opts.subject_id, error: error.message });
+      this.metrics.incrementCounter('intelligence.contradictions.list.error', {}, 1);
+      throw new DatabaseError(`listContradictions failed: ${error.message}`);
+    }
+
+    const groups = groupContradictions((data as InferredConclusion[]) ?? []).slice(0, opts.limit ?? 20);
+
+    this.metrics.incrementCounter('intelligence.contradictions.list.success', {}, 1);
+    this.metrics.recordDuration('intelligence.contradictions.list.duration', Date.now() - startTime, {});
+    logger.info('Listed contradiction groups', { subject_id: opts.subject_id, count: groups.length });
+
+    return { groups };
+  }
+
+  /**
+   * Resolve a contradiction group: accept one conclusion and supersede the
+   * rest, or keep all of them with a scope each. Later reasoning runs
+   * respect the decision. Returns null when the group has no unresolved
+   * members for the subject.
+   */
+  async resolveContradiction(opts: {
+    group_id: string;
+    subject_id: string;
+    organization_id?: string;
+    resolution: ContradictionResolution;
+    resolved_by?: string | undefined;
+  }): Promise<{ resolution_id: string; conclusions: InferredConclusion[] } | null> {
+    const { group_id, subject_id, resolution } = opts;
+    const members = await this.loadContradictionGroup(opts);
+    if (members.length === 0) return null;
+
+    const memberIds = new Set(members.map((conclusion) => conclusion.id));
+    if (resolution.action === 'accept' && !memberIds.has(resolution.winner_id)) {
+      throw new ValidationError(`Conclusion ${resolution.winner_id} is not in contradiction group ${group_id}`);
+    }
+    if (resolution.action === 'scope') {
+      const missing = members.filter((conclusion) => !resolution.scopes[conclusion.id]?.trim());
+      if (missing.length > 0) {
+        throw new ValidationError(`A scope is required for every conclusion in the group (missing: ${missing.map((c) => c.id).join(', ')})`);
+      }
+    }
+
+    const { data, error } = await this.supabase.rpc('resolve_contradiction_group', {
+      group_id_param: group_id,
+      subject_id_param: subject_id,
+      action_param: resolution.action,
+      organization_id_param: opts.organization_id ?? null,
+      winner_id_param: resolution.action === 'accept' ? resolution.winner_id : null,
+      scopes_param: resolution.action === 'scope' ? resolution.scopes : {},
+      note_param: resolution.note ?? null,
+      resolved_by_param: opts.resolved_by ?? null,
+    });
+
+    if (error) {
+      if (error.code === INVALID_PARAMETER) throw new ValidationError(error.message);
+      logger.error('resolveContradiction failed', { group_id, subject_id, error: error.message });
+      this.metrics.incrementCounter('intelligence.contradictions.resolve.error', {}, 1);
+      throw new DatabaseError(`resolveContradiction failed: ${error.message}`);
+    }
+
+    const updated = (data as InferredConclusion[]) ?? [];
+    const resolutionId = updated[0]?.resolution_id;
+    if (!resolutionId) {
+      throw new ConflictError(`Contradiction group ${group_id} was resolved concurrently`);
+    }
+
+    this.metrics.incrementCounter('intelligence.contradictions.resolve.success', { action: resolution.action }, 1);
+    logger.info('Resolved contradiction group', {
+      group_id,
+      subject_id,
+      action: resolution.action,
+      conclusions: updated.length,
+    });
+
+    return { resolution_id: resolutionId, conclusions: updated };
+  }
+
+  private async loadContradictionGroup(opts: {
+    group_id: string;
+    subject_id: string;
+    organization_id?: string;
+  }): Promise<InferredConclusion[]> {
+    let query = this.supabase
+      .from('memory_inferred_conclusions')
+      .select('*')
+      .eq('subject_id', opts.subject_id)
+      .eq('contradiction_group_id', opts.group_id)
+      .is('superseded_by', null);
+
+    if (opts.organization_id) {
+      query = query.eq('organization_id', opts.organization_id);
+    }
+
+    const { data, error } = await query;
+    if (error) {
+      logger.error('loadContradictionGroup failed', { group_id: opts.group_id, error: error.message });
+      throw new DatabaseError(`resolveContradiction failed: ${error.message}`);
+    }
+    return (data as InferredConclusion[]) ?? [];
+  }
+
+  /**
+   * Runner over this service's Supabase client and the configured LLM
+   */
+  createReasoningRunner(llm: ReasoningLlmClient = createReasoningLlmClient()): ReasoningRunner {
+    return new ReasoningRunner(new SupabaseReasoningStore(this.supabase), llm, {
+      batchSize: config.REASONING_BATCH_SIZE,
+    });
+  }
+
+  /**
+   * Flush reasoning queue for a subject — calls the Edge Function, which
+   * does the actual inference work, unless REASONING_MODE=local.
    * Uses AbortController with 30s timeout to prevent indefinite hangs.
    */
   async flushReasoningQueue(
     subject_id: string,
   ): Promise<{ flushed: boolean; job_ids: string[]; conclusion_count: number }> {
+    if (config.REASONING_MODE === 'local') {
+      return this.flushReasoningQueueLocally(subject_id);
+    }
+
     const startTime = Date.now();
     const controller = new AbortController();
     const timeout = setTimeout(() => controller.abort(), 30_000);
@@ -229,4 +382,90 @@ export class IntelligenceService {
       throw new ExternalServiceError(`flushReasoningQueue failed: ${message}`, 0, message);
     }
   }
+
+  /**
+   * Process the subject's pending jobs in this process
+   */
+  private async flushReasoningQueueLocally(
+    subject_id: string,
+  ): Promise<{ flushed: boolean; job_ids: string[]; conclusion_count: number }> {
+    const startTime = Date.now();
+    logger.info('flushReasoningQueue running locally', { subject_id });
+
+    try {
+      const result = await this.createReasoningRunner().runPending(subject_id);
+
+      this.metrics.incrementCounter('intelligence.flush.success', {}, 1);
+      this.metrics.recordDuration('intelligence.flush.duration', Date.now() - startTime, {});
+      if (result.failed_job_ids.length > 0) {
+        logger.warn('flushReasoningQueue: some jobs failed', { subject_id, failed: result.failed_job_ids });
+      }
+
+      return {
+        flushed: true,
+        job_ids: result.job_ids,
+        conclusion_count: result.conclusion_count,
+      };
+    } catch (err: unknown) {
+      const message = err instanceof Error ? err.message : String(err);
+      logger.error('flushReasoningQueue local run failed', { subject_id, error: message });
+      this.metrics.incrementCounter('intelligence.flush.error', {}, 1);
+      throw new DatabaseError(`flushReasoningQueue failed: ${message}`);
+    }
+  }
 }
+
+/**
+ * LLM client selected by REASONING_LLM; `deterministic` needs no model
+ */
+export const createReasoningLlmClient = (): ReasoningLlmClient =>
+  config.REASONING_LLM === 'deterministic'
+    ? new DeterministicReasoningClient()
+    : new OpenAIReasoningClient({ apiKey: config.OPENAI_API_KEY, model: config.REASONING_MODEL });
+
+let reasoningInterval: NodeJS.Timeout | null = null;
+
+/**
+ * Process pending reasoning jobs for every subject on an interval. The
+ * standalone worker passes `keepAlive` so the timer holds the process open.
+ */
+export const startReasoningWorker = (
+  runner: ReasoningRunner = new IntelligenceService().createReasoningRunner(),
+  { keepAlive = false }: { keepAlive?: boolean } = {},
+): void => {
+  if (reasoningInterval) return;
+
+  let running = false;
+  const tick = () => {
+    if (running) return;
+    running = true;
+
+    runner.runPending()
+      .then((result) => {
+        if (result.job_ids.length > 0 || result.failed_job_ids.length > 0) {
+          logger.info('Processed reasoning jobs', {
+            completed: result.job_ids.length,
+            failed: result.failed_job_ids.length,
+            conclusions: result.conclusion_count,
+          });
+        }
+      })
+      .catch((error: unknown) => logger.error('Reasoning worker poll failed', { error }))
+      .finally(() => {
+        running = false;
+      });
+  };
+
+  reasoningInterval = setInterval(tick, config.REASONING_POLL_INTERVAL_MS);
+  if (!keepAlive) reasoningInterval.unref();
+  tick();
+
+  logger.info('Reasoning worker started', { llm: config.REASONING_LLM, interval_ms: config.REASONING_POLL_INTERVAL_MS });
+};
+
+export const stopReasoningWorker = (): void => {
+  if (reasoningInterval) {
+    clearInterval(reasoningInterval);
+    reasoningInterval = null;
+  }
+};
@@ -0,0 +1,135 @@
+import type {
+  ContentDiffHunk,
+  MemoryVersionDiff,
+  VersionSnapshot
+} from '@/types/memory';
+
+/**
+ * Above this many LCS cells the content diff degrades to a whole-block
+ * replace. Keeps a 50k-char memory from pinning the event loop.
+ */
+const MAX_LCS_CELLS = 4_000_000;
+
+/**
+ * Line-level diff of two texts via longest common subsequence.
+ * Adjacent lines with the same op are collapsed into one hunk.
+ */
+export function diffLines(before: string, after: string): ContentDiffHunk[] {
+  const a = before.split('\n');
+  const b = after.split('\n');
+  const hunks: ContentDiffHunk[] = [];
+
+  const push = (op: ContentDiffHunk['op'], line: string) => {
+    const last = hunks[hunks.length - 1];
+    if (last && last.op === op) {
+      last.lines.push(line);
+    } else {
+      hunks.push({ op, lines: [line] });
+    }
+  };
+
+  if (before === after) {
+    return [{ op: 'equal', lines: a }];
+  }
+
+  if (a.length * b.length > MAX_LCS_CELLS) {
+    return [
+      { op: 'remove', lines: a },
+      { op: 'add', lines: b }
+    ];
+  }
+
+  // Flattened table: at(i, j) = LCS length of a[i..] and b[j..]
+  const width = b.length + 1;
+  const lcs = new Uint32Array((a.length + 1) * width);
+  const at = (i: number, j: number): number => lcs[i * width + j] ?? 0;
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i * width + j] = a[i] === b[j] ? at(i + 1, j + 1) + 1 : Math.max(at(i + 1, j), at(i, j + 1));
+    }
+  }
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    const left = a[i] ?? '';
+    const right = b[j] ?? '';
+    if (left === right) {
+      push('equal', left);
+      i++;
+      j++;
+    } else if (at(i + 1, j) >= at(i, j + 1)) {
+      push('remove', left);
+      i++;
+    } else {
+      push('add', right);
+      j++;
+    }
+  }
+  a.slice(i).forEach((line) => push('remove', line));
+  b.slice(j).forEach((line) => push('add', line));
+
+  return hunks;
+}
+
+/**
+ * Compare two memory snapshots field by field.
+ */
+export function diffMemorySnapshots(
+  memoryId: string,
+  fromVersion: number,
+  toVersion: number | null,
+  from: VersionSnapshot,
+  to: VersionSnapshot
+): MemoryVersionDiff {
+  const diff: MemoryVersionDiff = {
+    memory_id: memoryId,
+    from_version: fromVersion,
+    to_version: toVersion,
+    changed_fields: [],
+    content: diffLines(from.content, to.content)
+  };
+
+  if (from.title !== to.title) {
+    diff.changed_fields.push('title');
+    diff.title = { from: from.title, to: to.title };
+  }
+
+  if (from.content !== to.content) {
+    diff.changed_fields.push('content');
+  }
+
+  if (from.memory_type !== to.memory_type) {
+    diff.changed_fields.push('memory_type');
+    diff.memory_type = { from: from.memory_type, to: to.memory_type };
+  }
+
+  const fromTopic = from.topic_id ?? null;
+  const toTopic = to.topic_id ?? null;
+  if (fromTopic !== toTopic) {
+    diff.changed_fields.push('topic_id');
+    diff.topic_id = { from: fromTopic, to: toTopic };
+  }
+
+  const fromTags = new Set(from.tags ?? []);
+  const toTags = new Set(to.tags ?? []);
+  const added = [...toTags].filter((tag) => !fromTags.has(tag));
+  const removed = [...fromTags].filter((tag) => !toTags.has(tag));
+  if (added.length || removed.length) {
+    diff.changed_fields.push('tags');
+    diff.tags = { added, removed };
+  }
+
+  const fromMeta = from.metadata ?? {};
+  const toMeta = to.metadata ?? {};
+  const metaKeys = new Set([...Object.keys(fromMeta), ...Object.keys(toMeta)]);
+  const changedKeys = [...metaKeys].filter(
+    (key) => JSON.stringify(fromMeta[key]) !== JSON.stringify(toMeta[key])
+  );
+  if (changedKeys.length) {
+    diff.changed_fields.push('metadata');
+    diff.metadata_keys_changed = changedKeys.sort();
+  }
+
+  return diff;
+}
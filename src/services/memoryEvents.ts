@@ -0,0 +1,78 @@
+import { randomUUID } from 'crypto';
+import { EventEmitter } from 'events';
+
+import { logger } from '@/utils/logger';
+import type { MemoryEntry } from '@/types/memory';
+
+export const MEMORY_EVENT_TYPES = ['memory.created', 'memory.updated', 'memory.deleted'] as const;
+
+export type MemoryEventType = typeof MEMORY_EVENT_TYPES[number];
+
+/** Memory fields carried by events; embeddings are never included */
+export type MemoryEventSnapshot = Pick<MemoryEntry, 'id' | 'title' | 'memory_type' | 'tags' | 'topic_id' | 'user_id' | 'organization_id'>
+  & Partial<Pick<MemoryEntry, 'content' | 'metadata' | 'state' | 'created_at' | 'updated_at'>>;
+
+export interface MemoryEvent {
+  id: string;
+  type: MemoryEventType;
+  organization_id: string;
+  occurred_at: string;
+  memory: MemoryEventSnapshot;
+}
+
+export type MemoryEventListener = (event: MemoryEvent) => void | Promise<void>;
+
+const emitter = new EventEmitter();
+emitter.setMaxListeners(50);
+
+const toSnapshot = (memory: MemoryEntry | MemoryEventSnapshot): MemoryEventSnapshot => ({
+  id: memory.id,
+  title: memory.title,
+  memory_type: memory.memory_type,
+  tags: memory.tags ?? [],
+  topic_id: memory.topic_id ?? null,
+  user_id: memory.user_id,
+  organization_id: memory.organization_id,
+  ...(memory.content !== undefined ? { content: memory.content } : {}),
+  ...(memory.metadata !== undefined ? { metadata: memory.metadata } : {}),
+  ...(memory.state !== undefined ? { state: memory.state } : {}),
+  ...(memory.created_at !== undefined ? { created_at: memory.created_at } : {}),
+  ...(memory.updated_at !== undefined ? { updated_at: memory.updated_at } : {})
+});
+
+/**
+ * Announce a committed memory mutation to in-process subscribers (webhooks,
+ * real-time streams). Listener failures are logged and never reach the
+ * caller, so a broken subscriber cannot fail a write.
+ */
+export function publishMemoryEvent(type: MemoryEventType, memory: MemoryEntry | MemoryEventSnapshot): MemoryEvent {
+  const event: MemoryEvent = {
+    id: randomUUID(),
+    type,
+    organization_id: memory.organization_id,
+    occurred_at: new Date().toISOString(),
+    memory: toSnapshot(memory)
+  };
+
+  for (const listener of emitter.listeners('event') as MemoryEventListener[]) {
+    try {
+      Promise.resolve(listener(event)).catch((error: unknown) => {
+        logger.error('Memory event listener failed', { error, eventType: type, memoryId: memory.id });
+      });
+    } catch (error) {
+      logger.error('Memory event listener failed', { error, eventType: type, memoryId: memory.id });
+    }
+  }
+
+  return event;
+}
+
+/**
+ * Subscribe to memory mutations. Returns an unsubscribe function.
+ */
+export function onMemoryEvent(listener: MemoryEventListener): () => void {
+  emitter.on('event', listener);
+  return () => {
+    emitter.off('event', listener);
+  };
+}
@@ -0,0 +1,133 @@
+import { config } from '@/config/environment';
+import { ValidationError } from '@/middleware/errorHandler';
+import { MemoryService } from '@/services/memoryService';
+import {
+  DEFAULT_MEMORY_STATES,
+  MEMORY_LIFECYCLE_ACTIONS,
+  MEMORY_STATES,
+  MemoryEntry,
+  MemoryLifecycleAction,
+  MemoryState
+} from '@/types/memory';
+import { logger } from '@/utils/logger';
+
+interface LifecycleRule {
+  from: MemoryState[];
+  to: MemoryState;
+  /** Access permission the caller needs on the memory */
+  permission: 'write' | 'delete';
+}
+
+/**
+ * Source states each action accepts. Pause is for active memories only;
+ * restore brings back archived memories and memories still in the trash.
+ */
+export const LIFECYCLE_RULES: Record<MemoryLifecycleAction, LifecycleRule> = {
+  archive: { from: ['active', 'paused'], to: 'archived', permission: 'write' },
+  pause: { from: ['active'], to: 'paused', permission: 'write' },
+  resume: { from: ['paused'], to: 'active', permission: 'write' },
+  restore: { from: ['archived', 'deleted'], to: 'active', permission: 'write' },
+  delete: { from: ['active', 'paused', 'archived'], to: 'deleted', permission: 'delete' }
+};
+
+export const isMemoryLifecycleAction = (value: unknown): value is MemoryLifecycleAction =>
+  typeof value === 'string' && (MEMORY_LIFECYCLE_ACTIONS as readonly string[]).includes(value);
+
+export const memoryStateOf = (memory: Pick<MemoryEntry, 'state'>): MemoryState => memory.state ?? 'active';
+
+/**
+ * Why an action cannot apply to a memory right now, or null when it can.
+ * Trashed memories can only be restored before purge_after.
+ */
+export function lifecycleConflict(
+  memory: Pick<MemoryEntry, 'state' | 'purge_after'>,
+  action: MemoryLifecycleAction,
+  now: Date = new Date()
+): string | null {
+  const state = memoryStateOf(memory);
+  const rule = LIFECYCLE_RULES[action];
+
+  if (!rule.from.includes(state)) {
+    return `Cannot ${action} a memory that is ${state}`;
+  }
+
+  if (state === 'deleted' && memory.purge_after && new Date(memory.purge_after).getTime() <= now.getTime()) {
+    return 'The restore window for this memory has expired';
+  }
+
+  return null;
+}
+
+/**
+ * Parse a `state` query parameter: a comma-separated list of states or
+ * `all`. Returns undefined when absent so callers fall back to the default.
+ */
+export function parseStateFilter(value: unknown): MemoryState[] | undefined {
+  if (typeof value !== 'string' || value.trim() === '') return undefined;
+
+  const requested = value.split(',').map((state) => state.trim().toLowerCase()).filter(Boolean);
+  if (requested.includes('all')) return [...MEMORY_STATES];
+
+  const invalid = requested.filter((state) => !(MEMORY_STATES as readonly string[]).includes(state));
+  if (invalid.length > 0) {
+    throw new ValidationError(`Unknown memory state: ${invalid.join(', ')}. Expected ${MEMORY_STATES.join(', ')} or all`);
+  }
+
+  return Array.from(new Set(requested)) as MemoryState[];
+}
+
+/**
+ * States to search or list: an explicit filter wins, otherwise active only;
+ * include_deleted adds the trash to either.
+ */
+export function resolveStateFilter(states: MemoryState[] | undefined, includeDeleted?: boolean): MemoryState[] {
+  const resolved = states?.length ? [...states] : [...DEFAULT_MEMORY_STATES];
+  if (includeDeleted && !resolved.includes('deleted')) resolved.push('deleted');
+  return resolved;
+}
+
+const PURGE_BATCH_SIZE = 100;
+
+let purgeInterval: NodeJS.Timeout | null = null;
+
+/**
+ * Remove trashed memories past their restore window on an interval. Each
+ * tick drains expired memories batch by batch.
+ */
+export const startMemoryPurgeWorker = (service: MemoryService = new MemoryService()): void => {
+  if (purgeInterval) return;
+
+  let purging = false;
+  purgeInterval = setInterval(() => {
+    if (purging) return;
+    purging = true;
+
+    const drain = async (): Promise<number> => {
+      let total = 0;
+      for (;;) {
+        const purged = await service.purgeExpiredMemories(PURGE_BATCH_SIZE);
+        total += purged;
+        if (purged < PURGE_BATCH_SIZE) return total;
+      }
+    };
+
+    drain()
+      .then((total) => {
+        if (total > 0) logger.info('Purged expired memories from trash', { count: total });
+      })
+      .catch((error: unknown) => logger.error('Memory trash purge failed', { error }))
+      .finally(() => {
+        purging = false;
+      });
+  }, config.MEMORY_PURGE_INTERVAL_MS);
+  purgeInterval.unref();
+
+  logger.info('Memory trash purge worker started', { retention_days: config.MEMORY_TRASH_RETENTION_DAYS });
+};
+
+export const stopMemoryPurgeWorker = (): void => {
+  if (purgeInterval) {
+    clearInterval(purgeInterval);
+    purgeInterval = null;
+  }
+};
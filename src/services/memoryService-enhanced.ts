@@ -4,7 +4,6 @@
  */
 
 import { createClient, SupabaseClient } from '@supabase/supabase-js';
-import OpenAI from 'openai';
 
 import { config } from '@/config/environment';
 import { logger, logPerformance } from '@/utils/logger';
@@ -16,6 +15,13 @@ import {
   MemoryType 
 } from '@/types/memory';
 import { InternalServerError } from '@/middleware/errorHandler';
+import {
+  EmbeddingBatch,
+  EmbeddingProvider,
+  OrganizationEmbeddingSelector,
+  getEmbeddingRegistry
+} from '@/services/embeddingProviders';
+import { getOrganizationEmbeddingProvider } from '@/services/organizationResolver';
 
 // Enhanced types for mem0-inspired features
 export enum MemoryState {
@@ -99,33 +105,31 @@ export interface EnhancedSearchFilters {
 
 export class EnhancedMemoryService {
   private supabase: SupabaseClient;
-  private openai: OpenAI;
+  private readonly embeddings: OrganizationEmbeddingSelector;
 
   constructor() {
     this.supabase = createClient(config.SUPABASE_URL, config.SUPABASE_SERVICE_KEY);
-    this.openai = new OpenAI({ apiKey: config.OPENAI_API_KEY });
+    this.embeddings = new OrganizationEmbeddingSelector(getEmbeddingRegistry(), getOrganizationEmbeddingProvider);
   }
 
   /**
-   * Create vector embedding for text
+   * Create vector embedding for text with the given provider
    */
-  private async createEmbedding(text: string): Promise<number[]> {
+  private async createEmbedding(text: string, provider: EmbeddingProvider): Promise<EmbeddingBatch> {
     const startTime = Date.now();
     
     try {
-      const response = await this.openai.embeddings.create({
-        model: 'text-embedding-ada-002',
-        input: text.substring(0, 8000)
-      });
+      const batch = await provider.embed([text]);
 
       logPerformance('embedding_creation', Date.now() - startTime, {
         text_length: text.length,
-        model: 'text-embedding-ada-002'
+        model: batch.model,
+        provider: batch.provider
       });
 
-      return response.data[0]?.embedding || [];
+      return batch;
     } catch (error) {
-      logger.error('Failed to create embedding', { error, text_length: text.length });
+      logger.error('Failed to create embedding', { error, text_length: text.length, provider: provider.provider });
       throw new InternalServerError('Failed to create text embedding');
     }
   }
@@ -144,7 +148,8 @@ export class EnhancedMemoryService {
     const startTime = Date.now();
 
     try {
-      const embedding = await this.createEmbedding(data.content);
+      const embedder = await this.embeddings.forOrganization(data.organization_id);
+      const { embeddings: [embedding = []] } = await this.createEmbedding(data.content, embedder);
 
       const memoryData = {
         id,
@@ -158,6 +163,9 @@ export class EnhancedMemoryService {
         app_id: data.app_id || 'default',
         state: MemoryState.ACTIVE,
         embedding,
+        embedding_provider: embedder.provider,
+        embedding_model: embedder.model,
+        embedding_dimensions: embedder.dimensions,
         metadata: data.metadata || {},
         created_at: new Date().toISOString(),
         updated_at: new Date().toISOString(),
@@ -210,7 +218,8 @@ export class EnhancedMemoryService {
     const startTime = Date.now();
 
     try {
-      const queryEmbedding = await this.createEmbedding(query);
+      const embedder = await this.embeddings.forOrganization(organizationId);
+      const { embeddings: [queryEmbedding = []] } = await this.createEmbedding(query, embedder);
 
       const { data: results, error } = await this.supabase
         .rpc('match_memories_enhanced', {
@@ -1,5 +1,5 @@
 import { createClient, SupabaseClient } from '@supabase/supabase-js';
-import OpenAI from 'openai';
+import { v4 as uuidv4 } from 'uuid';
 
 import { config } from '@/config/environment';
 import { logger, logPerformance } from '@/utils/logger';
@@ -9,33 +9,39 @@ import {
   CreateMemoryRequest,
   UpdateMemoryRequest,
   MemoryStats,
-  MemoryType
+  MemoryType,
+  MemoryVersion,
+  MemoryState,
+  MemoryStateTransition,
+  DEFAULT_MEMORY_STATES,
+  SearchMode,
+  ImportMemoryLine,
+  ImportLineResult,
+  updateMemorySchema
 } from '@/types/memory';
 import { InternalServerError } from '@/middleware/errorHandler';
-
-// Embedding provider configuration
-type EmbeddingProvider = 'openai' | 'voyage';
-
-const PROVIDER_CONFIG = {
-  openai: {
-    model: process.env.OPENAI_MODEL || 'text-embedding-3-small',
-    dimensions: 1536,
-    url: 'https://api.openai.com/v1/embeddings',
-  },
-  voyage: {
-    model: process.env.VOYAGE_MODEL || 'voyage-4',
-    dimensions: 1024,
-    url: 'https://api.voyageai.com/v1/embeddings',
-  },
-} as const;
+import { fuseSearchResults } from '@/services/searchFusion';
+import {
+  EmbeddingBatch,
+  EmbeddingProfile,
+  EmbeddingProvider,
+  EmbeddingProviderName,
+  OrganizationEmbeddingSelector,
+  getEmbeddingRegistry,
+  profileOf
+} from '@/services/embeddingProviders';
+import { getOrganizationEmbeddingProvider } from '@/services/organizationResolver';
+import { publishMemoryEvent, MemoryEventSnapshot } from '@/services/memoryEvents';
 
 interface SearchFilters {
   memory_types?: MemoryType[];
   tags?: string[];
   topic_id?: string | null;
   user_id?: string;
+  states?: MemoryState[];
   limit?: number;
   threshold?: number;
+  mode?: SearchMode;
 }
 
 interface ListOptions {
@@ -58,7 +64,7 @@ interface WriteTelemetryPayload {
   memory_type?: MemoryType;
   content_length?: number;
   tag_count?: number;
-  provider: EmbeddingProvider;
+  provider: EmbeddingProviderName;
   embedding_model: string;
   latency_ms: number;
   gate_decisions: {
@@ -75,36 +81,69 @@ interface WriteTelemetryPayload {
   error_message?: string;
 }
 
+export interface ExportMemoryFilters {
+  organization_id: string;
+  memory_type?: MemoryType;
+  tags?: string[];
+  topic_id?: string;
+  user_id?: string;
+  created_after?: string;
+  created_before?: string;
+  /** When set, other users' personal memories are excluded */
+  viewer_id?: string;
+  /** Access-rule visibility filter from AccessControlService.listFilter */
+  visibility_filter?: string | null;
+  include_embeddings?: boolean;
+}
+
+const EXPORT_COLUMNS = 'id, title, content, memory_type, tags, topic_id, metadata, user_id, created_at, updated_at';
+
+/** Columns returned from deletes so memory.deleted events carry a snapshot */
+const MEMORY_EVENT_COLUMNS = 'id, title, memory_type, tags, topic_id, user_id, organization_id, metadata, state, created_at, updated_at';
+
 export interface ListMemoryFilters extends Record<string, unknown> {
   organization_id?: string;
   user_id?: string;
   memory_type?: MemoryType;
   tags?: string[];
   topic_id?: string | null;
+  /** Lifecycle states to include; defaults to active only */
+  states?: MemoryState[];
+}
+
+export interface MemoryTransitionOptions {
+  reason?: string | undefined;
+  metadata?: Record<string, unknown> | undefined;
+  changedBy?: string | undefined;
+  /** Restrict to memories owned by this user (bulk changes by non-admins) */
+  ownerId?: string | undefined;
+}
+
+export interface OrganizationEmbeddingSettings {
+  selected_provider: EmbeddingProviderName | null;
+  active: EmbeddingProfile;
+  default: EmbeddingProfile;
+  providers: Array<EmbeddingProfile & { available: boolean }>;
 }
 
 export class MemoryService {
   private supabase: SupabaseClient;
-  private openai: OpenAI | null = null;
-  private readonly provider: EmbeddingProvider;
-  private readonly embeddingModel: string;
+  private readonly embeddings: OrganizationEmbeddingSelector;
   private readonly writeTelemetryEnabled: boolean;
 
   constructor() {
     this.supabase = createClient(config.SUPABASE_URL, config.SUPABASE_SERVICE_KEY);
 
-    // Determine provider from environment
-    this.provider = (process.env.EMBEDDING_PROVIDER?.toLowerCase() || 'openai') as EmbeddingProvider;
-    this.embeddingModel = PROVIDER_CONFIG[this.provider].model;
-
-    // Only initialize OpenAI client if using OpenAI provider
-    if (this.provider === 'openai' && config.OPENAI_API_KEY) {
-      this.openai = new OpenAI({ apiKey: config.OPENAI_API_KEY });
-    }
+    // Providers come from the shared registry; organizations may override the default
+    this.embeddings = new OrganizationEmbeddingSelector(
+      getEmbeddingRegistry(),
+      getOrganizationEmbeddingProvider
+    );
 
     this.writeTelemetryEnabled = process.env.MEMORY_WRITE_TELEMETRY_ENABLED !== 'false';
 
-    logger.info(`MemoryService initialized with provider: ${this.provider}, model: ${this.embeddingModel}`);
+    const defaultProvider = getEmbeddingRegistry().getDefault();
+    logger.info(`MemoryService initialized with provider: ${defaultProvider.provider}, model: ${defaultProvider.model}`);
   }
 
   private logWriteTelemetry(payload: WriteTelemetryPayload): void {
@@ -114,73 +153,96 @@ export class MemoryService {
   }
 
   /**
-   * Create vector embedding for text using configured provider
+   * Embedding configuration for an organization: its explicit selection (if
+   * any), the profile writes currently use and every registered provider
    */
-  private async createEmbedding(text: string): Promise<number[]> {
-    const startTime = Date.now();
-    const truncatedText = text.substring(0, 8000);
+  async getEmbeddingSettings(organizationId: string): Promise<OrganizationEmbeddingSettings> {
+    const registry = getEmbeddingRegistry();
+    return {
+      selected_provider: await this.embeddings.selection(organizationId),
+      active: await this.getEmbeddingProfile(organizationId),
+      default: profileOf(registry.getDefault()),
+      providers: registry.list().map((provider) => ({
+        ...profileOf(provider),
+        available: provider.isAvailable()
+      }))
+    };
+  }
 
-    try {
-      let embedding: number[];
+  /**
+   * Embedding profile new writes and searches use for an organization
+   */
+  async getEmbeddingProfile(organizationId: string): Promise<EmbeddingProfile> {
+    return profileOf(await this.embeddings.forOrganization(organizationId));
+  }
 
-      if (this.provider === 'voyage') {
-        embedding = await this.createVoyageEmbedding(truncatedText);
-      } else {
-        embedding = await this.createOpenAIEmbedding(truncatedText);
-      }
+  /**
+   * Select the embedding provider for an organization (null restores the
+   * deployment default). Stored in organizations.settings.embedding_provider.
+   */
+  async setEmbeddingProvider(organizationId: string, providerName: EmbeddingProviderName | null): Promise<EmbeddingProfile> {
+    const { data: organization, error: readError } = await this.supabase
+      .from('organizations')
+      .select('settings')
+      .eq('id', organizationId)
+      .single();
 
-      logPerformance('embedding_creation', Date.now() - startTime, {
-        text_length: text.length,
-        model: this.embeddingModel,
-        provider: this.provider
-      });
+    if (readError) {
+      logger.error('Failed to read organization settings', { error: readError, organizationId });
+      throw new InternalServerError('Failed to update embedding provider');
+    }
 
-      return embedding;
-    } catch (error) {
-      logger.error('Failed to create embedding', { error, text_length: text.length, provider: this.provider });
-      throw new InternalServerError('Failed to create text embedding');
+    const settings = { ...((organization?.settings ?? {}) as Record<string, unknown>) };
+    if (providerName) {
+      settings.embedding_provider = providerName;
+    } else {
+      delete settings.embedding_provider;
     }
-  }
 
-  private async createOpenAIEmbedding(text: string): Promise<number[]> {
-    if (!this.openai) {
-      throw new Error('OpenAI client not initialized');
+    const { error } = await this.supabase
+      .from('organizations')
+      .update({ settings, updated_at: new Date().toISOString() })
+      .eq('id', organizationId);
+
+    if (error) {
+      logger.error('Failed to update embedding provider', { error, organizationId, providerName });
+      throw new InternalServerError('Failed to update embedding provider');
     }
 
-    const response = await this.openai.embeddings.create({
-      model: this.embeddingModel,
-      input: text
-    });
+    this.embeddings.invalidate(organizationId);
+    return this.getEmbeddingProfile(organizationId);
+  }
 
-    return response.data[0]?.embedding || [];
+  /**
+   * Create vector embedding for text with the organization's provider
+   */
+  private async createEmbedding(text: string, provider: EmbeddingProvider): Promise<number[]> {
+    const { embeddings } = await this.createEmbeddings([text], provider);
+    return embeddings[0] ?? [];
   }
 
-  private async createVoyageEmbedding(text: string): Promise<number[]> {
-    const voyageApiKey = process.env.VOYAGE_API_KEY;
-    if (!voyageApiKey) {
-      throw new Error('VOYAGE_API_KEY not configured');
-    }
-
-    const response = await fetch(PROVIDER_CONFIG.voyage.url, {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${voyageApiKey}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        input: [text],
-        model: this.embeddingModel,
-        input_type: 'document',
-      }),
-    });
+  /**
+   * Create embeddings for several texts in one provider call
+   */
+  private async createEmbeddings(texts: string[], provider: EmbeddingProvider): Promise<EmbeddingBatch> {
+    const startTime = Date.now();
+    const totalLength = texts.reduce((sum, text) => sum + text.length, 0);
 
-    if (!response.ok) {
-      const errorData = await response.json().catch(() => ({}));
-      throw new Error(`Voyage API error (${response.status}): ${JSON.stringify(errorData)}`);
-    }
+    try {
+      const batch = await provider.embed(texts);
 
-    const data = await response.json() as { data: Array<{ embedding: number[] }> };
-    return data.data[0]?.embedding || [];
+      logPerformance('embedding_creation', Date.now() - startTime, {
+        text_length: totalLength,
+        batch_size: texts.length,
+        model: batch.model,
+        provider: batch.provider
+      });
+
+      return batch;
+    } catch (error) {
+      logger.error('Failed to create embedding', { error, text_length: totalLength, batch_size: texts.length, provider: provider.provider });
+      throw new InternalServerError('Failed to create text embedding');
+    }
   }
 
   /**
@@ -189,10 +251,11 @@ export class MemoryService {
   async createMemory(id: string, data: CreateMemoryRequest & { user_id: string; organization_id: string }): Promise<MemoryEntry> {
     const startTime = Date.now();
     let failureStage: WriteTelemetryPayload['failure_stage'] = 'embedding';
+    const embedder = await this.embeddings.forOrganization(data.organization_id);
 
     try {
       // Create embedding for the content
-      const embedding = await this.createEmbedding(data.content);
+      const embedding = await this.createEmbedding(data.content, embedder);
       failureStage = 'storage';
 
       const memoryData = {
@@ -205,6 +268,9 @@ export class MemoryService {
         user_id: data.user_id,
         organization_id: data.organization_id,
         embedding: JSON.stringify(embedding) as unknown as number[], // Supabase expects string format
+        embedding_provider: embedder.provider,
+        embedding_model: embedder.model,
+        embedding_dimensions: embedding.length,
         metadata: data.metadata || {} as Record<string, unknown>,
         created_at: new Date().toISOString(),
         updated_at: new Date().toISOString(),
@@ -238,8 +304,8 @@ export class MemoryService {
         memory_type: data.memory_type,
         content_length: data.content.length,
         tag_count: data.tags?.length ?? 0,
-        provider: this.provider,
-        embedding_model: this.embeddingModel,
+        provider: embedder.provider,
+        embedding_model: embedder.model,
         latency_ms: Date.now() - startTime,
         gate_decisions: {
           schema_validation: 'pass',
@@ -258,6 +324,8 @@ export class MemoryService {
         content_length: data.content.length
       });
 
+      publishMemoryEvent('memory.created', memory);
+
       return memory;
     } catch (error) {
       this.logWriteTelemetry({
@@ -269,8 +337,8 @@ export class MemoryService {
         memory_type: data.memory_type,
         content_length: data.content.length,
         tag_count: data.tags?.length ?? 0,
-        provider: this.provider,
-        embedding_model: this.embeddingModel,
+        provider: embedder.provider,
+        embedding_model: embedder.model,
         latency_ms: Date.now() - startTime,
         gate_decisions: {
           schema_validation: 'pass',
@@ -317,10 +385,11 @@ export class MemoryService {
   /**
    * Update memory entry
    */
-  async updateMemory(id: string, data: UpdateMemoryRequest): Promise<MemoryEntry> {
+  async updateMemory(id: string, data: UpdateMemoryRequest, organizationId: string): Promise<MemoryEntry> {
     const startTime = Date.now();
     let failureStage: WriteTelemetryPayload['failure_stage'] = data.content !== undefined ? 'embedding' : 'storage';
     const hasContentUpdate = data.content !== undefined;
+    const embedder = await this.embeddings.forOrganization(organizationId);
 
     try {
       const updateData: Partial<MemoryEntry> & { updated_at: string; embedding?: string } = {
@@ -336,8 +405,12 @@ export class MemoryService {
 
       // If content is updated, create new embedding
       if (data.content !== undefined) {
+        const embedding = await this.createEmbedding(data.content, embedder);
         updateData.content = data.content;
-        updateData.embedding = JSON.stringify(await this.createEmbedding(data.content));
+        updateData.embedding = JSON.stringify(embedding);
+        updateData.embedding_provider = embedder.provider;
+        updateData.embedding_model = embedder.model;
+        updateData.embedding_dimensions = embedding.length;
         failureStage = 'storage';
       }
 
@@ -362,8 +435,8 @@ export class MemoryService {
         memory_type: memory.memory_type,
         ...(data.content !== undefined ? { content_length: data.content.length } : {}),
         ...(data.tags !== undefined ? { tag_count: data.tags.length } : {}),
-        provider: this.provider,
-        embedding_model: this.embeddingModel,
+        provider: embedder.provider,
+        embedding_model: embedder.model,
         latency_ms: Date.now() - startTime,
         gate_decisions: {
           schema_validation: 'pass',
@@ -382,6 +455,8 @@ export class MemoryService {
         updated_fields: Object.keys(updateData)
       });
 
+      publishMemoryEvent('memory.updated', memory);
+
       return memory;
     } catch (error) {
       this.logWriteTelemetry({
@@ -390,8 +465,8 @@ export class MemoryService {
         memory_id: id,
         ...(data.content !== undefined ? { content_length: data.content.length } : {}),
         ...(data.tags !== undefined ? { tag_count: data.tags.length } : {}),
-        provider: this.provider,
-        embedding_model: this.embeddingModel,
+        provider: embedder.provider,
+        embedding_model: embedder.model,
         latency_ms: Date.now() - startTime,
         gate_decisions: {
           schema_validation: 'pass',
@@ -414,22 +489,221 @@ export class MemoryService {
   }
 
   /**
-   * Delete memory entry
+   * Permanently delete a memory entry, skipping the trash. The event is only
+   * published for memories that were not already in the trash.
    */
   async deleteMemory(id: string): Promise<void> {
-    const { error } = await this.supabase
+    const { data: deleted, error } = await this.supabase
       .from('memory_entries')
       .delete()
-      .eq('id', id);
+      .eq('id', id)
+      .select(MEMORY_EVENT_COLUMNS);
 
     if (error) {
       logger.error('Failed to delete memory', { error, id });
       throw new InternalServerError('Failed to delete memory entry');
     }
+
+    for (const memory of (deleted || []) as MemoryEventSnapshot[]) {
+      if (memory.state !== 'deleted') {
+        publishMemoryEvent('memory.deleted', memory);
+      }
+    }
+  }
+
+  /**
+   * Move memories between lifecycle states, recording one transition per
+   * memory. Only memories currently in one of fromStates move; the rest are
+   * left out of the result (missing, in another state, or changed
+   * concurrently). Moving to the trash publishes memory.deleted, any other
+   * transition memory.updated.
+   */
+  async transitionMemoryStates(
+    memoryIds: string[],
+    organizationId: string,
+    fromStates: MemoryState[],
+    toState: MemoryState,
+    options: MemoryTransitionOptions = {}
+  ): Promise<MemoryEntry[]> {
+    const startTime = Date.now();
+    const { data, error } = await this.supabase
+      .rpc('transition_memory_states', {
+        memory_ids_param: memoryIds,
+        organization_id_param: organizationId,
+        from_states_param: fromStates,
+        to_state_param: toState,
+        reason_param: options.reason ?? null,
+        changed_by_param: options.changedBy ?? null,
+        metadata_param: options.metadata ?? {},
+        retention_days_param: config.MEMORY_TRASH_RETENTION_DAYS,
+        owner_id_param: options.ownerId ?? null
+      });
+
+    if (error) {
+      logger.error('Failed to transition memory state', { error, memoryIds, toState });
+      throw new InternalServerError('Failed to change memory state');
+    }
+
+    const memories = (data || []) as MemoryEntry[];
+    for (const memory of memories) {
+      publishMemoryEvent(toState === 'deleted' ? 'memory.deleted' : 'memory.updated', memory);
+    }
+
+    logPerformance('memory_state_transition', Date.now() - startTime, {
+      to_state: toState,
+      requested_count: memoryIds.length,
+      transitioned_count: memories.length
+    });
+
+    return memories;
+  }
+
+  /**
+   * Lifecycle transitions recorded for a memory, newest first
+   */
+  async listStateTransitions(memoryId: string, options: { limit: number; offset: number }): Promise<{
+    transitions: MemoryStateTransition[];
+    total: number;
+  }> {
+    const { data, count, error } = await this.supabase
+      .from('memory_state_transitions')
+      .select('*', { count: 'exact' })
+      .eq('memory_id', memoryId)
+      .order('created_at', { ascending: false })
+      .range(options.offset, options.offset + options.limit - 1);
+
+    if (error) {
+      logger.error('Failed to list memory state transitions', { error, memoryId });
+      throw new InternalServerError('Failed to list memory state transitions');
+    }
+
+    return { transitions: (data || []) as MemoryStateTransition[], total: count || 0 };
+  }
+
+  /**
+   * Permanently remove trashed memories whose restore window has passed.
+   * Handles one batch per call and returns how many were removed; their
+   * memory.deleted events were published when they entered the trash.
+   */
+  async purgeExpiredMemories(batchSize = 100, organizationId?: string): Promise<number> {
+    const now = new Date().toISOString();
+    let query = this.supabase
+      .from('memory_entries')
+      .select('id')
+      .eq('state', 'deleted')
+      .lte('purge_after', now)
+      .order('purge_after', { ascending: true })
+      .limit(batchSize);
+
+    if (organizationId) {
+      query = query.eq('organization_id', organizationId);
+    }
+
+    const { data: expired, error: selectError } = await query;
+    if (selectError) {
+      logger.error('Failed to find expired trashed memories', { error: selectError });
+      throw new InternalServerError('Failed to purge trashed memories');
+    }
+
+    const ids = (expired || []).map((row: { id: string }) => row.id);
+    if (ids.length === 0) return 0;
+
+    // Re-check state so a memory restored in the meantime is kept
+    const { data: purged, error } = await this.supabase
+      .from('memory_entries')
+      .delete()
+      .in('id', ids)
+      .eq('state', 'deleted')
+      .lte('purge_after', now)
+      .select('id');
+
+    if (error) {
+      logger.error('Failed to purge trashed memories', { error, count: ids.length });
+      throw new InternalServerError('Failed to purge trashed memories');
+    }
+
+    return purged?.length ?? 0;
   }
 
   /**
-   * Search memories using vector similarity
+   * List version snapshots for a memory, newest first
+   */
+  async listMemoryVersions(memoryId: string, options: { limit: number; offset: number }): Promise<{
+    versions: MemoryVersion[];
+    total: number;
+  }> {
+    const { data: versions, count, error } = await this.supabase
+      .from('memory_versions')
+      .select('*', { count: 'exact' })
+      .eq('memory_id', memoryId)
+      .order('version_number', { ascending: false })
+      .range(options.offset, options.offset + options.limit - 1);
+
+    if (error) {
+      logger.error('Failed to list memory versions', { error, memoryId });
+      throw new InternalServerError('Failed to list memory versions');
+    }
+
+    return {
+      versions: versions || [],
+      total: count || 0
+    };
+  }
+
+  /**
+   * Get a single version snapshot
+   */
+  async getMemoryVersion(memoryId: string, versionNumber: number): Promise<MemoryVersion | null> {
+    const { data: version, error } = await this.supabase
+      .from('memory_versions')
+      .select('*')
+      .eq('memory_id', memoryId)
+      .eq('version_number', versionNumber)
+      .single();
+
+    if (error) {
+      if (error.code === 'PGRST116') { // Not found
+        return null;
+      }
+      logger.error('Failed to get memory version', { error, memoryId, versionNumber });
+      throw new InternalServerError('Failed to retrieve memory version');
+    }
+
+    return version;
+  }
+
+  /**
+   * Restore a memory to an earlier version.
+   * The restore is itself an update, so the version trigger records it as a
+   * new version rather than rewriting history.
+   */
+  async restoreMemoryVersion(current: MemoryEntry, versionNumber: number): Promise<MemoryEntry | null> {
+    const version = await this.getMemoryVersion(current.id, versionNumber);
+    if (!version) {
+      return null;
+    }
+
+    const restoreData = updateMemorySchema.parse({
+      title: version.title,
+      // Skip re-embedding when only non-content fields differ
+      ...(version.content !== current.content ? { content: version.content } : {}),
+      memory_type: version.memory_type,
+      tags: version.tags || [],
+      topic_id: version.topic_id ?? null,
+      metadata: version.metadata || {}
+    });
+
+    const restored = await this.updateMemory(current.id, restoreData, current.organization_id);
+
+    await this.logAnalytics(current.organization_id, current.user_id, 'memory_restored', 'memory', current.id, {
+      restored_version: versionNumber
+    });
+
+    return restored;
+  }
+
+  /**
+   * Search memories by vector similarity, full-text rank, or both fused
    */
   async searchMemories(
     query: string, 
@@ -437,36 +711,35 @@ export class MemoryService {
     filters: SearchFilters = {}
   ): Promise<MemorySearchResult[]> {
     const startTime = Date.now();
+    const mode = filters.mode ?? 'vector';
+    const limit = filters.limit || 20;
 
     try {
-      // Create embedding for the search query
-      const queryEmbedding = await this.createEmbedding(query);
-
-      // Call the PostgreSQL function for vector search
-      const { data: results, error } = await this.supabase
-        .rpc('match_memories', {
-          query_embedding: JSON.stringify(queryEmbedding),
-          match_threshold: filters.threshold || 0.7,
-          match_count: filters.limit || 20,
-          organization_id_param: organizationId,
-          memory_types_param: filters.memory_types || null,
-          tags_param: filters.tags || null,
-          topic_id_param: filters.topic_id || null,
-          user_id_param: filters.user_id || null
-        });
-
-      if (error) {
-        logger.error('Failed to search memories', { error, query, organizationId, filters });
-        throw new InternalServerError('Failed to search memories');
+      let results: MemorySearchResult[];
+
+      if (mode === 'lexical') {
+        results = await this.matchMemoriesLexical(query, organizationId, filters, limit);
+      } else if (mode === 'hybrid') {
+        // Over-fetch each leg so items ranked just outside one list can still
+        // win on the other before the fused list is cut to size.
+        const candidateCount = Math.min(limit * 2, 200);
+        const [vectorResults, lexicalResults] = await Promise.all([
+          this.matchMemoriesVector(query, organizationId, filters, candidateCount),
+          this.matchMemoriesLexical(query, organizationId, filters, candidateCount)
+        ]);
+        results = fuseSearchResults(vectorResults, lexicalResults, { limit });
+      } else {
+        results = await this.matchMemoriesVector(query, organizationId, filters, limit);
       }
 
       logPerformance('memory_search', Date.now() - startTime, {
         query_length: query.length,
-        results_count: results?.length || 0,
+        results_count: results.length,
+        mode,
         filters
       });
 
-      return results || [];
+      return results;
     } catch (error) {
       if (error instanceof InternalServerError) throw error;
       logger.error('Unexpected error searching memories', { error });
@@ -474,10 +747,81 @@ export class MemoryService {
     }
   }
 
+  private async matchMemoriesVector(
+    query: string,
+    organizationId: string,
+    filters: SearchFilters,
+    matchCount: number
+  ): Promise<MemorySearchResult[]> {
+    // Embed the query with the same provider the organization writes with, and
+    // only compare it against rows embedded with that profile: vectors from
+    // another model are not comparable, so rows still awaiting re-embedding
+    // are left to the lexical leg.
+    const embedder = await this.embeddings.forOrganization(organizationId);
+    const queryEmbedding = await this.createEmbedding(query, embedder);
+
+    // Call the PostgreSQL function for vector search
+    const { data: results, error } = await this.supabase
+      .rpc('match_memories', {
+        query_embedding: JSON.stringify(queryEmbedding),
+        match_threshold: filters.threshold || 0.7,
+        match_count: matchCount,
+        organization_id_param: organizationId,
+        memory_types_param: filters.memory_types || null,
+        tags_param: filters.tags || null,
+        topic_id_param: filters.topic_id || null,
+        user_id_param: filters.user_id || null,
+        embedding_provider_param: embedder.provider,
+        embedding_model_param: embedder.model,
+        embedding_dimensions_param: embedder.dimensions,
+        states_param: filters.states || DEFAULT_MEMORY_STATES
+      });
+
+    if (error) {
+      logger.error('Failed to search memories', { error, query, organizationId, filters });
+      throw new InternalServerError('Failed to search memories');
+    }
+
+    return ((results || []) as MemorySearchResult[]).map((result) => ({
+      ...result,
+      vector_score: result.relevance_score
+    }));
+  }
+
+  private async matchMemoriesLexical(
+    query: string,
+    organizationId: string,
+    filters: SearchFilters,
+    matchCount: number
+  ): Promise<MemorySearchResult[]> {
+    const { data: results, error } = await this.supabase
+      .rpc('match_memories_lexical', {
+        query_text: query,
+        match_count: matchCount,
+        organization_id_param: organizationId,
+        memory_types_param: filters.memory_types || null,
+        tags_param: filters.tags || null,
+        topic_id_param: filters.topic_id || null,
+        user_id_param: filters.user_id || null,
+        states_param: filters.states || DEFAULT_MEMORY_STATES
+      });
+
+    if (error) {
+      logger.error('Failed to run lexical memory search', { error, query, organizationId, filters });
+      throw new InternalServerError('Failed to search memories');
+    }
+
+    return ((results || []) as Array<Omit<MemorySearchResult, 'relevance_score'> & { lexical_score: number }>)
+      .map((result) => ({
+        ...result,
+        relevance_score: result.lexical_score
+      }));
+  }
+
   /**
    * List memories with pagination and filtering
    */
-  async listMemories(filters: ListMemoryFilters, options: ListOptions): Promise<{
+  async listMemories(filters: ListMemoryFilters, options: ListOptions, visibilityFilter?: string | null): Promise<{
     memories: MemoryEntry[];
     pagination: {
       page: number;
@@ -490,10 +834,14 @@ export class MemoryService {
 
     try {
       // Build query
-      let query = this.supabase.from('memory_entries').select('*', { count: 'exact' });
+      const { states = DEFAULT_MEMORY_STATES, ...columnFilters } = filters;
+      let query = this.supabase
+        .from('memory_entries')
+        .select('*', { count: 'exact' })
+        .in('state', states);
 
       // Apply filters
-      Object.entries(filters).forEach(([key, value]) => {
+      Object.entries(columnFilters).forEach(([key, value]) => {
         if (value !== undefined && value !== null) {
           if (key === 'tags' && Array.isArray(value)) {
             query = query.overlaps('tags', value);
@@ -503,8 +851,13 @@ export class MemoryService {
         }
       });
 
+      // Hide memories the caller is denied by access rules
+      if (visibilityFilter) {
+        query = query.or(visibilityFilter);
+      }
+
       // Apply sorting
-      const validSortFields = ['created_at', 'updated_at', 'last_accessed', 'title', 'access_count'];
+      const validSortFields = ['created_at', 'updated_at', 'last_accessed', 'title', 'access_count', 'deleted_at'];
       const sortField = validSortFields.includes(options.sort) ? options.sort : 'created_at';
       const sortOrder = options.order === 'asc' ? { ascending: true } : { ascending: false };
 
@@ -567,7 +920,8 @@ export class MemoryService {
     const { count, error } = await this.supabase
       .from('memory_entries')
       .select('*', { count: 'exact', head: true })
-      .eq('organization_id', organizationId);
+      .eq('organization_id', organizationId)
+      .neq('state', 'deleted');
 
     if (error) {
       logger.error('Failed to get memory count', { error, organizationId });
@@ -662,7 +1016,7 @@ export class MemoryService {
   }
 
   /**
-   * Bulk delete memories
+   * Bulk delete memories permanently, skipping the trash
    */
   async bulkDeleteMemories(memoryIds: string[], organizationId: string): Promise<{
     deleted_count: number;
@@ -678,17 +1032,23 @@ export class MemoryService {
       for (let i = 0; i < memoryIds.length; i += batchSize) {
         const batch = memoryIds.slice(i, i + batchSize);
         
-        const { error } = await this.supabase
+        const { data: deleted, error } = await this.supabase
           .from('memory_entries')
           .delete()
           .in('id', batch)
-          .eq('organization_id', organizationId);
+          .eq('organization_id', organizationId)
+          .select(MEMORY_EVENT_COLUMNS);
 
         if (error) {
           logger.warn('Batch delete failed', { error, batch });
           failedIds.push(...batch);
         } else {
           deletedCount += batch.length;
+          for (const memory of (deleted || []) as MemoryEventSnapshot[]) {
+            if (memory.state !== 'deleted') {
+              publishMemoryEvent('memory.deleted', memory);
+            }
+          }
         }
       }
 
@@ -708,6 +1068,159 @@ export class MemoryService {
     }
   }
 
+  /**
+   * Import a batch of parsed NDJSON lines. Lines without a precomputed
+   * embedding are embedded in a single provider call; precomputed embeddings
+   * must match the active model's dimensions. Returns one result per line.
+   */
+  async importMemories(
+    lines: Array<{ line: number; data: ImportMemoryLine }>,
+    owner: { user_id: string; organization_id: string }
+  ): Promise<ImportLineResult[]> {
+    const startTime = Date.now();
+    const embedder = await this.embeddings.forOrganization(owner.organization_id);
+    const dimensions = embedder.dimensions;
+    const failures = new Map<number, string>();
+    const embeddings = new Map<number, number[]>();
+
+    lines.forEach(({ line, data }) => {
+      if (!data.embedding) return;
+      if (data.embedding.length !== dimensions) {
+        failures.set(line, `embedding has ${data.embedding.length} dimensions, ${embedder.model} expects ${dimensions}`);
+      } else {
+        embeddings.set(line, data.embedding);
+      }
+    });
+
+    const toEmbed = lines.filter(({ line }) => !failures.has(line) && !embeddings.has(line));
+    if (toEmbed.length > 0) {
+      try {
+        const { embeddings: created } = await this.createEmbeddings(toEmbed.map(({ data }) => data.content), embedder);
+        toEmbed.forEach(({ line }, index) => {
+          const embedding = created[index];
+          if (embedding && embedding.length > 0) {
+            embeddings.set(line, embedding);
+          } else {
+            failures.set(line, 'Failed to create text embedding');
+          }
+        });
+      } catch {
+        toEmbed.forEach(({ line }) => failures.set(line, 'Failed to create text embedding'));
+      }
+    }
+
+    const now = new Date().toISOString();
+    const pending = lines.flatMap(({ line, data }) => {
+      const embedding = embeddings.get(line);
+      if (!embedding) return [];
+      return [{
+        line,
+        row: {
+          id: uuidv4(),
+          title: data.title,
+          content: data.content,
+          memory_type: data.memory_type,
+          tags: data.tags || [],
+          topic_id: data.topic_id || null,
+          user_id: owner.user_id,
+          organization_id: owner.organization_id,
+          embedding: JSON.stringify(embedding),
+          embedding_provider: embedder.provider,
+          embedding_model: embedder.model,
+          embedding_dimensions: embedding.length,
+          metadata: data.metadata || {},
+          created_at: now,
+          updated_at: now,
+          access_count: 0
+        }
+      }];
+    });
+
+    const created = new Set<number>();
+    if (pending.length > 0) {
+      const { error } = await this.supabase
+        .from('memory_entries')
+        .insert(pending.map(({ row }) => row));
+
+      if (!error) {
+        pending.forEach(({ line }) => created.add(line));
+      } else {
+        // One bad row fails the whole insert; retry row by row to pin it down
+        logger.warn('Batch import insert failed, retrying per line', { error, batch_size: pending.length });
+        for (const { line, row } of pending) {
+          const { error: rowError } = await this.supabase.from('memory_entries').insert(row);
+          if (rowError) {
+            failures.set(line, rowError.message || 'Failed to create memory entry');
+          } else {
+            created.add(line);
+          }
+        }
+      }
+    }
+
+    const inserted = pending.filter(({ line }) => created.has(line)).map(({ row }) => row);
+    inserted.forEach((row) => publishMemoryEvent('memory.created', { ...row, state: 'active' }));
+
+    const createdIds = inserted.map((row) => row.id);
+    if (createdIds[0]) {
+      await this.logAnalytics(owner.organization_id, owner.user_id, 'memories_imported', 'memory', createdIds[0], {
+        count: createdIds.length
+      });
+    }
+
+    logPerformance('memory_import_batch', Date.now() - startTime, {
+      batch_size: lines.length,
+      created_count: createdIds.length,
+      failed_count: lines.length - createdIds.length
+    });
+
+    const idByLine = new Map(pending.map(({ line, row }) => [line, row.id]));
+    return lines.map(({ line }): ImportLineResult => {
+      const id = idByLine.get(line);
+      if (id && created.has(line)) {
+        return { line, status: 'created', id };
+      }
+      return { line, status: 'error', error: failures.get(line) ?? 'Failed to create memory entry' };
+    });
+  }
+
+  /**
+   * One page of an export, oldest first. Rows are returned raw so the caller
+   * can stream them without holding the whole organization in memory.
+   */
+  async exportMemoriesPage(filters: ExportMemoryFilters, offset: number, limit: number): Promise<Record<string, unknown>[]> {
+    let query = this.supabase
+      .from('memory_entries')
+      .select(filters.include_embeddings ? `${EXPORT_COLUMNS}, embedding` : EXPORT_COLUMNS)
+      .eq('organization_id', filters.organization_id)
+      .neq('state', 'deleted');
+
+    if (filters.memory_type) query = query.eq('memory_type', filters.memory_type);
+    if (filters.tags?.length) query = query.overlaps('tags', filters.tags);
+    if (filters.topic_id) query = query.eq('topic_id', filters.topic_id);
+    if (filters.user_id) query = query.eq('user_id', filters.user_id);
+    if (filters.created_after) query = query.gte('created_at', filters.created_after);
+    if (filters.created_before) query = query.lt('created_at', filters.created_before);
+    if (filters.viewer_id) {
+      query = query.or(`memory_type.neq.personal,user_id.eq.${filters.viewer_id}`);
+    }
+    if (filters.visibility_filter) {
+      query = query.or(filters.visibility_filter);
+    }
+
+    const { data, error } = await query
+      .order('created_at', { ascending: true })
+      .order('id', { ascending: true })
+      .range(offset, offset + limit - 1);
+
+    if (error) {
+      logger.error('Failed to export memories', { error, filters, offset });
+      throw new InternalServerError('Failed to export memories');
+    }
+
+    return (data || []) as unknown as Record<string, unknown>[];
+  }
+
   /**
    * Log analytics event
    */
@@ -0,0 +1,96 @@
+import type { ZodError } from 'zod';
+
+import {
+  importMemoryLineSchema,
+  ImportMemoryLine,
+  MemoryExportRecord,
+  MemoryType
+} from '@/types/memory';
+
+/** Lines embedded and inserted together during an import */
+export const IMPORT_BATCH_SIZE = 50;
+
+/** Hard cap on lines per import request; split larger files client-side */
+export const MAX_IMPORT_LINES = 10_000;
+
+/** Rows fetched per database round-trip while streaming an export */
+export const EXPORT_PAGE_SIZE = 500;
+
+export const NDJSON_CONTENT_TYPES = ['application/x-ndjson', 'application/ndjson', 'application/jsonl'];
+
+export type ParsedImportLine =
+  | { ok: true; data: ImportMemoryLine }
+  | { ok: false; error: string };
+
+const formatZodError = (error: ZodError): string =>
+  error.issues
+    .map((issue) => (issue.path.length ? `${issue.path.join('.')}: ${issue.message}` : issue.message))
+    .join('; ');
+
+/**
+ * Parse and validate one NDJSON import line. Never throws; failures are
+ * reported per line so one bad record does not abort the import.
+ */
+export function parseImportLine(text: string): ParsedImportLine {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    return { ok: false, error: 'Invalid JSON' };
+  }
+
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    return { ok: false, error: 'Each line must be a JSON object' };
+  }
+
+  const result = importMemoryLineSchema.safeParse(raw);
+  if (!result.success) {
+    return { ok: false, error: formatZodError(result.error) };
+  }
+
+  return { ok: true, data: result.data };
+}
+
+/**
+ * pgvector columns come back from PostgREST as a string ("[0.1,0.2,...]").
+ */
+export function parseStoredEmbedding(value: unknown): number[] | undefined {
+  if (Array.isArray(value)) {
+    return value.every((item) => typeof item === 'number') ? value as number[] : undefined;
+  }
+  if (typeof value !== 'string' || !value.startsWith('[')) {
+    return undefined;
+  }
+  try {
+    const parsed: unknown = JSON.parse(value);
+    return Array.isArray(parsed) && parsed.every((item) => typeof item === 'number') ? parsed : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Shape a `memory_entries` row for export. Drops access tracking and
+ * organization columns, which are meaningless in another tenant.
+ */
+export function toExportRecord(row: Record<string, unknown>, includeEmbedding: boolean): MemoryExportRecord {
+  const record: MemoryExportRecord = {
+    id: String(row.id),
+    title: String(row.title ?? ''),
+    content: String(row.content ?? ''),
+    memory_type: (row.memory_type ?? 'context') as MemoryType,
+    tags: Array.isArray(row.tags) ? row.tags as string[] : [],
+    topic_id: typeof row.topic_id === 'string' ? row.topic_id : null,
+    metadata: row.metadata && typeof row.metadata === 'object' ? row.metadata as Record<string, unknown> : {},
+    user_id: String(row.user_id ?? ''),
+    created_at: String(row.created_at ?? ''),
+    updated_at: String(row.updated_at ?? '')
+  };
+
+  if (includeEmbedding) {
+    const embedding = parseStoredEmbedding(row.embedding);
+    if (embedding) record.embedding = embedding;
+  }
+
+  return record;
+}
@@ -12,6 +12,7 @@ import { createClient, SupabaseClient } from '@supabase/supabase-js';
 import { config } from '@/config/environment';
 import { logger } from '@/utils/logger';
 import { validate as isValidUUID } from 'uuid';
+import type { UnifiedUser } from '@/types/express-auth';
 
 const supabase: SupabaseClient = createClient(config.SUPABASE_URL, config.SUPABASE_SERVICE_KEY);
 
@@ -138,6 +139,66 @@ export async function resolveOrganizationIdsBatch(
   );
 }
 
+/**
+ * Resolve user context with intelligent organization ID handling
+ * Supports vendor API keys, regular API keys, and JWT tokens
+ */
+export const resolveUserContext = async (user?: UnifiedUser) => {
+  const userId = user?.userId ?? user?.sub ?? user?.id ?? user?.user_id;
+  const rawOrganizationId = user?.organizationId ?? user?.organization_id;
+  const plan = (user?.plan as string | undefined) ?? 'free';
+
+  if (!userId) {
+    return { userId: '', organizationId: '', plan, isResolved: false };
+  }
+
+  // Use intelligent organization resolver to handle all patterns
+  const resolution = await resolveOrganizationId(rawOrganizationId, userId);
+
+  // Log if fallback was used
+  if (resolution.isFallback || resolution.isVendor) {
+    logger.info('Organization ID resolved with special handling', {
+      userId,
+      rawOrganizationId,
+      resolvedOrganizationId: resolution.organizationId,
+      source: resolution.source,
+      isVendor: resolution.isVendor,
+      isFallback: resolution.isFallback
+    });
+  }
+
+  return {
+    userId,
+    organizationId: resolution.organizationId,
+    plan,
+    isResolved: true,
+    isVendor: resolution.isVendor
+  };
+};
+
+/**
+ * Embedding provider an organization selected in settings.embedding_provider,
+ * or null to use the deployment default. Read failures also yield null so a
+ * settings problem never blocks memory writes.
+ */
+export async function getOrganizationEmbeddingProvider(organizationId: string): Promise<string | null> {
+  const { data, error } = await supabase
+    .from('organizations')
+    .select('settings')
+    .eq('id', organizationId)
+    .single();
+
+  if (error) {
+    if (error.code !== 'PGRST116') {
+      logger.warn('Failed to read organization embedding settings', { error, organizationId });
+    }
+    return null;
+  }
+
+  const settings = (data?.settings ?? {}) as Record<string, unknown>;
+  return typeof settings.embedding_provider === 'string' ? settings.embedding_provider : null;
+}
+
 /**
  * Clear organization cache (useful for testing or after org changes)
  */
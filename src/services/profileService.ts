@@ -2,6 +2,17 @@ import { createClient, SupabaseClient } from '@supabase/supabase-js';
 import { config } from '@/config/environment';
 import { logger } from '@/utils/logger';
 import { MetricsCollector } from '@/utils/metrics';
+import { ConflictError } from '@/middleware/errorHandler';
+import {
+  InferredConclusion,
+  MemoryProfile,
+  PROFILE_FIELDS,
+  ProfileField,
+  ProfileFieldEvidence,
+  ProfileRevision,
+  emptyStructuredFields,
+  profileRevisionParams,
+} from '@/services/reasoningEngine';
 
 // ---------------------------------------------------------------------------
 // Typed Errors
@@ -36,39 +47,115 @@ export class TimeoutError extends Error {
 // Types
 // ---------------------------------------------------------------------------
 
-export interface MemoryProfile {
-  subject_id: string;
-  organization_id: string | null;
-  profile_summary: string | null;
-  structured_fields: {
-    preferences: string[];
-    goals: string[];
-    constraints: string[];
-    tendencies: string[];
-    facts: string[];
-  };
-  last_reasoned_at: string | null;
-  freshness: string;
-  confidence_by_field: Record<string, number>;
-  head_version_id: string | null;
-  created_at: string;
-  updated_at: string;
-}
+export { PROFILE_FIELDS } from '@/services/reasoningEngine';
+export type {
+  MemoryProfile,
+  ProfileField,
+  ProfileFieldEvidence,
+  ProfileStructuredFields,
+} from '@/services/reasoningEngine';
 
 export interface ProfileVersion {
   id: string;
   profile_id: string;
   diff: Record<string, unknown>;
   source_job_id: string | null;
+  edited_by: string | null;
   created_at: string;
 }
 
+export interface ProfileEdit {
+  profile_summary?: string | null | undefined;
+  structured_fields?: { [K in ProfileField]?: string[] | undefined } | undefined;
+  pin?: ProfileField[] | undefined;
+  unpin?: ProfileField[] | undefined;
+  /** Pin every field whose items are edited, so reasoning leaves them alone (default true) */
+  pin_edited_fields?: boolean | undefined;
+}
+
+export interface ProfileFieldEvidenceEntry extends ProfileFieldEvidence {
+  field: ProfileField;
+  pinned: boolean;
+  conclusions: InferredConclusion[];
+}
+
 export interface ProfileAnswer {
   answer: string;
   sources: string[];
   confidence: number;
 }
 
+// ---------------------------------------------------------------------------
+// Manual edits
+// ---------------------------------------------------------------------------
+
+const sameItems = (a: string[], b: string[]): boolean =>
+  a.length === b.length && a.every((item, index) => item === b[index]);
+
+/**
+ * Apply a manual edit to a profile. Edited fields get manual evidence and
+ * full confidence; pins are applied after unpins. Returns null when the edit
+ * changes nothing.
+ */
+export function applyProfileEdit(
+  profile: MemoryProfile,
+  edit: ProfileEdit,
+  editedBy: string | null,
+  now: Date,
+): ProfileRevision | null {
+  const current = { ...emptyStructuredFields(), ...profile.structured_fields };
+  const structured = { ...current };
+  const evidence = { ...profile.field_evidence };
+  const confidence = { ...profile.confidence_by_field };
+  const pinned = new Set(profile.pinned_fields ?? []);
+  const fieldChanges: Partial<Record<ProfileField, { from: string[]; to: string[] }>> = {};
+  const diff: Record<string, unknown> = { source: 'manual' };
+
+  for (const field of PROFILE_FIELDS) {
+    const next = edit.structured_fields?.[field];
+    if (!next) continue;
+    const items = next.map((item) => item.trim()).filter((item) => item.length > 0);
+    if (sameItems(items, current[field])) continue;
+
+    fieldChanges[field] = { from: current[field], to: items };
+    structured[field] = items;
+    evidence[field] = {
+      source: 'manual',
+      conclusion_ids: [],
+      memory_ids: [],
+      updated_at: now.toISOString(),
+      updated_by: editedBy,
+    };
+    confidence[field] = 1;
+    if (edit.pin_edited_fields !== false) pinned.add(field);
+  }
+  if (Object.keys(fieldChanges).length > 0) diff.fields = fieldChanges;
+
+  const summary = edit.profile_summary === undefined ? profile.profile_summary : edit.profile_summary;
+  if (summary !== profile.profile_summary) {
+    diff.profile_summary = { from: profile.profile_summary, to: summary };
+  }
+
+  edit.unpin?.forEach((field) => pinned.delete(field));
+  edit.pin?.forEach((field) => pinned.add(field));
+  const pinnedFields = PROFILE_FIELDS.filter((field) => pinned.has(field));
+  const before = profile.pinned_fields ?? [];
+  if (!sameItems(pinnedFields, PROFILE_FIELDS.filter((field) => before.includes(field)))) {
+    diff.pinned_fields = { from: before, to: pinnedFields };
+  }
+
+  if (Object.keys(diff).length === 1) return null;
+
+  return {
+    profile_summary: summary,
+    structured_fields: structured,
+    pinned_fields: pinnedFields,
+    field_evidence: evidence,
+    confidence_by_field: confidence,
+    diff,
+  };
+}
+
 // ---------------------------------------------------------------------------
 // ProfileService
 // ---------------------------------------------------------------------------
@@ -172,6 +259,117 @@ export class ProfileService {
     return (data as ProfileVersion[]) ?? [];
   }
 
+  /**
+   * Edit a profile's summary, structured fields or pins, recording the change
+   * as a new version. Returns null when the profile does not exist. Throws
+   * ConflictError when expected_head_version_id is stale or the profile moved
+   * while the edit was being written.
+   */
+  async updateProfile(
+    subject_id: string,
+    edit: ProfileEdit,
+    opts: {
+      organization_id?: string | undefined;
+      edited_by?: string | undefined;
+      expected_head_version_id?: string | null | undefined;
+    } = {},
+  ): Promise<MemoryProfile | null> {
+    const startTime = Date.now();
+    const profile = await this.getProfile(subject_id, opts.organization_id);
+    if (!profile) return null;
+
+    if (opts.expected_head_version_id !== undefined && opts.expected_head_version_id !== profile.head_version_id) {
+      this.metrics.incrementCounter('profile.update.conflict', {}, 1);
+      throw new ConflictError(`Profile ${subject_id} has changed since version ${opts.expected_head_version_id}`);
+    }
+
+    const revision = applyProfileEdit(profile, edit, opts.edited_by ?? null, new Date());
+    if (!revision) {
+      logger.info('updateProfile: no changes', { subject_id });
+      return profile;
+    }
+
+    const { data, error } = await this.supabase.rpc(
+      'revise_memory_profile',
+      profileRevisionParams(subject_id, opts.organization_id ?? null, profile.head_version_id, revision, {
+        edited_by: opts.edited_by ?? null,
+      }),
+    );
+
+    if (error) {
+      logger.error('updateProfile failed', { subject_id, error: error.message });
+      this.metrics.incrementCounter('profile.update.error', {}, 1);
+      throw new DatabaseError(`updateProfile failed: ${error.message}`);
+    }
+
+    const updated = (data as MemoryProfile[] | null)?.[0];
+    if (!updated) {
+      this.metrics.incrementCounter('profile.update.conflict', {}, 1);
+      throw new ConflictError(`Profile ${subject_id} was updated concurrently`);
+    }
+
+    this.metrics.incrementCounter('profile.update.success', {}, 1);
+    this.metrics.recordDuration('profile.update.duration', Date.now() - startTime, { subject_id });
+    logger.info('Updated memory profile', {
+      subject_id,
+      fields: Object.keys((revision.diff.fields as Record<string, unknown> | undefined) ?? {}),
+      pinned_fields: revision.pinned_fields,
+    });
+
+    return updated;
+  }
+
+  /**
+   * Per-field provenance: where each field's items came from and the
+   * conclusions behind reasoned fields. Returns null when the profile does
+   * not exist.
+   */
+  async getFieldEvidence(
+    subject_id: string,
+    field?: ProfileField,
+    organization_id?: string,
+  ): Promise<ProfileFieldEvidenceEntry[] | null> {
+    const profile = await this.getProfile(subject_id, organization_id);
+    if (!profile) return null;
+
+    const fields = field ? [field] : PROFILE_FIELDS.filter((name) => profile.field_evidence?.[name]);
+    const conclusionIds = [...new Set(fields.flatMap((name) => profile.field_evidence?.[name]?.conclusion_ids ?? []))];
+
+    let conclusions: InferredConclusion[] = [];
+    if (conclusionIds.length > 0) {
+      const { data, error } = await this.supabase
+        .from('memory_inferred_conclusions')
+        .select('*')
+        .eq('subject_id', subject_id)
+        .in('id', conclusionIds);
+      if (error) {
+        logger.error('getFieldEvidence failed', { subject_id, error: error.message });
+        this.metrics.incrementCounter('profile.evidence.error', {}, 1);
+        throw new DatabaseError(`getFieldEvidence failed: ${error.message}`);
+      }
+      conclusions = (data as InferredConclusion[]) ?? [];
+    }
+
+    const byId = new Map(conclusions.map((conclusion) => [conclusion.id, conclusion]));
+    this.metrics.incrementCounter('profile.evidence.success', {}, 1);
+
+    return fields.map((name) => {
+      const evidence = profile.field_evidence?.[name];
+      return {
+        field: name,
+        pinned: (profile.pinned_fields ?? []).includes(name),
+        source: evidence?.source ?? 'reasoning',
+        conclusion_ids: evidence?.conclusion_ids ?? [],
+        memory_ids: evidence?.memory_ids ?? [],
+        updated_at: evidence?.updated_at ?? profile.updated_at,
+        updated_by: evidence?.updated_by ?? null,
+        conclusions: (evidence?.conclusion_ids ?? [])
+          .map((id) => byId.get(id))
+          .filter((conclusion): conclusion is InferredConclusion => conclusion !== undefined),
+      };
+    });
+  }
+
   /**
    * Ask a profile a question via the intelligence edge function.
    * Uses AbortController with 30s timeout to prevent indefinite hangs.
@@ -0,0 +1,275 @@
+import { createClient as createRedisClient } from 'redis';
+
+import { config } from '@/config/environment';
+import { logger } from '@/utils/logger';
+
+/** Which SSE endpoint an event is meant for */
+export type RealtimeChannel = 'sse' | 'mcp';
+
+/**
+ * A message fanned out to every API instance. `id` is assigned by the bus,
+ * is totally ordered, and is what SSE clients send back as Last-Event-ID.
+ */
+export interface RealtimeEvent {
+  id: string;
+  channel: RealtimeChannel;
+  /** Deliver only to this user's connections; null means everyone */
+  user_id: string | null;
+  payload: Record<string, unknown>;
+  published_at: string;
+}
+
+export type RealtimeEventInput = Omit<RealtimeEvent, 'id' | 'published_at'>;
+
+export type RealtimeEventListener = (event: RealtimeEvent) => void;
+
+export interface RealtimeReplay {
+  events: RealtimeEvent[];
+  /** The requested ID is older than the retained log, so some events are missing */
+  truncated: boolean;
+}
+
+export interface RealtimeEventBus {
+  readonly backend: 'memory' | 'redis';
+  publish(event: RealtimeEventInput): Promise<RealtimeEvent>;
+  /** Receives every published event, from this instance and others */
+  subscribe(listener: RealtimeEventListener): () => void;
+  /** Events published after `lastEventId`, oldest first */
+  replay(lastEventId: string): Promise<RealtimeReplay>;
+  close(): Promise<void>;
+}
+
+const EVENT_ID_PATTERN = /^(\d+)-(\d+)$/;
+
+/**
+ * Order two "<ms>-<seq>" event IDs (the Redis stream ID format, also used by
+ * the in-memory bus). Returns null when either ID is malformed.
+ */
+export function compareRealtimeEventIds(a: string, b: string): number | null {
+  const left = EVENT_ID_PATTERN.exec(a);
+  const right = EVENT_ID_PATTERN.exec(b);
+  if (!left || !right) return null;
+
+  const [, leftMs = '0', leftSeq = '0'] = left;
+  const [, rightMs = '0', rightSeq = '0'] = right;
+  const byTime = Number(leftMs) - Number(rightMs);
+  return byTime !== 0 ? Math.sign(byTime) : Math.sign(Number(leftSeq) - Number(rightSeq));
+}
+
+const notifyAll = (listeners: Set<RealtimeEventListener>, event: RealtimeEvent): void => {
+  listeners.forEach((listener) => {
+    try {
+      listener(event);
+    } catch (error) {
+      logger.error('Realtime event listener failed', { error, eventId: event.id });
+    }
+  });
+};
+
+/**
+ * Single-process bus with a bounded ring of recent events. Correct for one
+ * instance; behind a load balancer use the Redis bus.
+ */
+export class InMemoryRealtimeEventBus implements RealtimeEventBus {
+  readonly backend = 'memory' as const;
+  private readonly listeners = new Set<RealtimeEventListener>();
+  private readonly log: RealtimeEvent[] = [];
+  private lastMs = 0;
+  private sequence = 0;
+
+  constructor(private readonly logSize: number = config.REALTIME_EVENT_LOG_SIZE) {}
+
+  private nextId(): string {
+    const now = Date.now();
+    if (now > this.lastMs) {
+      this.lastMs = now;
+      this.sequence = 0;
+    } else {
+      this.sequence += 1;
+    }
+    return `${this.lastMs}-${this.sequence}`;
+  }
+
+  async publish(input: RealtimeEventInput): Promise<RealtimeEvent> {
+    const event: RealtimeEvent = { ...input, id: this.nextId(), published_at: new Date().toISOString() };
+
+    this.log.push(event);
+    if (this.log.length > this.logSize) {
+      this.log.splice(0, this.log.length - this.logSize);
+    }
+
+    notifyAll(this.listeners, event);
+    return event;
+  }
+
+  subscribe(listener: RealtimeEventListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  async replay(lastEventId: string): Promise<RealtimeReplay> {
+    const oldest = this.log[0];
+    if (!oldest) {
+      return { events: [], truncated: false };
+    }
+
+    const sinceOldest = compareRealtimeEventIds(lastEventId, oldest.id);
+    if (sinceOldest === null) {
+      return { events: [], truncated: true };
+    }
+
+    return {
+      events: this.log.filter((event) => (compareRealtimeEventIds(event.id, lastEventId) ?? 0) > 0),
+      // The event right before the oldest retained one may have been lastEventId itself
+      truncated: sinceOldest < 0 && this.log.length >= this.logSize
+    };
+  }
+
+  async close(): Promise<void> {
+    this.listeners.clear();
+  }
+}
+
+type RedisClient = ReturnType<typeof createRedisClient>;
+
+/**
+ * Cross-instance bus. Each event is appended to a capped Redis stream (which
+ * assigns the ID and serves replay) and then published on a pub/sub channel
+ * that every instance subscribes to.
+ */
+export class RedisRealtimeEventBus implements RealtimeEventBus {
+  readonly backend = 'redis' as const;
+  private readonly listeners = new Set<RealtimeEventListener>();
+  private readonly streamKey: string;
+  private readonly channelKey: string;
+  private readonly logSize: number;
+  private readonly publisher: RedisClient;
+  private readonly subscriber: RedisClient;
+  private ready: Promise<void> | null = null;
+
+  constructor(
+    url: string,
+    options: { password?: string | undefined; keyPrefix?: string; logSize?: number } = {}
+  ) {
+    const prefix = options.keyPrefix ?? config.REDIS_KEY_PREFIX;
+    this.streamKey = `${prefix}realtime:log`;
+    this.channelKey = `${prefix}realtime:events`;
+    this.logSize = options.logSize ?? config.REALTIME_EVENT_LOG_SIZE;
+
+    this.publisher = createRedisClient({ url, ...(options.password ? { password: options.password } : {}) });
+    this.subscriber = this.publisher.duplicate();
+    [this.publisher, this.subscriber].forEach((client) => {
+      client.on('error', (error: unknown) => logger.error('Realtime Redis client error', { error }));
+    });
+  }
+
+  private connect(): Promise<void> {
+    if (!this.ready) {
+      this.ready = (async () => {
+        await Promise.all([this.publisher.connect(), this.subscriber.connect()]);
+        await this.subscriber.subscribe(this.channelKey, (message) => {
+          try {
+            notifyAll(this.listeners, JSON.parse(message) as RealtimeEvent);
+          } catch (error) {
+            logger.error('Discarding malformed realtime event', { error });
+          }
+        });
+        logger.info('Realtime event bus connected to Redis', { channel: this.channelKey });
+      })().catch((error: unknown) => {
+        this.ready = null;
+        throw error;
+      });
+    }
+    return this.ready;
+  }
+
+  async publish(input: RealtimeEventInput): Promise<RealtimeEvent> {
+    await this.connect();
+
+    const publishedAt = new Date().toISOString();
+    const id = await this.publisher.xAdd(
+      this.streamKey,
+      '*',
+      { event: JSON.stringify({ ...input, published_at: publishedAt }) },
+      { TRIM: { strategy: 'MAXLEN', strategyModifier: '~', threshold: this.logSize } }
+    );
+
+    const event: RealtimeEvent = { ...input, id, published_at: publishedAt };
+    await this.publisher.publish(this.channelKey, JSON.stringify(event));
+    return event;
+  }
+
+  subscribe(listener: RealtimeEventListener): () => void {
+    this.listeners.add(listener);
+    this.connect().catch((error: unknown) => {
+      logger.error('Failed to subscribe to realtime events', { error });
+    });
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  async replay(lastEventId: string): Promise<RealtimeReplay> {
+    if (!EVENT_ID_PATTERN.test(lastEventId)) {
+      return { events: [], truncated: true };
+    }
+
+    await this.connect();
+    const [oldest] = await this.publisher.xRange(this.streamKey, '-', '+', { COUNT: 1 });
+    const entries = await this.publisher.xRange(this.streamKey, `(${lastEventId}`, '+', { COUNT: this.logSize });
+
+    const events = entries.flatMap((entry) => {
+      try {
+        const stored = JSON.parse(entry.message.event ?? '') as Omit<RealtimeEvent, 'id'>;
+        return [{ ...stored, id: entry.id }];
+      } catch {
+        return [];
+      }
+    });
+
+    return {
+      events,
+      truncated: !!oldest && (compareRealtimeEventIds(lastEventId, oldest.id) ?? 0) < 0
+    };
+  }
+
+  async close(): Promise<void> {
+    this.listeners.clear();
+    if (this.ready) {
+      await Promise.allSettled([this.subscriber.quit(), this.publisher.quit()]);
+      this.ready = null;
+    }
+  }
+}
+
+let sharedBus: RealtimeEventBus | null = null;
+
+/**
+ * The process-wide bus, chosen by REALTIME_BACKEND ('auto' picks Redis when
+ * REDIS_URL is configured)
+ */
+export function getRealtimeEventBus(): RealtimeEventBus {
+  if (!sharedBus) {
+    const useRedis = config.REALTIME_BACKEND === 'redis'
+      || (config.REALTIME_BACKEND === 'auto' && !!config.REDIS_URL);
+
+    if (useRedis && config.REDIS_URL) {
+      sharedBus = new RedisRealtimeEventBus(config.REDIS_URL, { password: config.REDIS_PASSWORD });
+    } else {
+      if (useRedis) {
+        logger.warn('REALTIME_BACKEND=redis but REDIS_URL is not set; using in-memory realtime bus');
+      }
+      sharedBus = new InMemoryRealtimeEventBus();
+    }
+  }
+  return sharedBus;
+}
+
+/**
+ * Replace the shared bus (tests, or a custom backend)
+ */
+export function setRealtimeEventBus(bus: RealtimeEventBus | null): void {
+  sharedBus = bus;
+}
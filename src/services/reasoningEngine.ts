@@ -0,0 +1,816 @@
+/**
+ * Reasoning pipeline for intelligence jobs.
+ *
+ * Claims pending memory_inference_jobs, loads their source memories, asks a
+ * ReasoningLlmClient for conclusions and writes them to
+ * memory_inferred_conclusions with the memories that support them, then
+ * rebuilds the subject's profile fields from the active conclusions. Runs in
+ * the API process, the standalone worker (src/reasoningWorker.ts) and the
+ * intelligence-flush-reasoning-queue Edge Function, so it is kept free of
+ * `@/` imports, app config and Node-only modules.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export const CONCLUSION_TYPES = ['explicit', 'deductive', 'inductive', 'abductive'] as const;
+
+export type ConclusionType = typeof CONCLUSION_TYPES[number];
+
+export const PROFILE_FIELDS = ['preferences', 'goals', 'constraints', 'tendencies', 'facts'] as const;
+
+export type ProfileField = typeof PROFILE_FIELDS[number];
+
+export type ProfileStructuredFields = Record<ProfileField, string[]>;
+
+export interface InferredConclusion {
+  id: string;
+  subject_id: string;
+  organization_id: string | null;
+  conclusion_type: ConclusionType;
+  content: string;
+  confidence: number;
+  evidence_memory_ids: string[];
+  scope: string | null;
+  freshness: string;
+  superseded_by: string | null;
+  contradiction_group_id: string | null;
+  created_at: string;
+  source_job_id: string | null;
+  /** Set once a person resolved a contradiction involving this conclusion */
+  resolution_id: string | null;
+  /** Profile field the conclusion feeds, if any */
+  profile_field: ProfileField | null;
+}
+
+export interface ReasoningJob {
+  id: string;
+  subject_id: string;
+  organization_id: string | null;
+  source_memory_ids: string[];
+  status: 'pending' | 'running' | 'completed' | 'failed';
+  source_event: 'memory.create' | 'memory.update' | 'manual.flush' | 'reprocess';
+  pending_token_count: number;
+  created_at: string;
+  started_at: string | null;
+  completed_at: string | null;
+  error: string | null;
+}
+
+/** Where a profile field's current items came from */
+export interface ProfileFieldEvidence {
+  source: 'reasoning' | 'manual';
+  conclusion_ids: string[];
+  memory_ids: string[];
+  updated_at: string;
+  updated_by: string | null;
+}
+
+export type ProfileFieldEvidenceMap = Partial<Record<ProfileField, ProfileFieldEvidence>>;
+
+export interface MemoryProfile {
+  subject_id: string;
+  organization_id: string | null;
+  profile_summary: string | null;
+  structured_fields: ProfileStructuredFields;
+  last_reasoned_at: string | null;
+  freshness: string;
+  confidence_by_field: Record<string, number>;
+  head_version_id: string | null;
+  /** Fields reasoning never rewrites */
+  pinned_fields: ProfileField[];
+  field_evidence: ProfileFieldEvidenceMap;
+  created_at: string;
+  updated_at: string;
+}
+
+/** The full next state of a profile plus the diff recorded as its version */
+export interface ProfileRevision {
+  profile_summary: string | null;
+  structured_fields: ProfileStructuredFields;
+  pinned_fields: ProfileField[];
+  field_evidence: ProfileFieldEvidenceMap;
+  confidence_by_field: Record<string, number>;
+  diff: Record<string, unknown>;
+}
+
+export interface ReasoningMemory {
+  id: string;
+  title: string | null;
+  content: string;
+  created_at: string;
+}
+
+/**
+ * A conclusion as returned by the LLM. `supersedes` and `contradicts` hold
+ * ids of active conclusions, or `#<index>` to point at another proposal in
+ * the same response.
+ */
+export interface ProposedConclusion {
+  conclusion_type: ConclusionType;
+  content: string;
+  confidence: number;
+  evidence_memory_ids: string[];
+  scope?: string | null;
+  profile_field?: ProfileField | null;
+  /** Conclusions this one replaces; they stop being listed as active */
+  supersedes?: string[];
+  /** Conclusions this one disagrees with; all stay active in one contradiction group */
+  contradicts?: string[];
+}
+
+export interface ReasoningInput {
+  job: ReasoningJob;
+  memories: ReasoningMemory[];
+  /** Active conclusions for the subject, for supersede and contradiction references */
+  existing: InferredConclusion[];
+  /** Conclusions a person rejected when resolving a contradiction; not to be proposed again */
+  rejected: InferredConclusion[];
+}
+
+export interface ReasoningLlmClient {
+  readonly name: string;
+  infer(input: ReasoningInput): Promise<ProposedConclusion[]>;
+}
+
+export interface ReasoningStore {
+  /** Atomically move up to `limit` pending jobs to running and return them */
+  claimJobs(limit: number, subjectId?: string): Promise<ReasoningJob[]>;
+  loadMemories(job: ReasoningJob): Promise<ReasoningMemory[]>;
+  listActiveConclusions(job: ReasoningJob): Promise<InferredConclusion[]>;
+  listRejectedConclusions(job: ReasoningJob): Promise<InferredConclusion[]>;
+  insertConclusions(conclusions: InferredConclusion[]): Promise<void>;
+  supersedeConclusions(ids: string[], supersededBy: string): Promise<void>;
+  setContradictionGroup(ids: string[], groupId: string): Promise<void>;
+  completeJob(jobId: string): Promise<void>;
+  failJob(jobId: string, error: string): Promise<void>;
+  loadProfile(job: ReasoningJob): Promise<MemoryProfile | null>;
+  /** Write a revision unless the profile moved past `expectedHeadVersionId`; false on conflict */
+  saveProfileRevision(job: ReasoningJob, expectedHeadVersionId: string | null, revision: ProfileRevision): Promise<boolean>;
+}
+
+export interface ReasoningRunResult {
+  job_ids: string[];
+  failed_job_ids: string[];
+  conclusion_count: number;
+}
+
+export class ReasoningStoreError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ReasoningStoreError';
+  }
+}
+
+export class ReasoningLlmError extends Error {
+  constructor(message: string, public readonly status?: number) {
+    super(message);
+    this.name = 'ReasoningLlmError';
+  }
+}
+
+const errorMessage = (err: unknown): string => (err instanceof Error ? err.message : String(err));
+
+const normalizeContent = (content: string): string => content.trim().replace(/\s+/g, ' ').toLowerCase();
+
+const isConclusionType = (value: unknown): value is ConclusionType =>
+  typeof value === 'string' && (CONCLUSION_TYPES as readonly string[]).includes(value);
+
+export const isProfileField = (value: unknown): value is ProfileField =>
+  typeof value === 'string' && (PROFILE_FIELDS as readonly string[]).includes(value);
+
+export const emptyStructuredFields = (): ProfileStructuredFields => ({
+  preferences: [],
+  goals: [],
+  constraints: [],
+  tendencies: [],
+  facts: [],
+});
+
+const sameItems = (a: string[], b: string[]): boolean =>
+  a.length === b.length && a.every((item, index) => item === b[index]);
+
+const MAX_PROFILE_ITEMS = 10;
+
+const profileItem = (conclusion: InferredConclusion): string =>
+  conclusion.scope ? `${conclusion.content} (${conclusion.scope})` : conclusion.content;
+
+/**
+ * Rebuild the unpinned structured fields of a profile from the subject's
+ * active conclusions. Conclusions in an open contradiction group are left
+ * out until a person resolves it, and a manually written field is only
+ * replaced once reasoning has something for it. Returns null when nothing
+ * changed.
+ */
+export function buildProfileRevision(
+  profile: MemoryProfile | null,
+  active: InferredConclusion[],
+  now: Date,
+): ProfileRevision | null {
+  const current = { ...emptyStructuredFields(), ...profile?.structured_fields };
+  const pinned = profile?.pinned_fields ?? [];
+  const structured = { ...current };
+  const evidence: ProfileFieldEvidenceMap = { ...profile?.field_evidence };
+  const confidence = { ...profile?.confidence_by_field };
+  const changes: Partial<Record<ProfileField, { from: string[]; to: string[] }>> = {};
+
+  for (const field of PROFILE_FIELDS) {
+    if (pinned.includes(field)) continue;
+
+    const top = active
+      .filter((c) => c.profile_field === field && !c.contradiction_group_id && !c.superseded_by)
+      .sort((a, b) => b.confidence - a.confidence || a.created_at.localeCompare(b.created_at))
+      .slice(0, MAX_PROFILE_ITEMS);
+    if (top.length === 0 && evidence[field]?.source === 'manual') continue;
+
+    const items = top.map(profileItem);
+    if (sameItems(items, current[field])) continue;
+
+    changes[field] = { from: current[field], to: items };
+    structured[field] = items;
+    if (top.length > 0) {
+      evidence[field] = {
+        source: 'reasoning',
+        conclusion_ids: top.map((c) => c.id),
+        memory_ids: [...new Set(top.flatMap((c) => c.evidence_memory_ids))],
+        updated_at: now.toISOString(),
+        updated_by: null,
+      };
+      confidence[field] = Math.round((top.reduce((sum, c) => sum + c.confidence, 0) / top.length) * 100) / 100;
+    } else {
+      delete evidence[field];
+      delete confidence[field];
+    }
+  }
+
+  if (Object.keys(changes).length === 0) return null;
+
+  return {
+    profile_summary: profile?.profile_summary ?? null,
+    structured_fields: structured,
+    pinned_fields: pinned,
+    field_evidence: evidence,
+    confidence_by_field: confidence,
+    diff: { source: 'reasoning', fields: changes },
+  };
+}
+
+/**
+ * Parameters for revise_memory_profile, shared by the reasoner and manual edits
+ */
+export function profileRevisionParams(
+  subjectId: string,
+  organizationId: string | null,
+  expectedHeadVersionId: string | null,
+  revision: ProfileRevision,
+  meta: { source_job_id?: string | null; edited_by?: string | null } = {},
+): Record<string, unknown> {
+  return {
+    subject_id_param: subjectId,
+    organization_id_param: organizationId,
+    expected_head_param: expectedHeadVersionId,
+    profile_summary_param: revision.profile_summary,
+    structured_fields_param: revision.structured_fields,
+    pinned_fields_param: revision.pinned_fields,
+    field_evidence_param: revision.field_evidence,
+    confidence_by_field_param: revision.confidence_by_field,
+    diff_param: revision.diff,
+    source_job_id_param: meta.source_job_id ?? null,
+    edited_by_param: meta.edited_by ?? null,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Runner
+// ---------------------------------------------------------------------------
+
+export interface ReasoningRunnerOptions {
+  /** Jobs claimed per batch */
+  batchSize?: number;
+  /** Conclusions below this confidence are dropped */
+  minConfidence?: number;
+  idFactory?: () => string;
+  now?: () => Date;
+}
+
+export class ReasoningRunner {
+  private readonly batchSize: number;
+  private readonly minConfidence: number;
+  private readonly newId: () => string;
+  private readonly now: () => Date;
+
+  constructor(
+    private readonly store: ReasoningStore,
+    private readonly llm: ReasoningLlmClient,
+    options: ReasoningRunnerOptions = {},
+  ) {
+    this.batchSize = options.batchSize ?? 10;
+    this.minConfidence = options.minConfidence ?? 0.3;
+    this.newId = options.idFactory ?? (() => crypto.randomUUID());
+    this.now = options.now ?? (() => new Date());
+  }
+
+  /**
+   * Claim and process pending jobs batch by batch until none are left. A
+   * failed job is marked failed and does not stop the others.
+   */
+  async runPending(subjectId?: string): Promise<ReasoningRunResult> {
+    const result: ReasoningRunResult = { job_ids: [], failed_job_ids: [], conclusion_count: 0 };
+
+    for (;;) {
+      const jobs = await this.store.claimJobs(this.batchSize, subjectId);
+      for (const job of jobs) {
+        try {
+          result.conclusion_count += await this.runJob(job);
+          result.job_ids.push(job.id);
+        } catch {
+          result.failed_job_ids.push(job.id);
+        }
+      }
+      if (jobs.length < this.batchSize) return result;
+    }
+  }
+
+  /**
+   * Process one claimed job and return the number of conclusions written.
+   * Marks the job completed, or failed (and rethrows) on any error.
+   */
+  async runJob(job: ReasoningJob): Promise<number> {
+    try {
+      const memories = await this.store.loadMemories(job);
+      let written = 0;
+
+      if (memories.length > 0) {
+        const [existing, rejected] = await Promise.all([
+          this.store.listActiveConclusions(job),
+          this.store.listRejectedConclusions(job),
+        ]);
+        const proposals = await this.llm.infer({ job, memories, existing, rejected });
+        written = await this.apply({ job, memories, existing, rejected }, proposals);
+        if (written > 0) await this.refreshProfile(job);
+      }
+
+      await this.store.completeJob(job.id);
+      return written;
+    } catch (err) {
+      await this.store.failJob(job.id, errorMessage(err)).catch(() => undefined);
+      throw err;
+    }
+  }
+
+  /**
+   * Rebuild the profile from active conclusions. A concurrent edit moves the
+   * head version; reload and retry on top of it.
+   */
+  private async refreshProfile(job: ReasoningJob): Promise<void> {
+    for (let attempt = 0; attempt < 3; attempt++) {
+      const [profile, active] = await Promise.all([
+        this.store.loadProfile(job),
+        this.store.listActiveConclusions(job),
+      ]);
+      const revision = buildProfileRevision(profile, active, this.now());
+      if (!revision) return;
+      if (await this.store.saveProfileRevision(job, profile?.head_version_id ?? null, revision)) return;
+    }
+    throw new ReasoningStoreError(`Profile for ${job.subject_id} kept changing during reasoning`);
+  }
+
+  private async apply(
+    { job, memories, existing, rejected }: ReasoningInput,
+    proposals: ProposedConclusion[],
+  ): Promise<number> {
+    const memoryIds = new Set(memories.map((memory) => memory.id));
+    const existingById = new Map(existing.map((conclusion) => [conclusion.id, conclusion]));
+    const existingByContent = new Map(existing.map((conclusion) => [normalizeContent(conclusion.content), conclusion]));
+    const rejectedContent = new Set(rejected.map((conclusion) => normalizeContent(conclusion.content)));
+    const timestamp = this.now().toISOString();
+
+    // Conclusion id per proposal index: a new row, the conclusion it
+    // restates, or null when the proposal is invalid
+    const ids: Array<string | null> = [];
+    const created: Array<{ row: InferredConclusion; proposal: ProposedConclusion }> = [];
+    const seen = new Map<string, string>();
+
+    proposals.forEach((proposal) => {
+      const content = typeof proposal.content === 'string' ? proposal.content.trim() : '';
+      // Evidence must come from this job's memories; the LLM cannot cite anything else
+      const evidence = [...new Set((proposal.evidence_memory_ids ?? []).filter((id) => memoryIds.has(id)))];
+      const confidence = Math.min(1, Math.max(0, Number(proposal.confidence) || 0));
+      const key = normalizeContent(content);
+
+      if (!content || !isConclusionType(proposal.conclusion_type) || evidence.length === 0
+        || confidence < this.minConfidence || rejectedContent.has(key)) {
+        ids.push(null);
+        return;
+      }
+
+      const duplicate = seen.get(key) ?? existingByContent.get(key)?.id;
+      if (duplicate) {
+        ids.push(duplicate);
+        return;
+      }
+
+      const id = this.newId();
+      ids.push(id);
+      seen.set(key, id);
+      created.push({ proposal, row: {
+        id,
+        subject_id: job.subject_id,
+        organization_id: job.organization_id,
+        conclusion_type: proposal.conclusion_type,
+        content,
+        confidence,
+        evidence_memory_ids: evidence,
+        scope: proposal.scope ?? null,
+        freshness: timestamp,
+        superseded_by: null,
+        contradiction_group_id: null,
+        created_at: timestamp,
+        source_job_id: job.id,
+        resolution_id: null,
+        profile_field: isProfileField(proposal.profile_field) ? proposal.profile_field : null,
+      } });
+    });
+
+    const resolve = (ref: string): string | null => {
+      if (ref.startsWith('#')) {
+        const index = Number(ref.slice(1));
+        return Number.isInteger(index) ? ids[index] ?? null : null;
+      }
+      return existingById.has(ref) ? ref : null;
+    };
+
+    const supersedes = new Map<string, string>();
+    const groupUpdates = new Map<string, string>();
+    const rowById = new Map(created.map(({ row }) => [row.id, row]));
+    const groupOf = (id: string): string | null =>
+      rowById.get(id)?.contradiction_group_id ?? groupUpdates.get(id)
+      ?? existingById.get(id)?.contradiction_group_id ?? null;
+
+    for (const { row, proposal } of created) {
+      const contradicts = [...(proposal.contradicts ?? [])];
+      for (const ref of proposal.supersedes ?? []) {
+        const target = resolve(ref);
+        // Only active conclusions from earlier runs can be superseded. One a
+        // person chose stays until they decide again: new evidence against it
+        // opens a contradiction for review instead of replacing it.
+        if (!target || !existingById.has(target)) continue;
+        if (existingById.get(target)?.resolution_id) contradicts.push(target);
+        else supersedes.set(target, row.id);
+      }
+
+      const members = contradicts
+        .map(resolve)
+        .filter((id): id is string => !!id && id !== row.id && !supersedes.has(id));
+      if (members.length === 0) continue;
+
+      // Join a group one side already belongs to, otherwise start one
+      const groupId = [row.id, ...members].map(groupOf).find((group): group is string => !!group) ?? this.newId();
+      for (const id of [row.id, ...members]) {
+        const newRow = rowById.get(id);
+        if (newRow) newRow.contradiction_group_id = groupId;
+        else if (existingById.get(id)?.contradiction_group_id !== groupId) groupUpdates.set(id, groupId);
+      }
+    }
+
+    const conclusions = created.map(({ row }) => row);
+    if (conclusions.length > 0) await this.store.insertConclusions(conclusions);
+
+    const bySuperseder = new Map<string, string[]>();
+    for (const [target, supersededBy] of supersedes) {
+      bySuperseder.set(supersededBy, [...(bySuperseder.get(supersededBy) ?? []), target]);
+    }
+    for (const [supersededBy, targets] of bySuperseder) {
+      await this.store.supersedeConclusions(targets, supersededBy);
+    }
+
+    const byGroup = new Map<string, string[]>();
+    for (const [id, groupId] of groupUpdates) {
+      byGroup.set(groupId, [...(byGroup.get(groupId) ?? []), id]);
+    }
+    for (const [groupId, members] of byGroup) {
+      await this.store.setContradictionGroup(members, groupId);
+    }
+
+    return conclusions.length;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Supabase store
+// ---------------------------------------------------------------------------
+
+export class SupabaseReasoningStore implements ReasoningStore {
+  constructor(private readonly supabase: SupabaseClient) {}
+
+  async claimJobs(limit: number, subjectId?: string): Promise<ReasoningJob[]> {
+    const { data, error } = await this.supabase.rpc('claim_reasoning_jobs', {
+      limit_param: limit,
+      subject_id_param: subjectId ?? null,
+    });
+    if (error) throw new ReasoningStoreError(`claim_reasoning_jobs failed: ${error.message}`);
+    return (data as ReasoningJob[]) ?? [];
+  }
+
+  async loadMemories(job: ReasoningJob): Promise<ReasoningMemory[]> {
+    if (job.source_memory_ids.length === 0) return [];
+
+    let query = this.supabase
+      .from('memory_entries')
+      .select('id, title, content, created_at')
+      .in('id', job.source_memory_ids)
+      .neq('state', 'deleted')
+      .order('created_at', { ascending: true });
+    if (job.organization_id) query = query.eq('organization_id', job.organization_id);
+
+    const { data, error } = await query;
+    if (error) throw new ReasoningStoreError(`Failed to load source memories: ${error.message}`);
+    return (data as ReasoningMemory[]) ?? [];
+  }
+
+  async listActiveConclusions(job: ReasoningJob): Promise<InferredConclusion[]> {
+    let query = this.supabase
+      .from('memory_inferred_conclusions')
+      .select('*')
+      .eq('subject_id', job.subject_id)
+      .is('superseded_by', null)
+      .order('confidence', { ascending: false })
+      .limit(200);
+    query = job.organization_id
+      ? query.eq('organization_id', job.organization_id)
+      : query.is('organization_id', null);
+
+    const { data, error } = await query;
+    if (error) throw new ReasoningStoreError(`Failed to list active conclusions: ${error.message}`);
+    return (data as InferredConclusion[]) ?? [];
+  }
+
+  async listRejectedConclusions(job: ReasoningJob): Promise<InferredConclusion[]> {
+    let query = this.supabase
+      .from('memory_inferred_conclusions')
+      .select('*')
+      .eq('subject_id', job.subject_id)
+      .not('superseded_by', 'is', null)
+      .not('resolution_id', 'is', null)
+      .order('created_at', { ascending: false })
+      .limit(200);
+    query = job.organization_id
+      ? query.eq('organization_id', job.organization_id)
+      : query.is('organization_id', null);
+
+    const { data, error } = await query;
+    if (error) throw new ReasoningStoreError(`Failed to list rejected conclusions: ${error.message}`);
+    return (data as InferredConclusion[]) ?? [];
+  }
+
+  async insertConclusions(conclusions: InferredConclusion[]): Promise<void> {
+    const { error } = await this.supabase.from('memory_inferred_conclusions').insert(conclusions);
+    if (error) throw new ReasoningStoreError(`Failed to insert conclusions: ${error.message}`);
+  }
+
+  async supersedeConclusions(ids: string[], supersededBy: string): Promise<void> {
+    const { error } = await this.supabase
+      .from('memory_inferred_conclusions')
+      .update({ superseded_by: supersededBy })
+      .in('id', ids)
+      .is('superseded_by', null)
+      .is('resolution_id', null);
+    if (error) throw new ReasoningStoreError(`Failed to supersede conclusions: ${error.message}`);
+  }
+
+  async setContradictionGroup(ids: string[], groupId: string): Promise<void> {
+    const { error } = await this.supabase
+      .from('memory_inferred_conclusions')
+      .update({ contradiction_group_id: groupId })
+      .in('id', ids);
+    if (error) throw new ReasoningStoreError(`Failed to set contradiction group: ${error.message}`);
+  }
+
+  async completeJob(jobId: string): Promise<void> {
+    const { error } = await this.supabase
+      .from('memory_inference_jobs')
+      .update({ status: 'completed', completed_at: new Date().toISOString(), error: null })
+      .eq('id', jobId);
+    if (error) throw new ReasoningStoreError(`Failed to complete job ${jobId}: ${error.message}`);
+  }
+
+  async failJob(jobId: string, message: string): Promise<void> {
+    const { error } = await this.supabase
+      .from('memory_inference_jobs')
+      .update({ status: 'failed', completed_at: new Date().toISOString(), error: message.slice(0, 1000) })
+      .eq('id', jobId);
+    if (error) throw new ReasoningStoreError(`Failed to mark job ${jobId} failed: ${error.message}`);
+  }
+
+  async loadProfile(job: ReasoningJob): Promise<MemoryProfile | null> {
+    let query = this.supabase
+      .from('memory_profiles')
+      .select('*')
+      .eq('subject_id', job.subject_id);
+    if (job.organization_id) query = query.eq('organization_id', job.organization_id);
+
+    const { data, error } = await query.maybeSingle();
+    if (error) throw new ReasoningStoreError(`Failed to load profile: ${error.message}`);
+    return (data as MemoryProfile | null) ?? null;
+  }
+
+  async saveProfileRevision(
+    job: ReasoningJob,
+    expectedHeadVersionId: string | null,
+    revision: ProfileRevision,
+  ): Promise<boolean> {
+    const { data, error } = await this.supabase.rpc(
+      'revise_memory_profile',
+      profileRevisionParams(job.subject_id, job.organization_id, expectedHeadVersionId, revision, {
+        source_job_id: job.id,
+      }),
+    );
+    if (error) throw new ReasoningStoreError(`Failed to revise profile: ${error.message}`);
+    return Array.isArray(data) && data.length > 0;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// LLM clients
+// ---------------------------------------------------------------------------
+
+const SYSTEM_PROMPT = `You derive durable conclusions about a subject from their memories.
+Return JSON: {"conclusions": [{"conclusion_type", "content", "confidence", "evidence_memory_ids", "scope", "profile_field", "supersedes", "contradicts"}]}.
+- conclusion_type: "explicit" (stated directly), "deductive" (follows necessarily), "inductive" (generalised from several memories) or "abductive" (best explanation).
+- content: one self-contained sentence. confidence: 0 to 1.
+- evidence_memory_ids: ids of the memories that support it; never cite anything else.
+- profile_field: "preferences", "goals", "constraints", "tendencies" or "facts" when the conclusion describes the subject, otherwise null.
+- supersedes: ids of existing conclusions this one replaces because it is newer information.
+- contradicts: ids of existing conclusions, or "#<index>" of another conclusion in your response, that this one conflicts with when neither clearly replaces the other.
+- Do not restate existing conclusions unless you supersede or contradict them, and never propose a rejected conclusion again.`;
+
+export interface OpenAIReasoningClientOptions {
+  apiKey: string;
+  model?: string;
+  baseUrl?: string;
+  timeoutMs?: number;
+  fetchImpl?: typeof fetch;
+}
+
+/**
+ * Chat-completions client using plain fetch, so the Edge Function can use it
+ * without the openai package.
+ */
+export class OpenAIReasoningClient implements ReasoningLlmClient {
+  readonly name = 'openai';
+  private readonly model: string;
+  private readonly baseUrl: string;
+  private readonly timeoutMs: number;
+  private readonly fetchImpl: typeof fetch;
+
+  constructor(private readonly options: OpenAIReasoningClientOptions) {
+    this.model = options.model ?? 'gpt-4o-mini';
+    this.baseUrl = (options.baseUrl ?? 'https://api.openai.com/v1').replace(/\/+$/, '');
+    this.timeoutMs = options.timeoutMs ?? 60_000;
+    this.fetchImpl = options.fetchImpl ?? fetch;
+  }
+
+  async infer(input: ReasoningInput): Promise<ProposedConclusion[]> {
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), this.timeoutMs);
+
+    try {
+      const res = await this.fetchImpl(`${this.baseUrl}/chat/completions`, {
+        method: 'POST',
+        headers: {
+          Authorization: `Bearer ${this.options.apiKey}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          model: this.model,
+          temperature: 0,
+          response_format: { type: 'json_object' },
+          messages: [
+            { role: 'system', content: SYSTEM_PROMPT },
+            {
+              role: 'user',
+              content: JSON.stringify({
+                memories: input.memories.map(({ id, title, content, created_at }) => ({ id, title, content, created_at })),
+                existing_conclusions: input.existing.map(({ id, conclusion_type, content, confidence }) => ({
+                  id,
+                  conclusion_type,
+                  content,
+                  confidence,
+                })),
+                rejected_conclusions: input.rejected.map(({ content }) => content),
+              }),
+            },
+          ],
+        }),
+        signal: controller.signal,
+      });
+
+      if (!res.ok) {
+        throw new ReasoningLlmError(`Reasoning model returned ${res.status}: ${await res.text()}`, res.status);
+      }
+
+      const body = await res.json() as { choices?: Array<{ message?: { content?: string } }> };
+      const raw = body.choices?.[0]?.message?.content;
+      if (!raw) throw new ReasoningLlmError('Reasoning model returned no content');
+
+      const parsed = JSON.parse(raw) as { conclusions?: unknown };
+      return Array.isArray(parsed.conclusions) ? parsed.conclusions as ProposedConclusion[] : [];
+    } catch (err) {
+      if (err instanceof Error && err.name === 'AbortError') {
+        throw new ReasoningLlmError(`Reasoning model timed out after ${this.timeoutMs}ms`);
+      }
+      if (err instanceof ReasoningLlmError) throw err;
+      throw new ReasoningLlmError(`Reasoning model request failed: ${errorMessage(err)}`);
+    } finally {
+      clearTimeout(timeout);
+    }
+  }
+}
+
+// "Preferred editor: vim", "The deploy target is Fly.io"
+const STATEMENT_PATTERN = /^(?:the\s+)?([a-z][\w\s-]{1,60}?)\s*(?::|\bis\b|\bare\b)\s*(.+)$/i;
+
+interface Statement {
+  key: string;
+  value: string;
+}
+
+const parseStatement = (sentence: string): Statement | null => {
+  const [, key, rawValue] = STATEMENT_PATTERN.exec(sentence.trim()) ?? [];
+  const value = rawValue?.trim().replace(/[.!]+$/, '');
+  return key && value ? { key: key.trim().toLowerCase(), value } : null;
+};
+
+const formatStatement = ({ key, value }: Statement): string => `${key}: ${value}`;
+
+const profileFieldFor = (key: string, type: ConclusionType): ProfileField => {
+  if (/prefer|favou?rite|likes?\b/.test(key)) return 'preferences';
+  if (/goal|aim|plan|want/.test(key)) return 'goals';
+  if (/must|never|limit|budget|deadline|constraint/.test(key)) return 'constraints';
+  return type === 'inductive' ? 'tendencies' : 'facts';
+};
+
+/**
+ * Deterministic stand-in for the LLM, for tests and local development without
+ * a model. Reads "key: value" / "key is value" sentences: one stated value is
+ * explicit, repeated across memories it is inductive, different values in one
+ * job contradict each other, and a new value for a key held by an active
+ * conclusion supersedes it. The profile field is guessed from the key.
+ */
+export class DeterministicReasoningClient implements ReasoningLlmClient {
+  readonly name = 'deterministic';
+
+  async infer(input: ReasoningInput): Promise<ProposedConclusion[]> {
+    // key → value → supporting memory ids, in order of first appearance
+    const statements = new Map<string, Map<string, string[]>>();
+
+    for (const memory of input.memories) {
+      for (const sentence of memory.content.split(/[.;!?](?:\s+|$)|\n+/)) {
+        const statement = parseStatement(sentence);
+        if (!statement) continue;
+        const values = statements.get(statement.key) ?? new Map<string, string[]>();
+        const support = values.get(statement.value) ?? [];
+        if (!support.includes(memory.id)) support.push(memory.id);
+        values.set(statement.value, support);
+        statements.set(statement.key, values);
+      }
+    }
+
+    const existingByKey = new Map<string, InferredConclusion[]>();
+    for (const conclusion of input.existing) {
+      const statement = parseStatement(conclusion.content);
+      if (!statement) continue;
+      existingByKey.set(statement.key, [...(existingByKey.get(statement.key) ?? []), conclusion]);
+    }
+
+    const proposals: ProposedConclusion[] = [];
+    for (const [key, values] of statements) {
+      const first = proposals.length;
+      const conflicting = values.size > 1;
+
+      [...values].forEach(([value, support], offset) => {
+        const content = formatStatement({ key, value });
+        const replaced = (existingByKey.get(key) ?? [])
+          .filter((conclusion) => normalizeContent(conclusion.content) !== normalizeContent(content))
+          .map((conclusion) => conclusion.id);
+
+        const conclusionType: ConclusionType = support.length > 1 ? 'inductive' : 'explicit';
+        proposals.push({
+          conclusion_type: conclusionType,
+          content,
+          profile_field: profileFieldFor(key, conclusionType),
+          confidence: support.length > 1 ? Math.min(0.95, 0.7 + 0.1 * support.length) : 0.9,
+          evidence_memory_ids: support,
+          ...(conflicting
+            ? { contradicts: [...values.keys()].map((_, i) => `#${first + i}`).filter((_, i) => i !== offset) }
+            : { supersedes: replaced }),
+        });
+      });
+    }
+
+    return proposals;
+  }
+}
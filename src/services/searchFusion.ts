@@ -0,0 +1,66 @@
+import type { MemorySearchResult } from '@/types/memory';
+
+/**
+ * Smoothing constant from the original RRF paper (Cormack et al., 2009).
+ * Larger values flatten the advantage of top-ranked items.
+ */
+export const DEFAULT_RRF_K = 60;
+
+export interface FusionOptions {
+  k?: number;
+  limit?: number;
+}
+
+/**
+ * Merge vector and lexical result lists with reciprocal-rank fusion.
+ *
+ * Each list contributes `1 / (k + rank)` per item (rank is 1-based), so a
+ * memory only the lexical leg found — an exact error code, say — still
+ * surfaces even when its embedding ranks poorly. Per-leg scores are kept on
+ * the fused row; `relevance_score` is the fused score scaled into [0, 1]
+ * against the best possible score (rank 1 in both lists).
+ */
+export function fuseSearchResults(
+  vectorResults: MemorySearchResult[],
+  lexicalResults: MemorySearchResult[],
+  options: FusionOptions = {}
+): MemorySearchResult[] {
+  const k = options.k ?? DEFAULT_RRF_K;
+  const maxScore = 2 / (k + 1);
+  const fused = new Map<string, MemorySearchResult & { fused_score: number }>();
+
+  const accumulate = (
+    results: MemorySearchResult[],
+    scoreField: 'vector_score' | 'lexical_score'
+  ) => {
+    results.forEach((result, index) => {
+      const contribution = 1 / (k + index + 1);
+      const legScore = result[scoreField] ?? result.relevance_score;
+      const existing = fused.get(result.id);
+
+      if (existing) {
+        existing.fused_score += contribution;
+        existing[scoreField] = legScore;
+        return;
+      }
+
+      fused.set(result.id, {
+        ...result,
+        [scoreField]: legScore,
+        fused_score: contribution
+      });
+    });
+  };
+
+  accumulate(vectorResults, 'vector_score');
+  accumulate(lexicalResults, 'lexical_score');
+
+  const ranked = Array.from(fused.values())
+    .map((result) => ({
+      ...result,
+      relevance_score: Math.round((result.fused_score / maxScore) * 10000) / 10000
+    }))
+    .sort((a, b) => b.fused_score - a.fused_score);
+
+  return options.limit !== undefined ? ranked.slice(0, options.limit) : ranked;
+}
@@ -0,0 +1,119 @@
+import type { Request, Response } from 'express';
+
+import { logger } from '@/utils/logger';
+import { getScalarRouteParam } from '@/utils/request';
+import {
+  RealtimeChannel,
+  RealtimeEvent,
+  RealtimeEventBus,
+  getRealtimeEventBus
+} from '@/services/realtimeEventBus';
+
+interface SSEConnection {
+  res: Response;
+  userId: string;
+  /** Live events held back while the connection is still replaying */
+  pending: RealtimeEvent[] | null;
+}
+
+/**
+ * Last-Event-ID from the header browsers send on reconnect, or from the
+ * `last_event_id` query parameter for clients that cannot set headers.
+ */
+export const getLastEventId = (req: Request): string | undefined =>
+  req.header('last-event-id') || getScalarRouteParam(req.query.last_event_id);
+
+const writeEvent = (res: Response, event: RealtimeEvent): void => {
+  res.write(`id: ${event.id}\ndata: ${JSON.stringify(event.payload)}\n\n`);
+};
+
+/**
+ * SSE connections held by this instance for one endpoint. Broadcasts go
+ * through the shared realtime bus, so a message published on any instance
+ * reaches matching connections on every instance.
+ */
+export class SSEConnectionRegistry {
+  private readonly connections = new Map<string, SSEConnection>();
+  private unsubscribe: (() => void) | null = null;
+
+  constructor(
+    private readonly channel: RealtimeChannel,
+    private readonly truncatedNotice: (lastEventId: string) => Record<string, unknown>,
+    private readonly bus: () => RealtimeEventBus = getRealtimeEventBus
+  ) {}
+
+  get size(): number {
+    return this.connections.size;
+  }
+
+  /**
+   * Register a connection whose headers are already written. With a
+   * Last-Event-ID, missed events for the user are written first; live
+   * events arriving meanwhile are queued and flushed after them.
+   */
+  async open(connectionId: string, userId: string, res: Response, lastEventId?: string): Promise<void> {
+    if (!this.unsubscribe) {
+      this.unsubscribe = this.bus().subscribe((event) => this.deliver(event));
+    }
+
+    const connection: SSEConnection = { res, userId, pending: lastEventId ? [] : null };
+    this.connections.set(connectionId, connection);
+    if (!lastEventId) return;
+
+    const replayed = new Set<string>();
+    try {
+      const replay = await this.bus().replay(lastEventId);
+      if (replay.truncated) {
+        res.write(`data: ${JSON.stringify(this.truncatedNotice(lastEventId))}\n\n`);
+      }
+      for (const event of replay.events) {
+        if (this.matches(event, userId)) {
+          writeEvent(res, event);
+          replayed.add(event.id);
+        }
+      }
+    } catch (error) {
+      logger.error('SSE replay failed', { error, connectionId, lastEventId });
+    }
+
+    const pending = connection.pending ?? [];
+    connection.pending = null;
+    pending
+      .filter((event) => !replayed.has(event.id))
+      .forEach((event) => writeEvent(res, event));
+  }
+
+  close(connectionId: string): void {
+    this.connections.delete(connectionId);
+  }
+
+  /**
+   * Publish to every instance; targetUserId limits delivery to that user's
+   * connections. Failures are logged, never thrown.
+   */
+  broadcast(payload: Record<string, unknown>, targetUserId?: string): void {
+    this.bus()
+      .publish({ channel: this.channel, user_id: targetUserId ?? null, payload })
+      .catch((error: unknown) => {
+        logger.error('Failed to publish realtime event', { error, channel: this.channel });
+      });
+  }
+
+  private matches(event: RealtimeEvent, userId: string): boolean {
+    return event.channel === this.channel && (event.user_id === null || event.user_id === userId);
+  }
+
+  private deliver(event: RealtimeEvent): void {
+    this.connections.forEach((connection, connectionId) => {
+      if (!this.matches(event, connection.userId)) return;
+
+      if (connection.res.writableEnded || connection.res.destroyed) {
+        this.connections.delete(connectionId);
+      } else if (connection.pending) {
+        connection.pending.push(event);
+      } else {
+        writeEvent(connection.res, event);
+      }
+    });
+  }
+}
@@ -0,0 +1,332 @@
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+
+import { config } from '@/config/environment';
+import { logger, logPerformance } from '@/utils/logger';
+import {
+  ConflictError,
+  InternalServerError,
+  ValidationError
+} from '@/middleware/errorHandler';
+import type { MemoryEntry } from '@/types/memory';
+import type {
+  Topic,
+  TopicTreeNode,
+  CreateTopicRequest,
+  UpdateTopicRequest,
+  DeleteTopicOptions,
+  DeleteTopicResult
+} from '@/types/topic';
+
+const UNIQUE_VIOLATION = '23505';
+
+/**
+ * Assemble a flat topic list into a parent/child forest.
+ * Topics whose parent is missing from the list (deleted, or outside the
+ * organization) are promoted to roots rather than dropped.
+ */
+export function buildTopicTree(topics: Topic[], memoryCounts: Map<string, number> = new Map()): TopicTreeNode[] {
+  const nodes = new Map<string, TopicTreeNode>();
+  topics.forEach((topic) => {
+    nodes.set(topic.id, { ...topic, memory_count: memoryCounts.get(topic.id) ?? 0, children: [] });
+  });
+
+  const roots: TopicTreeNode[] = [];
+  nodes.forEach((node) => {
+    const parent = node.parent_topic_id ? nodes.get(node.parent_topic_id) : undefined;
+    if (parent && parent !== node) {
+      parent.children.push(node);
+    } else {
+      roots.push(node);
+    }
+  });
+
+  const byName = (a: TopicTreeNode, b: TopicTreeNode) => a.name.localeCompare(b.name);
+  const sortRecursive = (list: TopicTreeNode[]) => {
+    list.sort(byName);
+    list.forEach((node) => sortRecursive(node.children));
+  };
+  sortRecursive(roots);
+
+  return roots;
+}
+
+/**
+ * True when making `newParentId` the parent of `topicId` would close a loop,
+ * i.e. `newParentId` is `topicId` itself or one of its descendants.
+ */
+export function wouldCreateCycle(topics: Pick<Topic, 'id' | 'parent_topic_id'>[], topicId: string, newParentId: string): boolean {
+  const parentOf = new Map(topics.map((topic) => [topic.id, topic.parent_topic_id ?? null]));
+  const seen = new Set<string>();
+  let cursor: string | null = newParentId;
+
+  while (cursor) {
+    if (cursor === topicId) return true;
+    if (seen.has(cursor)) return true; // pre-existing loop; refuse to extend it
+    seen.add(cursor);
+    cursor = parentOf.get(cursor) ?? null;
+  }
+
+  return false;
+}
+
+export class TopicService {
+  private supabase: SupabaseClient;
+
+  constructor() {
+    this.supabase = createClient(config.SUPABASE_URL, config.SUPABASE_SERVICE_KEY);
+  }
+
+  /**
+   * List topics for an organization, optionally limited to one parent
+   * (`null` lists root topics)
+   */
+  async listTopics(organizationId: string, parentTopicId?: string | null): Promise<Topic[]> {
+    let query = this.supabase
+      .from('topics')
+      .select('*')
+      .eq('organization_id', organizationId)
+      .order('name', { ascending: true });
+
+    if (parentTopicId === null) {
+      query = query.is('parent_topic_id', null);
+    } else if (parentTopicId !== undefined) {
+      query = query.eq('parent_topic_id', parentTopicId);
+    }
+
+    const { data: topics, error } = await query;
+
+    if (error) {
+      logger.error('Failed to list topics', { error, organizationId });
+      throw new InternalServerError('Failed to list topics');
+    }
+
+    return topics || [];
+  }
+
+  /**
+   * Get topic by ID within an organization
+   */
+  async getTopicById(id: string, organizationId: string): Promise<Topic | null> {
+    const { data: topic, error } = await this.supabase
+      .from('topics')
+      .select('*')
+      .eq('id', id)
+      .eq('organization_id', organizationId)
+      .single();
+
+    if (error) {
+      if (error.code === 'PGRST116') { // Not found
+        return null;
+      }
+      logger.error('Failed to get topic by ID', { error, id, organizationId });
+      throw new InternalServerError('Failed to retrieve topic');
+    }
+
+    return topic;
+  }
+
+  /**
+   * Create a topic, validating that any parent belongs to the same organization
+   */
+  async createTopic(data: CreateTopicRequest & { user_id: string; organization_id: string }): Promise<Topic> {
+    if (data.parent_topic_id) {
+      await this.requireTopic(data.parent_topic_id, data.organization_id, 'parent_topic_id');
+    }
+
+    const { data: topic, error } = await this.supabase
+      .from('topics')
+      .insert({
+        name: data.name,
+        description: data.description ?? null,
+        color: data.color ?? null,
+        icon: data.icon ?? null,
+        parent_topic_id: data.parent_topic_id ?? null,
+        metadata: data.metadata ?? {},
+        user_id: data.user_id,
+        organization_id: data.organization_id
+      })
+      .select()
+      .single();
+
+    if (error) {
+      if (error.code === UNIQUE_VIOLATION) {
+        throw new ConflictError(`A topic named "${data.name}" already exists`);
+      }
+      logger.error('Failed to create topic', { error, name: data.name });
+      throw new InternalServerError('Failed to create topic');
+    }
+
+    return topic;
+  }
+
+  /**
+   * Update a topic. Re-parenting is checked for cycles against the whole
+   * organization's hierarchy.
+   */
+  async updateTopic(id: string, organizationId: string, data: UpdateTopicRequest): Promise<Topic> {
+    if (data.parent_topic_id) {
+      await this.requireTopic(data.parent_topic_id, organizationId, 'parent_topic_id');
+      const topics = await this.listTopics(organizationId);
+      if (wouldCreateCycle(topics, id, data.parent_topic_id)) {
+        throw new ValidationError('A topic cannot be moved under itself or one of its descendants');
+      }
+    }
+
+    const updateData: Record<string, unknown> = {
+      updated_at: new Date().toISOString()
+    };
+    (['name', 'description', 'color', 'icon', 'parent_topic_id', 'metadata'] as const).forEach((field) => {
+      if (data[field] !== undefined) updateData[field] = data[field];
+    });
+
+    const { data: topic, error } = await this.supabase
+      .from('topics')
+      .update(updateData)
+      .eq('id', id)
+      .eq('organization_id', organizationId)
+      .select()
+      .single();
+
+    if (error) {
+      if (error.code === UNIQUE_VIOLATION) {
+        throw new ConflictError(`A topic named "${data.name}" already exists`);
+      }
+      logger.error('Failed to update topic', { error, id, updateData });
+      throw new InternalServerError('Failed to update topic');
+    }
+
+    return topic;
+  }
+
+  /**
+   * Delete a topic. Its memories are detached or moved to another topic and
+   * its child topics are re-parented to its own parent, so nothing below it
+   * is orphaned or lost.
+   */
+  async deleteTopic(topic: Topic, options: DeleteTopicOptions): Promise<DeleteTopicResult> {
+    const startTime = Date.now();
+    const targetTopicId = options.memories === 'move' ? options.target_topic_id ?? null : null;
+
+    if (targetTopicId) {
+      if (targetTopicId === topic.id) {
+        throw new ValidationError('target_topic_id must differ from the topic being deleted');
+      }
+      await this.requireTopic(targetTopicId, topic.organization_id, 'target_topic_id');
+    }
+
+    const { data: affected, error: memoryError } = await this.supabase
+      .from('memory_entries')
+      .update({ topic_id: targetTopicId })
+      .eq('topic_id', topic.id)
+      .eq('organization_id', topic.organization_id)
+      .select('id');
+
+    if (memoryError) {
+      logger.error('Failed to reassign topic memories', { error: memoryError, topicId: topic.id });
+      throw new InternalServerError('Failed to reassign topic memories');
+    }
+
+    const { data: children, error: childError } = await this.supabase
+      .from('topics')
+      .update({ parent_topic_id: topic.parent_topic_id ?? null })
+      .eq('parent_topic_id', topic.id)
+      .eq('organization_id', topic.organization_id)
+      .select('id');
+
+    if (childError) {
+      logger.error('Failed to re-parent child topics', { error: childError, topicId: topic.id });
+      throw new InternalServerError('Failed to re-parent child topics');
+    }
+
+    const { error } = await this.supabase
+      .from('topics')
+      .delete()
+      .eq('id', topic.id)
+      .eq('organization_id', topic.organization_id);
+
+    if (error) {
+      logger.error('Failed to delete topic', { error, id: topic.id });
+      throw new InternalServerError('Failed to delete topic');
+    }
+
+    const result: DeleteTopicResult = {
+      deleted_topic_id: topic.id,
+      memories_action: options.memories,
+      memories_affected: affected?.length ?? 0,
+      target_topic_id: targetTopicId,
+      children_reparented: children?.length ?? 0
+    };
+
+    logPerformance('topic_delete', Date.now() - startTime, { ...result });
+
+    return result;
+  }
+
+  /**
+   * Full topic forest for an organization with per-topic memory counts
+   */
+  async getTopicTree(organizationId: string): Promise<TopicTreeNode[]> {
+    const [topics, counts] = await Promise.all([
+      this.listTopics(organizationId),
+      this.countMemoriesByTopic(organizationId)
+    ]);
+
+    return buildTopicTree(topics, counts);
+  }
+
+  /**
+   * Memories filed directly under a topic, newest first. Trashed memories
+   * are left out.
+   */
+  async getTopicMemories(id: string, organizationId: string, options: { limit: number; offset: number }): Promise<{
+    memories: MemoryEntry[];
+    total: number;
+  }> {
+    const { data: memories, count, error } = await this.supabase
+      .from('memory_entries')
+      .select('*', { count: 'exact' })
+      .eq('topic_id', id)
+      .eq('organization_id', organizationId)
+      .neq('state', 'deleted')
+      .order('created_at', { ascending: false })
+      .range(options.offset, options.offset + options.limit - 1);
+
+    if (error) {
+      logger.error('Failed to list topic memories', { error, id, organizationId });
+      throw new InternalServerError('Failed to list topic memories');
+    }
+
+    return {
+      memories: memories || [],
+      total: count || 0
+    };
+  }
+
+  private async countMemoriesByTopic(organizationId: string): Promise<Map<string, number>> {
+    const { data, error } = await this.supabase
+      .from('memory_entries')
+      .select('topic_id')
+      .eq('organization_id', organizationId)
+      .neq('state', 'deleted')
+      .not('topic_id', 'is', null);
+
+    if (error) {
+      logger.warn('Failed to count memories per topic', { error, organizationId });
+      return new Map();
+    }
+
+    const counts = new Map<string, number>();
+    (data || []).forEach((row: { topic_id: string | null }) => {
+      if (row.topic_id) counts.set(row.topic_id, (counts.get(row.topic_id) ?? 0) + 1);
+    });
+    return counts;
+  }
+
+  private async requireTopic(id: string, organizationId: string, field: string): Promise<Topic> {
+    const topic = await this.getTopicById(id, organizationId);
+    if (!topic) {
+      throw new ValidationError(`${field} does not reference a topic in this organization`);
+    }
+    return topic;
+  }
+}
@@ -0,0 +1,764 @@
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { createHmac, randomBytes, randomUUID, timingSafeEqual } from 'crypto';
+import { lookup as dnsLookup, type LookupAddress } from 'dns';
+import { request as httpRequest, type RequestOptions } from 'http';
+import { request as httpsRequest } from 'https';
+import { isIP, type LookupFunction } from 'net';
+
+import { config } from '@/config/environment';
+import { logger } from '@/utils/logger';
+import {
+  InternalServerError,
+  NotFoundError,
+  ValidationError
+} from '@/middleware/errorHandler';
+import { MemoryEvent, onMemoryEvent } from '@/services/memoryEvents';
+import type {
+  CreateWebhookRequest,
+  ListWebhookDeliveriesQuery,
+  UpdateWebhookRequest,
+  WebhookDelivery,
+  WebhookSubscription,
+  WebhookSubscriptionRecord
+} from '@/types/webhook';
+
+export const WEBHOOK_SIGNATURE_HEADER = 'X-Lanonasis-Signature';
+export const WEBHOOK_TIMESTAMP_HEADER = 'X-Lanonasis-Timestamp';
+
+/** Longest wait between two attempts, whatever the attempt number */
+const MAX_RETRY_DELAY_MS = 6 * 60 * 60 * 1000;
+
+/** How long a claimed delivery is hidden from other pollers while in flight */
+const DELIVERY_LEASE_MS = 2 * 60 * 1000;
+
+const DUE_BATCH_SIZE = 50;
+
+/**
+ * Signature sent in X-Lanonasis-Signature: HMAC-SHA256 over
+ * "<unix timestamp>.<raw body>" with the subscription secret. Including the
+ * timestamp lets receivers reject replays.
+ */
+export function signWebhookPayload(secret: string, timestamp: number, body: string): string {
+  return `sha256=${createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')}`;
+}
+
+/**
+ * Receiver-side check, exported for SDKs and tests
+ */
+export function verifyWebhookSignature(
+  secret: string,
+  timestamp: number,
+  body: string,
+  signature: string,
+  toleranceSeconds = 300,
+  now: number = Date.now()
+): boolean {
+  if (Math.abs(now / 1000 - timestamp) > toleranceSeconds) return false;
+
+  const expected = Buffer.from(signWebhookPayload(secret, timestamp, body));
+  const received = Buffer.from(signature);
+  return expected.length === received.length && timingSafeEqual(expected, received);
+}
+
+export const generateWebhookSecret = (): string => `whsec_${randomBytes(32).toString('hex')}`;
+
+/**
+ * Exponential backoff: base, 2×base, 4×base… capped at six hours
+ */
+export function webhookRetryDelay(attempt: number, baseMs: number = config.WEBHOOK_RETRY_BASE_MS): number {
+  return Math.min(baseMs * Math.pow(2, Math.max(0, attempt - 1)), MAX_RETRY_DELAY_MS);
+}
+
+/**
+ * Whether a subscription wants an event. Empty filters match everything;
+ * tag filters match when the memory has at least one of the tags.
+ */
+export function matchesWebhookFilters(
+  subscription: Pick<WebhookSubscription, 'enabled' | 'events' | 'memory_types' | 'tags' | 'topic_id'>,
+  event: Pick<MemoryEvent, 'type' | 'memory'>
+): boolean {
+  if (!subscription.enabled) return false;
+  if (!subscription.events.includes(event.type)) return false;
+  if (subscription.memory_types?.length && !subscription.memory_types.includes(event.memory.memory_type)) return false;
+  if (subscription.topic_id && subscription.topic_id !== event.memory.topic_id) return false;
+  if (subscription.tags?.length) {
+    const tags = new Set(event.memory.tags ?? []);
+    if (!subscription.tags.some((tag) => tags.has(tag))) return false;
+  }
+  return true;
+}
+
+const PRIVATE_HOST_NAMES = [/^localhost$/i, /\.localhost$/i, /\.internal$/i];
+
+const ipv4ToNumber = (address: string): number =>
+  address.split('.').reduce((value, octet) => value * 256 + Number(octet), 0);
+
+const IPV4_BLOCKED_RANGES: Array<[string, number]> = [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['224.0.0.0', 3]
+];
+
+const isBlockedIPv4 = (address: string): boolean => {
+  const value = ipv4ToNumber(address);
+  return IPV4_BLOCKED_RANGES.some(([base, bits]) => {
+    const size = 2 ** (32 - bits);
+    const start = ipv4ToNumber(base);
+    return value >= start && value < start + size;
+  });
+};
+
+/** Expand an IPv6 address to its eight 16-bit groups */
+const ipv6Groups = (address: string): number[] => {
+  let text = (address.split('%')[0] ?? '').toLowerCase();
+  const dotted = /(\d+\.\d+\.\d+\.\d+)$/.exec(text)?.[1];
+  if (dotted) {
+    const value = ipv4ToNumber(dotted);
+    text = `${text.slice(0, -dotted.length)}${(value >>> 16).toString(16)}:${(value & 0xffff).toString(16)}`;
+  }
+  const [head = '', tail] = text.split('::');
+  const left = head ? head.split(':') : [];
+  const right = tail ? tail.split(':') : [];
+  const fill = tail !== undefined ? Array<string>(8 - left.length - right.length).fill('0') : [];
+  return [...left, ...fill, ...right].map((group) => parseInt(group, 16));
+};
+
+const isBlockedIPv6 = (address: string): boolean => {
+  const [g0 = 0, g1 = 0, g2 = 0, g3 = 0, g4 = 0, g5 = 0, g6 = 0, g7 = 0] = ipv6Groups(address);
+  const embeddedIPv4 = `${g6 >> 8}.${g6 & 0xff}.${g7 >> 8}.${g7 & 0xff}`;
+
+  if (g0 === 0 && g1 === 0 && g2 === 0 && g3 === 0 && g4 === 0) {
+    // IPv4-mapped (::ffff:a.b.c.d)
+    if (g5 === 0xffff) return isBlockedIPv4(embeddedIPv4);
+    // ::, ::1 and the IPv4-compatible form
+    if (g5 === 0) return g6 === 0 || isBlockedIPv4(embeddedIPv4);
+  }
+  if (g0 === 0x64 && g1 === 0xff9b) return isBlockedIPv4(embeddedIPv4); // NAT64
+  return (g0 & 0xfe00) === 0xfc00 // unique local
+    || (g0 & 0xffc0) === 0xfe80 // link-local
+    || (g0 & 0xff00) === 0xff00; // multicast
+};
+
+/**
+ * Loopback, link-local, private, carrier-NAT and multicast addresses,
+ * including IPv4 addresses wrapped in IPv6 (`::ffff:7f00:1`)
+ */
+export const isPrivateWebhookAddress = (address: string): boolean => {
+  const bare = address.replace(/^\[|\]$/g, '');
+  const family = isIP(bare);
+  if (family === 4) return isBlockedIPv4(bare);
+  if (family === 6) return isBlockedIPv6(bare);
+  return false;
+};
+
+/**
+ * Hostnames that are private on their face: internal names and IP
+ * literals in private ranges. DNS names are checked again at delivery.
+ */
+export const isPrivateWebhookHost = (hostname: string): boolean =>
+  PRIVATE_HOST_NAMES.some((pattern) => pattern.test(hostname)) || isPrivateWebhookAddress(hostname);
+
+const PRIVATE_TARGET_MESSAGE = 'Webhook URL must not point to a private or loopback address';
+
+const assertDeliverableUrl = (url: string): void => {
+  if (!config.WEBHOOK_ALLOW_PRIVATE_TARGETS && isPrivateWebhookHost(new URL(url).hostname)) {
+    throw new ValidationError(PRIVATE_TARGET_MESSAGE);
+  }
+};
+
+/**
+ * DNS lookup for outgoing deliveries that fails when any address the name
+ * resolves to is private. It runs inside the connection, so the address
+ * checked is the address connected to and a rebinding answer cannot slip
+ * in between.
+ */
+export const publicOnlyLookup: LookupFunction = (hostname, options, callback) => {
+  dnsLookup(hostname, { ...options, all: true }, (error, addresses: LookupAddress[]) => {
+    if (error) {
+      callback(error, '', 0);
+      return;
+    }
+    const [first] = addresses;
+    if (!first || addresses.some(({ address }) => isPrivateWebhookAddress(address))) {
+      callback(Object.assign(new Error(PRIVATE_TARGET_MESSAGE), { code: 'EPRIVATEADDR' }), '', 0);
+      return;
+    }
+    if (options.all) {
+      (callback as unknown as (err: null, addresses: LookupAddress[]) => void)(null, addresses);
+    } else {
+      callback(null, first.address, first.family);
+    }
+  });
+};
+
+/**
+ * POST a delivery and return the response status. Redirects are not
+ * followed; private targets are refused unless explicitly allowed.
+ */
+const postWebhook = (
+  url: string,
+  headers: Record<string, string>,
+  body: string,
+  timeoutMs: number
+): Promise<number> => new Promise((resolve, reject) => {
+  const target = new URL(url);
+  const allowPrivate = config.WEBHOOK_ALLOW_PRIVATE_TARGETS;
+  if (!allowPrivate && isPrivateWebhookHost(target.hostname)) {
+    reject(new Error(PRIVATE_TARGET_MESSAGE));
+    return;
+  }
+
+  const options: RequestOptions = {
+    method: 'POST',
+    headers: { ...headers, 'Content-Length': String(Buffer.byteLength(body)) },
+    timeout: timeoutMs,
+    ...(allowPrivate ? {} : { lookup: publicOnlyLookup })
+  };
+  const send = target.protocol === 'https:' ? httpsRequest : httpRequest;
+  const request = send(target, options, (response) => {
+    response.resume();
+    resolve(response.statusCode ?? 0);
+  });
+  request.on('timeout', () => request.destroy(new Error(`Timed out after ${timeoutMs}ms`)));
+  request.on('error', reject);
+  request.end(body);
+});
+
+const toPublicSubscription = (record: WebhookSubscriptionRecord): WebhookSubscription => {
+  const subscription: Partial<WebhookSubscriptionRecord> = { ...record };
+  delete subscription.secret;
+  return subscription as WebhookSubscription;
+};
+
+export class WebhookService {
+  private supabase: SupabaseClient;
+
+  constructor() {
+    this.supabase = createClient(config.SUPABASE_URL, config.SUPABASE_SERVICE_KEY);
+  }
+
+  async listSubscriptions(organizationId: string): Promise<WebhookSubscription[]> {
+    const { data, error } = await this.supabase
+      .from('webhook_subscriptions')
+      .select('*')
+      .eq('organization_id', organizationId)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      logger.error('Failed to list webhook subscriptions', { error, organizationId });
+      throw new InternalServerError('Failed to list webhooks');
+    }
+
+    return ((data || []) as WebhookSubscriptionRecord[]).map(toPublicSubscription);
+  }
+
+  private async getSubscriptionRecord(id: string, organizationId: string): Promise<WebhookSubscriptionRecord | null> {
+    const { data, error } = await this.supabase
+      .from('webhook_subscriptions')
+      .select('*')
+      .eq('id', id)
+      .eq('organization_id', organizationId)
+      .single();
+
+    if (error) {
+      if (error.code === 'PGRST116') { // Not found
+        return null;
+      }
+      logger.error('Failed to get webhook subscription', { error, id, organizationId });
+      throw new InternalServerError('Failed to retrieve webhook');
+    }
+
+    return data;
+  }
+
+  async getSubscription(id: string, organizationId: string): Promise<WebhookSubscription | null> {
+    const record = await this.getSubscriptionRecord(id, organizationId);
+    return record ? toPublicSubscription(record) : null;
+  }
+
+  /**
+   * Create a subscription. The signing secret is returned only here and from
+   * rotateSecret.
+   */
+  async createSubscription(
+    organizationId: string,
+    userId: string,
+    data: CreateWebhookRequest
+  ): Promise<{ subscription: WebhookSubscription; secret: string }> {
+    assertDeliverableUrl(data.url);
+    const secret = generateWebhookSecret();
+
+    const { data: record, error } = await this.supabase
+      .from('webhook_subscriptions')
+      .insert({
+        organization_id: organizationId,
+        created_by: userId,
+        url: data.url,
+        description: data.description ?? null,
+        secret,
+        ...(data.events ? { events: data.events } : {}),
+        memory_types: data.memory_types ?? null,
+        tags: data.tags ?? null,
+        topic_id: data.topic_id ?? null,
+        enabled: data.enabled ?? true
+      })
+      .select()
+      .single();
+
+    if (error) {
+      logger.error('Failed to create webhook subscription', { error, organizationId, url: data.url });
+      throw new InternalServerError('Failed to create webhook');
+    }
+
+    return { subscription: toPublicSubscription(record), secret };
+  }
+
+  async updateSubscription(id: string, organizationId: string, data: UpdateWebhookRequest): Promise<WebhookSubscription> {
+    if (data.url) assertDeliverableUrl(data.url);
+
+    const updateData: Record<string, unknown> = {
+      updated_at: new Date().toISOString()
+    };
+    (['url', 'description', 'events', 'memory_types', 'tags', 'topic_id', 'enabled'] as const).forEach((field) => {
+      if (data[field] !== undefined) updateData[field] = data[field];
+    });
+
+    const { data: record, error } = await this.supabase
+      .from('webhook_subscriptions')
+      .update(updateData)
+      .eq('id', id)
+      .eq('organization_id', organizationId)
+      .select()
+      .single();
+
+    if (error) {
+      if (error.code === 'PGRST116') {
+        throw new NotFoundError('Webhook not found');
+      }
+      logger.error('Failed to update webhook subscription', { error, id, updateData });
+      throw new InternalServerError('Failed to update webhook');
+    }
+
+    return toPublicSubscription(record);
+  }
+
+  /**
+   * Delete a subscription and its delivery log. Returns false if it did not exist.
+   */
+  async deleteSubscription(id: string, organizationId: string): Promise<boolean> {
+    const { data, error } = await this.supabase
+      .from('webhook_subscriptions')
+      .delete()
+      .eq('id', id)
+      .eq('organization_id', organizationId)
+      .select('id');
+
+    if (error) {
+      logger.error('Failed to delete webhook subscription', { error, id, organizationId });
+      throw new InternalServerError('Failed to delete webhook');
+    }
+
+    return (data || []).length > 0;
+  }
+
+  async rotateSecret(id: string, organizationId: string): Promise<{ subscription: WebhookSubscription; secret: string }> {
+    const secret = generateWebhookSecret();
+
+    const { data: record, error } = await this.supabase
+      .from('webhook_subscriptions')
+      .update({ secret, updated_at: new Date().toISOString() })
+      .eq('id', id)
+      .eq('organization_id', organizationId)
+      .select()
+      .single();
+
+    if (error) {
+      if (error.code === 'PGRST116') {
+        throw new NotFoundError('Webhook not found');
+      }
+      logger.error('Failed to rotate webhook secret', { error, id });
+      throw new InternalServerError('Failed to rotate webhook secret');
+    }
+
+    return { subscription: toPublicSubscription(record), secret };
+  }
+
+  /**
+   * Delivery log for one subscription, newest first
+   */
+  async listDeliveries(
+    subscriptionId: string,
+    organizationId: string,
+    query: ListWebhookDeliveriesQuery
+  ): Promise<{ deliveries: WebhookDelivery[]; total: number }> {
+    let request = this.supabase
+      .from('webhook_deliveries')
+      .select('*', { count: 'exact' })
+      .eq('subscription_id', subscriptionId)
+      .eq('organization_id', organizationId)
+      .order('created_at', { ascending: false })
+      .range(query.offset, query.offset + query.limit - 1);
+
+    if (query.status) {
+      request = request.eq('status', query.status);
+    }
+
+    const { data, count, error } = await request;
+
+    if (error) {
+      logger.error('Failed to list webhook deliveries', { error, subscriptionId });
+      throw new InternalServerError('Failed to list webhook deliveries');
+    }
+
+    return { deliveries: data || [], total: count ?? 0 };
+  }
+
+  /**
+   * Deliveries that exhausted their retries, across the organization
+   */
+  async listDeadLetters(
+    organizationId: string,
+    query: Pick<ListWebhookDeliveriesQuery, 'limit' | 'offset'>
+  ): Promise<{ deliveries: WebhookDelivery[]; total: number }> {
+    const { data, count, error } = await this.supabase
+      .from('webhook_deliveries')
+      .select('*', { count: 'exact' })
+      .eq('organization_id', organizationId)
+      .eq('status', 'dead')
+      .order('updated_at', { ascending: false })
+      .range(query.offset, query.offset + query.limit - 1);
+
+    if (error) {
+      logger.error('Failed to list dead-letter deliveries', { error, organizationId });
+      throw new InternalServerError('Failed to list dead-letter deliveries');
+    }
+
+    return { deliveries: data || [], total: count ?? 0 };
+  }
+
+  /**
+   * Re-queue a dead (or already delivered) delivery with a fresh retry budget
+   */
+  async redeliver(deliveryId: string, organizationId: string): Promise<WebhookDelivery> {
+    const { data, error } = await this.supabase
+      .from('webhook_deliveries')
+      .update({
+        status: 'pending',
+        attempts: 0,
+        next_attempt_at: new Date().toISOString(),
+        last_error: null,
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', deliveryId)
+      .eq('organization_id', organizationId)
+      .in('status', ['dead', 'succeeded'])
+      .select()
+      .single();
+
+    if (error) {
+      if (error.code === 'PGRST116') {
+        throw new NotFoundError('No dead or completed delivery with that ID');
+      }
+      logger.error('Failed to re-queue webhook delivery', { error, deliveryId });
+      throw new InternalServerError('Failed to re-queue webhook delivery');
+    }
+
+    void this.attemptNow([data as WebhookDelivery]);
+    return data;
+  }
+
+  /**
+   * Queue a `webhook.ping` delivery so integrators can check their endpoint
+   * and signature verification.
+   */
+  async sendPing(id: string, organizationId: string): Promise<WebhookDelivery> {
+    const subscription = await this.getSubscriptionRecord(id, organizationId);
+    if (!subscription) {
+      throw new NotFoundError('Webhook not found');
+    }
+
+    const eventId = randomUUID();
+    const [delivery] = await this.enqueue([{
+      subscription,
+      eventId,
+      eventType: 'webhook.ping',
+      payload: {
+        id: eventId,
+        type: 'webhook.ping',
+        created_at: new Date().toISOString(),
+        organization_id: organizationId,
+        data: { webhook_id: id }
+      }
+    }]);
+
+    if (!delivery) {
+      throw new InternalServerError('Failed to queue webhook ping');
+    }
+    void this.attemptNow([delivery]);
+    return delivery;
+  }
+
+  /**
+   * Fan a memory event out to matching subscriptions and try each delivery
+   * immediately; failures are left to the retry worker.
+   */
+  async handleMemoryEvent(event: MemoryEvent): Promise<void> {
+    const { data, error } = await this.supabase
+      .from('webhook_subscriptions')
+      .select('*')
+      .eq('organization_id', event.organization_id)
+      .eq('enabled', true);
+
+    if (error) {
+      logger.error('Failed to load webhook subscriptions for event', { error, eventType: event.type });
+      return;
+    }
+
+    const matching = ((data || []) as WebhookSubscriptionRecord[])
+      .filter((subscription) => matchesWebhookFilters(subscription, event));
+    if (matching.length === 0) return;
+
+    const payload = {
+      id: event.id,
+      type: event.type,
+      created_at: event.occurred_at,
+      organization_id: event.organization_id,
+      data: { memory: event.memory }
+    };
+
+    const deliveries = await this.enqueue(matching.map((subscription) => ({
+      subscription,
+      eventId: event.id,
+      eventType: event.type,
+      payload
+    })));
+    await this.attemptNow(deliveries);
+  }
+
+  private async enqueue(items: Array<{
+    subscription: WebhookSubscriptionRecord;
+    eventId: string;
+    eventType: WebhookDelivery['event_type'];
+    payload: Record<string, unknown>;
+  }>): Promise<WebhookDelivery[]> {
+    const { data, error } = await this.supabase
+      .from('webhook_deliveries')
+      .insert(items.map((item) => ({
+        subscription_id: item.subscription.id,
+        organization_id: item.subscription.organization_id,
+        event_id: item.eventId,
+        event_type: item.eventType,
+        payload: item.payload
+      })))
+      .select();
+
+    if (error) {
+      logger.error('Failed to queue webhook deliveries', { error, count: items.length });
+      return [];
+    }
+
+    return data || [];
+  }
+
+  /**
+   * Attempt every delivery that is due. Called by the worker on an interval.
+   */
+  async processDueDeliveries(): Promise<number> {
+    const { data, error } = await this.supabase
+      .from('webhook_deliveries')
+      .select('*')
+      .in('status', ['pending', 'retrying'])
+      .lte('next_attempt_at', new Date().toISOString())
+      .order('next_attempt_at', { ascending: true })
+      .limit(DUE_BATCH_SIZE);
+
+    if (error) {
+      logger.error('Failed to load due webhook deliveries', { error });
+      return 0;
+    }
+
+    const due = (data || []) as WebhookDelivery[];
+    await this.attemptNow(due);
+    return due.length;
+  }
+
+  private async attemptNow(deliveries: WebhookDelivery[]): Promise<void> {
+    if (deliveries.length === 0) return;
+
+    const subscriptionIds = [...new Set(deliveries.map((delivery) => delivery.subscription_id))];
+    const { data, error } = await this.supabase
+      .from('webhook_subscriptions')
+      .select('*')
+      .in('id', subscriptionIds);
+
+    if (error) {
+      logger.error('Failed to load webhook subscriptions for delivery', { error });
+      return;
+    }
+
+    const subscriptions = new Map(((data || []) as WebhookSubscriptionRecord[]).map((row) => [row.id, row]));
+
+    for (const delivery of deliveries) {
+      const subscription = subscriptions.get(delivery.subscription_id);
+      if (!subscription) continue; // Deleted; its deliveries cascade away
+
+      if (await this.claim(delivery)) {
+        await this.deliver(delivery, subscription);
+      }
+    }
+  }
+
+  /**
+   * Lease a delivery so concurrent pollers (other API instances) skip it
+   */
+  private async claim(delivery: WebhookDelivery): Promise<boolean> {
+    const { data, error } = await this.supabase
+      .from('webhook_deliveries')
+      .update({ next_attempt_at: new Date(Date.now() + DELIVERY_LEASE_MS).toISOString() })
+      .eq('id', delivery.id)
+      .eq('next_attempt_at', delivery.next_attempt_at)
+      .in('status', ['pending', 'retrying'])
+      .select('id');
+
+    if (error) {
+      logger.warn('Failed to claim webhook delivery', { error, deliveryId: delivery.id });
+      return false;
+    }
+    return (data || []).length > 0;
+  }
+
+  private async deliver(delivery: WebhookDelivery, subscription: WebhookSubscriptionRecord): Promise<void> {
+    const attempts = delivery.attempts + 1;
+    const now = new Date();
+
+    if (!subscription.enabled) {
+      await this.recordAttempt(delivery, {
+        status: 'dead',
+        attempts,
+        last_error: 'Webhook disabled'
+      });
+      return;
+    }
+
+    const body = JSON.stringify(delivery.payload);
+    const timestamp = Math.floor(now.getTime() / 1000);
+    const startTime = Date.now();
+    let statusCode: number | null = null;
+    let failure: string | null = null;
+
+    try {
+      statusCode = await postWebhook(subscription.url, {
+        'Content-Type': 'application/json',
+        'User-Agent': 'Lanonasis-Webhooks/1.0',
+        'X-Lanonasis-Event': delivery.event_type,
+        'X-Lanonasis-Delivery': delivery.id,
+        [WEBHOOK_TIMESTAMP_HEADER]: String(timestamp),
+        [WEBHOOK_SIGNATURE_HEADER]: signWebhookPayload(subscription.secret, timestamp, body)
+      }, body, config.WEBHOOK_TIMEOUT_MS);
+      if (statusCode < 200 || statusCode >= 300) {
+        failure = `Endpoint responded with HTTP ${statusCode}`;
+      }
+    } catch (error) {
+      failure = error instanceof Error ? error.message : 'Delivery failed';
+    }
+
+    const duration = Date.now() - startTime;
+
+    if (!failure) {
+      await this.recordAttempt(delivery, {
+        status: 'succeeded',
+        attempts,
+        last_status_code: statusCode,
+        last_error: null,
+        last_duration_ms: duration,
+        delivered_at: new Date().toISOString()
+      });
+      await this.touchSubscription(subscription.id, 'last_delivery_at');
+      return;
+    }
+
+    const exhausted = attempts >= config.WEBHOOK_MAX_ATTEMPTS;
+    await this.recordAttempt(delivery, {
+      status: exhausted ? 'dead' : 'retrying',
+      attempts,
+      last_status_code: statusCode,
+      last_error: failure,
+      last_duration_ms: duration,
+      ...(exhausted ? {} : { next_attempt_at: new Date(Date.now() + webhookRetryDelay(attempts)).toISOString() })
+    });
+    await this.touchSubscription(subscription.id, 'last_failure_at');
+
+    logger.warn('Webhook delivery failed', {
+      deliveryId: delivery.id,
+      subscriptionId: subscription.id,
+      attempts,
+      statusCode,
+      error: failure,
+      deadLettered: exhausted
+    });
+  }
+
+  private async recordAttempt(delivery: WebhookDelivery, changes: Partial<WebhookDelivery>): Promise<void> {
+    const { error } = await this.supabase
+      .from('webhook_deliveries')
+      .update({ ...changes, updated_at: new Date().toISOString() })
+      .eq('id', delivery.id);
+
+    if (error) {
+      logger.error('Failed to record webhook delivery attempt', { error, deliveryId: delivery.id });
+    }
+  }
+
+  private async touchSubscription(id: string, field: 'last_delivery_at' | 'last_failure_at'): Promise<void> {
+    const { error } = await this.supabase
+      .from('webhook_subscriptions')
+      .update({ [field]: new Date().toISOString() })
+      .eq('id', id);
+
+    if (error) {
+      logger.warn('Failed to update webhook subscription timestamp', { error, id, field });
+    }
+  }
+}
+
+let deliveryInterval: NodeJS.Timeout | null = null;
+let unsubscribe: (() => void) | null = null;
+
+/**
+ * Subscribe webhooks to memory events and start the retry poller
+ */
+export const startWebhookDeliveryWorker = (service: WebhookService = new WebhookService()): void => {
+  if (deliveryInterval) return;
+
+  unsubscribe = onMemoryEvent((event) => service.handleMemoryEvent(event));
+
+  let polling = false;
+  deliveryInterval = setInterval(() => {
+    if (polling) return;
+    polling = true;
+    service.processDueDeliveries()
+      .catch((error: unknown) => logger.error('Webhook retry poll failed', { error }))
+      .finally(() => {
+        polling = false;
+      });
+  }, config.WEBHOOK_POLL_INTERVAL_MS);
+  deliveryInterval.unref();
+
+  logger.info('Webhook delivery worker started');
+};
+
+export const stopWebhookDeliveryWorker = (): void => {
+  if (deliveryInterval) {
+    clearInterval(deliveryInterval);
+    deliveryInterval = null;
+  }
+  unsubscribe?.();
+  unsubscribe = null;
+};
@@ -0,0 +1,175 @@
+import { z } from 'zod';
+
+export const ACCESS_PERMISSIONS = ['read', 'write', 'delete', 'admin'] as const;
+export const ACCESS_PRINCIPAL_TYPES = ['user', 'app', 'api_key'] as const;
+
+export type AccessPermission = typeof ACCESS_PERMISSIONS[number];
+export type AccessPrincipalType = typeof ACCESS_PRINCIPAL_TYPES[number];
+
+/** App principals are OAuth client IDs; this also keeps them safe inside PostgREST filters */
+export const APP_ID_PATTERN = /^[A-Za-z0-9][A-Za-z0-9._:-]{0,254}$/;
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     AccessRule:
+ *       type: object
+ *       description: |
+ *         Sharing rule on a memory or on a topic (covering its memories).
+ *         A grant allows the permission and every lower one; a deny
+ *         (`granted: false`) blocks the permission and every higher one.
+ *         Order: read < write < delete < admin.
+ *       properties:
+ *         id:
+ *           type: string
+ *           format: uuid
+ *         memory_id:
+ *           type: string
+ *           format: uuid
+ *           nullable: true
+ *         topic_id:
+ *           type: string
+ *           format: uuid
+ *           nullable: true
+ *         principal_type:
+ *           type: string
+ *           enum: [user, app, api_key]
+ *         principal_id:
+ *           type: string
+ *           description: User ID, app ID (the OAuth client ID of the caller's token) or API key ID
+ *         permission:
+ *           type: string
+ *           enum: [read, write, delete, admin]
+ *         granted:
+ *           type: boolean
+ *         expires_at:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *         created_by:
+ *           type: string
+ *           format: uuid
+ *           nullable: true
+ *         created_at:
+ *           type: string
+ *           format: date-time
+ */
+export interface AccessRule {
+  id: string;
+  organization_id: string;
+  memory_id: string | null;
+  topic_id: string | null;
+  principal_type: AccessPrincipalType;
+  principal_id: string;
+  permission: AccessPermission;
+  granted: boolean;
+  expires_at: string | null;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     AccessAuditEntry:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *           format: uuid
+ *         memory_id:
+ *           type: string
+ *           format: uuid
+ *           nullable: true
+ *         topic_id:
+ *           type: string
+ *           format: uuid
+ *           nullable: true
+ *         user_id:
+ *           type: string
+ *           nullable: true
+ *         app_id:
+ *           type: string
+ *           nullable: true
+ *         api_key_id:
+ *           type: string
+ *           nullable: true
+ *         access_type:
+ *           type: string
+ *           description: Permission checked, or rule_grant / rule_revoke
+ *         success:
+ *           type: boolean
+ *         reason:
+ *           type: string
+ *           nullable: true
+ *         rule_id:
+ *           type: string
+ *           format: uuid
+ *           nullable: true
+ *         created_at:
+ *           type: string
+ *           format: date-time
+ */
+export interface AccessAuditEntry {
+  id: string;
+  organization_id: string;
+  memory_id: string | null;
+  topic_id: string | null;
+  user_id: string | null;
+  app_id: string | null;
+  api_key_id: string | null;
+  access_type: AccessPermission | 'rule_grant' | 'rule_revoke' | 'list' | 'search';
+  success: boolean;
+  reason: string | null;
+  rule_id: string | null;
+  metadata: Record<string, unknown>;
+  created_at: string;
+}
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     GrantAccessRequest:
+ *       type: object
+ *       required: [principal_type, principal_id, permission]
+ *       properties:
+ *         principal_type:
+ *           type: string
+ *           enum: [user, app, api_key]
+ *         principal_id:
+ *           type: string
+ *         permission:
+ *           type: string
+ *           enum: [read, write, delete, admin]
+ *         granted:
+ *           type: boolean
+ *           default: true
+ *           description: false creates a deny rule
+ *         expires_at:
+ *           type: string
+ *           format: date-time
+ */
+export const grantAccessSchema = z.object({
+  principal_type: z.enum(ACCESS_PRINCIPAL_TYPES),
+  principal_id: z.string().min(1).max(255),
+  permission: z.enum(ACCESS_PERMISSIONS),
+  granted: z.boolean().default(true),
+  expires_at: z.string().datetime()
+    .refine((value) => new Date(value).getTime() > Date.now(), { message: 'expires_at must be in the future' })
+    .optional()
+}).refine((data) => data.principal_type !== 'app' || APP_ID_PATTERN.test(data.principal_id), {
+  message: 'App principal IDs are OAuth client IDs (letters, digits, ".", "_", ":" and "-")',
+  path: ['principal_id']
+});
+
+export const listAccessAuditQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+  offset: z.coerce.number().int().min(0).default(0)
+});
+
+export type GrantAccessRequest = z.infer<typeof grantAccessSchema>;
+export type ListAccessAuditQuery = z.infer<typeof listAccessAuditQuerySchema>;
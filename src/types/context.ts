@@ -0,0 +1,165 @@
+import { z } from 'zod';
+
+import { SEARCH_MODE_ENUM } from '@/types/memory';
+
+export const CONTEXT_TOKENIZERS = ['cl100k', 'o200k', 'claude', 'llama', 'generic'] as const;
+export const CONTEXT_FORMATS = ['markdown', 'xml', 'plain'] as const;
+
+export type ContextTokenizer = typeof CONTEXT_TOKENIZERS[number];
+export type ContextFormat = typeof CONTEXT_FORMATS[number];
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     BuildContextRequest:
+ *       type: object
+ *       required:
+ *         - query
+ *       properties:
+ *         query:
+ *           type: string
+ *           minLength: 1
+ *           maxLength: 1000
+ *         max_tokens:
+ *           type: integer
+ *           minimum: 64
+ *           maximum: 32000
+ *           default: 2000
+ *           description: Token budget for the whole context block, header included
+ *         tokenizer:
+ *           type: string
+ *           enum: [cl100k, o200k, claude, llama, generic]
+ *           default: cl100k
+ *           description: Tokenizer family of the target model, used to estimate token counts
+ *         format:
+ *           type: string
+ *           enum: [markdown, xml, plain]
+ *           default: markdown
+ *         memory_types:
+ *           type: array
+ *           items:
+ *             type: string
+ *             enum: [context, project, knowledge, reference, personal, workflow]
+ *         tags:
+ *           type: array
+ *           items:
+ *             type: string
+ *         topic_id:
+ *           type: string
+ *           format: uuid
+ *         mode:
+ *           type: string
+ *           enum: [vector, lexical, hybrid]
+ *           default: hybrid
+ *         threshold:
+ *           type: number
+ *           minimum: 0
+ *           maximum: 1
+ *           default: 0.7
+ *         candidates:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 100
+ *           default: 30
+ *           description: Search results considered before deduplication and packing
+ */
+export const buildContextSchema = z.object({
+  query: z.string().min(1).max(1000),
+  max_tokens: z.number().int().min(64).max(32000).default(2000),
+  tokenizer: z.enum(CONTEXT_TOKENIZERS).default('cl100k'),
+  format: z.enum(CONTEXT_FORMATS).default('markdown'),
+  memory_types: z.array(z.enum(['context', 'project', 'knowledge', 'reference', 'personal', 'workflow'])).optional(),
+  tags: z.array(z.string()).optional(),
+  topic_id: z.string().uuid().optional(),
+  mode: z.enum(SEARCH_MODE_ENUM).default('hybrid'),
+  threshold: z.number().min(0).max(1).default(0.7),
+  candidates: z.number().int().min(1).max(100).default(30)
+});
+
+export type BuildContextRequest = z.infer<typeof buildContextSchema>;
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     ContextCitation:
+ *       type: object
+ *       properties:
+ *         index:
+ *           type: integer
+ *           description: Position of the memory in the context block, starting at 1
+ *         memory_id:
+ *           type: string
+ *           format: uuid
+ *         title:
+ *           type: string
+ *         memory_type:
+ *           type: string
+ *         relevance_score:
+ *           type: number
+ *         tokens:
+ *           type: integer
+ *         truncated:
+ *           type: boolean
+ *           description: Content was cut to fit the remaining budget
+ *         redactions:
+ *           type: integer
+ *           description: Secrets replaced with a placeholder in this memory
+ */
+export interface ContextCitation {
+  index: number;
+  memory_id: string;
+  title: string;
+  memory_type: string;
+  relevance_score: number;
+  tokens: number;
+  truncated: boolean;
+  redactions: number;
+}
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     ContextBlock:
+ *       type: object
+ *       properties:
+ *         context:
+ *           type: string
+ *           description: Formatted block ready to place in a prompt; empty when nothing matched
+ *         citations:
+ *           type: array
+ *           items:
+ *             $ref: '#/components/schemas/ContextCitation'
+ *         tokens_used:
+ *           type: integer
+ *         max_tokens:
+ *           type: integer
+ *         tokenizer:
+ *           type: string
+ *         format:
+ *           type: string
+ *         dropped:
+ *           type: object
+ *           properties:
+ *             duplicates:
+ *               type: integer
+ *             injection:
+ *               type: integer
+ *             over_budget:
+ *               type: integer
+ */
+export interface ContextBlock {
+  context: string;
+  citations: ContextCitation[];
+  tokens_used: number;
+  max_tokens: number;
+  tokenizer: ContextTokenizer;
+  format: ContextFormat;
+  dropped: {
+    duplicates: number;
+    injection: number;
+    over_budget: number;
+  };
+}
@@ -0,0 +1,128 @@
+import { z } from 'zod';
+
+import type { EmbeddingProfile } from '@/services/embeddingProviders';
+
+export const EMBEDDING_MIGRATION_STATUSES = ['running', 'paused', 'completed', 'failed', 'cancelled'] as const;
+
+export type EmbeddingMigrationStatus = typeof EMBEDDING_MIGRATION_STATUSES[number];
+
+/** Statuses that hold the organization's single open-migration slot */
+export const OPEN_MIGRATION_STATUSES: readonly EmbeddingMigrationStatus[] = ['running', 'paused'];
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     EmbeddingMigration:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *           format: uuid
+ *         organization_id:
+ *           type: string
+ *           format: uuid
+ *         status:
+ *           type: string
+ *           enum: [running, paused, completed, failed, cancelled]
+ *         target_provider:
+ *           type: string
+ *         target_model:
+ *           type: string
+ *         target_dimensions:
+ *           type: integer
+ *         total:
+ *           type: integer
+ *           description: Stale memories found when the migration started
+ *         processed:
+ *           type: integer
+ *           description: Memories re-embedded so far
+ *         failed:
+ *           type: integer
+ *           description: Memories that could not be re-embedded; they stay stale
+ *         cursor_id:
+ *           type: string
+ *           format: uuid
+ *           nullable: true
+ *           description: Last memory id handled; a resumed job continues after it
+ *         batch_size:
+ *           type: integer
+ *         delay_ms:
+ *           type: integer
+ *         last_error:
+ *           type: string
+ *           nullable: true
+ *         started_by:
+ *           type: string
+ *           format: uuid
+ *           nullable: true
+ *         heartbeat_at:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *         created_at:
+ *           type: string
+ *           format: date-time
+ *         updated_at:
+ *           type: string
+ *           format: date-time
+ *         completed_at:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ */
+export interface EmbeddingMigration {
+  id: string;
+  organization_id: string;
+  status: EmbeddingMigrationStatus;
+  target_provider: string;
+  target_model: string;
+  target_dimensions: number;
+  total: number;
+  processed: number;
+  failed: number;
+  cursor_id: string | null;
+  batch_size: number;
+  delay_ms: number;
+  last_error: string | null;
+  started_by: string | null;
+  heartbeat_at: string | null;
+  created_at: string;
+  updated_at: string;
+  completed_at: string | null;
+}
+
+export const startEmbeddingMigrationSchema = z.object({
+  batch_size: z.number().int().min(1).max(500).default(50),
+  delay_ms: z.number().int().min(0).max(60_000).default(1000),
+  dry_run: z.boolean().default(false)
+});
+
+export type StartEmbeddingMigrationRequest = z.infer<typeof startEmbeddingMigrationSchema>;
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     EmbeddingMigrationPlan:
+ *       type: object
+ *       properties:
+ *         profile_id:
+ *           type: string
+ *           example: openai:text-embedding-3-small:1536
+ *         target:
+ *           $ref: '#/components/schemas/EmbeddingProfile'
+ *         stale_memories:
+ *           type: integer
+ *           description: Memories without an embedding or embedded with another profile
+ *         open_migration:
+ *           nullable: true
+ *           allOf:
+ *             - $ref: '#/components/schemas/EmbeddingMigration'
+ */
+export interface EmbeddingMigrationPlan {
+  profile_id: string;
+  target: EmbeddingProfile;
+  stale_memories: number;
+  open_migration: EmbeddingMigration | null;
+}
@@ -8,6 +8,8 @@ export interface AuthenticatedUser {
     plan?: string | undefined;
     organization_id?: string | undefined;
     api_key_id?: string | undefined;
+    /** OAuth client the verified token was issued to (its `client_id` claim) */
+    app_id?: string | undefined;
     auth_type: 'jwt' | 'api_key' | 'sso';
     // Additional fields from UnifiedUser for compatibility
     userId?: string | undefined;
@@ -30,6 +32,7 @@ export interface UnifiedUser extends Partial<JWTPayload> {
     // Core alignment additions
     auth_type?: 'jwt' | 'api_key' | 'sso' | undefined;
     api_key_id?: string | undefined;
+    app_id?: string | undefined;
     last_used?: string | undefined;
     rate_limit_remaining?: number | undefined;
     // Missing properties that are used throughout the codebase
@@ -1,5 +1,18 @@
 import { z } from 'zod';
 
+import { EMBEDDING_PROVIDER_NAMES } from '@/services/embeddingProviders';
+
+export const MEMORY_STATES = ['active', 'paused', 'archived', 'deleted'] as const;
+
+export type MemoryState = typeof MEMORY_STATES[number];
+
+/** States returned by search and list when no state filter is given */
+export const DEFAULT_MEMORY_STATES: MemoryState[] = ['active'];
+
+export const MEMORY_LIFECYCLE_ACTIONS = ['archive', 'pause', 'resume', 'restore', 'delete'] as const;
+
+export type MemoryLifecycleAction = typeof MEMORY_LIFECYCLE_ACTIONS[number];
+
 /**
  * @swagger
  * components:
@@ -33,6 +46,30 @@ import { z } from 'zod';
  *           format: uuid
  *         metadata:
  *           type: object
+ *         state:
+ *           type: string
+ *           enum: [active, paused, archived, deleted]
+ *           description: |
+ *             Lifecycle state. Search and list return active memories unless
+ *             a state filter asks for more; deleted memories are in the trash
+ *             until purge_after.
+ *         paused_at:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *         archived_at:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *         deleted_at:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *         purge_after:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *           description: When a deleted memory is removed for good
  *         created_at:
  *           type: string
  *           format: date-time
@@ -45,6 +82,16 @@ import { z } from 'zod';
  *         access_count:
  *           type: integer
  *           minimum: 0
+ *         embedding_provider:
+ *           type: string
+ *           nullable: true
+ *           description: Provider that produced the stored embedding (null for legacy rows)
+ *         embedding_model:
+ *           type: string
+ *           nullable: true
+ *         embedding_dimensions:
+ *           type: integer
+ *           nullable: true
  */
 export interface MemoryEntry {
   id: string;
@@ -57,10 +104,18 @@ export interface MemoryEntry {
   user_id: string;
   organization_id: string;
   metadata?: Record<string, unknown>;
+  state?: MemoryState;
+  paused_at?: string | null;
+  archived_at?: string | null;
+  deleted_at?: string | null;
+  purge_after?: string | null;
   created_at: string;
   updated_at: string;
   last_accessed?: string;
   access_count: number;
+  embedding_provider?: string | null;
+  embedding_model?: string | null;
+  embedding_dimensions?: number | null;
 }
 
 /**
@@ -115,7 +170,7 @@ export interface MemoryEntry {
  */
 const MEMORY_TYPE_ENUM = ['context', 'project', 'knowledge', 'reference', 'personal', 'workflow'] as const;
 
-export const createMemorySchema = z.object({
+const createMemoryFields = {
   title: z.string().min(1).max(200),
   content: z.string().min(1).max(50000),
   memory_type: z.enum(MEMORY_TYPE_ENUM).optional(),
@@ -124,12 +179,41 @@ export const createMemorySchema = z.object({
   topic_id: z.string().uuid().optional(),
   topic_key: z.string().min(1).max(100).optional(),
   metadata: z.record(z.unknown()).optional()
-}).transform((data) => ({
+};
+
+export const createMemorySchema = z.object(createMemoryFields).transform((data) => ({
   ...data,
   memory_type: data.memory_type ?? data.type ?? 'context',
   type: undefined, // normalise — downstream only sees memory_type
 }));
 
+/**
+ * One line of a `POST /memory/import` NDJSON body: a create request plus an
+ * optional precomputed embedding. Unknown keys (id, timestamps from an
+ * export) are stripped, so export output can be imported as-is.
+ */
+export const importMemoryLineSchema = z.object({
+  ...createMemoryFields,
+  embedding: z.array(z.number()).min(1).optional()
+}).transform((data) => ({
+  ...data,
+  memory_type: data.memory_type ?? data.type ?? 'context',
+  type: undefined,
+}));
+
+const EXPORT_FORMAT_ENUM = ['ndjson', 'json'] as const;
+
+export const exportMemoryQuerySchema = z.object({
+  format: z.enum(EXPORT_FORMAT_ENUM).default('ndjson'),
+  memory_type: z.enum(MEMORY_TYPE_ENUM).optional(),
+  tags: z.string().optional().transform((value) => value?.split(',').map((tag) => tag.trim()).filter(Boolean)),
+  topic_id: z.string().uuid().optional(),
+  user_id: z.string().uuid().optional(),
+  created_after: z.string().datetime().optional(),
+  created_before: z.string().datetime().optional(),
+  include_embeddings: z.enum(['true', 'false']).default('false').transform((value) => value === 'true')
+});
+
 /**
  * @swagger
  * components:
@@ -202,6 +286,15 @@ export const updateMemorySchema = z.object({
  *         topic_id:
  *           type: string
  *           format: uuid
+ *         states:
+ *           type: array
+ *           items:
+ *             type: string
+ *             enum: [active, paused, archived, deleted]
+ *           description: Lifecycle states to search (default active only)
+ *         include_deleted:
+ *           type: boolean
+ *           description: Also search memories in the trash
  *         limit:
  *           type: integer
  *           minimum: 1
@@ -212,7 +305,17 @@ export const updateMemorySchema = z.object({
  *           minimum: 0
  *           maximum: 1
  *           default: 0.7
+ *           description: Minimum cosine similarity for the vector leg (ignored in lexical mode)
+ *         mode:
+ *           type: string
+ *           enum: [vector, lexical, hybrid]
+ *           default: vector
+ *           description: |
+ *             vector — embedding similarity only; lexical — full-text ranking only;
+ *             hybrid — both legs fused with reciprocal-rank fusion
  */
+export const SEARCH_MODE_ENUM = ['vector', 'lexical', 'hybrid'] as const;
+
 export const searchMemorySchema = z.object({
   query: z.string().min(1).max(1000),
   memory_types: z.array(z.enum(['context', 'project', 'knowledge', 'reference', 'personal', 'workflow'])).optional(),
@@ -221,6 +324,8 @@ export const searchMemorySchema = z.object({
   topic_key: z.string().min(1).max(100).optional(),
   limit: z.number().int().min(1).max(100).default(20),
   threshold: z.number().min(0).max(1).default(0.7),
+  mode: z.enum(SEARCH_MODE_ENUM).default('vector'),
+  states: z.array(z.enum(MEMORY_STATES)).min(1).optional(),
   include_deleted: z.boolean().optional(),
   response_mode: z.enum(['full', 'compact', 'timeline']).optional()
 });
@@ -238,15 +343,32 @@ export const searchMemorySchema = z.object({
  *               type: number
  *               minimum: 0
  *               maximum: 1
- *               description: Semantic similarity score
+ *               description: Score used for ordering (fused score in hybrid mode)
+ *             vector_score:
+ *               type: number
+ *               description: Cosine similarity, when the vector leg matched
+ *             lexical_score:
+ *               type: number
+ *               description: Normalized full-text rank, when the lexical leg matched
+ *             fused_score:
+ *               type: number
+ *               description: Raw reciprocal-rank fusion score (hybrid mode only)
  */
 export interface MemorySearchResult extends MemoryEntry {
   relevance_score: number;
+  vector_score?: number;
+  lexical_score?: number;
+  fused_score?: number;
 }
 
+export type SearchMode = typeof SEARCH_MODE_ENUM[number];
+
 export type MemoryType = 'context' | 'project' | 'knowledge' | 'reference' | 'personal' | 'workflow';
 
 export type CreateMemoryRequest = z.infer<typeof createMemorySchema>;
+export type ImportMemoryLine = z.infer<typeof importMemoryLineSchema>;
+export type ExportMemoryQuery = z.infer<typeof exportMemoryQuerySchema>;
+export type ExportFormat = typeof EXPORT_FORMAT_ENUM[number];
 export type UpdateMemoryRequest = z.infer<typeof updateMemorySchema>;
 export type SearchMemoryRequest = z.infer<typeof searchMemorySchema>;
 
@@ -307,3 +429,328 @@ export interface MemoryStats {
   most_accessed_memory?: MemoryEntry;
   recent_memories: MemoryEntry[];
 }
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     MemoryVersion:
+ *       type: object
+ *       description: Snapshot of a memory entry written by the create_memory_version() trigger
+ *       properties:
+ *         id:
+ *           type: string
+ *           format: uuid
+ *         memory_id:
+ *           type: string
+ *           format: uuid
+ *         version_number:
+ *           type: integer
+ *           minimum: 1
+ *         title:
+ *           type: string
+ *         content:
+ *           type: string
+ *         memory_type:
+ *           type: string
+ *           enum: [context, project, knowledge, reference, personal, workflow]
+ *         tags:
+ *           type: array
+ *           items:
+ *             type: string
+ *         topic_id:
+ *           type: string
+ *           format: uuid
+ *           nullable: true
+ *         metadata:
+ *           type: object
+ *         created_by:
+ *           type: string
+ *           format: uuid
+ *         created_at:
+ *           type: string
+ *           format: date-time
+ */
+export interface MemoryVersion {
+  id: string;
+  memory_id: string;
+  version_number: number;
+  title: string;
+  content: string;
+  memory_type: MemoryType;
+  tags: string[];
+  topic_id?: string | null;
+  metadata?: Record<string, unknown>;
+  created_by: string;
+  created_at: string;
+}
+
+export type VersionSnapshot = Pick<MemoryVersion, 'title' | 'content' | 'memory_type' | 'tags' | 'topic_id' | 'metadata'>;
+
+export interface ContentDiffHunk {
+  op: 'equal' | 'add' | 'remove';
+  lines: string[];
+}
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     MemoryVersionDiff:
+ *       type: object
+ *       properties:
+ *         memory_id:
+ *           type: string
+ *           format: uuid
+ *         from_version:
+ *           type: integer
+ *         to_version:
+ *           type: integer
+ *           nullable: true
+ *           description: Null when diffing against the current memory state
+ *         changed_fields:
+ *           type: array
+ *           items:
+ *             type: string
+ *         title:
+ *           type: object
+ *           properties:
+ *             from:
+ *               type: string
+ *             to:
+ *               type: string
+ *         tags:
+ *           type: object
+ *           properties:
+ *             added:
+ *               type: array
+ *               items:
+ *                 type: string
+ *             removed:
+ *               type: array
+ *               items:
+ *                 type: string
+ *         metadata_keys_changed:
+ *           type: array
+ *           items:
+ *             type: string
+ *         content:
+ *           type: array
+ *           items:
+ *             type: object
+ *             properties:
+ *               op:
+ *                 type: string
+ *                 enum: [equal, add, remove]
+ *               lines:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ */
+export interface MemoryVersionDiff {
+  memory_id: string;
+  from_version: number;
+  to_version: number | null;
+  changed_fields: Array<keyof VersionSnapshot>;
+  title?: { from: string; to: string };
+  memory_type?: { from: MemoryType; to: MemoryType };
+  topic_id?: { from: string | null; to: string | null };
+  tags?: { added: string[]; removed: string[] };
+  metadata_keys_changed?: string[];
+  content: ContentDiffHunk[];
+}
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     MemoryImportResult:
+ *       type: object
+ *       properties:
+ *         total:
+ *           type: integer
+ *           description: Non-blank lines read
+ *         imported:
+ *           type: integer
+ *         failed:
+ *           type: integer
+ *         results:
+ *           type: array
+ *           items:
+ *             type: object
+ *             properties:
+ *               line:
+ *                 type: integer
+ *                 description: 1-based line number in the request body
+ *               status:
+ *                 type: string
+ *                 enum: [created, error]
+ *               id:
+ *                 type: string
+ *                 format: uuid
+ *               error:
+ *                 type: string
+ */
+export interface ImportLineResult {
+  line: number;
+  status: 'created' | 'error';
+  id?: string;
+  error?: string;
+}
+
+export interface MemoryImportResult {
+  total: number;
+  imported: number;
+  failed: number;
+  results: ImportLineResult[];
+}
+
+/**
+ * A memory as written by `GET /memory/export`. Each NDJSON line (and each
+ * element of a JSON archive's `memories`) is a valid import line.
+ */
+export interface MemoryExportRecord {
+  id: string;
+  title: string;
+  content: string;
+  memory_type: MemoryType;
+  tags: string[];
+  topic_id: string | null;
+  metadata: Record<string, unknown>;
+  user_id: string;
+  created_at: string;
+  updated_at: string;
+  embedding?: number[];
+}
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     EmbeddingProfile:
+ *       type: object
+ *       properties:
+ *         provider:
+ *           type: string
+ *           enum: [openai, voyage, azure, local]
+ *         model:
+ *           type: string
+ *         dimensions:
+ *           type: integer
+ *     EmbeddingSettings:
+ *       type: object
+ *       properties:
+ *         selected_provider:
+ *           type: string
+ *           nullable: true
+ *           description: Provider chosen for the organization; null uses the deployment default
+ *         active:
+ *           $ref: '#/components/schemas/EmbeddingProfile'
+ *         default:
+ *           $ref: '#/components/schemas/EmbeddingProfile'
+ *         providers:
+ *           type: array
+ *           items:
+ *             allOf:
+ *               - $ref: '#/components/schemas/EmbeddingProfile'
+ *               - type: object
+ *                 properties:
+ *                   available:
+ *                     type: boolean
+ */
+export const updateEmbeddingProviderSchema = z.object({
+  provider: z.enum(EMBEDDING_PROVIDER_NAMES).nullable()
+});
+
+export type UpdateEmbeddingProviderRequest = z.infer<typeof updateEmbeddingProviderSchema>;
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     MemoryStateTransition:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *           format: uuid
+ *         memory_id:
+ *           type: string
+ *           format: uuid
+ *         from_state:
+ *           type: string
+ *           enum: [active, paused, archived, deleted]
+ *         to_state:
+ *           type: string
+ *           enum: [active, paused, archived, deleted]
+ *         reason:
+ *           type: string
+ *           nullable: true
+ *         metadata:
+ *           type: object
+ *         changed_by:
+ *           type: string
+ *           format: uuid
+ *           nullable: true
+ *         created_at:
+ *           type: string
+ *           format: date-time
+ */
+export interface MemoryStateTransition {
+  id: string;
+  memory_id: string;
+  from_state: MemoryState;
+  to_state: MemoryState;
+  reason: string | null;
+  metadata: Record<string, unknown>;
+  changed_by: string | null;
+  created_at: string;
+}
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     MemoryTransitionRequest:
+ *       type: object
+ *       properties:
+ *         reason:
+ *           type: string
+ *           maxLength: 500
+ *           description: Recorded in the memory's transition history
+ *         metadata:
+ *           type: object
+ */
+export const memoryTransitionSchema = z.object({
+  reason: z.string().min(1).max(500).optional(),
+  metadata: z.record(z.unknown()).optional()
+});
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     BulkMemoryStateRequest:
+ *       type: object
+ *       required: [memory_ids, action]
+ *       properties:
+ *         memory_ids:
+ *           type: array
+ *           items:
+ *             type: string
+ *             format: uuid
+ *           maxItems: 100
+ *         action:
+ *           type: string
+ *           enum: [archive, pause, resume, restore, delete]
+ *         reason:
+ *           type: string
+ *           maxLength: 500
+ */
+export const bulkMemoryStateSchema = memoryTransitionSchema.extend({
+  memory_ids: z.array(z.string().uuid()).min(1).max(100),
+  action: z.enum(MEMORY_LIFECYCLE_ACTIONS)
+});
+
+export type MemoryTransitionRequest = z.infer<typeof memoryTransitionSchema>;
+export type BulkMemoryStateRequest = z.infer<typeof bulkMemoryStateSchema>;
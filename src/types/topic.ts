@@ -0,0 +1,183 @@
+import { z } from 'zod';
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     Topic:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *           format: uuid
+ *         name:
+ *           type: string
+ *         description:
+ *           type: string
+ *           nullable: true
+ *         color:
+ *           type: string
+ *           nullable: true
+ *           example: "#3B82F6"
+ *         icon:
+ *           type: string
+ *           nullable: true
+ *         parent_topic_id:
+ *           type: string
+ *           format: uuid
+ *           nullable: true
+ *         is_system:
+ *           type: boolean
+ *         metadata:
+ *           type: object
+ *         user_id:
+ *           type: string
+ *           format: uuid
+ *         organization_id:
+ *           type: string
+ *           format: uuid
+ *         created_at:
+ *           type: string
+ *           format: date-time
+ *         updated_at:
+ *           type: string
+ *           format: date-time
+ */
+export interface Topic {
+  id: string;
+  name: string;
+  description?: string | null;
+  color?: string | null;
+  icon?: string | null;
+  parent_topic_id?: string | null;
+  is_system: boolean;
+  metadata?: Record<string, unknown>;
+  user_id: string;
+  organization_id: string;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     TopicTreeNode:
+ *       allOf:
+ *         - $ref: '#/components/schemas/Topic'
+ *         - type: object
+ *           properties:
+ *             memory_count:
+ *               type: integer
+ *             children:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/TopicTreeNode'
+ */
+export interface TopicTreeNode extends Topic {
+  memory_count: number;
+  children: TopicTreeNode[];
+}
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     CreateTopicRequest:
+ *       type: object
+ *       required:
+ *         - name
+ *       properties:
+ *         name:
+ *           type: string
+ *           minLength: 1
+ *           maxLength: 100
+ *         description:
+ *           type: string
+ *           maxLength: 500
+ *         color:
+ *           type: string
+ *           pattern: '^#[0-9A-Fa-f]{6}$'
+ *         icon:
+ *           type: string
+ *           maxLength: 50
+ *         parent_topic_id:
+ *           type: string
+ *           format: uuid
+ *         metadata:
+ *           type: object
+ */
+const HEX_COLOR = /^#[0-9A-Fa-f]{6}$/;
+
+export const createTopicSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  description: z.string().max(500).optional(),
+  color: z.string().regex(HEX_COLOR).optional(),
+  icon: z.string().max(50).optional(),
+  parent_topic_id: z.string().uuid().optional(),
+  metadata: z.record(z.unknown()).optional()
+});
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     UpdateTopicRequest:
+ *       type: object
+ *       properties:
+ *         name:
+ *           type: string
+ *           minLength: 1
+ *           maxLength: 100
+ *         description:
+ *           type: string
+ *           maxLength: 500
+ *           nullable: true
+ *         color:
+ *           type: string
+ *           pattern: '^#[0-9A-Fa-f]{6}$'
+ *           nullable: true
+ *         icon:
+ *           type: string
+ *           maxLength: 50
+ *           nullable: true
+ *         parent_topic_id:
+ *           type: string
+ *           format: uuid
+ *           nullable: true
+ *           description: Set to null to move the topic to the root
+ *         metadata:
+ *           type: object
+ */
+export const updateTopicSchema = z.object({
+  name: z.string().trim().min(1).max(100).optional(),
+  description: z.string().max(500).nullable().optional(),
+  color: z.string().regex(HEX_COLOR).nullable().optional(),
+  icon: z.string().max(50).nullable().optional(),
+  parent_topic_id: z.string().uuid().nullable().optional(),
+  metadata: z.record(z.unknown()).optional()
+});
+
+/**
+ * What happens to a deleted topic's memories: `detach` clears their topic_id,
+ * `move` reassigns them to `target_topic_id`.
+ */
+export const deleteTopicQuerySchema = z.object({
+  memories: z.enum(['detach', 'move']).default('detach'),
+  target_topic_id: z.string().uuid().optional()
+}).refine(
+  (data) => data.memories !== 'move' || Boolean(data.target_topic_id),
+  { message: 'target_topic_id is required when memories=move', path: ['target_topic_id'] }
+);
+
+export type CreateTopicRequest = z.infer<typeof createTopicSchema>;
+export type UpdateTopicRequest = z.infer<typeof updateTopicSchema>;
+export type DeleteTopicOptions = z.infer<typeof deleteTopicQuerySchema>;
+
+export interface DeleteTopicResult {
+  deleted_topic_id: string;
+  memories_action: DeleteTopicOptions['memories'];
+  memories_affected: number;
+  target_topic_id: string | null;
+  children_reparented: number;
+}
@@ -0,0 +1,186 @@
+import { z } from 'zod';
+
+import { MEMORY_EVENT_TYPES, MemoryEventType } from '@/services/memoryEvents';
+import type { MemoryType } from '@/types/memory';
+
+const MEMORY_TYPE_ENUM = ['context', 'project', 'knowledge', 'reference', 'personal', 'workflow'] as const;
+
+export const WEBHOOK_DELIVERY_STATUSES = ['pending', 'retrying', 'succeeded', 'dead'] as const;
+
+export type WebhookDeliveryStatus = typeof WEBHOOK_DELIVERY_STATUSES[number];
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     WebhookSubscription:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *           format: uuid
+ *         organization_id:
+ *           type: string
+ *           format: uuid
+ *         url:
+ *           type: string
+ *           format: uri
+ *         description:
+ *           type: string
+ *           nullable: true
+ *         events:
+ *           type: array
+ *           items:
+ *             type: string
+ *             enum: [memory.created, memory.updated, memory.deleted]
+ *         memory_types:
+ *           type: array
+ *           nullable: true
+ *           items:
+ *             type: string
+ *           description: Only deliver events for these memory types
+ *         tags:
+ *           type: array
+ *           nullable: true
+ *           items:
+ *             type: string
+ *           description: Only deliver events for memories with at least one of these tags
+ *         topic_id:
+ *           type: string
+ *           format: uuid
+ *           nullable: true
+ *         enabled:
+ *           type: boolean
+ *         last_delivery_at:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *         last_failure_at:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *         created_at:
+ *           type: string
+ *           format: date-time
+ *         updated_at:
+ *           type: string
+ *           format: date-time
+ */
+export interface WebhookSubscription {
+  id: string;
+  organization_id: string;
+  created_by: string | null;
+  url: string;
+  description: string | null;
+  events: MemoryEventType[];
+  memory_types: MemoryType[] | null;
+  tags: string[] | null;
+  topic_id: string | null;
+  enabled: boolean;
+  last_delivery_at: string | null;
+  last_failure_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+/** Stored row; the secret never leaves the service except on create/rotate */
+export interface WebhookSubscriptionRecord extends WebhookSubscription {
+  secret: string;
+}
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     WebhookDelivery:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *           format: uuid
+ *         subscription_id:
+ *           type: string
+ *           format: uuid
+ *         event_id:
+ *           type: string
+ *           format: uuid
+ *         event_type:
+ *           type: string
+ *         payload:
+ *           type: object
+ *         status:
+ *           type: string
+ *           enum: [pending, retrying, succeeded, dead]
+ *         attempts:
+ *           type: integer
+ *         next_attempt_at:
+ *           type: string
+ *           format: date-time
+ *         last_status_code:
+ *           type: integer
+ *           nullable: true
+ *         last_error:
+ *           type: string
+ *           nullable: true
+ *         last_duration_ms:
+ *           type: integer
+ *           nullable: true
+ *         delivered_at:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *         created_at:
+ *           type: string
+ *           format: date-time
+ */
+export interface WebhookDelivery {
+  id: string;
+  subscription_id: string;
+  organization_id: string;
+  event_id: string;
+  event_type: MemoryEventType | 'webhook.ping';
+  payload: Record<string, unknown>;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  next_attempt_at: string;
+  last_status_code: number | null;
+  last_error: string | null;
+  last_duration_ms: number | null;
+  delivered_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+const webhookUrlSchema = z.string().url().max(2048).refine(
+  (value) => /^https?:$/.test(new URL(value).protocol),
+  { message: 'Webhook URL must use http or https' }
+);
+
+const webhookFilterFields = {
+  description: z.string().max(500).nullable().optional(),
+  events: z.array(z.enum(MEMORY_EVENT_TYPES)).min(1).optional(),
+  memory_types: z.array(z.enum(MEMORY_TYPE_ENUM)).min(1).nullable().optional(),
+  tags: z.array(z.string().min(1).max(100)).min(1).nullable().optional(),
+  topic_id: z.string().uuid().nullable().optional(),
+  enabled: z.boolean().optional()
+};
+
+export const createWebhookSchema = z.object({
+  url: webhookUrlSchema,
+  ...webhookFilterFields
+});
+
+export const updateWebhookSchema = z.object({
+  url: webhookUrlSchema.optional(),
+  ...webhookFilterFields
+}).refine((data) => Object.keys(data).length > 0, { message: 'At least one field must be provided' });
+
+export const listWebhookDeliveriesQuerySchema = z.object({
+  status: z.enum(WEBHOOK_DELIVERY_STATUSES).optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(50),
+  offset: z.coerce.number().int().min(0).default(0)
+});
+
+export type CreateWebhookRequest = z.infer<typeof createWebhookSchema>;
+export type UpdateWebhookRequest = z.infer<typeof updateWebhookSchema>;
+export type ListWebhookDeliveriesQuery = z.infer<typeof listWebhookDeliveriesQuerySchema>;
@@ -0,0 +1,62 @@
+// Flushes a subject's reasoning queue. Called by IntelligenceService.flushReasoningQueue
+// with the service role key; runs the same pipeline as the Node reasoning worker.
+import { serve } from 'std/http/server.ts';
+import { createClient } from '@supabase/supabase-js';
+
+import {
+  DeterministicReasoningClient,
+  OpenAIReasoningClient,
+  ReasoningRunner,
+  SupabaseReasoningStore,
+} from '../../../src/services/reasoningEngine.ts';
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+
+serve(async (req) => {
+  if (req.method !== 'POST') {
+    return json({ error: 'Method not allowed' }, 405);
+  }
+
+  let subjectId: unknown;
+  try {
+    ({ subject_id: subjectId } = await req.json());
+  } catch {
+    return json({ error: 'Invalid JSON body' }, 400);
+  }
+  if (typeof subjectId !== 'string' || subjectId.length === 0) {
+    return json({ error: 'subject_id required' }, 400);
+  }
+
+  const supabase = createClient(
+    Deno.env.get('SUPABASE_URL')!,
+    Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!,
+    { auth: { persistSession: false } },
+  );
+
+  const llm = Deno.env.get('REASONING_LLM') === 'deterministic'
+    ? new DeterministicReasoningClient()
+    : new OpenAIReasoningClient({
+      apiKey: Deno.env.get('OPENAI_API_KEY') ?? '',
+      model: Deno.env.get('REASONING_MODEL') ?? undefined,
+    });
+
+  try {
+    const runner = new ReasoningRunner(new SupabaseReasoningStore(supabase), llm);
+    const result = await runner.runPending(subjectId);
+    if (result.failed_job_ids.length > 0) {
+      console.warn('Reasoning jobs failed:', result.failed_job_ids.join(', '));
+    }
+    return json({
+      flushed: true,
+      job_ids: result.job_ids,
+      conclusion_count: result.conclusion_count,
+    });
+  } catch (err) {
+    console.error('Reasoning flush failed:', err);
+    return json({ error: err instanceof Error ? err.message : 'Reasoning flush failed' }, 500);
+  }
+});
@@ -0,0 +1,76 @@
+-- Lexical search support for POST /memory/search (mode: 'lexical' | 'hybrid').
+--
+-- Adds a generated tsvector over title + content and a ranked full-text RPC
+-- that mirrors match_memories' filters. MemoryService fuses its results with
+-- the vector leg using reciprocal-rank fusion.
+--
+-- The 'simple' text search config is used on purpose: the lexical leg exists to
+-- catch exact identifiers (error codes, function names, ticket numbers) that
+-- stemming and stop-word removal would mangle. Semantic recall is the vector
+-- leg's job.
+
+ALTER TABLE memory_entries
+  ADD COLUMN IF NOT EXISTS search_vector tsvector
+  GENERATED ALWAYS AS (
+    setweight(to_tsvector('simple', coalesce(title, '')), 'A') ||
+    setweight(to_tsvector('simple', coalesce(content, '')), 'B')
+  ) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_memory_entries_search_vector
+  ON memory_entries USING GIN(search_vector);
+
+CREATE OR REPLACE FUNCTION match_memories_lexical(
+  query_text text,
+  match_count int DEFAULT 20,
+  organization_id_param uuid DEFAULT NULL,
+  memory_types_param memory_type[] DEFAULT NULL,
+  tags_param text[] DEFAULT NULL,
+  topic_id_param uuid DEFAULT NULL,
+  user_id_param uuid DEFAULT NULL
+)
+RETURNS TABLE (
+  id uuid,
+  title varchar(200),
+  content text,
+  memory_type memory_type,
+  tags text[],
+  topic_id uuid,
+  user_id uuid,
+  organization_id uuid,
+  metadata jsonb,
+  created_at timestamptz,
+  updated_at timestamptz,
+  last_accessed timestamptz,
+  access_count integer,
+  lexical_score float
+) LANGUAGE sql STABLE AS $$
+  WITH q AS (
+    SELECT websearch_to_tsquery('simple', query_text) AS tsq
+  )
+  SELECT
+    me.id,
+    me.title,
+    me.content,
+    me.memory_type,
+    me.tags,
+    me.topic_id,
+    me.user_id,
+    me.organization_id,
+    me.metadata,
+    me.created_at,
+    me.updated_at,
+    me.last_accessed,
+    me.access_count,
+    -- normalization 32 maps rank into [0, 1): rank / (rank + 1)
+    ts_rank_cd(me.search_vector, q.tsq, 32)::float AS lexical_score
+  FROM memory_entries me, q
+  WHERE
+    me.search_vector @@ q.tsq
+    AND (organization_id_param IS NULL OR me.organization_id = organization_id_param)
+    AND (memory_types_param IS NULL OR me.memory_type = ANY(memory_types_param))
+    AND (tags_param IS NULL OR me.tags && tags_param)
+    AND (topic_id_param IS NULL OR me.topic_id = topic_id_param)
+    AND (user_id_param IS NULL OR me.user_id = user_id_param)
+  ORDER BY lexical_score DESC, me.updated_at DESC
+  LIMIT match_count;
+$$;
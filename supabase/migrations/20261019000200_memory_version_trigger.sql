@@ -0,0 +1,18 @@
+-- Attach create_memory_version() so GET /memory/:id/versions has data.
+--
+-- The initial migration defines the function but never binds it. Bind it on
+-- INSERT (so version 1 is the original write and can be restored to) and on
+-- updates of user-visible columns only, so access tracking
+-- (update_memory_access bumps last_accessed/access_count on every read) does
+-- not spawn a version per read.
+--
+-- Idempotent: replaces the older AFTER UPDATE trigger from src/db/schema.sql
+-- if it is present.
+
+DROP TRIGGER IF EXISTS memory_version_trigger ON memory_entries;
+
+CREATE TRIGGER memory_version_trigger
+  AFTER INSERT OR UPDATE OF title, content, memory_type, tags, topic_id, metadata
+  ON memory_entries
+  FOR EACH ROW
+  EXECUTE FUNCTION create_memory_version();
@@ -0,0 +1,20 @@
+-- Topic hierarchy for /api/v1/topics.
+--
+-- The initial schema created a flat topics table; the CLI and memory-client
+-- already expect parent/child topics, icons and system topics. Add the
+-- missing columns. Children of a deleted parent are re-parented by the API
+-- before the delete; ON DELETE SET NULL is the fallback for direct deletes.
+
+ALTER TABLE topics
+  ADD COLUMN IF NOT EXISTS parent_topic_id UUID REFERENCES topics(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS icon VARCHAR(50),
+  ADD COLUMN IF NOT EXISTS is_system BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS metadata JSONB NOT NULL DEFAULT '{}';
+
+ALTER TABLE topics
+  DROP CONSTRAINT IF EXISTS topics_no_self_parent;
+
+ALTER TABLE topics
+  ADD CONSTRAINT topics_no_self_parent CHECK (parent_topic_id IS NULL OR parent_topic_id <> id);
+
+CREATE INDEX IF NOT EXISTS idx_topics_parent ON topics(parent_topic_id);
@@ -0,0 +1,15 @@
+-- Record which embedding profile produced each stored vector.
+--
+-- Providers now come from a shared registry and organizations can pick
+-- their own (organizations.settings.embedding_provider). Vectors from
+-- different provider/model/dimension profiles are not comparable, so each
+-- row records the profile it was embedded with. NULL means a legacy row
+-- embedded before this migration (OpenAI, 1536 dimensions).
+
+ALTER TABLE memory_entries
+  ADD COLUMN IF NOT EXISTS embedding_provider TEXT,
+  ADD COLUMN IF NOT EXISTS embedding_model TEXT,
+  ADD COLUMN IF NOT EXISTS embedding_dimensions INTEGER;
+
+CREATE INDEX IF NOT EXISTS idx_memory_entries_embedding_profile
+  ON memory_entries(organization_id, embedding_model);
@@ -0,0 +1,113 @@
+-- Re-embedding jobs and profile-aware vector search.
+--
+-- When an organization's embedding provider or model changes, existing rows
+-- keep vectors from the old profile. embedding_migrations tracks the job that
+-- re-embeds them in throttled batches; `cursor_id` makes it resumable after a
+-- pause or restart. At most one job per organization can be unfinished.
+--
+-- match_memories gains optional profile parameters so the API only compares a
+-- query vector with rows embedded by the same provider/model/dimensions.
+-- Stale rows drop out of vector search (lexical search still finds them)
+-- until the migration re-embeds them.
+
+CREATE TABLE IF NOT EXISTS embedding_migrations (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  status TEXT NOT NULL DEFAULT 'running'
+    CHECK (status IN ('running', 'paused', 'completed', 'failed', 'cancelled')),
+  target_provider TEXT NOT NULL,
+  target_model TEXT NOT NULL,
+  target_dimensions INTEGER NOT NULL,
+  total INTEGER NOT NULL DEFAULT 0,
+  processed INTEGER NOT NULL DEFAULT 0,
+  failed INTEGER NOT NULL DEFAULT 0,
+  cursor_id UUID,
+  batch_size INTEGER NOT NULL DEFAULT 50 CHECK (batch_size BETWEEN 1 AND 500),
+  delay_ms INTEGER NOT NULL DEFAULT 1000 CHECK (delay_ms >= 0),
+  last_error TEXT,
+  started_by UUID,
+  heartbeat_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  completed_at TIMESTAMPTZ
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_embedding_migrations_one_open
+  ON embedding_migrations(organization_id)
+  WHERE status IN ('running', 'paused');
+
+CREATE INDEX IF NOT EXISTS idx_embedding_migrations_org_created
+  ON embedding_migrations(organization_id, created_at DESC);
+
+-- Rows written before 20261019000400 have no recorded profile. The column is
+-- vector(1536), so they can only have come from a 1536-dimension OpenAI model;
+-- mcp-core recorded the exact model in metadata.
+UPDATE memory_entries
+SET
+  embedding_provider = 'openai',
+  embedding_model = COALESCE(metadata->>'embedding_model', 'text-embedding-3-small'),
+  embedding_dimensions = 1536
+WHERE embedding IS NOT NULL
+  AND embedding_provider IS NULL;
+
+DROP FUNCTION IF EXISTS match_memories(vector, float, int, uuid, memory_type[], text[], uuid, uuid);
+
+CREATE OR REPLACE FUNCTION match_memories(
+  query_embedding vector(1536),
+  match_threshold float DEFAULT 0.7,
+  match_count int DEFAULT 20,
+  organization_id_param uuid DEFAULT NULL,
+  memory_types_param memory_type[] DEFAULT NULL,
+  tags_param text[] DEFAULT NULL,
+  topic_id_param uuid DEFAULT NULL,
+  user_id_param uuid DEFAULT NULL,
+  embedding_provider_param text DEFAULT NULL,
+  embedding_model_param text DEFAULT NULL,
+  embedding_dimensions_param int DEFAULT NULL
+)
+RETURNS TABLE (
+  id uuid,
+  title varchar(200),
+  content text,
+  memory_type memory_type,
+  tags text[],
+  topic_id uuid,
+  user_id uuid,
+  organization_id uuid,
+  metadata jsonb,
+  created_at timestamptz,
+  updated_at timestamptz,
+  last_accessed timestamptz,
+  access_count integer,
+  relevance_score float
+) LANGUAGE sql STABLE AS $$
+  SELECT
+    me.id,
+    me.title,
+    me.content,
+    me.memory_type,
+    me.tags,
+    me.topic_id,
+    me.user_id,
+    me.organization_id,
+    me.metadata,
+    me.created_at,
+    me.updated_at,
+    me.last_accessed,
+    me.access_count,
+    1 - (me.embedding <=> query_embedding) AS relevance_score
+  FROM memory_entries me
+  WHERE
+    (organization_id_param IS NULL OR me.organization_id = organization_id_param)
+    AND (memory_types_param IS NULL OR me.memory_type = ANY(memory_types_param))
+    AND (tags_param IS NULL OR me.tags && tags_param)
+    AND (topic_id_param IS NULL OR me.topic_id = topic_id_param)
+    AND (user_id_param IS NULL OR me.user_id = user_id_param)
+    AND (embedding_provider_param IS NULL OR me.embedding_provider = embedding_provider_param)
+    AND (embedding_model_param IS NULL OR me.embedding_model = embedding_model_param)
+    AND (embedding_dimensions_param IS NULL OR me.embedding_dimensions = embedding_dimensions_param)
+    AND (me.embedding <=> query_embedding) < (1 - match_threshold)
+    AND me.embedding IS NOT NULL
+  ORDER BY me.embedding <=> query_embedding
+  LIMIT match_count;
+$$;
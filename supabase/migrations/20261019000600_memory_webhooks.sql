@@ -0,0 +1,63 @@
+-- Outbound webhooks for memory mutations.
+--
+-- webhook_subscriptions holds per-organization endpoints with optional event,
+-- memory type, tag and topic filters. The signing secret is stored in clear
+-- because every delivery is HMAC-signed with it; it is only returned to the
+-- client on create and rotate.
+--
+-- webhook_deliveries is both the delivery log and the retry queue: the API
+-- polls rows in 'pending'/'retrying' whose next_attempt_at has passed, backs
+-- off exponentially on failure and moves a delivery to 'dead' (the
+-- dead-letter list) once its attempts are exhausted.
+
+CREATE TABLE IF NOT EXISTS webhook_subscriptions (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  created_by UUID,
+  url TEXT NOT NULL,
+  description TEXT,
+  secret TEXT NOT NULL,
+  events TEXT[] NOT NULL DEFAULT ARRAY['memory.created', 'memory.updated', 'memory.deleted'],
+  memory_types memory_type[],
+  tags TEXT[],
+  topic_id UUID REFERENCES topics(id) ON DELETE SET NULL,
+  enabled BOOLEAN NOT NULL DEFAULT true,
+  last_delivery_at TIMESTAMPTZ,
+  last_failure_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_webhook_subscriptions_org
+  ON webhook_subscriptions(organization_id)
+  WHERE enabled;
+
+CREATE TABLE IF NOT EXISTS webhook_deliveries (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  subscription_id UUID NOT NULL REFERENCES webhook_subscriptions(id) ON DELETE CASCADE,
+  organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  event_id UUID NOT NULL,
+  event_type TEXT NOT NULL,
+  payload JSONB NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'retrying', 'succeeded', 'dead')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  next_attempt_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  last_status_code INTEGER,
+  last_error TEXT,
+  last_duration_ms INTEGER,
+  delivered_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_due
+  ON webhook_deliveries(next_attempt_at)
+  WHERE status IN ('pending', 'retrying');
+
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_subscription
+  ON webhook_deliveries(subscription_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_dead
+  ON webhook_deliveries(organization_id, updated_at DESC)
+  WHERE status = 'dead';
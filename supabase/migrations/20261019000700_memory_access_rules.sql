@@ -0,0 +1,71 @@
+-- Per-memory and per-topic access rules for /api/v1/memory.
+--
+-- A rule targets exactly one memory or one topic (covering every memory in
+-- it) and names a principal: a user, an app (OAuth client ID) or an API key.
+-- granted = true extends access beyond the organization defaults (owner
+-- and admins manage, members read non-personal memories); granted = false
+-- denies that permission and everything above it. Permissions are ordered
+-- read < write < delete < admin.
+--
+-- memory_access_logs records every allow/deny decision the API makes, plus
+-- rule grants and revocations. Rows are kept when the memory is deleted.
+
+CREATE TABLE IF NOT EXISTS memory_access_rules (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  memory_id UUID REFERENCES memory_entries(id) ON DELETE CASCADE,
+  topic_id UUID REFERENCES topics(id) ON DELETE CASCADE,
+  principal_type TEXT NOT NULL CHECK (principal_type IN ('user', 'app', 'api_key')),
+  principal_id TEXT NOT NULL,
+  permission TEXT NOT NULL CHECK (permission IN ('read', 'write', 'delete', 'admin')),
+  granted BOOLEAN NOT NULL DEFAULT true,
+  expires_at TIMESTAMPTZ,
+  created_by UUID,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CONSTRAINT memory_access_rules_one_target CHECK ((memory_id IS NULL) <> (topic_id IS NULL))
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_memory_access_rules_unique
+  ON memory_access_rules(
+    organization_id,
+    COALESCE(memory_id, topic_id),
+    principal_type,
+    principal_id,
+    permission,
+    granted
+  );
+
+CREATE INDEX IF NOT EXISTS idx_memory_access_rules_memory
+  ON memory_access_rules(memory_id)
+  WHERE memory_id IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_memory_access_rules_topic
+  ON memory_access_rules(topic_id)
+  WHERE topic_id IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_memory_access_rules_principal
+  ON memory_access_rules(organization_id, principal_type, principal_id);
+
+CREATE TABLE IF NOT EXISTS memory_access_logs (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  memory_id UUID,
+  topic_id UUID,
+  user_id UUID,
+  app_id TEXT,
+  api_key_id TEXT,
+  access_type TEXT NOT NULL,
+  success BOOLEAN NOT NULL,
+  reason TEXT,
+  rule_id UUID,
+  metadata JSONB NOT NULL DEFAULT '{}',
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_memory_access_logs_memory
+  ON memory_access_logs(memory_id, created_at DESC)
+  WHERE memory_id IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_memory_access_logs_org
+  ON memory_access_logs(organization_id, created_at DESC);
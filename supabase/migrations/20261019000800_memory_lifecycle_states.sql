@@ -0,0 +1,221 @@
+-- Memory lifecycle states for /api/v1/memory.
+--
+-- Every memory is active, paused, archived or deleted (in the trash).
+-- Search and list return active memories unless a state filter asks for
+-- more. DELETE moves a memory to the trash and sets purge_after; it can be
+-- restored until then, after which the purge job removes it for good.
+--
+-- transition_memory_states() changes the state of one or many memories and
+-- records each transition in one statement. A memory only moves when it is
+-- still in one of the expected source states (checked under a row lock), so
+-- two concurrent transitions cannot both succeed.
+--
+-- Compatible with src/db/schema-enhanced-mem0.sql, which may already have
+-- created the enum, the state/archived_at/deleted_at columns and the
+-- transitions table.
+
+DO $$
+BEGIN
+  CREATE TYPE memory_state AS ENUM ('active', 'paused', 'archived', 'deleted');
+EXCEPTION
+  WHEN duplicate_object THEN NULL;
+END $$;
+
+ALTER TABLE memory_entries
+  ADD COLUMN IF NOT EXISTS state memory_state NOT NULL DEFAULT 'active',
+  ADD COLUMN IF NOT EXISTS paused_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS archived_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS purge_after TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_memory_entries_org_state
+  ON memory_entries(organization_id, state);
+
+CREATE INDEX IF NOT EXISTS idx_memory_entries_purge_after
+  ON memory_entries(purge_after)
+  WHERE state = 'deleted';
+
+CREATE TABLE IF NOT EXISTS memory_state_transitions (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  memory_id UUID NOT NULL REFERENCES memory_entries(id) ON DELETE CASCADE,
+  from_state memory_state NOT NULL,
+  to_state memory_state NOT NULL,
+  reason TEXT,
+  metadata JSONB DEFAULT '{}',
+  changed_by UUID,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_memory_state_transitions_memory
+  ON memory_state_transitions(memory_id, created_at DESC);
+
+CREATE OR REPLACE FUNCTION transition_memory_states(
+  memory_ids_param uuid[],
+  organization_id_param uuid,
+  from_states_param memory_state[],
+  to_state_param memory_state,
+  reason_param text DEFAULT NULL,
+  changed_by_param uuid DEFAULT NULL,
+  metadata_param jsonb DEFAULT '{}',
+  retention_days_param int DEFAULT 30,
+  owner_id_param uuid DEFAULT NULL
+)
+RETURNS SETOF memory_entries
+LANGUAGE sql AS $$
+  WITH targets AS (
+    SELECT me.id, me.state AS from_state
+    FROM memory_entries me
+    WHERE me.id = ANY(memory_ids_param)
+      AND me.organization_id = organization_id_param
+      AND me.state = ANY(from_states_param)
+      AND me.state <> to_state_param
+      AND (owner_id_param IS NULL OR me.user_id = owner_id_param)
+    FOR UPDATE
+  ),
+  logged AS (
+    INSERT INTO memory_state_transitions (memory_id, from_state, to_state, reason, metadata, changed_by)
+    SELECT t.id, t.from_state, to_state_param, reason_param, COALESCE(metadata_param, '{}'), changed_by_param
+    FROM targets t
+  )
+  UPDATE memory_entries me
+  SET
+    state = to_state_param,
+    paused_at = CASE WHEN to_state_param = 'paused' THEN NOW() END,
+    archived_at = CASE WHEN to_state_param = 'archived' THEN NOW() END,
+    deleted_at = CASE WHEN to_state_param = 'deleted' THEN NOW() END,
+    purge_after = CASE
+      WHEN to_state_param = 'deleted' THEN NOW() + make_interval(days => retention_days_param)
+    END,
+    updated_at = NOW()
+  FROM targets t
+  WHERE me.id = t.id
+  RETURNING me.*;
+$$;
+
+DROP FUNCTION IF EXISTS match_memories(vector, float, int, uuid, memory_type[], text[], uuid, uuid, text, text, int);
+
+CREATE OR REPLACE FUNCTION match_memories(
+  query_embedding vector(1536),
+  match_threshold float DEFAULT 0.7,
+  match_count int DEFAULT 20,
+  organization_id_param uuid DEFAULT NULL,
+  memory_types_param memory_type[] DEFAULT NULL,
+  tags_param text[] DEFAULT NULL,
+  topic_id_param uuid DEFAULT NULL,
+  user_id_param uuid DEFAULT NULL,
+  embedding_provider_param text DEFAULT NULL,
+  embedding_model_param text DEFAULT NULL,
+  embedding_dimensions_param int DEFAULT NULL,
+  states_param memory_state[] DEFAULT ARRAY['active']::memory_state[]
+)
+RETURNS TABLE (
+  id uuid,
+  title varchar(200),
+  content text,
+  memory_type memory_type,
+  tags text[],
+  topic_id uuid,
+  user_id uuid,
+  organization_id uuid,
+  metadata jsonb,
+  state memory_state,
+  created_at timestamptz,
+  updated_at timestamptz,
+  last_accessed timestamptz,
+  access_count integer,
+  relevance_score float
+) LANGUAGE sql STABLE AS $$
+  SELECT
+    me.id,
+    me.title,
+    me.content,
+    me.memory_type,
+    me.tags,
+    me.topic_id,
+    me.user_id,
+    me.organization_id,
+    me.metadata,
+    me.state,
+    me.created_at,
+    me.updated_at,
+    me.last_accessed,
+    me.access_count,
+    1 - (me.embedding <=> query_embedding) AS relevance_score
+  FROM memory_entries me
+  WHERE
+    (organization_id_param IS NULL OR me.organization_id = organization_id_param)
+    AND (memory_types_param IS NULL OR me.memory_type = ANY(memory_types_param))
+    AND (tags_param IS NULL OR me.tags && tags_param)
+    AND (topic_id_param IS NULL OR me.topic_id = topic_id_param)
+    AND (user_id_param IS NULL OR me.user_id = user_id_param)
+    AND (embedding_provider_param IS NULL OR me.embedding_provider = embedding_provider_param)
+    AND (embedding_model_param IS NULL OR me.embedding_model = embedding_model_param)
+    AND (embedding_dimensions_param IS NULL OR me.embedding_dimensions = embedding_dimensions_param)
+    AND (states_param IS NULL OR me.state = ANY(states_param))
+    AND (me.embedding <=> query_embedding) < (1 - match_threshold)
+    AND me.embedding IS NOT NULL
+  ORDER BY me.embedding <=> query_embedding
+  LIMIT match_count;
+$$;
+
+DROP FUNCTION IF EXISTS match_memories_lexical(text, int, uuid, memory_type[], text[], uuid, uuid);
+
+CREATE OR REPLACE FUNCTION match_memories_lexical(
+  query_text text,
+  match_count int DEFAULT 20,
+  organization_id_param uuid DEFAULT NULL,
+  memory_types_param memory_type[] DEFAULT NULL,
+  tags_param text[] DEFAULT NULL,
+  topic_id_param uuid DEFAULT NULL,
+  user_id_param uuid DEFAULT NULL,
+  states_param memory_state[] DEFAULT ARRAY['active']::memory_state[]
+)
+RETURNS TABLE (
+  id uuid,
+  title varchar(200),
+  content text,
+  memory_type memory_type,
+  tags text[],
+  topic_id uuid,
+  user_id uuid,
+  organization_id uuid,
+  metadata jsonb,
+  state memory_state,
+  created_at timestamptz,
+  updated_at timestamptz,
+  last_accessed timestamptz,
+  access_count integer,
+  lexical_score float
+) LANGUAGE sql STABLE AS $$
+  WITH q AS (
+    SELECT websearch_to_tsquery('simple', query_text) AS tsq
+  )
+  SELECT
+    me.id,
+    me.title,
+    me.content,
+    me.memory_type,
+    me.tags,
+    me.topic_id,
+    me.user_id,
+    me.organization_id,
+    me.metadata,
+    me.state,
+    me.created_at,
+    me.updated_at,
+    me.last_accessed,
+    me.access_count,
+    -- normalization 32 maps rank into [0, 1): rank / (rank + 1)
+    ts_rank_cd(me.search_vector, q.tsq, 32)::float AS lexical_score
+  FROM memory_entries me, q
+  WHERE
+    me.search_vector @@ q.tsq
+    AND (organization_id_param IS NULL OR me.organization_id = organization_id_param)
+    AND (memory_types_param IS NULL OR me.memory_type = ANY(memory_types_param))
+    AND (tags_param IS NULL OR me.tags && tags_param)
+    AND (topic_id_param IS NULL OR me.topic_id = topic_id_param)
+    AND (user_id_param IS NULL OR me.user_id = user_id_param)
+    AND (states_param IS NULL OR me.state = ANY(states_param))
+  ORDER BY lexical_score DESC, me.updated_at DESC
+  LIMIT match_count;
+$$;
@@ -0,0 +1,84 @@
+-- Reasoning pipeline tables and job claiming.
+--
+-- memory_inference_jobs queues memories to reason over for a subject (a user
+-- or an organization); memory_inferred_conclusions holds what the pipeline
+-- concluded, with the memories that support each conclusion. A conclusion
+-- replaced by newer information points at its replacement through
+-- superseded_by; conclusions that disagree share a contradiction_group_id and
+-- all stay active until one is resolved.
+--
+-- claim_reasoning_jobs() moves pending jobs to running under SKIP LOCKED, so
+-- the API process, standalone workers and the Edge Function can poll the same
+-- queue without processing a job twice. Running jobs whose worker died are
+-- reclaimed once stale_after_param has passed.
+
+CREATE TABLE IF NOT EXISTS memory_inference_jobs (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  subject_id TEXT NOT NULL,
+  organization_id UUID REFERENCES organizations(id) ON DELETE CASCADE,
+  source_memory_ids UUID[] NOT NULL DEFAULT '{}',
+  status TEXT NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'running', 'completed', 'failed')),
+  source_event TEXT NOT NULL DEFAULT 'memory.create'
+    CHECK (source_event IN ('memory.create', 'memory.update', 'manual.flush', 'reprocess')),
+  pending_token_count INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  started_at TIMESTAMPTZ,
+  completed_at TIMESTAMPTZ,
+  error TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_memory_inference_jobs_pending
+  ON memory_inference_jobs(subject_id, created_at)
+  WHERE status IN ('pending', 'running');
+
+CREATE TABLE IF NOT EXISTS memory_inferred_conclusions (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  subject_id TEXT NOT NULL,
+  organization_id UUID REFERENCES organizations(id) ON DELETE CASCADE,
+  conclusion_type TEXT NOT NULL
+    CHECK (conclusion_type IN ('explicit', 'deductive', 'inductive', 'abductive')),
+  content TEXT NOT NULL,
+  confidence REAL NOT NULL CHECK (confidence BETWEEN 0 AND 1),
+  evidence_memory_ids UUID[] NOT NULL DEFAULT '{}',
+  scope TEXT,
+  freshness TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  superseded_by UUID REFERENCES memory_inferred_conclusions(id) ON DELETE SET NULL,
+  contradiction_group_id UUID,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  source_job_id UUID REFERENCES memory_inference_jobs(id) ON DELETE SET NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_memory_inferred_conclusions_active
+  ON memory_inferred_conclusions(subject_id, confidence DESC)
+  WHERE superseded_by IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_memory_inferred_conclusions_contradictions
+  ON memory_inferred_conclusions(contradiction_group_id)
+  WHERE contradiction_group_id IS NOT NULL;
+
+CREATE OR REPLACE FUNCTION claim_reasoning_jobs(
+  limit_param int DEFAULT 10,
+  subject_id_param text DEFAULT NULL,
+  stale_after_param interval DEFAULT interval '15 minutes'
+)
+RETURNS SETOF memory_inference_jobs
+LANGUAGE sql AS $$
+  WITH claimable AS (
+    SELECT j.id
+    FROM memory_inference_jobs j
+    WHERE (subject_id_param IS NULL OR j.subject_id = subject_id_param)
+      AND (
+        j.status = 'pending'
+        OR (j.status = 'running' AND j.started_at < NOW() - stale_after_param)
+      )
+    ORDER BY j.created_at
+    LIMIT limit_param
+    FOR UPDATE SKIP LOCKED
+  )
+  UPDATE memory_inference_jobs j
+  SET status = 'running', started_at = NOW(), completed_at = NULL, error = NULL
+  FROM claimable c
+  WHERE j.id = c.id
+  RETURNING j.*;
+$$;
@@ -0,0 +1,102 @@
+-- Human resolution of contradicting inferred conclusions.
+--
+-- The reasoning pipeline groups conclusions that disagree under a shared
+-- contradiction_group_id and leaves them all active. A person resolves a
+-- group either by accepting one conclusion (the others are superseded by it)
+-- or by keeping all of them, each limited to a scope ("at work", "on
+-- weekends"). The decision is recorded in memory_conclusion_resolutions and
+-- every member points at it through resolution_id.
+--
+-- The pipeline reads resolution_id back: a conclusion a person chose is never
+-- superseded automatically (new evidence against it opens a new contradiction
+-- instead), and rejected conclusions are not proposed again, so profile
+-- fields built from active conclusions stop flip-flopping between runs.
+
+CREATE TABLE IF NOT EXISTS memory_conclusion_resolutions (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  subject_id TEXT NOT NULL,
+  organization_id UUID REFERENCES organizations(id) ON DELETE CASCADE,
+  contradiction_group_id UUID NOT NULL,
+  action TEXT NOT NULL CHECK (action IN ('accept', 'scope')),
+  winner_id UUID REFERENCES memory_inferred_conclusions(id) ON DELETE SET NULL,
+  conclusion_ids UUID[] NOT NULL,
+  scopes JSONB NOT NULL DEFAULT '{}',
+  note TEXT,
+  resolved_by TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_memory_conclusion_resolutions_subject
+  ON memory_conclusion_resolutions(subject_id, created_at DESC);
+
+ALTER TABLE memory_inferred_conclusions
+  ADD COLUMN IF NOT EXISTS resolution_id UUID
+    REFERENCES memory_conclusion_resolutions(id) ON DELETE SET NULL;
+
+-- Resolve one contradiction group. Only unresolved, active members are
+-- touched (checked under a row lock), so two reviewers resolving the same
+-- group cannot both succeed: the second call returns no rows.
+CREATE OR REPLACE FUNCTION resolve_contradiction_group(
+  group_id_param uuid,
+  subject_id_param text,
+  action_param text,
+  organization_id_param uuid DEFAULT NULL,
+  winner_id_param uuid DEFAULT NULL,
+  scopes_param jsonb DEFAULT '{}',
+  note_param text DEFAULT NULL,
+  resolved_by_param text DEFAULT NULL
+)
+RETURNS SETOF memory_inferred_conclusions
+LANGUAGE plpgsql AS $$
+DECLARE
+  member_ids uuid[];
+  resolution_id_var uuid;
+BEGIN
+  SELECT array_agg(locked.id ORDER BY locked.created_at)
+  INTO member_ids
+  FROM (
+    SELECT c.id, c.created_at
+    FROM memory_inferred_conclusions c
+    WHERE c.contradiction_group_id = group_id_param
+      AND c.subject_id = subject_id_param
+      AND (organization_id_param IS NULL OR c.organization_id = organization_id_param)
+      AND c.superseded_by IS NULL
+    FOR UPDATE
+  ) locked;
+
+  IF member_ids IS NULL THEN
+    RETURN;
+  END IF;
+
+  IF action_param = 'accept' AND (winner_id_param IS NULL OR NOT winner_id_param = ANY(member_ids)) THEN
+    RAISE EXCEPTION 'winner % is not in contradiction group %', winner_id_param, group_id_param
+      USING ERRCODE = '22023';
+  END IF;
+
+  INSERT INTO memory_conclusion_resolutions (
+    subject_id, organization_id, contradiction_group_id, action,
+    winner_id, conclusion_ids, scopes, note, resolved_by
+  )
+  VALUES (
+    subject_id_param, organization_id_param, group_id_param, action_param,
+    CASE WHEN action_param = 'accept' THEN winner_id_param END,
+    member_ids, COALESCE(scopes_param, '{}'), note_param, resolved_by_param
+  )
+  RETURNING id INTO resolution_id_var;
+
+  RETURN QUERY
+  UPDATE memory_inferred_conclusions c
+  SET
+    contradiction_group_id = NULL,
+    resolution_id = resolution_id_var,
+    superseded_by = CASE
+      WHEN action_param = 'accept' AND c.id <> winner_id_param THEN winner_id_param
+    END,
+    scope = CASE
+      WHEN action_param = 'scope' THEN COALESCE(scopes_param->>(c.id::text), c.scope)
+      ELSE c.scope
+    END
+  WHERE c.id = ANY(member_ids)
+  RETURNING c.*;
+END;
+$$;
@@ -0,0 +1,116 @@
+-- Profile editing, pinned fields and field-level provenance.
+--
+-- memory_profiles holds one profile per subject, built by the reasoning
+-- pipeline from active conclusions; every change is recorded as a row in
+-- memory_profile_versions and the profile points at the newest one through
+-- head_version_id.
+--
+-- People can now edit a profile directly and pin fields. Reasoning never
+-- rewrites a pinned field, and field_evidence records per field whether its
+-- items came from reasoning (with the conclusions and memories behind them)
+-- or from a manual edit (with who made it). conclusions carry the
+-- profile_field they feed.
+--
+-- revise_memory_profile() is the single write path for both the reasoner and
+-- manual edits. It writes only when the profile's head still equals
+-- expected_head_param, so a reasoning run that started before a manual edit
+-- cannot overwrite it; the caller gets no rows back, reloads and retries.
+
+CREATE TABLE IF NOT EXISTS memory_profiles (
+  subject_id TEXT PRIMARY KEY,
+  organization_id UUID REFERENCES organizations(id) ON DELETE CASCADE,
+  profile_summary TEXT,
+  structured_fields JSONB NOT NULL DEFAULT
+    '{"preferences": [], "goals": [], "constraints": [], "tendencies": [], "facts": []}',
+  last_reasoned_at TIMESTAMPTZ,
+  freshness TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  confidence_by_field JSONB NOT NULL DEFAULT '{}',
+  head_version_id UUID,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS memory_profile_versions (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  profile_id TEXT NOT NULL REFERENCES memory_profiles(subject_id) ON DELETE CASCADE,
+  diff JSONB NOT NULL DEFAULT '{}',
+  source_job_id UUID REFERENCES memory_inference_jobs(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_memory_profile_versions_profile
+  ON memory_profile_versions(profile_id, created_at DESC);
+
+ALTER TABLE memory_profiles
+  ADD COLUMN IF NOT EXISTS pinned_fields TEXT[] NOT NULL DEFAULT '{}',
+  ADD COLUMN IF NOT EXISTS field_evidence JSONB NOT NULL DEFAULT '{}';
+
+ALTER TABLE memory_profile_versions
+  ADD COLUMN IF NOT EXISTS edited_by TEXT;
+
+ALTER TABLE memory_inferred_conclusions
+  ADD COLUMN IF NOT EXISTS profile_field TEXT
+    CHECK (profile_field IN ('preferences', 'goals', 'constraints', 'tendencies', 'facts'));
+
+CREATE OR REPLACE FUNCTION revise_memory_profile(
+  subject_id_param text,
+  structured_fields_param jsonb,
+  diff_param jsonb,
+  organization_id_param uuid DEFAULT NULL,
+  expected_head_param uuid DEFAULT NULL,
+  profile_summary_param text DEFAULT NULL,
+  pinned_fields_param text[] DEFAULT '{}',
+  field_evidence_param jsonb DEFAULT '{}',
+  confidence_by_field_param jsonb DEFAULT '{}',
+  source_job_id_param uuid DEFAULT NULL,
+  edited_by_param text DEFAULT NULL
+)
+RETURNS SETOF memory_profiles
+LANGUAGE plpgsql AS $$
+DECLARE
+  current_head uuid;
+  profile_exists boolean;
+  version_id_var uuid;
+BEGIN
+  SELECT true, p.head_version_id
+  INTO profile_exists, current_head
+  FROM memory_profiles p
+  WHERE p.subject_id = subject_id_param
+    AND (organization_id_param IS NULL OR p.organization_id = organization_id_param)
+  FOR UPDATE;
+
+  IF profile_exists IS NULL THEN
+    -- Only the reasoner creates profiles; an edit needs one to exist.
+    IF source_job_id_param IS NULL OR expected_head_param IS NOT NULL THEN
+      RETURN;
+    END IF;
+    INSERT INTO memory_profiles (subject_id, organization_id)
+    VALUES (subject_id_param, organization_id_param)
+    ON CONFLICT (subject_id) DO NOTHING;
+    IF NOT FOUND THEN
+      RETURN;
+    END IF;
+  ELSIF current_head IS DISTINCT FROM expected_head_param THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO memory_profile_versions (profile_id, diff, source_job_id, edited_by)
+  VALUES (subject_id_param, diff_param, source_job_id_param, edited_by_param)
+  RETURNING id INTO version_id_var;
+
+  RETURN QUERY
+  UPDATE memory_profiles p
+  SET
+    profile_summary = profile_summary_param,
+    structured_fields = structured_fields_param,
+    pinned_fields = COALESCE(pinned_fields_param, '{}'),
+    field_evidence = COALESCE(field_evidence_param, '{}'),
+    confidence_by_field = COALESCE(confidence_by_field_param, '{}'),
+    head_version_id = version_id_var,
+    freshness = NOW(),
+    last_reasoned_at = CASE WHEN source_job_id_param IS NOT NULL THEN NOW() ELSE p.last_reasoned_at END,
+    updated_at = NOW()
+  WHERE p.subject_id = subject_id_param
+  RETURNING p.*;
+END;
+$$;
@@ -0,0 +1,19 @@
+-- Conversation state for POST /api/v1/orchestrate.
+--
+-- ContextualOrchestrator keeps per-session context (the last memory touched,
+-- the last search results, the last UI link) so follow-up commands like
+-- "delete it" resolve, plus a short history of turns. Each request loads the
+-- session by id and owner and writes it back after the command runs; a
+-- session id belonging to another user is treated as not found.
+
+CREATE TABLE IF NOT EXISTS orchestrator_sessions (
+  id UUID PRIMARY KEY,
+  user_id TEXT,
+  context JSONB NOT NULL DEFAULT '{}',
+  history JSONB NOT NULL DEFAULT '[]',
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_orchestrator_sessions_user
+  ON orchestrator_sessions(user_id, updated_at DESC);
@@ -0,0 +1,274 @@
+import { readFileSync } from 'node:fs';
+import { dirname, resolve } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import type { Router } from 'express';
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+
+import {
+  API_ROUTES,
+  ApiKeyClient,
+  IntelligenceClient,
+  LanonasisClient,
+  MCPClient,
+  MemoryClient,
+  NotFoundError,
+  PermissionError,
+  RateLimitError,
+  resolvePath,
+  type ApiRoute,
+} from '../../packages/lanonasis-sdk/src/index';
+
+// Router modules build OpenAI clients at import time; the shared setup mock
+// is not constructible
+vi.mock('openai', () => ({
+  default: class {
+    embeddings = { create: vi.fn() };
+    chat = { completions: { create: vi.fn() } };
+  },
+}));
+
+const rootDir = resolve(dirname(fileURLToPath(import.meta.url)), '../..');
+
+interface ExpressRoute {
+  method: string;
+  path: string;
+}
+
+interface RecordedRequest {
+  method: string;
+  url: string;
+}
+
+const allSdkRoutes = (): ApiRoute[] =>
+  Object.values(API_ROUTES).flatMap((group) => Object.values(group) as ApiRoute[]);
+
+const joinPath = (mount: string, path: string) => (path === '/' ? mount : `${mount}${path}`);
+
+/**
+ * Read the `/api/v1/...` mounts and the router module behind each from
+ * server.ts, so a moved or renamed mount fails this suite
+ */
+function readServerMounts(): Array<{ mount: string; module: string }> {
+  const source = readFileSync(resolve(rootDir, 'src/server.ts'), 'utf8');
+
+  const modules = new Map<string, string>();
+  for (const match of source.matchAll(/^import (\w+)(?:, \{[^}]*\})? from '@\/routes\/([\w-]+)';$/gm)) {
+    modules.set(match[1], match[2]);
+  }
+
+  const mounts: Array<{ mount: string; module: string }> = [];
+  const mountPattern = /app\.use\(`\$\{config\.API_PREFIX\}\/\$\{config\.API_VERSION\}(\/[\w/-]+)`,[^;]*?(\w+)\);/g;
+  for (const match of source.matchAll(mountPattern)) {
+    const module = modules.get(match[2]);
+    if (module) mounts.push({ mount: `/api/v1${match[1]}`, module });
+  }
+  return mounts;
+}
+
+/**
+ * Express routes in registration order, for every mount an SDK route uses
+ */
+async function loadExpressRoutes(): Promise<ExpressRoute[]> {
+  const sdkPaths = allSdkRoutes().map((route) => route.path);
+  const used = readServerMounts().filter(({ mount }) =>
+    sdkPaths.some((path) => path === mount || path.startsWith(`${mount}/`))
+  );
+
+  const routes: ExpressRoute[] = [];
+  for (const { mount, module } of used) {
+    const router = (await import(resolve(rootDir, 'src/routes', `${module}.ts`))).default as Router;
+    for (const layer of router.stack) {
+      if (!layer.route) continue;
+      const methods = Object.keys((layer.route as unknown as { methods: Record<string, boolean> }).methods);
+      for (const method of methods) {
+        routes.push({ method: method.toUpperCase(), path: joinPath(mount, layer.route.path as string) });
+      }
+    }
+  }
+  return routes;
+}
+
+const segments = (path: string) => path.split('/').filter(Boolean);
+
+const matchesConcretePath = (template: string, concrete: string) => {
+  const expected = segments(template);
+  const actual = segments(concrete);
+  return expected.length === actual.length
+    && expected.every((segment, index) => segment.startsWith(':') || segment === actual[index]);
+};
+
+/**
+ * The Express route a request would be dispatched to: the first registered
+ * route whose method and path match, as Express itself picks it
+ */
+function dispatch(routes: ExpressRoute[], method: string, url: string): ExpressRoute | undefined {
+  const path = url.split('?')[0];
+  return routes.find((route) => route.method === method && matchesConcretePath(route.path, path));
+}
+
+const samplePath = (path: string) =>
+  resolvePath(path, Object.fromEntries(
+    segments(path).filter((segment) => segment.startsWith(':')).map((segment) => [segment.slice(1), `sample-${segment.slice(1)}`])
+  ));
+
+function createRecordingHttpClient(requests: RecordedRequest[]) {
+  return {
+    request: vi.fn(async (config: { method: string; url: string; responseType?: string }) => {
+      requests.push({ method: config.method, url: config.url });
+      const data = config.responseType === 'text'
+        ? '{"id":"m1"}\n'
+        : { rules: [], profile: {}, versions: [], evidence: [], conclusions: [], job: {}, groups: [] };
+      return { data };
+    }),
+  };
+}
+
+describe('SDK route contract', () => {
+  let expressRoutes: ExpressRoute[];
+
+  beforeAll(async () => {
+    expressRoutes = await loadExpressRoutes();
+  });
+
+  it('dispatches every SDK route to the Express route with the same template', () => {
+    expect(expressRoutes.length).toBeGreaterThan(0);
+
+    for (const route of allSdkRoutes()) {
+      const target = dispatch(expressRoutes, route.method, samplePath(route.path));
+      expect(target, `${route.method} ${route.path}`).toBeDefined();
+      expect(`${target!.method} ${target!.path}`).toBe(`${route.method} ${route.path}`);
+    }
+  });
+
+  it('sends every client call through a route in the table and covers the whole table', async () => {
+    const requests: RecordedRequest[] = [];
+    const http = createRecordingHttpClient(requests) as never;
+    const memory = new MemoryClient(http, {});
+    const intelligence = new IntelligenceClient(http, {});
+    const apiKeys = new ApiKeyClient(http, {});
+    const mcp = new MCPClient(http, {});
+
+    await memory.create({ title: 'Note', content: 'Body' });
+    await memory.list({ tags: ['a', 'b'], state: ['active', 'paused'] });
+    await memory.search('query');
+    await memory.buildContext({ query: 'query' });
+    await memory.import([{ title: 'Note', content: 'Body' }]);
+    await memory.export({ topic_id: 't1' });
+    await memory.trash();
+    await memory.stats();
+    await memory.bulkTransition({ memory_ids: ['m1'], action: 'archive' });
+    await memory.bulkDelete(['m1']);
+    await memory.get('m1');
+    await memory.update('m1', { title: 'Renamed' });
+    await memory.delete('m1', { permanent: true });
+    await memory.archive('m1');
+    await memory.pause('m1');
+    await memory.resume('m1');
+    await memory.restore('m1');
+    await memory.transitions('m1');
+    await memory.listAccess('m1');
+    await memory.grantAccess('m1', { principal_type: 'user', principal_id: 'u1', permission: 'read' });
+    await memory.revokeAccess('m1', 'r1');
+    await memory.accessAudit('m1');
+    await memory.versions('m1');
+    await memory.getVersion('m1', 2);
+    await memory.diff('m1', 1, 2);
+    await memory.restoreVersion('m1', 1);
+
+    await memory.topics.list({ parent_id: 'root' });
+    await memory.topics.tree();
+    await memory.topics.create({ name: 'Topic' });
+    await memory.topics.get('t1');
+    await memory.topics.update('t1', { name: 'Renamed' });
+    await memory.topics.delete('t1', { memories: 'move', target_topic_id: 't2' });
+    await memory.topics.memories('t1');
+    await memory.topics.listAccess('t1');
+    await memory.topics.grantAccess('t1', { principal_type: 'app', principal_id: 'a1', permission: 'write' });
+    await memory.topics.revokeAccess('t1', 'r1');
+
+    await intelligence.conclusions('s1');
+    await intelligence.getJob('j1');
+    await intelligence.flush('s1');
+    await intelligence.contradictions('s1');
+    await intelligence.resolveContradiction('s1', 'g1', { action: 'accept', winner_id: 'c1' });
+    await intelligence.profiles.get('s1');
+    await intelligence.profiles.versions('s1');
+    await intelligence.profiles.update('s1', { profile_summary: 'Summary' });
+    await intelligence.profiles.setPins('s1', { pin: ['goals'] });
+    await intelligence.profiles.evidence('s1', 'goals');
+    await intelligence.profiles.ask('s1', 'What does this user prefer?');
+
+    await apiKeys.createProject({ name: 'Project', organizationId: 'o1' });
+    await apiKeys.listProjects();
+    await apiKeys.create({ name: 'key', value: 'secret', keyType: 'api_key', projectId: 'p1' });
+    await apiKeys.list({ projectId: 'p1' });
+    await apiKeys.get('k1');
+    await apiKeys.update('k1', { tags: ['x'] });
+    await apiKeys.delete('k1');
+    await apiKeys.usageAnalytics({ days: 7 });
+    await apiKeys.securityEvents({ severity: 'high' });
+
+    await mcp.registerTool({ toolId: 'tool', toolName: 'Tool', organizationId: 'o1', permissions: { keys: ['key'], environments: ['production'] } });
+    await mcp.listTools();
+    await mcp.requestAccess({
+      toolId: 'tool',
+      organizationId: 'o1',
+      keyNames: ['key'],
+      environment: 'production',
+      justification: 'Deploy',
+      estimatedDuration: 600,
+    });
+    await mcp.getSession('s1');
+    await mcp.endSession('s1');
+    await mcp.createProxyToken('s1', 'stripe key');
+    await mcp.resolveProxyToken('pt_1');
+
+    const hit = new Set<string>();
+    for (const request of requests) {
+      const target = dispatch(expressRoutes, request.method, request.url);
+      expect(target, `${request.method} ${request.url}`).toBeDefined();
+      hit.add(`${target!.method} ${target!.path}`);
+    }
+
+    const tableRoutes = allSdkRoutes().map((route) => `${route.method} ${route.path}`);
+    expect(tableRoutes.filter((route) => !hit.has(route))).toEqual([]);
+    expect(requests).toContainEqual({ method: 'POST', url: '/api/v1/mcp/api-keys/sessions/s1/keys/stripe%20key/proxy-token' });
+  });
+});
+
+describe('LanonasisClient transport', () => {
+  const respondWith = (status: number, data: unknown, headers: Record<string, string> = {}) => {
+    const seen: Array<Record<string, unknown>> = [];
+    const client = new LanonasisClient({ apiUrl: 'http://api.test', apiKey: 'lano_test' });
+    (client as unknown as { httpClient: { defaults: { adapter: unknown } } }).httpClient.defaults.adapter =
+      async (config: { headers: Record<string, unknown> }) => {
+        seen.push({ ...config.headers });
+        const response = { data, status, statusText: String(status), headers, config };
+        if (status >= 400) {
+          throw Object.assign(new Error(`Request failed with status code ${status}`), { response, config });
+        }
+        return response;
+      };
+    return { client, seen };
+  };
+
+  it('sends the project scope and credentials with every request', async () => {
+    const { client, seen } = respondWith(200, { id: 'm1' });
+
+    await expect(client.memory.get('m1')).resolves.toEqual({ id: 'm1' });
+    expect(seen[0]).toMatchObject({ 'X-Project-Scope': 'lanonasis-maas', 'X-API-Key': 'lano_test' });
+  });
+
+  it('maps error responses to typed errors across body shapes', async () => {
+    await expect(respondWith(404, { error: 'Not Found', message: 'Memory not found' }).client.memory.get('m1'))
+      .rejects.toThrow(NotFoundError);
+    await expect(respondWith(403, { error: { message: 'Invalid project scope', type: 'AuthError', code: 'INVALID_PROJECT_SCOPE' } }).client.memory.get('m1'))
+      .rejects.toMatchObject({ name: 'PermissionError', message: 'Invalid project scope' });
+    await expect(respondWith(403, { error: 'Subject is outside the authenticated visibility boundary' }).client.intelligence.flush('s1'))
+      .rejects.toThrow(PermissionError);
+
+    const limited = respondWith(429, { error: 'Too many requests' }, { 'retry-after': '30' });
+    await expect(limited.client.memory.list()).rejects.toBeInstanceOf(RateLimitError);
+    await expect(limited.client.memory.list()).rejects.toMatchObject({ retryAfter: 30 });
+  });
+});